@@ -4,8 +4,17 @@
  * POST /api/cleanup/archive
  *
  * Archives all emails from specified sender(s) by removing the INBOX label.
- * Uses local database for message IDs (fast) then archives in Gmail.
- * Requires authenticated user with connected Gmail account.
+ * Uses local database for message IDs (fast) then archives via the account's mail provider.
+ * Requires authenticated user with a connected email account.
+ *
+ * Pass `operationId` (a client-generated UUID) to follow progress live via
+ * GET /api/progress/stream?operationId=...
+ *
+ * Pass `groupIds` (or `groupId`) to act on merged senders - each is expanded
+ * to its name+email members, which count toward the 10-sender limit.
+ *
+ * Pass `dryRun: true` to see exactly what would be archived (per-sender counts,
+ * sample subjects, receipt/security warnings) without changing anything.
  */
 
 import type { VercelRequest, VercelResponse } from '@vercel/node';
@@ -13,12 +22,16 @@ import { createClient } from '@supabase/supabase-js';
 import { requireEmailVerification, AuthenticatedRequest } from '../lib/auth-middleware.js';
 import { rateLimit } from '../lib/rate-limiter.js';
 
-import { getValidAccessToken } from '../lib/gmail.js';
-import { getValidOutlookAccessToken } from '../lib/outlook.js';
-import { batchArchiveMessages, archiveEmailsFromSender } from '../lib/gmail-api.js';
-import { batchArchiveMessages as outlookBatchArchiveMessages } from '../lib/outlook-api.js';
+import { getMailProvider } from '../providers/index.js';
 import { checkFreeTrialOrPaid } from '../lib/free-trial.js';
 import { withSentry } from '../lib/sentry.js';
+import { respondProviderUnavailable } from '../lib/provider-quota.js';
+import { lockAccountOrRespond, releaseAccountLock, AccountLock } from '../lib/account-lock.js';
+import { startOperationProgress, updateOperationProgress, finishOperationProgress, ProgressError } from '../lib/progress.js';
+import { withIdempotency } from '../lib/idempotency.js';
+import { buildCleanupPreview, loadSenderEmailsForPreview } from '../lib/cleanup-preview.js';
+import { MAX_JOB_SENDERS } from '../lib/cleanup-jobs.js';
+import { parseGroupIds, toCleanupTargets, resolveCleanupTargetsOrRespond } from '../lib/sender-groups.js';
 
 const supabase = createClient(
   process.env.VITE_SUPABASE_URL!,
@@ -48,7 +61,7 @@ async function handler(
   const user = requireEmailVerification(req as AuthenticatedRequest, res);
   if (!user) return;
 
-  const { accountEmail, senderEmails, senderNames } = req.body;
+  const { accountEmail, senderEmails: requestedEmails, senderNames: requestedNames, operationId: requestedOperationId, dryRun } = req.body;
 
   // Validate input
   if (!accountEmail) {
@@ -58,29 +71,46 @@ async function handler(
     });
   }
 
-  if (!senderEmails || !Array.isArray(senderEmails) || senderEmails.length === 0) {
+  // Merged senders are expanded to their name+email members once the account is known
+  const { groupIds, error: groupIdsError } = parseGroupIds(req.body);
+  if (!groupIds) {
+    return res.status(400).json({
+      error: groupIdsError,
+      code: 'INVALID_GROUP_IDS'
+    });
+  }
+
+  // senderNames is optional but if provided must match senderEmails length
+  const explicitTargets = toCleanupTargets(requestedEmails, requestedNames);
+  if (explicitTargets.length === 0 && groupIds.length === 0) {
     return res.status(400).json({
       error: 'At least one sender email is required',
       code: 'MISSING_SENDER_EMAILS'
     });
   }
 
-  // Limit to 10 senders at once
-  if (senderEmails.length > 10) {
+  // Limit to 10 senders at once - larger selections go through POST /api/cleanup/jobs
+  // (dry runs can preview a selection of job size)
+  const maxSenders = dryRun ? MAX_JOB_SENDERS : 10;
+  const tooManySendersMessage = dryRun
+    ? `Maximum ${MAX_JOB_SENDERS} senders can be previewed at once`
+    : 'Maximum 10 senders can be processed at once. Use a cleanup job for larger selections.';
+  if (explicitTargets.length > maxSenders) {
     return res.status(400).json({
-      error: 'Maximum 10 senders can be processed at once',
+      error: tooManySendersMessage,
       code: 'TOO_MANY_SENDERS'
     });
   }
 
-  // senderNames is optional but if provided must match senderEmails length
-  const hasSenderNames = senderNames && Array.isArray(senderNames) && senderNames.length === senderEmails.length;
+  // Live progress for GET /api/progress/stream?operationId=... (null if the client didn't ask)
+  let operationId: string | null = null;
+  let lock: AccountLock | null = null;
 
   try {
     // Get email account
     const { data: account, error: accountError } = await supabase
       .from('email_accounts')
-      .select('id, gmail_email, provider, connection_status')
+      .select('id, email, gmail_email, provider, connection_status')
       .eq('user_id', user.userId)
       .eq('email', accountEmail)
       .single();
@@ -92,6 +122,25 @@ async function handler(
       });
     }
 
+    // The limit applies to the expanded senders - a merged sender counts once per member
+    const targets = await resolveCleanupTargetsOrRespond(res, account.id, explicitTargets, groupIds, {
+      maxTargets: maxSenders,
+      message: tooManySendersMessage,
+    });
+    if (!targets) return;
+    const senderEmails = targets.map(t => t.email);
+
+    // Dry run: report what would be archived - no provider calls, writes or free trial use
+    if (dryRun) {
+      const emails = await loadSenderEmailsForPreview(account.id, targets);
+      return res.status(200).json({
+        success: true,
+        dryRun: true,
+        action: 'archive',
+        ...buildCleanupPreview(emails, { targets, searchesMailbox: true }),
+      });
+    }
+
     if (account.connection_status !== 'connected') {
       return res.status(400).json({
         error: 'Email account is not connected',
@@ -99,11 +148,33 @@ async function handler(
       });
     }
 
-    // Free trial enforcement: count emails first, then check limit
+    // Plan tier check: archive requires Pro, Unlimited, or Quick Clean
+    {
+      const { data: sub } = await supabase
+        .from('subscriptions')
+        .select('plan')
+        .eq('user_id', user.userId)
+        .in('status', ['active', 'trialing'])
+        .single();
+      const plan = (sub?.plan || 'free').toLowerCase();
+      if (!['pro', 'unlimited', 'onetime'].includes(plan)) {
+        return res.status(403).json({
+          error: 'Archive requires a Pro or higher plan.',
+          code: 'PLAN_UPGRADE_REQUIRED',
+        });
+      }
+    }
+
+    // One sync or cleanup per account at a time - 409 SYNC_IN_PROGRESS otherwise
+    lock = await lockAccountOrRespond(res, account.id, 'archive');
+    if (!lock) return;
+
+    // Free trial enforcement: count emails first, then check limit. Charged only
+    // once the lock is held, so a busy account (409) costs nothing
     let freeTrialRemaining: number | undefined;
+    let totalEmailCount = 0;
     {
-      let totalEmailCount = 0;
-      for (const senderEmail of senderEmails) {
+      for (const senderEmail of new Set(senderEmails)) {
         const { count } = await supabase
           .from('emails')
           .select('*', { count: 'exact', head: true })
@@ -131,42 +202,25 @@ async function handler(
       }
     }
 
-    // Plan tier check: archive requires Pro, Unlimited, or Quick Clean
-    {
-      const { data: sub } = await supabase
-        .from('subscriptions')
-        .select('plan')
-        .eq('user_id', user.userId)
-        .in('status', ['active', 'trialing'])
-        .single();
-      const plan = (sub?.plan || 'free').toLowerCase();
-      if (!['pro', 'unlimited', 'onetime'].includes(plan)) {
-        return res.status(403).json({
-          error: 'Archive requires a Pro or higher plan.',
-          code: 'PLAN_UPGRADE_REQUIRED',
-        });
-      }
-    }
+    operationId = await startOperationProgress(requestedOperationId, user.userId, account.id, 'archive', totalEmailCount);
+    const progressErrors: ProgressError[] = [];
 
-    // Get valid access token based on provider
-    const isOutlook = account.provider === 'Outlook';
-    const { accessToken } = isOutlook
-      ? await getValidOutlookAccessToken(user.userId, accountEmail)
-      : await getValidAccessToken(user.userId, account.gmail_email || accountEmail);
+    // Resolve the account's mail provider (refreshes tokens / decrypts credentials)
+    const provider = await getMailProvider(user.userId, account);
 
     // Process each sender
     const results = [];
     let totalArchived = 0;
 
-    for (let i = 0; i < senderEmails.length; i++) {
-      const senderEmail = senderEmails[i];
-      const senderName = hasSenderNames ? senderNames[i] : null;
+    for (const { email: senderEmail, name: senderName } of targets) {
+
+      await updateOperationProgress(operationId, { phase: 'processing', currentSender: senderEmail, processed: totalArchived });
 
       try {
         // Build query to get message IDs from local database
         let emailQuery = supabase
           .from('emails')
-          .select('gmail_message_id')
+          .select('gmail_message_id, labels')
           .eq('email_account_id', account.id)
           .eq('sender_email', senderEmail);
 
@@ -189,22 +243,44 @@ async function handler(
           messageIds = localEmails.map(e => e.gmail_message_id);
 
           // Archive using stored message IDs
-          const { success } = isOutlook
-            ? await outlookBatchArchiveMessages(accessToken, messageIds)
-            : await batchArchiveMessages(accessToken, messageIds);
+          const { success, movedIds } = await provider.archiveMessages(messageIds);
           archivedCount = success.length;
 
-          // Note: We don't delete archived emails from local DB - they're still useful for reference
-          // But we could update a flag if needed
-        } else {
-          // Fallback: no local emails found, use Gmail API directly
-          const result = await archiveEmailsFromSender(accessToken, senderEmail);
-          archivedCount = result.archivedCount;
+          // Gmail keeps archived emails in the synced mailbox, so their rows stay (minus INBOX).
+          // Outlook/IMAP only sync the Inbox (and IMAP UIDs are per-folder, so an archived copy's
+          // ID may collide with an Inbox one) - drop the archived rows instead
+          if (provider.keepsArchivedRows) {
+            const labelsById = new Map(localEmails.map(e => [e.gmail_message_id, e.labels || []]));
+            for (let j = 0; j < success.length; j += 10) {
+              const batch = success.slice(j, j + 10);
+              await Promise.all(batch.map(id =>
+                supabase
+                  .from('emails')
+                  .update({ labels: (labelsById.get(id) || []).filter(l => l !== 'INBOX') })
+                  .eq('email_account_id', account.id)
+                  .eq('gmail_message_id', id)
+              ));
+            }
+          } else {
+            for (let j = 0; j < success.length; j += 100) {
+              await supabase
+                .from('emails')
+                .delete()
+                .eq('email_account_id', account.id)
+                .in('gmail_message_id', success.slice(j, j + 100));
+            }
+          }
+          // Log only the archived copies so undo never touches mail left in the inbox
+          messageIds = success.map(id => movedIds[id] || id);
+        } else if (provider.archiveAllFromSender) {
+          // Fallback: no local emails found, search the mailbox directly
+          const result = await provider.archiveAllFromSender(senderEmail);
+          archivedCount = result.count;
           messageIds = result.messageIds;
         }
 
-        // Log cleanup action
-        await supabase
+        // Log cleanup action (ID is returned so the client can undo it)
+        const { data: cleanupAction } = await supabase
           .from('cleanup_actions')
           .insert({
             user_id: user.userId,
@@ -216,19 +292,25 @@ async function handler(
             gmail_message_ids: messageIds,
             status: 'completed',
             completed_at: new Date().toISOString()
-          });
+          })
+          .select('id')
+          .single();
 
         totalArchived += archivedCount;
         results.push({
           senderEmail,
           senderName,
           archivedCount,
+          actionId: cleanupAction?.id,
           success: true
         });
 
       } catch (senderError: any) {
         console.error(`Failed to archive from ${senderEmail}:`, senderError);
 
+        progressErrors.push({ senderEmail, message: senderError.message });
+        await updateOperationProgress(operationId, { errors: progressErrors });
+
         // Log failed action
         await supabase
           .from('cleanup_actions')
@@ -287,6 +369,10 @@ async function handler(
         .eq('id', account.id);
     }
 
+    await finishOperationProgress(operationId, {
+      summary: { totalArchived, senderCount: senderEmails.length, failedSenders: progressErrors.length }
+    }, progressErrors);
+
     return res.status(200).json({
       success: true,
       totalArchived,
@@ -296,6 +382,7 @@ async function handler(
 
   } catch (error: any) {
     console.error('Archive emails error:', error);
+    await finishOperationProgress(operationId, { error: error.message });
 
     // Handle token errors
     if (error.message.includes('not connected')) {
@@ -305,11 +392,16 @@ async function handler(
       });
     }
 
+    // Provider outage (circuit open) - fail fast so the client can retry later
+    if (respondProviderUnavailable(res, error)) return;
+
     return res.status(500).json({
       error: 'Failed to archive emails',
       code: 'ARCHIVE_ERROR'
     });
+  } finally {
+    await releaseAccountLock(lock);
   }
 }
 
-export default withSentry(handler);
+export default withSentry(withIdempotency(handler));
@@ -0,0 +1,127 @@
+/**
+ * Delete Large Emails Endpoint
+ *
+ * POST /api/cleanup/delete-large
+ *
+ * Moves stored emails of at least minSizeMb to trash, largest first,
+ * optionally only those with attachments (see api/lib/email-sizes.ts). The
+ * response reports the storage the deleted mail takes up (`trashedBytes`),
+ * which the provider frees once it leaves the trash.
+ *
+ * Pass `dryRun: true` to see what would be deleted without changing anything.
+ * Each request trashes at most MAX_TRASH_PER_REQUEST emails (see
+ * api/lib/bulk-trash.ts); `hasMore` tells the client to call again for the rest.
+ *
+ * Pass `operationId` (a client-generated UUID) to follow progress live via
+ * GET /api/progress/stream?operationId=...
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { requireEmailVerification, AuthenticatedRequest } from '../lib/auth-middleware.js';
+import { rateLimit } from '../lib/rate-limiter.js';
+
+import { withSentry } from '../lib/sentry.js';
+import { withIdempotency } from '../lib/idempotency.js';
+import { buildCleanupPreview } from '../lib/cleanup-preview.js';
+import { BYTES_PER_MB, MAX_MIN_SIZE_MB, loadLargeEmails, parseMinSizeMb, sumSizeBytes } from '../lib/email-sizes.js';
+import { trashStoredEmails } from '../lib/bulk-trash.js';
+
+const supabase = createClient(
+  process.env.VITE_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+// Rate limit: 10 delete actions per minute
+const limiter = rateLimit({
+  windowMs: 60 * 1000,
+  maxRequests: 10,
+  message: 'Too many cleanup requests. Please wait before trying again.'
+});
+
+async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  // Only allow POST
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Rate limiting
+  if (await limiter(req, res)) return;
+
+  // Require authentication
+  const user = requireEmailVerification(req as AuthenticatedRequest, res);
+  if (!user) return;
+
+  const { accountEmail, attachmentsOnly, dryRun, operationId: requestedOperationId } = req.body;
+
+  // Validate input
+  if (!accountEmail) {
+    return res.status(400).json({
+      error: 'Account email is required',
+      code: 'MISSING_ACCOUNT_EMAIL'
+    });
+  }
+
+  const minSizeMb = parseMinSizeMb(req.body.minSizeMb);
+  if (minSizeMb === null) {
+    return res.status(400).json({
+      error: `minSizeMb must be a number greater than 0 and at most ${MAX_MIN_SIZE_MB}`,
+      code: 'INVALID_SIZE'
+    });
+  }
+
+  try {
+    // Get email account
+    const { data: account, error: accountError } = await supabase
+      .from('email_accounts')
+      .select('id, email, gmail_email, provider, connection_status')
+      .eq('user_id', user.userId)
+      .eq('email', accountEmail)
+      .single();
+
+    if (accountError || !account) {
+      return res.status(404).json({
+        error: 'Email account not found',
+        code: 'ACCOUNT_NOT_FOUND'
+      });
+    }
+
+    const emails = await loadLargeEmails(account.id, Math.round(minSizeMb * BYTES_PER_MB), {
+      attachmentsOnly: attachmentsOnly === true,
+    });
+
+    // Dry run: report what would be deleted - no provider calls, writes or free trial use
+    if (dryRun) {
+      return res.status(200).json({
+        success: true,
+        dryRun: true,
+        action: 'delete',
+        minSizeMb,
+        totalBytes: sumSizeBytes(emails),
+        ...buildCleanupPreview(emails),
+      });
+    }
+
+    // Largest first
+    return await trashStoredEmails(res, user, account, emails, {
+      operation: 'delete',
+      operationId: requestedOperationId,
+      label: `Emails over ${minSizeMb} MB`,
+      description: `over ${minSizeMb} MB`,
+      metadata: { minSizeMb },
+      errorMessage: 'Failed to delete large emails',
+    });
+
+  } catch (error: any) {
+    console.error('Delete large emails error:', error);
+    return res.status(500).json({
+      error: 'Failed to delete large emails',
+      code: 'DELETE_ERROR'
+    });
+  }
+}
+
+export default withSentry(withIdempotency(handler));
@@ -0,0 +1,132 @@
+/**
+ * Delete Mailing List Endpoint
+ *
+ * POST /api/cleanup/delete-list
+ *
+ * Moves every stored email sent through one mailing list (List-Id, see
+ * api/lib/mailing-lists.ts) to trash, whichever addresses the list mailed
+ * from. Mail from the same senders outside the list is left alone.
+ *
+ * Pass `dryRun: true` to see what would be deleted without changing anything.
+ * Each request trashes at most MAX_TRASH_PER_REQUEST emails (see
+ * api/lib/bulk-trash.ts); `hasMore` tells the client to call again for the rest.
+ *
+ * Pass `operationId` (a client-generated UUID) to follow progress live via
+ * GET /api/progress/stream?operationId=...
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { requireEmailVerification, AuthenticatedRequest } from '../lib/auth-middleware.js';
+import { rateLimit } from '../lib/rate-limiter.js';
+
+import { parseListId } from '../lib/mail-provider.js';
+import { withSentry } from '../lib/sentry.js';
+import { withIdempotency } from '../lib/idempotency.js';
+import { buildCleanupPreview } from '../lib/cleanup-preview.js';
+import { getMailingList } from '../lib/mailing-lists.js';
+import { trashStoredEmails } from '../lib/bulk-trash.js';
+
+const supabase = createClient(
+  process.env.VITE_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+// Rate limit: 10 delete actions per minute
+const limiter = rateLimit({
+  windowMs: 60 * 1000,
+  maxRequests: 10,
+  message: 'Too many cleanup requests. Please wait before trying again.'
+});
+
+async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  // Only allow POST
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Rate limiting
+  if (await limiter(req, res)) return;
+
+  // Require authentication
+  const user = requireEmailVerification(req as AuthenticatedRequest, res);
+  if (!user) return;
+
+  const { accountEmail, dryRun, operationId: requestedOperationId } = req.body;
+
+  // Validate input
+  if (!accountEmail) {
+    return res.status(400).json({
+      error: 'Account email is required',
+      code: 'MISSING_ACCOUNT_EMAIL'
+    });
+  }
+
+  const listId = parseListId(typeof req.body.listId === 'string' ? req.body.listId : undefined);
+  if (!listId) {
+    return res.status(400).json({
+      error: 'listId must be a List-Id such as "news.example.com"',
+      code: 'INVALID_LIST_ID'
+    });
+  }
+
+  try {
+    // Get email account
+    const { data: account, error: accountError } = await supabase
+      .from('email_accounts')
+      .select('id, email, gmail_email, provider, connection_status')
+      .eq('user_id', user.userId)
+      .eq('email', accountEmail)
+      .single();
+
+    if (accountError || !account) {
+      return res.status(404).json({
+        error: 'Email account not found',
+        code: 'ACCOUNT_NOT_FOUND'
+      });
+    }
+
+    const found = await getMailingList(account.id, listId);
+    if (!found) {
+      return res.status(404).json({
+        error: 'No synced emails from this mailing list',
+        code: 'LIST_NOT_FOUND'
+      });
+    }
+    const { emails } = found;
+
+    // Dry run: report what would be deleted - no provider calls, writes or free trial use
+    if (dryRun) {
+      return res.status(200).json({
+        success: true,
+        dryRun: true,
+        action: 'delete',
+        listId,
+        ...buildCleanupPreview(emails),
+      });
+    }
+
+    // Oldest first
+    return await trashStoredEmails(res, user, account, emails, {
+      operation: 'delete',
+      operationId: requestedOperationId,
+      label: listId,
+      description: `from mailing list ${listId}`,
+      metadata: { listId },
+      response: { listId },
+      errorMessage: 'Failed to delete mailing list',
+    });
+
+  } catch (error: any) {
+    console.error('Delete mailing list error:', error);
+    return res.status(500).json({
+      error: 'Failed to delete mailing list',
+      code: 'DELETE_ERROR'
+    });
+  }
+}
+
+export default withSentry(withIdempotency(handler));
@@ -0,0 +1,213 @@
+/**
+ * Delete Old Emails Endpoint
+ *
+ * POST /api/cleanup/delete-older-than
+ *
+ * Moves emails older than N days to trash, optionally narrowed by sender,
+ * newsletter/promotional flags or unread status. Matches come from the local
+ * emails table, so the preview count and the deletion always agree.
+ *
+ * Pass `preview: true` to get matching counts without deleting anything.
+ * Each request trashes at most MAX_TRASH_PER_REQUEST emails (see
+ * api/lib/bulk-trash.ts); `hasMore` tells the client to call again for the rest.
+ *
+ * Pass `operationId` (a client-generated UUID) to follow progress live via
+ * GET /api/progress/stream?operationId=...
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { requireEmailVerification, AuthenticatedRequest } from '../lib/auth-middleware.js';
+import { rateLimit } from '../lib/rate-limiter.js';
+
+import { withSentry } from '../lib/sentry.js';
+import { withIdempotency } from '../lib/idempotency.js';
+import { trashStoredEmails, StoredEmail } from '../lib/bulk-trash.js';
+
+const supabase = createClient(
+  process.env.VITE_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+// Rate limit: 20 requests per minute (previews are cheap, clients page through deletes)
+const limiter = rateLimit({
+  windowMs: 60 * 1000,
+  maxRequests: 20,
+  message: 'Too many cleanup requests. Please wait before trying again.'
+});
+
+const MAX_AGE_DAYS = 3650;
+const PREVIEW_SENDER_LIMIT = 50;
+
+async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  // Only allow POST
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Rate limiting
+  if (await limiter(req, res)) return;
+
+  // Require authentication
+  const user = requireEmailVerification(req as AuthenticatedRequest, res);
+  if (!user) return;
+
+  const {
+    accountEmail,
+    olderThanDays,
+    senderEmail,
+    senderName,
+    newslettersOnly,
+    promotionalOnly,
+    unreadOnly,
+    preview,
+    operationId: requestedOperationId,
+  } = req.body;
+
+  // Validate input
+  if (!accountEmail) {
+    return res.status(400).json({
+      error: 'Account email is required',
+      code: 'MISSING_ACCOUNT_EMAIL'
+    });
+  }
+
+  const days = Number(olderThanDays);
+  if (!Number.isInteger(days) || days < 1 || days > MAX_AGE_DAYS) {
+    return res.status(400).json({
+      error: `olderThanDays must be a whole number between 1 and ${MAX_AGE_DAYS}`,
+      code: 'INVALID_AGE'
+    });
+  }
+
+  try {
+    // Get email account
+    const { data: account, error: accountError } = await supabase
+      .from('email_accounts')
+      .select('id, email, gmail_email, provider, connection_status')
+      .eq('user_id', user.userId)
+      .eq('email', accountEmail)
+      .single();
+
+    if (accountError || !account) {
+      return res.status(404).json({
+        error: 'Email account not found',
+        code: 'ACCOUNT_NOT_FOUND'
+      });
+    }
+
+    const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+    // Newsletter/promotional flags live on the sender row - resolve matching senders first
+    let allowedSenderKeys: Set<string> | null = null;
+    if (newslettersOnly || promotionalOnly) {
+      let senderQuery = supabase
+        .from('email_senders')
+        .select('sender_email, sender_name')
+        .eq('email_account_id', account.id);
+
+      if (newslettersOnly) senderQuery = senderQuery.eq('is_newsletter', true);
+      if (promotionalOnly) senderQuery = senderQuery.eq('is_promotional', true);
+      if (senderEmail) senderQuery = senderQuery.eq('sender_email', senderEmail);
+
+      const { data: flaggedSenders } = await senderQuery;
+      allowedSenderKeys = new Set((flaggedSenders || []).map(s => `${s.sender_email}|||${s.sender_name}`));
+    }
+
+    // Collect matching emails (paginated to handle Supabase 1000-row limit)
+    const matches: StoredEmail[] = [];
+    let page = 0;
+    while (true) {
+      let emailQuery = supabase
+        .from('emails')
+        .select('gmail_message_id, sender_email, sender_name, size_bytes')
+        .eq('email_account_id', account.id)
+        .lt('received_at', cutoff);
+
+      if (senderEmail) emailQuery = emailQuery.eq('sender_email', senderEmail);
+      if (senderName) emailQuery = emailQuery.eq('sender_name', senderName);
+      if (unreadOnly) emailQuery = emailQuery.eq('is_unread', true);
+
+      const { data, error } = await emailQuery
+        .order('received_at', { ascending: true })
+        .range(page * 1000, (page + 1) * 1000 - 1);
+
+      if (error) {
+        console.error('Error fetching old emails:', error);
+        break;
+      }
+      if (!data || data.length === 0) break;
+
+      for (const email of data) {
+        if (allowedSenderKeys && !allowedSenderKeys.has(`${email.sender_email}|||${email.sender_name}`)) continue;
+        matches.push(email);
+      }
+      if (data.length < 1000) break;
+      page++;
+    }
+
+    if (preview) {
+      const senderCounts = new Map<string, { senderEmail: string; senderName: string; count: number }>();
+      for (const email of matches) {
+        const key = `${email.sender_email}|||${email.sender_name}`;
+        const existing = senderCounts.get(key);
+        if (existing) {
+          existing.count++;
+        } else {
+          senderCounts.set(key, { senderEmail: email.sender_email, senderName: email.sender_name, count: 1 });
+        }
+      }
+
+      return res.status(200).json({
+        success: true,
+        preview: true,
+        olderThanDays: days,
+        cutoffDate: cutoff,
+        totalMatches: matches.length,
+        senderCount: senderCounts.size,
+        senders: [...senderCounts.values()]
+          .sort((a, b) => b.count - a.count)
+          .slice(0, PREVIEW_SENDER_LIMIT),
+      });
+    }
+
+    // Plan tier check: bulk delete requires Pro, Unlimited, or Quick Clean
+    {
+      const { data: sub } = await supabase
+        .from('subscriptions')
+        .select('plan')
+        .eq('user_id', user.userId)
+        .in('status', ['active', 'trialing'])
+        .single();
+      const plan = (sub?.plan || 'free').toLowerCase();
+      if (!['pro', 'unlimited', 'onetime'].includes(plan)) {
+        return res.status(403).json({
+          error: 'Bulk delete requires a Pro or higher plan.',
+          code: 'PLAN_UPGRADE_REQUIRED',
+        });
+      }
+    }
+
+    // Oldest first
+    return await trashStoredEmails(res, user, account, matches, {
+      operation: 'delete_older_than',
+      operationId: requestedOperationId,
+      label: senderName || `Older than ${days} days`,
+      description: `older than ${days} days`,
+      metadata: { olderThanDays: days },
+      errorMessage: 'Failed to delete old emails',
+    });
+
+  } catch (error: any) {
+    console.error('Delete old emails error:', error);
+    return res.status(500).json({
+      error: 'Failed to delete old emails',
+      code: 'DELETE_ERROR'
+    });
+  }
+}
+
+export default withSentry(withIdempotency(handler));
@@ -4,7 +4,10 @@
  * POST /api/cleanup/delete-single
  *
  * Deletes a single email by message ID.
- * Requires authenticated user with connected Gmail account.
+ * Requires authenticated user with a connected email account.
+ *
+ * Pass `dryRun: true` to see the email that would be deleted (with a
+ * receipt/security warning if it looks like one) without changing anything.
  */
 
 import type { VercelRequest, VercelResponse } from '@vercel/node';
@@ -12,11 +15,11 @@ import { createClient } from '@supabase/supabase-js';
 import { requireEmailVerification, AuthenticatedRequest } from '../lib/auth-middleware.js';
 import { rateLimit } from '../lib/rate-limiter.js';
 
-import { getValidAccessToken } from '../lib/gmail.js';
-import { getValidOutlookAccessToken } from '../lib/outlook.js';
-import { trashMessage } from '../lib/gmail-api.js';
-import { trashMessage as outlookTrashMessage } from '../lib/outlook-api.js';
+import { getMailProvider } from '../providers/index.js';
 import { checkFreeTrialOrPaid } from '../lib/free-trial.js';
+import { respondProviderUnavailable } from '../lib/provider-quota.js';
+import { withIdempotency } from '../lib/idempotency.js';
+import { buildCleanupPreview, loadMessagesForPreview } from '../lib/cleanup-preview.js';
 
 const supabase = createClient(
   process.env.VITE_SUPABASE_URL!,
@@ -30,7 +33,7 @@ const limiter = rateLimit({
   message: 'Too many delete requests. Please wait before trying again.'
 });
 
-export default async function handler(
+async function handler(
   req: VercelRequest,
   res: VercelResponse
 ) {
@@ -46,7 +49,7 @@ export default async function handler(
   const user = requireEmailVerification(req as AuthenticatedRequest, res);
   if (!user) return;
 
-  const { accountEmail, messageId, senderEmail } = req.body;
+  const { accountEmail, messageId, senderEmail, dryRun } = req.body;
 
   // Validate input
   if (!accountEmail) {
@@ -67,7 +70,7 @@ export default async function handler(
     // Get email account
     const { data: account, error: accountError } = await supabase
       .from('email_accounts')
-      .select('id, gmail_email, provider, connection_status')
+      .select('id, email, gmail_email, provider, connection_status')
       .eq('user_id', user.userId)
       .eq('email', accountEmail)
       .single();
@@ -79,6 +82,28 @@ export default async function handler(
       });
     }
 
+    // Dry run: report what would be deleted - no provider calls, writes or free trial use
+    if (dryRun) {
+      const preview = buildCleanupPreview(await loadMessagesForPreview(account.id, [messageId]));
+      if (preview.totalMatches === 0) {
+        // Still deleted for real - the provider is asked for the message directly
+        preview.warnings.push({
+          type: 'not_synced',
+          message: 'This email has not been synced yet, so it could not be previewed',
+          count: 0,
+          senders: senderEmail ? [senderEmail] : [],
+          sampleSubjects: [],
+        });
+      }
+      return res.status(200).json({
+        success: true,
+        dryRun: true,
+        action: 'delete_single',
+        messageId,
+        ...preview,
+      });
+    }
+
     if (account.connection_status !== 'connected') {
       return res.status(400).json({
         error: 'Email account is not connected',
@@ -102,29 +127,29 @@ export default async function handler(
       }
     }
 
-    // Get valid access token based on provider
-    const isOutlook = account.provider === 'Outlook';
-    const { accessToken } = isOutlook
-      ? await getValidOutlookAccessToken(user.userId, accountEmail)
-      : await getValidAccessToken(user.userId, account.gmail_email || accountEmail);
-
-    // Trash the message
-    if (isOutlook) {
-      await outlookTrashMessage(accessToken, messageId);
-    } else {
-      await trashMessage(accessToken, messageId);
+    // Resolve the account's mail provider (refreshes tokens / decrypts credentials)
+    const provider = await getMailProvider(user.userId, account);
+
+    // Trash the message (Graph and IMAP assign a new ID on move, keep it for undo)
+    const { success, movedIds } = await provider.trashMessages([messageId]);
+    if (success.length === 0) {
+      throw new Error('Failed to move message to Trash');
     }
+    const trashedMessageId = movedIds[messageId] || messageId;
 
-    // Delete from local emails table
-    const { error: deleteError } = await supabase
+    // Delete from local emails table (the removed row gives the trashed size)
+    const { data: deletedRows, error: deleteError } = await supabase
       .from('emails')
       .delete()
       .eq('email_account_id', account.id)
-      .eq('gmail_message_id', messageId);
+      .eq('gmail_message_id', messageId)
+      .select('sender_name, size_bytes');
 
     if (deleteError) {
       console.warn('Failed to delete email from local DB:', deleteError);
     }
+    const deletedRow = deletedRows?.[0];
+    const trashedBytes = Number(deletedRow?.size_bytes) || 0;
 
     // Update sender cache (decrement count and recalculate last_email_date)
     if (senderEmail) {
@@ -154,6 +179,24 @@ export default async function handler(
           })
           .eq('email_account_id', account.id)
           .eq('sender_email', senderEmail);
+
+        // Size totals are per name+email sender - take the email off its own row
+        if (deletedRow && trashedBytes > 0) {
+          const { data: senderRow } = await supabase
+            .from('email_senders')
+            .select('id, total_size_bytes')
+            .eq('email_account_id', account.id)
+            .eq('sender_email', senderEmail)
+            .eq('sender_name', deletedRow.sender_name)
+            .single();
+
+          if (senderRow) {
+            await supabase
+              .from('email_senders')
+              .update({ total_size_bytes: Math.max((Number(senderRow.total_size_bytes) || 0) - trashedBytes, 0) })
+              .eq('id', senderRow.id);
+          }
+        }
       } else {
         // No remaining emails - delete the sender record
         await supabase
@@ -164,8 +207,8 @@ export default async function handler(
       }
     }
 
-    // Log cleanup action
-    await supabase
+    // Log cleanup action (ID is returned so the client can undo it)
+    const { data: cleanupAction } = await supabase
       .from('cleanup_actions')
       .insert({
         user_id: user.userId,
@@ -173,10 +216,13 @@ export default async function handler(
         action_type: 'delete_single',
         sender_email: senderEmail || 'unknown',
         emails_affected: 1,
-        gmail_message_ids: [messageId],
+        bytes_affected: trashedBytes,
+        gmail_message_ids: [trashedMessageId],
         status: 'completed',
         completed_at: new Date().toISOString()
-      });
+      })
+      .select('id')
+      .single();
 
     // Update user stats (increment emails_processed)
     const { data: currentStats } = await supabase
@@ -197,6 +243,8 @@ export default async function handler(
     return res.status(200).json({
       success: true,
       messageId,
+      actionId: cleanupAction?.id,
+      trashedBytes,
       message: 'Email moved to trash',
       ...(freeTrialRemaining !== undefined && { freeTrialRemaining }),
     });
@@ -212,9 +260,14 @@ export default async function handler(
       });
     }
 
+    // Provider outage (circuit open) - fail fast so the client can retry later
+    if (respondProviderUnavailable(res, error)) return;
+
     return res.status(500).json({
       error: 'Failed to delete email',
       code: 'DELETE_ERROR'
     });
   }
 }
+
+export default withIdempotency(handler);
@@ -4,8 +4,20 @@
  * POST /api/cleanup/delete
  *
  * Deletes all emails from specified sender(s) by moving them to trash.
- * Uses local database for message IDs (fast) then deletes from Gmail.
- * Requires authenticated user with connected Gmail account.
+ * Uses local database for message IDs (fast) then deletes via the account's mail provider.
+ * Requires authenticated user with a connected email account.
+ *
+ * Pass `operationId` (a client-generated UUID) to follow progress live via
+ * GET /api/progress/stream?operationId=...
+ *
+ * Pass `groupIds` (or `groupId`) to act on merged senders - each is expanded
+ * to its name+email members, which count toward the 10-sender limit.
+ *
+ * Pass `dryRun: true` to see exactly what would be deleted (per-sender counts,
+ * sample subjects, receipt/security warnings) without changing anything.
+ *
+ * Pass `permanent: true` with `confirm: 'DELETE'` to skip the trash. Permanent
+ * deletes can't be undone and only act on synced emails (see api/lib/trash.ts).
  */
 
 import type { VercelRequest, VercelResponse } from '@vercel/node';
@@ -13,12 +25,19 @@ import { createClient } from '@supabase/supabase-js';
 import { requireEmailVerification, AuthenticatedRequest } from '../lib/auth-middleware.js';
 import { rateLimit } from '../lib/rate-limiter.js';
 
-import { getValidAccessToken } from '../lib/gmail.js';
-import { getValidOutlookAccessToken } from '../lib/outlook.js';
-import { batchTrashMessages, deleteEmailsFromSender } from '../lib/gmail-api.js';
-import { batchTrashMessages as outlookBatchTrashMessages } from '../lib/outlook-api.js';
+import { getMailProvider } from '../providers/index.js';
 import { checkFreeTrialOrPaid } from '../lib/free-trial.js';
 import { withSentry } from '../lib/sentry.js';
+import { respondProviderUnavailable } from '../lib/provider-quota.js';
+import { lockAccountOrRespond, releaseAccountLock, AccountLock } from '../lib/account-lock.js';
+import { startOperationProgress, updateOperationProgress, finishOperationProgress, ProgressError } from '../lib/progress.js';
+import { withIdempotency } from '../lib/idempotency.js';
+import { buildCleanupPreview, loadSenderEmailsForPreview } from '../lib/cleanup-preview.js';
+import { MAX_JOB_SENDERS } from '../lib/cleanup-jobs.js';
+import { parseGroupIds, toCleanupTargets, resolveCleanupTargetsOrRespond } from '../lib/sender-groups.js';
+import { rejectUnconfirmedPermanentDelete, rejectUnsupportedPermanentDelete } from '../lib/trash.js';
+import { sumSizeBytes } from '../lib/email-sizes.js';
+import { batchRecalculateSenderStats } from '../lib/sender-stats.js';
 
 const supabase = createClient(
   process.env.VITE_SUPABASE_URL!,
@@ -48,7 +67,8 @@ async function handler(
   const user = requireEmailVerification(req as AuthenticatedRequest, res);
   if (!user) return;
 
-  const { accountEmail, senderEmails, senderNames } = req.body;
+  const { accountEmail, senderEmails: requestedEmails, senderNames: requestedNames, operationId: requestedOperationId, dryRun, confirm } = req.body;
+  const permanent = req.body.permanent === true;
 
   // Validate input
   if (!accountEmail) {
@@ -58,29 +78,49 @@ async function handler(
     });
   }
 
-  if (!senderEmails || !Array.isArray(senderEmails) || senderEmails.length === 0) {
+  // Merged senders are expanded to their name+email members once the account is known
+  const { groupIds, error: groupIdsError } = parseGroupIds(req.body);
+  if (!groupIds) {
+    return res.status(400).json({
+      error: groupIdsError,
+      code: 'INVALID_GROUP_IDS'
+    });
+  }
+
+  // senderNames is optional but if provided must match senderEmails length
+  const explicitTargets = toCleanupTargets(requestedEmails, requestedNames);
+  if (explicitTargets.length === 0 && groupIds.length === 0) {
     return res.status(400).json({
       error: 'At least one sender email is required',
       code: 'MISSING_SENDER_EMAILS'
     });
   }
 
-  // Limit to 10 senders at once
-  if (senderEmails.length > 10) {
+  // Limit to 10 senders at once - larger selections go through POST /api/cleanup/jobs
+  // (dry runs can preview a selection of job size)
+  const maxSenders = dryRun ? MAX_JOB_SENDERS : 10;
+  const tooManySendersMessage = dryRun
+    ? `Maximum ${MAX_JOB_SENDERS} senders can be previewed at once`
+    : 'Maximum 10 senders can be processed at once. Use a cleanup job for larger selections.';
+  if (explicitTargets.length > maxSenders) {
     return res.status(400).json({
-      error: 'Maximum 10 senders can be processed at once',
+      error: tooManySendersMessage,
       code: 'TOO_MANY_SENDERS'
     });
   }
 
-  // senderNames is optional but if provided must match senderEmails length
-  const hasSenderNames = senderNames && Array.isArray(senderNames) && senderNames.length === senderEmails.length;
+  // Irreversible - the client must echo the typed confirmation
+  if (permanent && !dryRun && rejectUnconfirmedPermanentDelete(res, confirm)) return;
+
+  // Live progress for GET /api/progress/stream?operationId=... (null if the client didn't ask)
+  let operationId: string | null = null;
+  let lock: AccountLock | null = null;
 
   try {
     // Get email account
     const { data: account, error: accountError } = await supabase
       .from('email_accounts')
-      .select('id, gmail_email, provider, connection_status')
+      .select('id, email, gmail_email, provider, connection_status')
       .eq('user_id', user.userId)
       .eq('email', accountEmail)
       .single();
@@ -92,6 +132,26 @@ async function handler(
       });
     }
 
+    // The limit applies to the expanded senders - a merged sender counts once per member
+    const targets = await resolveCleanupTargetsOrRespond(res, account.id, explicitTargets, groupIds, {
+      maxTargets: maxSenders,
+      message: tooManySendersMessage,
+    });
+    if (!targets) return;
+    const senderEmails = targets.map(t => t.email);
+
+    // Dry run: report what would be deleted - no provider calls, writes or free trial use
+    if (dryRun) {
+      const emails = await loadSenderEmailsForPreview(account.id, targets);
+      return res.status(200).json({
+        success: true,
+        dryRun: true,
+        action: 'delete',
+        permanent,
+        ...buildCleanupPreview(emails, { targets, searchesMailbox: true }),
+      });
+    }
+
     if (account.connection_status !== 'connected') {
       return res.status(400).json({
         error: 'Email account is not connected',
@@ -99,12 +159,21 @@ async function handler(
       });
     }
 
-    // Free trial enforcement: count emails first, then check limit
+    // One sync or cleanup per account at a time - 409 SYNC_IN_PROGRESS otherwise
+    lock = await lockAccountOrRespond(res, account.id, 'delete');
+    if (!lock) return;
+
+    // Resolve the account's mail provider (refreshes tokens / decrypts credentials)
+    const provider = await getMailProvider(user.userId, account);
+    if (permanent && rejectUnsupportedPermanentDelete(res, provider)) return;
+
+    // Free trial enforcement: count emails first, then check limit. Charged only
+    // once the lock is held, so a busy account (409) costs nothing
     let freeTrialRemaining: number | undefined;
+    let totalEmailCount = 0;
     {
       // Count total emails across all senders
-      let totalEmailCount = 0;
-      for (const senderEmail of senderEmails) {
+      for (const senderEmail of new Set(senderEmails)) {
         const { count } = await supabase
           .from('emails')
           .select('*', { count: 'exact', head: true })
@@ -132,25 +201,25 @@ async function handler(
       }
     }
 
-    // Get valid access token based on provider
-    const isOutlook = account.provider === 'Outlook';
-    const { accessToken } = isOutlook
-      ? await getValidOutlookAccessToken(user.userId, accountEmail)
-      : await getValidAccessToken(user.userId, account.gmail_email || accountEmail);
+    operationId = await startOperationProgress(requestedOperationId, user.userId, account.id, 'delete', totalEmailCount);
+    const progressErrors: ProgressError[] = [];
 
     // Process each sender
     const results = [];
     let totalDeleted = 0;
+    let totalBytes = 0;
+    // Trashed mail still counts against storage until purged - only permanent deletes free it
+    const bytesField = permanent ? 'reclaimedBytes' : 'trashedBytes';
+
+    for (const { email: senderEmail, name: senderName } of targets) {
 
-    for (let i = 0; i < senderEmails.length; i++) {
-      const senderEmail = senderEmails[i];
-      const senderName = hasSenderNames ? senderNames[i] : null;
+      await updateOperationProgress(operationId, { phase: 'processing', currentSender: senderEmail, processed: totalDeleted });
 
       try {
         // Build query to get message IDs from local database
         let emailQuery = supabase
           .from('emails')
-          .select('gmail_message_id')
+          .select('gmail_message_id, sender_name, size_bytes')
           .eq('email_account_id', account.id)
           .eq('sender_email', senderEmail);
 
@@ -166,39 +235,51 @@ async function handler(
         }
 
         let deletedCount = 0;
+        let deletedBytes = 0;
+        // Only messages that actually left the inbox - these are what undo and purge act on
         let messageIds: string[] = [];
+        let partial = false;
 
         // If we have local emails, use them for deletion (fast path)
         if (localEmails && localEmails.length > 0) {
-          messageIds = localEmails.map(e => e.gmail_message_id);
+          const requestedIds = localEmails.map(e => e.gmail_message_id);
 
           // Delete from email provider using stored message IDs
-          const { success } = isOutlook
-            ? await outlookBatchTrashMessages(accessToken, messageIds)
-            : await batchTrashMessages(accessToken, messageIds);
+          const { success, failed, movedIds } = permanent
+            ? { ...(await provider.permanentlyDeleteMessages!('inbox', requestedIds)), movedIds: {} as Record<string, string> }
+            : await provider.trashMessages(requestedIds);
           deletedCount = success.length;
-
-          // Delete from local emails table
-          let deleteQuery = supabase
-            .from('emails')
-            .delete()
-            .eq('email_account_id', account.id)
-            .eq('sender_email', senderEmail);
-
-          if (senderName) {
-            deleteQuery = deleteQuery.eq('sender_name', senderName);
+          deletedBytes = sumSizeBytes(localEmails, success);
+          partial = failed.length > 0;
+          // Outlook/IMAP re-key moved messages - log the trashed copies so undo can find them
+          messageIds = success.map(id => movedIds[id] || id);
+
+          // Delete the removed emails from the local table - failures stay in the inbox
+          for (let j = 0; j < success.length; j += 100) {
+            const { error: deleteError } = await supabase
+              .from('emails')
+              .delete()
+              .eq('email_account_id', account.id)
+              .in('gmail_message_id', success.slice(j, j + 100));
+            if (deleteError) console.error(`Failed to delete local emails for ${senderEmail}:`, deleteError.message);
           }
 
-          await deleteQuery;
-        } else {
-          // Fallback: no local emails found, use Gmail API directly
-          const result = await deleteEmailsFromSender(accessToken, senderEmail);
-          deletedCount = result.deletedCount;
+          if (partial) {
+            await batchRecalculateSenderStats(
+              user.userId,
+              account.id,
+              new Set(localEmails.map(e => `${senderEmail}|||${e.sender_name}`))
+            );
+          }
+        } else if (!permanent && provider.trashAllFromSender) {
+          // Fallback: no local emails found, search the mailbox directly
+          const result = await provider.trashAllFromSender(senderEmail);
+          deletedCount = result.count;
           messageIds = result.messageIds;
         }
 
-        // Log cleanup action
-        await supabase
+        // Log cleanup action (ID is returned so the client can undo it)
+        const { data: cleanupAction } = await supabase
           .from('cleanup_actions')
           .insert({
             user_id: user.userId,
@@ -207,39 +288,53 @@ async function handler(
             sender_email: senderEmail,
             sender_name: senderName || senderEmail,
             emails_affected: deletedCount,
+            bytes_affected: deletedBytes,
             gmail_message_ids: messageIds,
+            permanent,
             status: 'completed',
             completed_at: new Date().toISOString()
-          });
-
-        // Update sender cache (set count to 0 or delete the sender entry)
-        let updateQuery = supabase
-          .from('email_senders')
-          .update({
-            email_count: 0,
-            unread_count: 0,
-            updated_at: new Date().toISOString()
           })
-          .eq('email_account_id', account.id)
-          .eq('sender_email', senderEmail);
+          .select('id')
+          .single();
+
+        // Update sender cache (set count to 0) - partial deletes were recalculated above
+        if (!partial) {
+          let updateQuery = supabase
+            .from('email_senders')
+            .update({
+              email_count: 0,
+              unread_count: 0,
+              total_size_bytes: 0,
+              updated_at: new Date().toISOString()
+            })
+            .eq('email_account_id', account.id)
+            .eq('sender_email', senderEmail);
 
-        if (senderName) {
-          updateQuery = updateQuery.eq('sender_name', senderName);
-        }
+          if (senderName) {
+            updateQuery = updateQuery.eq('sender_name', senderName);
+          }
 
-        await updateQuery;
+          await updateQuery;
+        }
 
         totalDeleted += deletedCount;
+        totalBytes += deletedBytes;
         results.push({
           senderEmail,
           senderName,
           deletedCount,
+          [bytesField]: deletedBytes,
+          // Permanent deletes have nothing to undo
+          actionId: permanent ? undefined : cleanupAction?.id,
           success: true
         });
 
       } catch (senderError: any) {
         console.error(`Failed to delete from ${senderEmail}:`, senderError);
 
+        progressErrors.push({ senderEmail, message: senderError.message });
+        await updateOperationProgress(operationId, { errors: progressErrors });
+
         // Log failed action
         await supabase
           .from('cleanup_actions')
@@ -304,20 +399,27 @@ async function handler(
         .insert({
           user_id: user.userId,
           action_type: 'delete',
-          description: `Deleted ${totalDeleted} email${totalDeleted > 1 ? 's' : ''} from ${senderEmails.length} sender${senderEmails.length > 1 ? 's' : ''}`,
-          metadata: { totalDeleted, senderCount: senderEmails.length, senderEmails }
+          description: `${permanent ? 'Permanently deleted' : 'Deleted'} ${totalDeleted} email${totalDeleted > 1 ? 's' : ''} from ${senderEmails.length} sender${senderEmails.length > 1 ? 's' : ''}`,
+          metadata: { totalDeleted, [bytesField]: totalBytes, senderCount: senderEmails.length, senderEmails, ...(permanent && { permanent }) }
         });
     }
 
+    await finishOperationProgress(operationId, {
+      summary: { totalDeleted, [bytesField]: totalBytes, senderCount: senderEmails.length, failedSenders: progressErrors.length }
+    }, progressErrors);
+
     return res.status(200).json({
       success: true,
       totalDeleted,
+      [bytesField]: totalBytes,
+      permanent,
       results,
       ...(freeTrialRemaining !== undefined && { freeTrialRemaining }),
     });
 
   } catch (error: any) {
     console.error('Delete emails error:', error);
+    await finishOperationProgress(operationId, { error: error.message });
 
     // Handle token errors
     if (error.message.includes('not connected')) {
@@ -327,11 +429,16 @@ async function handler(
       });
     }
 
+    // Provider outage (circuit open) - fail fast so the client can retry later
+    if (respondProviderUnavailable(res, error)) return;
+
     return res.status(500).json({
       error: 'Failed to delete emails',
       code: 'DELETE_ERROR'
     });
+  } finally {
+    await releaseAccountLock(lock);
   }
 }
 
-export default withSentry(handler);
+export default withSentry(withIdempotency(handler));
@@ -0,0 +1,311 @@
+/**
+ * Bulk Cleanup Jobs Endpoint
+ *
+ * GET    /api/cleanup/jobs?accountEmail=        - Recent jobs (optionally for one account)
+ * GET    /api/cleanup/jobs?id=[&senders=true]   - One job, with its per-sender report
+ * POST   /api/cleanup/jobs                      - Start a job
+ * PATCH  /api/cleanup/jobs?id=                  - Retry a finished job's failed senders
+ * DELETE /api/cleanup/jobs?id=                  - Cancel a job
+ *
+ * POST body: { accountEmail, action: 'delete' | 'archive', senderEmails, senderNames?, groupIds? }
+ * or { accountEmail, action, filter: { newslettersOnly?, promotionalOnly?, minEmailCount?, domain? } }
+ *
+ * Jobs have no sender cap and run in the background (see api/lib/cleanup-jobs.ts):
+ * POST returns 202 with the queued job, which the client polls until it
+ * finishes. Paid plans only; archive requires a Pro or higher plan.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { requireEmailVerification, AuthenticatedRequest } from '../lib/auth-middleware.js';
+import { rateLimit, RateLimitPresets } from '../lib/rate-limiter.js';
+import { checkFreeTrialOrPaid } from '../lib/free-trial.js';
+import { withSentry } from '../lib/sentry.js';
+import { withIdempotency } from '../lib/idempotency.js';
+import {
+  validateCleanupJobInput,
+  resolveCleanupJobSenders,
+  createCleanupJob,
+  getActiveCleanupJob,
+  getCleanupJob,
+  getCleanupJobSenders,
+  cancelCleanupJob,
+  retryCleanupJob,
+  runCleanupJob,
+  isCleanupJobFinished,
+  toCleanupJobResponse,
+  CleanupJob
+} from '../lib/cleanup-jobs.js';
+import { expandSenderGroupTargets } from '../lib/sender-groups.js';
+
+const supabase = createClient(
+  process.env.VITE_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+// Relaxed: the client polls a running job every couple of seconds
+const limiter = rateLimit(RateLimitPresets.RELAXED);
+
+// How long the request's own server keeps working on a new job before the worker takes over
+const REQUEST_JOB_BUDGET_MS = 15 * 60 * 1000;
+
+async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  if (!['GET', 'POST', 'PATCH', 'DELETE'].includes(req.method || '')) {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Rate limiting
+  if (await limiter(req, res)) return;
+
+  // Require authentication
+  const user = requireEmailVerification(req as AuthenticatedRequest, res);
+  if (!user) return;
+
+  try {
+    switch (req.method) {
+      case 'GET':
+        return await getJobs(req, res, user.userId);
+      case 'POST':
+        return await startJob(req, res, user.userId, user.email);
+      case 'PATCH':
+        return await retryJob(req, res, user.userId);
+      default:
+        return await cancelJob(req, res, user.userId);
+    }
+  } catch (error: any) {
+    console.error('Cleanup jobs error:', error);
+    return res.status(500).json({
+      error: 'Failed to process cleanup job request',
+      code: 'CLEANUP_JOB_ERROR'
+    });
+  }
+}
+
+/**
+ * Keep working on the job in this process after the response has been sent.
+ * If the process goes away the worker picks the job up from its last sender.
+ */
+function runInBackground(job: CleanupJob) {
+  runCleanupJob(job.id, REQUEST_JOB_BUDGET_MS).catch(error => {
+    console.error(`Cleanup job ${job.id} background run failed:`, error);
+  });
+}
+
+async function getJobs(req: VercelRequest, res: VercelResponse, userId: string) {
+  const id = req.query.id as string | undefined;
+
+  if (id) {
+    const job = await getCleanupJob(userId, id);
+    if (!job) {
+      return res.status(404).json({ error: 'Cleanup job not found', code: 'CLEANUP_JOB_NOT_FOUND' });
+    }
+    const senders = req.query.senders === 'true' ? await getCleanupJobSenders(job.id) : undefined;
+    return res.status(200).json({ job: toCleanupJobResponse(job, senders) });
+  }
+
+  let query = supabase
+    .from('cleanup_jobs')
+    .select('*')
+    .eq('user_id', userId);
+
+  const accountEmail = req.query.accountEmail as string | undefined;
+  if (accountEmail) {
+    const { data: account } = await supabase
+      .from('email_accounts')
+      .select('id')
+      .eq('user_id', userId)
+      .eq('email', accountEmail)
+      .single();
+
+    if (!account) {
+      return res.status(404).json({
+        error: 'Email account not found',
+        code: 'ACCOUNT_NOT_FOUND'
+      });
+    }
+    query = query.eq('email_account_id', account.id);
+  }
+
+  const { data: jobs, error } = await query
+    .order('created_at', { ascending: false })
+    .limit(20);
+  if (error) throw error;
+
+  return res.status(200).json({
+    jobs: (jobs || []).map(job => toCleanupJobResponse(job as CleanupJob)),
+  });
+}
+
+async function startJob(req: VercelRequest, res: VercelResponse, userId: string, userEmail: string) {
+  const { accountEmail } = req.body || {};
+
+  if (!accountEmail) {
+    return res.status(400).json({
+      error: 'Account email is required',
+      code: 'MISSING_ACCOUNT_EMAIL'
+    });
+  }
+
+  const { input, error: validationError } = validateCleanupJobInput(req.body);
+  if (!input) {
+    return res.status(400).json({ error: validationError, code: 'INVALID_CLEANUP_JOB' });
+  }
+
+  const { data: account, error: accountError } = await supabase
+    .from('email_accounts')
+    .select('id, email, connection_status')
+    .eq('user_id', userId)
+    .eq('email', accountEmail)
+    .single();
+
+  if (accountError || !account) {
+    return res.status(404).json({
+      error: 'Email account not found',
+      code: 'ACCOUNT_NOT_FOUND'
+    });
+  }
+
+  if (account.connection_status !== 'connected') {
+    return res.status(400).json({
+      error: 'Email account is not connected',
+      code: 'NOT_CONNECTED'
+    });
+  }
+
+  // Background jobs run unattended - paid plans only
+  const planCheck = await checkFreeTrialOrPaid(supabase, userId, userEmail, 0);
+  if (planCheck.isPastDue) {
+    return res.status(402).json({
+      error: 'Your payment failed. Please update your payment method to continue.',
+      code: 'PAYMENT_PAST_DUE',
+    });
+  }
+  if (!planCheck.isPaid) {
+    return res.status(403).json({
+      error: 'Bulk cleanup jobs require a paid plan.',
+      code: 'PLAN_UPGRADE_REQUIRED',
+    });
+  }
+
+  // Plan tier check: archive requires Pro, Unlimited, or Quick Clean
+  if (input.action === 'archive') {
+    const { data: sub } = await supabase
+      .from('subscriptions')
+      .select('plan')
+      .eq('user_id', userId)
+      .in('status', ['active', 'trialing'])
+      .single();
+    const plan = (sub?.plan || 'free').toLowerCase();
+    if (!['pro', 'unlimited', 'onetime'].includes(plan)) {
+      return res.status(403).json({
+        error: 'Archive requires a Pro or higher plan.',
+        code: 'PLAN_UPGRADE_REQUIRED',
+      });
+    }
+  }
+
+  const active = await getActiveCleanupJob(account.id);
+  if (active) {
+    return res.status(409).json({
+      error: 'A cleanup job is already running for this account. Please wait for it to finish.',
+      code: 'CLEANUP_JOB_IN_PROGRESS',
+      job: toCleanupJobResponse(active),
+    });
+  }
+
+  // Merged senders are snapshotted as their current name+email members
+  const groupTargets = await expandSenderGroupTargets(account.id, input.groupIds);
+  if (!groupTargets) {
+    return res.status(404).json({
+      error: 'Merged sender not found',
+      code: 'SENDER_GROUP_NOT_FOUND'
+    });
+  }
+
+  const senders = await resolveCleanupJobSenders(account.id, input, groupTargets);
+  if (senders.length === 0) {
+    return res.status(400).json({
+      error: 'No senders match this cleanup',
+      code: 'NO_MATCHING_SENDERS'
+    });
+  }
+
+  const job = await createCleanupJob(userId, account.id, input, senders);
+  if (!job) {
+    const raced = await getActiveCleanupJob(account.id);
+    return res.status(409).json({
+      error: 'A cleanup job is already running for this account. Please wait for it to finish.',
+      code: 'CLEANUP_JOB_IN_PROGRESS',
+      job: raced ? toCleanupJobResponse(raced) : null,
+    });
+  }
+
+  res.status(202).json({ success: true, job: toCleanupJobResponse(job) });
+  runInBackground(job);
+}
+
+async function retryJob(req: VercelRequest, res: VercelResponse, userId: string) {
+  const id = (req.query.id as string) || req.body?.id;
+  if (!id) {
+    return res.status(400).json({ error: 'Cleanup job ID is required', code: 'MISSING_CLEANUP_JOB_ID' });
+  }
+
+  const job = await getCleanupJob(userId, id);
+  if (!job) {
+    return res.status(404).json({ error: 'Cleanup job not found', code: 'CLEANUP_JOB_NOT_FOUND' });
+  }
+
+  if (!isCleanupJobFinished(job) || job.status === 'cancelled') {
+    return res.status(400).json({
+      error: 'Only completed or failed jobs can be retried',
+      code: 'CLEANUP_JOB_NOT_RETRYABLE'
+    });
+  }
+
+  const active = await getActiveCleanupJob(job.email_account_id);
+  if (active) {
+    return res.status(409).json({
+      error: 'A cleanup job is already running for this account. Please wait for it to finish.',
+      code: 'CLEANUP_JOB_IN_PROGRESS',
+      job: toCleanupJobResponse(active),
+    });
+  }
+
+  const retried = await retryCleanupJob(job);
+  if (!retried) {
+    return res.status(400).json({
+      error: 'This job has no failed senders to retry',
+      code: 'NOTHING_TO_RETRY'
+    });
+  }
+
+  res.status(202).json({ success: true, job: toCleanupJobResponse(retried) });
+  runInBackground(retried);
+}
+
+async function cancelJob(req: VercelRequest, res: VercelResponse, userId: string) {
+  const id = (req.query.id as string) || req.body?.id;
+  if (!id) {
+    return res.status(400).json({ error: 'Cleanup job ID is required', code: 'MISSING_CLEANUP_JOB_ID' });
+  }
+
+  const cancelled = await cancelCleanupJob(userId, id);
+  if (!cancelled) {
+    const job = await getCleanupJob(userId, id);
+    if (!job) {
+      return res.status(404).json({ error: 'Cleanup job not found', code: 'CLEANUP_JOB_NOT_FOUND' });
+    }
+    return res.status(400).json({
+      error: 'This job has already finished',
+      code: 'CLEANUP_JOB_FINISHED',
+      job: toCleanupJobResponse(job),
+    });
+  }
+
+  return res.status(200).json({ success: true, job: toCleanupJobResponse(cancelled) });
+}
+
+export default withSentry(withIdempotency(handler));
@@ -0,0 +1,242 @@
+/**
+ * Mark Emails Read Endpoint
+ *
+ * POST /api/cleanup/mark-read
+ *
+ * Marks every unread email from the specified sender(s) read - in the mailbox
+ * (Gmail removes the UNREAD label, Outlook sets isRead, IMAP adds \Seen) and in
+ * the local emails table - then refreshes the senders' unread counts.
+ * Up to MAX_MARK_READ_PER_RUN emails per request; `hasMore` means call again.
+ * Pass `groupIds` (or `groupId`) to include merged senders' members.
+ *
+ * Marking read can't be undone from CleanInbox, but nothing leaves the inbox.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { requireEmailVerification, AuthenticatedRequest } from '../lib/auth-middleware.js';
+import { rateLimit } from '../lib/rate-limiter.js';
+
+import { getMailProvider } from '../providers/index.js';
+import { checkFreeTrialOrPaid } from '../lib/free-trial.js';
+import { withSentry } from '../lib/sentry.js';
+import { respondProviderUnavailable } from '../lib/provider-quota.js';
+import { lockAccountOrRespond, releaseAccountLock, AccountLock } from '../lib/account-lock.js';
+import { withIdempotency } from '../lib/idempotency.js';
+import { batchRecalculateSenderStats } from '../lib/sender-stats.js';
+import { markSendersRead, markReadTargetKey, MarkReadTarget } from '../lib/muted-senders.js';
+import { parseGroupIds, toCleanupTargets, resolveCleanupTargetsOrRespond } from '../lib/sender-groups.js';
+
+const supabase = createClient(
+  process.env.VITE_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+// Most name+email senders one request marks read once merged senders are expanded
+// (the addresses go into a single .in() query)
+const MAX_MARK_READ_SENDERS = 100;
+
+// Rate limit: 10 mark-read actions per minute
+const limiter = rateLimit({
+  windowMs: 60 * 1000,
+  maxRequests: 10,
+  message: 'Too many cleanup requests. Please wait before trying again.'
+});
+
+async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  // Only allow POST
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Rate limiting
+  if (await limiter(req, res)) return;
+
+  // Require authentication
+  const user = requireEmailVerification(req as AuthenticatedRequest, res);
+  if (!user) return;
+
+  const { accountEmail, senderEmails: requestedEmails, senderNames: requestedNames } = req.body;
+
+  // Validate input
+  if (!accountEmail) {
+    return res.status(400).json({
+      error: 'Account email is required',
+      code: 'MISSING_ACCOUNT_EMAIL'
+    });
+  }
+
+  // Merged senders are expanded to their name+email members once the account is known
+  const { groupIds, error: groupIdsError } = parseGroupIds(req.body);
+  if (!groupIds) {
+    return res.status(400).json({
+      error: groupIdsError,
+      code: 'INVALID_GROUP_IDS'
+    });
+  }
+
+  // senderNames is optional but if provided must match senderEmails length
+  const explicitTargets = toCleanupTargets(requestedEmails, requestedNames);
+  if (explicitTargets.length === 0 && groupIds.length === 0) {
+    return res.status(400).json({
+      error: 'At least one sender email is required',
+      code: 'MISSING_SENDER_EMAILS'
+    });
+  }
+
+  // Limit to 10 senders at once (same as delete/archive)
+  if (explicitTargets.length > 10) {
+    return res.status(400).json({
+      error: 'Maximum 10 senders can be processed at once',
+      code: 'TOO_MANY_SENDERS'
+    });
+  }
+
+  let lock: AccountLock | null = null;
+
+  try {
+    // Get email account
+    const { data: account, error: accountError } = await supabase
+      .from('email_accounts')
+      .select('id, email, gmail_email, provider, connection_status')
+      .eq('user_id', user.userId)
+      .eq('email', accountEmail)
+      .single();
+
+    if (accountError || !account) {
+      return res.status(404).json({
+        error: 'Email account not found',
+        code: 'ACCOUNT_NOT_FOUND'
+      });
+    }
+
+    // Each run marks at most MAX_MARK_READ_PER_RUN emails, so merged senders may
+    // expand past the 10-sender limit - up to MAX_MARK_READ_SENDERS members
+    const targets: MarkReadTarget[] | null = await resolveCleanupTargetsOrRespond(res, account.id, explicitTargets, groupIds, {
+      maxTargets: MAX_MARK_READ_SENDERS,
+      message: `Maximum ${MAX_MARK_READ_SENDERS} senders can be marked read at once, counting each member of a merged sender`,
+    });
+    if (!targets) return;
+    const senderEmails = [...new Set(targets.map(t => t.email))];
+
+    if (account.connection_status !== 'connected') {
+      return res.status(400).json({
+        error: 'Email account is not connected',
+        code: 'NOT_CONNECTED'
+      });
+    }
+
+    // One sync or cleanup per account at a time - 409 SYNC_IN_PROGRESS otherwise
+    lock = await lockAccountOrRespond(res, account.id, 'mark_read');
+    if (!lock) return;
+
+    // Free trial enforcement: count unread emails first, then check limit. Charged
+    // only once the lock is held, so a busy account (409) costs nothing
+    let freeTrialRemaining: number | undefined;
+    {
+      let unreadCount = 0;
+      for (const senderEmail of senderEmails) {
+        const { count } = await supabase
+          .from('emails')
+          .select('*', { count: 'exact', head: true })
+          .eq('email_account_id', account.id)
+          .eq('sender_email', senderEmail)
+          .eq('is_unread', true);
+        unreadCount += count || 0;
+      }
+
+      const trialCheck = await checkFreeTrialOrPaid(supabase, user.userId, user.email, unreadCount);
+      if (trialCheck.isPastDue) {
+        return res.status(402).json({
+          error: 'Your payment failed. Please update your payment method to continue.',
+          code: 'PAYMENT_PAST_DUE',
+        });
+      }
+      if (!trialCheck.isPaid) {
+        freeTrialRemaining = trialCheck.remaining;
+      }
+      if (!trialCheck.allowed) {
+        return res.status(403).json({
+          error: `Free trial limit reached. You have ${trialCheck.remaining} actions remaining but this requires ${unreadCount}.`,
+          code: 'FREE_TRIAL_EXCEEDED',
+          freeTrialRemaining: trialCheck.remaining,
+        });
+      }
+    }
+
+    // Resolve the account's mail provider (refreshes tokens / decrypts credentials)
+    const provider = await getMailProvider(user.userId, account);
+
+    const { markedIds, failedCount, affectedSenders, markedBySender, hasMore } = await markSendersRead(account.id, targets, provider);
+    await batchRecalculateSenderStats(user.userId, account.id, affectedSenders);
+
+    const results = targets.map(t => ({
+      senderEmail: t.email,
+      senderName: t.name,
+      markedCount: markedBySender.get(markReadTargetKey(t)) || 0,
+    }));
+
+    // Log one cleanup action per sender that had unread mail
+    for (const result of results) {
+      if (result.markedCount === 0) continue;
+      await supabase
+        .from('cleanup_actions')
+        .insert({
+          user_id: user.userId,
+          email_account_id: account.id,
+          action_type: 'mark_read',
+          sender_email: result.senderEmail,
+          sender_name: result.senderName || result.senderEmail,
+          emails_affected: result.markedCount,
+          status: 'completed',
+          completed_at: new Date().toISOString()
+        });
+    }
+
+    if (markedIds.length > 0) {
+      await supabase
+        .from('activity_log')
+        .insert({
+          user_id: user.userId,
+          action_type: 'mark_read',
+          description: `Marked ${markedIds.length} email${markedIds.length > 1 ? 's' : ''} as read from ${senderEmails.length} sender${senderEmails.length > 1 ? 's' : ''}`,
+          metadata: { accountEmail, senderEmails, count: markedIds.length, failedCount }
+        });
+    }
+
+    return res.status(200).json({
+      success: true,
+      totalMarked: markedIds.length,
+      failedCount,
+      hasMore,
+      results,
+      ...(freeTrialRemaining !== undefined && { freeTrialRemaining }),
+    });
+
+  } catch (error: any) {
+    console.error('Mark read error:', error);
+
+    // Handle token errors
+    if (error.message.includes('not connected')) {
+      return res.status(401).json({
+        error: 'Email connection expired. Please reconnect.',
+        code: 'TOKEN_EXPIRED'
+      });
+    }
+
+    // Provider outage (circuit open) - fail fast so the client can retry later
+    if (respondProviderUnavailable(res, error)) return;
+
+    return res.status(500).json({
+      error: 'Failed to mark emails as read',
+      code: 'MARK_READ_ERROR'
+    });
+  } finally {
+    await releaseAccountLock(lock);
+  }
+}
+
+export default withSentry(withIdempotency(handler));
@@ -0,0 +1,208 @@
+/**
+ * Mute Sender Endpoint
+ *
+ * GET  /api/cleanup/mute?accountEmail=  - List the account's muted senders
+ * POST /api/cleanup/mute                - Mute or unmute a sender
+ *
+ * POST body: { accountEmail, senderEmail, muted: boolean }
+ *
+ * Muting marks the sender's unread mail read right away (counted against the
+ * free trial like mark-read), and the sync pipeline keeps marking their new mail
+ * read as it arrives (see api/lib/muted-senders.ts).
+ * Unmuting only stops that - nothing is marked unread again.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { requireEmailVerification, AuthenticatedRequest } from '../lib/auth-middleware.js';
+import { rateLimit, RateLimitPresets } from '../lib/rate-limiter.js';
+import { getMailProvider } from '../providers/index.js';
+import { checkFreeTrialOrPaid } from '../lib/free-trial.js';
+import { withSentry } from '../lib/sentry.js';
+import { respondProviderUnavailable } from '../lib/provider-quota.js';
+import { lockAccountOrRespond, releaseAccountLock, AccountLock } from '../lib/account-lock.js';
+import { withIdempotency } from '../lib/idempotency.js';
+import { batchRecalculateSenderStats } from '../lib/sender-stats.js';
+import { listMutedSenders, markSendersRead, setSenderMuted, validateMuteInput, MAX_MARK_READ_PER_RUN } from '../lib/muted-senders.js';
+
+const supabase = createClient(
+  process.env.VITE_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+const limiter = rateLimit(RateLimitPresets.STANDARD);
+
+// Mark-read passes per mute - a sender with more unread mail than this is
+// finished off by the sync pipeline as its mail is next synced
+const MAX_MUTE_PASSES = 10;
+
+async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Rate limiting
+  if (await limiter(req, res)) return;
+
+  // Require authentication
+  const user = requireEmailVerification(req as AuthenticatedRequest, res);
+  if (!user) return;
+
+  let lock: AccountLock | null = null;
+
+  try {
+    if (req.method === 'GET') {
+      const accountEmail = req.query.accountEmail as string | undefined;
+      if (!accountEmail) {
+        return res.status(400).json({
+          error: 'Account email is required',
+          code: 'MISSING_ACCOUNT_EMAIL'
+        });
+      }
+
+      const account = await getAccount(user.userId, accountEmail);
+      if (!account) {
+        return res.status(404).json({
+          error: 'Email account not found',
+          code: 'ACCOUNT_NOT_FOUND'
+        });
+      }
+
+      const muted = await listMutedSenders(account.id);
+      return res.status(200).json({
+        mutedSenders: muted.map(m => ({ senderEmail: m.sender_email, mutedAt: m.created_at })),
+      });
+    }
+
+    const { input, error: validationError } = validateMuteInput(req.body);
+    if (!input) {
+      return res.status(400).json({
+        error: validationError,
+        code: 'INVALID_MUTE'
+      });
+    }
+
+    const account = await getAccount(user.userId, input.accountEmail);
+    if (!account) {
+      return res.status(404).json({
+        error: 'Email account not found',
+        code: 'ACCOUNT_NOT_FOUND'
+      });
+    }
+
+    if (!input.muted) {
+      await setSenderMuted(user.userId, account.id, input.senderEmail, false);
+      return res.status(200).json({ success: true, senderEmail: input.senderEmail, muted: false, markedCount: 0 });
+    }
+
+    if (account.connection_status !== 'connected') {
+      return res.status(400).json({
+        error: 'Email account is not connected',
+        code: 'NOT_CONNECTED'
+      });
+    }
+
+    // Marking the existing mail read rewrites email/sender rows like any cleanup
+    lock = await lockAccountOrRespond(res, account.id, 'mark_read');
+    if (!lock) return;
+
+    // Free trial enforcement: the unread mail marked read now counts like mark-read.
+    // Charged only once the lock is held, so a busy account (409) costs nothing
+    let freeTrialRemaining: number | undefined;
+    {
+      const { count } = await supabase
+        .from('emails')
+        .select('*', { count: 'exact', head: true })
+        .eq('email_account_id', account.id)
+        .eq('sender_email', input.senderEmail)
+        .eq('is_unread', true);
+      const unreadCount = Math.min(count || 0, MAX_MUTE_PASSES * MAX_MARK_READ_PER_RUN);
+
+      const trialCheck = await checkFreeTrialOrPaid(supabase, user.userId, user.email, unreadCount);
+      if (trialCheck.isPastDue) {
+        return res.status(402).json({
+          error: 'Your payment failed. Please update your payment method to continue.',
+          code: 'PAYMENT_PAST_DUE',
+        });
+      }
+      if (!trialCheck.isPaid) {
+        freeTrialRemaining = trialCheck.remaining;
+      }
+      if (!trialCheck.allowed) {
+        return res.status(403).json({
+          error: `Free trial limit reached. You have ${trialCheck.remaining} actions remaining but this requires ${unreadCount}.`,
+          code: 'FREE_TRIAL_EXCEEDED',
+          freeTrialRemaining: trialCheck.remaining,
+        });
+      }
+    }
+
+    const provider = await getMailProvider(user.userId, account);
+    await setSenderMuted(user.userId, account.id, input.senderEmail, true);
+
+    // markSendersRead takes one page of unread mail at a time
+    const markedIds: string[] = [];
+    const affectedSenders = new Set<string>();
+    for (let pass = 0; pass < MAX_MUTE_PASSES; pass++) {
+      const result = await markSendersRead(account.id, [{ email: input.senderEmail, name: null }], provider);
+      markedIds.push(...result.markedIds);
+      result.affectedSenders.forEach(key => affectedSenders.add(key));
+      // Stop once nothing is left, or when a page made no progress
+      if (!result.hasMore || result.markedIds.length === 0) break;
+    }
+    await batchRecalculateSenderStats(user.userId, account.id, affectedSenders);
+
+    await supabase
+      .from('activity_log')
+      .insert({
+        user_id: user.userId,
+        action_type: 'mark_read',
+        description: `Muted ${input.senderEmail}${markedIds.length > 0 ? ` and marked ${markedIds.length} email${markedIds.length > 1 ? 's' : ''} as read` : ''}`,
+        metadata: { accountEmail: input.accountEmail, senderEmail: input.senderEmail, muted: true, count: markedIds.length }
+      });
+
+    return res.status(200).json({
+      success: true,
+      senderEmail: input.senderEmail,
+      muted: true,
+      markedCount: markedIds.length,
+      ...(freeTrialRemaining !== undefined && { freeTrialRemaining }),
+    });
+
+  } catch (error: any) {
+    console.error('Mute sender error:', error);
+
+    // Handle token errors
+    if (error.message.includes('not connected')) {
+      return res.status(401).json({
+        error: 'Email connection expired. Please reconnect.',
+        code: 'TOKEN_EXPIRED'
+      });
+    }
+
+    // Provider outage (circuit open) - fail fast so the client can retry later
+    if (respondProviderUnavailable(res, error)) return;
+
+    return res.status(500).json({
+      error: 'Failed to update muted sender',
+      code: 'MUTE_ERROR'
+    });
+  } finally {
+    await releaseAccountLock(lock);
+  }
+}
+
+async function getAccount(userId: string, accountEmail: string) {
+  const { data: account } = await supabase
+    .from('email_accounts')
+    .select('id, email, gmail_email, provider, connection_status')
+    .eq('user_id', userId)
+    .eq('email', accountEmail)
+    .single();
+  return account;
+}
+
+export default withSentry(withIdempotency(handler));
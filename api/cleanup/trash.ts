@@ -0,0 +1,159 @@
+/**
+ * Trash Endpoint
+ *
+ * GET  /api/cleanup/trash?accountEmail=  - What CleanInbox has trashed and is still in the trash
+ * POST /api/cleanup/trash                - Permanently delete ("empty") some or all of it
+ *
+ * POST body: { accountEmail, actionIds?: string[], confirm: 'DELETE' }
+ * Without actionIds every listed action is purged.
+ *
+ * Only the messages logged on each delete/delete_single cleanup action are
+ * purged - never anything else in the user's trash - and purged actions can
+ * no longer be undone. See api/lib/trash.ts.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { requireEmailVerification, AuthenticatedRequest } from '../lib/auth-middleware.js';
+import { rateLimit, RateLimitPresets } from '../lib/rate-limiter.js';
+import { getMailProvider } from '../providers/index.js';
+import { withSentry } from '../lib/sentry.js';
+import { respondProviderUnavailable } from '../lib/provider-quota.js';
+import { lockAccountOrRespond, releaseAccountLock, AccountLock } from '../lib/account-lock.js';
+import { withIdempotency } from '../lib/idempotency.js';
+import {
+  listTrashedActions,
+  purgeTrashedActions,
+  toTrashItem,
+  rejectUnconfirmedPermanentDelete,
+  rejectUnsupportedPermanentDelete,
+  MAX_TRASH_ACTIONS,
+  TRASH_RETENTION_DAYS
+} from '../lib/trash.js';
+
+const supabase = createClient(
+  process.env.VITE_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+const limiter = rateLimit(RateLimitPresets.STANDARD);
+
+async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Rate limiting
+  if (await limiter(req, res)) return;
+
+  // Require authentication
+  const user = requireEmailVerification(req as AuthenticatedRequest, res);
+  if (!user) return;
+
+  const accountEmail = (req.method === 'GET' ? req.query.accountEmail : req.body?.accountEmail) as string | undefined;
+  if (!accountEmail) {
+    return res.status(400).json({
+      error: 'Account email is required',
+      code: 'MISSING_ACCOUNT_EMAIL'
+    });
+  }
+
+  let lock: AccountLock | null = null;
+
+  try {
+    const { data: account, error: accountError } = await supabase
+      .from('email_accounts')
+      .select('id, email, gmail_email, provider, connection_status')
+      .eq('user_id', user.userId)
+      .eq('email', accountEmail)
+      .single();
+
+    if (accountError || !account) {
+      return res.status(404).json({
+        error: 'Email account not found',
+        code: 'ACCOUNT_NOT_FOUND'
+      });
+    }
+
+    if (req.method === 'GET') {
+      const items = (await listTrashedActions(user.userId, account.id)).map(toTrashItem);
+      return res.status(200).json({
+        items,
+        totalEmails: items.reduce((sum, item) => sum + item.emailCount, 0),
+        totalBytes: items.reduce((sum, item) => sum + item.sizeBytes, 0),
+        retentionDays: TRASH_RETENTION_DAYS,
+      });
+    }
+
+    const { actionIds, confirm } = req.body;
+
+    if (actionIds !== undefined && (!Array.isArray(actionIds) || actionIds.length === 0 || actionIds.length > MAX_TRASH_ACTIONS)) {
+      return res.status(400).json({
+        error: `actionIds must list 1 to ${MAX_TRASH_ACTIONS} cleanup actions`,
+        code: 'INVALID_ACTION_IDS'
+      });
+    }
+
+    if (rejectUnconfirmedPermanentDelete(res, confirm)) return;
+
+    if (account.connection_status !== 'connected') {
+      return res.status(400).json({
+        error: 'Email account is not connected',
+        code: 'NOT_CONNECTED'
+      });
+    }
+
+    const provider = await getMailProvider(user.userId, account);
+    if (rejectUnsupportedPermanentDelete(res, provider)) return;
+
+    // Held so an undo can't race the purge of the same action
+    lock = await lockAccountOrRespond(res, account.id, 'empty_trash');
+    if (!lock) return;
+
+    const actions = await listTrashedActions(user.userId, account.id, actionIds);
+    if (actions.length === 0) {
+      return res.status(200).json({ success: true, purged: 0, reclaimedBytes: 0, skipped: 0, purgedActionIds: [] });
+    }
+
+    const result = await purgeTrashedActions(provider, actions);
+
+    if (result.purged > 0) {
+      await supabase
+        .from('activity_log')
+        .insert({
+          user_id: user.userId,
+          action_type: 'delete',
+          description: `Permanently deleted ${result.purged} email${result.purged > 1 ? 's' : ''} from the trash`,
+          metadata: { permanent: true, purged: result.purged, reclaimedBytes: result.reclaimedBytes, actionCount: result.purgedActionIds.length }
+        });
+    }
+
+    return res.status(200).json({ success: true, ...result });
+
+  } catch (error: any) {
+    console.error('Trash error:', error);
+
+    // Handle token errors
+    if (error.message.includes('not connected')) {
+      return res.status(401).json({
+        error: 'Email connection expired. Please reconnect.',
+        code: 'TOKEN_EXPIRED'
+      });
+    }
+
+    // Provider outage (circuit open) - fail fast so the client can retry later
+    if (respondProviderUnavailable(res, error)) return;
+
+    return res.status(500).json({
+      error: 'Failed to process trash request',
+      code: 'TRASH_ERROR'
+    });
+  } finally {
+    await releaseAccountLock(lock);
+  }
+}
+
+export default withSentry(withIdempotency(handler));
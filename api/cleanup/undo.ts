@@ -0,0 +1,254 @@
+/**
+ * Undo Cleanup Action Endpoint
+ *
+ * POST /api/cleanup/undo
+ *
+ * Reverts a previous delete/archive action by moving its messages back
+ * to the inbox (Gmail untrash / re-add INBOX, Outlook/IMAP move to Inbox).
+ * Restores the local emails rows and recalculates sender counts.
+ *
+ * Only actions from the last 30 days can be undone - Gmail and Outlook
+ * permanently purge trashed messages after that. Permanent deletes and
+ * actions purged from the trash view can't be undone at all.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { requireEmailVerification, AuthenticatedRequest } from '../lib/auth-middleware.js';
+import { rateLimit } from '../lib/rate-limiter.js';
+
+import { getMailProvider } from '../providers/index.js';
+import { batchRecalculateSenderStats } from '../lib/sender-stats.js';
+import { withSentry } from '../lib/sentry.js';
+import { respondProviderUnavailable } from '../lib/provider-quota.js';
+import { lockAccountOrRespond, releaseAccountLock, AccountLock } from '../lib/account-lock.js';
+import { withIdempotency } from '../lib/idempotency.js';
+
+const supabase = createClient(
+  process.env.VITE_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+// Rate limit: 10 undo actions per minute
+const limiter = rateLimit({
+  windowMs: 60 * 1000,
+  maxRequests: 10,
+  message: 'Too many undo requests. Please wait before trying again.'
+});
+
+// Matches Gmail's trash retention period
+const UNDO_WINDOW_DAYS = 30;
+const UNDOABLE_ACTIONS = ['delete', 'delete_single', 'archive'];
+const BATCH_SIZE = 100;
+
+async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  // Only allow POST
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Rate limiting
+  if (await limiter(req, res)) return;
+
+  // Require authentication
+  const user = requireEmailVerification(req as AuthenticatedRequest, res);
+  if (!user) return;
+
+  const { actionId } = req.body;
+
+  if (!actionId) {
+    return res.status(400).json({
+      error: 'Action ID is required',
+      code: 'MISSING_ACTION_ID'
+    });
+  }
+
+  let lock: AccountLock | null = null;
+
+  try {
+    const { data: action, error: actionError } = await supabase
+      .from('cleanup_actions')
+      .select('id, email_account_id, action_type, sender_email, status, gmail_message_ids, permanent, purged_at, created_at')
+      .eq('id', actionId)
+      .eq('user_id', user.userId)
+      .single();
+
+    if (actionError || !action) {
+      return res.status(404).json({
+        error: 'Cleanup action not found',
+        code: 'ACTION_NOT_FOUND'
+      });
+    }
+
+    if (action.status === 'undone') {
+      return res.status(409).json({
+        error: 'This action has already been undone',
+        code: 'ALREADY_UNDONE'
+      });
+    }
+
+    if (action.status !== 'completed' || !UNDOABLE_ACTIONS.includes(action.action_type)) {
+      return res.status(400).json({
+        error: 'This action cannot be undone',
+        code: 'ACTION_NOT_UNDOABLE'
+      });
+    }
+
+    if (action.permanent || action.purged_at) {
+      return res.status(410).json({
+        error: 'These emails were permanently deleted and cannot be restored',
+        code: 'PERMANENTLY_DELETED'
+      });
+    }
+
+    const ageMs = Date.now() - new Date(action.created_at).getTime();
+    if (ageMs > UNDO_WINDOW_DAYS * 24 * 60 * 60 * 1000) {
+      return res.status(410).json({
+        error: `Actions older than ${UNDO_WINDOW_DAYS} days cannot be undone`,
+        code: 'UNDO_EXPIRED'
+      });
+    }
+
+    const messageIds: string[] = action.gmail_message_ids || [];
+    if (messageIds.length === 0) {
+      return res.status(400).json({
+        error: 'No messages recorded for this action',
+        code: 'NOTHING_TO_UNDO'
+      });
+    }
+
+    // Get email account
+    const { data: account, error: accountError } = await supabase
+      .from('email_accounts')
+      .select('id, email, gmail_email, provider, connection_status')
+      .eq('id', action.email_account_id)
+      .eq('user_id', user.userId)
+      .single();
+
+    if (accountError || !account) {
+      return res.status(404).json({
+        error: 'Email account not found',
+        code: 'ACCOUNT_NOT_FOUND'
+      });
+    }
+
+    if (account.connection_status !== 'connected') {
+      return res.status(400).json({
+        error: 'Email account is not connected',
+        code: 'NOT_CONNECTED'
+      });
+    }
+
+    // One sync or cleanup per account at a time - 409 SYNC_IN_PROGRESS otherwise
+    lock = await lockAccountOrRespond(res, account.id, 'undo');
+    if (!lock) return;
+
+    // Resolve the account's mail provider (refreshes tokens / decrypts credentials)
+    const provider = await getMailProvider(user.userId, account);
+
+    // Move messages back to the inbox
+    const { success, failed, movedIds } = await provider.restoreMessages(
+      action.action_type === 'archive' ? 'archive' : 'trash',
+      messageIds
+    );
+    // Outlook/IMAP re-key moved messages - the Inbox copies get new IDs
+    const restoredIds = success.map(id => movedIds[id] || id);
+    const failedCount = failed.length;
+
+    // Repoint any rows still stored under the moved IDs (Outlook archives made before
+    // archived rows were dropped locally) so the re-insert below doesn't duplicate them
+    const repointed = success.filter(id => movedIds[id] && movedIds[id] !== id);
+    for (let i = 0; i < repointed.length; i += 10) {
+      const batch = repointed.slice(i, i + 10);
+      await Promise.all(batch.map(id =>
+        supabase
+          .from('emails')
+          .update({ gmail_message_id: movedIds[id] })
+          .eq('email_account_id', account.id)
+          .eq('gmail_message_id', id)
+      ));
+    }
+
+    if (restoredIds.length === 0) {
+      return res.status(502).json({
+        error: 'No messages could be restored. They may have been permanently deleted.',
+        code: 'UNDO_FAILED'
+      });
+    }
+
+    // Restore local email rows. Gmail archived emails are still present, so their
+    // rows are overwritten with the restored message (INBOX label included)
+    const records = await provider.getMessages(restoredIds);
+    const affectedSenders = new Set<string>();
+    const rows = records.map(record => {
+      affectedSenders.add(`${record.sender_email}|||${record.sender_name}`);
+      const labels = action.action_type === 'archive' && provider.keepsArchivedRows && !record.labels.includes('INBOX')
+        ? [...record.labels, 'INBOX']
+        : record.labels;
+      return { ...record, labels, email_account_id: account.id };
+    });
+
+    for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+      const batch = rows.slice(i, i + BATCH_SIZE);
+      const { error } = await supabase
+        .from('emails')
+        .upsert(batch, { onConflict: 'email_account_id,gmail_message_id' });
+      if (error) console.error('Restore emails insert error:', error.message);
+    }
+
+    // Rebuild sender counts from the restored rows
+    await batchRecalculateSenderStats(user.userId, account.id, affectedSenders);
+
+    // Mark action as undone
+    await supabase
+      .from('cleanup_actions')
+      .update({
+        status: 'undone',
+        undone_at: new Date().toISOString()
+      })
+      .eq('id', action.id);
+
+    // Log to activity_log for Recent Activity display
+    await supabase
+      .from('activity_log')
+      .insert({
+        user_id: user.userId,
+        action_type: 'undo',
+        description: `Restored ${restoredIds.length} email${restoredIds.length > 1 ? 's' : ''} from ${action.sender_email}`,
+        metadata: { actionId: action.id, undoneActionType: action.action_type, restoredCount: restoredIds.length, failedCount }
+      });
+
+    return res.status(200).json({
+      success: true,
+      actionId: action.id,
+      restoredCount: restoredIds.length,
+      failedCount,
+    });
+
+  } catch (error: any) {
+    console.error('Undo cleanup action error:', error);
+
+    // Handle token errors
+    if (error.message.includes('not connected')) {
+      return res.status(401).json({
+        error: 'Email connection expired. Please reconnect.',
+        code: 'TOKEN_EXPIRED'
+      });
+    }
+
+    // Provider outage (circuit open) - fail fast so the client can retry later
+    if (respondProviderUnavailable(res, error)) return;
+
+    return res.status(500).json({
+      error: 'Failed to undo cleanup action',
+      code: 'UNDO_ERROR'
+    });
+  } finally {
+    await releaseAccountLock(lock);
+  }
+}
+
+export default withSentry(withIdempotency(handler));
@@ -6,6 +6,14 @@
  * Attempts to unsubscribe from a sender using the List-Unsubscribe header.
  * Supports both HTTP and mailto unsubscribe methods.
  * Requires authenticated user.
+ *
+ * Pass `dryRun: true` to see which method would be used and the sender's
+ * existing emails (which unsubscribing leaves alone) without contacting the sender.
+ *
+ * Pass `listId` instead of (or with) `senderEmail` to unsubscribe from one
+ * mailing list (List-Id, see api/lib/mailing-lists.ts) using the link from the
+ * list's own mail. Only senders that mail exclusively through the list are
+ * marked as unsubscribed; their other lists stay listed.
  */
 
 import type { VercelRequest, VercelResponse } from '@vercel/node';
@@ -13,12 +21,14 @@ import { createClient } from '@supabase/supabase-js';
 import { requireEmailVerification, AuthenticatedRequest } from '../lib/auth-middleware.js';
 import { rateLimit } from '../lib/rate-limiter.js';
 
-import { getValidAccessToken } from '../lib/gmail.js';
-import { getValidOutlookAccessToken } from '../lib/outlook.js';
-import { sendMessage } from '../lib/gmail-api.js';
-import { sendMessage as outlookSendMessage } from '../lib/outlook-api.js';
+import { getMailProvider } from '../providers/index.js';
+import { parseListId } from '../lib/mail-provider.js';
+import type { MailProvider } from '../lib/mail-provider.js';
 import { isUserPaid, getFreeTrialUsage, tryIncrementFreeTrialUsage, FREE_TRIAL_LIMIT } from '../lib/free-trial.js';
 import { withSentry } from '../lib/sentry.js';
+import { withIdempotency } from '../lib/idempotency.js';
+import { buildCleanupPreview, loadSenderEmailsForPreview } from '../lib/cleanup-preview.js';
+import { getMailingList, ListEmailRow, MailingList } from '../lib/mailing-lists.js';
 
 const supabase = createClient(
   process.env.VITE_SUPABASE_URL!,
@@ -197,7 +207,8 @@ async function handler(
   const user = requireEmailVerification(req as AuthenticatedRequest, res);
   if (!user) return;
 
-  const { accountEmail, senderEmail, unsubscribeLink, hasOneClickUnsubscribe } = req.body;
+  const { accountEmail, unsubscribeLink, hasOneClickUnsubscribe, dryRun } = req.body;
+  let senderEmail = req.body.senderEmail;
 
   // Validate input
   if (!accountEmail) {
@@ -207,7 +218,18 @@ async function handler(
     });
   }
 
-  if (!senderEmail) {
+  let listId: string | null = null;
+  if (req.body.listId !== undefined && req.body.listId !== null) {
+    listId = parseListId(typeof req.body.listId === 'string' ? req.body.listId : undefined);
+    if (!listId) {
+      return res.status(400).json({
+        error: 'listId must be a List-Id such as "news.example.com"',
+        code: 'INVALID_LIST_ID'
+      });
+    }
+  }
+
+  if (!senderEmail && !listId) {
     return res.status(400).json({
       error: 'Sender email is required',
       code: 'MISSING_SENDER_EMAIL'
@@ -218,7 +240,7 @@ async function handler(
     // Get email account
     const { data: account, error: accountError } = await supabase
       .from('email_accounts')
-      .select('id, gmail_email, provider, connection_status')
+      .select('id, email, gmail_email, provider, connection_status')
       .eq('user_id', user.userId)
       .eq('email', accountEmail)
       .single();
@@ -230,6 +252,27 @@ async function handler(
       });
     }
 
+    // Per-list unsubscribe: the list's own links, logged against its largest sender
+    let list: MailingList | null = null;
+    let listEmails: ListEmailRow[] = [];
+    if (listId) {
+      const found = await getMailingList(account.id, listId);
+      if (!found) {
+        return res.status(404).json({
+          error: 'No synced emails from this mailing list',
+          code: 'LIST_NOT_FOUND'
+        });
+      }
+      list = found.list;
+      listEmails = found.emails;
+      senderEmail = senderEmail || list.senders[0].email;
+    }
+    const target = list ? list.listId : senderEmail;
+
+    if (dryRun) {
+      return await previewUnsubscribe(res, account.id, senderEmail, unsubscribeLink, hasOneClickUnsubscribe, list, listEmails);
+    }
+
     // Check for past_due subscription (payment failed)
     const { data: subStatus } = await supabase
       .from('subscriptions')
@@ -269,12 +312,26 @@ async function handler(
       }
     }
 
+    // Resolve the account's mail provider (needed for mailto unsubscribe and header lookups)
+    let provider: MailProvider | null = null;
+    try {
+      provider = await getMailProvider(user.userId, account);
+    } catch (tokenError: any) {
+      console.warn('Could not resolve mail provider for unsubscribe:', tokenError.message);
+    }
+
     // Get unsubscribe link and one-click flag from cache if not provided
     let linkToUse = unsubscribeLink;
     let supportsOneClick = hasOneClickUnsubscribe ?? false;
     let mailtoLink: string | null = null;
 
-    if (!linkToUse || hasOneClickUnsubscribe === undefined) {
+    if (list) {
+      linkToUse = linkToUse || list.unsubscribeLink;
+      if (hasOneClickUnsubscribe === undefined) {
+        supportsOneClick = list.hasOneClickUnsubscribe;
+      }
+      mailtoLink = list.mailtoUnsubscribeLink;
+    } else if (!linkToUse || hasOneClickUnsubscribe === undefined) {
       const { data: senderData } = await supabase
         .from('email_senders')
         .select('unsubscribe_link, sender_name, has_one_click_unsubscribe, mailto_unsubscribe_link')
@@ -293,32 +350,49 @@ async function handler(
       }
     }
 
+    // Nothing cached - read the headers of the sender's (or list's) newest stored email
+    if (!linkToUse && provider) {
+      let latestQuery = supabase
+        .from('emails')
+        .select('gmail_message_id')
+        .eq('email_account_id', account.id);
+      latestQuery = listId ? latestQuery.eq('list_id', listId) : latestQuery.eq('sender_email', senderEmail);
+
+      const { data: latestEmails } = await latestQuery
+        .order('received_at', { ascending: false })
+        .limit(1);
+
+      if (latestEmails && latestEmails.length > 0) {
+        try {
+          const headers = await provider.getUnsubscribeHeaders(latestEmails[0].gmail_message_id);
+          linkToUse = headers.unsubscribeLink;
+          mailtoLink = mailtoLink || headers.mailtoUnsubscribeLink;
+          if (hasOneClickUnsubscribe === undefined) {
+            supportsOneClick = headers.hasOneClick;
+          }
+        } catch (headerError: any) {
+          console.warn('Could not read unsubscribe headers:', headerError.message);
+        }
+      }
+    }
+
     if (!linkToUse) {
       return res.status(400).json({
-        error: 'No unsubscribe link available for this sender',
+        error: `No unsubscribe link available for this ${list ? 'mailing list' : 'sender'}`,
         code: 'NO_UNSUBSCRIBE_LINK'
       });
     }
 
-    // Get access token (needed for mailto unsubscribe)
-    const isOutlook = account.provider === 'Outlook';
-    let accessToken: string | null = null;
-    try {
-      const tokenResult = isOutlook
-        ? await getValidOutlookAccessToken(user.userId, accountEmail)
-        : await getValidAccessToken(user.userId, account.gmail_email || accountEmail);
-      accessToken = tokenResult.accessToken;
-    } catch (tokenError: any) {
-      console.warn('Could not get access token for mailto unsubscribe:', tokenError.message);
-    }
+    // IMAP accounts have no send API (that would need SMTP), so their mailto links fall back to manual action
+    const canSendMail = !!provider?.sendMessage;
 
     // Handle mailto: links - send unsubscribe email via email API
-    if (linkToUse.startsWith('mailto:') && accessToken) {
+    if (linkToUse.startsWith('mailto:') && canSendMail) {
       try {
-        const mailtoResult = await sendMailtoUnsubscribe(linkToUse, accessToken, isOutlook);
+        const mailtoResult = await sendMailtoUnsubscribe(linkToUse, provider!);
         if (mailtoResult.success) {
           // Log success and update stats (same as HTTP One-Click success path)
-          await logSuccessfulUnsubscribe(user.userId, account.id, senderEmail);
+          await logSuccessfulUnsubscribe(user.userId, account.id, senderEmail, list);
           // Increment free trial on success
           let freeTrialRemaining: number | undefined;
           if (!paid) {
@@ -327,7 +401,7 @@ async function handler(
           }
           return res.status(200).json({
             success: true,
-            message: `Successfully sent unsubscribe email for ${senderEmail}`,
+            message: `Successfully sent unsubscribe email for ${target}`,
             ...(freeTrialRemaining !== undefined && { freeTrialRemaining }),
           });
         }
@@ -380,11 +454,11 @@ async function handler(
     if (result.requiresManualAction) {
       // Check if we have a mailto link to use as fallback
       const fallbackMailto = mailtoLink || (linkToUse.startsWith('mailto:') ? linkToUse : null);
-      if (fallbackMailto && accessToken) {
+      if (fallbackMailto && canSendMail) {
         try {
-          const mailtoResult = await sendMailtoUnsubscribe(fallbackMailto, accessToken, isOutlook);
+          const mailtoResult = await sendMailtoUnsubscribe(fallbackMailto, provider!);
           if (mailtoResult.success) {
-            await logSuccessfulUnsubscribe(user.userId, account.id, senderEmail);
+            await logSuccessfulUnsubscribe(user.userId, account.id, senderEmail, list);
             // Increment free trial on success
             let freeTrialRemaining: number | undefined;
             if (!paid) {
@@ -393,7 +467,7 @@ async function handler(
             }
             return res.status(200).json({
               success: true,
-              message: `Successfully sent unsubscribe email for ${senderEmail}`,
+              message: `Successfully sent unsubscribe email for ${target}`,
               ...(freeTrialRemaining !== undefined && { freeTrialRemaining }),
             });
           }
@@ -438,7 +512,7 @@ async function handler(
       });
 
     if (result.success) {
-      await logSuccessfulUnsubscribe(user.userId, account.id, senderEmail);
+      await logSuccessfulUnsubscribe(user.userId, account.id, senderEmail, list);
       // Increment free trial on success
       let freeTrialRemaining: number | undefined;
       if (!paid) {
@@ -447,7 +521,7 @@ async function handler(
       }
       return res.status(200).json({
         success: true,
-        message: `Successfully unsubscribed from ${senderEmail}`,
+        message: `Successfully unsubscribed from ${target}`,
         ...(freeTrialRemaining !== undefined && { freeTrialRemaining }),
       });
     }
@@ -471,12 +545,74 @@ async function handler(
 }
 
 /**
- * Parse a mailto: link and send the unsubscribe email via Gmail API
+ * Dry run: how the sender (or list) would be unsubscribed, based on the request
+ * and the cached links only - nothing is sent and no free trial action is used
+ */
+async function previewUnsubscribe(
+  res: VercelResponse,
+  accountId: string,
+  senderEmail: string,
+  unsubscribeLink: string | undefined,
+  hasOneClickUnsubscribe: boolean | undefined,
+  list: MailingList | null,
+  listEmails: ListEmailRow[]
+) {
+  let senderData: { unsubscribe_link: string | null; has_one_click_unsubscribe: boolean | null; mailto_unsubscribe_link: string | null } | undefined;
+  if (list) {
+    senderData = {
+      unsubscribe_link: list.unsubscribeLink,
+      has_one_click_unsubscribe: list.hasOneClickUnsubscribe,
+      mailto_unsubscribe_link: list.mailtoUnsubscribeLink,
+    };
+  } else {
+    const { data: senderRows } = await supabase
+      .from('email_senders')
+      .select('unsubscribe_link, has_one_click_unsubscribe, mailto_unsubscribe_link')
+      .eq('email_account_id', accountId)
+      .eq('sender_email', senderEmail)
+      .limit(1);
+    senderData = senderRows?.[0];
+  }
+
+  const link: string | null = unsubscribeLink || senderData?.unsubscribe_link || null;
+  const supportsOneClick = hasOneClickUnsubscribe ?? senderData?.has_one_click_unsubscribe ?? false;
+  const mailtoLink: string | null = senderData?.mailto_unsubscribe_link || null;
+
+  // Same order the real request tries them in
+  let method: 'one_click' | 'mailto' | 'manual' | 'none';
+  if (!link) method = 'none';
+  else if (link.startsWith('mailto:')) method = 'mailto';
+  else if (supportsOneClick) method = 'one_click';
+  else if (mailtoLink) method = 'mailto';
+  else method = 'manual';
+
+  const preview = buildCleanupPreview(list
+    ? listEmails
+    : await loadSenderEmailsForPreview(accountId, [{ email: senderEmail, name: null }]));
+
+  return res.status(200).json({
+    success: true,
+    dryRun: true,
+    action: 'unsubscribe',
+    senderEmail,
+    ...(list && { listId: list.listId }),
+    method,
+    unsubscribeLink: link,
+    requiresManualAction: method === 'manual',
+    // Unsubscribing doesn't touch existing emails
+    totalMatches: 0,
+    existingEmails: preview.totalMatches,
+    senders: preview.senders,
+    warnings: preview.warnings,
+  });
+}
+
+/**
+ * Parse a mailto: link and send the unsubscribe email via the account's mail provider
  */
 async function sendMailtoUnsubscribe(
   mailtoLink: string,
-  accessToken: string,
-  isOutlook: boolean = false
+  provider: MailProvider
 ): Promise<{ success: boolean; error?: string }> {
   try {
     // Parse mailto link: mailto:address?subject=X&body=Y
@@ -496,12 +632,7 @@ async function sendMailtoUnsubscribe(
       if (params.get('body')) body = params.get('body')!;
     }
 
-    const decodedAddress = decodeURIComponent(address);
-    if (isOutlook) {
-      await outlookSendMessage(accessToken, decodedAddress, subject, body);
-    } else {
-      await sendMessage(accessToken, decodedAddress, subject, body);
-    }
+    await provider.sendMessage!(decodeURIComponent(address), subject, body);
     return { success: true };
   } catch (error: any) {
     console.error('Failed to send mailto unsubscribe:', error.message);
@@ -515,7 +646,8 @@ async function sendMailtoUnsubscribe(
 async function logSuccessfulUnsubscribe(
   userId: string,
   accountId: string,
-  senderEmail: string
+  senderEmail: string,
+  list: MailingList | null = null
 ): Promise<void> {
   // Log cleanup action
   await supabase
@@ -525,21 +657,38 @@ async function logSuccessfulUnsubscribe(
       email_account_id: accountId,
       action_type: 'unsubscribe',
       sender_email: senderEmail,
+      ...(list && { sender_name: list.listId }),
       emails_affected: 1,
       status: 'completed',
       completed_at: new Date().toISOString()
     });
 
-  // Mark sender as unsubscribed so it no longer appears in the unsubscribe list
-  await supabase
-    .from('email_senders')
-    .update({
-      has_unsubscribe: false,
-      has_one_click_unsubscribe: false,
-      updated_at: new Date().toISOString()
-    })
-    .eq('email_account_id', accountId)
-    .eq('sender_email', senderEmail);
+  // Mark sender as unsubscribed so it no longer appears in the unsubscribe list.
+  // A list only covers the senders that mail through nothing else.
+  if (list) {
+    for (const sender of list.senders.filter(s => s.exclusive)) {
+      await supabase
+        .from('email_senders')
+        .update({
+          has_unsubscribe: false,
+          has_one_click_unsubscribe: false,
+          updated_at: new Date().toISOString()
+        })
+        .eq('email_account_id', accountId)
+        .eq('sender_email', sender.email)
+        .eq('sender_name', sender.name);
+    }
+  } else {
+    await supabase
+      .from('email_senders')
+      .update({
+        has_unsubscribe: false,
+        has_one_click_unsubscribe: false,
+        updated_at: new Date().toISOString()
+      })
+      .eq('email_account_id', accountId)
+      .eq('sender_email', senderEmail);
+  }
 
   // Update user stats
   const { data: currentStats } = await supabase
@@ -581,9 +730,9 @@ async function logSuccessfulUnsubscribe(
     .insert({
       user_id: userId,
       action_type: 'unsubscribe',
-      description: `Unsubscribed from ${senderEmail}`,
-      metadata: { senderEmail }
+      description: list ? `Unsubscribed from mailing list ${list.listId}` : `Unsubscribed from ${senderEmail}`,
+      metadata: { senderEmail, ...(list && { listId: list.listId }) }
     });
 }
 
-export default withSentry(handler);
+export default withSentry(withIdempotency(handler));
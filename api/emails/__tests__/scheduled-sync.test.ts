@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Each table resolves to the rows set in `tables`; calls are recorded per
+// table so the test can check what was written
+const { calls, tables, from } = vi.hoisted(() => {
+  const calls: { table: string; method: string; args: any[] }[] = [];
+  const tables: Record<string, any[]> = {};
+
+  const from = vi.fn((table: string) => {
+    const builder: any = new Proxy({}, {
+      get: (_target, method: string) => {
+        if (method === 'then') {
+          return (resolve: any) => resolve({ data: tables[table] ?? null, error: null });
+        }
+        return (...args: any[]) => {
+          calls.push({ table, method, args });
+          return builder;
+        };
+      },
+    });
+    return builder;
+  });
+
+  return { calls, tables, from };
+});
+
+vi.mock('@supabase/supabase-js', () => ({
+  createClient: vi.fn(() => ({ from })),
+}));
+vi.mock('../../providers/index.js', () => ({ getMailProvider: vi.fn() }));
+vi.mock('../../lib/sync-jobs.js', () => ({
+  getActiveSyncJob: vi.fn(async () => null),
+  findStalledSyncJobs: vi.fn(async () => []),
+  finishSyncJob: vi.fn(),
+}));
+vi.mock('../../lib/account-lock.js', () => ({
+  acquireAccountLock: vi.fn(async (accountId: string) => ({ accountId })),
+  releaseAccountLock: vi.fn(),
+}));
+vi.mock('../../subscription/get.js', () => ({
+  PLAN_LIMITS: {
+    free: { syncIntervalMinutes: 1440, emailProcessingLimit: 100 },
+    pro: { syncIntervalMinutes: 60, emailProcessingLimit: 15000 },
+    unlimited: { syncIntervalMinutes: 0, emailProcessingLimit: 999999999 },
+  },
+}));
+
+import { getMailProvider } from '../../providers/index.js';
+import { runScheduledSyncTick, isSyncDue, scheduledIntervalMinutes } from '../scheduled-sync.js';
+
+const HOUR = 60 * 60 * 1000;
+
+function account(id: string, userId: string, lastSyncedAgoMs: number) {
+  return {
+    id,
+    user_id: userId,
+    email: `${id}@example.com`,
+    provider: 'Gmail',
+    last_synced: new Date(Date.now() - lastSyncedAgoMs).toISOString(),
+    next_sync_at: null,
+  };
+}
+
+function scheduledUpdates() {
+  return calls
+    .filter(c => c.table === 'email_accounts' && c.method === 'update' && Object.keys(c.args[0]).length === 1)
+    .map(c => c.args[0].next_sync_at as string);
+}
+
+describe('isSyncDue', () => {
+  it('uses next_sync_at once set, and last_synced + interval before that', () => {
+    const now = Date.now();
+    expect(isSyncDue({ last_synced: new Date(now - 2 * HOUR).toISOString(), next_sync_at: null }, 60, now)).toBe(true);
+    expect(isSyncDue({ last_synced: new Date(now - 2 * HOUR).toISOString(), next_sync_at: new Date(now + HOUR).toISOString() }, 60, now)).toBe(false);
+    expect(isSyncDue({ last_synced: null, next_sync_at: null }, 60, now)).toBe(false);
+  });
+});
+
+describe('scheduledIntervalMinutes', () => {
+  it('syncs plans without a Sync Now limit hourly', () => {
+    expect(scheduledIntervalMinutes({ syncIntervalMinutes: 240 })).toBe(240);
+    expect(scheduledIntervalMinutes({ syncIntervalMinutes: 0 })).toBe(60);
+  });
+});
+
+describe('runScheduledSyncTick', () => {
+  const incrementalSync = vi.fn(async ({ res }: any) => { res.status(200).json({ success: true }); });
+
+  beforeEach(() => {
+    calls.length = 0;
+    incrementalSync.mockClear();
+    vi.mocked(getMailProvider).mockResolvedValue({ incrementalSync } as any);
+    tables.subscriptions = [];
+  });
+
+  it('schedules accounts that are not due yet instead of leaving them at the front of the queue', async () => {
+    const lastSynced = 2 * HOUR;
+    tables.email_accounts = [account('acc-fresh', 'user-free', lastSynced), account('acc-due', 'user-pro', lastSynced)];
+    tables.subscriptions = [{ user_id: 'user-pro', plan: 'Pro', status: 'active' }];
+
+    const results = await runScheduledSyncTick(2);
+
+    expect(results).toEqual([expect.objectContaining({ accountId: 'acc-due', status: 'synced' })]);
+    expect(incrementalSync).toHaveBeenCalledTimes(1);
+
+    // The free account is due 24 hours after its last sync
+    const [nextSyncAt] = scheduledUpdates();
+    const expected = new Date(tables.email_accounts[0].last_synced).getTime() + 24 * HOUR;
+    expect(new Date(nextSyncAt).getTime()).toBe(expected);
+    const scheduled = calls.filter(c => c.table === 'email_accounts' && (c.method === 'eq' || c.method === 'is')).map(c => c.args);
+    expect(scheduled).toContainEqual(['id', 'acc-fresh']);
+    expect(scheduled).toContainEqual(['next_sync_at', null]);
+  });
+
+  it('uses the free interval when the subscription is not active or trialing', async () => {
+    tables.email_accounts = [account('acc-canceled', 'user-canceled', 2 * HOUR), account('acc-trial', 'user-trial', 2 * HOUR)];
+    tables.subscriptions = [
+      { user_id: 'user-canceled', plan: 'Pro', status: 'canceled' },
+      { user_id: 'user-trial', plan: 'Pro', status: 'trialing' },
+    ];
+
+    const results = await runScheduledSyncTick(2);
+
+    expect(results).toEqual([expect.objectContaining({ accountId: 'acc-trial', status: 'synced' })]);
+    expect(incrementalSync).toHaveBeenCalledWith(expect.objectContaining({ emailLimit: 15000 }));
+    expect(scheduledUpdates()).toHaveLength(1);
+  });
+});
@@ -1,6 +1,6 @@
 import { describe, it, expect, vi } from 'vitest';
 
-// Mock all module-level dependencies before importing sync.ts
+// Mock all module-level dependencies before importing gmail-sync.ts
 vi.mock('@supabase/supabase-js', () => ({
   createClient: vi.fn(() => ({ from: vi.fn() })),
 }));
@@ -33,7 +33,8 @@ vi.mock('../../lib/sentry.js', () => ({
   withSentry: vi.fn((handler: any) => handler),
 }));
 
-import { parseSender, extractUnsubscribeLink, extractMailtoUnsubscribeLink } from '../sync.js';
+import { parseSender, applyLabelChanges } from '../gmail-sync.js';
+import { extractUnsubscribeLink, extractMailtoUnsubscribeLink } from '../../lib/mail-provider.js';
 
 describe('parseSender', () => {
   it('parses "Name <email>" format', () => {
@@ -139,3 +140,22 @@ describe('extractMailtoUnsubscribeLink', () => {
     expect(extractMailtoUnsubscribeLink(null as any)).toBeNull();
   });
 });
+
+describe('applyLabelChanges', () => {
+  it('applies read and archive changes in history order', () => {
+    const labels = applyLabelChanges(['INBOX', 'UNREAD', 'CATEGORY_UPDATES'], [
+      { addedLabelIds: [], removedLabelIds: ['UNREAD'] },
+      { addedLabelIds: [], removedLabelIds: ['INBOX'] },
+    ]);
+    expect(labels).toEqual(['CATEGORY_UPDATES']);
+  });
+
+  it('lets a later change undo an earlier one', () => {
+    const labels = applyLabelChanges(['INBOX'], [
+      { addedLabelIds: ['UNREAD'], removedLabelIds: [] },
+      { addedLabelIds: [], removedLabelIds: ['UNREAD'] },
+      { addedLabelIds: ['STARRED', 'INBOX'], removedLabelIds: [] },
+    ]);
+    expect(labels).toEqual(['INBOX', 'STARRED']);
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Sender Domains Endpoint
+ *
+ * GET /api/emails/domains?accountEmail=[&domain=][&limit=]
+ *
+ * Rolls an account's senders up by registrable domain (Public Suffix List
+ * aware, see api/lib/sender-domains.ts) with email/unread totals and the
+ * name+email senders under each domain, largest domains first.
+ * Pass `domain` to get just that domain's rollup.
+ *
+ * A whole domain can be cleaned up with POST /api/cleanup/jobs
+ * and filter: { domain }.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { requireEmailVerification, AuthenticatedRequest } from '../lib/auth-middleware.js';
+import { rateLimit, RateLimitPresets } from '../lib/rate-limiter.js';
+import { loadSenderRows, normalizeDomain, rollupSendersByDomain } from '../lib/sender-domains.js';
+
+const supabase = createClient(
+  process.env.VITE_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+const limiter = rateLimit(RateLimitPresets.RELAXED);
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  // Only allow GET
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Rate limiting
+  if (await limiter(req, res)) return;
+
+  // Require authentication
+  const user = requireEmailVerification(req as AuthenticatedRequest, res);
+  if (!user) return;
+
+  const { accountEmail, domain: domainParam, limit } = req.query;
+
+  if (!accountEmail || typeof accountEmail !== 'string') {
+    return res.status(400).json({
+      error: 'Account email is required',
+      code: 'MISSING_ACCOUNT_EMAIL'
+    });
+  }
+
+  let domain: string | undefined;
+  if (domainParam !== undefined) {
+    domain = normalizeDomain(domainParam) ?? undefined;
+    if (!domain) {
+      return res.status(400).json({
+        error: 'domain must be a valid domain name',
+        code: 'INVALID_DOMAIN'
+      });
+    }
+  }
+
+  try {
+    const { data: account } = await supabase
+      .from('email_accounts')
+      .select('id')
+      .eq('user_id', user.userId)
+      .eq('email', accountEmail)
+      .single();
+
+    if (!account) {
+      return res.status(404).json({
+        error: 'Email account not found',
+        code: 'ACCOUNT_NOT_FOUND'
+      });
+    }
+
+    const rollups = rollupSendersByDomain(await loadSenderRows(account.id, domain));
+    const requestedLimit = limit ? parseInt(limit as string) : Infinity;
+
+    return res.status(200).json({
+      domains: Number.isFinite(requestedLimit) && requestedLimit > 0 ? rollups.slice(0, requestedLimit) : rollups,
+      total: rollups.length,
+    });
+
+  } catch (error: any) {
+    console.error('Fetch sender domains error:', error);
+    return res.status(500).json({
+      error: 'Failed to fetch sender domains',
+      code: 'FETCH_ERROR'
+    });
+  }
+}
@@ -4,17 +4,14 @@
  * GET /api/emails/get?messageId=xxx&accountEmail=xxx
  *
  * Returns the full content of a single email.
- * Requires authenticated user with connected Gmail account.
+ * Requires authenticated user with a connected email account.
  */
 
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { createClient } from '@supabase/supabase-js';
 import { requireEmailVerification, AuthenticatedRequest } from '../lib/auth-middleware.js';
 import { rateLimit, RateLimitPresets } from '../lib/rate-limiter.js';
-import { getValidAccessToken } from '../lib/gmail.js';
-import { getValidOutlookAccessToken } from '../lib/outlook.js';
-import { getMessage } from '../lib/gmail-api.js';
-import { getFullMessage } from '../lib/outlook-api.js';
+import { getMailProvider } from '../providers/index.js';
 
 const supabase = createClient(
   process.env.VITE_SUPABASE_URL!,
@@ -23,93 +20,6 @@ const supabase = createClient(
 
 const limiter = rateLimit(RateLimitPresets.RELAXED);
 
-export interface FullEmailMessage {
-  id: string;
-  threadId: string;
-  subject: string;
-  from: string;
-  to: string;
-  date: string;
-  snippet: string;
-  body: string;
-  bodyHtml: string;
-  isUnread: boolean;
-  labels: string[];
-}
-
-/**
- * Decode base64url encoded string
- */
-function decodeBase64Url(data: string): string {
-  // Replace URL-safe characters
-  const base64 = data.replace(/-/g, '+').replace(/_/g, '/');
-  try {
-    return Buffer.from(base64, 'base64').toString('utf-8');
-  } catch (e) {
-    console.warn('Failed to decode base64:', e);
-    return '';
-  }
-}
-
-/**
- * Extract body from message payload
- */
-function extractBody(payload: any): { text: string; html: string } {
-  let text = '';
-  let html = '';
-
-  if (!payload) {
-    return { text, html };
-  }
-
-  // Simple message with body directly in payload
-  if (payload.body?.data) {
-    const decoded = decodeBase64Url(payload.body.data);
-    const mimeType = payload.mimeType || '';
-    if (mimeType.includes('html')) {
-      html = decoded;
-    } else {
-      text = decoded;
-    }
-  }
-
-  // Multipart message - recursively search parts
-  if (payload.parts) {
-    for (const part of payload.parts) {
-      const mimeType = part.mimeType || '';
-
-      if (part.body?.data) {
-        const decoded = decodeBase64Url(part.body.data);
-        if (mimeType === 'text/html') {
-          html = decoded;
-        } else if (mimeType === 'text/plain') {
-          text = decoded;
-        }
-      }
-
-      // Handle nested parts (e.g., multipart/alternative inside multipart/mixed)
-      if (part.parts) {
-        const nested = extractBody(part);
-        if (nested.html && !html) html = nested.html;
-        if (nested.text && !text) text = nested.text;
-      }
-    }
-  }
-
-  return { text, html };
-}
-
-/**
- * Extract header value from message
- */
-function getHeader(payload: any, headerName: string): string {
-  if (!payload?.headers) return '';
-  const header = payload.headers.find(
-    (h: any) => h.name.toLowerCase() === headerName.toLowerCase()
-  );
-  return header?.value || '';
-}
-
 export default async function handler(
   req: VercelRequest,
   res: VercelResponse
@@ -137,78 +47,22 @@ export default async function handler(
   }
 
   try {
-    // Detect provider from email account
     const { data: account } = await supabase
       .from('email_accounts')
-      .select('provider, gmail_email')
+      .select('id, email, provider, gmail_email')
       .eq('user_id', user.userId)
       .eq('email', accountEmail)
       .single();
 
-    const isOutlook = account?.provider === 'Outlook';
-
-    if (isOutlook) {
-      // Outlook: fetch from Graph API
-      const { accessToken } = await getValidOutlookAccessToken(
-        user.userId,
-        accountEmail
-      );
-
-      const msg = await getFullMessage(accessToken, messageId);
-
-      const fromAddr = msg.from?.emailAddress;
-      const toAddrs = (msg.toRecipients || [])
-        .map((r: any) => r.emailAddress?.address)
-        .filter(Boolean)
-        .join(', ');
-
-      const email: FullEmailMessage = {
-        id: msg.id,
-        threadId: msg.conversationId || msg.id,
-        subject: msg.subject || '(No Subject)',
-        from: fromAddr ? `${fromAddr.name || ''} <${fromAddr.address}>`.trim() : '',
-        to: toAddrs,
-        date: msg.receivedDateTime ? new Date(msg.receivedDateTime).toISOString() : '',
-        snippet: msg.bodyPreview || '',
-        body: msg.body?.contentType === 'text' ? msg.body.content || '' : '',
-        bodyHtml: msg.body?.contentType === 'html' ? msg.body.content || '' : '',
-        isUnread: !msg.isRead,
-        labels: [],
-      };
-
-      return res.status(200).json({ email });
+    if (!account) {
+      return res.status(404).json({
+        error: 'Email account not found',
+        code: 'ACCOUNT_NOT_FOUND'
+      });
     }
 
-    // Gmail: existing behavior
-    const { accessToken } = await getValidAccessToken(user.userId, accountEmail);
-
-    // Fetch the full message
-    const message = await getMessage(accessToken, messageId, 'full');
-
-    // Extract headers
-    const subject = getHeader(message.payload, 'Subject') || '(No Subject)';
-    const from = getHeader(message.payload, 'From') || '';
-    const to = getHeader(message.payload, 'To') || '';
-    const date = message.internalDate
-      ? new Date(parseInt(message.internalDate)).toISOString()
-      : '';
-
-    // Extract body content
-    const { text, html } = extractBody(message.payload);
-
-    const email: FullEmailMessage = {
-      id: message.id,
-      threadId: message.threadId,
-      subject,
-      from,
-      to,
-      date,
-      snippet: message.snippet || '',
-      body: text,
-      bodyHtml: html,
-      isUnread: message.labelIds?.includes('UNREAD') || false,
-      labels: message.labelIds || [],
-    };
+    const provider = await getMailProvider(user.userId, account);
+    const email = await provider.getFullMessage(messageId);
 
     return res.status(200).json({ email });
 
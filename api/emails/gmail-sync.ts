@@ -0,0 +1,1539 @@
+/**
+ * Gmail Sync Helper Module
+ *
+ * Handles full, upgrade, initial-batch and incremental sync for Gmail accounts.
+ * Called through the Gmail MailProvider (api/providers/gmail.ts).
+ *
+ * Incremental sync guarantees:
+ * - Uses Gmail History API for exact change detection
+ * - Falls back to timestamp-based fetch when historyId is missing or expired
+ * - Verifies that all of Gmail's newest emails exist locally before reporting success
+ * - If the completeness check fails, automatically escalates to recovery sync
+ */
+
+import type { VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { listMessages, batchGetMessages, getProfile, getHistoryChanges, hasAttachments, listSentRecipients, GmailLabelChange } from '../lib/gmail-api.js';
+import { extractUnsubscribeLink, extractMailtoUnsubscribeLink, parseListId } from '../lib/mail-provider.js';
+import { batchRecalculateSenderStats } from '../lib/sender-stats.js';
+import { isProviderUnavailableError } from '../lib/provider-quota.js';
+import { applySenderRules, RuleExecutor, SenderFlags } from '../lib/sender-rules.js';
+import { applyMutedSenders } from '../lib/muted-senders.js';
+import { saveSentRecipients } from '../lib/engagement.js';
+import {
+  startSyncJob,
+  claimSyncJob,
+  checkpointSyncJob,
+  releaseSyncJob,
+  recordSyncJobFailure,
+  finishSyncJob,
+  toSyncJobResponse,
+  SyncJob
+} from '../lib/sync-jobs.js';
+
+const supabase = createClient(
+  process.env.VITE_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+const BATCH_SIZE = 100;
+const MAX_INCREMENTAL_MESSAGES = 1000; // Safety limit for incremental sync
+
+// How long one request works on a full/upgrade sync job before checkpointing
+// and handing back a 202 - well inside the serverless function timeout
+const DEFAULT_JOB_BUDGET_MS = 25 * 1000;
+const SYNC_QUERY = '-in:sent -in:drafts -in:trash -in:spam';
+const SYNC_HEADERS = ['From', 'Date', 'Subject', 'List-Unsubscribe', 'List-Unsubscribe-Post', 'List-Id'];
+
+/**
+ * Full Sync: Rebuild all data from Gmail.
+ * Runs as a resumable sync job - each call continues from the last checkpoint.
+ */
+export async function performGmailFullSync(
+  res: VercelResponse,
+  userId: string,
+  accountId: string,
+  accessToken: string,
+  userEmail: string,
+  emailLimit: number,
+  email: string,
+  timeBudgetMs: number = DEFAULT_JOB_BUDGET_MS
+) {
+  const job = await startSyncJob(userId, accountId, 'full', emailLimit);
+  return runGmailSyncJob(res, job, accessToken, userEmail, email, timeBudgetMs);
+}
+
+/**
+ * Upgrade Sync: User upgraded their plan. Keep existing emails, only fetch new ones.
+ * Each listed page is diffed against the DB so only new messages are downloaded.
+ * Progress counts already-stored emails so it feels continuous.
+ */
+export async function performGmailUpgradeSync(
+  res: VercelResponse,
+  userId: string,
+  accountId: string,
+  accessToken: string,
+  userEmail: string,
+  emailLimit: number,
+  email: string,
+  timeBudgetMs: number = DEFAULT_JOB_BUDGET_MS
+) {
+  const job = await startSyncJob(userId, accountId, 'upgrade', emailLimit);
+  return runGmailSyncJob(res, job, accessToken, userEmail, email, timeBudgetMs);
+}
+
+/**
+ * Run a sync job until it finishes or the time budget runs out.
+ * Responds 200 when the job completed, 202 (inProgress) when the client
+ * should call again to continue from the checkpoint.
+ */
+async function runGmailSyncJob(
+  res: VercelResponse,
+  job: SyncJob,
+  accessToken: string,
+  userEmail: string,
+  email: string,
+  timeBudgetMs: number
+) {
+  if (!(await claimSyncJob(job.id))) {
+    return res.status(202).json({
+      success: true,
+      inProgress: true,
+      message: 'Sync is already running',
+      syncType: job.sync_type,
+      job: toSyncJobResponse(job)
+    });
+  }
+
+  const deadline = Date.now() + timeBudgetMs;
+
+  try {
+    while (job.phase === 'fetching') {
+      job = await runGmailSyncStep(job, accessToken, userEmail);
+
+      if (job.phase === 'fetching' && Date.now() >= deadline) {
+        await releaseSyncJob(job.id);
+        return res.status(202).json({
+          success: true,
+          inProgress: true,
+          message: `Synced ${job.processed_count.toLocaleString()} emails so far`,
+          syncType: job.sync_type,
+          job: toSyncJobResponse(job)
+        });
+      }
+    }
+
+    return await finalizeGmailSyncJob(res, job, accessToken, email);
+  } catch (error: any) {
+    // An outage isn't the job's fault - leave it resumable without counting a failure
+    if (isProviderUnavailableError(error)) {
+      await releaseSyncJob(job.id);
+    } else {
+      await recordSyncJobFailure(job, error.message);
+    }
+    throw error;
+  }
+}
+
+/**
+ * One resumable step: list a page of message IDs, fetch and store them,
+ * then checkpoint the page token. A failed step is retried from the same page.
+ */
+async function runGmailSyncStep(job: SyncJob, accessToken: string, userEmail: string): Promise<SyncJob> {
+  // Over-fetch by 10% to account for filtered emails (self-sent, no sender, etc.)
+  // so the stored count hits the plan limit instead of falling short
+  const fetchLimit = Math.ceil(job.email_limit * 1.1);
+
+  // Note the mailbox position before the first page is listed, so mail arriving
+  // while the job runs is picked up by the next incremental sync
+  let startHistoryId = job.start_history_id;
+  if (!startHistoryId && !job.page_token && job.listed_count === 0) {
+    try {
+      startHistoryId = (await getProfile(accessToken)).historyId;
+    } catch (e) {
+      console.warn('Could not get historyId:', e);
+    }
+  }
+
+  const response = await listMessages(accessToken, {
+    maxResults: Math.min(100, fetchLimit - job.listed_count),
+    pageToken: job.page_token || undefined,
+    q: SYNC_QUERY,
+  });
+  const messageRefs = response.messages || [];
+  const listedCount = job.listed_count + messageRefs.length;
+
+  let messageIds = messageRefs.map(m => m.id);
+  let alreadyStored = 0;
+
+  // Upgrade sync keeps existing emails - only download the ones we don't have
+  if (job.sync_type === 'upgrade' && messageIds.length > 0) {
+    const { data: existing } = await supabase
+      .from('emails')
+      .select('gmail_message_id')
+      .eq('email_account_id', job.email_account_id)
+      .in('gmail_message_id', messageIds);
+    const existingIds = new Set((existing || []).map(e => e.gmail_message_id));
+    alreadyStored = existingIds.size;
+    messageIds = messageIds.filter(id => !existingIds.has(id));
+  }
+
+  // Stop once we've hit the plan's email limit
+  const remaining = Math.max(0, job.email_limit - job.processed_count - alreadyStored);
+  const messages = messageIds.length > 0 && remaining > 0
+    ? await batchGetMessages(accessToken, messageIds, 'metadata', SYNC_HEADERS)
+    : [];
+  const emailsToUpsert = buildEmailRows(messages, job.email_account_id, userEmail, job.id).slice(0, remaining);
+
+  // Upsert so a retried or resumed step never duplicates rows; sync_job_id marks
+  // the row as seen by this job (full sync prunes everything else at the end)
+  for (let i = 0; i < emailsToUpsert.length; i += BATCH_SIZE) {
+    const batch = emailsToUpsert.slice(i, i + BATCH_SIZE);
+    const { error } = await supabase
+      .from('emails')
+      .upsert(batch, { onConflict: 'email_account_id,gmail_message_id' });
+    if (error) throw new Error(`Email upsert failed: ${error.message}`);
+  }
+
+  const processedCount = job.processed_count + alreadyStored + emailsToUpsert.length;
+  const done = messageRefs.length === 0
+    || !response.nextPageToken
+    || listedCount >= fetchLimit
+    || processedCount >= job.email_limit;
+
+  // Gmail's estimate is the best total we have without listing everything up front
+  // (cap at emailLimit so users don't see the over-fetched count)
+  const estimate = job.progress_total ?? response.resultSizeEstimate ?? 0;
+  const progressTotal = done
+    ? Math.min(processedCount, job.email_limit)
+    : Math.min(Math.max(estimate, processedCount), job.email_limit);
+
+  return checkpointSyncJob(job.id, {
+    phase: done ? 'finalizing' : 'fetching',
+    page_token: done ? null : response.nextPageToken!,
+    listed_count: listedCount,
+    processed_count: processedCount,
+    fetched_count: job.fetched_count + emailsToUpsert.length,
+    progress_total: progressTotal,
+    start_history_id: startHistoryId,
+  });
+}
+
+/**
+ * Build email rows from Gmail messages, skipping spam/trash, self-sent and sender-less mail
+ */
+function buildEmailRows(messages: any[], accountId: string, userEmail: string, jobId: string): any[] {
+  const rows: any[] = [];
+
+  for (const msg of messages) {
+    const labels = msg.labelIds || [];
+    if (labels.includes('SPAM') || labels.includes('TRASH')) continue;
+
+    const fromHeader = msg.payload?.headers?.find((h: any) => h.name === 'From')?.value || '';
+    const subjectHeader = msg.payload?.headers?.find((h: any) => h.name === 'Subject')?.value || '';
+    const unsubscribeHeader = msg.payload?.headers?.find((h: any) => h.name === 'List-Unsubscribe')?.value || '';
+    const unsubscribePostHeader = msg.payload?.headers?.find((h: any) => h.name === 'List-Unsubscribe-Post')?.value || '';
+
+    const { senderEmail, senderName } = parseSender(fromHeader);
+    if (senderEmail === userEmail || !senderEmail) continue;
+
+    // Use Gmail's internalDate (epoch ms) instead of Date header for reliable timezone handling
+    // The Date header can be in any timezone and JS parsing can shift the date
+    const internalDateMs = parseInt(msg.internalDate);
+    const receivedAt = new Date(internalDateMs).toISOString();
+
+    rows.push({
+      gmail_message_id: msg.id,
+      email_account_id: accountId,
+      sender_email: senderEmail,
+      sender_name: senderName,
+      subject: subjectHeader || '(No Subject)',
+      snippet: msg.snippet || '',
+      received_at: receivedAt,
+      is_unread: labels.includes('UNREAD'),
+      thread_id: msg.threadId,
+      labels,
+      list_id: getListId(msg),
+      size_bytes: msg.sizeEstimate ?? null,
+      has_attachments: hasAttachments(msg),
+      // Kept per email so senders can be rebuilt from the emails table with their links
+      unsubscribe_link: extractUnsubscribeLink(unsubscribeHeader),
+      mailto_unsubscribe_link: extractMailtoUnsubscribeLink(unsubscribeHeader),
+      has_one_click_unsubscribe: unsubscribePostHeader.toLowerCase().includes('list-unsubscribe=one-click'),
+      sync_job_id: jobId,
+    });
+  }
+
+  return rows;
+}
+
+/**
+ * Last step of a sync job: prune (full sync), rebuild senders, update the account
+ */
+async function finalizeGmailSyncJob(
+  res: VercelResponse,
+  job: SyncJob,
+  accessToken: string,
+  email: string
+) {
+  const userId = job.user_id;
+  const accountId = job.email_account_id;
+  const syncType = job.sync_type;
+
+  // Safety check: Don't delete existing data if Gmail returned nothing
+  if (syncType === 'full' && job.listed_count === 0) {
+    console.warn('Full sync: Gmail returned 0 messages - keeping existing data');
+    await finishSyncJob(job.id, 'completed');
+    await supabase.from('email_accounts').update({
+      sync_progress_total: null,
+      sync_progress_current: null
+    }).eq('id', accountId);
+
+    return res.status(200).json({
+      success: true,
+      totalSenders: 0,
+      totalEmails: 0,
+      message: 'No emails found - existing data preserved',
+      warning: 'Gmail returned no emails. Check if account has proper permissions.',
+      syncType,
+      job: toSyncJobResponse({ ...job, status: 'completed', phase: 'done' })
+    });
+  }
+
+  // Full sync replaces the mailbox: drop emails this job didn't see
+  if (syncType === 'full') {
+    const { error } = await supabase
+      .from('emails')
+      .delete()
+      .eq('email_account_id', accountId)
+      .or(`sync_job_id.is.null,sync_job_id.neq.${job.id}`);
+    if (error) throw new Error(`Failed to prune emails: ${error.message}`);
+  }
+
+  // Rebuild ALL senders from the emails table (not just affected ones)
+  // The partial recalculation via batchRecalculateSenderStats can fail with large
+  // sender counts due to .in() query limits. Rebuilding from the emails table is
+  // more reliable and ensures accurate counts after a plan upgrade.
+  const totalSenders = await rebuildSendersFromEmails(userId, accountId);
+
+  // Who the user writes to feeds engagement scores; a failed scan keeps the last one
+  if (syncType === 'full') {
+    try {
+      await saveSentRecipients(userId, accountId, await listSentRecipients(accessToken));
+    } catch (e) {
+      console.warn('Could not scan sent mail:', e);
+    }
+  }
+
+  const { count } = await supabase
+    .from('emails')
+    .select('id', { count: 'exact', head: true })
+    .eq('email_account_id', accountId);
+  const totalEmails = count || 0;
+
+  // Incremental syncs continue from where the mailbox was when the job started
+  // (jobs that couldn't read it then fall back to the current position)
+  let historyId = job.start_history_id || undefined;
+  if (!historyId) {
+    try {
+      const profile = await getProfile(accessToken);
+      historyId = profile.historyId;
+    } catch (e) {
+      console.warn('Could not get historyId:', e);
+    }
+  }
+
+  // Update account stats and clear sync progress
+  await supabase.from('email_accounts').update({
+    total_emails: totalEmails,
+    last_synced: new Date().toISOString(),
+    updated_at: new Date().toISOString(),
+    sync_progress_total: null,
+    sync_progress_current: null,
+    ...(historyId && { history_id: historyId })
+  }).eq('id', accountId);
+
+  await finishSyncJob(job.id, 'completed');
+  const finishedJob = toSyncJobResponse({ ...job, status: 'completed', phase: 'done', completed_at: new Date().toISOString() });
+
+  if (syncType === 'upgrade') {
+    // Upgrade sync only downloads messages it didn't already have
+    const addedEmails = job.fetched_count;
+
+    await supabase.from('activity_log').insert({
+      user_id: userId,
+      action_type: 'email_sync',
+      description: `Upgrade sync: ${addedEmails.toLocaleString()} new emails added (${totalEmails.toLocaleString()} total)`,
+      metadata: { email, syncType, totalEmails, addedEmails }
+    });
+
+    return res.status(200).json({
+      success: true,
+      totalSenders,
+      totalEmails,
+      addedEmails,
+      message: addedEmails > 0 ? `Upgrade sync: added ${addedEmails} new emails` : 'Already up to date',
+      syncType,
+      job: finishedJob
+    });
+  }
+
+  await supabase.from('activity_log').insert({
+    user_id: userId,
+    action_type: 'email_sync',
+    description: `Full sync: ${totalEmails.toLocaleString()} emails from ${totalSenders} senders`,
+    metadata: { email, syncType, totalEmails, totalSenders }
+  });
+
+  return res.status(200).json({
+    success: true,
+    totalSenders,
+    totalEmails,
+    deletedEmails: 0,
+    message: 'Full sync completed successfully',
+    syncType,
+    job: finishedJob
+  });
+}
+
+/**
+ * Gmail Initial Batch: Fetch only 500 most recent emails for fast first-load.
+ * Does NOT set last_synced or history_id — the account stays in "needs full sync" state
+ * so Phase 2 (full sync) rebuilds everything with accurate totals.
+ */
+export async function performGmailInitialBatch(
+  res: VercelResponse,
+  userId: string,
+  accountId: string,
+  accessToken: string,
+  userEmail: string,
+  email: string,
+  emailLimit: number = 500
+) {
+  const INITIAL_BATCH_LIMIT = Math.min(500, emailLimit);
+  const query = '-in:sent -in:drafts -in:trash -in:spam';
+
+  // Fetch up to 500 most recent message IDs (5 pages of 100)
+  const allMessageRefs: Array<{ id: string; threadId: string }> = [];
+  let pageToken: string | undefined;
+
+  while (allMessageRefs.length < INITIAL_BATCH_LIMIT) {
+    const response = await listMessages(accessToken, {
+      maxResults: Math.min(100, INITIAL_BATCH_LIMIT - allMessageRefs.length),
+      pageToken,
+      q: query,
+    });
+
+    if (!response.messages || response.messages.length === 0) break;
+    allMessageRefs.push(...response.messages);
+
+    if (!response.nextPageToken) break;
+    pageToken = response.nextPageToken;
+  }
+
+  if (allMessageRefs.length === 0) {
+    return res.status(200).json({
+      success: true,
+      totalSenders: 0,
+      totalEmails: 0,
+      syncType: 'initialBatch'
+    });
+  }
+
+  // Write total for progress bar polling (cap at emailLimit)
+  const batchProgressTotal = Math.min(allMessageRefs.length, emailLimit);
+  await supabase.from('email_accounts').update({
+    sync_progress_total: batchProgressTotal,
+    sync_progress_current: 0
+  }).eq('id', accountId);
+
+  // Fetch message details
+  const messageIds = allMessageRefs.map(m => m.id);
+  let lastInitialProgressUpdate = 0;
+  const messages = await batchGetMessages(accessToken, messageIds, 'metadata', SYNC_HEADERS,
+    (processed, total) => {
+      if (processed - lastInitialProgressUpdate >= 100 || processed === total) {
+        lastInitialProgressUpdate = processed;
+        supabase.from('email_accounts').update({
+          sync_progress_current: Math.min(processed, batchProgressTotal)
+        }).eq('id', accountId).then(() => {});
+      }
+    }
+  );
+
+  // Process messages (same logic as performFullSync Step 4)
+  const emailsToInsert: any[] = [];
+  const senderStats = new Map<string, {
+    sender_email: string;
+    sender_name: string;
+    email_count: number;
+    unread_count: number;
+    total_size_bytes: number;
+    first_email_date: string;
+    last_email_date: string;
+    unsubscribe_link: string | null;
+    mailto_unsubscribe_link: string | null;
+    has_unsubscribe: boolean;
+    has_one_click_unsubscribe: boolean;
+    is_newsletter: boolean;
+    is_promotional: boolean;
+    _unsub_link_date?: string;
+    _mailto_unsub_link_date?: string;
+  }>();
+
+  for (const msg of messages) {
+    const labels = msg.labelIds || [];
+    if (labels.includes('SPAM') || labels.includes('TRASH')) continue;
+
+    const fromHeader = msg.payload?.headers?.find((h: any) => h.name === 'From')?.value || '';
+    const subjectHeader = msg.payload?.headers?.find((h: any) => h.name === 'Subject')?.value || '';
+    const unsubscribeHeader = msg.payload?.headers?.find((h: any) => h.name === 'List-Unsubscribe')?.value || '';
+    const unsubscribePostHeader = msg.payload?.headers?.find((h: any) => h.name === 'List-Unsubscribe-Post')?.value || '';
+
+    const { senderEmail, senderName } = parseSender(fromHeader);
+    if (senderEmail === userEmail || !senderEmail) continue;
+
+    const internalDateMs = parseInt(msg.internalDate);
+    const receivedAt = new Date(internalDateMs).toISOString();
+    const isUnread = labels.includes('UNREAD');
+
+    emailsToInsert.push({
+      gmail_message_id: msg.id,
+      email_account_id: accountId,
+      sender_email: senderEmail,
+      sender_name: senderName,
+      subject: subjectHeader || '(No Subject)',
+      snippet: msg.snippet || '',
+      received_at: receivedAt,
+      is_unread: isUnread,
+      thread_id: msg.threadId,
+      labels,
+      list_id: getListId(msg),
+      size_bytes: msg.sizeEstimate ?? null,
+      has_attachments: hasAttachments(msg),
+    });
+
+    // Update sender stats
+    const senderKey = `${senderEmail}|||${senderName}`;
+    const existing = senderStats.get(senderKey);
+    const unsubscribeLink = extractUnsubscribeLink(unsubscribeHeader);
+    const mailtoUnsubscribeLink = extractMailtoUnsubscribeLink(unsubscribeHeader);
+    const hasOneClick = unsubscribePostHeader.toLowerCase().includes('list-unsubscribe=one-click');
+
+    if (existing) {
+      existing.email_count++;
+      if (isUnread) existing.unread_count++;
+      existing.total_size_bytes += msg.sizeEstimate || 0;
+      if (receivedAt < existing.first_email_date) existing.first_email_date = receivedAt;
+      if (receivedAt > existing.last_email_date) existing.last_email_date = receivedAt;
+      if (unsubscribeLink && (!existing._unsub_link_date || receivedAt > existing._unsub_link_date)) {
+        existing.unsubscribe_link = unsubscribeLink;
+        existing.has_unsubscribe = true;
+        existing.has_one_click_unsubscribe = hasOneClick;
+        existing._unsub_link_date = receivedAt;
+      }
+      if (mailtoUnsubscribeLink && (!existing._mailto_unsub_link_date || receivedAt > existing._mailto_unsub_link_date)) {
+        existing.mailto_unsubscribe_link = mailtoUnsubscribeLink;
+        existing._mailto_unsub_link_date = receivedAt;
+      }
+    } else {
+      senderStats.set(senderKey, {
+        sender_email: senderEmail,
+        sender_name: senderName,
+        email_count: 1,
+        unread_count: isUnread ? 1 : 0,
+        total_size_bytes: msg.sizeEstimate || 0,
+        first_email_date: receivedAt,
+        last_email_date: receivedAt,
+        unsubscribe_link: unsubscribeLink,
+        mailto_unsubscribe_link: mailtoUnsubscribeLink,
+        has_unsubscribe: !!unsubscribeLink,
+        has_one_click_unsubscribe: hasOneClick,
+        is_newsletter: labels.includes('CATEGORY_UPDATES') && !!unsubscribeLink,
+        is_promotional: labels.includes('CATEGORY_PROMOTIONS'),
+        _unsub_link_date: unsubscribeLink ? receivedAt : undefined,
+        _mailto_unsub_link_date: mailtoUnsubscribeLink ? receivedAt : undefined,
+      });
+    }
+  }
+
+  // Insert emails in batches (tables are empty for first sync, no delete needed)
+  for (let i = 0; i < emailsToInsert.length; i += BATCH_SIZE) {
+    const batch = emailsToInsert.slice(i, i + BATCH_SIZE);
+    const { error } = await supabase.from('emails').insert(batch);
+    if (error) console.error('Initial batch email insert error:', error.message);
+  }
+
+  // Insert senders (strip tracking fields)
+  const sendersToInsert = Array.from(senderStats.values()).map(({ _unsub_link_date, _mailto_unsub_link_date, ...s }) => ({
+    user_id: userId,
+    email_account_id: accountId,
+    ...s,
+    updated_at: new Date().toISOString()
+  }));
+
+  for (let i = 0; i < sendersToInsert.length; i += BATCH_SIZE) {
+    const batch = sendersToInsert.slice(i, i + BATCH_SIZE);
+    const { error } = await supabase.from('email_senders').insert(batch);
+    if (error) console.error('Initial batch sender insert error:', error.message);
+  }
+
+  // If the initial batch already covers the full plan limit, mark account as fully synced
+  // so we skip Phase 2 entirely (e.g., free tier: limit=100, batch=100)
+  const fullSyncNeeded = emailLimit > INITIAL_BATCH_LIMIT;
+
+  if (!fullSyncNeeded) {
+    // Get Gmail profile for historyId so incremental sync works next time
+    try {
+      const profile = await getProfile(accessToken);
+      await supabase.from('email_accounts').update({
+        last_synced: new Date().toISOString(),
+        history_id: profile.historyId,
+        total_emails: emailsToInsert.length,
+        sync_progress_total: null,
+        sync_progress_current: null
+      }).eq('id', accountId);
+    } catch {
+      // If profile fetch fails, still clear progress
+      await supabase.from('email_accounts').update({
+        last_synced: new Date().toISOString(),
+        total_emails: emailsToInsert.length,
+        sync_progress_total: null,
+        sync_progress_current: null
+      }).eq('id', accountId);
+    }
+  } else {
+    // Clear progress — Phase 2 will set its own progress
+    await supabase.from('email_accounts').update({
+      sync_progress_total: null,
+      sync_progress_current: null
+    }).eq('id', accountId);
+  }
+
+  return res.status(200).json({
+    success: true,
+    totalSenders: sendersToInsert.length,
+    totalEmails: emailsToInsert.length,
+    syncType: 'initialBatch',
+    fullSyncNeeded
+  });
+}
+
+/**
+ * Incremental Sync: Reliable sync using History API with timestamp fallback
+ *
+ * Strategy:
+ * 1. Try History API first (fastest, most reliable)
+ * 2. If history expired, fall back to timestamp-based query
+ * 3. Verify completeness after sync
+ * 4. Never delete based on heuristic limits - only delete what History API reports
+ */
+export async function performGmailIncrementalSync(
+  res: VercelResponse,
+  userId: string,
+  accountId: string,
+  accessToken: string,
+  userEmail: string,
+  email: string,
+  lastSyncedAt: string,
+  storedHistoryId: string | null,
+  rules: RuleExecutor
+) {
+  let addedCount = 0;
+  let deletedCount = 0;
+  let updatedCount = 0;
+  const affectedSenders = new Set<string>();
+  let syncMethod = 'history';
+  let newHistoryId: string | undefined;
+  // Collect unsubscribe info from all processNewMessages calls to apply AFTER sender rows are created
+  const allSendersWithUnsubscribe = new Map<string, { unsubscribeLink: string | null; mailtoLink: string | null; hasOneClick: boolean; receivedAt: string; isNewsletter: boolean; isPromotional: boolean }>();
+
+  // Try History API first if we have a stored historyId
+  if (storedHistoryId) {
+    try {
+      const historyChanges = await getHistoryChanges(accessToken, storedHistoryId);
+
+      if (historyChanges.historyExpired) {
+        syncMethod = 'timestamp';
+      } else {
+        // History API succeeded - use its results
+        newHistoryId = historyChanges.newHistoryId;
+
+        const addedMessageIds = historyChanges.addedMessageIds;
+        const deletedMessageIds = historyChanges.deletedMessageIds;
+
+        // Process added messages
+        if (addedMessageIds.length > 0) {
+          const result = await processNewMessages(
+            accessToken, accountId, userEmail, addedMessageIds, affectedSenders, rules
+          );
+          addedCount = result.addedCount;
+          for (const [k, v] of result.sendersWithUnsubscribe) allSendersWithUnsubscribe.set(k, v);
+        }
+
+        // Process deleted messages
+        if (deletedMessageIds.length > 0) {
+          const result = await processDeletedMessages(
+            accountId, deletedMessageIds, affectedSenders
+          );
+          deletedCount = result.deletedCount;
+        }
+
+        // Apply read/archive/category changes made in Gmail itself
+        if (historyChanges.labelChanges.length > 0) {
+          const result = await processLabelChanges(
+            accountId, historyChanges.labelChanges, new Set(deletedMessageIds), affectedSenders
+          );
+          updatedCount = result.updatedCount;
+        }
+      }
+    } catch (error: any) {
+      console.error('History API error:', error.message);
+      syncMethod = 'timestamp';
+    }
+  } else {
+    syncMethod = 'timestamp';
+  }
+
+  // Fallback: timestamp-based sync
+  if (syncMethod === 'timestamp') {
+    // Build query to get ALL emails after last sync (not limited to arbitrary count)
+    const lastSyncDate = new Date(lastSyncedAt);
+    // Subtract 1 hour buffer to handle timezone/timing edge cases
+    const bufferDate = new Date(lastSyncDate.getTime() - 60 * 60 * 1000);
+    const epochSeconds = Math.floor(bufferDate.getTime() / 1000);
+    const query = `-in:sent -in:drafts -in:trash -in:spam after:${epochSeconds}`;
+
+    // Fetch ALL messages since last sync (with safety limit)
+    const messageRefs: Array<{ id: string; threadId: string }> = [];
+    let pageToken: string | undefined;
+
+    while (messageRefs.length < MAX_INCREMENTAL_MESSAGES) {
+      const response = await listMessages(accessToken, {
+        maxResults: 100,
+        pageToken,
+        q: query,
+      });
+
+      if (!response.messages || response.messages.length === 0) break;
+      messageRefs.push(...response.messages);
+
+      if (!response.nextPageToken) break;
+      pageToken = response.nextPageToken;
+    }
+
+    // Find which messages are new (not in our DB)
+    const gmailMessageIds = messageRefs.map(m => m.id);
+
+    if (gmailMessageIds.length > 0) {
+      // Query in batches to avoid Supabase limits
+      const existingIds = new Set<string>();
+      for (let i = 0; i < gmailMessageIds.length; i += 500) {
+        const batch = gmailMessageIds.slice(i, i + 500);
+        const { data: existingEmails } = await supabase
+          .from('emails')
+          .select('gmail_message_id')
+          .eq('email_account_id', accountId)
+          .in('gmail_message_id', batch);
+
+        (existingEmails || []).forEach(e => existingIds.add(e.gmail_message_id));
+      }
+
+      const newMessageIds = gmailMessageIds.filter(id => !existingIds.has(id));
+
+      if (newMessageIds.length > 0) {
+        const result = await processNewMessages(
+          accessToken, accountId, userEmail, newMessageIds, affectedSenders, rules
+        );
+        addedCount = result.addedCount;
+        for (const [k, v] of result.sendersWithUnsubscribe) allSendersWithUnsubscribe.set(k, v);
+      }
+    }
+
+    // For timestamp-based sync, we don't know deletions - skip deletion detection
+    // (Full sync handles cleanup, and History API handles deletions when available)
+  }
+
+  // Get fresh historyId if we don't have one
+  if (!newHistoryId) {
+    try {
+      const profile = await getProfile(accessToken);
+      newHistoryId = profile.historyId;
+    } catch (e) {
+      console.warn('Could not get historyId:', e);
+    }
+  }
+
+  // Post-sync completeness check
+  const completenessResult = await verifyCompletenessAndSync(
+    accessToken, accountId, userEmail, affectedSenders, rules
+  );
+  addedCount += completenessResult.addedCount;
+  for (const [k, v] of completenessResult.sendersWithUnsubscribe) allSendersWithUnsubscribe.set(k, v);
+
+  // ENFORCEMENT: If completeness check failed, escalate to recovery sync automatically
+  if (!completenessResult.complete) {
+    const recoveryResult = await performRecoverySync(
+      accessToken, accountId, userEmail, affectedSenders, rules
+    );
+    addedCount += recoveryResult.addedCount;
+    for (const [k, v] of recoveryResult.sendersWithUnsubscribe) allSendersWithUnsubscribe.set(k, v);
+
+    const finalCheck = await verifyCompletenessAndSync(
+      accessToken, accountId, userEmail, affectedSenders, rules
+    );
+    addedCount += finalCheck.addedCount;
+    for (const [k, v] of finalCheck.sendersWithUnsubscribe) allSendersWithUnsubscribe.set(k, v);
+
+    if (!finalCheck.complete) {
+      syncMethod = 'recovery-failed';
+    } else {
+      syncMethod = 'recovery';
+    }
+  }
+
+  // Recalculate sender stats for affected senders (creates rows for new senders)
+  // Uses batched approach: 2-3 DB queries total instead of 3*N sequential queries
+  // This prevents Vercel Hobby 10s timeout when many senders are affected
+  await batchRecalculateSenderStats(userId, accountId, affectedSenders);
+
+  // Apply unsubscribe + newsletter/promotional info AFTER recalculateSenderStats has created/updated sender rows
+  for (const [key, info] of allSendersWithUnsubscribe) {
+    const [senderEmail, senderName] = key.split('|||');
+    await supabase
+      .from('email_senders')
+      .update({
+        ...(info.unsubscribeLink && {
+          has_unsubscribe: true,
+          unsubscribe_link: info.unsubscribeLink,
+          has_one_click_unsubscribe: info.hasOneClick,
+        }),
+        ...(info.mailtoLink && { mailto_unsubscribe_link: info.mailtoLink }),
+        ...(info.isNewsletter && { is_newsletter: true }),
+        ...(info.isPromotional && { is_promotional: true }),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('email_account_id', accountId)
+      .eq('sender_email', senderEmail)
+      .eq('sender_name', senderName);
+  }
+
+  // Lightweight orphaned sender check
+  const orphanedFixed = await fixOrphanedSenders(userId, accountId);
+
+  // Update account with new sync time and historyId
+  const now = new Date().toISOString();
+  await supabase
+    .from('email_accounts')
+    .update({
+      last_synced: now,
+      updated_at: now,
+      ...(newHistoryId && { history_id: newHistoryId })
+    })
+    .eq('id', accountId);
+
+  // Log activity
+  const description = `Sync (${syncMethod}): ${addedCount} new, ${deletedCount} removed${updatedCount > 0 ? `, ${updatedCount} updated` : ''}`;
+  await supabase.from('activity_log').insert({
+    user_id: userId,
+    action_type: 'email_sync',
+    description,
+    metadata: {
+      email,
+      syncType: syncMethod.includes('recovery') ? 'recovery' : 'incremental',
+      syncMethod,
+      addedEmails: addedCount,
+      deletedEmails: deletedCount,
+      updatedEmails: updatedCount,
+      completenessVerified: !syncMethod.includes('failed')
+    }
+  });
+
+  return res.status(200).json({
+    success: !syncMethod.includes('failed'),
+    totalSenders: affectedSenders.size,
+    addedEmails: addedCount,
+    deletedEmails: deletedCount,
+    updatedEmails: updatedCount,
+    orphansFixed: orphanedFixed,
+    message: syncMethod.includes('failed')
+      ? `Sync incomplete - ${completenessResult.missingCount} emails could not be synced`
+      : (addedCount > 0 || deletedCount > 0 || updatedCount > 0 || orphanedFixed > 0
+          ? `${description}${orphanedFixed > 0 ? `, ${orphanedFixed} orphans fixed` : ''}`
+          : 'Inbox is up to date'),
+    syncType: syncMethod.includes('recovery') ? 'recovery' : 'incremental',
+    syncMethod
+  });
+}
+
+/**
+ * Process and insert new messages
+ */
+async function processNewMessages(
+  accessToken: string,
+  accountId: string,
+  userEmail: string,
+  messageIds: string[],
+  affectedSenders: Set<string>,
+  rules: RuleExecutor
+): Promise<{ addedCount: number; sendersWithUnsubscribe: Map<string, { unsubscribeLink: string | null; mailtoLink: string | null; hasOneClick: boolean; receivedAt: string; isNewsletter: boolean; isPromotional: boolean }> }> {
+  let addedCount = 0;
+
+  const messages = await batchGetMessages(accessToken, messageIds, 'metadata', SYNC_HEADERS);
+
+
+  // Track senders that need unsubscribe info restored
+  const sendersWithUnsubscribe = new Map<string, { unsubscribeLink: string | null; mailtoLink: string | null; hasOneClick: boolean; receivedAt: string; isNewsletter: boolean; isPromotional: boolean }>();
+  // Senders with newly inserted mail - sender rules are evaluated for these
+  const batchSenders = new Set<string>();
+
+  for (const msg of messages) {
+    const labels = msg.labelIds || [];
+    // Skip spam/trash, but also skip sent/drafts to only get inbox emails
+    if (labels.includes('SPAM') || labels.includes('TRASH') ||
+        labels.includes('SENT') || labels.includes('DRAFT')) {
+
+      continue;
+    }
+
+    const fromHeader = msg.payload?.headers?.find((h: any) => h.name === 'From')?.value || '';
+    const dateHeader = msg.payload?.headers?.find((h: any) => h.name === 'Date')?.value || '';
+    const subjectHeader = msg.payload?.headers?.find((h: any) => h.name === 'Subject')?.value || '';
+    const unsubscribeHeader = msg.payload?.headers?.find((h: any) => h.name === 'List-Unsubscribe')?.value || '';
+    const unsubscribePostHeader = msg.payload?.headers?.find((h: any) => h.name === 'List-Unsubscribe-Post')?.value || '';
+
+    const { senderEmail, senderName } = parseSender(fromHeader);
+    if (senderEmail === userEmail || !senderEmail) {
+
+      continue;
+    }
+
+    // Use Gmail's internalDate (epoch ms) instead of Date header for reliable timezone handling
+    // The Date header can be in any timezone and JS parsing can shift the date
+    const receivedAt = new Date(parseInt(msg.internalDate)).toISOString();
+
+    // Track unsubscribe + newsletter/promotional info to apply after sender rows are created
+    const unsubscribeLink = extractUnsubscribeLink(unsubscribeHeader);
+    const mailtoLink = extractMailtoUnsubscribeLink(unsubscribeHeader);
+    const isNewsletter = labels.includes('CATEGORY_UPDATES') && !!unsubscribeLink;
+    const isPromotional = labels.includes('CATEGORY_PROMOTIONS');
+    if (unsubscribeLink || isNewsletter || isPromotional) {
+      const key = `${senderEmail}|||${senderName}`;
+      const existing = sendersWithUnsubscribe.get(key);
+      if (!existing || receivedAt > existing.receivedAt) {
+        sendersWithUnsubscribe.set(key, {
+          unsubscribeLink,
+          mailtoLink,
+          hasOneClick: unsubscribePostHeader.toLowerCase().includes('list-unsubscribe=one-click'),
+          receivedAt,
+          isNewsletter,
+          isPromotional,
+        });
+      }
+    }
+
+    // Insert email (unique constraint will reject duplicates)
+    const { error } = await supabase.from('emails').insert({
+      gmail_message_id: msg.id,
+      email_account_id: accountId,
+      sender_email: senderEmail,
+      sender_name: senderName,
+      subject: subjectHeader || '(No Subject)',
+      snippet: msg.snippet || '',
+      received_at: receivedAt,
+      is_unread: labels.includes('UNREAD'),
+      thread_id: msg.threadId,
+      labels,
+      list_id: getListId(msg),
+      size_bytes: msg.sizeEstimate ?? null,
+      has_attachments: hasAttachments(msg),
+    });
+
+    if (!error) {
+      addedCount++;
+      affectedSenders.add(`${senderEmail}|||${senderName}`);
+      batchSenders.add(`${senderEmail}|||${senderName}`);
+    } else if (error.code === '23505') {
+      // Duplicate email already in DB - still track sender for stats recalculation.
+      // This fixes orphaned emails from previous timed-out syncs where the email
+      // was inserted but the sender row was never created.
+      affectedSenders.add(`${senderEmail}|||${senderName}`);
+    }
+  }
+
+  // Apply the account's sender rules to this batch's senders.
+  // Counts are fixed up by the stats recalculation that follows every sync.
+  if (batchSenders.size > 0) {
+    const batchFlags = new Map<string, SenderFlags>();
+    for (const [key, info] of sendersWithUnsubscribe) {
+      batchFlags.set(key, { isNewsletter: info.isNewsletter, isPromotional: info.isPromotional });
+    }
+    await applySenderRules(accountId, batchSenders, batchFlags, rules);
+    // Then mark whatever is left from muted senders read
+    await applyMutedSenders(accountId, batchSenders, rules);
+  }
+
+  return { addedCount, sendersWithUnsubscribe };
+}
+
+/**
+ * Recovery Sync: Thorough sync when incremental sync fails completeness check
+ *
+ * This is automatically triggered when emails are missing after incremental sync.
+ * It fetches ALL recent emails (not just since last sync) to catch anything missed.
+ * User never needs to trigger this manually.
+ */
+async function performRecoverySync(
+  accessToken: string,
+  accountId: string,
+  userEmail: string,
+  affectedSenders: Set<string>,
+  rules: RuleExecutor
+): Promise<{ addedCount: number; sendersWithUnsubscribe: Map<string, { unsubscribeLink: string | null; mailtoLink: string | null; hasOneClick: boolean; receivedAt: string; isNewsletter: boolean; isPromotional: boolean }> }> {
+  // Fetch a large number of recent emails to ensure completeness
+  const RECOVERY_FETCH_COUNT = 500;
+  const query = '-in:sent -in:drafts -in:trash -in:spam';
+
+  const messageRefs: Array<{ id: string; threadId: string }> = [];
+  let pageToken: string | undefined;
+
+  while (messageRefs.length < RECOVERY_FETCH_COUNT) {
+    const response = await listMessages(accessToken, {
+      maxResults: 100,
+      pageToken,
+      q: query,
+    });
+
+    if (!response.messages || response.messages.length === 0) break;
+    messageRefs.push(...response.messages);
+
+    if (!response.nextPageToken) break;
+    pageToken = response.nextPageToken;
+  }
+
+  // Find which messages are missing from our DB
+  const gmailIds = messageRefs.map(m => m.id);
+  const existingIds = new Set<string>();
+
+  for (let i = 0; i < gmailIds.length; i += 500) {
+    const batch = gmailIds.slice(i, i + 500);
+    const { data: existingEmails } = await supabase
+      .from('emails')
+      .select('gmail_message_id')
+      .eq('email_account_id', accountId)
+      .in('gmail_message_id', batch);
+
+    (existingEmails || []).forEach(e => existingIds.add(e.gmail_message_id));
+  }
+
+  const missingIds = gmailIds.filter(id => !existingIds.has(id));
+
+  if (missingIds.length === 0) {
+    return { addedCount: 0, sendersWithUnsubscribe: new Map() };
+  }
+
+  // Fetch and add all missing emails
+
+  const result = await processNewMessages(
+    accessToken, accountId, userEmail, missingIds, affectedSenders, rules
+  );
+
+  return { addedCount: result.addedCount, sendersWithUnsubscribe: result.sendersWithUnsubscribe };
+}
+
+/**
+ * Process deleted messages (from History API)
+ */
+async function processDeletedMessages(
+  accountId: string,
+  deletedMessageIds: string[],
+  affectedSenders: Set<string>
+): Promise<{ deletedCount: number }> {
+  let deletedCount = 0;
+
+  // Find which deleted messages exist in our DB
+  for (let i = 0; i < deletedMessageIds.length; i += 500) {
+    const batch = deletedMessageIds.slice(i, i + 500);
+
+    const { data: emailsToDelete } = await supabase
+      .from('emails')
+      .select('id, gmail_message_id, sender_email, sender_name')
+      .eq('email_account_id', accountId)
+      .in('gmail_message_id', batch);
+
+    if (emailsToDelete && emailsToDelete.length > 0) {
+      // Track affected senders before deletion
+      for (const e of emailsToDelete) {
+        affectedSenders.add(`${e.sender_email}|||${e.sender_name}`);
+      }
+
+      // Delete the emails
+      const idsToDelete = emailsToDelete.map(e => e.id);
+      await supabase.from('emails').delete().in('id', idsToDelete);
+      deletedCount += emailsToDelete.length;
+    }
+  }
+
+  return { deletedCount };
+}
+
+/**
+ * Apply History API label changes, in order, to a message's label list
+ */
+export function applyLabelChanges(labels: string[], changes: Array<Pick<GmailLabelChange, 'addedLabelIds' | 'removedLabelIds'>>): string[] {
+  const result = new Set(labels);
+  for (const change of changes) {
+    for (const label of change.addedLabelIds) result.add(label);
+    for (const label of change.removedLabelIds) result.delete(label);
+  }
+  return [...result];
+}
+
+/**
+ * Process label changes (from History API): keep emails.labels and is_unread in
+ * step with read/unread, archive and category changes made in Gmail itself.
+ * Messages we don't store (or that were just deleted) are ignored.
+ */
+async function processLabelChanges(
+  accountId: string,
+  labelChanges: GmailLabelChange[],
+  deletedMessageIds: Set<string>,
+  affectedSenders: Set<string>
+): Promise<{ updatedCount: number }> {
+  const changesByMessage = new Map<string, GmailLabelChange[]>();
+  for (const change of labelChanges) {
+    if (deletedMessageIds.has(change.messageId)) continue;
+    const changes = changesByMessage.get(change.messageId) || [];
+    changes.push(change);
+    changesByMessage.set(change.messageId, changes);
+  }
+
+  // Group rows by their resulting labels so each distinct label set is one update
+  const updates = new Map<string, { labels: string[]; isUnread: boolean; ids: string[] }>();
+  const messageIds = [...changesByMessage.keys()];
+
+  for (let i = 0; i < messageIds.length; i += 500) {
+    const batch = messageIds.slice(i, i + 500);
+
+    const { data: emails } = await supabase
+      .from('emails')
+      .select('id, gmail_message_id, sender_email, sender_name, labels, is_unread')
+      .eq('email_account_id', accountId)
+      .in('gmail_message_id', batch);
+
+    for (const e of emails || []) {
+      const labels = applyLabelChanges(e.labels || [], changesByMessage.get(e.gmail_message_id)!);
+      const isUnread = labels.includes('UNREAD');
+      const unchanged = isUnread === e.is_unread
+        && labels.length === (e.labels || []).length
+        && labels.every(l => (e.labels || []).includes(l));
+      if (unchanged) continue;
+
+      const key = `${isUnread}|${[...labels].sort().join(',')}`;
+      const update = updates.get(key) || { labels, isUnread, ids: [] };
+      update.ids.push(e.id);
+      updates.set(key, update);
+      affectedSenders.add(`${e.sender_email}|||${e.sender_name}`);
+    }
+  }
+
+  let updatedCount = 0;
+  for (const { labels, isUnread, ids } of updates.values()) {
+    for (let i = 0; i < ids.length; i += 500) {
+      const batch = ids.slice(i, i + 500);
+      const { error } = await supabase
+        .from('emails')
+        .update({ labels, is_unread: isUnread })
+        .in('id', batch);
+      if (error) {
+        console.error('Label change update error:', error.message);
+      } else {
+        updatedCount += batch.length;
+      }
+    }
+  }
+
+  return { updatedCount };
+}
+
+/**
+ * Post-sync completeness verification with enforcement
+ *
+ * GUARANTEES:
+/**
+ * Fix orphaned/stale senders: emails exist in DB but sender row is missing, has wrong count,
+ * or has a stale last_email_date. Only checks the 200 most recent emails — lightweight.
+ */
+async function fixOrphanedSenders(
+  userId: string,
+  accountId: string
+): Promise<number> {
+  // Get senders from the 200 most recent emails with dates
+  const { data: recentEmails } = await supabase
+    .from('emails')
+    .select('sender_email, sender_name, received_at')
+    .eq('email_account_id', accountId)
+    .order('received_at', { ascending: false })
+    .limit(200);
+
+  if (!recentEmails || recentEmails.length === 0) return 0;
+
+  // Track per-sender: count and newest email date from DB
+  const senderInfo = new Map<string, { email: string; name: string; count: number; newestDate: string }>();
+  for (const e of recentEmails) {
+    const key = `${e.sender_email}|||${e.sender_name}`;
+    const existing = senderInfo.get(key);
+    if (existing) {
+      existing.count++;
+      if (e.received_at > existing.newestDate) existing.newestDate = e.received_at;
+    } else {
+      senderInfo.set(key, { email: e.sender_email, name: e.sender_name, count: 1, newestDate: e.received_at });
+    }
+  }
+
+  // Check which of these senders have email_senders rows, their counts, and last dates
+  const senderEmails = [...new Set(recentEmails.map(e => e.sender_email))];
+  const { data: existingSenders } = await supabase
+    .from('email_senders')
+    .select('sender_email, sender_name, email_count, last_email_date')
+    .eq('email_account_id', accountId)
+    .in('sender_email', senderEmails);
+
+  const existingMap = new Map(
+    (existingSenders || []).map(s => [
+      `${s.sender_email}|||${s.sender_name}`,
+      { count: s.email_count, lastDate: s.last_email_date }
+    ])
+  );
+
+  // Recalculate stats for senders that are:
+  // 1. Missing from email_senders
+  // 2. Have count = 0 despite having emails
+  // 3. Have a stale last_email_date (newer emails exist in DB)
+  // 4. Have no last_email_date at all
+  let fixedCount = 0;
+  for (const [key, info] of senderInfo) {
+    const existing = existingMap.get(key);
+    let needsFix = false;
+
+    if (!existing || existing.count === 0 || !existing.lastDate) {
+      needsFix = true;
+    } else if (info.newestDate) {
+      // Use Date objects for comparison — string comparison fails when
+      // Supabase returns different timestamp formats (.000Z vs +00:00)
+      const newestTime = new Date(info.newestDate).getTime();
+      const lastTime = new Date(existing.lastDate).getTime();
+      if (newestTime > lastTime) {
+        needsFix = true;
+      }
+    }
+
+    if (needsFix) {
+      await recalculateSenderStats(userId, accountId, info.email, info.name);
+      fixedCount++;
+    }
+  }
+
+  return fixedCount;
+}
+
+/**
+ * Post-sync completeness verification with enforcement
+ *
+ * GUARANTEES:
+ * - Asks Gmail: "What are your newest emails?"
+ * - Verifies: "Do we have all of them locally?"
+ * - If any are missing, attempts to add them
+ * - Re-verifies after adding to confirm success
+ * - Returns complete: false if verification fails (triggers recovery)
+ *
+ * The verification is DATA-DRIVEN (Gmail's actual state), not COUNT-DRIVEN.
+ * The fetch count is an implementation detail; the guarantee is completeness.
+ *
+ * This function MUST NOT return complete: true if any Gmail emails are missing
+ */
+async function verifyCompletenessAndSync(
+  accessToken: string,
+  accountId: string,
+  userEmail: string,
+  affectedSenders: Set<string>,
+  rules: RuleExecutor
+): Promise<{ addedCount: number; complete: boolean; missingCount: number; sendersWithUnsubscribe: Map<string, { unsubscribeLink: string | null; mailtoLink: string | null; hasOneClick: boolean; receivedAt: string; isNewsletter: boolean; isPromotional: boolean }> }> {
+  // Ask Gmail for its newest emails, then verify we have ALL of them
+  // The count (50) is implementation detail; the guarantee is: Gmail's emails = our emails
+  const response = await listMessages(accessToken, {
+    maxResults: 50,
+    q: '-in:sent -in:drafts -in:trash -in:spam',
+  });
+
+  if (!response.messages || response.messages.length === 0) {
+    return { addedCount: 0, complete: true, missingCount: 0, sendersWithUnsubscribe: new Map() };
+  }
+
+  const gmailIds = response.messages.map(m => m.id);
+
+  // Check if these exist in our DB
+  const { data: existingEmails } = await supabase
+    .from('emails')
+    .select('gmail_message_id')
+    .eq('email_account_id', accountId)
+    .in('gmail_message_id', gmailIds);
+
+  const existingIds = new Set((existingEmails || []).map(e => e.gmail_message_id));
+  let missingIds = gmailIds.filter(id => !existingIds.has(id));
+
+  if (missingIds.length === 0) {
+    return { addedCount: 0, complete: true, missingCount: 0, sendersWithUnsubscribe: new Map() };
+  }
+
+  // Attempt to add the missing emails
+  const result = await processNewMessages(
+    accessToken, accountId, userEmail, missingIds, affectedSenders, rules
+  );
+
+  // RE-VERIFY: Check again to confirm all missing emails were actually added
+  const { data: recheck } = await supabase
+    .from('emails')
+    .select('gmail_message_id')
+    .eq('email_account_id', accountId)
+    .in('gmail_message_id', missingIds);
+
+  const recheckIds = new Set((recheck || []).map(e => e.gmail_message_id));
+  const stillMissing = missingIds.filter(id => !recheckIds.has(id));
+
+  if (stillMissing.length > 0) {
+    console.error(`Completeness check FAILED: ${stillMissing.length} emails still missing after attempted add`);
+    return { addedCount: result.addedCount, complete: false, missingCount: stillMissing.length, sendersWithUnsubscribe: result.sendersWithUnsubscribe };
+  }
+
+  return { addedCount: result.addedCount, complete: true, missingCount: 0, sendersWithUnsubscribe: result.sendersWithUnsubscribe };
+}
+
+/**
+ * Rebuild all senders from the emails table for an account.
+ * Used at the end of full and upgrade syncs to ensure accurate sender counts.
+ * Reads all emails in paginated chunks, aggregates stats in-memory,
+ * then batch-inserts new sender rows. Returns the number of senders.
+ * Merged senders live in sender_groups, keyed by email+name, so they
+ * reattach to the re-inserted rows (see api/lib/sender-groups.ts).
+ */
+async function rebuildSendersFromEmails(userId: string, accountId: string): Promise<number> {
+  // Read all emails for this account (paginated for Supabase 1000-row limit)
+  const senderStats = new Map<string, {
+    sender_email: string;
+    sender_name: string;
+    email_count: number;
+    unread_count: number;
+    total_size_bytes: number;
+    first_email_date: string;
+    last_email_date: string;
+    labels_seen: string[];
+    unsubscribe_link: string | null;
+    mailto_unsubscribe_link: string | null;
+    has_one_click_unsubscribe: boolean;
+    unsub_link_date?: string;
+    mailto_unsub_link_date?: string;
+  }>();
+
+  let page = 0;
+  while (true) {
+    const { data, error } = await supabase
+      .from('emails')
+      .select('sender_email, sender_name, received_at, is_unread, size_bytes, labels, unsubscribe_link, mailto_unsubscribe_link, has_one_click_unsubscribe')
+      .eq('email_account_id', accountId)
+      .order('id')
+      .range(page * 1000, (page + 1) * 1000 - 1);
+    if (error || !data || data.length === 0) break;
+
+    for (const email of data) {
+      const key = `${email.sender_email}|||${email.sender_name}`;
+      let existing = senderStats.get(key);
+      if (existing) {
+        existing.email_count++;
+        if (email.is_unread) existing.unread_count++;
+        existing.total_size_bytes += email.size_bytes || 0;
+        if (email.received_at < existing.first_email_date) existing.first_email_date = email.received_at;
+        if (email.received_at > existing.last_email_date) existing.last_email_date = email.received_at;
+        if (email.labels) existing.labels_seen.push(...email.labels);
+      } else {
+        existing = {
+          sender_email: email.sender_email,
+          sender_name: email.sender_name,
+          email_count: 1,
+          unread_count: email.is_unread ? 1 : 0,
+          total_size_bytes: email.size_bytes || 0,
+          first_email_date: email.received_at,
+          last_email_date: email.received_at,
+          labels_seen: email.labels || [],
+          unsubscribe_link: null,
+          mailto_unsubscribe_link: null,
+          has_one_click_unsubscribe: false,
+        };
+        senderStats.set(key, existing);
+      }
+
+      // Prefer the most recent email's unsubscribe link (more likely to be valid)
+      if (email.unsubscribe_link && (!existing.unsub_link_date || email.received_at > existing.unsub_link_date)) {
+        existing.unsubscribe_link = email.unsubscribe_link;
+        existing.has_one_click_unsubscribe = !!email.has_one_click_unsubscribe;
+        existing.unsub_link_date = email.received_at;
+      }
+      if (email.mailto_unsubscribe_link && (!existing.mailto_unsub_link_date || email.received_at > existing.mailto_unsub_link_date)) {
+        existing.mailto_unsubscribe_link = email.mailto_unsubscribe_link;
+        existing.mailto_unsub_link_date = email.received_at;
+      }
+    }
+
+    if (data.length < 1000) break;
+    page++;
+  }
+
+  // Emails synced before links were stored per email have none - keep what the
+  // current sender rows already know instead of losing their unsubscribe links
+  const { data: currentSenders } = await supabase
+    .from('email_senders')
+    .select('sender_email, sender_name, unsubscribe_link, mailto_unsubscribe_link, has_one_click_unsubscribe')
+    .eq('email_account_id', accountId);
+  const currentLinks = new Map((currentSenders || []).map(s => [`${s.sender_email}|||${s.sender_name}`, s]));
+
+  // Build sender rows
+  const sendersToInsert = Array.from(senderStats.entries()).map(([key, s]) => {
+    const current = currentLinks.get(key);
+    const unsubscribeLink = s.unsubscribe_link || current?.unsubscribe_link || null;
+    return {
+      user_id: userId,
+      email_account_id: accountId,
+      sender_email: s.sender_email,
+      sender_name: s.sender_name,
+      email_count: s.email_count,
+      unread_count: s.unread_count,
+      total_size_bytes: s.total_size_bytes,
+      first_email_date: s.first_email_date,
+      last_email_date: s.last_email_date,
+      unsubscribe_link: unsubscribeLink,
+      mailto_unsubscribe_link: s.mailto_unsubscribe_link || current?.mailto_unsubscribe_link || null,
+      has_unsubscribe: !!unsubscribeLink,
+      has_one_click_unsubscribe: s.unsubscribe_link ? s.has_one_click_unsubscribe : !!current?.has_one_click_unsubscribe,
+      is_newsletter: s.labels_seen.includes('CATEGORY_UPDATES'),
+      is_promotional: s.labels_seen.includes('CATEGORY_PROMOTIONS'),
+      updated_at: new Date().toISOString(),
+    };
+  });
+
+  // Delete old senders right before inserting new ones to minimize the empty window
+  await supabase.from('email_senders').delete().eq('email_account_id', accountId);
+
+  // Insert in batches
+  for (let i = 0; i < sendersToInsert.length; i += BATCH_SIZE) {
+    const batch = sendersToInsert.slice(i, i + BATCH_SIZE);
+    const { error } = await supabase.from('email_senders').insert(batch);
+    if (error) console.error('Rebuild sender insert error:', error.message);
+  }
+
+  return sendersToInsert.length;
+}
+
+/**
+ * Recalculate sender stats from actual email data
+ */
+async function recalculateSenderStats(
+  userId: string,
+  accountId: string,
+  senderEmail: string,
+  senderName: string
+) {
+  // Get all emails for this sender
+  const { data: emails } = await supabase
+    .from('emails')
+    .select('received_at, is_unread, size_bytes')
+    .eq('email_account_id', accountId)
+    .eq('sender_email', senderEmail)
+    .eq('sender_name', senderName)
+    .order('received_at', { ascending: false });
+
+  if (!emails || emails.length === 0) {
+    // No emails left - delete sender
+    await supabase
+      .from('email_senders')
+      .delete()
+      .eq('email_account_id', accountId)
+      .eq('sender_email', senderEmail)
+      .eq('sender_name', senderName);
+    return;
+  }
+
+  const emailCount = emails.length;
+  const unreadCount = emails.filter(e => e.is_unread).length;
+  const totalSizeBytes = emails.reduce((sum, e) => sum + (e.size_bytes || 0), 0);
+  const lastEmailDate = emails[0].received_at;
+  const firstEmailDate = emails[emails.length - 1].received_at;
+
+  // Check if sender exists
+  const { data: existingSender } = await supabase
+    .from('email_senders')
+    .select('id')
+    .eq('email_account_id', accountId)
+    .eq('sender_email', senderEmail)
+    .eq('sender_name', senderName)
+    .single();
+
+  if (existingSender) {
+    // Update existing sender
+    await supabase
+      .from('email_senders')
+      .update({
+        email_count: emailCount,
+        unread_count: unreadCount,
+        total_size_bytes: totalSizeBytes,
+        first_email_date: firstEmailDate,
+        last_email_date: lastEmailDate,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', existingSender.id);
+  } else {
+    // Create new sender
+    await supabase.from('email_senders').insert({
+      user_id: userId,
+      email_account_id: accountId,
+      sender_email: senderEmail,
+      sender_name: senderName,
+      email_count: emailCount,
+      unread_count: unreadCount,
+      total_size_bytes: totalSizeBytes,
+      first_email_date: firstEmailDate,
+      last_email_date: lastEmailDate,
+      has_unsubscribe: false,
+      is_newsletter: false,
+      is_promotional: false,
+      updated_at: new Date().toISOString()
+    });
+  }
+}
+
+/**
+ * Mailing-list identifier of a Gmail message. Header names keep the sender's
+ * casing in metadata responses ("List-ID", "List-Id"), so match them loosely.
+ */
+function getListId(msg: any): string | null {
+  return parseListId(msg.payload?.headers?.find((h: any) => h.name?.toLowerCase() === 'list-id')?.value);
+}
+
+/**
+ * Parse sender email and name from From header
+ */
+export function parseSender(fromHeader: string): { senderEmail: string; senderName: string } {
+  if (!fromHeader) return { senderEmail: '', senderName: '' };
+
+  // Handle formats like:
+  // "John Doe <john@example.com>"
+  // John Doe <john@example.com>
+  // <john@example.com>
+  // john@example.com
+  const emailMatch = fromHeader.match(/<([^>]+)>/) || fromHeader.match(/([^\s<]+@[^\s>]+)/);
+  const senderEmail = emailMatch ? emailMatch[1].toLowerCase() : fromHeader.toLowerCase();
+
+  const nameMatch = fromHeader.match(/^"?([^"<]+)"?\s*</) || fromHeader.match(/^([^<@]+)(?=@)/);
+  const senderName = nameMatch ? nameMatch[1].trim() : senderEmail;
+
+  return { senderEmail, senderName };
+}
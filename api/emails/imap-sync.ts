@@ -0,0 +1,388 @@
+/**
+ * IMAP Sync Helper Module (Yahoo, iCloud)
+ *
+ * Handles full and incremental sync for IMAP accounts.
+ * Called from the main sync.ts endpoint when account provider is Yahoo or iCloud.
+ *
+ * Incremental sync uses the INBOX UID/MODSEQ state stored on the account:
+ * - UIDs above imap_last_uid are new mail
+ * - CONDSTORE CHANGEDSINCE imap_highest_modseq gives read/unread changes
+ * - UIDs missing from the server's UID list were removed
+ * - A UIDVALIDITY change invalidates every stored UID and forces a full sync
+ */
+
+import type { VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import {
+  listInboxMessages,
+  getInboxChanges,
+  extractUnsubscribeLink,
+  extractMailtoUnsubscribeLink,
+  hasOneClickUnsubscribe,
+  extractListId,
+  ImapMessage,
+  ImapMailboxState,
+} from '../lib/imap-api.js';
+import type { ImapCredentials } from '../lib/imap.js';
+import { batchRecalculateSenderStats } from '../lib/sender-stats.js';
+import { applySenderRules, RuleExecutor } from '../lib/sender-rules.js';
+import { applyMutedSenders } from '../lib/muted-senders.js';
+
+const supabase = createClient(
+  process.env.VITE_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+const BATCH_SIZE = 100;
+
+type UnsubscribeInfo = { unsubscribeLink: string; mailtoLink: string | null; hasOneClick: boolean; receivedAt: string };
+
+/**
+ * Sync state columns written after every successful sync
+ */
+function mailboxStateColumns(state: ImapMailboxState) {
+  return {
+    imap_uid_validity: state.uidValidity,
+    imap_last_uid: Math.max(0, state.uidNext - 1),
+    imap_highest_modseq: state.highestModseq,
+  };
+}
+
+/**
+ * Apply unsubscribe info AFTER batchRecalculateSenderStats has created/updated sender rows
+ */
+async function applyUnsubscribeInfo(accountId: string, sendersWithUnsubscribe: Map<string, UnsubscribeInfo>) {
+  for (const [key, info] of sendersWithUnsubscribe) {
+    const [senderEmail, senderName] = key.split('|||');
+    await supabase
+      .from('email_senders')
+      .update({
+        has_unsubscribe: true,
+        unsubscribe_link: info.unsubscribeLink,
+        ...(info.mailtoLink && { mailto_unsubscribe_link: info.mailtoLink }),
+        has_one_click_unsubscribe: info.hasOneClick,
+        is_newsletter: true, // IMAP: no category labels, rely on header
+        updated_at: new Date().toISOString(),
+      })
+      .eq('email_account_id', accountId)
+      .eq('sender_email', senderEmail)
+      .eq('sender_name', senderName);
+  }
+}
+
+/**
+ * Build email rows and collect unsubscribe info for a set of messages
+ */
+function buildEmailRows(
+  messages: ImapMessage[],
+  accountId: string,
+  userEmail: string,
+  sendersWithUnsubscribe: Map<string, UnsubscribeInfo>,
+  limit: number = Infinity
+): any[] {
+  const rows: any[] = [];
+
+  for (const msg of messages) {
+    if (rows.length >= limit) break;
+    if (!msg.from?.address) continue;
+
+    const senderEmail = msg.from.address.toLowerCase();
+    const senderName = msg.from.name || senderEmail;
+    if (senderEmail === userEmail) continue;
+
+    const unsubscribeLink = extractUnsubscribeLink(msg);
+    if (unsubscribeLink) {
+      const key = `${senderEmail}|||${senderName}`;
+      const existing = sendersWithUnsubscribe.get(key);
+      if (!existing || msg.receivedAt > existing.receivedAt) {
+        sendersWithUnsubscribe.set(key, {
+          unsubscribeLink,
+          mailtoLink: extractMailtoUnsubscribeLink(msg) || null,
+          hasOneClick: hasOneClickUnsubscribe(msg),
+          receivedAt: msg.receivedAt,
+        });
+      }
+    }
+
+    rows.push({
+      gmail_message_id: msg.id,
+      email_account_id: accountId,
+      sender_email: senderEmail,
+      sender_name: senderName,
+      subject: msg.subject || '(No Subject)',
+      snippet: '',
+      received_at: msg.receivedAt,
+      is_unread: !msg.isRead,
+      thread_id: msg.messageId || msg.id,
+      labels: [],
+      list_id: extractListId(msg),
+      size_bytes: msg.size ?? null,
+      has_attachments: !!msg.hasAttachments,
+    });
+  }
+
+  return rows;
+}
+
+/**
+ * IMAP Full Sync: Delete all existing data and rebuild from the INBOX
+ */
+export async function performImapFullSync(
+  res: VercelResponse,
+  userId: string,
+  accountId: string,
+  credentials: ImapCredentials,
+  userEmail: string,
+  emailLimit: number,
+  email: string,
+  provider: string
+) {
+  // Over-fetch by 10% to account for filtered emails (self-sent, no sender, etc.)
+  const fetchLimit = Math.min(10000, Math.ceil(emailLimit * 1.1));
+
+  const { messages, state } = await listInboxMessages(credentials, { limit: fetchLimit });
+
+  const progressTotal = Math.min(messages.length, emailLimit);
+  await supabase.from('email_accounts').update({
+    sync_progress_total: progressTotal,
+    sync_progress_current: 0
+  }).eq('id', accountId);
+
+  if (messages.length === 0 && state.exists > 0) {
+    console.warn(`${provider} full sync: returned 0 messages - keeping existing data`);
+    await supabase.from('email_accounts').update({
+      sync_progress_total: null,
+      sync_progress_current: null
+    }).eq('id', accountId);
+    return res.status(200).json({
+      success: true,
+      totalSenders: 0,
+      totalEmails: 0,
+      message: 'No emails found - existing data preserved',
+      syncType: 'full'
+    });
+  }
+
+  // Delete existing emails and senders (stored UIDs may belong to an old UIDVALIDITY)
+  await supabase.from('emails').delete().eq('email_account_id', accountId);
+  await supabase.from('email_senders').delete().eq('email_account_id', accountId);
+
+  const sendersWithUnsubscribe = new Map<string, UnsubscribeInfo>();
+  const emailsToInsert = buildEmailRows(messages, accountId, userEmail, sendersWithUnsubscribe, emailLimit);
+
+  const affectedSenders = new Set<string>();
+  for (let i = 0; i < emailsToInsert.length; i += BATCH_SIZE) {
+    const batch = emailsToInsert.slice(i, i + BATCH_SIZE);
+    const { error } = await supabase.from('emails').insert(batch);
+    if (error) {
+      console.error('Email insert error:', error.message);
+      continue;
+    }
+    for (const row of batch) affectedSenders.add(`${row.sender_email}|||${row.sender_name}`);
+    supabase.from('email_accounts').update({
+      sync_progress_current: Math.min(i + batch.length, progressTotal)
+    }).eq('id', accountId).then(() => {});
+  }
+
+  await batchRecalculateSenderStats(userId, accountId, affectedSenders);
+  await applyUnsubscribeInfo(accountId, sendersWithUnsubscribe);
+
+  const totalEmails = emailsToInsert.length;
+  const now = new Date().toISOString();
+  await supabase
+    .from('email_accounts')
+    .update({
+      total_emails: totalEmails,
+      last_synced: now,
+      updated_at: now,
+      sync_progress_total: null,
+      sync_progress_current: null,
+      ...mailboxStateColumns(state)
+    })
+    .eq('id', accountId);
+
+  // Log activity
+  await supabase.from('activity_log').insert({
+    user_id: userId,
+    action_type: 'email_sync',
+    description: `Full sync: ${totalEmails.toLocaleString()} emails from ${affectedSenders.size} senders`,
+    metadata: { email, syncType: 'full', provider, totalEmails, totalSenders: affectedSenders.size }
+  });
+
+  return res.status(200).json({
+    success: true,
+    totalSenders: affectedSenders.size,
+    totalEmails,
+    deletedEmails: 0,
+    message: 'Full sync completed successfully',
+    syncType: 'full',
+    // Lets the two-phase first sync skip phase 2 - this already covered the plan limit
+    fullSyncNeeded: false
+  });
+}
+
+/**
+ * IMAP Incremental Sync: new mail, read-state changes and removals since the last sync
+ */
+export async function performImapIncrementalSync(
+  res: VercelResponse,
+  userId: string,
+  accountId: string,
+  credentials: ImapCredentials,
+  userEmail: string,
+  emailLimit: number,
+  email: string,
+  provider: string,
+  previous: { uidValidity: string | null; lastUid: number | null; highestModseq: string | null },
+  rules: RuleExecutor
+) {
+  // No stored UID state (e.g. account synced before state tracking) - rebuild
+  if (!previous.uidValidity || previous.lastUid === null) {
+    return performImapFullSync(res, userId, accountId, credentials, userEmail, emailLimit, email, provider);
+  }
+
+  const changes = await getInboxChanges(credentials, {
+    uidValidity: previous.uidValidity,
+    lastUid: previous.lastUid,
+    highestModseq: previous.highestModseq,
+  });
+
+  if (changes.uidValidityChanged) {
+    console.warn(`${provider} UIDVALIDITY changed for account ${accountId} - running full sync`);
+    return performImapFullSync(res, userId, accountId, credentials, userEmail, emailLimit, email, provider);
+  }
+
+  const affectedSenders = new Set<string>();
+  let addedCount = 0;
+  let deletedCount = 0;
+
+  // New messages
+  const { addedCount: added, sendersWithUnsubscribe } = await processImapNewMessages(
+    changes.newMessages, accountId, userEmail, affectedSenders, rules
+  );
+  addedCount = added;
+
+  // Read/unread changes (CONDSTORE)
+  for (const isUnread of [true, false]) {
+    const ids = changes.flagChanges.filter(c => c.isUnread === isUnread).map(c => c.id);
+    for (let i = 0; i < ids.length; i += BATCH_SIZE) {
+      const { data: updated } = await supabase
+        .from('emails')
+        .update({ is_unread: isUnread })
+        .eq('email_account_id', accountId)
+        .in('gmail_message_id', ids.slice(i, i + BATCH_SIZE))
+        .select('sender_email, sender_name');
+      for (const row of updated || []) affectedSenders.add(`${row.sender_email}|||${row.sender_name}`);
+    }
+  }
+
+  // Removed messages: local rows whose UID is no longer in the INBOX
+  const removed: string[] = [];
+  let page = 0;
+  while (true) {
+    const { data, error } = await supabase
+      .from('emails')
+      .select('gmail_message_id, sender_email, sender_name')
+      .eq('email_account_id', accountId)
+      .range(page * 1000, (page + 1) * 1000 - 1);
+    if (error || !data || data.length === 0) break;
+    for (const row of data) {
+      if (!changes.currentIds.has(row.gmail_message_id)) {
+        removed.push(row.gmail_message_id);
+        affectedSenders.add(`${row.sender_email}|||${row.sender_name}`);
+      }
+    }
+    if (data.length < 1000) break;
+    page++;
+  }
+
+  for (let i = 0; i < removed.length; i += BATCH_SIZE) {
+    const { error } = await supabase
+      .from('emails')
+      .delete()
+      .eq('email_account_id', accountId)
+      .in('gmail_message_id', removed.slice(i, i + BATCH_SIZE));
+    if (!error) deletedCount += Math.min(BATCH_SIZE, removed.length - i);
+  }
+
+  await batchRecalculateSenderStats(userId, accountId, affectedSenders);
+  await applyUnsubscribeInfo(accountId, sendersWithUnsubscribe);
+
+  // Update account with new sync time and mailbox state
+  const now = new Date().toISOString();
+  await supabase
+    .from('email_accounts')
+    .update({
+      last_synced: now,
+      updated_at: now,
+      ...mailboxStateColumns(changes.state)
+    })
+    .eq('id', accountId);
+
+  // Log activity
+  const description = `Sync (imap): ${addedCount} new, ${deletedCount} removed`;
+  await supabase.from('activity_log').insert({
+    user_id: userId,
+    action_type: 'email_sync',
+    description,
+    metadata: {
+      email,
+      syncType: 'incremental',
+      syncMethod: 'imap',
+      provider,
+      addedEmails: addedCount,
+      deletedEmails: deletedCount,
+    }
+  });
+
+  return res.status(200).json({
+    success: true,
+    totalSenders: affectedSenders.size,
+    addedEmails: addedCount,
+    deletedEmails: deletedCount,
+    message: addedCount > 0 || deletedCount > 0 ? description : 'Inbox is up to date',
+    syncType: 'incremental',
+    syncMethod: 'imap'
+  });
+}
+
+/**
+ * Process and insert new IMAP messages
+ */
+async function processImapNewMessages(
+  messages: ImapMessage[],
+  accountId: string,
+  userEmail: string,
+  affectedSenders: Set<string>,
+  rules: RuleExecutor
+): Promise<{ addedCount: number; sendersWithUnsubscribe: Map<string, UnsubscribeInfo> }> {
+  let addedCount = 0;
+  const sendersWithUnsubscribe = new Map<string, UnsubscribeInfo>();
+  // Senders with newly inserted mail - sender rules are evaluated for these
+  const batchSenders = new Set<string>();
+
+  const rows = buildEmailRows(messages, accountId, userEmail, sendersWithUnsubscribe);
+
+  for (const row of rows) {
+    // Insert email (unique constraint will reject duplicates)
+    const { error } = await supabase.from('emails').insert(row);
+    const key = `${row.sender_email}|||${row.sender_name}`;
+
+    if (!error) {
+      addedCount++;
+      affectedSenders.add(key);
+      batchSenders.add(key);
+    } else if (error.code === '23505') {
+      affectedSenders.add(key);
+    }
+  }
+
+  // Apply the account's sender rules (no category labels - stored sender flags are used)
+  if (batchSenders.size > 0) {
+    await applySenderRules(accountId, batchSenders, new Map(), rules);
+    // Then mark whatever is left from muted senders read
+    await applyMutedSenders(accountId, batchSenders, rules);
+  }
+
+  return { addedCount, sendersWithUnsubscribe };
+}
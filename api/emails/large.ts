@@ -0,0 +1,101 @@
+/**
+ * Large Emails Endpoint
+ *
+ * GET /api/emails/large?accountEmail=[&minSizeMb=][&attachmentsOnly=true][&limit=][&offset=]
+ *
+ * Lists an account's stored emails of at least minSizeMb (default
+ * DEFAULT_MIN_SIZE_MB), largest first, with the total size of everything that
+ * matched. Sizes come from sync (see api/lib/email-sizes.ts). The largest
+ * senders are GET /api/emails/senders?sortBy=size.
+ *
+ * Matching emails can be moved to trash with POST /api/cleanup/delete-large.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { requireEmailVerification, AuthenticatedRequest } from '../lib/auth-middleware.js';
+import { rateLimit, RateLimitPresets } from '../lib/rate-limiter.js';
+import { BYTES_PER_MB, MAX_MIN_SIZE_MB, loadLargeEmails, parseMinSizeMb, sumSizeBytes, toLargeEmail } from '../lib/email-sizes.js';
+
+const supabase = createClient(
+  process.env.VITE_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+const limiter = rateLimit(RateLimitPresets.RELAXED);
+
+const DEFAULT_MIN_SIZE_MB = 5;
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 500;
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  // Only allow GET
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Rate limiting
+  if (await limiter(req, res)) return;
+
+  // Require authentication
+  const user = requireEmailVerification(req as AuthenticatedRequest, res);
+  if (!user) return;
+
+  const { accountEmail, minSizeMb: minSizeParam, attachmentsOnly, limit, offset = '0' } = req.query;
+
+  if (!accountEmail || typeof accountEmail !== 'string') {
+    return res.status(400).json({
+      error: 'Account email is required',
+      code: 'MISSING_ACCOUNT_EMAIL'
+    });
+  }
+
+  const minSizeMb = minSizeParam === undefined ? DEFAULT_MIN_SIZE_MB : parseMinSizeMb(minSizeParam);
+  if (minSizeMb === null) {
+    return res.status(400).json({
+      error: `minSizeMb must be a number greater than 0 and at most ${MAX_MIN_SIZE_MB}`,
+      code: 'INVALID_SIZE'
+    });
+  }
+
+  const requestedLimit = limit ? parseInt(limit as string) : DEFAULT_LIMIT;
+  const pageLimit = Number.isFinite(requestedLimit) && requestedLimit > 0 ? Math.min(requestedLimit, MAX_LIMIT) : DEFAULT_LIMIT;
+  const startOffset = Math.max(parseInt(offset as string) || 0, 0);
+
+  try {
+    const { data: account } = await supabase
+      .from('email_accounts')
+      .select('id')
+      .eq('user_id', user.userId)
+      .eq('email', accountEmail)
+      .single();
+
+    if (!account) {
+      return res.status(404).json({
+        error: 'Email account not found',
+        code: 'ACCOUNT_NOT_FOUND'
+      });
+    }
+
+    const emails = await loadLargeEmails(account.id, Math.round(minSizeMb * BYTES_PER_MB), {
+      attachmentsOnly: attachmentsOnly === 'true',
+    });
+
+    return res.status(200).json({
+      emails: emails.slice(startOffset, startOffset + pageLimit).map(toLargeEmail),
+      total: emails.length,
+      totalBytes: sumSizeBytes(emails),
+      minSizeMb,
+    });
+
+  } catch (error: any) {
+    console.error('Fetch large emails error:', error);
+    return res.status(500).json({
+      error: 'Failed to fetch large emails',
+      code: 'FETCH_ERROR'
+    });
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * Mailing Lists Endpoint
+ *
+ * GET /api/emails/lists?accountEmail=[&listId=][&limit=]
+ *
+ * Groups an account's stored emails by mailing-list identity (the List-Id
+ * header, see api/lib/mailing-lists.ts) with email/unread totals, the
+ * name+email senders each list mails from and its unsubscribe link, largest
+ * lists first. Pass `listId` to get just that list.
+ *
+ * A whole list can be unsubscribed from with POST /api/cleanup/unsubscribe
+ * and deleted with POST /api/cleanup/delete-list, both taking { listId }.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { requireEmailVerification, AuthenticatedRequest } from '../lib/auth-middleware.js';
+import { rateLimit, RateLimitPresets } from '../lib/rate-limiter.js';
+import { parseListId } from '../lib/mail-provider.js';
+import { getMailingList, listMailingLists } from '../lib/mailing-lists.js';
+
+const supabase = createClient(
+  process.env.VITE_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+const limiter = rateLimit(RateLimitPresets.RELAXED);
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  // Only allow GET
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Rate limiting
+  if (await limiter(req, res)) return;
+
+  // Require authentication
+  const user = requireEmailVerification(req as AuthenticatedRequest, res);
+  if (!user) return;
+
+  const { accountEmail, listId: listIdParam, limit } = req.query;
+
+  if (!accountEmail || typeof accountEmail !== 'string') {
+    return res.status(400).json({
+      error: 'Account email is required',
+      code: 'MISSING_ACCOUNT_EMAIL'
+    });
+  }
+
+  let listId: string | null = null;
+  if (listIdParam !== undefined) {
+    listId = parseListId(typeof listIdParam === 'string' ? listIdParam : undefined);
+    if (!listId) {
+      return res.status(400).json({
+        error: 'listId must be a List-Id such as "news.example.com"',
+        code: 'INVALID_LIST_ID'
+      });
+    }
+  }
+
+  try {
+    const { data: account } = await supabase
+      .from('email_accounts')
+      .select('id')
+      .eq('user_id', user.userId)
+      .eq('email', accountEmail)
+      .single();
+
+    if (!account) {
+      return res.status(404).json({
+        error: 'Email account not found',
+        code: 'ACCOUNT_NOT_FOUND'
+      });
+    }
+
+    if (listId) {
+      const found = await getMailingList(account.id, listId);
+      return res.status(200).json({ lists: found ? [found.list] : [], total: found ? 1 : 0 });
+    }
+
+    const lists = await listMailingLists(account.id);
+    const requestedLimit = limit ? parseInt(limit as string) : Infinity;
+
+    return res.status(200).json({
+      lists: Number.isFinite(requestedLimit) && requestedLimit > 0 ? lists.slice(0, requestedLimit) : lists,
+      total: lists.length,
+    });
+
+  } catch (error: any) {
+    console.error('Fetch mailing lists error:', error);
+    return res.status(500).json({
+      error: 'Failed to fetch mailing lists',
+      code: 'FETCH_ERROR'
+    });
+  }
+}
@@ -14,8 +14,14 @@ import {
   getInitialDeltaLink,
   extractUnsubscribeLink,
   extractMailtoUnsubscribeLink,
+  extractListId,
+  extractSizeBytes,
+  listSentRecipients,
   OutlookMessage
 } from '../lib/outlook-api.js';
+import { applySenderRules, RuleExecutor } from '../lib/sender-rules.js';
+import { applyMutedSenders } from '../lib/muted-senders.js';
+import { saveSentRecipients } from '../lib/engagement.js';
 
 const supabase = createClient(
   process.env.VITE_SUPABASE_URL!,
@@ -103,6 +109,7 @@ export async function performOutlookFullSync(
     sender_name: string;
     email_count: number;
     unread_count: number;
+    total_size_bytes: number;
     first_email_date: string;
     last_email_date: string;
     unsubscribe_link: string | null;
@@ -139,6 +146,9 @@ export async function performOutlookFullSync(
       is_unread: isUnread,
       thread_id: msg.conversationId || msg.id,
       labels: [],
+      list_id: extractListId(msg),
+      size_bytes: extractSizeBytes(msg),
+      has_attachments: !!msg.hasAttachments,
     });
 
     // Update sender stats
@@ -154,6 +164,7 @@ export async function performOutlookFullSync(
     if (existing) {
       existing.email_count++;
       if (isUnread) existing.unread_count++;
+      existing.total_size_bytes += extractSizeBytes(msg) || 0;
       if (receivedAt < existing.first_email_date) existing.first_email_date = receivedAt;
       if (receivedAt > existing.last_email_date) existing.last_email_date = receivedAt;
       if (unsubscribeLink && (!existing._unsub_link_date || receivedAt > existing._unsub_link_date)) {
@@ -172,6 +183,7 @@ export async function performOutlookFullSync(
         sender_name: senderName,
         email_count: 1,
         unread_count: isUnread ? 1 : 0,
+        total_size_bytes: extractSizeBytes(msg) || 0,
         first_email_date: receivedAt,
         last_email_date: receivedAt,
         unsubscribe_link: unsubscribeLink || null,
@@ -215,6 +227,13 @@ export async function performOutlookFullSync(
     console.warn('Could not get initial delta link:', e);
   }
 
+  // Scan Sent Items for engagement scores; a failed scan keeps the last one
+  try {
+    await saveSentRecipients(userId, accountId, await listSentRecipients(accessToken));
+  } catch (e) {
+    console.warn('Could not scan sent mail:', e);
+  }
+
   // Step 8: Update account stats and clear sync progress
   const totalEmails = emailsToInsert.length;
   await supabase
@@ -318,6 +337,7 @@ export async function performOutlookInitialBatch(
     sender_name: string;
     email_count: number;
     unread_count: number;
+    total_size_bytes: number;
     first_email_date: string;
     last_email_date: string;
     unsubscribe_link: string | null;
@@ -351,6 +371,9 @@ export async function performOutlookInitialBatch(
       is_unread: isUnread,
       thread_id: msg.conversationId || msg.id,
       labels: [],
+      list_id: extractListId(msg),
+      size_bytes: extractSizeBytes(msg),
+      has_attachments: !!msg.hasAttachments,
     });
 
     // Update sender stats
@@ -366,6 +389,7 @@ export async function performOutlookInitialBatch(
     if (existing) {
       existing.email_count++;
       if (isUnread) existing.unread_count++;
+      existing.total_size_bytes += extractSizeBytes(msg) || 0;
       if (receivedAt < existing.first_email_date) existing.first_email_date = receivedAt;
       if (receivedAt > existing.last_email_date) existing.last_email_date = receivedAt;
       if (unsubscribeLink && (!existing._unsub_link_date || receivedAt > existing._unsub_link_date)) {
@@ -384,6 +408,7 @@ export async function performOutlookInitialBatch(
         sender_name: senderName,
         email_count: 1,
         unread_count: isUnread ? 1 : 0,
+        total_size_bytes: extractSizeBytes(msg) || 0,
         first_email_date: receivedAt,
         last_email_date: receivedAt,
         unsubscribe_link: unsubscribeLink || null,
@@ -457,10 +482,12 @@ export async function performOutlookIncrementalSync(
   userEmail: string,
   email: string,
   lastSyncedAt: string,
-  storedDeltaLink: string | null
+  storedDeltaLink: string | null,
+  rules: RuleExecutor
 ) {
   let addedCount = 0;
   let deletedCount = 0;
+  let updatedCount = 0;
   const affectedSenders = new Set<string>();
   let syncMethod = 'delta';
   let newDeltaLink: string | undefined;
@@ -474,18 +501,30 @@ export async function performOutlookIncrementalSync(
 
       // Process new/modified messages
       if (deltaResult.messages.length > 0) {
-        // Need headers for unsubscribe detection - batch fetch details
-        const messageIds = deltaResult.messages.map(m => m.id);
-        const messagesWithHeaders = await batchGetMessages(accessToken, messageIds);
-
-        const result = await processOutlookNewMessages(
-          messagesWithHeaders, accountId, userEmail, affectedSenders
+        // Messages we already store were only modified - apply read/unread changes locally
+        const readResult = await processReadStateChanges(
+          accountId, deltaResult.messages, affectedSenders
         );
-        addedCount = result.addedCount;
-        allSendersWithUnsubscribe = result.sendersWithUnsubscribe;
+        updatedCount = readResult.updatedCount;
+
+        // Need headers for unsubscribe detection - batch fetch details for new messages only
+        const messageIds = deltaResult.messages
+          .map(m => m.id)
+          .filter(id => !readResult.existingIds.has(id));
+
+        if (messageIds.length > 0) {
+          const messagesWithHeaders = await batchGetMessages(accessToken, messageIds);
+          const result = await processOutlookNewMessages(
+            messagesWithHeaders, accountId, userEmail, affectedSenders, rules
+          );
+          addedCount = result.addedCount;
+          allSendersWithUnsubscribe = result.sendersWithUnsubscribe;
+        }
       }
 
-      // Process removed messages
+      // Process removed messages. The delta is scoped to the Inbox, so messages
+      // moved to another folder (archived, filed, deleted) are reported as removed
+      // and messages moved back into the Inbox come through as new ones
       if (deltaResult.removedIds.length > 0) {
         const result = await processDeletedMessages(
           accountId, deltaResult.removedIds, affectedSenders
@@ -546,7 +585,7 @@ export async function performOutlookIncrementalSync(
       if (newMessageIds.length > 0) {
         const messagesWithHeaders = await batchGetMessages(accessToken, newMessageIds);
         const result = await processOutlookNewMessages(
-          messagesWithHeaders, accountId, userEmail, affectedSenders
+          messagesWithHeaders, accountId, userEmail, affectedSenders, rules
         );
         addedCount = result.addedCount;
         allSendersWithUnsubscribe = result.sendersWithUnsubscribe;
@@ -599,7 +638,7 @@ export async function performOutlookIncrementalSync(
     .eq('id', accountId);
 
   // Log activity
-  const description = `Sync (${syncMethod}): ${addedCount} new, ${deletedCount} removed`;
+  const description = `Sync (${syncMethod}): ${addedCount} new, ${deletedCount} removed${updatedCount > 0 ? `, ${updatedCount} updated` : ''}`;
   await supabase.from('activity_log').insert({
     user_id: userId,
     action_type: 'email_sync',
@@ -611,6 +650,7 @@ export async function performOutlookIncrementalSync(
       provider: 'Outlook',
       addedEmails: addedCount,
       deletedEmails: deletedCount,
+      updatedEmails: updatedCount,
     }
   });
 
@@ -619,7 +659,8 @@ export async function performOutlookIncrementalSync(
     totalSenders: affectedSenders.size,
     addedEmails: addedCount,
     deletedEmails: deletedCount,
-    message: addedCount > 0 || deletedCount > 0 ? description : 'Inbox is up to date',
+    updatedEmails: updatedCount,
+    message: addedCount > 0 || deletedCount > 0 || updatedCount > 0 ? description : 'Inbox is up to date',
     syncType: 'incremental',
     syncMethod
   });
@@ -632,7 +673,8 @@ async function processOutlookNewMessages(
   messages: OutlookMessage[],
   accountId: string,
   userEmail: string,
-  affectedSenders: Set<string>
+  affectedSenders: Set<string>,
+  rules: RuleExecutor
 ): Promise<{ addedCount: number; sendersWithUnsubscribe: Map<string, { unsubscribeLink: string; mailtoLink: string | null; hasOneClick: boolean; receivedAt: string }> }> {
   let addedCount = 0;
 
@@ -642,6 +684,8 @@ async function processOutlookNewMessages(
     hasOneClick: boolean;
     receivedAt: string;
   }>();
+  // Senders with newly inserted mail - sender rules are evaluated for these
+  const batchSenders = new Set<string>();
 
   for (const msg of messages) {
     if (!msg.from?.emailAddress?.address) continue;
@@ -683,19 +727,80 @@ async function processOutlookNewMessages(
       is_unread: !msg.isRead,
       thread_id: msg.conversationId || msg.id,
       labels: [],
+      list_id: extractListId(msg),
+      size_bytes: extractSizeBytes(msg),
+      has_attachments: !!msg.hasAttachments,
     });
 
     if (!error) {
       addedCount++;
       affectedSenders.add(`${senderEmail}|||${senderName}`);
+      batchSenders.add(`${senderEmail}|||${senderName}`);
     } else if (error.code === '23505') {
       affectedSenders.add(`${senderEmail}|||${senderName}`);
     }
   }
 
+  // Apply the account's sender rules (Outlook has no category labels - stored sender flags are used)
+  if (batchSenders.size > 0) {
+    await applySenderRules(accountId, batchSenders, new Map(), rules);
+    // Then mark whatever is left from muted senders read
+    await applyMutedSenders(accountId, batchSenders, rules);
+  }
+
   return { addedCount, sendersWithUnsubscribe };
 }
 
+/**
+ * Apply read/unread changes from the delta to messages we already store.
+ * Returns the IDs that already exist so only new messages are fetched and inserted.
+ */
+async function processReadStateChanges(
+  accountId: string,
+  messages: OutlookMessage[],
+  affectedSenders: Set<string>
+): Promise<{ existingIds: Set<string>; updatedCount: number }> {
+  const existingIds = new Set<string>();
+  const isReadById = new Map(messages.map(m => [m.id, m.isRead]));
+  const markRead: string[] = [];
+  const markUnread: string[] = [];
+
+  const messageIds = [...isReadById.keys()];
+  for (let i = 0; i < messageIds.length; i += 500) {
+    const batch = messageIds.slice(i, i + 500);
+
+    const { data: emails } = await supabase
+      .from('emails')
+      .select('id, gmail_message_id, sender_email, sender_name, is_unread')
+      .eq('email_account_id', accountId)
+      .in('gmail_message_id', batch);
+
+    for (const e of emails || []) {
+      existingIds.add(e.gmail_message_id);
+      const isRead = isReadById.get(e.gmail_message_id);
+      if (typeof isRead !== 'boolean' || !isRead === e.is_unread) continue;
+
+      (isRead ? markRead : markUnread).push(e.id);
+      affectedSenders.add(`${e.sender_email}|||${e.sender_name}`);
+    }
+  }
+
+  let updatedCount = 0;
+  for (const [ids, isUnread] of [[markRead, false], [markUnread, true]] as const) {
+    for (let i = 0; i < ids.length; i += 500) {
+      const batch = ids.slice(i, i + 500);
+      const { error } = await supabase.from('emails').update({ is_unread: isUnread }).in('id', batch);
+      if (error) {
+        console.error('Read state update error:', error.message);
+      } else {
+        updatedCount += batch.length;
+      }
+    }
+  }
+
+  return { existingIds, updatedCount };
+}
+
 /**
  * Process deleted messages
  */
@@ -740,7 +845,7 @@ async function recalculateSenderStats(
 ) {
   const { data: emails } = await supabase
     .from('emails')
-    .select('received_at, is_unread')
+    .select('received_at, is_unread, size_bytes')
     .eq('email_account_id', accountId)
     .eq('sender_email', senderEmail)
     .eq('sender_name', senderName)
@@ -758,6 +863,7 @@ async function recalculateSenderStats(
 
   const emailCount = emails.length;
   const unreadCount = emails.filter(e => e.is_unread).length;
+  const totalSizeBytes = emails.reduce((sum, e) => sum + (e.size_bytes || 0), 0);
   const lastEmailDate = emails[0].received_at;
   const firstEmailDate = emails[emails.length - 1].received_at;
 
@@ -775,6 +881,7 @@ async function recalculateSenderStats(
       .update({
         email_count: emailCount,
         unread_count: unreadCount,
+        total_size_bytes: totalSizeBytes,
         first_email_date: firstEmailDate,
         last_email_date: lastEmailDate,
         updated_at: new Date().toISOString()
@@ -788,6 +895,7 @@ async function recalculateSenderStats(
       sender_name: senderName,
       email_count: emailCount,
       unread_count: unreadCount,
+      total_size_bytes: totalSizeBytes,
       first_email_date: firstEmailDate,
       last_email_date: lastEmailDate,
       has_unsubscribe: false,
@@ -0,0 +1,112 @@
+/**
+ * Suggested Cleanups Endpoint
+ *
+ * GET /api/emails/recommendations?accountEmail=[&limit=]
+ *
+ * Ranks the account's senders the user barely engages with (never opens,
+ * never replies to, archives unread) and suggests unsubscribing from or
+ * deleting each, with the inbox reduction it would bring. Scoring lives in
+ * api/lib/engagement.ts. Muted senders are left out - they are already handled.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { requireEmailVerification, AuthenticatedRequest } from '../lib/auth-middleware.js';
+import { rateLimit, RateLimitPresets } from '../lib/rate-limiter.js';
+import { getMutedSenderEmails } from '../lib/muted-senders.js';
+import {
+  buildCleanupSuggestions,
+  loadArchivedUnreadCounts,
+  loadEngagementSenders,
+  loadSentRecipients,
+} from '../lib/engagement.js';
+
+const supabase = createClient(
+  process.env.VITE_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+const limiter = rateLimit(RateLimitPresets.RELAXED);
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  // Only allow GET
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Rate limiting
+  if (await limiter(req, res)) return;
+
+  // Require authentication
+  const user = requireEmailVerification(req as AuthenticatedRequest, res);
+  if (!user) return;
+
+  const { accountEmail, limit } = req.query;
+
+  if (!accountEmail || typeof accountEmail !== 'string') {
+    return res.status(400).json({
+      error: 'Account email is required',
+      code: 'MISSING_ACCOUNT_EMAIL'
+    });
+  }
+
+  const requestedLimit = limit ? parseInt(limit as string) : DEFAULT_LIMIT;
+  const pageLimit = Number.isFinite(requestedLimit) && requestedLimit > 0 ? Math.min(requestedLimit, MAX_LIMIT) : DEFAULT_LIMIT;
+
+  try {
+    const { data: account } = await supabase
+      .from('email_accounts')
+      .select('id, total_emails')
+      .eq('user_id', user.userId)
+      .eq('email', accountEmail)
+      .single();
+
+    if (!account) {
+      return res.status(404).json({
+        error: 'Email account not found',
+        code: 'ACCOUNT_NOT_FOUND'
+      });
+    }
+
+    const [senders, sentRecipients, archivedUnread] = await Promise.all([
+      loadEngagementSenders(account.id),
+      loadSentRecipients(account.id),
+      loadArchivedUnreadCounts(account.id),
+    ]);
+    const muted = await getMutedSenderEmails(account.id, [...new Set(senders.map(s => s.sender_email))]);
+
+    const totalEmails = account.total_emails || senders.reduce((sum, s) => sum + (s.email_count || 0), 0);
+    const recommendations = buildCleanupSuggestions(senders, {
+      archivedUnread,
+      sentRecipients,
+      // No scan yet (or IMAP): don't claim the user never replied
+      repliesKnown: sentRecipients.size > 0,
+      muted,
+    }, { totalEmails, limit: pageLimit });
+
+    const reducedEmails = recommendations.reduce((sum, r) => sum + r.estimatedReduction.emails, 0);
+
+    return res.status(200).json({
+      recommendations,
+      totalEmails,
+      estimatedReduction: {
+        emails: reducedEmails,
+        perMonth: recommendations.reduce((sum, r) => sum + r.estimatedReduction.perMonth, 0),
+        percentOfInbox: totalEmails > 0 ? Math.round((reducedEmails / totalEmails) * 1000) / 10 : 0,
+      },
+    });
+
+  } catch (error: any) {
+    console.error('Fetch recommendations error:', error);
+    return res.status(500).json({
+      error: 'Failed to fetch suggested cleanups',
+      code: 'FETCH_ERROR'
+    });
+  }
+}
@@ -0,0 +1,324 @@
+/**
+ * Scheduled Sync Module
+ *
+ * Runs the regular incremental sync (via the account's MailProvider) for every connected account
+ * whose plan sync interval has elapsed. Driven by the background worker
+ * (worker.ts) instead of the user pressing Sync Now.
+ *
+ * - Accounts are picked up when next_sync_at has passed. Accounts without one
+ *   yet (synced, but never by the worker) get last_synced + plan interval
+ *   written on the tick that first sees them, so they don't keep filling the
+ *   per-tick limit ahead of accounts that are due
+ * - The plan only counts while its subscription is active or trialing; other
+ *   users sync on the free interval, and plans without a sync limit are
+ *   synced every UNLIMITED_SYNC_INTERVAL_MINUTES
+ * - next_sync_at is pushed out by the plan interval plus random jitter so
+ *   accounts don't all come due on the same tick
+ * - The per-account lock (api/lib/account-lock.ts) keeps workers, Sync Now and
+ *   cleanups from working on the same account at once
+ * - Accounts that have never been synced are left to the user's first sync,
+ *   which runs the initial batch/full sync flow
+ * - Full/upgrade sync jobs whose client went away are resumed from their last
+ *   checkpoint (see api/lib/sync-jobs.ts)
+ */
+
+import type { VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { getMailProvider } from '../providers/index.js';
+import type { MailProvider } from '../lib/mail-provider.js';
+import { PLAN_LIMITS } from '../subscription/get.js';
+import { getActiveSyncJob, findStalledSyncJobs, finishSyncJob } from '../lib/sync-jobs.js';
+import { acquireAccountLock, releaseAccountLock } from '../lib/account-lock.js';
+
+const supabase = createClient(
+  process.env.VITE_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+// Up to 10% of the interval is added on top so accounts spread out over time
+const JITTER_FRACTION = 0.1;
+// Accounts considered per tick - the rest are picked up on the next tick
+const MAX_ACCOUNTS_PER_TICK = 200;
+// Background interval for plans whose syncIntervalMinutes is 0 (no Sync Now limit)
+const UNLIMITED_SYNC_INTERVAL_MINUTES = 60;
+// Stalled sync jobs resumed per tick, and how long each may run before checkpointing
+const MAX_JOBS_PER_TICK = 20;
+const JOB_TIME_BUDGET_MS = 2 * 60 * 1000;
+
+interface ScheduledAccount {
+  id: string;
+  user_id: string;
+  email: string;
+  gmail_email: string | null;
+  provider: string | null;
+  last_synced: string | null;
+  next_sync_at: string | null;
+  history_id: string | null;
+  delta_link: string | null;
+  imap_uid_validity: string | null;
+  imap_last_uid: number | null;
+  imap_highest_modseq: string | null;
+}
+
+export interface ScheduledSyncResult {
+  accountId: string;
+  status: 'synced' | 'resumed' | 'failed' | 'expired' | 'locked';
+  message?: string;
+}
+
+/**
+ * Check whether an account is due for a scheduled sync
+ */
+export function isSyncDue(
+  account: Pick<ScheduledAccount, 'last_synced' | 'next_sync_at'>,
+  intervalMinutes: number,
+  now: number = Date.now()
+): boolean {
+  if (!account.last_synced || intervalMinutes <= 0) return false;
+  if (account.next_sync_at) {
+    return new Date(account.next_sync_at).getTime() <= now;
+  }
+  return new Date(account.last_synced).getTime() + intervalMinutes * 60 * 1000 <= now;
+}
+
+/**
+ * Background sync interval for a plan - its Sync Now interval, or
+ * UNLIMITED_SYNC_INTERVAL_MINUTES when the plan has no limit
+ */
+export function scheduledIntervalMinutes(planLimits: { syncIntervalMinutes: number }): number {
+  return planLimits.syncIntervalMinutes > 0 ? planLimits.syncIntervalMinutes : UNLIMITED_SYNC_INTERVAL_MINUTES;
+}
+
+/**
+ * Next scheduled sync time: plan interval plus up to JITTER_FRACTION of jitter
+ */
+export function computeNextSyncAt(
+  intervalMinutes: number,
+  now: number = Date.now(),
+  random: () => number = Math.random
+): string {
+  const delayMs = intervalMinutes * 60 * 1000 * (1 + random() * JITTER_FRACTION);
+  return new Date(now + delayMs).toISOString();
+}
+
+/**
+ * Minimal stand-in for VercelResponse so the existing sync functions
+ * (which respond over HTTP) can be reused from the worker
+ */
+function createCaptureResponse() {
+  const captured: { statusCode: number; body: any } = { statusCode: 200, body: null };
+  const res: any = {
+    status(code: number) {
+      captured.statusCode = code;
+      return res;
+    },
+    json(body: any) {
+      captured.body = body;
+      return res;
+    },
+  };
+  return { res: res as VercelResponse, captured };
+}
+
+/**
+ * Run one account's incremental sync and record the outcome on the account row
+ */
+async function syncAccount(
+  account: ScheduledAccount,
+  intervalMinutes: number,
+  emailLimit: number
+): Promise<ScheduledSyncResult> {
+  const lock = await acquireAccountLock(account.id, 'scheduled_sync');
+  if (!lock) {
+    return { accountId: account.id, status: 'locked' };
+  }
+
+  let result: ScheduledSyncResult;
+  let connectionStatus: 'connected' | 'expired' | undefined;
+
+  try {
+    // Token failures mean the user has to reconnect - same as the Sync Now handler
+    let provider: MailProvider;
+    try {
+      provider = await getMailProvider(account.user_id, account);
+    } catch (tokenError: any) {
+      connectionStatus = 'expired';
+      result = { accountId: account.id, status: 'expired', message: tokenError.message };
+      return result;
+    }
+
+    // A full/upgrade sync job owns the mailbox until it finishes
+    if (await getActiveSyncJob(account.id)) {
+      result = { accountId: account.id, status: 'locked', message: 'Sync job in progress' };
+      return result;
+    }
+
+    const { res, captured } = createCaptureResponse();
+    await provider.incrementalSync({ res, userId: account.user_id, account, emailLimit });
+
+    connectionStatus = 'connected';
+    result = captured.statusCode < 400 && captured.body?.success !== false
+      ? { accountId: account.id, status: 'synced', message: captured.body?.message }
+      : { accountId: account.id, status: 'failed', message: captured.body?.message || captured.body?.error };
+  } catch (error: any) {
+    if (error.message?.includes('not connected')) {
+      connectionStatus = 'expired';
+      result = { accountId: account.id, status: 'expired', message: error.message };
+    } else {
+      result = { accountId: account.id, status: 'failed', message: error.message };
+    }
+  } finally {
+    // Schedule the next run (expired accounts wait for a reconnect) and release the lock
+    const now = new Date().toISOString();
+    await supabase
+      .from('email_accounts')
+      .update({
+        next_sync_at: computeNextSyncAt(intervalMinutes),
+        sync_progress_total: null,
+        sync_progress_current: null,
+        ...(connectionStatus && { connection_status: connectionStatus }),
+        updated_at: now,
+      })
+      .eq('id', account.id);
+    await releaseAccountLock(lock);
+  }
+
+  return result;
+}
+
+/**
+ * Run up to `concurrency` tasks at a time
+ */
+async function runWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  task: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = [];
+  let next = 0;
+
+  const runners = Array.from({ length: Math.min(concurrency, items.length) }, async () => {
+    while (next < items.length) {
+      const item = items[next++];
+      results.push(await task(item));
+    }
+  });
+
+  await Promise.all(runners);
+  return results;
+}
+
+/**
+ * One scheduler pass: find due accounts and sync them
+ */
+export async function runScheduledSyncTick(concurrency: number): Promise<ScheduledSyncResult[]> {
+  const nowIso = new Date().toISOString();
+
+  const { data: accounts, error } = await supabase
+    .from('email_accounts')
+    .select('id, user_id, email, gmail_email, provider, last_synced, next_sync_at, history_id, delta_link, imap_uid_validity, imap_last_uid, imap_highest_modseq')
+    .eq('connection_status', 'connected')
+    .not('last_synced', 'is', null)
+    .or(`next_sync_at.is.null,next_sync_at.lte.${nowIso}`)
+    .order('next_sync_at', { ascending: true, nullsFirst: true })
+    .limit(MAX_ACCOUNTS_PER_TICK);
+
+  if (error) {
+    console.error('Scheduled sync: failed to load accounts:', error.message);
+    return [];
+  }
+  if (!accounts || accounts.length === 0) return [];
+
+  // Sync interval (and the IMAP full-sync fallback limit) comes from each
+  // user's plan, while its subscription is active or trialing
+  const userIds = [...new Set(accounts.map(a => a.user_id))];
+  const { data: subscriptions } = await supabase
+    .from('subscriptions')
+    .select('user_id, plan, status')
+    .in('user_id', userIds);
+  const planByUser = new Map((subscriptions || [])
+    .filter(s => s.status === 'active' || s.status === 'trialing')
+    .map(s => [s.user_id, (s.plan || 'free').toLowerCase()]));
+
+  const due: { account: ScheduledAccount; intervalMinutes: number; emailLimit: number }[] = [];
+  for (const account of accounts as ScheduledAccount[]) {
+    const planKey = (planByUser.get(account.user_id) || 'free') as keyof typeof PLAN_LIMITS;
+    const planLimits = PLAN_LIMITS[planKey] || PLAN_LIMITS.free;
+    const intervalMinutes = scheduledIntervalMinutes(planLimits);
+    if (isSyncDue(account, intervalMinutes)) {
+      due.push({ account, intervalMinutes, emailLimit: planLimits.emailProcessingLimit });
+      continue;
+    }
+
+    // Not due yet and no next_sync_at - record when it is, so the account
+    // drops out of the next_sync_at IS NULL rows that sort first
+    const nextSyncAt = new Date(new Date(account.last_synced!).getTime() + intervalMinutes * 60 * 1000).toISOString();
+    const { error: scheduleError } = await supabase
+      .from('email_accounts')
+      .update({ next_sync_at: nextSyncAt })
+      .eq('id', account.id)
+      .is('next_sync_at', null);
+    if (scheduleError) {
+      console.error(`Scheduled sync: failed to schedule account ${account.id}:`, scheduleError.message);
+    }
+  }
+
+  return runWithConcurrency(due, concurrency, ({ account, intervalMinutes, emailLimit }) =>
+    syncAccount(account, intervalMinutes, emailLimit)
+  );
+}
+
+/**
+ * Resume full/upgrade sync jobs whose client went away mid-sync
+ * (closed tab, function timeout) from their last checkpoint
+ */
+export async function resumeStalledSyncJobs(): Promise<ScheduledSyncResult[]> {
+  const jobs = await findStalledSyncJobs(MAX_JOBS_PER_TICK);
+  const results: ScheduledSyncResult[] = [];
+
+  for (const job of jobs) {
+    const { data: accounts } = await supabase
+      .from('email_accounts')
+      .select('id, user_id, email, gmail_email, provider, connection_status, last_synced, next_sync_at, history_id, delta_link, imap_uid_validity, imap_last_uid, imap_highest_modseq')
+      .eq('id', job.email_account_id)
+      .limit(1);
+    const account = accounts?.[0];
+
+    // Disconnected accounts can't be synced - the user starts over after reconnecting
+    if (!account || account.connection_status !== 'connected') {
+      await finishSyncJob(job.id, 'cancelled');
+      results.push({ accountId: job.email_account_id, status: 'expired', message: 'Account not connected' });
+      continue;
+    }
+
+    // Someone else (Sync Now, a cleanup) is working on the account - try again next tick
+    const lock = await acquireAccountLock(account.id, 'sync_job');
+    if (!lock) {
+      results.push({ accountId: account.id, status: 'locked' });
+      continue;
+    }
+
+    try {
+      const provider = await getMailProvider(account.user_id, account);
+      const { res, captured } = createCaptureResponse();
+      const ctx = { res, userId: account.user_id, account, emailLimit: job.email_limit, timeBudgetMs: JOB_TIME_BUDGET_MS };
+
+      await (job.sync_type === 'upgrade' && provider.upgradeSync
+        ? provider.upgradeSync(ctx)
+        : provider.fullSync(ctx));
+
+      results.push({
+        accountId: account.id,
+        status: captured.statusCode === 200 ? 'synced' : captured.statusCode === 202 ? 'resumed' : 'failed',
+        message: captured.body?.message || captured.body?.error,
+      });
+    } catch (error: any) {
+      // The job records the failure itself and is retried on a later tick
+      results.push({ accountId: account.id, status: 'failed', message: error.message });
+    } finally {
+      await releaseAccountLock(lock);
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,171 @@
+/**
+ * Sender Groups Endpoint
+ *
+ * GET  /api/emails/sender-groups?accountEmail=  - List the account's sender groups
+ * POST /api/emails/sender-groups                - Merge or split senders
+ *
+ * POST body:
+ *   { action: 'merge', accountEmail, members: [{ senderEmail, senderName? }], name?, groupId? }
+ *   { action: 'split', accountEmail, groupId, members?: [{ senderEmail, senderName? }] }
+ *
+ * Merging folds the members into one logical sender in GET /api/emails/senders;
+ * omit senderName to take every display name of an address. Splitting takes
+ * members back out (all of them when `members` is omitted).
+ * Groups survive resyncs (see api/lib/sender-groups.ts).
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { requireEmailVerification, AuthenticatedRequest } from '../lib/auth-middleware.js';
+import { rateLimit, RateLimitPresets } from '../lib/rate-limiter.js';
+import { withSentry } from '../lib/sentry.js';
+import {
+  listSenderGroups,
+  mergeSenders,
+  splitSenderGroup,
+  validateMergeInput,
+  validateSplitInput,
+  MAX_GROUP_MEMBERS,
+  SenderGroup,
+} from '../lib/sender-groups.js';
+
+const supabase = createClient(
+  process.env.VITE_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+const limiter = rateLimit(RateLimitPresets.STANDARD);
+
+export interface SenderGroupResponse {
+  id: string;
+  name: string | null;
+  members: { senderEmail: string; senderName: string | null }[];
+  excluded: { senderEmail: string; senderName: string }[];
+  createdAt: string;
+}
+
+function toResponse(group: SenderGroup): SenderGroupResponse {
+  return {
+    id: group.id,
+    name: group.name,
+    members: group.members.map(m => ({ senderEmail: m.email, senderName: m.name })),
+    excluded: group.excluded.map(x => ({ senderEmail: x.email, senderName: x.name })),
+    createdAt: group.created_at!,
+  };
+}
+
+async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Rate limiting
+  if (await limiter(req, res)) return;
+
+  // Require authentication
+  const user = requireEmailVerification(req as AuthenticatedRequest, res);
+  if (!user) return;
+
+  try {
+    if (req.method === 'GET') {
+      const accountEmail = req.query.accountEmail as string | undefined;
+      if (!accountEmail) {
+        return res.status(400).json({
+          error: 'Account email is required',
+          code: 'MISSING_ACCOUNT_EMAIL'
+        });
+      }
+
+      const account = await getAccount(user.userId, accountEmail);
+      if (!account) {
+        return res.status(404).json({
+          error: 'Email account not found',
+          code: 'ACCOUNT_NOT_FOUND'
+        });
+      }
+
+      const groups = await listSenderGroups(account.id);
+      return res.status(200).json({ groups: groups.map(toResponse) });
+    }
+
+    const action = req.body?.action;
+
+    if (action === 'merge') {
+      const { input, error: validationError } = validateMergeInput(req.body);
+      if (!input) {
+        return res.status(400).json({ error: validationError, code: 'INVALID_SENDER_GROUP' });
+      }
+
+      const account = await getAccount(user.userId, input.accountEmail);
+      if (!account) {
+        return res.status(404).json({
+          error: 'Email account not found',
+          code: 'ACCOUNT_NOT_FOUND'
+        });
+      }
+
+      const { group, error } = await mergeSenders(user.userId, account.id, input);
+      if (error === 'GROUP_NOT_FOUND') {
+        return res.status(404).json({ error: 'Sender group not found', code: 'GROUP_NOT_FOUND' });
+      }
+      if (error === 'TOO_MANY_MEMBERS') {
+        return res.status(400).json({
+          error: `A group can have at most ${MAX_GROUP_MEMBERS} members`,
+          code: 'GROUP_LIMIT_REACHED'
+        });
+      }
+
+      return res.status(input.groupId ? 200 : 201).json({ success: true, group: toResponse(group!) });
+    }
+
+    if (action === 'split') {
+      const { input, error: validationError } = validateSplitInput(req.body);
+      if (!input) {
+        return res.status(400).json({ error: validationError, code: 'INVALID_SENDER_GROUP' });
+      }
+
+      const account = await getAccount(user.userId, input.accountEmail);
+      if (!account) {
+        return res.status(404).json({
+          error: 'Email account not found',
+          code: 'ACCOUNT_NOT_FOUND'
+        });
+      }
+
+      const group = await splitSenderGroup(account.id, input);
+      if (group === undefined) {
+        return res.status(404).json({ error: 'Sender group not found', code: 'GROUP_NOT_FOUND' });
+      }
+
+      // null: nothing left to merge, the group was deleted
+      return res.status(200).json({ success: true, group: group ? toResponse(group) : null });
+    }
+
+    return res.status(400).json({
+      error: "action must be 'merge' or 'split'",
+      code: 'INVALID_ACTION'
+    });
+
+  } catch (error: any) {
+    console.error('Sender groups error:', error);
+    return res.status(500).json({
+      error: 'Failed to process sender groups request',
+      code: 'SENDER_GROUPS_ERROR'
+    });
+  }
+}
+
+async function getAccount(userId: string, accountEmail: string) {
+  const { data: account } = await supabase
+    .from('email_accounts')
+    .select('id')
+    .eq('user_id', userId)
+    .eq('email', accountEmail)
+    .single();
+  return account;
+}
+
+export default withSentry(handler);
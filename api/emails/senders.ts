@@ -4,6 +4,8 @@
  * GET /api/emails/senders
  *
  * Returns list of email senders with statistics for the user's connected accounts.
+ * Senders the user merged are folded into one sender per group
+ * (see api/lib/sender-groups.ts).
  * Requires authenticated user.
  */
 
@@ -11,6 +13,8 @@ import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { createClient } from '@supabase/supabase-js';
 import { requireEmailVerification, AuthenticatedRequest } from '../lib/auth-middleware.js';
 import { rateLimit, RateLimitPresets } from '../lib/rate-limiter.js';
+import { getRegistrableDomain } from '../lib/sender-domains.js';
+import { findSenderGroup, listUserSenderGroups, SenderGroup } from '../lib/sender-groups.js';
 
 const supabase = createClient(
   process.env.VITE_SUPABASE_URL!,
@@ -23,8 +27,12 @@ export interface SenderResponse {
   id: string;
   email: string;
   name: string;
+  // Registrable domain for domain rollups ("ship.amazon.co.uk" -> "amazon.co.uk")
+  domain: string;
   emailCount: number;
   unreadCount: number;
+  // Sum of the sender's stored email sizes (0 for mail synced without sizes)
+  totalSizeBytes: number;
   firstEmailDate: string;
   lastEmailDate: string;
   unsubscribeLink: string | null;
@@ -33,11 +41,18 @@ export interface SenderResponse {
   hasOneClickUnsubscribe: boolean;
   isNewsletter: boolean;
   isPromotional: boolean;
+  // New mail is marked read on sync (see api/lib/muted-senders.ts)
+  isMuted: boolean;
   emailAccountId: string;
   accountEmail: string;
   // New fields for name+email grouping
   hasMultipleNames?: boolean;
   relatedSenderNames?: string[];
+  // Set on a merged sender: its group and the name+email senders folded into it.
+  // Cleanup actions on a merged sender should target every member.
+  groupId?: string;
+  groupName?: string | null;
+  groupMembers?: { email: string; name: string; emailCount: number }[];
 }
 
 export default async function handler(
@@ -59,7 +74,7 @@ export default async function handler(
   // Query parameters
   const {
     email, // Filter by specific email account
-    sortBy = 'count', // 'count', 'name', 'date'
+    sortBy = 'count', // 'count', 'name', 'date', 'size'
     sortDirection = 'desc',
     limit, // Optional: cap number of senders returned. Omit to fetch all.
     offset = '0',
@@ -71,6 +86,7 @@ export default async function handler(
     // Apply sorting
     const sortColumn = sortBy === 'name' ? 'sender_name' :
                        sortBy === 'date' ? 'last_email_date' :
+                       sortBy === 'size' ? 'total_size_bytes' :
                        'email_count';
     const ascending = sortDirection === 'asc';
 
@@ -106,7 +122,7 @@ export default async function handler(
       let pageQuery = supabase
         .from('email_senders')
         .select(`
-          id, sender_email, sender_name, email_count, unread_count,
+          id, sender_email, sender_name, email_count, unread_count, total_size_bytes,
           first_email_date, last_email_date, unsubscribe_link,
           mailto_unsubscribe_link, has_unsubscribe, has_one_click_unsubscribe,
           is_newsletter, is_promotional, email_account_id,
@@ -151,6 +167,13 @@ export default async function handler(
       }
     }
 
+    // Muted senders are few, so load them all for the user's accounts
+    const { data: mutedRows } = await supabase
+      .from('muted_senders')
+      .select('email_account_id, sender_email')
+      .eq('user_id', user.userId);
+    const muted = new Set((mutedRows || []).map(m => `${m.email_account_id}|||${m.sender_email}`));
+
     // Transform response with hasMultipleNames and relatedSenderNames
     const response: SenderResponse[] = (senders || []).map((sender: any) => {
       const email = sender.sender_email;
@@ -165,8 +188,10 @@ export default async function handler(
         id: sender.id,
         email: sender.sender_email,
         name,
+        domain: getRegistrableDomain(sender.sender_email),
         emailCount: sender.email_count,
         unreadCount: sender.unread_count,
+        totalSizeBytes: Number(sender.total_size_bytes) || 0,
         firstEmailDate: sender.first_email_date,
         lastEmailDate: sender.last_email_date,
         unsubscribeLink: sender.unsubscribe_link,
@@ -175,6 +200,7 @@ export default async function handler(
         hasOneClickUnsubscribe: sender.has_one_click_unsubscribe ?? false,
         isNewsletter: sender.is_newsletter,
         isPromotional: sender.is_promotional,
+        isMuted: muted.has(`${sender.email_account_id}|||${email}`),
         emailAccountId: sender.email_account_id,
         accountEmail: (Array.isArray(sender.email_accounts) ? sender.email_accounts[0]?.email : sender.email_accounts?.email) || '',
         hasMultipleNames,
@@ -182,6 +208,10 @@ export default async function handler(
       };
     });
 
+    // Fold merged senders into one logical sender per group
+    const groups = await listUserSenderGroups(user.userId);
+    const folded = groups.length > 0 ? foldSenderGroups(response, groups) : response;
+
     // Get total count for pagination
     const { count: totalCount } = await supabase
       .from('email_senders')
@@ -189,10 +219,10 @@ export default async function handler(
       .eq('user_id', user.userId);
 
     return res.status(200).json({
-      senders: response,
+      senders: folded,
       pagination: {
-        total: totalCount || response.length,
-        limit: limit ? parseInt(limit as string) : response.length,
+        total: totalCount || folded.length,
+        limit: limit ? parseInt(limit as string) : folded.length,
         offset: parseInt(offset as string)
       }
     });
@@ -205,3 +235,62 @@ export default async function handler(
     });
   }
 }
+
+/**
+ * Replace each group's member rows with one merged row, at the position of
+ * the group's first member. The merged row keeps the id, address and links
+ * of its biggest member and sums the counts.
+ */
+function foldSenderGroups(rows: SenderResponse[], groups: SenderGroup[]): SenderResponse[] {
+  const groupsByAccount = new Map<string, SenderGroup[]>();
+  for (const group of groups) {
+    if (!groupsByAccount.has(group.email_account_id)) groupsByAccount.set(group.email_account_id, []);
+    groupsByAccount.get(group.email_account_id)!.push(group);
+  }
+
+  const membersByGroup = new Map<string, SenderResponse[]>();
+  const firstRows = new Map<SenderResponse, SenderGroup>();
+  const result: SenderResponse[] = [];
+
+  for (const row of rows) {
+    const group = findSenderGroup(groupsByAccount.get(row.emailAccountId) || [], row.email, row.name);
+    if (!group) {
+      result.push(row);
+      continue;
+    }
+
+    const members = membersByGroup.get(group.id);
+    if (members) {
+      members.push(row);
+    } else {
+      membersByGroup.set(group.id, [row]);
+      firstRows.set(row, group);
+      result.push(row);
+    }
+  }
+
+  return result.map(row => {
+    const group = firstRows.get(row);
+    if (!group) return row;
+
+    const members = membersByGroup.get(group.id)!.sort((a, b) => b.emailCount - a.emailCount);
+    const top = members[0];
+
+    return {
+      ...top,
+      emailCount: members.reduce((sum, m) => sum + m.emailCount, 0),
+      unreadCount: members.reduce((sum, m) => sum + m.unreadCount, 0),
+      totalSizeBytes: members.reduce((sum, m) => sum + m.totalSizeBytes, 0),
+      firstEmailDate: members.reduce((min, m) => m.firstEmailDate < min ? m.firstEmailDate : min, top.firstEmailDate),
+      lastEmailDate: members.reduce((max, m) => m.lastEmailDate > max ? m.lastEmailDate : max, top.lastEmailDate),
+      isNewsletter: members.some(m => m.isNewsletter),
+      isPromotional: members.some(m => m.isPromotional),
+      isMuted: members.every(m => m.isMuted),
+      hasMultipleNames: false,
+      relatedSenderNames: [],
+      groupId: group.id,
+      groupName: group.name,
+      groupMembers: members.map(m => ({ email: m.email, name: m.name, emailCount: m.emailCount })),
+    };
+  });
+}
@@ -3,14 +3,19 @@
  *
  * GET /api/emails/sync-progress?email=<email>
  *
- * Lightweight endpoint polled every 2s during sync to get real-time progress.
- * Returns { total: number | null, current: number | null }
+ * Lightweight sync progress snapshot. The app follows sync progress over
+ * GET /api/progress/stream (Server-Sent Events) instead of polling this.
+ * Returns { total: number | null, current: number | null, job: SyncJobResponse | null }
+ *
+ * While a full/upgrade sync job is running, total/current come from the job's
+ * checkpoints; `job` is the account's most recent sync job (running or finished).
  */
 
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { createClient } from '@supabase/supabase-js';
 import { requireEmailVerification, AuthenticatedRequest } from '../lib/auth-middleware.js';
 import { rateLimit, RateLimitPresets } from '../lib/rate-limiter.js';
+import { getLatestSyncJob, toSyncJobResponse } from '../lib/sync-jobs.js';
 
 const supabase = createClient(
   process.env.VITE_SUPABASE_URL!,
@@ -39,7 +44,7 @@ async function handler(req: VercelRequest, res: VercelResponse) {
 
   const { data: account, error } = await supabase
     .from('email_accounts')
-    .select('sync_progress_total, sync_progress_current')
+    .select('id, sync_progress_total, sync_progress_current')
     .eq('user_id', userId)
     .eq('email', email)
     .single();
@@ -53,15 +58,31 @@ async function handler(req: VercelRequest, res: VercelResponse) {
       .eq('email', email)
       .single();
 
+    return respondWithProgress(res, fallback);
+  }
+
+  return respondWithProgress(res, account);
+}
+
+async function respondWithProgress(
+  res: VercelResponse,
+  account: { id: string; sync_progress_total: number | null; sync_progress_current: number | null } | null
+) {
+  const job = account ? await getLatestSyncJob(account.id) : null;
+
+  if (job?.status === 'running') {
+    const total = job.progress_total;
     return res.status(200).json({
-      total: fallback?.sync_progress_total ?? null,
-      current: fallback?.sync_progress_current ?? null,
+      total,
+      current: total !== null ? Math.min(job.processed_count, total) : job.processed_count,
+      job: toSyncJobResponse(job),
     });
   }
 
   return res.status(200).json({
     total: account?.sync_progress_total ?? null,
     current: account?.sync_progress_current ?? null,
+    job: job ? toSyncJobResponse(job) : null,
   });
 }
 
@@ -22,6 +22,16 @@
  * 1. Full Sync - First sync, stale sync (>30 days), or critical recovery
  * 2. Incremental Sync - Normal sync using History API + timestamp fallback
  * 3. Recovery Sync - Auto-triggered when completeness check fails
+ *
+ * Each mode is carried out by the account's MailProvider (api/providers/),
+ * so Outlook and IMAP accounts follow the same routing with their own engines.
+ *
+ * Full and upgrade syncs run as resumable sync jobs (api/lib/sync-jobs.ts):
+ * a 202 with `inProgress: true` means the job was checkpointed and the client
+ * should call again to continue it.
+ *
+ * Only one sync or cleanup runs per account at a time (api/lib/account-lock.ts);
+ * a conflicting request gets 409 SYNC_IN_PROGRESS with the running operation's progress.
  */
 
 import type { VercelRequest, VercelResponse } from '@vercel/node';
@@ -29,12 +39,13 @@ import { createClient } from '@supabase/supabase-js';
 import { requireEmailVerification, AuthenticatedRequest } from '../lib/auth-middleware.js';
 import { rateLimit } from '../lib/rate-limiter.js';
 
-import { getValidAccessToken } from '../lib/gmail.js';
-import { getValidOutlookAccessToken } from '../lib/outlook.js';
-import { listMessages, batchGetMessages, getProfile, getHistoryChanges } from '../lib/gmail-api.js';
-import { performOutlookFullSync, performOutlookIncrementalSync, performOutlookInitialBatch } from './outlook-sync.js';
+import { getMailProvider } from '../providers/index.js';
+import type { MailProvider, SyncContext } from '../lib/mail-provider.js';
 import { PLAN_LIMITS } from '../subscription/get.js';
+import { getActiveSyncJob } from '../lib/sync-jobs.js';
 import { withSentry } from '../lib/sentry.js';
+import { respondProviderUnavailable } from '../lib/provider-quota.js';
+import { lockAccountOrRespond, releaseAccountLock, AccountLock } from '../lib/account-lock.js';
 
 const supabase = createClient(
   process.env.VITE_SUPABASE_URL!,
@@ -50,7 +61,6 @@ const limiter = rateLimit({
 // Constants
 const STALE_SYNC_DAYS = 30;
 const BATCH_SIZE = 100;
-const MAX_INCREMENTAL_MESSAGES = 1000; // Safety limit for incremental sync
 
 async function handler(
   req: VercelRequest,
@@ -74,11 +84,13 @@ async function handler(
     });
   }
 
+  let lock: AccountLock | null = null;
+
   try {
     // Get email account
     const { data: account, error: accountError } = await supabase
       .from('email_accounts')
-      .select('id, gmail_email, provider, connection_status, last_synced, total_emails, history_id, delta_link')
+      .select('id, gmail_email, provider, connection_status, last_synced, total_emails, history_id, delta_link, imap_uid_validity, imap_last_uid, imap_highest_modseq')
       .eq('user_id', user.userId)
       .eq('email', email)
       .single();
@@ -120,9 +132,13 @@ async function handler(
       .eq('email_account_id', account.id);
     const hasSenders = (senderCount || 0) > 0;
 
+    // An unfinished full/upgrade sync is continued rather than rate limited
+    const activeJob = await getActiveSyncJob(account.id);
+
     // Check if enough time has passed since last sync
-    // Skip interval check if: user just upgraded, initial batch, or previous sync produced no senders
-    if (syncIntervalMinutes > 0 && account.last_synced && !wasLimitedByPreviousPlan && !initialBatch && hasSenders) {
+    // Skip interval check if: user just upgraded, initial batch, a sync job is in progress,
+    // or previous sync produced no senders
+    if (syncIntervalMinutes > 0 && account.last_synced && !wasLimitedByPreviousPlan && !initialBatch && !activeJob && hasSenders) {
       const lastSyncTime = new Date(account.last_synced).getTime();
       const now = Date.now();
       const minutesSinceLastSync = (now - lastSyncTime) / (1000 * 60);
@@ -144,71 +160,10 @@ async function handler(
     }
 
     // ==================== PROVIDER ROUTING ====================
-    const provider = account.provider || 'Gmail';
-
-    if (provider === 'Outlook') {
-      // Route to Outlook sync
-      let outlookAccessToken: string;
-      try {
-        const tokenResult = await getValidOutlookAccessToken(
-          user.userId,
-          email
-        );
-        outlookAccessToken = tokenResult.accessToken;
-
-        if (account.connection_status !== 'connected') {
-          await supabase
-            .from('email_accounts')
-            .update({ connection_status: 'connected', updated_at: new Date().toISOString() })
-            .eq('id', account.id);
-        }
-      } catch (tokenError: any) {
-        console.error('Outlook token error:', tokenError.message);
-        await supabase
-          .from('email_accounts')
-          .update({ connection_status: 'expired', updated_at: new Date().toISOString() })
-          .eq('id', account.id);
-
-        return res.status(400).json({
-          error: `Outlook connection error: ${tokenError.message}. Please reconnect your Outlook account.`,
-          code: 'TOKEN_ERROR'
-        });
-      }
-
-      if (repair) {
-        return await performRepairSync(res, user.userId, account.id, email);
-      }
-
-      const isFirstSync = !account.last_synced;
-      const isStaleSync = account.last_synced &&
-        (Date.now() - new Date(account.last_synced).getTime()) > (STALE_SYNC_DAYS * 24 * 60 * 60 * 1000);
-      const isFullSync = isFirstSync || isStaleSync || fullSync;
-
-      const outlookUserEmail = email.toLowerCase();
-
-      if (initialBatch && isFirstSync) {
-        return await performOutlookInitialBatch(res, user.userId, account.id, outlookAccessToken, outlookUserEmail, email, planLimits.emailProcessingLimit);
-      }
-
-      if (isFullSync) {
-        return await performOutlookFullSync(res, user.userId, account.id, outlookAccessToken, outlookUserEmail, planLimits.emailProcessingLimit, email);
-      } else {
-        return await performOutlookIncrementalSync(
-          res, user.userId, account.id, outlookAccessToken, outlookUserEmail,
-          email, account.last_synced, account.delta_link
-        );
-      }
-    }
-
-    // ==================== GMAIL SYNC (default) ====================
-    // Get valid access token
-    let accessToken: string;
+    const providerName = account.provider || 'Gmail';
+    let provider: MailProvider;
     try {
-      const tokenResult = await getValidAccessToken(
-        user.userId,
-        account.gmail_email || email
-      );
-      accessToken = tokenResult.accessToken;
+      provider = await getMailProvider(user.userId, { ...account, email });
 
       if (account.connection_status !== 'connected') {
         await supabase
@@ -217,20 +172,24 @@ async function handler(
           .eq('id', account.id);
       }
     } catch (tokenError: any) {
-      console.error('Token error:', tokenError.message);
+      console.error(`${providerName} token error:`, tokenError.message);
       await supabase
         .from('email_accounts')
         .update({ connection_status: 'expired', updated_at: new Date().toISOString() })
         .eq('id', account.id);
 
       return res.status(400).json({
-        error: `Gmail connection error: ${tokenError.message}. Please reconnect your Gmail account.`,
+        error: `${providerName} connection error: ${tokenError.message}. Please reconnect your ${providerName} account.`,
         code: 'TOKEN_ERROR'
       });
     }
 
+    // One sync or cleanup per account at a time - 409 SYNC_IN_PROGRESS otherwise
+    lock = await lockAccountOrRespond(res, account.id, 'sync');
+    if (!lock) return;
+
     // ==================== REPAIR MODE ====================
-    // Recalculate all sender stats from existing emails (no Gmail fetch)
+    // Recalculate all sender stats from existing emails (no provider fetch)
     if (repair) {
       return await performRepairSync(res, user.userId, account.id, email);
     }
@@ -239,43 +198,46 @@ async function handler(
     const isFirstSync = !account.last_synced;
     const isStaleSync = account.last_synced &&
       (Date.now() - new Date(account.last_synced).getTime()) > (STALE_SYNC_DAYS * 24 * 60 * 60 * 1000);
-    // wasLimitedByPreviousPlan handled separately by performUpgradeSync
+    // wasLimitedByPreviousPlan handled separately by upgradeSync
     const isFullSync = isFirstSync || isStaleSync || fullSync;
 
-    const userEmail = (account.gmail_email || email).toLowerCase();
-    const syncType = isFullSync ? 'full' : 'incremental';
+    const ctx: SyncContext = {
+      res,
+      userId: user.userId,
+      account: { ...account, email },
+      emailLimit: planLimits.emailProcessingLimit,
+    };
+
+    // ==================== RESUME SYNC JOB ====================
+    // Continue from the last checkpoint instead of starting over
+    if (activeJob) {
+      return activeJob.sync_type === 'upgrade' && provider.upgradeSync
+        ? await provider.upgradeSync(ctx)
+        : await provider.fullSync(ctx);
+    }
 
     if (initialBatch && isFirstSync) {
-      return await performGmailInitialBatch(res, user.userId, account.id, accessToken, userEmail, email, planLimits.emailProcessingLimit);
+      return await provider.initialBatchSync(ctx);
     }
 
-    if (wasLimitedByPreviousPlan && !isFirstSync && !isStaleSync && !fullSync) {
+    if (wasLimitedByPreviousPlan && provider.upgradeSync && !isFirstSync && !isStaleSync && !fullSync) {
       // ==================== UPGRADE SYNC ====================
       // Keep existing emails, only fetch new ones beyond old plan limit
-      return await performUpgradeSync(res, user.userId, account.id, accessToken, userEmail, planLimits.emailProcessingLimit, email);
+      return await provider.upgradeSync(ctx);
     } else if (isFullSync) {
       // ==================== FULL SYNC ====================
       // Delete all existing data and rebuild from scratch
-      return await performFullSync(res, user.userId, account.id, accessToken, userEmail, planLimits.emailProcessingLimit, email);
+      return await provider.fullSync(ctx);
     } else {
       // ==================== INCREMENTAL SYNC ====================
-      // Use History API with timestamp fallback for reliable sync
-      return await performIncrementalSync(
-        res,
-        user.userId,
-        account.id,
-        accessToken,
-        userEmail,
-        email,
-        account.last_synced,
-        account.history_id
-      );
+      // Provider change tracking (History API, Graph delta, IMAP UIDs) with fallbacks
+      return await provider.incrementalSync(ctx);
     }
 
   } catch (error: any) {
     console.error('Email sync error:', error);
 
-    if (error.message.includes('Gmail not connected')) {
+    if (error.message.includes('not connected')) {
       await supabase
         .from('email_accounts')
         .update({ connection_status: 'expired', updated_at: new Date().toISOString() })
@@ -283,1607 +245,23 @@ async function handler(
         .eq('email', email);
 
       return res.status(401).json({
-        error: 'Gmail connection expired. Please reconnect.',
+        error: 'Email connection expired. Please reconnect.',
         code: 'TOKEN_EXPIRED'
       });
     }
 
+    // Provider outage (circuit open) - fail fast so the client can retry later
+    if (respondProviderUnavailable(res, error)) return;
+
     return res.status(500).json({
       error: 'Failed to sync emails',
       code: 'SYNC_ERROR',
     });
+  } finally {
+    await releaseAccountLock(lock);
   }
 }
 
-/**
- * Full Sync: Delete all existing data and rebuild from Gmail
- */
-async function performFullSync(
-  res: VercelResponse,
-  userId: string,
-  accountId: string,
-  accessToken: string,
-  userEmail: string,
-  emailLimit: number,
-  email: string
-) {
-  // Over-fetch by 10% to account for filtered emails (self-sent, no sender, etc.)
-  // so the stored count hits the plan limit instead of falling short
-  const fetchLimit = Math.min(10000, Math.ceil(emailLimit * 1.1));
-
-  // Step 1: Fetch all message IDs from Gmail
-  const allMessageRefs: Array<{ id: string; threadId: string }> = [];
-  let pageToken: string | undefined;
-  const query = '-in:sent -in:drafts -in:trash -in:spam';
-
-  while (allMessageRefs.length < fetchLimit) {
-    const response = await listMessages(accessToken, {
-      maxResults: Math.min(100, fetchLimit - allMessageRefs.length),
-      pageToken,
-      q: query,
-    });
-
-    if (!response.messages || response.messages.length === 0) break;
-    allMessageRefs.push(...response.messages);
-
-    if (!response.nextPageToken) break;
-    pageToken = response.nextPageToken;
-  }
-
-  // Write total for progress bar polling (cap at emailLimit so users don't see over-fetched count)
-  const progressTotal = Math.min(allMessageRefs.length, emailLimit);
-  const { error: progressError } = await supabase.from('email_accounts').update({
-    sync_progress_total: progressTotal,
-    sync_progress_current: 0
-  }).eq('id', accountId);
-  if (progressError) console.error('Failed to write sync progress:', progressError.message);
-
-  // Safety check: Don't delete existing data if Gmail returned nothing
-  if (allMessageRefs.length === 0) {
-    console.warn('Full sync: Gmail returned 0 messages - keeping existing data');
-    return res.status(200).json({
-      success: true,
-      totalSenders: 0,
-      totalEmails: 0,
-      message: 'No emails found - existing data preserved',
-      warning: 'Gmail returned no emails. Check if account has proper permissions.',
-      syncType: 'full'
-    });
-  }
-
-  // Step 2: Fetch message details
-  const messageIds = allMessageRefs.map(m => m.id);
-  const requiredHeaders = ['From', 'Date', 'Subject', 'List-Unsubscribe', 'List-Unsubscribe-Post'];
-  let lastProgressUpdate = 0;
-  const messages = await batchGetMessages(accessToken, messageIds, 'metadata', requiredHeaders,
-    (processed, total) => {
-      if (processed - lastProgressUpdate >= 50 || processed === total) {
-        lastProgressUpdate = processed;
-        supabase.from('email_accounts').update({
-          sync_progress_current: Math.min(processed, progressTotal)
-        }).eq('id', accountId).then(() => {});
-      }
-    }
-  );
-
-  // Step 3: Delete existing emails and senders
-  await supabase.from('emails').delete().eq('email_account_id', accountId);
-  await supabase.from('email_senders').delete().eq('email_account_id', accountId);
-
-  // Step 4: Process messages and build sender stats
-  const emailsToInsert: any[] = [];
-  const senderStats = new Map<string, {
-    sender_email: string;
-    sender_name: string;
-    email_count: number;
-    unread_count: number;
-    first_email_date: string;
-    last_email_date: string;
-    unsubscribe_link: string | null;
-    mailto_unsubscribe_link: string | null;
-    has_unsubscribe: boolean;
-    has_one_click_unsubscribe: boolean;
-    is_newsletter: boolean;
-    is_promotional: boolean;
-    _unsub_link_date?: string; // in-memory only, stripped before DB insert
-    _mailto_unsub_link_date?: string; // in-memory only, stripped before DB insert
-  }>();
-
-  for (const msg of messages) {
-    // Stop once we've hit the plan's email limit
-    if (emailsToInsert.length >= emailLimit) break;
-
-    const labels = msg.labelIds || [];
-    if (labels.includes('SPAM') || labels.includes('TRASH')) continue;
-
-    const fromHeader = msg.payload?.headers?.find((h: any) => h.name === 'From')?.value || '';
-    const dateHeader = msg.payload?.headers?.find((h: any) => h.name === 'Date')?.value || '';
-    const subjectHeader = msg.payload?.headers?.find((h: any) => h.name === 'Subject')?.value || '';
-    const unsubscribeHeader = msg.payload?.headers?.find((h: any) => h.name === 'List-Unsubscribe')?.value || '';
-    const unsubscribePostHeader = msg.payload?.headers?.find((h: any) => h.name === 'List-Unsubscribe-Post')?.value || '';
-
-    const { senderEmail, senderName } = parseSender(fromHeader);
-    if (senderEmail === userEmail || !senderEmail) continue;
-
-    // Use Gmail's internalDate (epoch ms) instead of Date header for reliable timezone handling
-    // The Date header can be in any timezone and JS parsing can shift the date
-    const internalDateMs = parseInt(msg.internalDate);
-    const receivedAt = new Date(internalDateMs).toISOString();
-
-    const isUnread = labels.includes('UNREAD');
-
-    // Add to emails list
-    emailsToInsert.push({
-      gmail_message_id: msg.id,
-      email_account_id: accountId,
-      sender_email: senderEmail,
-      sender_name: senderName,
-      subject: subjectHeader || '(No Subject)',
-      snippet: msg.snippet || '',
-      received_at: receivedAt,
-      is_unread: isUnread,
-      thread_id: msg.threadId,
-      labels,
-    });
-
-    // Update sender stats
-    const senderKey = `${senderEmail}|||${senderName}`;
-    const existing = senderStats.get(senderKey);
-    const unsubscribeLink = extractUnsubscribeLink(unsubscribeHeader);
-    const mailtoUnsubscribeLink = extractMailtoUnsubscribeLink(unsubscribeHeader);
-    const hasOneClick = unsubscribePostHeader.toLowerCase().includes('list-unsubscribe=one-click');
-
-    if (existing) {
-      existing.email_count++;
-      if (isUnread) existing.unread_count++;
-      if (receivedAt < existing.first_email_date) existing.first_email_date = receivedAt;
-      if (receivedAt > existing.last_email_date) existing.last_email_date = receivedAt;
-      // Prefer the most recent email's unsubscribe link (more likely to be valid)
-      if (unsubscribeLink && (!existing._unsub_link_date || receivedAt > existing._unsub_link_date)) {
-        existing.unsubscribe_link = unsubscribeLink;
-        existing.has_unsubscribe = true;
-        existing.has_one_click_unsubscribe = hasOneClick;
-        existing._unsub_link_date = receivedAt;
-      }
-      // Track most recent mailto unsubscribe link separately
-      if (mailtoUnsubscribeLink && (!existing._mailto_unsub_link_date || receivedAt > existing._mailto_unsub_link_date)) {
-        existing.mailto_unsubscribe_link = mailtoUnsubscribeLink;
-        existing._mailto_unsub_link_date = receivedAt;
-      }
-    } else {
-      senderStats.set(senderKey, {
-        sender_email: senderEmail,
-        sender_name: senderName,
-        email_count: 1,
-        unread_count: isUnread ? 1 : 0,
-        first_email_date: receivedAt,
-        last_email_date: receivedAt,
-        unsubscribe_link: unsubscribeLink,
-        mailto_unsubscribe_link: mailtoUnsubscribeLink,
-        has_unsubscribe: !!unsubscribeLink,
-        has_one_click_unsubscribe: hasOneClick,
-        is_newsletter: labels.includes('CATEGORY_UPDATES') && !!unsubscribeLink,
-        is_promotional: labels.includes('CATEGORY_PROMOTIONS'),
-        _unsub_link_date: unsubscribeLink ? receivedAt : undefined,
-        _mailto_unsub_link_date: mailtoUnsubscribeLink ? receivedAt : undefined,
-      });
-    }
-  }
-
-  // Step 5: Insert emails in batches
-  for (let i = 0; i < emailsToInsert.length; i += BATCH_SIZE) {
-    const batch = emailsToInsert.slice(i, i + BATCH_SIZE);
-    const { error } = await supabase.from('emails').insert(batch);
-    if (error) console.error('Email insert error:', error.message);
-  }
-
-  // Step 6: Insert senders (strip in-memory-only tracking fields)
-  const sendersToInsert = Array.from(senderStats.values()).map(({ _unsub_link_date, _mailto_unsub_link_date, ...s }) => ({
-    user_id: userId,
-    email_account_id: accountId,
-    ...s,
-    updated_at: new Date().toISOString()
-  }));
-
-  for (let i = 0; i < sendersToInsert.length; i += BATCH_SIZE) {
-    const batch = sendersToInsert.slice(i, i + BATCH_SIZE);
-    const { error } = await supabase.from('email_senders').insert(batch);
-    if (error) console.error('Sender insert error:', error.message);
-  }
-
-  // Step 7: Get historyId for future incremental syncs
-  let historyId: string | undefined;
-  try {
-    const profile = await getProfile(accessToken);
-    historyId = profile.historyId;
-  } catch (e) {
-    console.warn('Could not get historyId:', e);
-  }
-
-  // Step 8: Update account stats and clear sync progress
-  const totalEmails = emailsToInsert.length;
-  await supabase
-    .from('email_accounts')
-    .update({
-      total_emails: totalEmails,
-      last_synced: new Date().toISOString(),
-      updated_at: new Date().toISOString(),
-      sync_progress_total: null,
-      sync_progress_current: null,
-      ...(historyId && { history_id: historyId })
-    })
-    .eq('id', accountId);
-
-  // Log activity
-  await supabase.from('activity_log').insert({
-    user_id: userId,
-    action_type: 'email_sync',
-    description: `Full sync: ${totalEmails.toLocaleString()} emails from ${sendersToInsert.length} senders`,
-    metadata: { email, syncType: 'full', totalEmails, totalSenders: sendersToInsert.length }
-  });
-
-  return res.status(200).json({
-    success: true,
-    totalSenders: sendersToInsert.length,
-    totalEmails,
-    deletedEmails: 0,
-    message: 'Full sync completed successfully',
-    syncType: 'full'
-  });
-}
-
-/**
- * Upgrade Sync: User upgraded their plan. Keep existing emails, only fetch new ones.
- * Fetches all message IDs from Gmail, diffs against DB, and only downloads new messages.
- * Progress bar starts from existing email count so it feels continuous.
- */
-async function performUpgradeSync(
-  res: VercelResponse,
-  userId: string,
-  accountId: string,
-  accessToken: string,
-  userEmail: string,
-  emailLimit: number,
-  email: string
-) {
-  const fetchLimit = Math.min(10000, Math.ceil(emailLimit * 1.1));
-
-  // Step 1: Fetch all message IDs from Gmail
-  const allMessageRefs: Array<{ id: string; threadId: string }> = [];
-  let pageToken: string | undefined;
-  const query = '-in:sent -in:drafts -in:trash -in:spam';
-
-  while (allMessageRefs.length < fetchLimit) {
-    const response = await listMessages(accessToken, {
-      maxResults: Math.min(100, fetchLimit - allMessageRefs.length),
-      pageToken,
-      q: query,
-    });
-
-    if (!response.messages || response.messages.length === 0) break;
-    allMessageRefs.push(...response.messages);
-
-    if (!response.nextPageToken) break;
-    pageToken = response.nextPageToken;
-  }
-
-  if (allMessageRefs.length === 0) {
-    return res.status(200).json({
-      success: true,
-      totalSenders: 0,
-      totalEmails: 0,
-      message: 'No emails found',
-      syncType: 'upgrade'
-    });
-  }
-
-  // Step 2: Get existing message IDs from DB to find the diff
-  const existingIds = new Set<string>();
-  let offset = 0;
-  while (true) {
-    const { data, error } = await supabase
-      .from('emails')
-      .select('gmail_message_id')
-      .eq('email_account_id', accountId)
-      .range(offset, offset + 999);
-    if (error || !data || data.length === 0) break;
-    for (const row of data) existingIds.add(row.gmail_message_id);
-    if (data.length < 1000) break;
-    offset += 1000;
-  }
-
-  // Step 3: Filter to only new message IDs
-  const newMessageRefs = allMessageRefs.filter(m => !existingIds.has(m.id));
-  const existingCount = existingIds.size;
-
-  // Write progress (cap at emailLimit so users don't see over-fetched count)
-  const upgradeProgressTotal = Math.min(allMessageRefs.length, emailLimit);
-  await supabase.from('email_accounts').update({
-    sync_progress_total: upgradeProgressTotal,
-    sync_progress_current: Math.min(existingCount, upgradeProgressTotal)
-  }).eq('id', accountId);
-
-  if (newMessageRefs.length === 0) {
-    // No new messages to fetch — just update stats
-    await supabase.from('email_accounts').update({
-      total_emails: existingCount,
-      last_synced: new Date().toISOString(),
-      sync_progress_total: null,
-      sync_progress_current: null,
-    }).eq('id', accountId);
-
-    return res.status(200).json({
-      success: true,
-      totalEmails: existingCount,
-      addedEmails: 0,
-      message: 'Already up to date',
-      syncType: 'upgrade'
-    });
-  }
-
-  // Step 4: Fetch details only for new messages
-  const newMessageIds = newMessageRefs.map(m => m.id);
-  const requiredHeaders = ['From', 'Date', 'Subject', 'List-Unsubscribe', 'List-Unsubscribe-Post'];
-  let lastProgressUpdate = 0;
-  const messages = await batchGetMessages(accessToken, newMessageIds, 'metadata', requiredHeaders,
-    (processed, total) => {
-      if (processed - lastProgressUpdate >= 50 || processed === total) {
-        lastProgressUpdate = processed;
-        supabase.from('email_accounts').update({
-          sync_progress_current: Math.min(existingCount + processed, upgradeProgressTotal)
-        }).eq('id', accountId).then(() => {});
-      }
-    }
-  );
-
-  // Step 5: Process new messages
-  const emailsToInsert: any[] = [];
-  for (const msg of messages) {
-    if (emailsToInsert.length + existingCount >= emailLimit) break;
-
-    const labels = msg.labelIds || [];
-    if (labels.includes('SPAM') || labels.includes('TRASH')) continue;
-
-    const fromHeader = msg.payload?.headers?.find((h: any) => h.name === 'From')?.value || '';
-    const subjectHeader = msg.payload?.headers?.find((h: any) => h.name === 'Subject')?.value || '';
-    const unsubscribeHeader = msg.payload?.headers?.find((h: any) => h.name === 'List-Unsubscribe')?.value || '';
-    const unsubscribePostHeader = msg.payload?.headers?.find((h: any) => h.name === 'List-Unsubscribe-Post')?.value || '';
-
-    const { senderEmail, senderName } = parseSender(fromHeader);
-    if (senderEmail === userEmail || !senderEmail) continue;
-
-    const internalDateMs = parseInt(msg.internalDate);
-    const receivedAt = new Date(internalDateMs).toISOString();
-    const isUnread = labels.includes('UNREAD');
-
-    emailsToInsert.push({
-      gmail_message_id: msg.id,
-      email_account_id: accountId,
-      sender_email: senderEmail,
-      sender_name: senderName,
-      subject: subjectHeader || '(No Subject)',
-      snippet: msg.snippet || '',
-      received_at: receivedAt,
-      is_unread: isUnread,
-      thread_id: msg.threadId,
-      labels,
-    });
-  }
-
-  // Step 6: Insert only new emails (keep existing ones)
-  for (let i = 0; i < emailsToInsert.length; i += BATCH_SIZE) {
-    const batch = emailsToInsert.slice(i, i + BATCH_SIZE);
-    const { error } = await supabase.from('emails').insert(batch);
-    if (error) console.error('Upgrade sync email insert error:', error.message);
-  }
-
-  // Step 7: Rebuild ALL senders from scratch (not just affected ones)
-  // The partial recalculation via batchRecalculateSenderStats can fail with large
-  // sender counts due to .in() query limits. Rebuilding from the emails table is
-  // more reliable and ensures accurate counts after a plan upgrade.
-  // The delete happens inside rebuildSendersFromEmails, right before insert,
-  // to minimize the window where senders are empty (prevents UI flash).
-  await rebuildSendersFromEmails(userId, accountId);
-
-  // Step 8: Update account
-  const totalEmails = existingCount + emailsToInsert.length;
-  let historyId: string | undefined;
-  try {
-    const profile = await getProfile(accessToken);
-    historyId = profile.historyId;
-  } catch (e) {
-    console.warn('Could not get historyId:', e);
-  }
-
-  await supabase.from('email_accounts').update({
-    total_emails: totalEmails,
-    last_synced: new Date().toISOString(),
-    updated_at: new Date().toISOString(),
-    sync_progress_total: null,
-    sync_progress_current: null,
-    ...(historyId && { history_id: historyId })
-  }).eq('id', accountId);
-
-  await supabase.from('activity_log').insert({
-    user_id: userId,
-    action_type: 'email_sync',
-    description: `Upgrade sync: ${emailsToInsert.length.toLocaleString()} new emails added (${totalEmails.toLocaleString()} total)`,
-    metadata: { email, syncType: 'upgrade', totalEmails, addedEmails: emailsToInsert.length }
-  });
-
-  return res.status(200).json({
-    success: true,
-    totalSenders: 0,
-    totalEmails,
-    addedEmails: emailsToInsert.length,
-    message: `Upgrade sync: added ${emailsToInsert.length} new emails`,
-    syncType: 'upgrade'
-  });
-}
-
-/**
- * Gmail Initial Batch: Fetch only 500 most recent emails for fast first-load.
- * Does NOT set last_synced or history_id — the account stays in "needs full sync" state
- * so Phase 2 (full sync) rebuilds everything with accurate totals.
- */
-async function performGmailInitialBatch(
-  res: VercelResponse,
-  userId: string,
-  accountId: string,
-  accessToken: string,
-  userEmail: string,
-  email: string,
-  emailLimit: number = 500
-) {
-  const INITIAL_BATCH_LIMIT = Math.min(500, emailLimit);
-  const query = '-in:sent -in:drafts -in:trash -in:spam';
-
-  // Fetch up to 500 most recent message IDs (5 pages of 100)
-  const allMessageRefs: Array<{ id: string; threadId: string }> = [];
-  let pageToken: string | undefined;
-
-  while (allMessageRefs.length < INITIAL_BATCH_LIMIT) {
-    const response = await listMessages(accessToken, {
-      maxResults: Math.min(100, INITIAL_BATCH_LIMIT - allMessageRefs.length),
-      pageToken,
-      q: query,
-    });
-
-    if (!response.messages || response.messages.length === 0) break;
-    allMessageRefs.push(...response.messages);
-
-    if (!response.nextPageToken) break;
-    pageToken = response.nextPageToken;
-  }
-
-  if (allMessageRefs.length === 0) {
-    return res.status(200).json({
-      success: true,
-      totalSenders: 0,
-      totalEmails: 0,
-      syncType: 'initialBatch'
-    });
-  }
-
-  // Write total for progress bar polling (cap at emailLimit)
-  const batchProgressTotal = Math.min(allMessageRefs.length, emailLimit);
-  await supabase.from('email_accounts').update({
-    sync_progress_total: batchProgressTotal,
-    sync_progress_current: 0
-  }).eq('id', accountId);
-
-  // Fetch message details
-  const messageIds = allMessageRefs.map(m => m.id);
-  const requiredHeaders = ['From', 'Date', 'Subject', 'List-Unsubscribe', 'List-Unsubscribe-Post'];
-  let lastInitialProgressUpdate = 0;
-  const messages = await batchGetMessages(accessToken, messageIds, 'metadata', requiredHeaders,
-    (processed, total) => {
-      if (processed - lastInitialProgressUpdate >= 100 || processed === total) {
-        lastInitialProgressUpdate = processed;
-        supabase.from('email_accounts').update({
-          sync_progress_current: Math.min(processed, batchProgressTotal)
-        }).eq('id', accountId).then(() => {});
-      }
-    }
-  );
-
-  // Process messages (same logic as performFullSync Step 4)
-  const emailsToInsert: any[] = [];
-  const senderStats = new Map<string, {
-    sender_email: string;
-    sender_name: string;
-    email_count: number;
-    unread_count: number;
-    first_email_date: string;
-    last_email_date: string;
-    unsubscribe_link: string | null;
-    mailto_unsubscribe_link: string | null;
-    has_unsubscribe: boolean;
-    has_one_click_unsubscribe: boolean;
-    is_newsletter: boolean;
-    is_promotional: boolean;
-    _unsub_link_date?: string;
-    _mailto_unsub_link_date?: string;
-  }>();
-
-  for (const msg of messages) {
-    const labels = msg.labelIds || [];
-    if (labels.includes('SPAM') || labels.includes('TRASH')) continue;
-
-    const fromHeader = msg.payload?.headers?.find((h: any) => h.name === 'From')?.value || '';
-    const subjectHeader = msg.payload?.headers?.find((h: any) => h.name === 'Subject')?.value || '';
-    const unsubscribeHeader = msg.payload?.headers?.find((h: any) => h.name === 'List-Unsubscribe')?.value || '';
-    const unsubscribePostHeader = msg.payload?.headers?.find((h: any) => h.name === 'List-Unsubscribe-Post')?.value || '';
-
-    const { senderEmail, senderName } = parseSender(fromHeader);
-    if (senderEmail === userEmail || !senderEmail) continue;
-
-    const internalDateMs = parseInt(msg.internalDate);
-    const receivedAt = new Date(internalDateMs).toISOString();
-    const isUnread = labels.includes('UNREAD');
-
-    emailsToInsert.push({
-      gmail_message_id: msg.id,
-      email_account_id: accountId,
-      sender_email: senderEmail,
-      sender_name: senderName,
-      subject: subjectHeader || '(No Subject)',
-      snippet: msg.snippet || '',
-      received_at: receivedAt,
-      is_unread: isUnread,
-      thread_id: msg.threadId,
-      labels,
-    });
-
-    // Update sender stats
-    const senderKey = `${senderEmail}|||${senderName}`;
-    const existing = senderStats.get(senderKey);
-    const unsubscribeLink = extractUnsubscribeLink(unsubscribeHeader);
-    const mailtoUnsubscribeLink = extractMailtoUnsubscribeLink(unsubscribeHeader);
-    const hasOneClick = unsubscribePostHeader.toLowerCase().includes('list-unsubscribe=one-click');
-
-    if (existing) {
-      existing.email_count++;
-      if (isUnread) existing.unread_count++;
-      if (receivedAt < existing.first_email_date) existing.first_email_date = receivedAt;
-      if (receivedAt > existing.last_email_date) existing.last_email_date = receivedAt;
-      if (unsubscribeLink && (!existing._unsub_link_date || receivedAt > existing._unsub_link_date)) {
-        existing.unsubscribe_link = unsubscribeLink;
-        existing.has_unsubscribe = true;
-        existing.has_one_click_unsubscribe = hasOneClick;
-        existing._unsub_link_date = receivedAt;
-      }
-      if (mailtoUnsubscribeLink && (!existing._mailto_unsub_link_date || receivedAt > existing._mailto_unsub_link_date)) {
-        existing.mailto_unsubscribe_link = mailtoUnsubscribeLink;
-        existing._mailto_unsub_link_date = receivedAt;
-      }
-    } else {
-      senderStats.set(senderKey, {
-        sender_email: senderEmail,
-        sender_name: senderName,
-        email_count: 1,
-        unread_count: isUnread ? 1 : 0,
-        first_email_date: receivedAt,
-        last_email_date: receivedAt,
-        unsubscribe_link: unsubscribeLink,
-        mailto_unsubscribe_link: mailtoUnsubscribeLink,
-        has_unsubscribe: !!unsubscribeLink,
-        has_one_click_unsubscribe: hasOneClick,
-        is_newsletter: labels.includes('CATEGORY_UPDATES') && !!unsubscribeLink,
-        is_promotional: labels.includes('CATEGORY_PROMOTIONS'),
-        _unsub_link_date: unsubscribeLink ? receivedAt : undefined,
-        _mailto_unsub_link_date: mailtoUnsubscribeLink ? receivedAt : undefined,
-      });
-    }
-  }
-
-  // Insert emails in batches (tables are empty for first sync, no delete needed)
-  for (let i = 0; i < emailsToInsert.length; i += BATCH_SIZE) {
-    const batch = emailsToInsert.slice(i, i + BATCH_SIZE);
-    const { error } = await supabase.from('emails').insert(batch);
-    if (error) console.error('Initial batch email insert error:', error.message);
-  }
-
-  // Insert senders (strip tracking fields)
-  const sendersToInsert = Array.from(senderStats.values()).map(({ _unsub_link_date, _mailto_unsub_link_date, ...s }) => ({
-    user_id: userId,
-    email_account_id: accountId,
-    ...s,
-    updated_at: new Date().toISOString()
-  }));
-
-  for (let i = 0; i < sendersToInsert.length; i += BATCH_SIZE) {
-    const batch = sendersToInsert.slice(i, i + BATCH_SIZE);
-    const { error } = await supabase.from('email_senders').insert(batch);
-    if (error) console.error('Initial batch sender insert error:', error.message);
-  }
-
-  // If the initial batch already covers the full plan limit, mark account as fully synced
-  // so we skip Phase 2 entirely (e.g., free tier: limit=100, batch=100)
-  const fullSyncNeeded = emailLimit > INITIAL_BATCH_LIMIT;
-
-  if (!fullSyncNeeded) {
-    // Get Gmail profile for historyId so incremental sync works next time
-    try {
-      const profile = await getProfile(accessToken);
-      await supabase.from('email_accounts').update({
-        last_synced: new Date().toISOString(),
-        history_id: profile.historyId,
-        total_emails: emailsToInsert.length,
-        sync_progress_total: null,
-        sync_progress_current: null
-      }).eq('id', accountId);
-    } catch {
-      // If profile fetch fails, still clear progress
-      await supabase.from('email_accounts').update({
-        last_synced: new Date().toISOString(),
-        total_emails: emailsToInsert.length,
-        sync_progress_total: null,
-        sync_progress_current: null
-      }).eq('id', accountId);
-    }
-  } else {
-    // Clear progress — Phase 2 will set its own progress
-    await supabase.from('email_accounts').update({
-      sync_progress_total: null,
-      sync_progress_current: null
-    }).eq('id', accountId);
-  }
-
-  return res.status(200).json({
-    success: true,
-    totalSenders: sendersToInsert.length,
-    totalEmails: emailsToInsert.length,
-    syncType: 'initialBatch',
-    fullSyncNeeded
-  });
-}
-
-/**
- * Incremental Sync: Reliable sync using History API with timestamp fallback
- *
- * Strategy:
- * 1. Try History API first (fastest, most reliable)
- * 2. If history expired, fall back to timestamp-based query
- * 3. Verify completeness after sync
- * 4. Never delete based on heuristic limits - only delete what History API reports
- */
-async function performIncrementalSync(
-  res: VercelResponse,
-  userId: string,
-  accountId: string,
-  accessToken: string,
-  userEmail: string,
-  email: string,
-  lastSyncedAt: string,
-  storedHistoryId: string | null
-) {
-  let addedCount = 0;
-  let deletedCount = 0;
-  const affectedSenders = new Set<string>();
-  let syncMethod = 'history';
-  let newHistoryId: string | undefined;
-  // Collect unsubscribe info from all processNewMessages calls to apply AFTER sender rows are created
-  const allSendersWithUnsubscribe = new Map<string, { unsubscribeLink: string | null; mailtoLink: string | null; hasOneClick: boolean; receivedAt: string; isNewsletter: boolean; isPromotional: boolean }>();
-
-  // Try History API first if we have a stored historyId
-  if (storedHistoryId) {
-    try {
-      const historyChanges = await getHistoryChanges(accessToken, storedHistoryId);
-
-      if (historyChanges.historyExpired) {
-        syncMethod = 'timestamp';
-      } else {
-        // History API succeeded - use its results
-        newHistoryId = historyChanges.newHistoryId;
-
-        const addedMessageIds = historyChanges.addedMessageIds;
-        const deletedMessageIds = historyChanges.deletedMessageIds;
-
-        // Process added messages
-        if (addedMessageIds.length > 0) {
-          const result = await processNewMessages(
-            accessToken, accountId, userEmail, addedMessageIds, affectedSenders
-          );
-          addedCount = result.addedCount;
-          for (const [k, v] of result.sendersWithUnsubscribe) allSendersWithUnsubscribe.set(k, v);
-        }
-
-        // Process deleted messages
-        if (deletedMessageIds.length > 0) {
-          const result = await processDeletedMessages(
-            accountId, deletedMessageIds, affectedSenders
-          );
-          deletedCount = result.deletedCount;
-        }
-      }
-    } catch (error: any) {
-      console.error('History API error:', error.message);
-      syncMethod = 'timestamp';
-    }
-  } else {
-    syncMethod = 'timestamp';
-  }
-
-  // Fallback: timestamp-based sync
-  if (syncMethod === 'timestamp') {
-    // Build query to get ALL emails after last sync (not limited to arbitrary count)
-    const lastSyncDate = new Date(lastSyncedAt);
-    // Subtract 1 hour buffer to handle timezone/timing edge cases
-    const bufferDate = new Date(lastSyncDate.getTime() - 60 * 60 * 1000);
-    const epochSeconds = Math.floor(bufferDate.getTime() / 1000);
-    const query = `-in:sent -in:drafts -in:trash -in:spam after:${epochSeconds}`;
-
-    // Fetch ALL messages since last sync (with safety limit)
-    const messageRefs: Array<{ id: string; threadId: string }> = [];
-    let pageToken: string | undefined;
-
-    while (messageRefs.length < MAX_INCREMENTAL_MESSAGES) {
-      const response = await listMessages(accessToken, {
-        maxResults: 100,
-        pageToken,
-        q: query,
-      });
-
-      if (!response.messages || response.messages.length === 0) break;
-      messageRefs.push(...response.messages);
-
-      if (!response.nextPageToken) break;
-      pageToken = response.nextPageToken;
-    }
-
-    // Find which messages are new (not in our DB)
-    const gmailMessageIds = messageRefs.map(m => m.id);
-
-    if (gmailMessageIds.length > 0) {
-      // Query in batches to avoid Supabase limits
-      const existingIds = new Set<string>();
-      for (let i = 0; i < gmailMessageIds.length; i += 500) {
-        const batch = gmailMessageIds.slice(i, i + 500);
-        const { data: existingEmails } = await supabase
-          .from('emails')
-          .select('gmail_message_id')
-          .eq('email_account_id', accountId)
-          .in('gmail_message_id', batch);
-
-        (existingEmails || []).forEach(e => existingIds.add(e.gmail_message_id));
-      }
-
-      const newMessageIds = gmailMessageIds.filter(id => !existingIds.has(id));
-
-      if (newMessageIds.length > 0) {
-        const result = await processNewMessages(
-          accessToken, accountId, userEmail, newMessageIds, affectedSenders
-        );
-        addedCount = result.addedCount;
-        for (const [k, v] of result.sendersWithUnsubscribe) allSendersWithUnsubscribe.set(k, v);
-      }
-    }
-
-    // For timestamp-based sync, we don't know deletions - skip deletion detection
-    // (Full sync handles cleanup, and History API handles deletions when available)
-  }
-
-  // Get fresh historyId if we don't have one
-  if (!newHistoryId) {
-    try {
-      const profile = await getProfile(accessToken);
-      newHistoryId = profile.historyId;
-    } catch (e) {
-      console.warn('Could not get historyId:', e);
-    }
-  }
-
-  // Post-sync completeness check
-  const completenessResult = await verifyCompletenessAndSync(
-    accessToken, accountId, userEmail, affectedSenders
-  );
-  addedCount += completenessResult.addedCount;
-  for (const [k, v] of completenessResult.sendersWithUnsubscribe) allSendersWithUnsubscribe.set(k, v);
-
-  // ENFORCEMENT: If completeness check failed, escalate to recovery sync automatically
-  if (!completenessResult.complete) {
-    const recoveryResult = await performRecoverySync(
-      accessToken, accountId, userEmail, affectedSenders
-    );
-    addedCount += recoveryResult.addedCount;
-    for (const [k, v] of recoveryResult.sendersWithUnsubscribe) allSendersWithUnsubscribe.set(k, v);
-
-    const finalCheck = await verifyCompletenessAndSync(
-      accessToken, accountId, userEmail, affectedSenders
-    );
-    addedCount += finalCheck.addedCount;
-    for (const [k, v] of finalCheck.sendersWithUnsubscribe) allSendersWithUnsubscribe.set(k, v);
-
-    if (!finalCheck.complete) {
-      syncMethod = 'recovery-failed';
-    } else {
-      syncMethod = 'recovery';
-    }
-  }
-
-  // Recalculate sender stats for affected senders (creates rows for new senders)
-  // Uses batched approach: 2-3 DB queries total instead of 3*N sequential queries
-  // This prevents Vercel Hobby 10s timeout when many senders are affected
-  await batchRecalculateSenderStats(userId, accountId, affectedSenders);
-
-  // Apply unsubscribe + newsletter/promotional info AFTER recalculateSenderStats has created/updated sender rows
-  for (const [key, info] of allSendersWithUnsubscribe) {
-    const [senderEmail, senderName] = key.split('|||');
-    await supabase
-      .from('email_senders')
-      .update({
-        ...(info.unsubscribeLink && {
-          has_unsubscribe: true,
-          unsubscribe_link: info.unsubscribeLink,
-          has_one_click_unsubscribe: info.hasOneClick,
-        }),
-        ...(info.mailtoLink && { mailto_unsubscribe_link: info.mailtoLink }),
-        ...(info.isNewsletter && { is_newsletter: true }),
-        ...(info.isPromotional && { is_promotional: true }),
-        updated_at: new Date().toISOString(),
-      })
-      .eq('email_account_id', accountId)
-      .eq('sender_email', senderEmail)
-      .eq('sender_name', senderName);
-  }
-
-  // Lightweight orphaned sender check
-  const orphanedFixed = await fixOrphanedSenders(userId, accountId);
-
-  // Update account with new sync time and historyId
-  const now = new Date().toISOString();
-  await supabase
-    .from('email_accounts')
-    .update({
-      last_synced: now,
-      updated_at: now,
-      ...(newHistoryId && { history_id: newHistoryId })
-    })
-    .eq('id', accountId);
-
-  // Log activity
-  const description = `Sync (${syncMethod}): ${addedCount} new, ${deletedCount} removed`;
-  await supabase.from('activity_log').insert({
-    user_id: userId,
-    action_type: 'email_sync',
-    description,
-    metadata: {
-      email,
-      syncType: syncMethod.includes('recovery') ? 'recovery' : 'incremental',
-      syncMethod,
-      addedEmails: addedCount,
-      deletedEmails: deletedCount,
-      completenessVerified: !syncMethod.includes('failed')
-    }
-  });
-
-  return res.status(200).json({
-    success: !syncMethod.includes('failed'),
-    totalSenders: affectedSenders.size,
-    addedEmails: addedCount,
-    deletedEmails: deletedCount,
-    orphansFixed: orphanedFixed,
-    message: syncMethod.includes('failed')
-      ? `Sync incomplete - ${completenessResult.missingCount} emails could not be synced`
-      : (addedCount > 0 || deletedCount > 0 || orphanedFixed > 0
-          ? `${description}${orphanedFixed > 0 ? `, ${orphanedFixed} orphans fixed` : ''}`
-          : 'Inbox is up to date'),
-    syncType: syncMethod.includes('recovery') ? 'recovery' : 'incremental',
-    syncMethod
-  });
-}
-
-/**
- * Process and insert new messages
- */
-async function processNewMessages(
-  accessToken: string,
-  accountId: string,
-  userEmail: string,
-  messageIds: string[],
-  affectedSenders: Set<string>
-): Promise<{ addedCount: number; sendersWithUnsubscribe: Map<string, { unsubscribeLink: string | null; mailtoLink: string | null; hasOneClick: boolean; receivedAt: string; isNewsletter: boolean; isPromotional: boolean }> }> {
-  let addedCount = 0;
-
-  const requiredHeaders = ['From', 'Date', 'Subject', 'List-Unsubscribe', 'List-Unsubscribe-Post'];
-  const messages = await batchGetMessages(accessToken, messageIds, 'metadata', requiredHeaders);
-
-
-  // Track senders that need unsubscribe info restored
-  const sendersWithUnsubscribe = new Map<string, { unsubscribeLink: string | null; mailtoLink: string | null; hasOneClick: boolean; receivedAt: string; isNewsletter: boolean; isPromotional: boolean }>();
-
-  for (const msg of messages) {
-    const labels = msg.labelIds || [];
-    // Skip spam/trash, but also skip sent/drafts to only get inbox emails
-    if (labels.includes('SPAM') || labels.includes('TRASH') ||
-        labels.includes('SENT') || labels.includes('DRAFT')) {
-
-      continue;
-    }
-
-    const fromHeader = msg.payload?.headers?.find((h: any) => h.name === 'From')?.value || '';
-    const dateHeader = msg.payload?.headers?.find((h: any) => h.name === 'Date')?.value || '';
-    const subjectHeader = msg.payload?.headers?.find((h: any) => h.name === 'Subject')?.value || '';
-    const unsubscribeHeader = msg.payload?.headers?.find((h: any) => h.name === 'List-Unsubscribe')?.value || '';
-    const unsubscribePostHeader = msg.payload?.headers?.find((h: any) => h.name === 'List-Unsubscribe-Post')?.value || '';
-
-    const { senderEmail, senderName } = parseSender(fromHeader);
-    if (senderEmail === userEmail || !senderEmail) {
-
-      continue;
-    }
-
-    // Use Gmail's internalDate (epoch ms) instead of Date header for reliable timezone handling
-    // The Date header can be in any timezone and JS parsing can shift the date
-    const receivedAt = new Date(parseInt(msg.internalDate)).toISOString();
-
-    // Track unsubscribe + newsletter/promotional info to apply after sender rows are created
-    const unsubscribeLink = extractUnsubscribeLink(unsubscribeHeader);
-    const mailtoLink = extractMailtoUnsubscribeLink(unsubscribeHeader);
-    const isNewsletter = labels.includes('CATEGORY_UPDATES') && !!unsubscribeLink;
-    const isPromotional = labels.includes('CATEGORY_PROMOTIONS');
-    if (unsubscribeLink || isNewsletter || isPromotional) {
-      const key = `${senderEmail}|||${senderName}`;
-      const existing = sendersWithUnsubscribe.get(key);
-      if (!existing || receivedAt > existing.receivedAt) {
-        sendersWithUnsubscribe.set(key, {
-          unsubscribeLink,
-          mailtoLink,
-          hasOneClick: unsubscribePostHeader.toLowerCase().includes('list-unsubscribe=one-click'),
-          receivedAt,
-          isNewsletter,
-          isPromotional,
-        });
-      }
-    }
-
-    // Insert email (unique constraint will reject duplicates)
-    const { error } = await supabase.from('emails').insert({
-      gmail_message_id: msg.id,
-      email_account_id: accountId,
-      sender_email: senderEmail,
-      sender_name: senderName,
-      subject: subjectHeader || '(No Subject)',
-      snippet: msg.snippet || '',
-      received_at: receivedAt,
-      is_unread: labels.includes('UNREAD'),
-      thread_id: msg.threadId,
-      labels,
-    });
-
-    if (!error) {
-      addedCount++;
-      affectedSenders.add(`${senderEmail}|||${senderName}`);
-    } else if (error.code === '23505') {
-      // Duplicate email already in DB - still track sender for stats recalculation.
-      // This fixes orphaned emails from previous timed-out syncs where the email
-      // was inserted but the sender row was never created.
-      affectedSenders.add(`${senderEmail}|||${senderName}`);
-    }
-  }
-
-  return { addedCount, sendersWithUnsubscribe };
-}
-
-/**
- * Recovery Sync: Thorough sync when incremental sync fails completeness check
- *
- * This is automatically triggered when emails are missing after incremental sync.
- * It fetches ALL recent emails (not just since last sync) to catch anything missed.
- * User never needs to trigger this manually.
- */
-async function performRecoverySync(
-  accessToken: string,
-  accountId: string,
-  userEmail: string,
-  affectedSenders: Set<string>
-): Promise<{ addedCount: number; sendersWithUnsubscribe: Map<string, { unsubscribeLink: string | null; mailtoLink: string | null; hasOneClick: boolean; receivedAt: string; isNewsletter: boolean; isPromotional: boolean }> }> {
-  // Fetch a large number of recent emails to ensure completeness
-  const RECOVERY_FETCH_COUNT = 500;
-  const query = '-in:sent -in:drafts -in:trash -in:spam';
-
-  const messageRefs: Array<{ id: string; threadId: string }> = [];
-  let pageToken: string | undefined;
-
-  while (messageRefs.length < RECOVERY_FETCH_COUNT) {
-    const response = await listMessages(accessToken, {
-      maxResults: 100,
-      pageToken,
-      q: query,
-    });
-
-    if (!response.messages || response.messages.length === 0) break;
-    messageRefs.push(...response.messages);
-
-    if (!response.nextPageToken) break;
-    pageToken = response.nextPageToken;
-  }
-
-  // Find which messages are missing from our DB
-  const gmailIds = messageRefs.map(m => m.id);
-  const existingIds = new Set<string>();
-
-  for (let i = 0; i < gmailIds.length; i += 500) {
-    const batch = gmailIds.slice(i, i + 500);
-    const { data: existingEmails } = await supabase
-      .from('emails')
-      .select('gmail_message_id')
-      .eq('email_account_id', accountId)
-      .in('gmail_message_id', batch);
-
-    (existingEmails || []).forEach(e => existingIds.add(e.gmail_message_id));
-  }
-
-  const missingIds = gmailIds.filter(id => !existingIds.has(id));
-
-  if (missingIds.length === 0) {
-    return { addedCount: 0, sendersWithUnsubscribe: new Map() };
-  }
-
-  // Fetch and add all missing emails
-
-  const result = await processNewMessages(
-    accessToken, accountId, userEmail, missingIds, affectedSenders
-  );
-
-  return { addedCount: result.addedCount, sendersWithUnsubscribe: result.sendersWithUnsubscribe };
-}
-
-/**
- * Process deleted messages (from History API)
- */
-async function processDeletedMessages(
-  accountId: string,
-  deletedMessageIds: string[],
-  affectedSenders: Set<string>
-): Promise<{ deletedCount: number }> {
-  let deletedCount = 0;
-
-  // Find which deleted messages exist in our DB
-  for (let i = 0; i < deletedMessageIds.length; i += 500) {
-    const batch = deletedMessageIds.slice(i, i + 500);
-
-    const { data: emailsToDelete } = await supabase
-      .from('emails')
-      .select('id, gmail_message_id, sender_email, sender_name')
-      .eq('email_account_id', accountId)
-      .in('gmail_message_id', batch);
-
-    if (emailsToDelete && emailsToDelete.length > 0) {
-      // Track affected senders before deletion
-      for (const e of emailsToDelete) {
-        affectedSenders.add(`${e.sender_email}|||${e.sender_name}`);
-      }
-
-      // Delete the emails
-      const idsToDelete = emailsToDelete.map(e => e.id);
-      await supabase.from('emails').delete().in('id', idsToDelete);
-      deletedCount += emailsToDelete.length;
-    }
-  }
-
-  return { deletedCount };
-}
-
-/**
- * Post-sync completeness verification with enforcement
- *
- * GUARANTEES:
-/**
- * Fix orphaned/stale senders: emails exist in DB but sender row is missing, has wrong count,
- * or has a stale last_email_date. Only checks the 200 most recent emails — lightweight.
- */
-async function fixOrphanedSenders(
-  userId: string,
-  accountId: string
-): Promise<number> {
-  // Get senders from the 200 most recent emails with dates
-  const { data: recentEmails } = await supabase
-    .from('emails')
-    .select('sender_email, sender_name, received_at')
-    .eq('email_account_id', accountId)
-    .order('received_at', { ascending: false })
-    .limit(200);
-
-  if (!recentEmails || recentEmails.length === 0) return 0;
-
-  // Track per-sender: count and newest email date from DB
-  const senderInfo = new Map<string, { email: string; name: string; count: number; newestDate: string }>();
-  for (const e of recentEmails) {
-    const key = `${e.sender_email}|||${e.sender_name}`;
-    const existing = senderInfo.get(key);
-    if (existing) {
-      existing.count++;
-      if (e.received_at > existing.newestDate) existing.newestDate = e.received_at;
-    } else {
-      senderInfo.set(key, { email: e.sender_email, name: e.sender_name, count: 1, newestDate: e.received_at });
-    }
-  }
-
-  // Check which of these senders have email_senders rows, their counts, and last dates
-  const senderEmails = [...new Set(recentEmails.map(e => e.sender_email))];
-  const { data: existingSenders } = await supabase
-    .from('email_senders')
-    .select('sender_email, sender_name, email_count, last_email_date')
-    .eq('email_account_id', accountId)
-    .in('sender_email', senderEmails);
-
-  const existingMap = new Map(
-    (existingSenders || []).map(s => [
-      `${s.sender_email}|||${s.sender_name}`,
-      { count: s.email_count, lastDate: s.last_email_date }
-    ])
-  );
-
-  // Recalculate stats for senders that are:
-  // 1. Missing from email_senders
-  // 2. Have count = 0 despite having emails
-  // 3. Have a stale last_email_date (newer emails exist in DB)
-  // 4. Have no last_email_date at all
-  let fixedCount = 0;
-  for (const [key, info] of senderInfo) {
-    const existing = existingMap.get(key);
-    let needsFix = false;
-
-    if (!existing || existing.count === 0 || !existing.lastDate) {
-      needsFix = true;
-    } else if (info.newestDate) {
-      // Use Date objects for comparison — string comparison fails when
-      // Supabase returns different timestamp formats (.000Z vs +00:00)
-      const newestTime = new Date(info.newestDate).getTime();
-      const lastTime = new Date(existing.lastDate).getTime();
-      if (newestTime > lastTime) {
-        needsFix = true;
-      }
-    }
-
-    if (needsFix) {
-      await recalculateSenderStats(userId, accountId, info.email, info.name);
-      fixedCount++;
-    }
-  }
-
-  return fixedCount;
-}
-
-/**
- * Post-sync completeness verification with enforcement
- *
- * GUARANTEES:
- * - Asks Gmail: "What are your newest emails?"
- * - Verifies: "Do we have all of them locally?"
- * - If any are missing, attempts to add them
- * - Re-verifies after adding to confirm success
- * - Returns complete: false if verification fails (triggers recovery)
- *
- * The verification is DATA-DRIVEN (Gmail's actual state), not COUNT-DRIVEN.
- * The fetch count is an implementation detail; the guarantee is completeness.
- *
- * This function MUST NOT return complete: true if any Gmail emails are missing
- */
-async function verifyCompletenessAndSync(
-  accessToken: string,
-  accountId: string,
-  userEmail: string,
-  affectedSenders: Set<string>
-): Promise<{ addedCount: number; complete: boolean; missingCount: number; sendersWithUnsubscribe: Map<string, { unsubscribeLink: string | null; mailtoLink: string | null; hasOneClick: boolean; receivedAt: string; isNewsletter: boolean; isPromotional: boolean }> }> {
-  // Ask Gmail for its newest emails, then verify we have ALL of them
-  // The count (50) is implementation detail; the guarantee is: Gmail's emails = our emails
-  const response = await listMessages(accessToken, {
-    maxResults: 50,
-    q: '-in:sent -in:drafts -in:trash -in:spam',
-  });
-
-  if (!response.messages || response.messages.length === 0) {
-    return { addedCount: 0, complete: true, missingCount: 0, sendersWithUnsubscribe: new Map() };
-  }
-
-  const gmailIds = response.messages.map(m => m.id);
-
-  // Check if these exist in our DB
-  const { data: existingEmails } = await supabase
-    .from('emails')
-    .select('gmail_message_id')
-    .eq('email_account_id', accountId)
-    .in('gmail_message_id', gmailIds);
-
-  const existingIds = new Set((existingEmails || []).map(e => e.gmail_message_id));
-  let missingIds = gmailIds.filter(id => !existingIds.has(id));
-
-  if (missingIds.length === 0) {
-    return { addedCount: 0, complete: true, missingCount: 0, sendersWithUnsubscribe: new Map() };
-  }
-
-  // Attempt to add the missing emails
-  const result = await processNewMessages(
-    accessToken, accountId, userEmail, missingIds, affectedSenders
-  );
-
-  // RE-VERIFY: Check again to confirm all missing emails were actually added
-  const { data: recheck } = await supabase
-    .from('emails')
-    .select('gmail_message_id')
-    .eq('email_account_id', accountId)
-    .in('gmail_message_id', missingIds);
-
-  const recheckIds = new Set((recheck || []).map(e => e.gmail_message_id));
-  const stillMissing = missingIds.filter(id => !recheckIds.has(id));
-
-  if (stillMissing.length > 0) {
-    console.error(`Completeness check FAILED: ${stillMissing.length} emails still missing after attempted add`);
-    return { addedCount: result.addedCount, complete: false, missingCount: stillMissing.length, sendersWithUnsubscribe: result.sendersWithUnsubscribe };
-  }
-
-  return { addedCount: result.addedCount, complete: true, missingCount: 0, sendersWithUnsubscribe: result.sendersWithUnsubscribe };
-}
-
-/**
- * Rebuild all senders from the emails table for an account.
- * Used after upgrade sync to ensure accurate sender counts.
- * Reads all emails in paginated chunks, aggregates stats in-memory,
- * then batch-inserts new sender rows.
- */
-async function rebuildSendersFromEmails(userId: string, accountId: string): Promise<void> {
-  // Read all emails for this account (paginated for Supabase 1000-row limit)
-  const senderStats = new Map<string, {
-    sender_email: string;
-    sender_name: string;
-    email_count: number;
-    unread_count: number;
-    first_email_date: string;
-    last_email_date: string;
-    labels_seen: string[];
-  }>();
-
-  let page = 0;
-  while (true) {
-    const { data, error } = await supabase
-      .from('emails')
-      .select('sender_email, sender_name, received_at, is_unread, labels')
-      .eq('email_account_id', accountId)
-      .order('id')
-      .range(page * 1000, (page + 1) * 1000 - 1);
-    if (error || !data || data.length === 0) break;
-
-    for (const email of data) {
-      const key = `${email.sender_email}|||${email.sender_name}`;
-      const existing = senderStats.get(key);
-      if (existing) {
-        existing.email_count++;
-        if (email.is_unread) existing.unread_count++;
-        if (email.received_at < existing.first_email_date) existing.first_email_date = email.received_at;
-        if (email.received_at > existing.last_email_date) existing.last_email_date = email.received_at;
-        if (email.labels) existing.labels_seen.push(...email.labels);
-      } else {
-        senderStats.set(key, {
-          sender_email: email.sender_email,
-          sender_name: email.sender_name,
-          email_count: 1,
-          unread_count: email.is_unread ? 1 : 0,
-          first_email_date: email.received_at,
-          last_email_date: email.received_at,
-          labels_seen: email.labels || [],
-        });
-      }
-    }
-
-    if (data.length < 1000) break;
-    page++;
-  }
-
-  // Build sender rows
-  const sendersToInsert = Array.from(senderStats.values()).map(s => ({
-    user_id: userId,
-    email_account_id: accountId,
-    sender_email: s.sender_email,
-    sender_name: s.sender_name,
-    email_count: s.email_count,
-    unread_count: s.unread_count,
-    first_email_date: s.first_email_date,
-    last_email_date: s.last_email_date,
-    has_unsubscribe: false,
-    has_one_click_unsubscribe: false,
-    is_newsletter: s.labels_seen.includes('CATEGORY_UPDATES'),
-    is_promotional: s.labels_seen.includes('CATEGORY_PROMOTIONS'),
-    updated_at: new Date().toISOString(),
-  }));
-
-  // Delete old senders right before inserting new ones to minimize the empty window
-  await supabase.from('email_senders').delete().eq('email_account_id', accountId);
-
-  // Insert in batches
-  for (let i = 0; i < sendersToInsert.length; i += BATCH_SIZE) {
-    const batch = sendersToInsert.slice(i, i + BATCH_SIZE);
-    const { error } = await supabase.from('email_senders').insert(batch);
-    if (error) console.error('Rebuild sender insert error:', error.message);
-  }
-}
-
-/**
- * Batch recalculate sender stats for multiple senders at once.
- *
- * Instead of 3 sequential DB queries per sender (N senders = 3N queries),
- * this does it in ~3 total queries:
- * 1. Fetch all emails for affected senders (paginated for Supabase 1000-row limit)
- * 2. Aggregate stats in-memory
- * 3. Fetch existing sender rows to determine insert vs update
- * 4. Batch insert/update/delete
- *
- * This prevents Vercel Hobby 10s timeout when 20+ senders are affected.
- */
-async function batchRecalculateSenderStats(
-  userId: string,
-  accountId: string,
-  affectedSenderKeys: Set<string>
-): Promise<void> {
-  if (affectedSenderKeys.size === 0) return;
-
-  // Extract unique sender emails for DB filtering
-  const affectedEmails = [...new Set([...affectedSenderKeys].map(k => k.split('|||')[0]))];
-
-  // 1. Fetch all emails for affected senders (paginated to handle Supabase 1000-row limit)
-  const allEmails: Array<{ sender_email: string; sender_name: string; received_at: string; is_unread: boolean }> = [];
-  let page = 0;
-  while (true) {
-    const { data } = await supabase
-      .from('emails')
-      .select('sender_email, sender_name, received_at, is_unread')
-      .eq('email_account_id', accountId)
-      .in('sender_email', affectedEmails)
-      .range(page * 1000, (page + 1) * 1000 - 1);
-    if (!data || data.length === 0) break;
-    allEmails.push(...data);
-    if (data.length < 1000) break;
-    page++;
-  }
-
-  // 2. Aggregate stats per sender key (only for affected senders)
-  const statsMap = new Map<string, {
-    email_count: number;
-    unread_count: number;
-    first_email_date: string;
-    last_email_date: string;
-  }>();
-
-  for (const email of allEmails) {
-    const key = `${email.sender_email}|||${email.sender_name}`;
-    if (!affectedSenderKeys.has(key)) continue;
-    const existing = statsMap.get(key);
-    if (existing) {
-      existing.email_count++;
-      if (email.is_unread) existing.unread_count++;
-      if (email.received_at < existing.first_email_date) existing.first_email_date = email.received_at;
-      if (email.received_at > existing.last_email_date) existing.last_email_date = email.received_at;
-    } else {
-      statsMap.set(key, {
-        email_count: 1,
-        unread_count: email.is_unread ? 1 : 0,
-        first_email_date: email.received_at,
-        last_email_date: email.received_at,
-      });
-    }
-  }
-
-  // 3. Fetch existing sender rows for affected senders
-  const existingSenders: Array<{ id: string; sender_email: string; sender_name: string }> = [];
-  for (let i = 0; i < affectedEmails.length; i += 100) {
-    const batch = affectedEmails.slice(i, i + 100);
-    const { data } = await supabase
-      .from('email_senders')
-      .select('id, sender_email, sender_name')
-      .eq('email_account_id', accountId)
-      .in('sender_email', batch);
-    if (data) existingSenders.push(...data);
-  }
-
-  const existingMap = new Map<string, string>();
-  for (const s of existingSenders) {
-    existingMap.set(`${s.sender_email}|||${s.sender_name}`, s.id);
-  }
-
-  // 4. Categorize into insert/update/delete
-  const toInsert: any[] = [];
-  const toUpdate: Array<{ id: string; data: any }> = [];
-  const toDeleteIds: string[] = [];
-  const now = new Date().toISOString();
-
-  for (const key of affectedSenderKeys) {
-    const [senderEmail, senderName] = key.split('|||');
-    const stats = statsMap.get(key);
-    const existingId = existingMap.get(key);
-
-    if (!stats) {
-      // No emails left for this sender - delete if row exists
-      if (existingId) toDeleteIds.push(existingId);
-    } else if (existingId) {
-      // Update existing sender row
-      toUpdate.push({
-        id: existingId,
-        data: {
-          email_count: stats.email_count,
-          unread_count: stats.unread_count,
-          first_email_date: stats.first_email_date,
-          last_email_date: stats.last_email_date,
-          updated_at: now,
-        }
-      });
-    } else {
-      // Insert new sender row
-      toInsert.push({
-        user_id: userId,
-        email_account_id: accountId,
-        sender_email: senderEmail,
-        sender_name: senderName,
-        email_count: stats.email_count,
-        unread_count: stats.unread_count,
-        first_email_date: stats.first_email_date,
-        last_email_date: stats.last_email_date,
-        has_unsubscribe: false,
-        is_newsletter: false,
-        is_promotional: false,
-        updated_at: now,
-      });
-    }
-  }
-
-  // 5. Execute batch operations
-  // Insert new senders in batches
-  for (let i = 0; i < toInsert.length; i += BATCH_SIZE) {
-    const batch = toInsert.slice(i, i + BATCH_SIZE);
-    const { error } = await supabase.from('email_senders').insert(batch);
-    if (error) console.error('Batch sender insert error:', error.message);
-  }
-
-  // Update existing senders concurrently (10 at a time)
-  for (let i = 0; i < toUpdate.length; i += 10) {
-    const batch = toUpdate.slice(i, i + 10);
-    await Promise.all(batch.map(({ id, data }) =>
-      supabase.from('email_senders').update(data).eq('id', id)
-    ));
-  }
-
-  // Delete senders with no remaining emails
-  if (toDeleteIds.length > 0) {
-    await supabase.from('email_senders').delete().in('id', toDeleteIds);
-  }
-
-}
-
-/**
- * Recalculate sender stats from actual email data
- */
-async function recalculateSenderStats(
-  userId: string,
-  accountId: string,
-  senderEmail: string,
-  senderName: string
-) {
-  // Get all emails for this sender
-  const { data: emails } = await supabase
-    .from('emails')
-    .select('received_at, is_unread')
-    .eq('email_account_id', accountId)
-    .eq('sender_email', senderEmail)
-    .eq('sender_name', senderName)
-    .order('received_at', { ascending: false });
-
-  if (!emails || emails.length === 0) {
-    // No emails left - delete sender
-    await supabase
-      .from('email_senders')
-      .delete()
-      .eq('email_account_id', accountId)
-      .eq('sender_email', senderEmail)
-      .eq('sender_name', senderName);
-    return;
-  }
-
-  const emailCount = emails.length;
-  const unreadCount = emails.filter(e => e.is_unread).length;
-  const lastEmailDate = emails[0].received_at;
-  const firstEmailDate = emails[emails.length - 1].received_at;
-
-  // Check if sender exists
-  const { data: existingSender } = await supabase
-    .from('email_senders')
-    .select('id')
-    .eq('email_account_id', accountId)
-    .eq('sender_email', senderEmail)
-    .eq('sender_name', senderName)
-    .single();
-
-  if (existingSender) {
-    // Update existing sender
-    await supabase
-      .from('email_senders')
-      .update({
-        email_count: emailCount,
-        unread_count: unreadCount,
-        first_email_date: firstEmailDate,
-        last_email_date: lastEmailDate,
-        updated_at: new Date().toISOString()
-      })
-      .eq('id', existingSender.id);
-  } else {
-    // Create new sender
-    await supabase.from('email_senders').insert({
-      user_id: userId,
-      email_account_id: accountId,
-      sender_email: senderEmail,
-      sender_name: senderName,
-      email_count: emailCount,
-      unread_count: unreadCount,
-      first_email_date: firstEmailDate,
-      last_email_date: lastEmailDate,
-      has_unsubscribe: false,
-      is_newsletter: false,
-      is_promotional: false,
-      updated_at: new Date().toISOString()
-    });
-  }
-}
-
-/**
- * Parse sender email and name from From header
- */
-export function parseSender(fromHeader: string): { senderEmail: string; senderName: string } {
-  if (!fromHeader) return { senderEmail: '', senderName: '' };
-
-  // Handle formats like:
-  // "John Doe <john@example.com>"
-  // John Doe <john@example.com>
-  // <john@example.com>
-  // john@example.com
-  const emailMatch = fromHeader.match(/<([^>]+)>/) || fromHeader.match(/([^\s<]+@[^\s>]+)/);
-  const senderEmail = emailMatch ? emailMatch[1].toLowerCase() : fromHeader.toLowerCase();
-
-  const nameMatch = fromHeader.match(/^"?([^"<]+)"?\s*</) || fromHeader.match(/^([^<@]+)(?=@)/);
-  const senderName = nameMatch ? nameMatch[1].trim() : senderEmail;
-
-  return { senderEmail, senderName };
-}
-
-/**
- * Extract unsubscribe link from List-Unsubscribe header (prefers HTTP)
- */
-export function extractUnsubscribeLink(header: string): string | null {
-  if (!header) return null;
-
-  // Prefer HTTPS links in angle brackets (RFC 2369 standard)
-  const httpMatch = header.match(/<(https?:\/\/[^>]+)>/);
-  if (httpMatch) return httpMatch[1];
-
-  // Fallback: bare URL without angle brackets (some senders like Chess.com)
-  const httpMatchBare = header.match(/(https?:\/\/\S+)/);
-  if (httpMatchBare) return httpMatchBare[1];
-
-  // Mailto in angle brackets
-  const mailtoMatch = header.match(/<(mailto:[^>]+)>/);
-  if (mailtoMatch) return mailtoMatch[1];
-
-  // Fallback: bare mailto
-  const mailtoBare = header.match(/(mailto:\S+)/);
-  if (mailtoBare) return mailtoBare[1];
-
-  return null;
-}
-
-/**
- * Extract mailto unsubscribe link from List-Unsubscribe header (always extracts mailto if present)
- */
-export function extractMailtoUnsubscribeLink(header: string): string | null {
-  if (!header) return null;
-
-  // Mailto in angle brackets (RFC 2369 standard)
-  const mailtoMatch = header.match(/<(mailto:[^>]+)>/);
-  if (mailtoMatch) return mailtoMatch[1];
-
-  // Fallback: bare mailto without angle brackets
-  const mailtoBare = header.match(/(mailto:\S+)/);
-  return mailtoBare ? mailtoBare[1] : null;
-}
-
 /**
  * Repair Sync: Rebuild all sender stats from existing emails
  *
@@ -1900,7 +278,7 @@ async function performRepairSync(
   // Get all emails for this account (include labels for newsletter/promotional detection)
   const { data: emails, error: emailsError } = await supabase
     .from('emails')
-    .select('sender_email, sender_name, received_at, is_unread, labels')
+    .select('sender_email, sender_name, received_at, is_unread, size_bytes, labels')
     .eq('email_account_id', accountId);
 
   if (emailsError) {
@@ -1923,6 +301,7 @@ async function performRepairSync(
     sender_name: string;
     email_count: number;
     unread_count: number;
+    total_size_bytes: number;
     first_email_date: string;
     last_email_date: string;
     is_newsletter: boolean;
@@ -1937,6 +316,7 @@ async function performRepairSync(
     if (existing) {
       existing.email_count++;
       if (emailRecord.is_unread) existing.unread_count++;
+      existing.total_size_bytes += emailRecord.size_bytes || 0;
       if (emailRecord.received_at < existing.first_email_date) {
         existing.first_email_date = emailRecord.received_at;
       }
@@ -1952,6 +332,7 @@ async function performRepairSync(
         sender_name: emailRecord.sender_name,
         email_count: 1,
         unread_count: emailRecord.is_unread ? 1 : 0,
+        total_size_bytes: emailRecord.size_bytes || 0,
         first_email_date: emailRecord.received_at,
         last_email_date: emailRecord.received_at,
         is_newsletter: labels.includes('CATEGORY_UPDATES'),
@@ -1979,6 +360,7 @@ async function performRepairSync(
     sender_name: s.sender_name,
     email_count: s.email_count,
     unread_count: s.unread_count,
+    total_size_bytes: s.total_size_bytes,
     first_email_date: s.first_email_date,
     last_email_date: s.last_email_date,
     has_unsubscribe: false, // Will need full sync to get this from headers
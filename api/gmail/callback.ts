@@ -16,6 +16,7 @@ import {
   getGmailProfile,
   storeOAuthTokens
 } from '../lib/gmail.js';
+import { isGmailPushEnabled, registerGmailWatch } from '../lib/gmail-push.js';
 import { PLAN_LIMITS } from '../subscription/get.js';
 
 const supabase = createClient(
@@ -171,6 +172,15 @@ export default async function handler(
       console.error('Failed to update email account:', updateError);
     }
 
+    // Start push notifications - the worker retries the watch if this fails
+    if (isGmailPushEnabled()) {
+      try {
+        await registerGmailWatch(emailAccountId, tokens.access_token);
+      } catch (watchError: any) {
+        console.warn('Failed to register Gmail watch:', watchError.message);
+      }
+    }
+
     // Log to activity_log for Recent Activity display
     await supabase
       .from('activity_log')
@@ -5,6 +5,11 @@
  *
  * Initiates Gmail OAuth flow by returning the Google authorization URL.
  * Requires authenticated user.
+ *
+ * Query params:
+ * - permanentDelete: "true" to also request the full mail scope, which
+ *   permanent delete and emptying the trash need. Used to reconnect an
+ *   existing account.
  */
 
 import type { VercelRequest, VercelResponse } from '@vercel/node';
@@ -35,7 +40,7 @@ export default async function handler(
     const state = generateOAuthState(user.userId);
 
     // Get Gmail OAuth URL
-    const authUrl = getGmailAuthUrl(state);
+    const authUrl = getGmailAuthUrl(state, { permanentDelete: req.query.permanentDelete === 'true' });
 
     return res.status(200).json({
       authUrl,
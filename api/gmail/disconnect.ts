@@ -3,7 +3,8 @@
  *
  * POST /api/gmail/disconnect
  *
- * Revokes Gmail OAuth tokens and disconnects the email account.
+ * Stops push notifications for the mailbox, revokes Gmail OAuth tokens and
+ * disconnects the email account.
  * Requires authenticated user.
  */
 
@@ -13,6 +14,7 @@ import { requireEmailVerification, AuthenticatedRequest } from '../lib/auth-midd
 import { rateLimit, RateLimitPresets } from '../lib/rate-limiter.js';
 
 import { deleteOAuthTokens } from '../lib/gmail.js';
+import { stopGmailWatch } from '../lib/gmail-push.js';
 
 const supabase = createClient(
   process.env.VITE_SUPABASE_URL!,
@@ -62,6 +64,9 @@ export default async function handler(
       });
     }
 
+    // Stop Pub/Sub pushes while the token still works
+    await stopGmailWatch(user.userId, account.gmail_email || email);
+
     // Delete OAuth tokens (this also revokes with Google)
     await deleteOAuthTokens(user.userId, account.gmail_email || email);
 
@@ -71,6 +76,7 @@ export default async function handler(
       .update({
         connection_status: 'disconnected',
         oauth_token_id: null,
+        gmail_watch_expiration: null,
         updated_at: new Date().toISOString()
       })
       .eq('id', account.id);
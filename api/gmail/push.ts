@@ -0,0 +1,60 @@
+/**
+ * Gmail Push Notification Webhook
+ *
+ * POST /api/gmail/push?token=<GMAIL_PUSH_VERIFICATION_TOKEN>
+ *
+ * Receives Cloud Pub/Sub push messages for watched Gmail mailboxes
+ * ({ emailAddress, historyId }) and queues an incremental sync for the
+ * matching account. See lib/gmail-push.ts.
+ *
+ * Pub/Sub retries anything that isn't a 2xx, so malformed or unknown
+ * notifications are acknowledged rather than rejected.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import {
+  verifyPushToken,
+  parsePushMessage,
+  enqueueSyncFromPush,
+  PubSubPushBody
+} from '../lib/gmail-push.js';
+import { withSentry } from '../lib/sentry.js';
+
+async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!verifyPushToken(req.query.token)) {
+    return res.status(401).json({
+      error: 'Invalid push token',
+      code: 'INVALID_PUSH_TOKEN'
+    });
+  }
+
+  const notification = parsePushMessage(req.body as PubSubPushBody);
+  if (!notification) {
+    console.warn('Ignoring malformed Gmail push message:', (req.body as PubSubPushBody)?.message?.messageId);
+    return res.status(204).end();
+  }
+
+  try {
+    const queued = await enqueueSyncFromPush(notification);
+    if (queued > 0) {
+      console.log(`📬 Gmail push: queued sync for ${notification.emailAddress} (history ${notification.historyId})`);
+    }
+    return res.status(204).end();
+  } catch (error: any) {
+    // Non-2xx so Pub/Sub redelivers once the database is reachable again
+    console.error('Gmail push error:', error);
+    return res.status(500).json({
+      error: 'Failed to process push notification',
+      code: 'PUSH_ERROR'
+    });
+  }
+}
+
+export default withSentry(handler);
@@ -0,0 +1,203 @@
+/**
+ * IMAP Connect Endpoint (Yahoo, iCloud)
+ *
+ * POST /api/imap/connect
+ *
+ * Body: { email, provider: 'Yahoo' | 'iCloud', appPassword }
+ *
+ * Verifies the app-specific password against the provider's IMAP server,
+ * stores the encrypted credentials, and creates/updates the email account.
+ * Requires authenticated user.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { requireEmailVerification, AuthenticatedRequest } from '../lib/auth-middleware.js';
+import { rateLimit, RateLimitPresets } from '../lib/rate-limiter.js';
+import { IMAP_PROVIDERS, ImapCredentials, isImapProvider, storeImapCredentials } from '../lib/imap.js';
+import { verifyImapLogin } from '../lib/imap-api.js';
+import { PLAN_LIMITS } from '../subscription/get.js';
+
+const supabase = createClient(
+  process.env.VITE_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+// Strict: each attempt is a login against the provider, which locks out on repeated failures
+const limiter = rateLimit(RateLimitPresets.STRICT);
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (await limiter(req, res)) return;
+
+  const user = requireEmailVerification(req as AuthenticatedRequest, res);
+  if (!user) return;
+
+  const { provider, appPassword } = req.body || {};
+  const email = typeof req.body?.email === 'string' ? req.body.email.trim().toLowerCase() : '';
+
+  if (!email || !EMAIL_PATTERN.test(email)) {
+    return res.status(400).json({
+      error: 'A valid email address is required',
+      code: 'MISSING_EMAIL'
+    });
+  }
+
+  if (!isImapProvider(provider)) {
+    return res.status(400).json({
+      error: 'Provider must be Yahoo or iCloud',
+      code: 'INVALID_PROVIDER'
+    });
+  }
+
+  if (!appPassword || typeof appPassword !== 'string') {
+    return res.status(400).json({
+      error: 'App password is required',
+      code: 'MISSING_APP_PASSWORD'
+    });
+  }
+
+  // App passwords are shown with spaces/dashes for readability - the server wants them stripped
+  const credentials: ImapCredentials = {
+    ...IMAP_PROVIDERS[provider],
+    user: email,
+    pass: appPassword.replace(/[\s-]/g, ''),
+  };
+
+  try {
+    try {
+      await verifyImapLogin(credentials);
+    } catch (loginError: any) {
+      if (loginError.message?.includes('IMAP account not connected')) {
+        return res.status(400).json({
+          error: `${provider} rejected the login. Check the email address and app password.`,
+          code: 'INVALID_CREDENTIALS'
+        });
+      }
+      throw loginError;
+    }
+
+    // Check if this mailbox is already connected to another user
+    const { data: existingCredentials } = await supabase
+      .from('imap_credentials')
+      .select('user_id')
+      .eq('imap_email', email)
+      .neq('user_id', user.userId)
+      .single();
+
+    if (existingCredentials) {
+      return res.status(409).json({
+        error: 'This email account is already connected to another user',
+        code: 'EMAIL_ALREADY_CONNECTED'
+      });
+    }
+
+    // Create or update email account
+    const { data: existingAccount } = await supabase
+      .from('email_accounts')
+      .select('id')
+      .eq('user_id', user.userId)
+      .eq('email', email)
+      .single();
+
+    if (!existingAccount) {
+      // Check plan limits before creating a new account
+      const { count: accountCount } = await supabase
+        .from('email_accounts')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', user.userId);
+
+      const { data: subData } = await supabase
+        .from('subscriptions')
+        .select('plan, status')
+        .eq('user_id', user.userId)
+        .single();
+
+      const isActiveSub = subData && ['active', 'past_due'].includes(subData.status);
+      const planKey = (isActiveSub ? subData.plan?.toLowerCase() : 'free') as keyof typeof PLAN_LIMITS;
+      const limit = (PLAN_LIMITS[planKey] || PLAN_LIMITS.free).emailLimit;
+
+      if ((accountCount || 0) >= limit) {
+        return res.status(403).json({
+          error: 'Email account limit reached for your plan',
+          code: 'ACCOUNT_LIMIT_REACHED'
+        });
+      }
+    }
+
+    let emailAccountId: string;
+
+    if (existingAccount) {
+      await supabase
+        .from('email_accounts')
+        .update({
+          provider,
+          connection_status: 'connected',
+          last_synced: null,
+          imap_uid_validity: null,
+          imap_last_uid: null,
+          imap_highest_modseq: null,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', existingAccount.id);
+
+      emailAccountId = existingAccount.id;
+    } else {
+      const { data: newAccount, error: insertError } = await supabase
+        .from('email_accounts')
+        .insert({
+          user_id: user.userId,
+          email,
+          provider,
+          connection_status: 'connected',
+          last_synced: null,
+          total_emails: 0,
+          processed_emails: 0,
+          unsubscribed: 0
+        })
+        .select('id')
+        .single();
+
+      if (insertError) {
+        throw new Error(`Failed to create email account: ${insertError.message}`);
+      }
+
+      emailAccountId = newAccount.id;
+    }
+
+    // Store encrypted credentials
+    await storeImapCredentials(user.userId, emailAccountId, email, credentials);
+
+    // Log to activity_log
+    await supabase
+      .from('activity_log')
+      .insert({
+        user_id: user.userId,
+        action_type: 'account_connect',
+        description: `Connected ${provider} account ${email}`,
+        metadata: { email, provider }
+      });
+
+    return res.status(200).json({
+      success: true,
+      email,
+      provider,
+      message: `${provider} account connected successfully`
+    });
+
+  } catch (error: any) {
+    console.error('IMAP connect error:', error);
+    return res.status(500).json({
+      error: 'Failed to connect email account',
+      code: 'CONNECT_ERROR'
+    });
+  }
+}
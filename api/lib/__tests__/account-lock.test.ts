@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+// In-memory email_accounts table behind a minimal Supabase query builder -
+// just the filters account-lock.ts uses (eq, or with is.null/lt, limit)
+const { accounts, from } = vi.hoisted(() => {
+  const accounts: Record<string, any>[] = [];
+
+  const from = vi.fn(() => {
+    let values: Record<string, any> | null = null;
+    const filters: ((row: Record<string, any>) => boolean)[] = [];
+
+    const run = () => {
+      const rows = accounts.filter(row => filters.every(f => f(row)));
+      if (values) rows.forEach(row => Object.assign(row, values));
+      return Promise.resolve({ data: rows.map(row => ({ ...row })), error: null });
+    };
+
+    const builder: any = {
+      update: (v: Record<string, any>) => { values = v; return builder; },
+      select: () => (values ? run() : builder),
+      eq: (column: string, value: any) => { filters.push(row => row[column] === value); return builder; },
+      or: (expression: string) => {
+        const conditions = expression.split(',').map(part => {
+          const [column, op, ...rest] = part.split('.');
+          const value = rest.join('.');
+          return (row: Record<string, any>) => op === 'is'
+            ? row[column] === null
+            : row[column] !== null && new Date(row[column]).getTime() < new Date(value).getTime();
+        });
+        filters.push(row => conditions.some(c => c(row)));
+        return builder;
+      },
+      limit: () => run(),
+      then: (resolve: any, reject: any) => run().then(resolve, reject),
+    };
+    return builder;
+  });
+
+  return { accounts, from };
+});
+
+vi.mock('@supabase/supabase-js', () => ({
+  createClient: vi.fn(() => ({ from })),
+}));
+vi.mock('../sync-jobs.js', () => ({ getActiveSyncJob: vi.fn() }));
+vi.mock('../progress.js', () => ({
+  getAccountSyncProgressEvent: vi.fn(),
+  getRunningOperationProgressEvent: vi.fn(),
+}));
+
+import { acquireAccountLock, releaseAccountLock, getAccountLockHolder } from '../account-lock.js';
+
+const NOW = new Date('2025-03-05T12:00:00.000Z');
+
+describe('account lock', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    accounts.length = 0;
+    accounts.push({ id: 'acc-1', sync_locked_until: null, sync_lock_token: null, sync_lock_operation: null });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('acquires a free account and refuses a second holder', async () => {
+    const lock = await acquireAccountLock('acc-1', 'delete');
+    expect(lock).not.toBeNull();
+    expect(accounts[0].sync_lock_token).toBe(lock!.token);
+    expect(accounts[0].sync_lock_operation).toBe('delete');
+    expect(await getAccountLockHolder('acc-1')).toEqual({ operation: 'delete', lockedUntil: '2025-03-05T12:02:00.000Z' });
+
+    expect(await acquireAccountLock('acc-1', 'sync')).toBeNull();
+
+    await releaseAccountLock(lock);
+    expect(accounts[0].sync_locked_until).toBeNull();
+    expect(await getAccountLockHolder('acc-1')).toEqual({ operation: null, lockedUntil: null });
+  });
+
+  it('renews the lease while the holder works', async () => {
+    const lock = await acquireAccountLock('acc-1', 'cleanup_job');
+
+    // Well past the original 2-minute lease
+    await vi.advanceTimersByTimeAsync(5 * 60 * 1000);
+    expect(new Date(accounts[0].sync_locked_until).getTime()).toBeGreaterThan(Date.now());
+    expect(await acquireAccountLock('acc-1', 'sync')).toBeNull();
+
+    await releaseAccountLock(lock);
+  });
+
+  it('reclaims a lapsed lease without letting the old holder clear the new one', async () => {
+    const stale = await acquireAccountLock('acc-1', 'sync');
+    // The holder crashed: its renew timer is gone and the lease runs out
+    clearInterval(stale!.renewTimer!);
+    vi.setSystemTime(new Date(NOW.getTime() + 3 * 60 * 1000));
+
+    const lock = await acquireAccountLock('acc-1', 'delete');
+    expect(lock).not.toBeNull();
+    expect(accounts[0].sync_lock_operation).toBe('delete');
+
+    await releaseAccountLock(stale);
+    expect(accounts[0].sync_lock_token).toBe(lock!.token);
+
+    await releaseAccountLock(lock);
+    expect(accounts[0].sync_lock_token).toBeNull();
+  });
+});
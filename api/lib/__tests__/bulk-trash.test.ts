@@ -0,0 +1,224 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Every Supabase query resolves to { data: null, error: null }; calls are
+// recorded per table so the test can check what was written. idempotency_keys
+// is a small in-memory table so withIdempotency can run for real.
+const { calls, from, idempotencyKeys } = vi.hoisted(() => {
+  const calls: { table: string; method: string; args: any[] }[] = [];
+  const idempotencyKeys: Record<string, any>[] = [];
+
+  const keysTable = () => {
+    let op: 'select' | 'insert' | 'update' | 'delete' = 'select';
+    let values: Record<string, any> = {};
+    const filters: [string, any][] = [];
+
+    const run = () => {
+      if (op === 'insert') {
+        if (idempotencyKeys.some(r => r.user_id === values.user_id && r.idempotency_key === values.idempotency_key)) {
+          return { data: null, error: { code: '23505' } };
+        }
+        const row = { id: `key-${idempotencyKeys.length + 1}`, ...values };
+        idempotencyKeys.push(row);
+        return { data: row, error: null };
+      }
+      const rows = idempotencyKeys.filter(r => filters.every(([column, value]) => r[column] === value));
+      if (op === 'update') rows.forEach(r => Object.assign(r, values));
+      if (op === 'delete') rows.forEach(r => idempotencyKeys.splice(idempotencyKeys.indexOf(r), 1));
+      return { data: rows, error: null };
+    };
+
+    const builder: any = {
+      insert: (v: Record<string, any>) => { op = 'insert'; values = v; return builder; },
+      update: (v: Record<string, any>) => { op = 'update'; values = v; return builder; },
+      delete: () => { op = 'delete'; return builder; },
+      select: () => builder,
+      eq: (column: string, value: any) => { filters.push([column, value]); return builder; },
+      lt: () => builder,
+      limit: () => Promise.resolve(run()),
+      single: () => Promise.resolve(run()),
+      then: (resolve: any, reject: any) => Promise.resolve(run()).then(resolve, reject),
+    };
+    return builder;
+  };
+
+  const from = vi.fn((table: string) => {
+    if (table === 'idempotency_keys') return keysTable();
+    const builder: any = new Proxy({}, {
+      get: (_target, method: string) => {
+        if (method === 'then') {
+          return (resolve: any) => resolve({ data: null, error: null });
+        }
+        return (...args: any[]) => {
+          calls.push({ table, method, args });
+          return builder;
+        };
+      },
+    });
+    return builder;
+  });
+
+  return { calls, from, idempotencyKeys };
+});
+
+vi.mock('@supabase/supabase-js', () => ({
+  createClient: vi.fn(() => ({ from })),
+}));
+vi.mock('../../providers/index.js', () => ({ getMailProvider: vi.fn() }));
+vi.mock('../free-trial.js', () => ({ checkFreeTrialOrPaid: vi.fn() }));
+vi.mock('../sender-stats.js', () => ({ batchRecalculateSenderStats: vi.fn() }));
+vi.mock('../account-lock.js', () => ({
+  lockAccountOrRespond: vi.fn(async () => ({ accountId: 'acc-1' })),
+  releaseAccountLock: vi.fn(),
+}));
+vi.mock('../auth-middleware.js', () => ({ extractToken: vi.fn(() => ({ userId: 'user-1' })) }));
+vi.mock('../progress.js', () => ({
+  startOperationProgress: vi.fn(async () => null),
+  updateOperationProgress: vi.fn(),
+  finishOperationProgress: vi.fn(),
+}));
+
+import { getMailProvider } from '../../providers/index.js';
+import { checkFreeTrialOrPaid } from '../free-trial.js';
+import { batchRecalculateSenderStats } from '../sender-stats.js';
+import { lockAccountOrRespond, releaseAccountLock } from '../account-lock.js';
+import { withIdempotency } from '../idempotency.js';
+import { trashStoredEmails, MAX_TRASH_PER_REQUEST, StoredEmail } from '../bulk-trash.js';
+
+const user = { userId: 'user-1', email: 'user@example.com' };
+const account = { id: 'acc-1', email: 'user@example.com', provider: 'Outlook', connection_status: 'connected' };
+const options = {
+  operation: 'delete' as const,
+  operationId: undefined,
+  label: 'Emails over 5 MB',
+  description: 'over 5 MB',
+  errorMessage: 'Failed to delete large emails',
+};
+
+function mockResponse() {
+  const res: any = { statusCode: 200 };
+  res.status = vi.fn((status: number) => { res.statusCode = status; return res; });
+  res.json = vi.fn().mockReturnValue(res);
+  res.setHeader = vi.fn();
+  return res;
+}
+
+function email(id: string, sender = 'news@shop.com', size = 100): StoredEmail {
+  return { gmail_message_id: id, sender_email: sender, sender_name: 'Shop', size_bytes: size };
+}
+
+describe('trashStoredEmails', () => {
+  beforeEach(() => {
+    calls.length = 0;
+    vi.mocked(checkFreeTrialOrPaid).mockResolvedValue({ isPaid: true, allowed: true, remaining: -1, isPastDue: false });
+  });
+
+  it('trashes one page and only removes and logs what the provider trashed', async () => {
+    const emails = Array.from({ length: MAX_TRASH_PER_REQUEST + 1 }, (_, i) => email(`m${i}`));
+    const trashMessages = vi.fn(async (ids: string[]) => ({
+      success: ids.slice(1),
+      failed: [ids[0]],
+      movedIds: { m1: 'trash-m1' } as Record<string, string>,
+    }));
+    vi.mocked(getMailProvider).mockResolvedValue({ trashMessages } as any);
+    const res = mockResponse();
+
+    await trashStoredEmails(res, user, account, emails, options);
+
+    expect(trashMessages.mock.calls[0][0]).toHaveLength(MAX_TRASH_PER_REQUEST);
+    const deleted = calls.filter(c => c.table === 'emails' && c.method === 'in').flatMap(c => c.args[1]);
+    expect(deleted).not.toContain('m0');
+    expect(deleted).toHaveLength(MAX_TRASH_PER_REQUEST - 1);
+
+    const action = calls.find(c => c.table === 'cleanup_actions' && c.method === 'insert')!.args[0];
+    expect(action.sender_email).toBe('news@shop.com');
+    expect(action.sender_name).toBe('Emails over 5 MB');
+    expect(action.gmail_message_ids[0]).toBe('trash-m1');
+    expect(action.gmail_message_ids).toHaveLength(MAX_TRASH_PER_REQUEST - 1);
+    expect(batchRecalculateSenderStats).toHaveBeenCalledWith('user-1', 'acc-1', new Set(['news@shop.com|||Shop']));
+
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+      totalDeleted: MAX_TRASH_PER_REQUEST - 1,
+      failedCount: 1,
+      trashedBytes: (MAX_TRASH_PER_REQUEST - 1) * 100,
+      hasMore: true,
+    }));
+    expect(releaseAccountLock).toHaveBeenCalled();
+  });
+
+  it('refuses free users past their trial before touching the mailbox', async () => {
+    vi.mocked(checkFreeTrialOrPaid).mockResolvedValue({ isPaid: false, allowed: false, remaining: 2, isPastDue: false });
+    const trashMessages = vi.fn();
+    vi.mocked(getMailProvider).mockResolvedValue({ trashMessages } as any);
+    const res = mockResponse();
+
+    await trashStoredEmails(res, user, account, [email('a'), email('b'), email('c')], options);
+
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ code: 'FREE_TRIAL_EXCEEDED', freeTrialRemaining: 2 }));
+    expect(trashMessages).not.toHaveBeenCalled();
+  });
+});
+
+describe('trashStoredEmails on a busy account', () => {
+  let trialUsed = 0;
+
+  function respondBusy() {
+    vi.mocked(lockAccountOrRespond).mockImplementationOnce(async (res: any) => {
+      res.status(409).json({ error: 'A sync is already running for this account.', code: 'SYNC_IN_PROGRESS' });
+      return null;
+    });
+  }
+
+  beforeEach(() => {
+    trialUsed = 0;
+    idempotencyKeys.length = 0;
+    // A free user with 5 trial actions
+    vi.mocked(checkFreeTrialOrPaid).mockImplementation(async (_supabase, _userId, _email, count) => {
+      const allowed = trialUsed + count <= 5;
+      if (allowed) trialUsed += count;
+      return { isPaid: false, allowed, remaining: 5 - trialUsed, isPastDue: false };
+    });
+    vi.mocked(getMailProvider).mockResolvedValue({
+      trashMessages: vi.fn(async (ids: string[]) => ({ success: ids, failed: [], movedIds: {} })),
+    } as any);
+  });
+
+  it('leaves trial usage unchanged when the account lock is held (409)', async () => {
+    respondBusy();
+    const res = mockResponse();
+
+    await trashStoredEmails(res, user, account, [email('a'), email('b')], options);
+
+    expect(res.statusCode).toBe(409);
+    expect(trialUsed).toBe(0);
+  });
+
+  it('charges the trial once when a 409 is retried with the same Idempotency-Key', async () => {
+    const handler = withIdempotency(async (_req, res) => trashStoredEmails(res, user, account, [email('a'), email('b')], options));
+    const req: any = {
+      method: 'POST',
+      url: '/api/cleanup/delete-large',
+      headers: { 'idempotency-key': 'key-1' },
+      body: { accountEmail: 'user@example.com', minSizeMb: 5 },
+    };
+
+    respondBusy();
+    const busy = mockResponse();
+    await handler(req, busy);
+    expect(busy.statusCode).toBe(409);
+    expect(trialUsed).toBe(0);
+
+    const retried = mockResponse();
+    await handler(req, retried);
+    expect(retried.statusCode).toBe(200);
+    expect(trialUsed).toBe(2);
+
+    // The stored success is replayed without running (or charging) again
+    const replayed = mockResponse();
+    await handler(req, replayed);
+    expect(replayed.setHeader).toHaveBeenCalledWith('Idempotent-Replayed', 'true');
+    expect(replayed.json).toHaveBeenCalledWith(expect.objectContaining({ totalDeleted: 2 }));
+    expect(trialUsed).toBe(2);
+  });
+});
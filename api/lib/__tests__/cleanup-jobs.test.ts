@@ -0,0 +1,66 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// Mock module-level dependencies before importing cleanup-jobs.ts
+vi.mock('@supabase/supabase-js', () => ({
+  createClient: vi.fn(() => ({ from: vi.fn() })),
+}));
+vi.mock('../../providers/index.js', () => ({ getMailProvider: vi.fn() }));
+vi.mock('../sender-stats.js', () => ({ batchRecalculateSenderStats: vi.fn() }));
+
+import { validateCleanupJobInput, MAX_JOB_SENDERS } from '../cleanup-jobs.js';
+
+describe('validateCleanupJobInput', () => {
+  it('accepts a sender selection of any size up to the job limit', () => {
+    const senderEmails = Array.from({ length: 250 }, (_, i) => `sender${i}@shop.com`);
+    const { input, error } = validateCleanupJobInput({ action: 'archive', senderEmails });
+    expect(error).toBeUndefined();
+    expect(input!.action).toBe('archive');
+    expect(input!.senderEmails).toHaveLength(250);
+    expect(input!.senderNames).toBeNull();
+    expect(input!.filter).toBeNull();
+
+    const tooMany = Array.from({ length: MAX_JOB_SENDERS + 1 }, (_, i) => `s${i}@shop.com`);
+    expect(validateCleanupJobInput({ senderEmails: tooMany }).error).toMatch(/at most/);
+  });
+
+  it('keeps sender names only when they line up with the emails', () => {
+    const matched = validateCleanupJobInput({ senderEmails: ['a@x.com', 'b@x.com'], senderNames: ['A', ''] });
+    expect(matched.input!.senderNames).toEqual(['A', null]);
+
+    const mismatched = validateCleanupJobInput({ senderEmails: ['a@x.com', 'b@x.com'], senderNames: ['A'] });
+    expect(mismatched.input!.senderNames).toBeNull();
+  });
+
+  it('accepts merged senders with or without sender emails', () => {
+    const groups = validateCleanupJobInput({ senderEmails: [], groupIds: ['g1', 'g2', 'g1'] });
+    expect(groups.input!.senderEmails).toEqual([]);
+    expect(groups.input!.groupIds).toEqual(['g1', 'g2']);
+
+    const single = validateCleanupJobInput({ senderEmails: ['a@x.com'], groupId: 'g1' });
+    expect(single.input!.groupIds).toEqual(['g1']);
+
+    expect(validateCleanupJobInput({ groupIds: ['g1'], filter: { promotionalOnly: true } }).error).toBeDefined();
+    expect(validateCleanupJobInput({ groupIds: [] }).error).toBeDefined();
+    expect(validateCleanupJobInput({ groupIds: [42] }).error).toBeDefined();
+  });
+
+  it('normalizes a filter and defaults the action to delete', () => {
+    const { input } = validateCleanupJobInput({ filter: { promotionalOnly: true, minEmailCount: 20 } });
+    expect(input).toEqual({
+      action: 'delete',
+      senderEmails: null,
+      senderNames: null,
+      groupIds: [],
+      filter: { newslettersOnly: false, promotionalOnly: true, minEmailCount: 20 },
+    });
+  });
+
+  it('rejects ambiguous or empty targets', () => {
+    expect(validateCleanupJobInput({}).error).toBeDefined();
+    expect(validateCleanupJobInput({ senderEmails: ['a@x.com'], filter: { promotionalOnly: true } }).error).toBeDefined();
+    expect(validateCleanupJobInput({ senderEmails: [] }).error).toBeDefined();
+    expect(validateCleanupJobInput({ filter: {} }).error).toMatch(/at least one/);
+    expect(validateCleanupJobInput({ filter: { minEmailCount: -1 } }).error).toBeDefined();
+    expect(validateCleanupJobInput({ action: 'mute', senderEmails: ['a@x.com'] }).error).toBeDefined();
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// Mock module-level dependencies before importing cleanup-preview.ts
+vi.mock('@supabase/supabase-js', () => ({
+  createClient: vi.fn(() => ({ from: vi.fn() })),
+}));
+
+import { classifySensitiveEmail, buildCleanupPreview, PreviewEmail } from '../cleanup-preview.js';
+
+function email(id: string, senderEmail: string, subject: string, receivedAt: string, isUnread = false): PreviewEmail {
+  return {
+    gmail_message_id: id,
+    sender_email: senderEmail,
+    sender_name: senderEmail.split('@')[0],
+    subject,
+    received_at: receivedAt,
+    is_unread: isUnread,
+  };
+}
+
+describe('classifySensitiveEmail', () => {
+  it('flags security and sign-in mail', () => {
+    expect(classifySensitiveEmail('Your verification code is 123456', 'no-reply@bank.com')).toBe('security');
+    expect(classifySensitiveEmail('New sign-in from Chrome on Windows', 'accounts@google.com')).toBe('security');
+    expect(classifySensitiveEmail('Weekly digest', 'security@github.com')).toBe('security');
+  });
+
+  it('flags receipts and orders', () => {
+    expect(classifySensitiveEmail('Your receipt from Apple', 'no_reply@email.apple.com')).toBe('receipts');
+    expect(classifySensitiveEmail('Order #1234 has shipped', 'shop@store.com')).toBe('receipts');
+    expect(classifySensitiveEmail('Hello', 'billing@saas.io')).toBe('receipts');
+  });
+
+  it('leaves ordinary newsletters alone', () => {
+    expect(classifySensitiveEmail('50% off everything this weekend', 'deals@store.com')).toBeNull();
+    expect(classifySensitiveEmail(null, 'news@paper.com')).toBeNull();
+  });
+});
+
+describe('buildCleanupPreview', () => {
+  const emails = [
+    email('1', 'deals@store.com', 'Old sale', '2025-01-01T00:00:00Z'),
+    email('2', 'deals@store.com', 'New sale', '2025-03-01T00:00:00Z', true),
+    email('3', 'deals@store.com', 'Your order confirmation', '2025-02-01T00:00:00Z'),
+    email('4', 'news@paper.com', 'Morning briefing', '2025-02-15T00:00:00Z', true),
+  ];
+
+  it('counts emails per sender with newest sample subjects first', () => {
+    const preview = buildCleanupPreview(emails);
+    expect(preview.totalMatches).toBe(4);
+    expect(preview.unreadCount).toBe(2);
+    expect(preview.senderCount).toBe(2);
+    expect(preview.senders[0]).toEqual({
+      senderEmail: 'deals@store.com',
+      senderName: 'deals',
+      count: 3,
+      unreadCount: 1,
+      sampleSubjects: ['New sale', 'Your order confirmation', 'Old sale'],
+    });
+  });
+
+  it('warns about receipts and senders with nothing synced', () => {
+    const preview = buildCleanupPreview(emails, {
+      targets: [{ email: 'deals@store.com', name: null }, { email: 'gone@old.com', name: null }],
+      searchesMailbox: true,
+    });
+    expect(preview.warnings.map(w => w.type)).toEqual(['receipts', 'not_synced']);
+    expect(preview.warnings[0]).toMatchObject({ count: 1, senders: ['deals@store.com'], sampleSubjects: ['Your order confirmation'] });
+    expect(preview.warnings[1].senders).toEqual(['gone@old.com']);
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// Mock module-level dependencies before importing cleanup-schedules.ts
+vi.mock('@supabase/supabase-js', () => ({
+  createClient: vi.fn(() => ({ from: vi.fn() })),
+}));
+vi.mock('../../providers/index.js', () => ({ getMailProvider: vi.fn() }));
+vi.mock('../sender-stats.js', () => ({ batchRecalculateSenderStats: vi.fn() }));
+vi.mock('../free-trial.js', () => ({ isUserPaid: vi.fn() }));
+
+import {
+  parseCron,
+  nextCronRun,
+  validateScheduleInput,
+  describeSchedule,
+  getBusyRetryAt,
+  BUSY_RETRY_MS,
+} from '../cleanup-schedules.js';
+
+// Wednesday
+const NOW = new Date('2025-03-05T12:34:56Z');
+
+describe('parseCron', () => {
+  it('parses lists, ranges, steps and names', () => {
+    const cron = parseCron('*/15 9-17/4 1,15 JAN-MAR mon-fri')!;
+    expect([...cron.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...cron.hours]).toEqual([9, 13, 17]);
+    expect([...cron.daysOfMonth]).toEqual([1, 15]);
+    expect([...cron.months]).toEqual([1, 2, 3]);
+    expect([...cron.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('treats 7 as Sunday and expands macros', () => {
+    expect([...parseCron('0 0 * * 7')!.daysOfWeek]).toEqual([0]);
+    expect(parseCron('@weekly')).toEqual(parseCron('0 0 * * 0'));
+  });
+
+  it('rejects malformed expressions', () => {
+    expect(parseCron('')).toBeNull();
+    expect(parseCron('0 9 * *')).toBeNull();
+    expect(parseCron('60 * * * *')).toBeNull();
+    expect(parseCron('0 9 * * 1-')).toBeNull();
+    expect(parseCron('*/0 * * * *')).toBeNull();
+    expect(parseCron('0 9 * * funday')).toBeNull();
+  });
+});
+
+describe('nextCronRun', () => {
+  it('finds the next Sunday run in UTC', () => {
+    expect(nextCronRun('0 9 * * 0', NOW)!.toISOString()).toBe('2025-03-09T09:00:00.000Z');
+  });
+
+  it('is strictly after the given time', () => {
+    const first = nextCronRun('0 9 * * 0', NOW)!;
+    expect(nextCronRun('0 9 * * 0', first)!.toISOString()).toBe('2025-03-16T09:00:00.000Z');
+  });
+
+  it('evaluates wall-clock time in the schedule time zone (across DST)', () => {
+    // Toronto moves to EDT (UTC-4) on 2025-03-09
+    expect(nextCronRun('0 9 * * 0', NOW, 'America/Toronto')!.toISOString()).toBe('2025-03-09T13:00:00.000Z');
+    expect(nextCronRun('0 9 * * 6', NOW, 'America/Toronto')!.toISOString()).toBe('2025-03-08T14:00:00.000Z');
+  });
+
+  it('lands on local midnight after a 23- or 25-hour day', () => {
+    // Sunday 2025-03-09 is 23 hours long in Toronto, Sunday 2025-11-02 is 25
+    expect(nextCronRun('0 0 * * 1', new Date('2025-03-08T17:00:00.000Z'), 'America/Toronto')!.toISOString())
+      .toBe('2025-03-10T04:00:00.000Z');
+    expect(nextCronRun('0 0 * * 1', new Date('2025-11-01T16:00:00.000Z'), 'America/Toronto')!.toISOString())
+      .toBe('2025-11-03T05:00:00.000Z');
+  });
+
+  it('matches either day field when both are restricted', () => {
+    // The 1st of the month or any Friday, whichever comes first
+    expect(nextCronRun('0 0 1 * 5', NOW)!.toISOString()).toBe('2025-03-07T00:00:00.000Z');
+  });
+
+  it('returns null for dates that never occur', () => {
+    expect(nextCronRun('0 0 31 2 *', NOW)).toBeNull();
+  });
+});
+
+describe('getBusyRetryAt', () => {
+  it('retries a busy run shortly instead of waiting for the next occurrence', () => {
+    expect(getBusyRetryAt('2025-03-09T09:00:00.000Z', NOW)).toEqual(new Date(NOW.getTime() + BUSY_RETRY_MS));
+    expect(getBusyRetryAt(null, NOW)).toEqual(new Date(NOW.getTime() + BUSY_RETRY_MS));
+  });
+
+  it('leaves the next occurrence alone when it comes first', () => {
+    expect(getBusyRetryAt(new Date(NOW.getTime() + 60 * 1000).toISOString(), NOW)).toBeNull();
+  });
+});
+
+describe('validateScheduleInput', () => {
+  const base = { cron: '0 9 * * 0', action: 'delete', promotionalOnly: true, olderThanDays: 14 };
+
+  it('normalizes a valid schedule', () => {
+    const { schedule } = validateScheduleInput({ ...base, senderEmails: [' Deals@Shop.com '] }, NOW);
+    expect(schedule).toEqual({
+      name: null,
+      cron: '0 9 * * 0',
+      timezone: 'UTC',
+      action: 'delete',
+      sender_emails: ['deals@shop.com'],
+      newsletters_only: false,
+      promotional_only: true,
+      older_than_days: 14,
+      unread_only: false,
+    });
+  });
+
+  it('rejects schedules that run more than once an hour', () => {
+    expect(validateScheduleInput({ ...base, cron: '*/5 * * * *' }, NOW).error).toMatch(/once an hour/);
+    expect(validateScheduleInput({ ...base, cron: '0,30 9 * * *' }, NOW).error).toMatch(/once an hour/);
+    expect(validateScheduleInput({ ...base, cron: '@hourly' }, NOW).schedule).toBeDefined();
+  });
+
+  it('rejects unknown time zones and actions', () => {
+    expect(validateScheduleInput({ ...base, timezone: 'Mars/Olympus' }, NOW).error).toMatch(/timezone/);
+    expect(validateScheduleInput({ ...base, action: 'unsubscribe' }, NOW).error).toMatch(/action/);
+  });
+
+  it('requires at least one narrowing filter', () => {
+    const { error } = validateScheduleInput({ cron: '0 9 * * 0', action: 'delete', unreadOnly: true }, NOW);
+    expect(error).toMatch(/at least one/);
+  });
+});
+
+describe('describeSchedule', () => {
+  it('summarizes the filter when the schedule has no name', () => {
+    const { schedule } = validateScheduleInput({ cron: '0 9 * * 0', action: 'delete', promotionalOnly: true, olderThanDays: 14 }, NOW);
+    expect(describeSchedule(schedule!)).toBe('Delete promotions older than 14 days');
+    expect(describeSchedule({ ...schedule!, name: 'Sunday sweep' })).toBe('Sunday sweep');
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// Mock module-level dependencies before importing email-sizes.ts
+vi.mock('@supabase/supabase-js', () => ({
+  createClient: vi.fn(() => ({ from: vi.fn() })),
+}));
+
+import { parseMinSizeMb, sumSizeBytes, toLargeEmail, MAX_MIN_SIZE_MB } from '../email-sizes.js';
+
+describe('parseMinSizeMb', () => {
+  it('accepts positive numbers and numeric strings, including fractions', () => {
+    expect(parseMinSizeMb(5)).toBe(5);
+    expect(parseMinSizeMb('10')).toBe(10);
+    expect(parseMinSizeMb('0.5')).toBe(0.5);
+    expect(parseMinSizeMb(MAX_MIN_SIZE_MB)).toBe(MAX_MIN_SIZE_MB);
+  });
+
+  it('rejects zero, negatives, non-numbers and values over the cap', () => {
+    expect(parseMinSizeMb(0)).toBeNull();
+    expect(parseMinSizeMb(-1)).toBeNull();
+    expect(parseMinSizeMb('')).toBeNull();
+    expect(parseMinSizeMb('big')).toBeNull();
+    expect(parseMinSizeMb(undefined)).toBeNull();
+    expect(parseMinSizeMb(MAX_MIN_SIZE_MB + 1)).toBeNull();
+  });
+});
+
+describe('sumSizeBytes', () => {
+  const emails = [
+    { gmail_message_id: 'a', size_bytes: 1000 },
+    { gmail_message_id: 'b', size_bytes: null },
+    { gmail_message_id: 'c', size_bytes: 250 },
+  ];
+
+  it('sums every email, counting unknown sizes as 0', () => {
+    expect(sumSizeBytes(emails)).toBe(1250);
+  });
+
+  it('only counts the given message IDs', () => {
+    expect(sumSizeBytes(emails, ['c', 'missing'])).toBe(250);
+    expect(sumSizeBytes(emails, [])).toBe(0);
+  });
+});
+
+describe('toLargeEmail', () => {
+  it('fills in a missing subject and sender name', () => {
+    expect(toLargeEmail({
+      gmail_message_id: 'm1',
+      sender_email: 'photos@cloud.com',
+      sender_name: '',
+      subject: null,
+      received_at: '2025-03-01T10:00:00.000Z',
+      is_unread: true,
+      size_bytes: 12_582_912,
+      has_attachments: true,
+    })).toEqual({
+      messageId: 'm1',
+      senderEmail: 'photos@cloud.com',
+      senderName: 'photos@cloud.com',
+      subject: '(No Subject)',
+      receivedAt: '2025-03-01T10:00:00.000Z',
+      sizeBytes: 12_582_912,
+      hasAttachments: true,
+    });
+  });
+});
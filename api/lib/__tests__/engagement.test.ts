@@ -0,0 +1,130 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// Mock module-level dependencies before importing engagement.ts
+vi.mock('@supabase/supabase-js', () => ({
+  createClient: vi.fn(() => ({ from: vi.fn() })),
+}));
+
+import { scoreSenderEngagement, buildCleanupSuggestions, EngagementSenderRow, EngagementSignals } from '../engagement.js';
+import { parseAddressList, addSentRecipients, SentRecipients } from '../mail-provider.js';
+
+const NOW = new Date('2025-03-16T00:00:00.000Z');
+
+function sender(overrides: Partial<EngagementSenderRow> = {}): EngagementSenderRow {
+  return {
+    sender_email: 'news@shop.com',
+    sender_name: 'Shop',
+    email_count: 60,
+    unread_count: 60,
+    first_email_date: '2024-09-11T00:00:00.000Z',
+    last_email_date: '2025-03-10T00:00:00.000Z',
+    has_unsubscribe: true,
+    ...overrides,
+  };
+}
+
+function signals(overrides: Partial<EngagementSignals> = {}): EngagementSignals {
+  return {
+    archivedUnread: new Map(),
+    sentRecipients: new Map(),
+    repliesKnown: true,
+    muted: new Set(),
+    ...overrides,
+  };
+}
+
+describe('scoreSenderEngagement', () => {
+  it('scores an ignored high-volume sender near zero', () => {
+    const engagement = scoreSenderEngagement(sender(), 60, false, NOW);
+    expect(engagement.score).toBeLessThan(15);
+    expect(engagement.level).toBe('none');
+    expect(engagement.readRatio).toBe(0);
+    expect(engagement.emailsPerMonth).toBe(10);
+    expect(engagement.daysSinceLastEmail).toBe(6);
+  });
+
+  it('scores a read, replied-to sender high', () => {
+    const engagement = scoreSenderEngagement(sender({ unread_count: 0, email_count: 6 }), 0, true, NOW);
+    expect(engagement.score).toBeGreaterThanOrEqual(70);
+    expect(engagement.level).toBe('high');
+    expect(engagement.hasReplied).toBe(true);
+  });
+
+  it('counts archiving unread mail against the sender', () => {
+    const kept = scoreSenderEngagement(sender({ unread_count: 30 }), 0, false, NOW);
+    const archived = scoreSenderEngagement(sender({ unread_count: 30 }), 30, false, NOW);
+    expect(archived.score).toBeLessThan(kept.score);
+  });
+});
+
+describe('buildCleanupSuggestions', () => {
+  it('suggests unsubscribing from an active ignored sender with its reduction', () => {
+    const [suggestion] = buildCleanupSuggestions([sender()], signals({
+      archivedUnread: new Map([['news@shop.com|||Shop', 12]]),
+    }), { totalEmails: 600, now: NOW });
+
+    expect(suggestion.action).toBe('unsubscribe');
+    expect(suggestion.estimatedReduction).toEqual({ emails: 60, perMonth: 10, percentOfInbox: 10 });
+    expect(suggestion.reasons).toEqual([
+      "You haven't opened any of their 60 emails",
+      '12 archived without being read',
+      "You've never replied",
+      'About 10 emails a month',
+    ]);
+  });
+
+  it('suggests deleting when the sender stopped or has no unsubscribe link', () => {
+    const [stopped] = buildCleanupSuggestions(
+      [sender({ last_email_date: '2023-12-01T00:00:00.000Z', first_email_date: '2023-01-01T00:00:00.000Z' })],
+      signals(), { totalEmails: 600, now: NOW }
+    );
+    expect(stopped.action).toBe('delete');
+    expect(stopped.estimatedReduction.perMonth).toBe(0);
+    expect(stopped.reasons).toContain('Nothing new in over a year');
+
+    const [noLink] = buildCleanupSuggestions([sender({ has_unsubscribe: false })], signals(), { totalEmails: 600, now: NOW });
+    expect(noLink.action).toBe('delete');
+  });
+
+  it('skips replied-to, muted, engaged and small senders', () => {
+    const senders = [
+      sender({ sender_email: 'Friend@mail.com' }),
+      sender({ sender_email: 'muted@shop.com' }),
+      sender({ sender_email: 'read@shop.com', unread_count: 0 }),
+      sender({ sender_email: 'rare@shop.com', email_count: 4, unread_count: 4 }),
+    ];
+    const result = buildCleanupSuggestions(senders, signals({
+      sentRecipients: new Map([['friend@mail.com', '2025-03-01T00:00:00.000Z']]),
+      muted: new Set(['muted@shop.com']),
+    }), { totalEmails: 600, now: NOW });
+    expect(result).toEqual([]);
+  });
+
+  it('ranks by estimated reduction and leaves out "never replied" when replies are unknown', () => {
+    const result = buildCleanupSuggestions([
+      sender({ sender_email: 'small@shop.com', email_count: 10, unread_count: 10 }),
+      sender({ sender_email: 'big@shop.com', email_count: 200, unread_count: 200 }),
+    ], signals({ repliesKnown: false }), { totalEmails: 1000, now: NOW, limit: 1 });
+
+    expect(result.map(r => r.senderEmail)).toEqual(['big@shop.com']);
+    expect(result[0].reasons).not.toContain("You've never replied");
+  });
+});
+
+describe('sent recipients', () => {
+  it('parses and lowercases address lists without duplicates', () => {
+    expect(parseAddressList('"Doe, Jane" <Jane@Example.com>, bob@test.org; jane@example.com')).toEqual([
+      'jane@example.com',
+      'bob@test.org',
+    ]);
+    expect(parseAddressList(undefined)).toEqual([]);
+  });
+
+  it('keeps the newest send per recipient', () => {
+    const recipients: SentRecipients = new Map();
+    addSentRecipients(recipients, ['a@x.com'], '2025-03-01T00:00:00.000Z');
+    addSentRecipients(recipients, ['a@x.com', 'b@x.com'], '2025-02-01T00:00:00.000Z');
+    expect(recipients.get('a@x.com')).toBe('2025-03-01T00:00:00.000Z');
+    expect(recipients.get('b@x.com')).toBe('2025-02-01T00:00:00.000Z');
+  });
+});
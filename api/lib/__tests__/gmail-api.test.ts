@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { buildBatchBody, parseBatchResponse, hasAttachments, isRateLimitError } from '../gmail-api.js';
+
+describe('buildBatchBody', () => {
+  it('tags each request with a Content-ID and closes the boundary', () => {
+    const body = buildBatchBody([
+      { method: 'GET', path: '/messages/abc?format=minimal' },
+      { method: 'POST', path: '/messages/def/modify', body: { removeLabelIds: ['INBOX'] } },
+    ], 'batch_x');
+
+    expect(body.split('\r\n')).toEqual([
+      '--batch_x',
+      'Content-Type: application/http',
+      'Content-ID: <item-0>',
+      '',
+      'GET /gmail/v1/users/me/messages/abc?format=minimal HTTP/1.1',
+      '',
+      '',
+      '--batch_x',
+      'Content-Type: application/http',
+      'Content-ID: <item-1>',
+      '',
+      'POST /gmail/v1/users/me/messages/def/modify HTTP/1.1',
+      'Content-Type: application/json',
+      '',
+      '{"removeLabelIds":["INBOX"]}',
+      '',
+      '--batch_x--',
+    ]);
+  });
+});
+
+describe('parseBatchResponse', () => {
+  const response = [
+    '--batch_resp',
+    'Content-Type: application/http',
+    'Content-ID: <response-item-1>',
+    '',
+    'HTTP/1.1 429 Too Many Requests',
+    'Content-Type: application/json; charset=UTF-8',
+    '',
+    '{"error":{"code":429,"message":"Too many concurrent requests for user"}}',
+    '--batch_resp',
+    'Content-Type: application/http',
+    'Content-ID: <response-item-0>',
+    '',
+    'HTTP/1.1 200 OK',
+    'Content-Type: application/json; charset=UTF-8',
+    '',
+    '{"id":"abc","threadId":"t1","labelIds":["INBOX"]}',
+    '--batch_resp',
+    'Content-Type: application/http',
+    'Content-ID: <response-item-2>',
+    '',
+    'HTTP/1.1 204 No Content',
+    '',
+    '',
+    '--batch_resp--',
+  ].join('\r\n');
+
+  it('matches parts back to requests by Content-ID, not by position', () => {
+    const parsed = parseBatchResponse(response, 'multipart/mixed; boundary=batch_resp', 4);
+
+    expect(parsed[0]).toEqual({ status: 200, body: { id: 'abc', threadId: 't1', labelIds: ['INBOX'] } });
+    expect(parsed[1]?.status).toBe(429);
+    expect(parsed[2]).toEqual({ status: 204, body: null });
+    // Missing from the response - left for the caller to retry
+    expect(parsed[3]).toBeUndefined();
+  });
+
+  it('returns nothing when the boundary is unknown', () => {
+    expect(parseBatchResponse(response, 'application/json', 2)).toEqual([undefined, undefined]);
+  });
+});
+
+describe('hasAttachments', () => {
+  it('detects attachments from multipart/mixed or named parts', () => {
+    expect(hasAttachments({ id: '1', threadId: '1', payload: { mimeType: 'multipart/mixed' } } as any)).toBe(true);
+    expect(hasAttachments({ id: '2', threadId: '2', payload: { mimeType: 'multipart/alternative', parts: [{ filename: 'report.pdf' }] } } as any)).toBe(true);
+    expect(hasAttachments({ id: '3', threadId: '3', payload: { mimeType: 'multipart/alternative', parts: [{ filename: '' }] } } as any)).toBe(false);
+  });
+});
+
+describe('isRateLimitError', () => {
+  const forbidden = (reason: string) => ({ error: { code: 403, errors: [{ domain: 'usageLimits', reason }] } });
+
+  it('treats 429 and rate-limit 403s as rate limits', () => {
+    expect(isRateLimitError(429, '')).toBe(true);
+    expect(isRateLimitError(403, forbidden('userRateLimitExceeded'))).toBe(true);
+    expect(isRateLimitError(403, JSON.stringify(forbidden('rateLimitExceeded')))).toBe(true);
+  });
+
+  it('does not retry permission and scope errors', () => {
+    expect(isRateLimitError(403, forbidden('insufficientPermissions'))).toBe(false);
+    expect(isRateLimitError(403, 'Forbidden')).toBe(false);
+    expect(isRateLimitError(403, null)).toBe(false);
+    expect(isRateLimitError(500, forbidden('rateLimitExceeded'))).toBe(false);
+  });
+});
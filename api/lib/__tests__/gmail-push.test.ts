@@ -0,0 +1,66 @@
+import { describe, it, expect, vi } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+
+// Mock module-level dependencies before importing gmail-push.ts
+vi.mock('@supabase/supabase-js', () => ({
+  createClient: vi.fn(() => ({ from: vi.fn() })),
+}));
+vi.mock('../gmail.js', () => ({ getValidAccessToken: vi.fn() }));
+vi.mock('../gmail-api.js', () => ({ watchMailbox: vi.fn(), stopMailboxWatch: vi.fn() }));
+
+import { parsePushMessage, isNewerHistory, verifyPushToken } from '../gmail-push.js';
+
+function fixture(name: string) {
+  return JSON.parse(fs.readFileSync(path.join(__dirname, 'fixtures', 'gmail-push', name), 'utf-8'));
+}
+
+describe('parsePushMessage', () => {
+  it('decodes a recorded new-message push', () => {
+    expect(parsePushMessage(fixture('new-message.json'))).toEqual({
+      emailAddress: 'jane.doe@gmail.com',
+      historyId: '9876543210',
+    });
+  });
+
+  it('lowercases the address and accepts string history IDs', () => {
+    expect(parsePushMessage(fixture('mixed-case-address.json'))).toEqual({
+      emailAddress: 'jane.doe@gmail.com',
+      historyId: '9876543388',
+    });
+  });
+
+  it('rejects notifications without a history ID', () => {
+    expect(parsePushMessage(fixture('missing-history-id.json'))).toBeNull();
+  });
+
+  it('rejects bodies that are not Gmail notifications', () => {
+    expect(parsePushMessage(undefined)).toBeNull();
+    expect(parsePushMessage({})).toBeNull();
+    expect(parsePushMessage({ message: { data: 'not-json' } })).toBeNull();
+  });
+});
+
+describe('isNewerHistory', () => {
+  it('compares history IDs numerically beyond the safe integer range', () => {
+    expect(isNewerHistory('18446744073709551000', '18446744073709550999')).toBe(true);
+    expect(isNewerHistory('9876543210', '9876543210')).toBe(false);
+    expect(isNewerHistory('999', '1000')).toBe(false);
+  });
+
+  it('treats accounts without a stored history ID as stale', () => {
+    expect(isNewerHistory('100', null)).toBe(true);
+  });
+});
+
+describe('verifyPushToken', () => {
+  it('accepts only the exact configured token', () => {
+    expect(verifyPushToken('s3cret', 's3cret')).toBe(true);
+    expect(verifyPushToken('s3cre', 's3cret')).toBe(false);
+    expect(verifyPushToken(['s3cret'], 's3cret')).toBe(false);
+  });
+
+  it('rejects everything when no token is configured', () => {
+    expect(verifyPushToken('', undefined)).toBe(false);
+  });
+});
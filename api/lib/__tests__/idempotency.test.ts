@@ -0,0 +1,41 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// Mock module-level dependencies before importing idempotency.ts
+vi.mock('@supabase/supabase-js', () => ({
+  createClient: vi.fn(() => ({ from: vi.fn() })),
+}));
+vi.mock('../auth-middleware.js', () => ({
+  extractToken: vi.fn(),
+}));
+
+import { hashIdempotentRequest, shouldStoreIdempotentResponse } from '../idempotency.js';
+
+describe('hashIdempotentRequest', () => {
+  it('matches the same request regardless of query string', () => {
+    const body = { accountEmail: 'me@example.com', senderEmails: ['news@shop.com'] };
+    expect(hashIdempotentRequest('POST', '/api/cleanup/delete', body))
+      .toBe(hashIdempotentRequest('post', '/api/cleanup/delete?x=1', body));
+  });
+
+  it('differs for a different body or endpoint', () => {
+    const body = { accountEmail: 'me@example.com', senderEmails: ['news@shop.com'] };
+    const hash = hashIdempotentRequest('POST', '/api/cleanup/delete', body);
+    expect(hashIdempotentRequest('POST', '/api/cleanup/delete', { ...body, senderEmails: ['other@shop.com'] })).not.toBe(hash);
+    expect(hashIdempotentRequest('POST', '/api/cleanup/archive', body)).not.toBe(hash);
+  });
+});
+
+describe('shouldStoreIdempotentResponse', () => {
+  it('stores final outcomes', () => {
+    expect(shouldStoreIdempotentResponse(200)).toBe(true);
+    expect(shouldStoreIdempotentResponse(400)).toBe(true);
+    expect(shouldStoreIdempotentResponse(403)).toBe(true);
+  });
+
+  it('lets retries run again after transient or server errors', () => {
+    expect(shouldStoreIdempotentResponse(401)).toBe(false);
+    expect(shouldStoreIdempotentResponse(409)).toBe(false);
+    expect(shouldStoreIdempotentResponse(429)).toBe(false);
+    expect(shouldStoreIdempotentResponse(503)).toBe(false);
+  });
+});
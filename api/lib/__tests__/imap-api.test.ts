@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+import { ImapFlow } from 'imapflow';
+import {
+  parseHeaders,
+  extractUnsubscribeLink,
+  extractMailtoUnsubscribeLink,
+  hasOneClickUnsubscribe,
+  extractEmailRecords,
+  extractListId,
+  listInboxMessages,
+  getInboxChanges,
+  batchArchiveMessages,
+  batchRestoreMessages,
+  ImapMessage,
+} from '../imap-api.js';
+import type { ImapCredentials } from '../imap.js';
+
+function message(overrides: Partial<ImapMessage> = {}): ImapMessage {
+  return {
+    id: '42',
+    uid: 42,
+    subject: 'Weekly deals',
+    receivedAt: '2025-03-01T10:00:00.000Z',
+    isRead: false,
+    from: { name: 'Shop', address: 'Deals@Shop.com' },
+    messageId: '<abc@shop.com>',
+    headers: {},
+    ...overrides,
+  };
+}
+
+describe('parseHeaders', () => {
+  it('lowercases names and unfolds continuation lines', () => {
+    const raw = 'List-Unsubscribe: <https://shop.com/u?id=1>,\r\n <mailto:u@shop.com>\r\nList-Unsubscribe-Post: List-Unsubscribe=One-Click\r\n\r\n';
+    expect(parseHeaders(Buffer.from(raw))).toEqual({
+      'list-unsubscribe': '<https://shop.com/u?id=1>, <mailto:u@shop.com>',
+      'list-unsubscribe-post': 'List-Unsubscribe=One-Click',
+    });
+  });
+
+  it('returns an empty map when no headers were fetched', () => {
+    expect(parseHeaders(undefined)).toEqual({});
+  });
+});
+
+describe('unsubscribe extraction', () => {
+  const headers = {
+    'list-unsubscribe': '<mailto:u@shop.com?subject=unsub>, <https://shop.com/u?id=1>',
+    'list-unsubscribe-post': 'List-Unsubscribe=One-Click',
+  };
+
+  it('prefers the HTTP link and still finds the mailto fallback', () => {
+    expect(extractUnsubscribeLink(message({ headers }))).toBe('https://shop.com/u?id=1');
+    expect(extractMailtoUnsubscribeLink(message({ headers }))).toBe('mailto:u@shop.com?subject=unsub');
+    expect(hasOneClickUnsubscribe(message({ headers }))).toBe(true);
+  });
+
+  it('handles messages without List-Unsubscribe', () => {
+    expect(extractUnsubscribeLink(message())).toBeUndefined();
+    expect(hasOneClickUnsubscribe(message())).toBe(false);
+  });
+});
+
+describe('extractEmailRecords', () => {
+  it('maps messages to email rows keyed by UID and skips senderless mail', () => {
+    const records = extractEmailRecords([message(), message({ id: '43', uid: 43, from: undefined })]);
+    expect(records).toEqual([{
+      gmail_message_id: '42',
+      sender_email: 'deals@shop.com',
+      sender_name: 'Shop',
+      subject: 'Weekly deals',
+      snippet: '',
+      received_at: '2025-03-01T10:00:00.000Z',
+      is_unread: true,
+      thread_id: '<abc@shop.com>',
+      labels: [],
+      list_id: null,
+      size_bytes: null,
+      has_attachments: false,
+    }]);
+  });
+
+  it('keeps the mailing-list identity from List-Id', () => {
+    const listed = message({ headers: { 'list-id': 'Shop Weekly <Weekly.Shop.com>' } });
+    expect(extractListId(listed)).toBe('weekly.shop.com');
+    expect(extractEmailRecords([listed])[0].list_id).toBe('weekly.shop.com');
+  });
+});
+
+// Runs against a local IMAP server, e.g.
+//   docker run -p 3143:3143 greenmail/standalone
+//   IMAP_TEST_HOST=localhost IMAP_TEST_PORT=3143 IMAP_TEST_USER=test@localhost IMAP_TEST_PASS=test npx vitest run imap-api
+describe.skipIf(!process.env.IMAP_TEST_HOST)('IMAP server integration', () => {
+  const credentials: ImapCredentials = {
+    host: process.env.IMAP_TEST_HOST!,
+    port: parseInt(process.env.IMAP_TEST_PORT || '3143', 10),
+    secure: process.env.IMAP_TEST_SECURE === 'true',
+    user: process.env.IMAP_TEST_USER || 'test@localhost',
+    pass: process.env.IMAP_TEST_PASS || 'test',
+  };
+
+  async function appendToInbox(subject: string): Promise<void> {
+    const client = new ImapFlow({ ...credentials, auth: { user: credentials.user, pass: credentials.pass }, logger: false });
+    await client.connect();
+    try {
+      await client.append('INBOX', [
+        'From: Shop <deals@shop.com>',
+        `To: ${credentials.user}`,
+        `Subject: ${subject}`,
+        'List-Unsubscribe: <https://shop.com/u?id=1>',
+        '',
+        'Hello',
+      ].join('\r\n'));
+    } finally {
+      await client.logout();
+    }
+  }
+
+  it('lists new mail, detects it incrementally, and round-trips an archive', async () => {
+    const subject = `integration ${Date.now()}`;
+    const { state } = await listInboxMessages(credentials, { limit: 1 });
+
+    await appendToInbox(subject);
+
+    const changes = await getInboxChanges(credentials, {
+      uidValidity: state.uidValidity,
+      lastUid: state.uidNext - 1,
+      highestModseq: state.highestModseq,
+    });
+    const added = changes.newMessages.find(m => m.subject === subject);
+    expect(added).toBeDefined();
+    expect(extractUnsubscribeLink(added!)).toBe('https://shop.com/u?id=1');
+    expect(changes.currentIds.has(added!.id)).toBe(true);
+
+    const archived = await batchArchiveMessages(credentials, [added!.id]);
+    expect(archived.success).toEqual([added!.id]);
+
+    const archivedId = archived.movedIds[added!.id];
+    if (archivedId) {
+      const restored = await batchRestoreMessages(credentials, 'archive', [archivedId]);
+      expect(restored.success).toEqual([archivedId]);
+    }
+  }, 30000);
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// Mock module-level dependencies before importing mailing-lists.ts
+vi.mock('@supabase/supabase-js', () => ({
+  createClient: vi.fn(() => ({ from: vi.fn() })),
+}));
+
+import { rollupEmailsByList, ListEmailRow, ListSenderRow } from '../mailing-lists.js';
+import { parseListId } from '../mail-provider.js';
+
+function email(overrides: Partial<ListEmailRow> = {}): ListEmailRow {
+  return {
+    gmail_message_id: 'm1',
+    sender_email: 'news@shop.com',
+    sender_name: 'Shop',
+    subject: 'Weekly deals',
+    received_at: '2025-03-01T10:00:00.000Z',
+    is_unread: false,
+    list_id: 'weekly.shop.com',
+    size_bytes: null,
+    unsubscribe_link: null,
+    mailto_unsubscribe_link: null,
+    has_one_click_unsubscribe: null,
+    ...overrides,
+  };
+}
+
+function sender(overrides: Partial<ListSenderRow> = {}): ListSenderRow {
+  return {
+    sender_email: 'news@shop.com',
+    sender_name: 'Shop',
+    email_count: 1,
+    last_email_date: '2025-03-01T10:00:00.000Z',
+    unsubscribe_link: null,
+    mailto_unsubscribe_link: null,
+    has_one_click_unsubscribe: null,
+    ...overrides,
+  };
+}
+
+describe('parseListId', () => {
+  it('takes the bracketed identifier and lowercases it', () => {
+    expect(parseListId('"Shop Weekly" <Weekly.Shop.COM>')).toBe('weekly.shop.com');
+    expect(parseListId('<dev.lists.example.org.>')).toBe('dev.lists.example.org');
+  });
+
+  it('accepts a bare identifier and rejects anything else', () => {
+    expect(parseListId('weekly.shop.com')).toBe('weekly.shop.com');
+    expect(parseListId('Shop Weekly')).toBeNull();
+    expect(parseListId('<not a list>')).toBeNull();
+    expect(parseListId(undefined)).toBeNull();
+  });
+});
+
+describe('rollupEmailsByList', () => {
+  it('groups a list across addresses and takes the newest unsubscribe link', () => {
+    const lists = rollupEmailsByList([
+      email({ unsubscribe_link: 'https://shop.com/u?old', has_one_click_unsubscribe: false }),
+      email({ gmail_message_id: 'm2', sender_email: 'deals@mail.shop.com', sender_name: 'Shop Deals', received_at: '2025-03-08T10:00:00.000Z', is_unread: true, unsubscribe_link: 'https://shop.com/u?new', has_one_click_unsubscribe: true }),
+      email({ gmail_message_id: 'm3', list_id: 'other.shop.com' }),
+    ]);
+
+    expect(lists.map(l => l.listId)).toEqual(['weekly.shop.com', 'other.shop.com']);
+    expect(lists[0]).toMatchObject({
+      emailCount: 2,
+      unreadCount: 1,
+      firstEmailDate: '2025-03-01T10:00:00.000Z',
+      lastEmailDate: '2025-03-08T10:00:00.000Z',
+      unsubscribeLink: 'https://shop.com/u?new',
+      hasOneClickUnsubscribe: true,
+    });
+    expect(lists[0].senders.map(s => s.email)).toEqual(['news@shop.com', 'deals@mail.shop.com']);
+  });
+
+  it('falls back to the senders\' cached links and flags senders that mail elsewhere', () => {
+    const [list] = rollupEmailsByList([email()], [
+      sender({ email_count: 5, unsubscribe_link: 'https://shop.com/u', mailto_unsubscribe_link: 'mailto:u@shop.com' }),
+    ]);
+
+    expect(list.unsubscribeLink).toBe('https://shop.com/u');
+    expect(list.mailtoUnsubscribeLink).toBe('mailto:u@shop.com');
+    expect(list.senders[0].exclusive).toBe(false);
+    expect(rollupEmailsByList([email()], [sender()])[0].senders[0].exclusive).toBe(true);
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// Mock module-level dependencies before importing muted-senders.ts
+vi.mock('@supabase/supabase-js', () => ({
+  createClient: vi.fn(() => ({ from: vi.fn() })),
+}));
+
+import { validateMuteInput, selectMutedTargets } from '../muted-senders.js';
+
+describe('validateMuteInput', () => {
+  it('normalizes the sender address', () => {
+    expect(validateMuteInput({ accountEmail: 'me@gmail.com', senderEmail: ' News@Store.com ', muted: true })).toEqual({
+      input: { accountEmail: 'me@gmail.com', senderEmail: 'news@store.com', muted: true },
+    });
+  });
+
+  it('rejects missing or malformed fields', () => {
+    expect(validateMuteInput({ senderEmail: 'a@b.com', muted: true }).error).toBeDefined();
+    expect(validateMuteInput({ accountEmail: 'me@gmail.com', senderEmail: 'store.com', muted: true }).error).toBeDefined();
+    expect(validateMuteInput({ accountEmail: 'me@gmail.com', senderEmail: 'a@b.com', muted: 'yes' }).error).toBeDefined();
+  });
+});
+
+describe('selectMutedTargets', () => {
+  it('returns each muted address once, covering every display name', () => {
+    const keys = new Set(['deals@store.com|||Store', 'deals@store.com|||Store Deals', 'friend@mail.com|||Friend']);
+    expect(selectMutedTargets(keys, new Set(['deals@store.com']))).toEqual([
+      { email: 'deals@store.com', name: null },
+    ]);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect, vi } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+
+// Mock module-level dependencies before importing outlook-push.ts
+vi.mock('@supabase/supabase-js', () => ({
+  createClient: vi.fn(() => ({ from: vi.fn() })),
+}));
+vi.mock('../outlook.js', () => ({ getValidOutlookAccessToken: vi.fn() }));
+vi.mock('../outlook-api.js', () => ({ createInboxSubscription: vi.fn(), renewSubscription: vi.fn() }));
+
+import { parseNotifications, clientStateMatches } from '../outlook-push.js';
+
+const SUBSCRIPTION_ID = '7f105c7d-2dc5-4530-97cd-4e7ae6534c07';
+const CLIENT_STATE = '9c4e2f8a1b7d3e6f0a5c8b2d4e7f1a3c6b9d2e5f8a1c4b7e0d3f6a9c2e5b8d1f';
+
+function fixture(name: string) {
+  return JSON.parse(fs.readFileSync(path.join(__dirname, 'fixtures', 'outlook-notifications', name), 'utf-8'));
+}
+
+describe('parseNotifications', () => {
+  it('reads every change notification in a recorded batch', () => {
+    expect(parseNotifications(fixture('created-message.json'))).toEqual([
+      { subscriptionId: SUBSCRIPTION_ID, clientState: CLIENT_STATE },
+      { subscriptionId: SUBSCRIPTION_ID, clientState: CLIENT_STATE },
+    ]);
+  });
+
+  it('keeps the lifecycle event on lifecycle notifications', () => {
+    expect(parseNotifications(fixture('reauthorization-required.json'))).toEqual([
+      { subscriptionId: SUBSCRIPTION_ID, clientState: CLIENT_STATE, lifecycleEvent: 'reauthorizationRequired' },
+    ]);
+  });
+
+  it('drops notifications without a clientState', () => {
+    expect(parseNotifications(fixture('missing-client-state.json'))).toEqual([]);
+  });
+
+  it('returns nothing for bodies that are not notification batches', () => {
+    expect(parseNotifications(undefined)).toEqual([]);
+    expect(parseNotifications({})).toEqual([]);
+    expect(parseNotifications({ value: 'nope' } as any)).toEqual([]);
+  });
+});
+
+describe('clientStateMatches', () => {
+  it('accepts only the stored clientState', () => {
+    expect(clientStateMatches(CLIENT_STATE, CLIENT_STATE)).toBe(true);
+    expect(clientStateMatches(CLIENT_STATE.slice(1), CLIENT_STATE)).toBe(false);
+    expect(clientStateMatches('x'.repeat(CLIENT_STATE.length), CLIENT_STATE)).toBe(false);
+  });
+
+  it('rejects everything when the account has no stored clientState', () => {
+    expect(clientStateMatches(CLIENT_STATE, null)).toBe(false);
+  });
+});
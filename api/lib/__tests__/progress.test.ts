@@ -0,0 +1,67 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// Mock module-level dependencies before importing progress.ts
+vi.mock('@supabase/supabase-js', () => ({
+  createClient: vi.fn(() => ({ from: vi.fn() })),
+}));
+
+import { isValidOperationId, toSyncProgressEvent } from '../progress.js';
+import type { SyncJob } from '../sync-jobs.js';
+
+const job: SyncJob = {
+  id: 'job-1',
+  user_id: 'user-1',
+  email_account_id: 'account-1',
+  sync_type: 'full',
+  status: 'running',
+  phase: 'fetching',
+  page_token: 'token',
+  listed_count: 600,
+  processed_count: 5200,
+  fetched_count: 5200,
+  progress_total: 5000,
+  start_history_id: null,
+  email_limit: 5000,
+  failure_count: 0,
+  error: null,
+  locked_until: null,
+  started_at: '2025-03-07T12:00:00Z',
+  updated_at: '2025-03-07T12:01:00Z',
+  completed_at: null,
+};
+
+const account = {
+  id: 'account-1',
+  sync_progress_total: null,
+  sync_progress_current: null,
+  total_emails: 4800,
+  last_synced: '2025-03-07T11:00:00Z',
+};
+
+describe('isValidOperationId', () => {
+  it('accepts UUIDs only', () => {
+    expect(isValidOperationId('1b4e28ba-2fa1-11d2-883f-0016d3cca427')).toBe(true);
+    expect(isValidOperationId('not-a-uuid')).toBe(false);
+    expect(isValidOperationId(undefined)).toBe(false);
+  });
+});
+
+describe('toSyncProgressEvent', () => {
+  it('reports a running job from its checkpoints, capped at the total', () => {
+    const event = toSyncProgressEvent(account, job);
+    expect(event).toMatchObject({ type: 'sync', status: 'running', phase: 'fetching', processed: 5000, total: 5000 });
+  });
+
+  it('falls back to the account progress columns for syncs without a job', () => {
+    const event = toSyncProgressEvent({ ...account, sync_progress_total: 400, sync_progress_current: 150 }, null);
+    expect(event).toMatchObject({ status: 'running', processed: 150, total: 400 });
+  });
+
+  it('includes the completion summary and last job error once idle', () => {
+    const failed = { ...job, status: 'failed' as const, error: 'Gmail API error: 500', completed_at: '2025-03-07T12:02:00Z' };
+    const event = toSyncProgressEvent(account, failed);
+    expect(event.status).toBe('failed');
+    expect(event.errors).toEqual([{ message: 'Gmail API error: 500' }]);
+    expect(event.summary).toEqual({ totalEmails: 4800, lastSynced: '2025-03-07T11:00:00Z' });
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { gmailQuotaUnits, parseRetryAfter, quotaFetch, isProviderUnavailableError, registerQuotaMailbox, respondProviderUnavailable } from '../provider-quota.js';
+
+describe('gmailQuotaUnits', () => {
+  it('prices calls by method and endpoint', () => {
+    expect(gmailQuotaUnits('GET', '/messages/abc?format=metadata')).toBe(5);
+    expect(gmailQuotaUnits('POST', '/messages/batchModify')).toBe(50);
+    expect(gmailQuotaUnits('GET', '/history?startHistoryId=1')).toBe(2);
+    expect(gmailQuotaUnits('get', '/profile')).toBe(1);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  const NOW = new Date('2025-03-07T12:00:00Z').getTime();
+
+  it('accepts delay seconds and HTTP dates', () => {
+    expect(parseRetryAfter('3', NOW)).toBe(3000);
+    expect(parseRetryAfter('Fri, 07 Mar 2025 12:00:10 GMT', NOW)).toBe(10000);
+  });
+
+  it('ignores missing or malformed headers', () => {
+    expect(parseRetryAfter(null, NOW)).toBeNull();
+    expect(parseRetryAfter('soon', NOW)).toBeNull();
+  });
+});
+
+describe('quotaFetch circuit breaker', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('fails fast with PROVIDER_UNAVAILABLE after repeated server errors', async () => {
+    const fetchMock = vi.fn(async () => new Response('error', { status: 500 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    for (let i = 0; i < 5; i++) {
+      const response = await quotaFetch('outlook', 'token', 1, 'https://graph.test/me', {});
+      expect(response.status).toBe(500);
+    }
+
+    const error = await quotaFetch('outlook', 'token', 1, 'https://graph.test/me', {}).catch(e => e);
+    expect(isProviderUnavailableError(error)).toBe(true);
+    expect(error.retryAfterMs).toBeGreaterThan(0);
+    expect(fetchMock).toHaveBeenCalledTimes(5);
+  });
+
+  it('keeps failing over a refreshed token of the same mailbox, but not other mailboxes', async () => {
+    const fetchMock = vi.fn(async () => new Response('error', { status: 500 }));
+    vi.stubGlobal('fetch', fetchMock);
+    registerQuotaMailbox('token-before-refresh', 'mailbox-1');
+    registerQuotaMailbox('token-after-refresh', 'mailbox-1');
+
+    for (let i = 0; i < 5; i++) {
+      await quotaFetch('gmail', 'token-before-refresh', 1, 'https://gmail.test/profile', {});
+    }
+
+    const error = await quotaFetch('gmail', 'token-after-refresh', 1, 'https://gmail.test/profile', {}).catch(e => e);
+    expect(isProviderUnavailableError(error)).toBe(true);
+
+    const other = await quotaFetch('gmail', 'other-mailbox-token', 1, 'https://gmail.test/profile', {});
+    expect(other.status).toBe(500);
+    expect(fetchMock).toHaveBeenCalledTimes(6);
+  });
+});
+
+describe('respondProviderUnavailable', () => {
+  function mockResponse() {
+    const res: any = {};
+    res.status = vi.fn().mockReturnValue(res);
+    res.json = vi.fn().mockReturnValue(res);
+    res.setHeader = vi.fn();
+    return res;
+  }
+
+  it('sends 503 with Retry-After for provider outages only', () => {
+    const res = mockResponse();
+    const outage = Object.assign(new Error('Gmail is temporarily unavailable.'), { code: 'PROVIDER_UNAVAILABLE', retryAfterMs: 1500 });
+    expect(respondProviderUnavailable(res, outage)).toBe(true);
+    expect(res.setHeader).toHaveBeenCalledWith('Retry-After', '2');
+    expect(res.status).toHaveBeenCalledWith(503);
+    expect(res.json).toHaveBeenCalledWith({ error: outage.message, code: 'PROVIDER_UNAVAILABLE', retryAfter: 2 });
+
+    const other = mockResponse();
+    expect(respondProviderUnavailable(other, new Error('boom'))).toBe(false);
+    expect(other.status).not.toHaveBeenCalled();
+  });
+});
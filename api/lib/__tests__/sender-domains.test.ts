@@ -0,0 +1,60 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// Mock module-level dependencies before importing sender-domains.ts
+vi.mock('@supabase/supabase-js', () => ({
+  createClient: vi.fn(() => ({ from: vi.fn() })),
+}));
+
+import { getRegistrableDomain, normalizeDomain, rollupSendersByDomain } from '../sender-domains.js';
+
+const row = (sender_email: string, email_count: number, unread_count = 0) => ({
+  sender_email,
+  sender_name: sender_email.split('@')[0],
+  email_count,
+  unread_count,
+  first_email_date: '2025-01-01T00:00:00Z',
+  last_email_date: '2025-02-01T00:00:00Z',
+});
+
+describe('getRegistrableDomain', () => {
+  it('uses the public suffix list', () => {
+    expect(getRegistrableDomain('news@ship.amazon.co.uk')).toBe('amazon.co.uk');
+    expect(getRegistrableDomain('store-news@Amazon.com')).toBe('amazon.com');
+    expect(getRegistrableDomain('bot@alice.github.io')).toBe('alice.github.io');
+  });
+
+  it('falls back to the host when there is no public suffix', () => {
+    expect(getRegistrableDomain('root@localhost')).toBe('localhost');
+  });
+});
+
+describe('normalizeDomain', () => {
+  it('reduces input to the registrable domain', () => {
+    expect(normalizeDomain(' @News.Amazon.com ')).toBe('amazon.com');
+  });
+
+  it('rejects values that are not domains', () => {
+    expect(normalizeDomain('amazon')).toBeNull();
+    expect(normalizeDomain('a@b.com')).toBeNull();
+    expect(normalizeDomain(42)).toBeNull();
+  });
+});
+
+describe('rollupSendersByDomain', () => {
+  it('groups subdomains under one domain, largest first', () => {
+    const rollups = rollupSendersByDomain([
+      row('friend@gmail.com', 3),
+      row('shipment-tracking@amazon.com', 10, 2),
+      row('store-news@marketplace.amazon.com', 5, 5),
+    ]);
+
+    expect(rollups.map(r => r.domain)).toEqual(['amazon.com', 'gmail.com']);
+    expect(rollups[0]).toMatchObject({
+      senderCount: 2,
+      emailCount: 15,
+      unreadCount: 7,
+      hosts: ['amazon.com', 'marketplace.amazon.com'],
+    });
+    expect(rollups[0].senders[0].email).toBe('shipment-tracking@amazon.com');
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// Mock module-level dependencies before importing sender-groups.ts
+vi.mock('@supabase/supabase-js', () => ({
+  createClient: vi.fn(() => ({ from: vi.fn() })),
+}));
+
+import {
+  findSenderGroup,
+  splitGroupMembers,
+  validateMergeInput,
+  parseGroupIds,
+  toCleanupTargets,
+  resolveGroupTargets,
+  mergeCleanupTargets,
+  MAX_REQUEST_GROUPS,
+} from '../sender-groups.js';
+
+describe('validateMergeInput', () => {
+  it('normalizes members and treats a missing senderName as the whole address', () => {
+    expect(validateMergeInput({
+      accountEmail: 'me@gmail.com',
+      members: [{ senderEmail: ' News@Acme.com ' }, { senderEmail: 'deals@acme.com', senderName: 'Acme Deals' }],
+    })).toEqual({
+      input: {
+        accountEmail: 'me@gmail.com',
+        groupId: null,
+        name: null,
+        members: [{ email: 'news@acme.com', name: null }, { email: 'deals@acme.com', name: 'Acme Deals' }],
+      },
+    });
+  });
+
+  it('rejects merging a single name+email sender into a new group', () => {
+    expect(validateMergeInput({
+      accountEmail: 'me@gmail.com',
+      members: [{ senderEmail: 'deals@acme.com', senderName: 'Acme Deals' }],
+    }).error).toBeDefined();
+  });
+});
+
+describe('findSenderGroup', () => {
+  const byAddress = { id: 'a', members: [{ email: 'no-reply@shop.com', name: null }], excluded: [{ email: 'no-reply@shop.com', name: 'Shop Careers' }] };
+  const byName = { id: 'b', members: [{ email: 'no-reply@shop.com', name: 'Shop Orders' }, { email: 'orders@shop.com', name: 'Shop' }], excluded: [] };
+
+  it('prefers an exact name+email member over an address-wide one', () => {
+    expect(findSenderGroup([byAddress, byName], 'no-reply@shop.com', 'Shop Orders')?.id).toBe('b');
+    expect(findSenderGroup([byAddress, byName], 'no-reply@shop.com', 'Shop News')?.id).toBe('a');
+  });
+
+  it('skips display names split off an address', () => {
+    expect(findSenderGroup([byAddress, byName], 'no-reply@shop.com', 'Shop Careers')).toBeNull();
+  });
+});
+
+describe('splitGroupMembers', () => {
+  it('excludes a display name split off an address-wide member', () => {
+    const result = splitGroupMembers(
+      { members: [{ email: 'no-reply@shop.com', name: null }], excluded: [] },
+      [{ email: 'no-reply@shop.com', name: 'Shop Careers' }]
+    );
+    expect(result).toEqual({
+      members: [{ email: 'no-reply@shop.com', name: null }],
+      excluded: [{ email: 'no-reply@shop.com', name: 'Shop Careers' }],
+      dissolved: false,
+    });
+  });
+
+  it('dissolves the group when nothing is left to merge', () => {
+    const group = { members: [{ email: 'a@shop.com', name: 'A' }, { email: 'b@shop.com', name: 'B' }], excluded: [] };
+    expect(splitGroupMembers(group, [{ email: 'a@shop.com', name: 'A' }]).dissolved).toBe(true);
+    expect(splitGroupMembers(group, []).dissolved).toBe(true);
+  });
+});
+
+describe('parseGroupIds', () => {
+  it('reads groupIds or a single groupId without duplicates', () => {
+    expect(parseGroupIds({ groupIds: ['a', 'b', 'a'] })).toEqual({ groupIds: ['a', 'b'] });
+    expect(parseGroupIds({ groupId: 'a' })).toEqual({ groupIds: ['a'] });
+    expect(parseGroupIds({})).toEqual({ groupIds: [] });
+  });
+
+  it('rejects malformed or too many IDs', () => {
+    expect(parseGroupIds({ groupIds: 'a' }).error).toBeDefined();
+    expect(parseGroupIds({ groupIds: [''] }).error).toBeDefined();
+    const tooMany = Array.from({ length: MAX_REQUEST_GROUPS + 1 }, (_, i) => `g${i}`);
+    expect(parseGroupIds({ groupIds: tooMany }).error).toMatch(/At most/);
+    expect(parseGroupIds({ groupIds: tooMany }, 100).groupIds).toHaveLength(MAX_REQUEST_GROUPS + 1);
+  });
+});
+
+describe('cleanup targets', () => {
+  it('keeps sender names only when they line up with the emails', () => {
+    expect(toCleanupTargets(['a@x.com', 'b@x.com'], ['A', ''])).toEqual([
+      { email: 'a@x.com', name: 'A' },
+      { email: 'b@x.com', name: null },
+    ]);
+    expect(toCleanupTargets(['a@x.com'], ['A', 'B'])).toEqual([{ email: 'a@x.com', name: null }]);
+    expect(toCleanupTargets(undefined, undefined)).toEqual([]);
+  });
+
+  it('expands a group to the name+email rows it folds', () => {
+    const groups = [
+      { id: 'g', members: [{ email: 'no-reply@shop.com', name: null }, { email: 'orders@shop.com', name: 'Shop' }], excluded: [{ email: 'no-reply@shop.com', name: 'Shop Careers' }] },
+    ];
+    const rows = [
+      { sender_email: 'no-reply@shop.com', sender_name: 'Shop News' },
+      { sender_email: 'no-reply@shop.com', sender_name: 'Shop Careers' },
+      { sender_email: 'orders@shop.com', sender_name: 'Shop' },
+      { sender_email: 'orders@shop.com', sender_name: 'Shop Returns' },
+    ];
+    expect(resolveGroupTargets(groups, 'g', rows)).toEqual([
+      { email: 'no-reply@shop.com', name: 'Shop News' },
+      { email: 'orders@shop.com', name: 'Shop' },
+    ]);
+  });
+
+  it('merges group members into explicit targets without duplicates', () => {
+    const merged = mergeCleanupTargets(
+      [{ email: 'a@x.com', name: null }, { email: 'b@x.com', name: 'B' }],
+      [{ email: 'a@x.com', name: 'A' }, { email: 'b@x.com', name: 'B' }, { email: 'c@x.com', name: 'C' }]
+    );
+    expect(merged).toEqual([
+      { email: 'a@x.com', name: null },
+      { email: 'b@x.com', name: 'B' },
+      { email: 'c@x.com', name: 'C' },
+    ]);
+  });
+});
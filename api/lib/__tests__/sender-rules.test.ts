@@ -0,0 +1,144 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// Mock module-level dependencies before importing sender-rules.ts
+vi.mock('@supabase/supabase-js', () => ({
+  createClient: vi.fn(() => ({ from: vi.fn() })),
+}));
+vi.mock('../free-trial.js', () => ({ isUserPaid: vi.fn() }));
+
+import {
+  senderMatchesRule,
+  categoryMatchesRule,
+  selectRuleTargets,
+  validateRuleInput,
+  describeRule,
+  selectRuleSenderKeys,
+  RuleCandidate,
+} from '../sender-rules.js';
+
+const NOW = new Date('2025-03-01T00:00:00Z').getTime();
+
+function candidate(id: string, daysAgo: number, labels: string[] | null = ['INBOX']): RuleCandidate {
+  return {
+    gmail_message_id: id,
+    sender_email: 'news@example.com',
+    sender_name: 'News',
+    received_at: new Date(NOW - daysAgo * 24 * 60 * 60 * 1000).toISOString(),
+    labels,
+  };
+}
+
+describe('senderMatchesRule', () => {
+  it('matches sender rules on the exact address (case-insensitive)', () => {
+    const rule = { match_type: 'sender' as const, match_value: 'news@example.com' };
+    expect(senderMatchesRule(rule, 'News@Example.com')).toBe(true);
+    expect(senderMatchesRule(rule, 'other@example.com')).toBe(false);
+  });
+
+  it('matches domain rules on the domain and its subdomains', () => {
+    const rule = { match_type: 'domain' as const, match_value: 'example.com' };
+    expect(senderMatchesRule(rule, 'a@example.com')).toBe(true);
+    expect(senderMatchesRule(rule, 'a@mail.example.com')).toBe(true);
+    expect(senderMatchesRule(rule, 'a@notexample.com')).toBe(false);
+  });
+});
+
+describe('categoryMatchesRule', () => {
+  it('only applies promotions/newsletters rules to flagged senders', () => {
+    const flags = { isNewsletter: true, isPromotional: false };
+    expect(categoryMatchesRule({ category: 'any' }, undefined)).toBe(true);
+    expect(categoryMatchesRule({ category: 'newsletters' }, flags)).toBe(true);
+    expect(categoryMatchesRule({ category: 'promotions' }, flags)).toBe(false);
+    expect(categoryMatchesRule({ category: 'promotions' }, undefined)).toBe(false);
+  });
+});
+
+describe('selectRuleTargets', () => {
+  const candidates = [candidate('a', 1), candidate('b', 10), candidate('c', 3), candidate('d', 20)];
+
+  it('targets everything when no limits are set', () => {
+    const rule = { action: 'delete' as const, older_than_days: null, keep_latest: null };
+    expect(selectRuleTargets(rule, candidates, true, NOW).sort()).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('only targets emails older than the cutoff', () => {
+    const rule = { action: 'delete' as const, older_than_days: 7, keep_latest: null };
+    expect(selectRuleTargets(rule, candidates, true, NOW)).toEqual(['b', 'd']);
+  });
+
+  it('keeps the newest N emails', () => {
+    const rule = { action: 'delete' as const, older_than_days: null, keep_latest: 2 };
+    expect(selectRuleTargets(rule, candidates, true, NOW)).toEqual(['b', 'd']);
+  });
+
+  it('skips already archived Gmail rows for archive rules', () => {
+    const rule = { action: 'archive' as const, older_than_days: null, keep_latest: 1 };
+    const mixed = [candidate('a', 1), candidate('b', 2, ['CATEGORY_UPDATES']), candidate('c', 3)];
+    expect(selectRuleTargets(rule, mixed, true, NOW)).toEqual(['c']);
+    // Outlook rows have no labels and are always in the Inbox
+    expect(selectRuleTargets(rule, mixed, false, NOW)).toEqual(['b', 'c']);
+  });
+});
+
+describe('validateRuleInput', () => {
+  it('normalizes a valid domain rule', () => {
+    const { rule, error } = validateRuleInput({
+      matchType: 'domain',
+      matchValue: '@Example.COM ',
+      category: 'promotions',
+      action: 'delete',
+    });
+    expect(error).toBeUndefined();
+    expect(rule).toEqual({
+      match_type: 'domain',
+      match_value: 'example.com',
+      category: 'promotions',
+      action: 'delete',
+      older_than_days: null,
+      keep_latest: null,
+    });
+  });
+
+  it('rejects invalid input', () => {
+    expect(validateRuleInput({ matchType: 'regex', matchValue: 'x', action: 'delete' }).error).toBeDefined();
+    expect(validateRuleInput({ matchType: 'sender', matchValue: 'not-an-email', action: 'delete' }).error).toBeDefined();
+    expect(validateRuleInput({ matchType: 'sender', matchValue: 'a@b.com', action: 'block' }).error).toBeDefined();
+    expect(validateRuleInput({ matchType: 'sender', matchValue: 'a@b.com', action: 'archive', olderThanDays: 0 }).error).toBeDefined();
+    expect(validateRuleInput({ matchType: 'sender', matchValue: 'a@b.com', action: 'archive', keepLatest: 2.5 }).error).toBeDefined();
+  });
+});
+
+describe('describeRule', () => {
+  it('summarizes the rule for activity logs', () => {
+    expect(describeRule({
+      match_type: 'sender',
+      match_value: 'news@example.com',
+      category: 'any',
+      action: 'archive',
+      older_than_days: 7,
+      keep_latest: null,
+    })).toBe('Archive mail from news@example.com after 7 days');
+    expect(describeRule({
+      match_type: 'domain',
+      match_value: 'shop.com',
+      category: 'promotions',
+      action: 'delete',
+      older_than_days: null,
+      keep_latest: 5,
+    })).toBe('Delete promotions from @shop.com keeping the latest 5');
+  });
+});
+
+describe('selectRuleSenderKeys', () => {
+  it('keeps every name+email sender a rule matches', () => {
+    const keys = selectRuleSenderKeys(
+      [{ match_type: 'domain', match_value: 'shop.com' }, { match_type: 'sender', match_value: 'news@blog.org' }],
+      [
+        { sender_email: 'deals@mail.shop.com', sender_name: 'Shop' },
+        { sender_email: 'News@blog.org', sender_name: 'Blog' },
+        { sender_email: 'friend@example.com', sender_name: 'Friend' },
+      ]
+    );
+    expect([...keys]).toEqual(['deals@mail.shop.com|||Shop', 'News@blog.org|||Blog']);
+  });
+});
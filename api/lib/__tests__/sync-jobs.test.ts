@@ -0,0 +1,80 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// Mock module-level dependencies before importing sync-jobs.ts
+const { from } = vi.hoisted(() => ({ from: vi.fn() }));
+
+vi.mock('@supabase/supabase-js', () => ({
+  createClient: vi.fn(() => ({ from })),
+}));
+
+import { isSyncJobStalled, toSyncJobResponse, checkpointSyncJob, SyncJob } from '../sync-jobs.js';
+
+const NOW = new Date('2025-03-06T12:00:00Z').getTime();
+const ago = (ms: number) => new Date(NOW - ms).toISOString();
+
+describe('isSyncJobStalled', () => {
+  it('is stalled once the lease has lapsed and no checkpoint landed for a minute', () => {
+    expect(isSyncJobStalled({ status: 'running', locked_until: ago(30 * 1000), updated_at: ago(90 * 1000) }, NOW)).toBe(true);
+    expect(isSyncJobStalled({ status: 'running', locked_until: null, updated_at: ago(90 * 1000) }, NOW)).toBe(true);
+  });
+
+  it('is not stalled while a runner holds the lease or just checkpointed', () => {
+    expect(isSyncJobStalled({ status: 'running', locked_until: ago(-30 * 1000), updated_at: ago(5 * 60 * 1000) }, NOW)).toBe(false);
+    expect(isSyncJobStalled({ status: 'running', locked_until: null, updated_at: ago(10 * 1000) }, NOW)).toBe(false);
+  });
+
+  it('ignores finished jobs', () => {
+    expect(isSyncJobStalled({ status: 'failed', locked_until: null, updated_at: ago(60 * 60 * 1000) }, NOW)).toBe(false);
+  });
+});
+
+describe('toSyncJobResponse', () => {
+  it('exposes job state without internal fields', () => {
+    const job: SyncJob = {
+      id: 'job-1',
+      user_id: 'user-1',
+      email_account_id: 'account-1',
+      sync_type: 'full',
+      status: 'running',
+      phase: 'fetching',
+      page_token: 'token',
+      listed_count: 300,
+      processed_count: 280,
+      fetched_count: 280,
+      progress_total: 5000,
+      start_history_id: null,
+      email_limit: 5000,
+      failure_count: 1,
+      error: 'Gmail API error: 503',
+      locked_until: null,
+      started_at: ago(60 * 1000),
+      updated_at: ago(1000),
+      completed_at: null,
+    };
+
+    expect(toSyncJobResponse(job)).toEqual({
+      id: 'job-1',
+      type: 'full',
+      status: 'running',
+      phase: 'fetching',
+      processed: 280,
+      total: 5000,
+      error: 'Gmail API error: 503',
+      startedAt: ago(60 * 1000),
+      updatedAt: ago(1000),
+      completedAt: null,
+    });
+  });
+});
+
+describe('checkpointSyncJob', () => {
+  it('refuses to write to a job that is no longer running', async () => {
+    const eq = vi.fn();
+    const builder = { update: vi.fn(() => builder), eq, select: vi.fn(async () => ({ data: [], error: null })) };
+    eq.mockReturnValue(builder);
+    from.mockReturnValue(builder);
+
+    await expect(checkpointSyncJob('job-1', { processed_count: 100 })).rejects.toThrow('no longer running');
+    expect(eq).toHaveBeenCalledWith('status', 'running');
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// Mock module-level dependencies before importing trash.ts
+vi.mock('@supabase/supabase-js', () => ({
+  createClient: vi.fn(() => ({ from: vi.fn() })),
+}));
+
+import { isPermanentDeleteConfirmed, toTrashItem, TrashedAction } from '../trash.js';
+
+describe('isPermanentDeleteConfirmed', () => {
+  it('only accepts the exact confirmation word', () => {
+    expect(isPermanentDeleteConfirmed('DELETE')).toBe(true);
+    expect(isPermanentDeleteConfirmed('delete')).toBe(false);
+    expect(isPermanentDeleteConfirmed(' DELETE ')).toBe(false);
+    expect(isPermanentDeleteConfirmed(true)).toBe(false);
+    expect(isPermanentDeleteConfirmed(undefined)).toBe(false);
+  });
+});
+
+describe('toTrashItem', () => {
+  const action: TrashedAction = {
+    id: 'action-1',
+    action_type: 'delete',
+    sender_email: 'deals@store.com',
+    sender_name: null,
+    emails_affected: 3,
+    bytes_affected: 2048,
+    gmail_message_ids: ['a', 'b'],
+    created_at: '2025-03-01T12:00:00.000Z',
+  };
+
+  it('counts the logged messages and expires 30 days after the cleanup', () => {
+    expect(toTrashItem(action)).toEqual({
+      actionId: 'action-1',
+      actionType: 'delete',
+      senderEmail: 'deals@store.com',
+      senderName: 'deals@store.com',
+      emailCount: 2,
+      sizeBytes: 2048,
+      createdAt: '2025-03-01T12:00:00.000Z',
+      expiresAt: '2025-03-31T12:00:00.000Z',
+    });
+  });
+
+  it('falls back to emails_affected when no IDs were logged', () => {
+    expect(toTrashItem({ ...action, gmail_message_ids: null }).emailCount).toBe(3);
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * Per-Account Lock
+ *
+ * One lease per email account, shared by everything that rewrites an account's
+ * emails/email_senders rows: Sync Now, the background worker's scheduled syncs
+ * and sync job resumes, bulk cleanups and cleanup jobs, undo, cleanup
+ * schedules and sender rule sweeps. Without it, two of these running at once
+ * can double-insert emails or leave sender counts wrong after recalculation.
+ *
+ * - The lease is email_accounts.sync_locked_until plus a holder token and the
+ *   holder's operation name
+ * - The holder renews the lease every LOCK_RENEW_MS while it works; a crashed
+ *   server or worker stops renewing, so its lock expires after LOCK_TTL_MS and
+ *   the next caller reclaims it
+ * - A full/upgrade sync job owns the mailbox between its steps too, so cleanups
+ *   are refused while one is active
+ * - Conflicting requests get 409 SYNC_IN_PROGRESS with the holder's progress
+ */
+
+import crypto from 'crypto';
+import type { VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { getActiveSyncJob } from './sync-jobs.js';
+import {
+  getAccountSyncProgressEvent,
+  getRunningOperationProgressEvent,
+  ProgressEvent
+} from './progress.js';
+
+const supabase = createClient(
+  process.env.VITE_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+const LOCK_TTL_MS = 2 * 60 * 1000;
+const LOCK_RENEW_MS = 30 * 1000;
+
+export type AccountLockOperation =
+  | 'sync'
+  | 'scheduled_sync'
+  | 'sync_job'
+  | 'delete'
+  | 'archive'
+  | 'delete_older_than'
+  | 'undo'
+  | 'cleanup_schedule'
+  | 'cleanup_job'
+  | 'empty_trash'
+  | 'mark_read'
+  | 'sender_rules';
+
+const SYNC_OPERATIONS: AccountLockOperation[] = ['sync', 'scheduled_sync', 'sync_job'];
+
+export interface AccountLock {
+  accountId: string;
+  token: string;
+  operation: AccountLockOperation;
+  renewTimer: NodeJS.Timeout | null;
+}
+
+export interface AccountLockHolder {
+  operation: AccountLockOperation | null;
+  lockedUntil: string | null;
+}
+
+export function isSyncOperation(operation: AccountLockOperation | null): boolean {
+  return operation !== null && SYNC_OPERATIONS.includes(operation);
+}
+
+/**
+ * Take the account's lock, reclaiming it if the previous holder's lease has
+ * lapsed. Returns null if someone else holds it.
+ */
+export async function acquireAccountLock(
+  accountId: string,
+  operation: AccountLockOperation
+): Promise<AccountLock | null> {
+  const now = new Date();
+  const token = crypto.randomUUID();
+
+  const { data, error } = await supabase
+    .from('email_accounts')
+    .update({
+      sync_locked_until: new Date(now.getTime() + LOCK_TTL_MS).toISOString(),
+      sync_lock_token: token,
+      sync_lock_operation: operation,
+    })
+    .eq('id', accountId)
+    .or(`sync_locked_until.is.null,sync_locked_until.lt.${now.toISOString()}`)
+    .select('id');
+
+  if (error) {
+    console.error(`Failed to lock account ${accountId}:`, error.message);
+    return null;
+  }
+  if (!data || data.length === 0) return null;
+
+  const lock: AccountLock = { accountId, token, operation, renewTimer: null };
+  lock.renewTimer = setInterval(() => { renewAccountLock(lock); }, LOCK_RENEW_MS);
+  // Don't keep a shutting-down process alive just to renew
+  lock.renewTimer.unref?.();
+  return lock;
+}
+
+async function renewAccountLock(lock: AccountLock): Promise<void> {
+  const { data, error } = await supabase
+    .from('email_accounts')
+    .update({ sync_locked_until: new Date(Date.now() + LOCK_TTL_MS).toISOString() })
+    .eq('id', lock.accountId)
+    .eq('sync_lock_token', lock.token)
+    .select('id');
+
+  if (error) {
+    console.error(`Failed to renew lock on account ${lock.accountId}:`, error.message);
+  } else if (!data || data.length === 0) {
+    console.warn(`Lost lock on account ${lock.accountId} (${lock.operation}) - it expired and was reclaimed`);
+  }
+}
+
+/**
+ * Release a lock taken by acquireAccountLock. Safe to call with null, and never
+ * clears a lock that has since been reclaimed by someone else.
+ */
+export async function releaseAccountLock(lock: AccountLock | null): Promise<void> {
+  if (!lock) return;
+  if (lock.renewTimer) {
+    clearInterval(lock.renewTimer);
+    lock.renewTimer = null;
+  }
+
+  const { error } = await supabase
+    .from('email_accounts')
+    .update({ sync_locked_until: null, sync_lock_token: null, sync_lock_operation: null })
+    .eq('id', lock.accountId)
+    .eq('sync_lock_token', lock.token);
+
+  if (error) console.error(`Failed to release lock on account ${lock.accountId}:`, error.message);
+}
+
+export async function getAccountLockHolder(accountId: string): Promise<AccountLockHolder> {
+  const { data } = await supabase
+    .from('email_accounts')
+    .select('sync_locked_until, sync_lock_operation')
+    .eq('id', accountId)
+    .limit(1);
+
+  const account = data?.[0];
+  const held = account?.sync_locked_until && new Date(account.sync_locked_until).getTime() > Date.now();
+  return {
+    operation: held ? account.sync_lock_operation : null,
+    lockedUntil: held ? account.sync_locked_until : null,
+  };
+}
+
+/**
+ * Take the account's lock for a request, or respond 409 SYNC_IN_PROGRESS with
+ * what the holder is doing. Returns null when the response has been sent.
+ */
+export async function lockAccountOrRespond(
+  res: VercelResponse,
+  accountId: string,
+  operation: AccountLockOperation
+): Promise<AccountLock | null> {
+  const lock = await acquireAccountLock(accountId, operation);
+
+  if (lock && !isSyncOperation(operation) && (await getActiveSyncJob(accountId))) {
+    await releaseAccountLock(lock);
+    await respondAccountBusy(res, accountId, { operation: 'sync_job', lockedUntil: null });
+    return null;
+  }
+
+  if (!lock) {
+    await respondAccountBusy(res, accountId, await getAccountLockHolder(accountId));
+    return null;
+  }
+
+  return lock;
+}
+
+async function respondAccountBusy(res: VercelResponse, accountId: string, holder: AccountLockHolder) {
+  let progress: ProgressEvent | null = null;
+  try {
+    progress = isSyncOperation(holder.operation)
+      ? await getAccountSyncProgressEvent(accountId)
+      : await getRunningOperationProgressEvent(accountId);
+  } catch (error: any) {
+    console.error('Failed to load lock holder progress:', error.message);
+  }
+
+  const syncing = isSyncOperation(holder.operation);
+  return res.status(409).json({
+    error: syncing
+      ? 'A sync is already running for this account. Please wait for it to finish.'
+      : 'A cleanup is already running for this account. Please wait for it to finish.',
+    code: 'SYNC_IN_PROGRESS',
+    operation: holder.operation,
+    lockedUntil: holder.lockedUntil,
+    progress,
+  });
+}
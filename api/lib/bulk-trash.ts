@@ -0,0 +1,275 @@
+/**
+ * Bulk Trash of Stored Emails
+ *
+ * The shared second half of the endpoints that pick individual stored emails
+ * to delete rather than whole senders - emails over a size
+ * (api/cleanup/delete-large.ts), a mailing list (api/cleanup/delete-list.ts)
+ * and emails older than N days (api/cleanup/delete-older-than.ts). Each
+ * endpoint selects its emails; trashStoredEmails does the rest:
+ *
+ * - The per-account lock, then the free trial check (so a 409 is never charged)
+ * - Live progress, and trashing at most MAX_TRASH_PER_REQUEST emails through
+ *   the account's provider (`hasMore` tells the client to call again)
+ * - Removing the trashed rows locally and recalculating the senders' stats
+ * - The cleanup_actions entry (so the client can undo) and activity_log entry
+ * - The response, including the usual error responses
+ *
+ * Trashed mail still counts against the user's storage until it is purged
+ * (see api/lib/trash.ts), so sizes are reported as `trashedBytes`.
+ */
+
+import type { VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { getMailProvider } from '../providers/index.js';
+import type { MailAccount } from './mail-provider.js';
+import { checkFreeTrialOrPaid } from './free-trial.js';
+import { batchRecalculateSenderStats } from './sender-stats.js';
+import { respondProviderUnavailable } from './provider-quota.js';
+import { lockAccountOrRespond, releaseAccountLock, AccountLock } from './account-lock.js';
+import { startOperationProgress, updateOperationProgress, finishOperationProgress, ProgressError } from './progress.js';
+import { sumSizeBytes } from './email-sizes.js';
+
+const supabase = createClient(
+  process.env.VITE_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+export const MAX_TRASH_PER_REQUEST = 1000;
+
+export interface StoredEmail {
+  gmail_message_id: string;
+  sender_email: string;
+  sender_name: string;
+  size_bytes: number | null;
+}
+
+export interface TrashStoredEmailsOptions {
+  // Lock and progress operation
+  operation: 'delete' | 'delete_older_than';
+  // Client-generated ID for GET /api/progress/stream (ignored unless a UUID)
+  operationId: unknown;
+  // What was deleted - shown as the progress sender and logged as the action's sender name
+  label: string;
+  // Ends the activity_log description, e.g. "over 5 MB" in "Deleted 12 emails over 5 MB"
+  description: string;
+  // Endpoint-specific activity_log metadata and response fields
+  metadata?: Record<string, unknown>;
+  response?: Record<string, unknown>;
+  // 500 response message, e.g. 'Failed to delete large emails'
+  errorMessage: string;
+}
+
+/**
+ * Trash the first MAX_TRASH_PER_REQUEST of the given emails (in the order
+ * given) and send the response. Call it once the endpoint has selected the
+ * emails and answered any dry run.
+ */
+export async function trashStoredEmails(
+  res: VercelResponse,
+  user: { userId: string; email: string },
+  account: MailAccount & { connection_status: string | null },
+  emails: StoredEmail[],
+  options: TrashStoredEmailsOptions
+): Promise<void> {
+  // Live progress for GET /api/progress/stream?operationId=... (null if the client didn't ask)
+  let operationId: string | null = null;
+  let lock: AccountLock | null = null;
+
+  try {
+    if (account.connection_status !== 'connected') {
+      res.status(400).json({
+        error: 'Email account is not connected',
+        code: 'NOT_CONNECTED'
+      });
+      return;
+    }
+
+    if (emails.length === 0) {
+      res.status(200).json({
+        success: true,
+        ...options.response,
+        totalDeleted: 0,
+        failedCount: 0,
+        trashedBytes: 0,
+        hasMore: false,
+      });
+      return;
+    }
+
+    const toDelete = emails.slice(0, MAX_TRASH_PER_REQUEST);
+    const messageIds = toDelete.map(e => e.gmail_message_id);
+
+    // One sync or cleanup per account at a time - 409 SYNC_IN_PROGRESS otherwise
+    lock = await lockAccountOrRespond(res, account.id, options.operation);
+    if (!lock) return;
+
+    // Resolve the account's mail provider (refreshes tokens / decrypts credentials)
+    const provider = await getMailProvider(user.userId, account);
+
+    // Free trial enforcement - charged only once the lock is held, so a busy
+    // account (409) costs nothing
+    let freeTrialRemaining: number | undefined;
+    {
+      const trialCheck = await checkFreeTrialOrPaid(supabase, user.userId, user.email, toDelete.length);
+      if (trialCheck.isPastDue) {
+        res.status(402).json({
+          error: 'Your payment failed. Please update your payment method to continue.',
+          code: 'PAYMENT_PAST_DUE',
+        });
+        return;
+      }
+      if (!trialCheck.isPaid) {
+        freeTrialRemaining = trialCheck.remaining;
+      }
+      if (!trialCheck.allowed) {
+        res.status(403).json({
+          error: `Free trial limit reached. You have ${trialCheck.remaining} actions remaining but this requires ${toDelete.length}.`,
+          code: 'FREE_TRIAL_EXCEEDED',
+          freeTrialRemaining: trialCheck.remaining,
+        });
+        return;
+      }
+    }
+
+    operationId = await startOperationProgress(options.operationId, user.userId, account.id, options.operation, toDelete.length);
+    await updateOperationProgress(operationId, { phase: 'trashing', currentSender: options.label });
+
+    const { success: trashedIds, failed, movedIds } = await provider.trashMessages(messageIds);
+    // Outlook/IMAP re-key moved messages - log the trashed copies so undo can find them
+    const loggedIds = trashedIds.map(id => movedIds[id] || id);
+    const failedCount = failed.length;
+
+    const progressErrors: ProgressError[] = failedCount > 0
+      ? [{ message: `${failedCount} email${failedCount > 1 ? 's' : ''} could not be moved to trash` }]
+      : [];
+    await updateOperationProgress(operationId, { phase: 'updating', processed: trashedIds.length, errors: progressErrors });
+
+    // Remove trashed emails from local table
+    for (let i = 0; i < trashedIds.length; i += 100) {
+      const batch = trashedIds.slice(i, i + 100);
+      const { error } = await supabase
+        .from('emails')
+        .delete()
+        .eq('email_account_id', account.id)
+        .in('gmail_message_id', batch);
+      if (error) console.error('Failed to delete trashed emails from local DB:', error.message);
+    }
+
+    // Recalculate stats (and size totals) for every sender we touched
+    const trashedSet = new Set(trashedIds);
+    const affectedSenders = new Set<string>();
+    const affectedEmails = new Set<string>();
+    for (const email of toDelete) {
+      if (trashedSet.has(email.gmail_message_id)) {
+        affectedSenders.add(`${email.sender_email}|||${email.sender_name}`);
+        affectedEmails.add(email.sender_email);
+      }
+    }
+    await batchRecalculateSenderStats(user.userId, account.id, affectedSenders);
+
+    const totalDeleted = trashedIds.length;
+    const trashedBytes = sumSizeBytes(toDelete, trashedIds);
+
+    // Log cleanup action (ID is returned so the client can undo it)
+    const { data: cleanupAction } = await supabase
+      .from('cleanup_actions')
+      .insert({
+        user_id: user.userId,
+        email_account_id: account.id,
+        action_type: 'delete',
+        sender_email: affectedEmails.size === 1 ? [...affectedEmails][0] : 'multiple',
+        sender_name: options.label,
+        emails_affected: totalDeleted,
+        bytes_affected: trashedBytes,
+        gmail_message_ids: loggedIds,
+        status: 'completed',
+        completed_at: new Date().toISOString()
+      })
+      .select('id')
+      .single();
+
+    // Update user stats (increment emails_processed)
+    const { data: currentStats } = await supabase
+      .from('user_stats')
+      .select('emails_processed, unsubscribed')
+      .eq('user_id', user.userId)
+      .single();
+
+    await supabase
+      .from('user_stats')
+      .upsert({
+        user_id: user.userId,
+        emails_processed: (currentStats?.emails_processed || 0) + totalDeleted,
+        unsubscribed: currentStats?.unsubscribed || 0,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'user_id' });
+
+    // Update email account processed count (increment)
+    const { data: currentAccount } = await supabase
+      .from('email_accounts')
+      .select('processed_emails')
+      .eq('id', account.id)
+      .single();
+
+    if (currentAccount) {
+      await supabase
+        .from('email_accounts')
+        .update({
+          processed_emails: (currentAccount.processed_emails || 0) + totalDeleted,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', account.id);
+    }
+
+    // Log to activity_log for Recent Activity display
+    if (totalDeleted > 0) {
+      await supabase
+        .from('activity_log')
+        .insert({
+          user_id: user.userId,
+          action_type: 'delete',
+          description: `Deleted ${totalDeleted} email${totalDeleted > 1 ? 's' : ''} ${options.description}`,
+          metadata: { totalDeleted, ...options.metadata, trashedBytes, senderCount: affectedSenders.size }
+        });
+    }
+
+    const hasMore = emails.length > MAX_TRASH_PER_REQUEST;
+    await finishOperationProgress(operationId, {
+      summary: { totalDeleted, failedCount, trashedBytes, senderCount: affectedSenders.size, hasMore }
+    }, progressErrors);
+
+    res.status(200).json({
+      success: true,
+      ...options.response,
+      totalDeleted,
+      failedCount,
+      trashedBytes,
+      actionId: cleanupAction?.id,
+      hasMore,
+      ...(freeTrialRemaining !== undefined && { freeTrialRemaining }),
+    });
+
+  } catch (error: any) {
+    console.error(`${options.errorMessage}:`, error);
+    await finishOperationProgress(operationId, { error: error.message });
+
+    // Handle token errors
+    if (error.message.includes('not connected')) {
+      res.status(401).json({
+        error: 'Email connection expired. Please reconnect.',
+        code: 'TOKEN_EXPIRED'
+      });
+      return;
+    }
+
+    // Provider outage (circuit open) - fail fast so the client can retry later
+    if (respondProviderUnavailable(res, error)) return;
+
+    res.status(500).json({
+      error: options.errorMessage,
+      code: 'DELETE_ERROR'
+    });
+  } finally {
+    await releaseAccountLock(lock);
+  }
+}
@@ -0,0 +1,971 @@
+/**
+ * Bulk Cleanup Jobs
+ *
+ * Delete/archive for any number of senders - an explicit selection or a filter
+ * such as "promotional senders with more than 20 emails" - without the
+ * 10-sender cap of the synchronous cleanup endpoints.
+ *
+ * - The target senders are snapshotted into cleanup_job_senders when the job is
+ *   created, so the job works through a fixed list even if a sync runs between steps
+ * - Senders are processed one at a time under the account lock; each keeps its
+ *   own status, counts and error for the final report
+ * - Provider batches that fail are retried with backoff before the remaining
+ *   emails are reported as failed; failed senders can be retried later
+ * - locked_until is a short lease so two requests/workers never run the same job;
+ *   queued jobs and jobs whose runner went away are picked up by the worker
+ * - Every sender gets its own cleanup_actions row, so each can be undone
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { getMailProvider } from '../providers/index.js';
+import type { MailProvider, MoveResult } from './mail-provider.js';
+import { batchRecalculateSenderStats } from './sender-stats.js';
+import { acquireAccountLock, releaseAccountLock, AccountLock } from './account-lock.js';
+import { getActiveSyncJob } from './sync-jobs.js';
+import { isProviderUnavailableError } from './provider-quota.js';
+import { getRegistrableDomain, normalizeDomain } from './sender-domains.js';
+import { sumSizeBytes } from './email-sizes.js';
+import { parseGroupIds, toCleanupTargets, mergeCleanupTargets, CleanupTarget } from './sender-groups.js';
+
+const supabase = createClient(
+  process.env.VITE_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+export const MAX_JOB_SENDERS = 5000;
+// Lease per runner - renewed after every sender and provider batch
+const LEASE_MS = 2 * 60 * 1000;
+// Consecutive failed runs before a job is given up on
+const MAX_FAILURES = 5;
+// Message IDs sent to the provider per call
+const BATCH_SIZE = 500;
+// Attempts per batch for the messages the provider couldn't move
+const MAX_BATCH_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 2000;
+// Senders loaded per round trip while working through a job
+const SENDER_PAGE_SIZE = 50;
+// Jobs run per worker tick, and how long each may run before yielding
+const MAX_JOBS_PER_TICK = 5;
+export const WORKER_JOB_BUDGET_MS = 2 * 60 * 1000;
+
+export type CleanupJobAction = 'delete' | 'archive';
+export type CleanupJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+export type CleanupJobSenderStatus = 'pending' | 'completed' | 'partial' | 'failed';
+
+export interface CleanupJobFilter {
+  newslettersOnly: boolean;
+  promotionalOnly: boolean;
+  // Only senders with more than this many emails
+  minEmailCount: number | null;
+  // Only senders under this registrable domain, subdomains included (see sender-domains.ts)
+  domain?: string;
+}
+
+export interface CleanupJobInput {
+  action: CleanupJobAction;
+  // Explicit selection (senderNames narrows to the name+email grouping) ...
+  senderEmails: string[] | null;
+  senderNames: (string | null)[] | null;
+  // ... and/or merged senders, expanded to their members when the job is created ...
+  groupIds: string[];
+  // ... or a filter over the account's senders
+  filter: CleanupJobFilter | null;
+}
+
+export interface CleanupJob {
+  id: string;
+  user_id: string;
+  email_account_id: string;
+  action: CleanupJobAction;
+  status: CleanupJobStatus;
+  filter: CleanupJobFilter | null;
+  total_senders: number;
+  processed_senders: number;
+  failed_senders: number;
+  total_emails: number;
+  affected_emails: number;
+  failed_emails: number;
+  failure_count: number;
+  error: string | null;
+  locked_until: string | null;
+  created_at: string;
+  started_at: string | null;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+export interface CleanupJobSender {
+  id: string;
+  job_id: string;
+  position: number;
+  sender_email: string;
+  sender_name: string | null;
+  status: CleanupJobSenderStatus;
+  email_count: number;
+  affected_count: number;
+  failed_count: number;
+  error: string | null;
+  cleanup_action_id: string | null;
+}
+
+export interface CleanupJobSenderResponse {
+  email: string;
+  name: string | null;
+  status: CleanupJobSenderStatus;
+  emailCount: number;
+  affectedCount: number;
+  failedCount: number;
+  error: string | null;
+  actionId: string | null;
+}
+
+export interface CleanupJobResponse {
+  id: string;
+  action: CleanupJobAction;
+  status: CleanupJobStatus;
+  filter: CleanupJobFilter | null;
+  totalSenders: number;
+  processedSenders: number;
+  failedSenders: number;
+  totalEmails: number;
+  affectedEmails: number;
+  failedEmails: number;
+  error: string | null;
+  createdAt: string;
+  startedAt: string | null;
+  updatedAt: string;
+  completedAt: string | null;
+  senders?: CleanupJobSenderResponse[];
+}
+
+export interface CleanupJobRunResult {
+  jobId: string;
+  status: 'completed' | 'paused' | 'busy' | 'cancelled' | 'failed';
+  message?: string;
+}
+
+interface ResolvedSender {
+  email: string;
+  name: string | null;
+  count: number;
+}
+
+export function toCleanupJobResponse(job: CleanupJob, senders?: CleanupJobSender[]): CleanupJobResponse {
+  return {
+    id: job.id,
+    action: job.action,
+    status: job.status,
+    filter: job.filter,
+    totalSenders: job.total_senders,
+    processedSenders: job.processed_senders,
+    failedSenders: job.failed_senders,
+    totalEmails: job.total_emails,
+    affectedEmails: job.affected_emails,
+    failedEmails: job.failed_emails,
+    error: job.error,
+    createdAt: job.created_at,
+    startedAt: job.started_at,
+    updatedAt: job.updated_at,
+    completedAt: job.completed_at,
+    ...(senders && {
+      senders: senders.map(s => ({
+        email: s.sender_email,
+        name: s.sender_name,
+        status: s.status,
+        emailCount: s.email_count,
+        affectedCount: s.affected_count,
+        failedCount: s.failed_count,
+        error: s.error,
+        actionId: s.cleanup_action_id,
+      })),
+    }),
+  };
+}
+
+export function isCleanupJobFinished(job: Pick<CleanupJob, 'status'>): boolean {
+  return job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled';
+}
+
+/**
+ * Validate a POST /api/cleanup/jobs body. Exactly one of an explicit selection
+ * (senderEmails and/or groupIds) or filter must be given.
+ */
+export function validateCleanupJobInput(body: any): { input?: CleanupJobInput; error?: string } {
+  const action = body?.action ?? 'delete';
+  if (action !== 'delete' && action !== 'archive') {
+    return { error: 'action must be "delete" or "archive"' };
+  }
+
+  const hasSenders = body.senderEmails !== undefined && body.senderEmails !== null;
+  const hasGroups = (body.groupIds !== undefined && body.groupIds !== null)
+    || (body.groupId !== undefined && body.groupId !== null);
+  const hasFilter = body.filter !== undefined && body.filter !== null;
+  if ((hasSenders || hasGroups) === hasFilter) {
+    return { error: 'Provide either senderEmails (or groupIds) or filter' };
+  }
+
+  if (hasSenders || hasGroups) {
+    const { groupIds, error: groupIdsError } = parseGroupIds(body, MAX_JOB_SENDERS);
+    if (!groupIds) {
+      return { error: groupIdsError };
+    }
+
+    const senderEmails = hasSenders ? body.senderEmails : [];
+    const { senderNames } = body;
+    if (!Array.isArray(senderEmails) || (senderEmails.length === 0 && groupIds.length === 0)) {
+      return { error: 'senderEmails must be a non-empty list' };
+    }
+    if (senderEmails.length > MAX_JOB_SENDERS) {
+      return { error: `A cleanup job can include at most ${MAX_JOB_SENDERS} senders` };
+    }
+    if (senderEmails.some((s: unknown) => typeof s !== 'string' || !s.trim())) {
+      return { error: 'senderEmails must contain email addresses' };
+    }
+    // senderNames is optional but if provided must match senderEmails length
+    const hasSenderNames = Array.isArray(senderNames) && senderNames.length === senderEmails.length;
+    return {
+      input: {
+        action,
+        senderEmails: senderEmails.map((s: string) => s.trim()),
+        senderNames: hasSenderNames ? senderNames.map((n: unknown) => typeof n === 'string' && n ? n : null) : null,
+        groupIds,
+        filter: null,
+      },
+    };
+  }
+
+  const { filter } = body;
+  if (typeof filter !== 'object' || Array.isArray(filter)) {
+    return { error: 'filter must be an object' };
+  }
+  const minEmailCount = filter.minEmailCount ?? null;
+  if (minEmailCount !== null && (!Number.isInteger(minEmailCount) || minEmailCount < 0)) {
+    return { error: 'filter.minEmailCount must be a whole number' };
+  }
+  const domain = filter.domain !== undefined && filter.domain !== null ? normalizeDomain(filter.domain) : null;
+  if (filter.domain !== undefined && filter.domain !== null && !domain) {
+    return { error: 'filter.domain must be a valid domain name' };
+  }
+  const normalized: CleanupJobFilter = {
+    newslettersOnly: filter.newslettersOnly === true,
+    promotionalOnly: filter.promotionalOnly === true,
+    minEmailCount,
+    ...(domain && { domain }),
+  };
+  // A filter that matches every sender is almost certainly a mistake
+  if (!normalized.newslettersOnly && !normalized.promotionalOnly && normalized.minEmailCount === null && !normalized.domain) {
+    return { error: 'filter needs at least one of newslettersOnly, promotionalOnly, minEmailCount or domain' };
+  }
+
+  return { input: { action, senderEmails: null, senderNames: null, groupIds: [], filter: normalized } };
+}
+
+/**
+ * Senders (email + name grouping) a job will work through, with their cached
+ * email counts. A selected address with no email_senders row is still
+ * included, so the provider fallback can search the mailbox for it.
+ * `groupTargets` are the members of input.groupIds (see expandSenderGroupTargets).
+ */
+export async function resolveCleanupJobSenders(
+  accountId: string,
+  input: CleanupJobInput,
+  groupTargets: CleanupTarget[] = []
+): Promise<ResolvedSender[]> {
+  if (input.filter) {
+    const { filter } = input;
+    const senders: ResolvedSender[] = [];
+    // Paginated to handle Supabase 1000-row limit
+    for (let page = 0; ; page++) {
+      let query = supabase
+        .from('email_senders')
+        .select('sender_email, sender_name, email_count')
+        .eq('email_account_id', accountId)
+        .gt('email_count', filter.minEmailCount ?? 0);
+
+      if (filter.newslettersOnly) query = query.eq('is_newsletter', true);
+      if (filter.promotionalOnly) query = query.eq('is_promotional', true);
+      // Narrow to the domain and its subdomains; the exact PSL check happens below
+      if (filter.domain) {
+        const escaped = filter.domain.replace(/[%_\\]/g, '\\$&');
+        query = query.or(`sender_email.ilike.%@${escaped},sender_email.ilike.%.${escaped}`);
+      }
+
+      const { data, error } = await query
+        .order('email_count', { ascending: false })
+        .order('sender_email', { ascending: true })
+        .range(page * 1000, (page + 1) * 1000 - 1);
+
+      if (error) throw new Error(`Failed to load senders for cleanup job: ${error.message}`);
+      for (const row of data || []) {
+        if (filter.domain && getRegistrableDomain(row.sender_email) !== filter.domain) continue;
+        senders.push({ email: row.sender_email, name: row.sender_name, count: row.email_count || 0 });
+      }
+      if (!data || data.length < 1000) break;
+    }
+    return senders.slice(0, MAX_JOB_SENDERS);
+  }
+
+  const targets = mergeCleanupTargets(toCleanupTargets(input.senderEmails || [], input.senderNames), groupTargets);
+  const rowsByEmail = new Map<string, { sender_name: string; email_count: number }[]>();
+  const uniqueEmails = [...new Set(targets.map(t => t.email))];
+  for (let i = 0; i < uniqueEmails.length; i += 100) {
+    const chunk = uniqueEmails.slice(i, i + 100);
+    for (let page = 0; ; page++) {
+      const { data, error } = await supabase
+        .from('email_senders')
+        .select('sender_email, sender_name, email_count')
+        .eq('email_account_id', accountId)
+        .in('sender_email', chunk)
+        .range(page * 1000, (page + 1) * 1000 - 1);
+
+      if (error) throw new Error(`Failed to load senders for cleanup job: ${error.message}`);
+      for (const row of data || []) {
+        const rows = rowsByEmail.get(row.sender_email) || [];
+        rows.push({ sender_name: row.sender_name, email_count: row.email_count || 0 });
+        rowsByEmail.set(row.sender_email, rows);
+      }
+      if (!data || data.length < 1000) break;
+    }
+  }
+
+  const senders: ResolvedSender[] = [];
+  const seen = new Set<string>();
+  const add = (sender: ResolvedSender) => {
+    const key = `${sender.email}|||${sender.name ?? ''}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    senders.push(sender);
+  };
+
+  targets.forEach(({ email, name }) => {
+    const rows = rowsByEmail.get(email) || [];
+    if (name) {
+      const row = rows.find(r => r.sender_name === name);
+      add({ email, name, count: row?.email_count || 0 });
+    } else if (rows.length > 0) {
+      // No name given - every name+email grouping for the address
+      for (const row of rows) add({ email, name: row.sender_name, count: row.email_count });
+    } else {
+      add({ email, name: null, count: 0 });
+    }
+  });
+
+  return senders.slice(0, MAX_JOB_SENDERS);
+}
+
+/**
+ * The account's queued or running job, if any
+ */
+export async function getActiveCleanupJob(accountId: string): Promise<CleanupJob | null> {
+  const { data } = await supabase
+    .from('cleanup_jobs')
+    .select('*')
+    .eq('email_account_id', accountId)
+    .in('status', ['queued', 'running'])
+    .limit(1);
+  return (data?.[0] as CleanupJob) || null;
+}
+
+export async function getCleanupJob(userId: string, jobId: string): Promise<CleanupJob | null> {
+  const { data } = await supabase
+    .from('cleanup_jobs')
+    .select('*')
+    .eq('id', jobId)
+    .eq('user_id', userId)
+    .limit(1);
+  return (data?.[0] as CleanupJob) || null;
+}
+
+/**
+ * Every sender of a job in processing order, for the final report
+ */
+export async function getCleanupJobSenders(jobId: string): Promise<CleanupJobSender[]> {
+  const senders: CleanupJobSender[] = [];
+  for (let page = 0; ; page++) {
+    const { data, error } = await supabase
+      .from('cleanup_job_senders')
+      .select('*')
+      .eq('job_id', jobId)
+      .order('position', { ascending: true })
+      .range(page * 1000, (page + 1) * 1000 - 1);
+
+    if (error) throw new Error(`Failed to load cleanup job senders: ${error.message}`);
+    senders.push(...((data || []) as CleanupJobSender[]));
+    if (!data || data.length < 1000) break;
+  }
+  return senders;
+}
+
+/**
+ * Create a queued job for the resolved senders. Returns null if the account
+ * already has an unfinished job.
+ */
+export async function createCleanupJob(
+  userId: string,
+  accountId: string,
+  input: CleanupJobInput,
+  senders: ResolvedSender[]
+): Promise<CleanupJob | null> {
+  const { data: job, error } = await supabase
+    .from('cleanup_jobs')
+    .insert({
+      user_id: userId,
+      email_account_id: accountId,
+      action: input.action,
+      status: 'queued',
+      filter: input.filter,
+      total_senders: senders.length,
+      total_emails: senders.reduce((sum, s) => sum + s.count, 0),
+    })
+    .select('*')
+    .single();
+
+  if (error) {
+    // Another request created a job for this account first
+    if (error.code === '23505') return null;
+    throw new Error(`Failed to create cleanup job: ${error.message}`);
+  }
+
+  for (let i = 0; i < senders.length; i += 500) {
+    const { error: sendersError } = await supabase
+      .from('cleanup_job_senders')
+      .insert(senders.slice(i, i + 500).map((s, j) => ({
+        job_id: job.id,
+        position: i + j,
+        sender_email: s.email,
+        sender_name: s.name,
+        email_count: s.count,
+      })));
+
+    if (sendersError) {
+      await supabase.from('cleanup_jobs').delete().eq('id', job.id);
+      throw new Error(`Failed to create cleanup job: ${sendersError.message}`);
+    }
+  }
+
+  return job as CleanupJob;
+}
+
+/**
+ * Cancel an unfinished job. The runner stops before its next sender.
+ */
+export async function cancelCleanupJob(userId: string, jobId: string): Promise<CleanupJob | null> {
+  const now = new Date().toISOString();
+  const { data } = await supabase
+    .from('cleanup_jobs')
+    .update({ status: 'cancelled', updated_at: now, completed_at: now })
+    .eq('id', jobId)
+    .eq('user_id', userId)
+    .in('status', ['queued', 'running'])
+    .select('*');
+  return (data?.[0] as CleanupJob) || null;
+}
+
+/**
+ * Queue a finished job's failed and partial senders again. Returns null if
+ * there is nothing to retry.
+ */
+export async function retryCleanupJob(job: CleanupJob): Promise<CleanupJob | null> {
+  const retried = (await getCleanupJobSenders(job.id)).filter(s => s.status === 'failed' || s.status === 'partial');
+  if (retried.length === 0) return null;
+
+  const { data, error } = await supabase
+    .from('cleanup_jobs')
+    .update({
+      status: 'queued',
+      processed_senders: Math.max(0, job.processed_senders - retried.length),
+      failed_senders: 0,
+      failed_emails: 0,
+      failure_count: 0,
+      error: null,
+      locked_until: null,
+      updated_at: new Date().toISOString(),
+      completed_at: null,
+    })
+    .eq('id', job.id)
+    .in('status', ['completed', 'failed'])
+    .select('*');
+
+  if (error) {
+    // Another job was started for this account in the meantime
+    if (error.code === '23505') return null;
+    throw new Error(`Failed to retry cleanup job: ${error.message}`);
+  }
+  if (!data || data.length === 0) return null;
+
+  const ids = retried.map(s => s.id);
+  for (let i = 0; i < ids.length; i += 100) {
+    await supabase
+      .from('cleanup_job_senders')
+      .update({ status: 'pending', updated_at: new Date().toISOString() })
+      .in('id', ids.slice(i, i + 100));
+  }
+
+  return data[0] as CleanupJob;
+}
+
+/**
+ * Take the job's lease. Returns false if another runner holds it.
+ */
+async function claimCleanupJob(jobId: string): Promise<boolean> {
+  const now = new Date();
+  const { data, error } = await supabase
+    .from('cleanup_jobs')
+    .update({ locked_until: new Date(now.getTime() + LEASE_MS).toISOString() })
+    .eq('id', jobId)
+    .in('status', ['queued', 'running'])
+    .or(`locked_until.is.null,locked_until.lt.${now.toISOString()}`)
+    .select('id');
+
+  if (error) {
+    console.error(`Failed to lock cleanup job ${jobId}:`, error.message);
+    return false;
+  }
+  return !!data && data.length > 0;
+}
+
+/**
+ * Persist the job's counters and renew the lease. Returns false once the job
+ * has been cancelled, so the runner can stop.
+ */
+async function checkpointCleanupJob(
+  job: CleanupJob,
+  fields: Partial<Pick<CleanupJob, 'status' | 'started_at' | 'processed_senders' | 'failed_senders' | 'affected_emails' | 'failed_emails'>> = {}
+): Promise<boolean> {
+  const now = Date.now();
+  const { data, error } = await supabase
+    .from('cleanup_jobs')
+    .update({
+      ...fields,
+      failure_count: 0,
+      error: null,
+      locked_until: new Date(now + LEASE_MS).toISOString(),
+      updated_at: new Date(now).toISOString(),
+    })
+    .eq('id', job.id)
+    .in('status', ['queued', 'running'])
+    .select('id');
+
+  if (error) throw new Error(`Failed to checkpoint cleanup job: ${error.message}`);
+  Object.assign(job, fields);
+  return !!data && data.length > 0;
+}
+
+async function releaseCleanupJob(jobId: string): Promise<void> {
+  await supabase
+    .from('cleanup_jobs')
+    .update({ locked_until: null })
+    .eq('id', jobId);
+}
+
+/**
+ * Record a failed run. The job stays resumable until it has failed
+ * MAX_FAILURES times in a row, then it is marked failed.
+ */
+async function recordCleanupJobFailure(job: CleanupJob, message: string): Promise<boolean> {
+  const failureCount = (job.failure_count || 0) + 1;
+  const giveUp = failureCount >= MAX_FAILURES;
+
+  await supabase
+    .from('cleanup_jobs')
+    .update({
+      failure_count: failureCount,
+      error: message,
+      locked_until: null,
+      updated_at: new Date().toISOString(),
+      ...(giveUp && { status: 'failed', completed_at: new Date().toISOString() }),
+    })
+    .eq('id', job.id)
+    .in('status', ['queued', 'running']);
+
+  return giveUp;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Move one batch, retrying whatever the provider reports as failed
+ */
+async function moveBatchWithRetry(
+  provider: MailProvider,
+  action: CleanupJobAction,
+  messageIds: string[]
+): Promise<MoveResult> {
+  const success: string[] = [];
+  const movedIds: Record<string, string> = {};
+  let remaining = messageIds;
+
+  for (let attempt = 1; attempt <= MAX_BATCH_ATTEMPTS && remaining.length > 0; attempt++) {
+    if (attempt > 1) await sleep(RETRY_DELAY_MS * 2 ** (attempt - 2));
+
+    const result = action === 'delete'
+      ? await provider.trashMessages(remaining)
+      : await provider.archiveMessages(remaining);
+    success.push(...result.success);
+    Object.assign(movedIds, result.movedIds || {});
+    remaining = result.failed;
+  }
+
+  return { success, failed: remaining, movedIds };
+}
+
+/**
+ * The sender's emails in the local table (paginated to handle Supabase 1000-row limit)
+ */
+async function loadSenderEmails(
+  accountId: string,
+  sender: CleanupJobSender
+): Promise<{ gmail_message_id: string; sender_name: string; size_bytes: number | null; labels: string[] | null }[]> {
+  const emails: { gmail_message_id: string; sender_name: string; size_bytes: number | null; labels: string[] | null }[] = [];
+  for (let page = 0; ; page++) {
+    let query = supabase
+      .from('emails')
+      .select('gmail_message_id, sender_name, size_bytes, labels')
+      .eq('email_account_id', accountId)
+      .eq('sender_email', sender.sender_email);
+
+    if (sender.sender_name) query = query.eq('sender_name', sender.sender_name);
+
+    const { data, error } = await query
+      .order('gmail_message_id', { ascending: true })
+      .range(page * 1000, (page + 1) * 1000 - 1);
+
+    if (error) throw new Error(`Failed to load emails for ${sender.sender_email}: ${error.message}`);
+    emails.push(...(data || []));
+    if (!data || data.length < 1000) break;
+  }
+  return emails;
+}
+
+interface SenderOutcome {
+  status: CleanupJobSenderStatus;
+  affected: number;
+  failed: number;
+  error: string | null;
+  actionId: string | null;
+}
+
+/**
+ * Delete/archive everything from one sender and log it as a cleanup action
+ */
+async function processSender(
+  job: CleanupJob,
+  provider: MailProvider,
+  sender: CleanupJobSender
+): Promise<SenderOutcome> {
+  const accountId = job.email_account_id;
+  const emails = await loadSenderEmails(accountId, sender);
+
+  const loggedIds: string[] = [];
+  let affected = 0;
+  let failed = 0;
+  let affectedBytes = 0;
+
+  if (emails.length > 0) {
+    const namesById = new Map(emails.map(e => [e.gmail_message_id, e.sender_name]));
+    const labelsById = new Map(emails.map(e => [e.gmail_message_id, e.labels || []]));
+    const ids = emails.map(e => e.gmail_message_id);
+    const affectedSenders = new Set<string>();
+
+    for (let i = 0; i < ids.length; i += BATCH_SIZE) {
+      const batch = ids.slice(i, i + BATCH_SIZE);
+      const { success, failed: batchFailed, movedIds } = await moveBatchWithRetry(provider, job.action, batch);
+      affected += success.length;
+      affectedBytes += sumSizeBytes(emails, success);
+      failed += batchFailed.length;
+      // Outlook/IMAP re-key moved messages - log the moved copies so undo can find them
+      loggedIds.push(...success.map(id => movedIds[id] || id));
+
+      // Keep the local table in step with the mailbox. Gmail keeps archived
+      // emails in the synced mailbox, so their rows stay minus INBOX (same as archive.ts)
+      if (job.action === 'delete' || !provider.keepsArchivedRows) {
+        for (let j = 0; j < success.length; j += 100) {
+          await supabase
+            .from('emails')
+            .delete()
+            .eq('email_account_id', accountId)
+            .in('gmail_message_id', success.slice(j, j + 100));
+        }
+      } else {
+        for (let j = 0; j < success.length; j += 10) {
+          await Promise.all(success.slice(j, j + 10).map(id =>
+            supabase
+              .from('emails')
+              .update({ labels: (labelsById.get(id) || []).filter(l => l !== 'INBOX') })
+              .eq('email_account_id', accountId)
+              .eq('gmail_message_id', id)
+          ));
+        }
+      }
+      for (const id of success) affectedSenders.add(`${sender.sender_email}|||${namesById.get(id)}`);
+
+      await checkpointCleanupJob(job);
+    }
+
+    await batchRecalculateSenderStats(job.user_id, accountId, affectedSenders);
+  } else {
+    // Fallback: no local emails found, search the mailbox directly
+    const result = job.action === 'delete'
+      ? provider.trashAllFromSender && await provider.trashAllFromSender(sender.sender_email)
+      : provider.archiveAllFromSender && await provider.archiveAllFromSender(sender.sender_email);
+    if (result) {
+      affected = result.count;
+      loggedIds.push(...result.messageIds);
+    }
+  }
+
+  const error = failed > 0
+    ? `${failed} email${failed > 1 ? 's' : ''} could not be ${job.action === 'delete' ? 'deleted' : 'archived'}`
+    : null;
+
+  let actionId: string | null = null;
+  if (affected > 0) {
+    // Log cleanup action (one per sender, so each can be undone)
+    const { data: cleanupAction } = await supabase
+      .from('cleanup_actions')
+      .insert({
+        user_id: job.user_id,
+        email_account_id: accountId,
+        action_type: job.action,
+        sender_email: sender.sender_email,
+        sender_name: sender.sender_name || sender.sender_email,
+        emails_affected: affected,
+        // Archived mail still takes up space
+        bytes_affected: job.action === 'delete' ? affectedBytes : 0,
+        gmail_message_ids: loggedIds,
+        status: 'completed',
+        completed_at: new Date().toISOString()
+      })
+      .select('id')
+      .single();
+    actionId = cleanupAction?.id || null;
+  } else if (failed > 0) {
+    await supabase
+      .from('cleanup_actions')
+      .insert({
+        user_id: job.user_id,
+        email_account_id: accountId,
+        action_type: job.action,
+        sender_email: sender.sender_email,
+        sender_name: sender.sender_name || sender.sender_email,
+        emails_affected: 0,
+        status: 'failed',
+        error_message: error
+      });
+  }
+
+  return {
+    status: failed === 0 ? 'completed' : affected > 0 ? 'partial' : 'failed',
+    affected,
+    failed,
+    error,
+    actionId,
+  };
+}
+
+async function loadPendingSenders(jobId: string): Promise<CleanupJobSender[]> {
+  const { data, error } = await supabase
+    .from('cleanup_job_senders')
+    .select('*')
+    .eq('job_id', jobId)
+    .eq('status', 'pending')
+    .order('position', { ascending: true })
+    .limit(SENDER_PAGE_SIZE);
+
+  if (error) throw new Error(`Failed to load cleanup job senders: ${error.message}`);
+  return (data || []) as CleanupJobSender[];
+}
+
+/**
+ * Mark the job completed and record it in stats and Recent Activity
+ */
+async function completeCleanupJob(job: CleanupJob, affectedThisRun: number, accountEmail: string): Promise<void> {
+  const now = new Date().toISOString();
+  await supabase
+    .from('cleanup_jobs')
+    .update({ status: 'completed', locked_until: null, updated_at: now, completed_at: now })
+    .eq('id', job.id)
+    .in('status', ['queued', 'running']);
+
+  if (affectedThisRun > 0) {
+    // Update user stats (increment emails_processed) - use upsert to create if not exists
+    const { data: currentStats } = await supabase
+      .from('user_stats')
+      .select('emails_processed, unsubscribed')
+      .eq('user_id', job.user_id)
+      .single();
+
+    await supabase
+      .from('user_stats')
+      .upsert({
+        user_id: job.user_id,
+        emails_processed: (currentStats?.emails_processed || 0) + affectedThisRun,
+        unsubscribed: currentStats?.unsubscribed || 0,
+        updated_at: now
+      }, { onConflict: 'user_id' });
+
+    const { data: currentAccount } = await supabase
+      .from('email_accounts')
+      .select('processed_emails')
+      .eq('id', job.email_account_id)
+      .single();
+
+    if (currentAccount) {
+      await supabase
+        .from('email_accounts')
+        .update({
+          processed_emails: (currentAccount.processed_emails || 0) + affectedThisRun,
+          updated_at: now
+        })
+        .eq('id', job.email_account_id);
+    }
+  }
+
+  if (job.affected_emails > 0) {
+    const verb = job.action === 'delete' ? 'Deleted' : 'Archived';
+    await supabase
+      .from('activity_log')
+      .insert({
+        user_id: job.user_id,
+        action_type: job.action,
+        description: `${verb} ${job.affected_emails} email${job.affected_emails > 1 ? 's' : ''} from ${job.total_senders} sender${job.total_senders > 1 ? 's' : ''}`,
+        metadata: {
+          jobId: job.id,
+          count: job.affected_emails,
+          senderCount: job.total_senders,
+          failedSenders: job.failed_senders,
+          accountEmail
+        }
+      });
+  }
+}
+
+/**
+ * Work through a job's pending senders for up to budgetMs. The job is left
+ * queued/running (lease released) when it runs out of time or the account is
+ * busy, so the worker continues it later.
+ */
+export async function runCleanupJob(jobId: string, budgetMs: number): Promise<CleanupJobRunResult> {
+  if (!(await claimCleanupJob(jobId))) {
+    return { jobId, status: 'busy', message: 'Job is already running' };
+  }
+
+  const { data: jobRows } = await supabase
+    .from('cleanup_jobs')
+    .select('*')
+    .eq('id', jobId)
+    .limit(1);
+  const job = jobRows?.[0] as CleanupJob | undefined;
+  if (!job) return { jobId, status: 'failed', message: 'Job not found' };
+
+  // Same lock as syncs and the synchronous cleanup endpoints
+  const lock: AccountLock | null = await acquireAccountLock(job.email_account_id, 'cleanup_job');
+  if (!lock || (await getActiveSyncJob(job.email_account_id))) {
+    await releaseAccountLock(lock);
+    await releaseCleanupJob(jobId);
+    return { jobId, status: 'busy', message: 'Account is busy' };
+  }
+
+  const deadline = Date.now() + budgetMs;
+  let affectedThisRun = 0;
+
+  try {
+    const { data: account } = await supabase
+      .from('email_accounts')
+      .select('id, email, gmail_email, provider, connection_status')
+      .eq('id', job.email_account_id)
+      .single();
+
+    if (!account || account.connection_status !== 'connected') {
+      throw new Error('Email account is not connected');
+    }
+
+    const provider = await getMailProvider(job.user_id, account);
+
+    if (!(await checkpointCleanupJob(job, { status: 'running', started_at: job.started_at || new Date().toISOString() }))) {
+      return { jobId, status: 'cancelled' };
+    }
+
+    while (Date.now() < deadline) {
+      const senders = await loadPendingSenders(jobId);
+      if (senders.length === 0) {
+        await completeCleanupJob(job, affectedThisRun, account.email);
+        return { jobId, status: 'completed', message: `${job.affected_emails} email(s) from ${job.total_senders} sender(s)` };
+      }
+
+      for (const sender of senders) {
+        if (Date.now() >= deadline) break;
+
+        const outcome = await processSender(job, provider, sender);
+        affectedThisRun += outcome.affected;
+
+        await supabase
+          .from('cleanup_job_senders')
+          .update({
+            status: outcome.status,
+            // A retried sender keeps what its earlier attempts moved
+            affected_count: (sender.affected_count || 0) + outcome.affected,
+            failed_count: outcome.failed,
+            error: outcome.error,
+            cleanup_action_id: outcome.actionId || sender.cleanup_action_id,
+            updated_at: new Date().toISOString(),
+          })
+          .eq('id', sender.id);
+
+        const stillActive = await checkpointCleanupJob(job, {
+          processed_senders: job.processed_senders + 1,
+          failed_senders: job.failed_senders + (outcome.status === 'completed' ? 0 : 1),
+          affected_emails: job.affected_emails + outcome.affected,
+          failed_emails: job.failed_emails + outcome.failed,
+        });
+        if (!stillActive) return { jobId, status: 'cancelled' };
+      }
+    }
+
+    await releaseCleanupJob(jobId);
+    return { jobId, status: 'paused', message: `${job.processed_senders}/${job.total_senders} senders done` };
+  } catch (error: any) {
+    // Provider outage - not the job's fault, pick it up again on a later tick
+    if (isProviderUnavailableError(error)) {
+      await releaseCleanupJob(jobId);
+      return { jobId, status: 'paused', message: error.message };
+    }
+
+    console.error(`Cleanup job ${jobId} failed:`, error);
+    const gaveUp = await recordCleanupJobFailure(job, error.message);
+    return { jobId, status: gaveUp ? 'failed' : 'paused', message: error.message };
+  } finally {
+    await releaseAccountLock(lock);
+  }
+}
+
+/**
+ * One runner pass: continue queued jobs and jobs whose runner went away (run from the worker)
+ */
+export async function runPendingCleanupJobs(): Promise<CleanupJobRunResult[]> {
+  const nowIso = new Date().toISOString();
+  const { data: jobs, error } = await supabase
+    .from('cleanup_jobs')
+    .select('id')
+    .in('status', ['queued', 'running'])
+    .or(`locked_until.is.null,locked_until.lt.${nowIso}`)
+    .order('updated_at', { ascending: true })
+    .limit(MAX_JOBS_PER_TICK);
+
+  if (error) {
+    console.error('Cleanup jobs: failed to load pending jobs:', error.message);
+    return [];
+  }
+
+  const results: CleanupJobRunResult[] = [];
+  for (const job of jobs || []) {
+    try {
+      results.push(await runCleanupJob(job.id, WORKER_JOB_BUDGET_MS));
+    } catch (runError: any) {
+      results.push({ jobId: job.id, status: 'failed', message: runError.message });
+    }
+  }
+  return results;
+}
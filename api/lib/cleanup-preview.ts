@@ -0,0 +1,226 @@
+/**
+ * Cleanup Dry Runs
+ *
+ * `dryRun: true` on the delete, archive, delete-single and unsubscribe
+ * endpoints returns what the action would do instead of doing it: the exact
+ * emails it would touch (read from the local emails table, the same rows the
+ * real action acts on), a per-sender breakdown with sample subjects, and
+ * warnings when the selection looks like it includes receipts or security mail.
+ *
+ * Dry runs never call the mail provider, write to the database or count
+ * against the free trial.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+
+const supabase = createClient(
+  process.env.VITE_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+// Senders listed in a preview (the totals always cover every sender)
+const PREVIEW_SENDER_LIMIT = 50;
+const SAMPLE_SUBJECTS_PER_SENDER = 3;
+const SAMPLE_SUBJECTS_PER_WARNING = 5;
+
+export type SensitiveMailType = 'receipts' | 'security';
+export type PreviewWarningType = SensitiveMailType | 'not_synced';
+
+export interface PreviewEmail {
+  gmail_message_id: string;
+  sender_email: string;
+  sender_name: string;
+  subject: string | null;
+  received_at: string;
+  is_unread: boolean;
+}
+
+export interface PreviewTarget {
+  email: string;
+  name: string | null;
+}
+
+export interface CleanupPreviewSender {
+  senderEmail: string;
+  senderName: string;
+  count: number;
+  unreadCount: number;
+  sampleSubjects: string[];
+}
+
+export interface CleanupPreviewWarning {
+  type: PreviewWarningType;
+  message: string;
+  count: number;
+  senders: string[];
+  sampleSubjects: string[];
+}
+
+export interface CleanupPreview {
+  totalMatches: number;
+  unreadCount: number;
+  senderCount: number;
+  senders: CleanupPreviewSender[];
+  warnings: CleanupPreviewWarning[];
+}
+
+const SECURITY_SUBJECT = /\b(verification code|verify your|security (alert|code|notice)|password|sign[- ]?in|log[- ]?in (attempt|alert|code)|new (device|login)|two[- ]factor|2fa|2-step|one[- ]time (code|password|passcode)|otp|passcode|account recovery|suspicious)\b/i;
+const SECURITY_SENDER = /^(security|account-?security|verify|verification|2fa|otp)[@+._-]/i;
+const RECEIPT_SUBJECT = /\b(receipt|invoice|order (confirmation|confirmed|#|number|no\.?)|your order|payment (received|confirmation|confirmed)|purchase|has shipped|shipping confirmation|booking|reservation|itinerary|statement|refund|tax (form|document|return))\b/i;
+const RECEIPT_SENDER = /^(receipts?|billing|invoices?|orders?|payments?|statements?)[@+._-]/i;
+
+/**
+ * Whether an email looks like something users usually want to keep
+ */
+export function classifySensitiveEmail(subject: string | null, senderEmail: string): SensitiveMailType | null {
+  const text = subject || '';
+  if (SECURITY_SUBJECT.test(text) || SECURITY_SENDER.test(senderEmail)) return 'security';
+  if (RECEIPT_SUBJECT.test(text) || RECEIPT_SENDER.test(senderEmail)) return 'receipts';
+  return null;
+}
+
+/**
+ * Summarize the emails an action would touch. Targets that have no synced
+ * emails are reported as a not_synced warning when the action falls back to
+ * searching the mailbox directly (delete/archive).
+ */
+export function buildCleanupPreview(
+  emails: PreviewEmail[],
+  options: { targets?: PreviewTarget[]; searchesMailbox?: boolean } = {}
+): CleanupPreview {
+  // Newest first, so sample subjects show what's arriving now
+  const sorted = [...emails].sort((a, b) => (b.received_at || '').localeCompare(a.received_at || ''));
+
+  const senders = new Map<string, CleanupPreviewSender>();
+  const sensitive: Record<SensitiveMailType, { count: number; senders: Set<string>; sampleSubjects: string[] }> = {
+    receipts: { count: 0, senders: new Set(), sampleSubjects: [] },
+    security: { count: 0, senders: new Set(), sampleSubjects: [] },
+  };
+  let unreadCount = 0;
+
+  for (const email of sorted) {
+    const key = `${email.sender_email}|||${email.sender_name}`;
+    let sender = senders.get(key);
+    if (!sender) {
+      sender = { senderEmail: email.sender_email, senderName: email.sender_name, count: 0, unreadCount: 0, sampleSubjects: [] };
+      senders.set(key, sender);
+    }
+    sender.count++;
+    if (email.is_unread) {
+      sender.unreadCount++;
+      unreadCount++;
+    }
+    if (email.subject && sender.sampleSubjects.length < SAMPLE_SUBJECTS_PER_SENDER) {
+      sender.sampleSubjects.push(email.subject);
+    }
+
+    const type = classifySensitiveEmail(email.subject, email.sender_email);
+    if (type) {
+      const group = sensitive[type];
+      group.count++;
+      group.senders.add(email.sender_email);
+      if (email.subject && group.sampleSubjects.length < SAMPLE_SUBJECTS_PER_WARNING) {
+        group.sampleSubjects.push(email.subject);
+      }
+    }
+  }
+
+  const warnings: CleanupPreviewWarning[] = [];
+  if (sensitive.security.count > 0) {
+    warnings.push({
+      type: 'security',
+      message: `${sensitive.security.count} email${sensitive.security.count > 1 ? 's look' : ' looks'} like security or sign-in mail`,
+      count: sensitive.security.count,
+      senders: [...sensitive.security.senders],
+      sampleSubjects: sensitive.security.sampleSubjects,
+    });
+  }
+  if (sensitive.receipts.count > 0) {
+    warnings.push({
+      type: 'receipts',
+      message: `${sensitive.receipts.count} email${sensitive.receipts.count > 1 ? 's look' : ' looks'} like receipts, orders or statements`,
+      count: sensitive.receipts.count,
+      senders: [...sensitive.receipts.senders],
+      sampleSubjects: sensitive.receipts.sampleSubjects,
+    });
+  }
+
+  if (options.searchesMailbox && options.targets) {
+    const unsynced = options.targets.filter(t =>
+      ![...senders.values()].some(s => s.senderEmail === t.email && (!t.name || s.senderName === t.name))
+    );
+    if (unsynced.length > 0) {
+      warnings.push({
+        type: 'not_synced',
+        message: `No synced emails for ${unsynced.length} sender${unsynced.length > 1 ? 's' : ''} - the mailbox will be searched directly, so the final count may differ`,
+        count: 0,
+        senders: unsynced.map(t => t.email),
+        sampleSubjects: [],
+      });
+    }
+  }
+
+  return {
+    totalMatches: emails.length,
+    unreadCount,
+    senderCount: senders.size,
+    senders: [...senders.values()]
+      .sort((a, b) => b.count - a.count)
+      .slice(0, PREVIEW_SENDER_LIMIT),
+    warnings,
+  };
+}
+
+const PREVIEW_COLUMNS = 'gmail_message_id, sender_email, sender_name, subject, received_at, is_unread';
+
+/**
+ * Every stored email from the given senders - the rows delete/archive would act on
+ */
+export async function loadSenderEmailsForPreview(accountId: string, targets: PreviewTarget[]): Promise<PreviewEmail[]> {
+  const wanted = new Set(targets.filter(t => t.name).map(t => `${t.email}|||${t.name}`));
+  const anyName = new Set(targets.filter(t => !t.name).map(t => t.email));
+  const addresses = [...new Set(targets.map(t => t.email))];
+
+  const emails: PreviewEmail[] = [];
+  for (let i = 0; i < addresses.length; i += 100) {
+    const chunk = addresses.slice(i, i + 100);
+    // Paginated to handle Supabase 1000-row limit
+    for (let page = 0; ; page++) {
+      const { data, error } = await supabase
+        .from('emails')
+        .select(PREVIEW_COLUMNS)
+        .eq('email_account_id', accountId)
+        .in('sender_email', chunk)
+        .order('gmail_message_id', { ascending: true })
+        .range(page * 1000, (page + 1) * 1000 - 1);
+
+      if (error) throw new Error(`Failed to load emails for preview: ${error.message}`);
+      for (const email of (data || []) as PreviewEmail[]) {
+        // Same name+email grouping as the action itself
+        if (anyName.has(email.sender_email) || wanted.has(`${email.sender_email}|||${email.sender_name}`)) {
+          emails.push(email);
+        }
+      }
+      if (!data || data.length < 1000) break;
+    }
+  }
+  return emails;
+}
+
+/**
+ * Stored emails by message ID (delete-single)
+ */
+export async function loadMessagesForPreview(accountId: string, messageIds: string[]): Promise<PreviewEmail[]> {
+  const emails: PreviewEmail[] = [];
+  for (let i = 0; i < messageIds.length; i += 100) {
+    const { data, error } = await supabase
+      .from('emails')
+      .select(PREVIEW_COLUMNS)
+      .eq('email_account_id', accountId)
+      .in('gmail_message_id', messageIds.slice(i, i + 100));
+
+    if (error) throw new Error(`Failed to load emails for preview: ${error.message}`);
+    emails.push(...((data || []) as PreviewEmail[]));
+  }
+  return emails;
+}
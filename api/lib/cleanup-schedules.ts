@@ -0,0 +1,675 @@
+/**
+ * Cleanup Schedules
+ *
+ * Recurring, unattended cleanups like "every Sunday, delete promotions older
+ * than 14 days". A schedule pairs a cron expression (evaluated in the user's
+ * time zone) with a target filter and a delete/archive action.
+ *
+ * Due schedules are run by the background worker (worker.ts). Targets are picked
+ * from the local emails table - the same data the dry-run preview reports on -
+ * acted on via the account's MailProvider, and every run is logged to
+ * cleanup_actions/activity_log.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { getMailProvider } from '../providers/index.js';
+import type { MailProvider } from './mail-provider.js';
+import { batchRecalculateSenderStats } from './sender-stats.js';
+import { isUserPaid } from './free-trial.js';
+import { acquireAccountLock, releaseAccountLock } from './account-lock.js';
+import { getActiveSyncJob } from './sync-jobs.js';
+
+const supabase = createClient(
+  process.env.VITE_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+export const MAX_SCHEDULES_PER_USER = 20;
+// Safety limit per run - anything left over is picked up next run
+export const MAX_EMAILS_PER_RUN = 1000;
+// Schedules run per worker tick - the rest are picked up on the next tick
+const MAX_SCHEDULES_PER_TICK = 20;
+// Unattended cleanups shouldn't hammer provider APIs
+const MIN_INTERVAL_MINUTES = 60;
+const MAX_SENDERS_PER_SCHEDULE = 100;
+// A run that finds its account busy (sync or another cleanup) is tried again this soon
+export const BUSY_RETRY_MS = 5 * 60 * 1000;
+
+export type ScheduleAction = 'delete' | 'archive';
+export type ScheduleRunStatus = 'completed' | 'skipped' | 'failed';
+
+export interface ScheduleFilter {
+  sender_emails: string[];
+  newsletters_only: boolean;
+  promotional_only: boolean;
+  older_than_days: number | null;
+  unread_only: boolean;
+}
+
+export interface CleanupSchedule extends ScheduleFilter {
+  id: string;
+  user_id: string;
+  email_account_id: string;
+  name: string | null;
+  cron: string;
+  timezone: string;
+  action: ScheduleAction;
+  enabled: boolean;
+  next_run_at: string | null;
+  last_run_at?: string | null;
+  last_run_status?: ScheduleRunStatus | null;
+  last_run_count?: number | null;
+  last_run_error?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface ScheduleMatch {
+  gmail_message_id: string;
+  sender_email: string;
+  sender_name: string;
+  received_at: string;
+  labels: string[] | null;
+}
+
+export interface ScheduleRunResult {
+  scheduleId: string;
+  // 'deferred' runs found the account busy and are retried - never recorded on the schedule
+  status: ScheduleRunStatus | 'deferred';
+  count: number;
+  message?: string;
+}
+
+// ==================== Cron ====================
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Vixie cron: when both day fields are restricted, either one matching is enough
+  dayOfMonthStar: boolean;
+  dayOfWeekStar: boolean;
+}
+
+const CRON_MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+/**
+ * Parse one cron field ("*", "1,15", "MON-FRI", "10-40/10", ...) into its values.
+ * Steps apply to "*" and ranges; "5/15" means every 15 starting at 5.
+ */
+function parseCronField(field: string, min: number, max: number, names?: string[]): Set<number> | null {
+  const values = new Set<number>();
+
+  const toNumber = (token: string): number | null => {
+    const named = names ? names.indexOf(token.toLowerCase()) : -1;
+    if (named >= 0) return named + (names === MONTH_NAMES ? 1 : 0);
+    if (!/^\d+$/.test(token)) return null;
+    return parseInt(token, 10);
+  };
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : (/^\d+$/.test(stepText) ? parseInt(stepText, 10) : 0);
+    if (step < 1) return null;
+
+    let start: number | null;
+    let end: number | null;
+    if (range === '*') {
+      start = min;
+      end = max;
+    } else if (range.includes('-')) {
+      const [a, b] = range.split('-');
+      start = toNumber(a);
+      end = toNumber(b);
+    } else {
+      start = toNumber(range);
+      end = stepText === undefined ? start : max;
+    }
+
+    if (start === null || end === null || start < min || end > max || start > end) return null;
+    for (let v = start; v <= end; v += step) values.add(v);
+  }
+
+  return values.size > 0 ? values : null;
+}
+
+/**
+ * Parse a 5-field cron expression (minute hour day-of-month month day-of-week)
+ * or one of the @daily/@weekly/... macros. Returns null when invalid.
+ */
+export function parseCron(expression: string): CronSchedule | null {
+  const trimmed = (expression || '').trim().toLowerCase();
+  const fields = (CRON_MACROS[trimmed] || trimmed).split(/\s+/);
+  if (fields.length !== 5) return null;
+
+  const minutes = parseCronField(fields[0], 0, 59);
+  const hours = parseCronField(fields[1], 0, 23);
+  const daysOfMonth = parseCronField(fields[2], 1, 31);
+  const months = parseCronField(fields[3], 1, 12, MONTH_NAMES);
+  // 0 and 7 are both Sunday
+  const daysOfWeekRaw = parseCronField(fields[4], 0, 7, DAY_NAMES);
+  if (!minutes || !hours || !daysOfMonth || !months || !daysOfWeekRaw) return null;
+
+  const daysOfWeek = new Set([...daysOfWeekRaw].map(d => d % 7));
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOfMonthStar: fields[2].startsWith('*'),
+    dayOfWeekStar: fields[4].startsWith('*'),
+  };
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Wall-clock fields of a UTC instant in the given IANA time zone
+ */
+function getZonedParts(date: Date, timezone: string) {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      weekday: 'short',
+    });
+    formatters.set(timezone, formatter);
+  }
+
+  const parts: Record<string, string> = {};
+  for (const { type, value } of formatter.formatToParts(date)) parts[type] = value;
+
+  return {
+    month: parseInt(parts.month, 10),
+    day: parseInt(parts.day, 10),
+    hour: parseInt(parts.hour, 10) % 24,
+    minute: parseInt(parts.minute, 10),
+    weekday: DAY_NAMES.indexOf(parts.weekday.toLowerCase()),
+  };
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Next time (strictly after `after`) the cron expression fires in the given time zone.
+ * Returns null for invalid expressions or ones that never fire (e.g. "0 0 31 2 *").
+ */
+export function nextCronRun(
+  expression: string | CronSchedule,
+  after: Date,
+  timezone: string = 'UTC'
+): Date | null {
+  const cron = typeof expression === 'string' ? parseCron(expression) : expression;
+  if (!cron) return null;
+
+  const MINUTE = 60 * 1000;
+  // Start at the next whole minute
+  let t = Math.floor(after.getTime() / MINUTE) * MINUTE + MINUTE;
+  // Leap days can be up to 8 years apart
+  const limit = after.getTime() + 8 * 366 * 24 * 60 * MINUTE;
+
+  while (t <= limit) {
+    const p = getZonedParts(new Date(t), timezone);
+
+    const domMatch = cron.daysOfMonth.has(p.day);
+    const dowMatch = cron.daysOfWeek.has(p.weekday);
+    const dayMatch = cron.dayOfMonthStar || cron.dayOfWeekStar
+      ? domMatch && dowMatch
+      : domMatch || dowMatch;
+
+    if (!cron.months.has(p.month) || !dayMatch) {
+      // Skip to the next local midnight. DST days are 23 or 25 hours long, so
+      // land an hour short of a 24-hour day and step until the date changes
+      // (UTC offsets are whole quarter hours).
+      t += (24 * 60 - (p.hour * 60 + p.minute) - 60) * MINUTE;
+      while (getZonedParts(new Date(t), timezone).day === p.day) t += 15 * MINUTE;
+    } else if (!cron.hours.has(p.hour)) {
+      t += (60 - p.minute) * MINUTE;
+    } else if (!cron.minutes.has(p.minute)) {
+      t += MINUTE;
+    } else {
+      return new Date(t);
+    }
+  }
+
+  return null;
+}
+
+// ==================== Validation ====================
+
+/**
+ * Validate and normalize schedule fields from a request body.
+ * Returns either the normalized fields or a client-facing error.
+ */
+export function validateScheduleInput(body: any, now: Date = new Date()): {
+  schedule?: Pick<CleanupSchedule, 'name' | 'cron' | 'timezone' | 'action'> & ScheduleFilter;
+  error?: string;
+} {
+  const cron = typeof body?.cron === 'string' ? body.cron.trim().replace(/\s+/g, ' ') : '';
+  const parsed = parseCron(cron);
+  if (!parsed) {
+    return { error: 'cron must be a valid 5-field cron expression (e.g. "0 9 * * 0")' };
+  }
+
+  const timezone = body.timezone ?? 'UTC';
+  if (typeof timezone !== 'string' || !isValidTimezone(timezone)) {
+    return { error: 'timezone must be a valid IANA time zone (e.g. "America/Toronto")' };
+  }
+
+  // Check the first few gaps - enough to catch "*/5 * * * *" and "0,30 9 * * *"
+  let previous = nextCronRun(parsed, now, timezone);
+  if (!previous) {
+    return { error: 'cron expression never runs' };
+  }
+  for (let i = 0; i < 5; i++) {
+    const next = nextCronRun(parsed, previous, timezone);
+    if (!next) break;
+    if (next.getTime() - previous.getTime() < MIN_INTERVAL_MINUTES * 60 * 1000) {
+      return { error: 'Schedules can run at most once an hour' };
+    }
+    previous = next;
+  }
+
+  const action = body.action;
+  if (action !== 'delete' && action !== 'archive') {
+    return { error: 'action must be "delete" or "archive"' };
+  }
+
+  const name = body.name ?? null;
+  if (name !== null && (typeof name !== 'string' || name.length > 100)) {
+    return { error: 'name must be at most 100 characters' };
+  }
+
+  const senderEmails = body.senderEmails ?? [];
+  if (!Array.isArray(senderEmails) || senderEmails.length > MAX_SENDERS_PER_SCHEDULE) {
+    return { error: `senderEmails must be a list of at most ${MAX_SENDERS_PER_SCHEDULE} addresses` };
+  }
+  const normalizedSenders = [...new Set(senderEmails.map((s: unknown) => typeof s === 'string' ? s.trim().toLowerCase() : ''))];
+  if (normalizedSenders.some(s => !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(s))) {
+    return { error: 'senderEmails must contain valid email addresses' };
+  }
+
+  const olderThanDays = body.olderThanDays ?? null;
+  if (olderThanDays !== null && (!Number.isInteger(olderThanDays) || olderThanDays < 1 || olderThanDays > 3650)) {
+    return { error: 'olderThanDays must be a whole number between 1 and 3650' };
+  }
+
+  const newslettersOnly = !!body.newslettersOnly;
+  const promotionalOnly = !!body.promotionalOnly;
+  const unreadOnly = !!body.unreadOnly;
+
+  // An unfiltered schedule would empty the inbox on every run
+  if (normalizedSenders.length === 0 && !newslettersOnly && !promotionalOnly && olderThanDays === null) {
+    return { error: 'Schedules need at least one of senderEmails, newslettersOnly, promotionalOnly or olderThanDays' };
+  }
+
+  return {
+    schedule: {
+      name: name ? name.trim() || null : null,
+      cron,
+      timezone,
+      action,
+      sender_emails: normalizedSenders,
+      newsletters_only: newslettersOnly,
+      promotional_only: promotionalOnly,
+      older_than_days: olderThanDays,
+      unread_only: unreadOnly,
+    }
+  };
+}
+
+/**
+ * Human-readable summary used in activity/cleanup logs
+ */
+export function describeSchedule(schedule: Pick<CleanupSchedule, 'name' | 'action'> & ScheduleFilter): string {
+  if (schedule.name) return schedule.name;
+
+  const verb = schedule.action === 'delete' ? 'Delete' : 'Archive';
+  const kinds: string[] = [];
+  if (schedule.unread_only) kinds.push('unread');
+  if (schedule.promotional_only) kinds.push('promotions');
+  else if (schedule.newsletters_only) kinds.push('newsletters');
+  else kinds.push('mail');
+
+  let description = `${verb} ${kinds.join(' ')}`;
+  if (schedule.sender_emails.length === 1) {
+    description += ` from ${schedule.sender_emails[0]}`;
+  } else if (schedule.sender_emails.length > 1) {
+    description += ` from ${schedule.sender_emails.length} senders`;
+  }
+  if (schedule.older_than_days) {
+    description += ` older than ${schedule.older_than_days} day${schedule.older_than_days > 1 ? 's' : ''}`;
+  }
+  return description;
+}
+
+// ==================== Matching ====================
+
+/**
+ * Find the emails a schedule would act on right now, oldest first.
+ * Archive schedules skip Gmail rows that are already out of the inbox.
+ */
+export async function findScheduleMatches(
+  accountId: string,
+  schedule: Pick<CleanupSchedule, 'action'> & ScheduleFilter,
+  now: number = Date.now()
+): Promise<ScheduleMatch[]> {
+  // Newsletter/promotional flags live on the sender row - resolve matching senders first
+  let allowedSenderKeys: Set<string> | null = null;
+  if (schedule.newsletters_only || schedule.promotional_only) {
+    let senderQuery = supabase
+      .from('email_senders')
+      .select('sender_email, sender_name')
+      .eq('email_account_id', accountId);
+
+    if (schedule.newsletters_only) senderQuery = senderQuery.eq('is_newsletter', true);
+    if (schedule.promotional_only) senderQuery = senderQuery.eq('is_promotional', true);
+    if (schedule.sender_emails.length > 0) senderQuery = senderQuery.in('sender_email', schedule.sender_emails);
+
+    const { data: flaggedSenders } = await senderQuery;
+    allowedSenderKeys = new Set((flaggedSenders || []).map(s => `${s.sender_email}|||${s.sender_name}`));
+    if (allowedSenderKeys.size === 0) return [];
+  }
+
+  const cutoff = schedule.older_than_days
+    ? new Date(now - schedule.older_than_days * 24 * 60 * 60 * 1000).toISOString()
+    : null;
+
+  // Paginated to handle Supabase 1000-row limit
+  const matches: ScheduleMatch[] = [];
+  let page = 0;
+  while (true) {
+    let emailQuery = supabase
+      .from('emails')
+      .select('gmail_message_id, sender_email, sender_name, received_at, labels')
+      .eq('email_account_id', accountId);
+
+    if (cutoff) emailQuery = emailQuery.lt('received_at', cutoff);
+    if (schedule.sender_emails.length > 0) emailQuery = emailQuery.in('sender_email', schedule.sender_emails);
+    if (schedule.unread_only) emailQuery = emailQuery.eq('is_unread', true);
+
+    const { data, error } = await emailQuery
+      .order('received_at', { ascending: true })
+      .range(page * 1000, (page + 1) * 1000 - 1);
+
+    if (error) {
+      throw new Error(`Failed to load emails for schedule: ${error.message}`);
+    }
+    if (!data || data.length === 0) break;
+
+    for (const email of data as ScheduleMatch[]) {
+      if (allowedSenderKeys && !allowedSenderKeys.has(`${email.sender_email}|||${email.sender_name}`)) continue;
+      // Gmail rows without INBOX are already archived
+      if (schedule.action === 'archive' && email.labels && email.labels.length > 0 && !email.labels.includes('INBOX')) continue;
+      matches.push(email);
+    }
+    if (data.length < 1000) break;
+    page++;
+  }
+
+  return matches;
+}
+
+// ==================== Runner ====================
+
+/**
+ * Record a run's outcome on the schedule row
+ */
+async function recordRun(
+  scheduleId: string,
+  result: ScheduleRunResult & { status: ScheduleRunStatus }
+): Promise<ScheduleRunResult> {
+  await supabase
+    .from('cleanup_schedules')
+    .update({
+      last_run_at: new Date().toISOString(),
+      last_run_status: result.status,
+      last_run_count: result.count,
+      last_run_error: result.status === 'completed' ? null : result.message || null,
+    })
+    .eq('id', scheduleId);
+  return result;
+}
+
+/**
+ * Execute one schedule against its account
+ */
+async function runSchedule(schedule: CleanupSchedule): Promise<ScheduleRunResult> {
+  const skip = (message: string) => recordRun(schedule.id, { scheduleId: schedule.id, status: 'skipped', count: 0, message });
+
+  // Schedules run unattended - paid plans only
+  if (!(await isUserPaid(supabase, schedule.user_id))) {
+    return skip('Cleanup schedules require a paid plan');
+  }
+
+  const { data: account } = await supabase
+    .from('email_accounts')
+    .select('id, email, gmail_email, provider, connection_status')
+    .eq('id', schedule.email_account_id)
+    .single();
+
+  if (!account || account.connection_status !== 'connected') {
+    return skip('Email account is not connected');
+  }
+
+  let provider: MailProvider;
+  try {
+    provider = await getMailProvider(schedule.user_id, account);
+  } catch (tokenError: any) {
+    return skip(tokenError.message);
+  }
+
+  const matches = await findScheduleMatches(account.id, schedule);
+  const targets = matches.slice(0, MAX_EMAILS_PER_RUN);
+  if (targets.length === 0) {
+    return recordRun(schedule.id, { scheduleId: schedule.id, status: 'completed', count: 0 });
+  }
+
+  const messageIds = targets.map(e => e.gmail_message_id);
+  const { success, movedIds = {} } = schedule.action === 'delete'
+    ? await provider.trashMessages(messageIds)
+    : await provider.archiveMessages(messageIds);
+
+  // Keep the local table in step with the mailbox
+  if (schedule.action === 'archive' && provider.keepsArchivedRows) {
+    const labelsById = new Map(targets.map(e => [e.gmail_message_id, e.labels || []]));
+    for (let i = 0; i < success.length; i += 10) {
+      const batch = success.slice(i, i + 10);
+      await Promise.all(batch.map(id =>
+        supabase
+          .from('emails')
+          .update({ labels: (labelsById.get(id) || []).filter(l => l !== 'INBOX') })
+          .eq('email_account_id', account.id)
+          .eq('gmail_message_id', id)
+      ));
+    }
+  } else {
+    for (let i = 0; i < success.length; i += 100) {
+      await supabase
+        .from('emails')
+        .delete()
+        .eq('email_account_id', account.id)
+        .in('gmail_message_id', success.slice(i, i + 100));
+    }
+  }
+
+  const successSet = new Set(success);
+  const affectedSenders = new Set(
+    targets
+      .filter(e => successSet.has(e.gmail_message_id))
+      .map(e => `${e.sender_email}|||${e.sender_name}`)
+  );
+  await batchRecalculateSenderStats(schedule.user_id, account.id, affectedSenders);
+
+  if (success.length > 0) {
+    const description = describeSchedule(schedule);
+    const now = new Date().toISOString();
+
+    await supabase
+      .from('cleanup_actions')
+      .insert({
+        user_id: schedule.user_id,
+        email_account_id: account.id,
+        action_type: schedule.action,
+        sender_email: schedule.sender_emails.length === 1 ? schedule.sender_emails[0] : 'multiple',
+        sender_name: `Schedule: ${description}`,
+        emails_affected: success.length,
+        gmail_message_ids: success.map(id => movedIds[id] || id),
+        schedule_id: schedule.id,
+        status: 'completed',
+        completed_at: now
+      });
+
+    await supabase
+      .from('activity_log')
+      .insert({
+        user_id: schedule.user_id,
+        action_type: schedule.action,
+        description: `Scheduled cleanup ${schedule.action === 'delete' ? 'deleted' : 'archived'} ${success.length} email${success.length > 1 ? 's' : ''} (${description})`,
+        metadata: { scheduleId: schedule.id, schedule: description, count: success.length, accountEmail: account.email }
+      });
+  }
+
+  return recordRun(schedule.id, {
+    scheduleId: schedule.id,
+    status: 'completed',
+    count: success.length,
+    ...(matches.length > MAX_EMAILS_PER_RUN && { message: `${matches.length - MAX_EMAILS_PER_RUN} left for the next run` }),
+  });
+}
+
+/**
+ * Move a schedule's next_run_at to its next occurrence. Returns the new
+ * next_run_at, or undefined if another worker already claimed this run.
+ */
+async function claimSchedule(schedule: CleanupSchedule): Promise<string | null | undefined> {
+  const nextRun = nextCronRun(schedule.cron, new Date(), schedule.timezone);
+  const nextRunAt = nextRun ? nextRun.toISOString() : null;
+
+  let query = supabase
+    .from('cleanup_schedules')
+    .update({ next_run_at: nextRunAt })
+    .eq('id', schedule.id);
+  query = schedule.next_run_at ? query.eq('next_run_at', schedule.next_run_at) : query.is('next_run_at', null);
+
+  const { data, error } = await query.select('id');
+  if (error) {
+    console.error(`Failed to claim cleanup schedule ${schedule.id}:`, error.message);
+    return undefined;
+  }
+  return data && data.length > 0 ? nextRunAt : undefined;
+}
+
+/**
+ * When to retry a claimed run that found its account busy: BUSY_RETRY_MS from
+ * now, or null if the schedule's next occurrence comes first anyway
+ */
+export function getBusyRetryAt(nextRunAt: string | null, now: Date = new Date()): Date | null {
+  const retryAt = new Date(now.getTime() + BUSY_RETRY_MS);
+  return nextRunAt && new Date(nextRunAt).getTime() <= retryAt.getTime() ? null : retryAt;
+}
+
+/**
+ * Give a claimed run back so the worker retries it shortly, instead of losing
+ * the slot until the next occurrence
+ */
+async function deferRun(schedule: CleanupSchedule, claimedNextRunAt: string | null, message: string): Promise<ScheduleRunResult> {
+  const retryAt = getBusyRetryAt(claimedNextRunAt);
+  if (retryAt) {
+    let query = supabase
+      .from('cleanup_schedules')
+      .update({ next_run_at: retryAt.toISOString() })
+      .eq('id', schedule.id);
+    // Leave it alone if the schedule was edited in the meantime
+    query = claimedNextRunAt ? query.eq('next_run_at', claimedNextRunAt) : query.is('next_run_at', null);
+
+    const { error } = await query;
+    if (error) console.error(`Failed to defer cleanup schedule ${schedule.id}:`, error.message);
+  }
+
+  return {
+    scheduleId: schedule.id,
+    status: 'deferred',
+    count: 0,
+    message: retryAt ? `${message} - retrying at ${retryAt.toISOString()}` : `${message} - waiting for the next run`,
+  };
+}
+
+/**
+ * One runner pass: execute every enabled schedule that has come due (run from the worker)
+ */
+export async function runDueCleanupSchedules(): Promise<ScheduleRunResult[]> {
+  const { data: schedules, error } = await supabase
+    .from('cleanup_schedules')
+    .select('*')
+    .eq('enabled', true)
+    .lte('next_run_at', new Date().toISOString())
+    .order('next_run_at', { ascending: true })
+    .limit(MAX_SCHEDULES_PER_TICK);
+
+  if (error) {
+    console.error('Cleanup schedules: failed to load due schedules:', error.message);
+    return [];
+  }
+
+  const results: ScheduleRunResult[] = [];
+  for (const schedule of (schedules || []) as CleanupSchedule[]) {
+    const claimedNextRunAt = await claimSchedule(schedule);
+    if (claimedNextRunAt === undefined) continue;
+
+    // Never run alongside a sync or another cleanup of the same account
+    const lock = await acquireAccountLock(schedule.email_account_id, 'cleanup_schedule');
+    if (!lock) {
+      results.push(await deferRun(schedule, claimedNextRunAt, 'Account was busy with a sync or another cleanup'));
+      continue;
+    }
+
+    try {
+      if (await getActiveSyncJob(schedule.email_account_id)) {
+        results.push(await deferRun(schedule, claimedNextRunAt, 'A full sync was in progress'));
+      } else {
+        results.push(await runSchedule(schedule));
+      }
+    } catch (runError: any) {
+      // A failing schedule must never stop the others - record it and move on
+      results.push(await recordRun(schedule.id, {
+        scheduleId: schedule.id,
+        status: 'failed',
+        count: 0,
+        message: runError.message,
+      }));
+    } finally {
+      await releaseAccountLock(lock);
+    }
+  }
+
+  return results;
+}
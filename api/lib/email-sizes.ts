@@ -0,0 +1,123 @@
+/**
+ * Email Sizes (storage-hog finder)
+ *
+ * Sync stores each message's size as the provider reports it in
+ * emails.size_bytes (Gmail sizeEstimate, Graph PR_MESSAGE_SIZE, IMAP
+ * RFC822.SIZE) with a has_attachments flag, and keeps a per-sender sum in
+ * email_senders.total_size_bytes. These helpers back the large-emails view
+ * (api/emails/large.ts), the size-based cleanup (api/cleanup/delete-large.ts)
+ * and the storage totals cleanups report.
+ *
+ * Sizes are the provider's estimate and mail synced before sizes were stored
+ * has none, so totals are a lower bound.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+
+const supabase = createClient(
+  process.env.VITE_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+export const BYTES_PER_MB = 1024 * 1024;
+// Largest threshold accepted for "emails over N MB" (providers cap messages well below this)
+export const MAX_MIN_SIZE_MB = 150;
+
+export interface SizedEmailRow {
+  gmail_message_id: string;
+  sender_email: string;
+  sender_name: string;
+  subject: string | null;
+  received_at: string;
+  is_unread: boolean;
+  size_bytes: number | null;
+  has_attachments: boolean;
+}
+
+export interface LargeEmail {
+  messageId: string;
+  senderEmail: string;
+  senderName: string;
+  subject: string;
+  receivedAt: string;
+  sizeBytes: number;
+  hasAttachments: boolean;
+}
+
+/**
+ * Validate a "larger than N MB" threshold. Fractions are allowed (0.5 = 512 KB).
+ * Returns null when it isn't a number in (0, MAX_MIN_SIZE_MB].
+ */
+export function parseMinSizeMb(value: unknown): number | null {
+  if (typeof value !== 'number' && typeof value !== 'string') return null;
+  if (typeof value === 'string' && value.trim() === '') return null;
+
+  const mb = Number(value);
+  if (!Number.isFinite(mb) || mb <= 0 || mb > MAX_MIN_SIZE_MB) return null;
+  return mb;
+}
+
+/**
+ * Total size of the given emails, or of just those in messageIds (e.g. the
+ * ones a provider actually trashed). Emails without a size count as 0.
+ */
+export function sumSizeBytes(
+  emails: { gmail_message_id: string; size_bytes?: number | null }[],
+  messageIds?: Iterable<string>
+): number {
+  const only = messageIds ? new Set(messageIds) : null;
+  let total = 0;
+  for (const email of emails) {
+    if (only && !only.has(email.gmail_message_id)) continue;
+    total += Number(email.size_bytes) || 0;
+  }
+  return total;
+}
+
+export function toLargeEmail(row: SizedEmailRow): LargeEmail {
+  return {
+    messageId: row.gmail_message_id,
+    senderEmail: row.sender_email,
+    senderName: row.sender_name || row.sender_email,
+    subject: row.subject || '(No Subject)',
+    receivedAt: row.received_at,
+    sizeBytes: Number(row.size_bytes) || 0,
+    hasAttachments: !!row.has_attachments,
+  };
+}
+
+const SIZED_EMAIL_COLUMNS = 'gmail_message_id, sender_email, sender_name, subject, received_at, is_unread, size_bytes, has_attachments';
+
+/**
+ * Stored emails of at least minBytes, largest first. Paginated to handle the
+ * Supabase 1000-row limit; pass maxRows to stop early.
+ */
+export async function loadLargeEmails(
+  accountId: string,
+  minBytes: number,
+  options: { attachmentsOnly?: boolean; maxRows?: number } = {}
+): Promise<SizedEmailRow[]> {
+  const emails: SizedEmailRow[] = [];
+  const maxRows = options.maxRows ?? Infinity;
+
+  for (let page = 0; emails.length < maxRows; page++) {
+    let query = supabase
+      .from('emails')
+      .select(SIZED_EMAIL_COLUMNS)
+      .eq('email_account_id', accountId)
+      .gte('size_bytes', minBytes);
+
+    if (options.attachmentsOnly) query = query.eq('has_attachments', true);
+
+    const { data, error } = await query
+      .order('size_bytes', { ascending: false })
+      .order('gmail_message_id', { ascending: true })
+      .range(page * 1000, (page + 1) * 1000 - 1);
+
+    if (error) throw new Error(`Failed to load large emails: ${error.message}`);
+    emails.push(...((data || []) as SizedEmailRow[]));
+    if (!data || data.length < 1000) break;
+  }
+
+  return emails.slice(0, maxRows);
+}
@@ -0,0 +1,305 @@
+/**
+ * Sender Engagement and Suggested Cleanups
+ *
+ * Scores how much the user engages with each sender (0-100) from signals we
+ * already have locally:
+ * - read ratio: email_senders unread_count vs email_count
+ * - replies: whether the user has sent mail to the sender's address, from the
+ *   recipients of their newest sent messages (sent_recipients, refreshed on
+ *   Gmail and Outlook full syncs - IMAP has no reply signal)
+ * - archived unread: Gmail mail that left the inbox without being read
+ * - send frequency: a sender that mails often and is ignored scores lower
+ *
+ * Low scorers become ranked suggestions with the inbox reduction each would
+ * bring: the stored mail it removes now, plus the mail per month avoided by
+ * unsubscribing from a sender that is still sending (recency).
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import type { SentRecipients } from './mail-provider.js';
+
+const supabase = createClient(
+  process.env.VITE_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Score weights (sum to 1)
+const READ_WEIGHT = 0.5;
+const REPLY_WEIGHT = 0.25;
+const NOT_ARCHIVED_UNREAD_WEIGHT = 0.15;
+const LOW_VOLUME_WEIGHT = 0.1;
+// Emails a month at which the low-volume part of the score is halved
+const HALF_VOLUME_PER_MONTH = 10;
+
+// Mail arriving within this many days counts as fully active
+const ACTIVE_DAYS = 30;
+// A sender silent this long is treated as having stopped
+const STOPPED_DAYS = 365;
+
+// Senders below this score with at least MIN_SUGGESTION_EMAILS emails are suggested
+export const SUGGESTION_SCORE_THRESHOLD = 40;
+export const MIN_SUGGESTION_EMAILS = 5;
+// Months of avoided future mail an unsubscribe is weighed as when ranking
+const RANKING_HORIZON_MONTHS = 12;
+
+export type EngagementLevel = 'high' | 'medium' | 'low' | 'none';
+export type SuggestedAction = 'unsubscribe' | 'delete';
+
+export interface EngagementSenderRow {
+  sender_email: string;
+  sender_name: string;
+  email_count: number;
+  unread_count: number;
+  first_email_date: string;
+  last_email_date: string;
+  has_unsubscribe: boolean | null;
+}
+
+export interface SenderEngagement {
+  score: number;
+  level: EngagementLevel;
+  readRatio: number;
+  archivedUnreadCount: number;
+  hasReplied: boolean;
+  emailsPerMonth: number;
+  daysSinceLastEmail: number;
+}
+
+export interface CleanupSuggestion {
+  senderEmail: string;
+  senderName: string;
+  action: SuggestedAction;
+  engagement: SenderEngagement;
+  reasons: string[];
+  estimatedReduction: {
+    // Stored emails the action removes now
+    emails: number;
+    // New emails a month no longer arriving (unsubscribe only)
+    perMonth: number;
+    percentOfInbox: number;
+  };
+}
+
+export interface EngagementSignals {
+  // `email|||name` -> emails archived without being read
+  archivedUnread: Map<string, number>;
+  sentRecipients: SentRecipients;
+  // Whether sent mail was scanned at all - otherwise "never replied" is unknown
+  repliesKnown: boolean;
+  muted: Set<string>;
+}
+
+function roundTo(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * 1 while the sender is active, falling to 0 once it has been silent for STOPPED_DAYS
+ */
+function recencyFactor(daysSinceLastEmail: number): number {
+  if (daysSinceLastEmail <= ACTIVE_DAYS) return 1;
+  if (daysSinceLastEmail >= STOPPED_DAYS) return 0;
+  return 1 - (daysSinceLastEmail - ACTIVE_DAYS) / (STOPPED_DAYS - ACTIVE_DAYS);
+}
+
+export function scoreSenderEngagement(
+  sender: EngagementSenderRow,
+  archivedUnreadCount: number,
+  hasReplied: boolean,
+  now: Date = new Date()
+): SenderEngagement {
+  const count = Math.max(sender.email_count || 0, 0);
+  const readRatio = count > 0 ? Math.min(Math.max((count - (sender.unread_count || 0)) / count, 0), 1) : 0;
+  const archivedUnreadRatio = count > 0 ? Math.min(archivedUnreadCount / count, 1) : 0;
+
+  const first = new Date(sender.first_email_date).getTime();
+  const last = new Date(sender.last_email_date).getTime();
+  const spanMonths = Math.max((last - first) / (30 * DAY_MS), 1);
+  const emailsPerMonth = count / spanMonths;
+  const daysSinceLastEmail = Math.max(Math.floor((now.getTime() - last) / DAY_MS), 0);
+
+  const lowVolume = 1 / (1 + emailsPerMonth / HALF_VOLUME_PER_MONTH);
+  const score = Math.round(100 * (
+    READ_WEIGHT * readRatio +
+    REPLY_WEIGHT * (hasReplied ? 1 : 0) +
+    NOT_ARCHIVED_UNREAD_WEIGHT * (1 - archivedUnreadRatio) +
+    LOW_VOLUME_WEIGHT * lowVolume
+  ));
+
+  return {
+    score,
+    level: score >= 70 ? 'high' : score >= SUGGESTION_SCORE_THRESHOLD ? 'medium' : score >= 15 ? 'low' : 'none',
+    readRatio: roundTo(readRatio, 2),
+    archivedUnreadCount,
+    hasReplied,
+    emailsPerMonth: roundTo(emailsPerMonth, 1),
+    daysSinceLastEmail,
+  };
+}
+
+/**
+ * Rank the senders worth cleaning up, biggest inbox reduction first.
+ * Senders the user replied to or muted are never suggested.
+ */
+export function buildCleanupSuggestions(
+  senders: EngagementSenderRow[],
+  signals: EngagementSignals,
+  options: { totalEmails: number; now?: Date; limit?: number }
+): CleanupSuggestion[] {
+  const now = options.now ?? new Date();
+  const ranked: { suggestion: CleanupSuggestion; impact: number }[] = [];
+
+  for (const sender of senders) {
+    if ((sender.email_count || 0) < MIN_SUGGESTION_EMAILS) continue;
+    if (signals.muted.has(sender.sender_email)) continue;
+
+    const hasReplied = signals.sentRecipients.has(sender.sender_email.toLowerCase());
+    if (hasReplied) continue;
+
+    const archivedUnread = signals.archivedUnread.get(`${sender.sender_email}|||${sender.sender_name}`) || 0;
+    const engagement = scoreSenderEngagement(sender, archivedUnread, hasReplied, now);
+    if (engagement.score >= SUGGESTION_SCORE_THRESHOLD) continue;
+
+    const recency = recencyFactor(engagement.daysSinceLastEmail);
+    const action: SuggestedAction = sender.has_unsubscribe && recency > 0 ? 'unsubscribe' : 'delete';
+    const perMonth = action === 'unsubscribe' ? Math.round(engagement.emailsPerMonth * recency) : 0;
+
+    const reasons: string[] = [];
+    const unread = sender.unread_count || 0;
+    reasons.push(unread >= sender.email_count
+      ? `You haven't opened any of their ${sender.email_count.toLocaleString()} emails`
+      : `You've opened ${Math.round(engagement.readRatio * 100)}% of their emails`);
+    if (archivedUnread > 0) {
+      reasons.push(`${archivedUnread.toLocaleString()} archived without being read`);
+    }
+    if (signals.repliesKnown) {
+      reasons.push(`You've never replied`);
+    }
+    if (recency > 0 && engagement.emailsPerMonth >= 1) {
+      reasons.push(`About ${Math.round(engagement.emailsPerMonth).toLocaleString()} emails a month`);
+    } else if (recency === 0) {
+      reasons.push(`Nothing new in over a year`);
+    }
+
+    ranked.push({
+      suggestion: {
+        senderEmail: sender.sender_email,
+        senderName: sender.sender_name || sender.sender_email,
+        action,
+        engagement,
+        reasons,
+        estimatedReduction: {
+          emails: sender.email_count,
+          perMonth,
+          percentOfInbox: options.totalEmails > 0 ? roundTo((sender.email_count / options.totalEmails) * 100, 1) : 0,
+        },
+      },
+      impact: (1 - engagement.score / 100) * (sender.email_count + RANKING_HORIZON_MONTHS * perMonth),
+    });
+  }
+
+  ranked.sort((a, b) => b.impact - a.impact || a.suggestion.senderEmail.localeCompare(b.suggestion.senderEmail));
+  const suggestions = ranked.map(r => r.suggestion);
+  return options.limit ? suggestions.slice(0, options.limit) : suggestions;
+}
+
+/**
+ * Record the recipients of a sent-mail scan. Addresses from earlier scans are
+ * kept, so a reply still counts once it falls out of the scanned window.
+ */
+export async function saveSentRecipients(
+  userId: string,
+  accountId: string,
+  recipients: SentRecipients
+): Promise<void> {
+  const now = new Date().toISOString();
+  const rows = [...recipients].map(([recipientEmail, lastSentAt]) => ({
+    user_id: userId,
+    email_account_id: accountId,
+    recipient_email: recipientEmail,
+    last_sent_at: lastSentAt,
+    updated_at: now,
+  }));
+
+  for (let i = 0; i < rows.length; i += 500) {
+    const { error } = await supabase
+      .from('sent_recipients')
+      .upsert(rows.slice(i, i + 500), { onConflict: 'email_account_id,recipient_email' });
+    if (error) throw new Error(`Failed to save sent recipients: ${error.message}`);
+  }
+}
+
+/**
+ * Addresses the user has sent mail to on this account
+ */
+export async function loadSentRecipients(accountId: string): Promise<SentRecipients> {
+  const recipients: SentRecipients = new Map();
+
+  for (let page = 0; ; page++) {
+    const { data, error } = await supabase
+      .from('sent_recipients')
+      .select('recipient_email, last_sent_at')
+      .eq('email_account_id', accountId)
+      .order('recipient_email', { ascending: true })
+      .range(page * 1000, (page + 1) * 1000 - 1);
+
+    if (error) throw new Error(`Failed to load sent recipients: ${error.message}`);
+    for (const row of data || []) recipients.set(row.recipient_email, row.last_sent_at);
+    if (!data || data.length < 1000) break;
+  }
+
+  return recipients;
+}
+
+/**
+ * Gmail mail per sender that is still unread but no longer in the inbox.
+ * Only Gmail rows carry labels, so other providers have no such signal.
+ */
+export async function loadArchivedUnreadCounts(accountId: string): Promise<Map<string, number>> {
+  const counts = new Map<string, number>();
+
+  for (let page = 0; ; page++) {
+    const { data, error } = await supabase
+      .from('emails')
+      .select('sender_email, sender_name')
+      .eq('email_account_id', accountId)
+      .eq('is_unread', true)
+      .not('labels', 'cs', '{INBOX}')
+      .order('gmail_message_id', { ascending: true })
+      .range(page * 1000, (page + 1) * 1000 - 1);
+
+    if (error) throw new Error(`Failed to load archived unread emails: ${error.message}`);
+    for (const row of data || []) {
+      const key = `${row.sender_email}|||${row.sender_name}`;
+      counts.set(key, (counts.get(key) || 0) + 1);
+    }
+    if (!data || data.length < 1000) break;
+  }
+
+  return counts;
+}
+
+/**
+ * The account's email_senders rows with what scoring needs
+ */
+export async function loadEngagementSenders(accountId: string): Promise<EngagementSenderRow[]> {
+  const senders: EngagementSenderRow[] = [];
+
+  for (let page = 0; ; page++) {
+    const { data, error } = await supabase
+      .from('email_senders')
+      .select('sender_email, sender_name, email_count, unread_count, first_email_date, last_email_date, has_unsubscribe')
+      .eq('email_account_id', accountId)
+      .order('id', { ascending: true })
+      .range(page * 1000, (page + 1) * 1000 - 1);
+
+    if (error) throw new Error(`Failed to load senders: ${error.message}`);
+    senders.push(...((data || []) as EngagementSenderRow[]));
+    if (!data || data.length < 1000) break;
+  }
+
+  return senders;
+}
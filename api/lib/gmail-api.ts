@@ -3,23 +3,41 @@
  *
  * Provides methods to interact with Gmail API:
  * - List messages
- * - Get message details
- * - Delete/Archive messages
+ * - Get message details (multipart /batch for bulk fetches)
+ * - Delete/Archive messages (/batch and messages.batchModify for bulk moves)
  * - Extract unsubscribe links
  */
 
+import type { EmailRecord, SenderStats, SentRecipients } from './mail-provider.js';
+import {
+  extractUnsubscribeLink as parseUnsubscribeLink,
+  extractMailtoUnsubscribeLink as parseMailtoUnsubscribeLink,
+  isOneClickUnsubscribe,
+  parseListId,
+  parseAddressList,
+  addSentRecipients,
+} from './mail-provider.js';
+import { quotaFetch, gmailQuotaUnits, isProviderUnavailableError } from './provider-quota.js';
+
 const GMAIL_API_BASE = 'https://gmail.googleapis.com/gmail/v1/users/me';
+const GMAIL_BATCH_URL = 'https://gmail.googleapis.com/batch/gmail/v1';
+// Path prefix for requests inside a /batch body
+const GMAIL_BATCH_PATH = '/gmail/v1/users/me';
 
 // Rate limiting configuration
 const RATE_LIMIT = {
-  MAX_CONCURRENT: 10,         // Max parallel requests (Gmail allows ~25, we use 10 for safety)
-  REQUESTS_PER_SECOND: 40,    // Target 40/sec (limit is 50/sec)
+  BATCH_PARTS: 50,            // Requests per /batch call (Gmail allows 100, but >50 trips per-user rate limits)
+  MODIFY_IDS: 1000,           // Max IDs per messages.batchModify call
   DELAY_BETWEEN_BATCHES: 250, // 250ms between batches
   MAX_RETRIES: 3,             // Retry failed requests up to 3 times
   INITIAL_BACKOFF_MS: 1000,   // Start with 1 second backoff
   MAX_BACKOFF_MS: 32000,      // Max 32 second backoff
 };
 
+// 403 reasons that are per-user rate limits - every other 403 (missing scope,
+// no permission) fails the same way on retry
+const RATE_LIMIT_REASONS = ['rateLimitExceeded', 'userRateLimitExceeded'];
+
 /**
  * Sleep for a given number of milliseconds
  */
@@ -44,14 +62,17 @@ export interface GmailMessage {
   labelIds: string[];
   snippet: string;
   payload?: {
+    mimeType?: string;
     headers: Array<{ name: string; value: string }>;
     body?: { data?: string };
     parts?: Array<{
       mimeType: string;
+      filename?: string;
       body?: { data?: string };
     }>;
   };
   internalDate: string;
+  sizeEstimate?: number;
 }
 
 export interface GmailMessageList {
@@ -81,34 +102,26 @@ export interface GmailHistoryList {
   historyId: string;
 }
 
-export interface SenderStats {
-  email: string;
-  name: string;
-  count: number;
-  unreadCount: number;
-  firstDate: string;
-  lastDate: string;
-  unsubscribeLink?: string;
-  mailtoUnsubscribeLink?: string;
-  hasUnsubscribe: boolean;
-  hasOneClickUnsubscribe: boolean;
-  isNewsletter: boolean;
-  isPromotional: boolean;
-  messageIds: string[];
-  _unsubLinkDate?: string; // in-memory only, tracks which email the unsub link came from
-  _mailtoUnsubLinkDate?: string; // in-memory only, tracks which email the mailto unsub link came from
-}
-
-export interface EmailRecord {
-  gmail_message_id: string;
-  sender_email: string;
-  sender_name: string;
-  subject: string;
-  snippet: string;
-  received_at: string;
-  is_unread: boolean;
-  thread_id: string;
-  labels: string[];
+export interface GmailLabelChange {
+  messageId: string;
+  addedLabelIds: string[];
+  removedLabelIds: string[];
+}
+
+export interface GmailWatchResponse {
+  historyId: string;
+  expiration: string; // epoch milliseconds
+}
+
+export interface BatchPart {
+  method: 'GET' | 'POST' | 'DELETE';
+  path: string; // relative to /users/me, e.g. /messages/{id}/trash
+  body?: unknown;
+}
+
+export interface BatchPartResponse {
+  status: number;
+  body: any;
 }
 
 export interface SyncResult {
@@ -125,7 +138,9 @@ async function gmailRequest(
   options: RequestInit = {},
   retryCount: number = 0
 ): Promise<any> {
-  const response = await fetch(`${GMAIL_API_BASE}${endpoint}`, {
+  // Quota, adaptive concurrency and circuit breaking are shared per user (see provider-quota.ts)
+  const units = gmailQuotaUnits(options.method || 'GET', endpoint);
+  const response = await quotaFetch('gmail', accessToken, units, `${GMAIL_API_BASE}${endpoint}`, {
     ...options,
     headers: {
       Authorization: `Bearer ${accessToken}`,
@@ -138,7 +153,8 @@ async function gmailRequest(
     const error = await response.text();
 
     // Handle rate limit errors with exponential backoff
-    if ((response.status === 429 || response.status === 403) && retryCount < RATE_LIMIT.MAX_RETRIES) {
+    const rateLimited = isRateLimitError(response.status, error);
+    if (rateLimited && retryCount < RATE_LIMIT.MAX_RETRIES) {
       const backoffMs = getBackoffMs(retryCount);
       console.warn(`Rate limited (${response.status}), retrying in ${Math.round(backoffMs)}ms (attempt ${retryCount + 1}/${RATE_LIMIT.MAX_RETRIES})`);
       await sleep(backoffMs);
@@ -146,7 +162,7 @@ async function gmailRequest(
     }
 
     // Only log full error for non-rate-limit errors or after all retries exhausted
-    if (response.status !== 429 && response.status !== 403) {
+    if (!rateLimited) {
       console.error('Gmail API error response:', response.status, error);
     }
     throw new Error(`Gmail API error: ${response.status} - ${error}`);
@@ -157,6 +173,251 @@ async function gmailRequest(
   return text ? JSON.parse(text) : null;
 }
 
+/**
+ * Whether a Gmail error is a rate limit: 429, or a 403 whose reason is one of
+ * RATE_LIMIT_REASONS. The body may be the raw response text or parsed JSON.
+ */
+export function isRateLimitError(status: number, body: unknown): boolean {
+  if (status === 429) return true;
+  if (status !== 403) return false;
+
+  let parsed: any = body;
+  if (typeof body === 'string') {
+    try {
+      parsed = JSON.parse(body);
+    } catch {
+      return false;
+    }
+  }
+  const errors = parsed?.error?.errors;
+  return Array.isArray(errors) && errors.some((e: any) => RATE_LIMIT_REASONS.includes(e?.reason));
+}
+
+/**
+ * Errors worth retrying: rate limits and transient server errors
+ */
+function isRetryableStatus(status: number, body: unknown): boolean {
+  return status >= 500 || isRateLimitError(status, body);
+}
+
+/**
+ * Build a multipart/mixed body for the Gmail /batch endpoint.
+ * Each part is tagged with Content-ID <item-N> so responses can be matched back.
+ */
+export function buildBatchBody(parts: BatchPart[], boundary: string): string {
+  const lines: string[] = [];
+
+  parts.forEach((part, index) => {
+    lines.push(`--${boundary}`);
+    lines.push('Content-Type: application/http');
+    lines.push(`Content-ID: <item-${index}>`);
+    lines.push('');
+    lines.push(`${part.method} ${GMAIL_BATCH_PATH}${part.path} HTTP/1.1`);
+    if (part.body !== undefined) {
+      lines.push('Content-Type: application/json');
+      lines.push('');
+      lines.push(JSON.stringify(part.body));
+    } else {
+      lines.push('');
+    }
+    lines.push('');
+  });
+  lines.push(`--${boundary}--`);
+
+  return lines.join('\r\n');
+}
+
+/**
+ * Parse a /batch multipart response into per-part results, indexed by the
+ * request's Content-ID. Parts missing from the response are left undefined.
+ */
+export function parseBatchResponse(
+  text: string,
+  contentType: string,
+  partCount: number
+): Array<BatchPartResponse | undefined> {
+  const results: Array<BatchPartResponse | undefined> = new Array(partCount).fill(undefined);
+  const boundary = contentType.match(/boundary="?([^";]+)"?/i)?.[1];
+  if (!boundary) return results;
+
+  const segments = text.replace(/\r\n/g, '\n').split(`--${boundary}`);
+
+  for (const segment of segments) {
+    // Part headers, then the embedded HTTP response (status line, headers, body)
+    const headerEnd = segment.indexOf('\n\n');
+    if (headerEnd === -1) continue;
+
+    const index = Number(segment.slice(0, headerEnd).match(/Content-ID:\s*<response-item-(\d+)>/i)?.[1]);
+    if (!Number.isInteger(index) || index < 0 || index >= partCount) continue;
+
+    const httpResponse = segment.slice(headerEnd + 2);
+    const status = Number(httpResponse.match(/^HTTP\/[\d.]+\s+(\d{3})/)?.[1]);
+    if (!status) continue;
+
+    const bodyStart = httpResponse.indexOf('\n\n');
+    const rawBody = bodyStart === -1 ? '' : httpResponse.slice(bodyStart + 2).trim();
+    let body: any = null;
+    if (rawBody) {
+      try {
+        body = JSON.parse(rawBody);
+      } catch {
+        body = rawBody;
+      }
+    }
+
+    results[index] = { status, body };
+  }
+
+  return results;
+}
+
+/**
+ * Send up to RATE_LIMIT.BATCH_PARTS requests in one Gmail /batch call.
+ * Parts that come back rate limited (or missing) are retried with backoff;
+ * every other part's status is returned as-is for the caller to handle.
+ */
+async function gmailBatchRequest(
+  accessToken: string,
+  parts: BatchPart[]
+): Promise<BatchPartResponse[]> {
+  const results: BatchPartResponse[] = new Array(parts.length);
+  let pending = parts.map((_, index) => index);
+
+  for (let attempt = 0; ; attempt++) {
+    const boundary = `batch_${Date.now()}_${Math.random().toString(36).slice(2)}`;
+    // Each part is charged its own quota cost
+    const units = pending.reduce((sum, index) => sum + gmailQuotaUnits(parts[index].method, parts[index].path), 0);
+    const response = await quotaFetch('gmail', accessToken, units, GMAIL_BATCH_URL, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        'Content-Type': `multipart/mixed; boundary=${boundary}`,
+      },
+      body: buildBatchBody(pending.map(index => parts[index]), boundary),
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      if (isRetryableStatus(response.status, error) && attempt < RATE_LIMIT.MAX_RETRIES) {
+        const backoffMs = getBackoffMs(attempt);
+        console.warn(`Gmail batch rate limited (${response.status}), retrying in ${Math.round(backoffMs)}ms (attempt ${attempt + 1}/${RATE_LIMIT.MAX_RETRIES})`);
+        await sleep(backoffMs);
+        continue;
+      }
+      throw new Error(`Gmail API error: ${response.status} - ${error}`);
+    }
+
+    const parsed = parseBatchResponse(
+      await response.text(),
+      response.headers.get('content-type') || '',
+      pending.length
+    );
+
+    const retry: number[] = [];
+    pending.forEach((partIndex, i) => {
+      const part = parsed[i] || { status: 0, body: null };
+      if ((part.status === 0 || isRetryableStatus(part.status, part.body)) && attempt < RATE_LIMIT.MAX_RETRIES) {
+        retry.push(partIndex);
+      } else {
+        results[partIndex] = part;
+      }
+    });
+
+    if (retry.length === 0) return results;
+
+    const backoffMs = getBackoffMs(attempt);
+    console.warn(`Gmail batch: ${retry.length}/${pending.length} parts rate limited, retrying in ${Math.round(backoffMs)}ms (attempt ${attempt + 1}/${RATE_LIMIT.MAX_RETRIES})`);
+    await sleep(backoffMs);
+    pending = retry;
+  }
+}
+
+/**
+ * Run one request per message through /batch, RATE_LIMIT.BATCH_PARTS at a time.
+ * A message succeeds when its part returns 2xx.
+ */
+async function batchMessageRequests(
+  accessToken: string,
+  messageIds: string[],
+  toPart: (messageId: string) => BatchPart
+): Promise<{ success: string[]; failed: string[] }> {
+  const success: string[] = [];
+  const failed: string[] = [];
+
+  for (let i = 0; i < messageIds.length; i += RATE_LIMIT.BATCH_PARTS) {
+    const batch = messageIds.slice(i, i + RATE_LIMIT.BATCH_PARTS);
+
+    try {
+      const responses = await gmailBatchRequest(accessToken, batch.map(toPart));
+      responses.forEach((response, idx) => {
+        if (response.status >= 200 && response.status < 300) {
+          success.push(batch[idx]);
+        } else {
+          failed.push(batch[idx]);
+        }
+      });
+    } catch (error: any) {
+      // Provider outage: stop here rather than failing every remaining message one by one
+      if (isProviderUnavailableError(error)) {
+        if (success.length === 0) throw error;
+        failed.push(...messageIds.slice(i));
+        break;
+      }
+      console.error('Gmail batch request failed:', error.message);
+      failed.push(...batch);
+    }
+
+    // Delay between batches
+    if (i + RATE_LIMIT.BATCH_PARTS < messageIds.length) {
+      await sleep(RATE_LIMIT.DELAY_BETWEEN_BATCHES);
+    }
+  }
+
+  return { success, failed };
+}
+
+/**
+ * Add/remove labels on many messages with messages.batchModify (1000 IDs per call).
+ * batchModify is all-or-nothing, so a failed chunk falls back to per-message
+ * modify requests through /batch to find out which messages actually failed.
+ */
+async function batchModifyLabels(
+  accessToken: string,
+  messageIds: string[],
+  change: { addLabelIds?: string[]; removeLabelIds?: string[] }
+): Promise<{ success: string[]; failed: string[] }> {
+  const success: string[] = [];
+  const failed: string[] = [];
+
+  for (let i = 0; i < messageIds.length; i += RATE_LIMIT.MODIFY_IDS) {
+    const chunk = messageIds.slice(i, i + RATE_LIMIT.MODIFY_IDS);
+
+    try {
+      await gmailRequest(accessToken, '/messages/batchModify', {
+        method: 'POST',
+        body: JSON.stringify({ ids: chunk, ...change }),
+      });
+      success.push(...chunk);
+    } catch (error: any) {
+      if (isProviderUnavailableError(error)) {
+        if (success.length === 0) throw error;
+        failed.push(...messageIds.slice(i));
+        break;
+      }
+      console.warn(`Gmail batchModify failed, falling back to per-message modify: ${error.message}`);
+      const result = await batchMessageRequests(accessToken, chunk, id => ({
+        method: 'POST',
+        path: `/messages/${id}/modify`,
+        body: change,
+      }));
+      success.push(...result.success);
+      failed.push(...result.failed);
+    }
+  }
+
+  return { success, failed };
+}
+
 /**
  * List messages from Gmail inbox
  */
@@ -189,6 +450,27 @@ export async function getProfile(accessToken: string): Promise<GmailProfile> {
   return gmailRequest(accessToken, '/profile');
 }
 
+/**
+ * Register (or renew) a Pub/Sub push watch on the mailbox.
+ * Gmail expires watches after 7 days, so they must be renewed before then.
+ */
+export async function watchMailbox(
+  accessToken: string,
+  topicName: string
+): Promise<GmailWatchResponse> {
+  return gmailRequest(accessToken, '/watch', {
+    method: 'POST',
+    body: JSON.stringify({ topicName }),
+  });
+}
+
+/**
+ * Stop push notifications for the mailbox
+ */
+export async function stopMailboxWatch(accessToken: string): Promise<void> {
+  await gmailRequest(accessToken, '/stop', { method: 'POST' });
+}
+
 /**
  * List history of changes since a given historyId
  * Returns deleted message IDs and other changes
@@ -207,7 +489,8 @@ export async function listHistory(
 }
 
 /**
- * Get all changes since a given historyId (additions, deletions, trash moves)
+ * Get all changes since a given historyId (additions, deletions, trash moves,
+ * label/read-state changes). Label changes are returned in history order.
  * Uses Gmail History API for fast incremental sync
  */
 export async function getHistoryChanges(
@@ -216,11 +499,13 @@ export async function getHistoryChanges(
 ): Promise<{
   addedMessageIds: string[];
   deletedMessageIds: string[];
+  labelChanges: GmailLabelChange[];
   newHistoryId: string;
   historyExpired: boolean;
 }> {
   const addedMessageIds: string[] = [];
   const deletedMessageIds: string[] = [];
+  const labelChanges: GmailLabelChange[] = [];
   let pageToken: string | undefined;
   let newHistoryId = startHistoryId;
 
@@ -243,14 +528,22 @@ export async function getHistoryChanges(
           if (record.messagesDeleted) {
             deletedMessageIds.push(...record.messagesDeleted.map(m => m.message.id));
           }
-          // Catch messages moved to trash (labelsAdded with TRASH label)
+          // Catch messages moved to trash (labelsAdded with TRASH label);
+          // any other label change (read/unread, archive, categories) is reconciled locally
           if (record.labelsAdded) {
             for (const labelChange of record.labelsAdded) {
               if (labelChange.labelIds?.includes('TRASH')) {
                 deletedMessageIds.push(labelChange.message.id);
+              } else {
+                labelChanges.push({ messageId: labelChange.message.id, addedLabelIds: labelChange.labelIds || [], removedLabelIds: [] });
               }
             }
           }
+          if (record.labelsRemoved) {
+            for (const labelChange of record.labelsRemoved) {
+              labelChanges.push({ messageId: labelChange.message.id, addedLabelIds: [], removedLabelIds: labelChange.labelIds || [] });
+            }
+          }
         }
       }
 
@@ -260,12 +553,12 @@ export async function getHistoryChanges(
   } catch (error: any) {
     // History may be expired (Gmail only keeps ~30 days)
     if (error.message?.includes('404') || error.message?.includes('historyId')) {
-      return { addedMessageIds: [], deletedMessageIds: [], newHistoryId: startHistoryId, historyExpired: true };
+      return { addedMessageIds: [], deletedMessageIds: [], labelChanges: [], newHistoryId: startHistoryId, historyExpired: true };
     }
     throw error;
   }
 
-  return { addedMessageIds, deletedMessageIds, newHistoryId, historyExpired: false };
+  return { addedMessageIds, deletedMessageIds, labelChanges, newHistoryId, historyExpired: false };
 }
 
 /**
@@ -311,14 +604,13 @@ export async function listAllMessageIds(
 }
 
 /**
- * Get message details with specific headers
+ * Endpoint for a single message in the given format
  */
-export async function getMessage(
-  accessToken: string,
+function messageEndpoint(
   messageId: string,
-  format: 'full' | 'metadata' | 'minimal' = 'metadata',
+  format: 'full' | 'metadata' | 'minimal',
   metadataHeaders?: string[]
-): Promise<GmailMessage> {
+): string {
   let endpoint = `/messages/${messageId}?format=${format}`;
 
   // When using metadata format, explicitly request the headers we need
@@ -328,12 +620,24 @@ export async function getMessage(
     endpoint += `&${headersParam}`;
   }
 
-  return gmailRequest(accessToken, endpoint);
+  return endpoint;
 }
 
 /**
- * Batch get multiple messages with rate limiting
- * Uses conservative settings to avoid Gmail API rate limits
+ * Get message details with specific headers
+ */
+export async function getMessage(
+  accessToken: string,
+  messageId: string,
+  format: 'full' | 'metadata' | 'minimal' = 'metadata',
+  metadataHeaders?: string[]
+): Promise<GmailMessage> {
+  return gmailRequest(accessToken, messageEndpoint(messageId, format, metadataHeaders));
+}
+
+/**
+ * Batch get multiple messages using Gmail's multipart /batch endpoint
+ * (RATE_LIMIT.BATCH_PARTS messages per HTTP call, rate-limited parts retried)
  */
 export async function batchGetMessages(
   accessToken: string,
@@ -342,36 +646,39 @@ export async function batchGetMessages(
   metadataHeaders?: string[],
   onProgress?: (processed: number, total: number) => void
 ): Promise<GmailMessage[]> {
-  // Conservative rate limiting to stay well under Gmail's limits
-  // - 10 concurrent requests (Gmail allows ~25)
-  // - 250ms delay between batches (~40 req/sec, limit is 50)
-  const BATCH_SIZE = RATE_LIMIT.MAX_CONCURRENT;
-  const DELAY_MS = RATE_LIMIT.DELAY_BETWEEN_BATCHES;
   const results: GmailMessage[] = [];
   let failedCount = 0;
 
-  for (let i = 0; i < messageIds.length; i += BATCH_SIZE) {
-    const batch = messageIds.slice(i, i + BATCH_SIZE);
-
-    // Process batch with parallel requests
-    const batchResults = await Promise.all(
-      batch.map(id => getMessage(accessToken, id, format, metadataHeaders).catch((err) => {
-        failedCount++;
-        return null;
-      }))
-    );
-
-    results.push(...batchResults.filter(Boolean) as GmailMessage[]);
+  for (let i = 0; i < messageIds.length; i += RATE_LIMIT.BATCH_PARTS) {
+    const batch = messageIds.slice(i, i + RATE_LIMIT.BATCH_PARTS);
+
+    try {
+      const responses = await gmailBatchRequest(
+        accessToken,
+        batch.map(id => ({ method: 'GET', path: messageEndpoint(id, format, metadataHeaders) }))
+      );
+      for (const response of responses) {
+        if (response.status === 200 && response.body) {
+          results.push(response.body as GmailMessage);
+        } else {
+          failedCount++;
+        }
+      }
+    } catch (error: any) {
+      // A provider outage must fail the sync, not silently drop messages
+      if (isProviderUnavailableError(error)) throw error;
+      console.error('Gmail batch get failed:', error.message);
+      failedCount += batch.length;
+    }
 
     if (onProgress) {
       onProgress(results.length, messageIds.length);
     }
 
     // Delay between batches to respect rate limits
-    if (i + BATCH_SIZE < messageIds.length) {
-      await sleep(DELAY_MS);
+    if (i + RATE_LIMIT.BATCH_PARTS < messageIds.length) {
+      await sleep(RATE_LIMIT.DELAY_BETWEEN_BATCHES);
     }
-
   }
 
   if (failedCount > 0) {
@@ -381,6 +688,42 @@ export async function batchGetMessages(
   return results;
 }
 
+// Newest sent messages scanned for recipients
+const SENT_RECIPIENT_SCAN_LIMIT = 1000;
+
+/**
+ * Who the user has written to, from the To/Cc of their newest sent messages
+ */
+export async function listSentRecipients(
+  accessToken: string,
+  maxMessages: number = SENT_RECIPIENT_SCAN_LIMIT
+): Promise<SentRecipients> {
+  const messageIds: string[] = [];
+  let pageToken: string | undefined;
+
+  while (messageIds.length < maxMessages) {
+    const response = await listMessages(accessToken, {
+      maxResults: Math.min(500, maxMessages - messageIds.length),
+      pageToken,
+      q: 'in:sent',
+    });
+    if (response.messages) messageIds.push(...response.messages.map(m => m.id));
+    pageToken = response.nextPageToken;
+    if (!pageToken) break;
+  }
+
+  const recipients: SentRecipients = new Map();
+  const messages = await batchGetMessages(accessToken, messageIds, 'metadata', ['To', 'Cc']);
+  for (const message of messages) {
+    const sentAt = new Date(parseInt(message.internalDate)).toISOString();
+    addSentRecipients(recipients, [
+      ...parseAddressList(getHeader(message, 'To')),
+      ...parseAddressList(getHeader(message, 'Cc')),
+    ], sentAt);
+  }
+  return recipients;
+}
+
 /**
  * Delete a message (move to trash)
  */
@@ -406,39 +749,48 @@ export async function deleteMessage(
 }
 
 /**
- * Batch trash messages with rate limiting
+ * Batch permanently delete messages through Gmail's /batch endpoint.
+ * Needs the full https://mail.google.com/ scope - gmail.modify can't delete.
+ *
+ * With onlyTrashed, messages that no longer carry the TRASH label (restored by
+ * the user since, or already purged) are reported as failed and left alone:
+ * Gmail IDs survive a restore, so deleting them blindly would destroy mail
+ * the user rescued.
  */
-export async function batchTrashMessages(
+export async function batchDeleteMessages(
   accessToken: string,
-  messageIds: string[]
+  messageIds: string[],
+  options: { onlyTrashed?: boolean } = {}
 ): Promise<{ success: string[]; failed: string[] }> {
-  const success: string[] = [];
-  const failed: string[] = [];
-
-  const BATCH_SIZE = RATE_LIMIT.MAX_CONCURRENT;
-  const DELAY_MS = RATE_LIMIT.DELAY_BETWEEN_BATCHES;
-
-  for (let i = 0; i < messageIds.length; i += BATCH_SIZE) {
-    const batch = messageIds.slice(i, i + BATCH_SIZE);
-    const results = await Promise.allSettled(
-      batch.map(id => trashMessage(accessToken, id))
-    );
-
-    results.forEach((result, idx) => {
-      if (result.status === 'fulfilled') {
-        success.push(batch[idx]);
-      } else {
-        failed.push(batch[idx]);
-      }
-    });
-
-    // Delay between batches
-    if (i + BATCH_SIZE < messageIds.length) {
-      await sleep(DELAY_MS);
-    }
+  let targets = messageIds;
+  if (options.onlyTrashed) {
+    const messages = await batchGetMessages(accessToken, messageIds, 'minimal');
+    const trashed = new Set(messages.filter(m => m.labelIds?.includes('TRASH')).map(m => m.id));
+    targets = messageIds.filter(id => trashed.has(id));
   }
 
-  return { success, failed };
+  const result = await batchMessageRequests(accessToken, targets, id => ({
+    method: 'DELETE',
+    path: `/messages/${id}`,
+  }));
+  const attempted = new Set(targets);
+  return {
+    success: result.success,
+    failed: [...result.failed, ...messageIds.filter(id => !attempted.has(id))],
+  };
+}
+
+/**
+ * Batch trash messages through Gmail's /batch endpoint
+ */
+export async function batchTrashMessages(
+  accessToken: string,
+  messageIds: string[]
+): Promise<{ success: string[]; failed: string[] }> {
+  return batchMessageRequests(accessToken, messageIds, id => ({
+    method: 'POST',
+    path: `/messages/${id}/trash`,
+  }));
 }
 
 /**
@@ -457,39 +809,73 @@ export async function archiveMessage(
 }
 
 /**
- * Batch archive messages with rate limiting
+ * Batch archive messages (remove INBOX label) with messages.batchModify
  */
 export async function batchArchiveMessages(
   accessToken: string,
   messageIds: string[]
 ): Promise<{ success: string[]; failed: string[] }> {
-  const success: string[] = [];
-  const failed: string[] = [];
+  return batchModifyLabels(accessToken, messageIds, { removeLabelIds: ['INBOX'] });
+}
 
-  const BATCH_SIZE = RATE_LIMIT.MAX_CONCURRENT;
-  const DELAY_MS = RATE_LIMIT.DELAY_BETWEEN_BATCHES;
+/**
+ * Batch mark messages read (remove UNREAD label) with messages.batchModify
+ */
+export async function batchMarkAsRead(
+  accessToken: string,
+  messageIds: string[]
+): Promise<{ success: string[]; failed: string[] }> {
+  return batchModifyLabels(accessToken, messageIds, { removeLabelIds: ['UNREAD'] });
+}
 
-  for (let i = 0; i < messageIds.length; i += BATCH_SIZE) {
-    const batch = messageIds.slice(i, i + BATCH_SIZE);
-    const results = await Promise.allSettled(
-      batch.map(id => archiveMessage(accessToken, id))
-    );
+/**
+ * Restore a message from trash
+ */
+export async function untrashMessage(
+  accessToken: string,
+  messageId: string
+): Promise<void> {
+  await gmailRequest(accessToken, `/messages/${messageId}/untrash`, {
+    method: 'POST',
+  });
+}
 
-    results.forEach((result, idx) => {
-      if (result.status === 'fulfilled') {
-        success.push(batch[idx]);
-      } else {
-        failed.push(batch[idx]);
-      }
-    });
+/**
+ * Batch untrash messages through Gmail's /batch endpoint
+ */
+export async function batchUntrashMessages(
+  accessToken: string,
+  messageIds: string[]
+): Promise<{ success: string[]; failed: string[] }> {
+  return batchMessageRequests(accessToken, messageIds, id => ({
+    method: 'POST',
+    path: `/messages/${id}/untrash`,
+  }));
+}
 
-    // Delay between batches
-    if (i + BATCH_SIZE < messageIds.length) {
-      await sleep(DELAY_MS);
-    }
-  }
+/**
+ * Move an archived message back to the inbox (re-add INBOX label)
+ */
+export async function unarchiveMessage(
+  accessToken: string,
+  messageId: string
+): Promise<void> {
+  await gmailRequest(accessToken, `/messages/${messageId}/modify`, {
+    method: 'POST',
+    body: JSON.stringify({
+      addLabelIds: ['INBOX'],
+    }),
+  });
+}
 
-  return { success, failed };
+/**
+ * Batch unarchive messages (re-add INBOX label) with messages.batchModify
+ */
+export async function batchUnarchiveMessages(
+  accessToken: string,
+  messageIds: string[]
+): Promise<{ success: string[]; failed: string[] }> {
+  return batchModifyLabels(accessToken, messageIds, { addLabelIds: ['INBOX'] });
 }
 
 /**
@@ -560,45 +946,14 @@ function parseSender(fromHeader: string): { email: string; name: string } {
  * Extract unsubscribe link from headers (prefers HTTP)
  */
 function extractUnsubscribeLink(message: GmailMessage): string | undefined {
-  const listUnsubscribe = getHeader(message, 'List-Unsubscribe');
-  if (!listUnsubscribe) return undefined;
-
-  // Parse List-Unsubscribe header - can contain mailto: and/or http(s): URLs
-  // Format: <mailto:unsubscribe@example.com>, <https://example.com/unsubscribe>
-
-  // Prefer HTTPS links in angle brackets (RFC 2369 standard)
-  const httpMatch = listUnsubscribe.match(/<(https?:\/\/[^>]+)>/);
-  if (httpMatch) return httpMatch[1];
-
-  // Fallback: bare URL without angle brackets (some senders like Chess.com)
-  const httpMatchBare = listUnsubscribe.match(/(https?:\/\/\S+)/);
-  if (httpMatchBare) return httpMatchBare[1];
-
-  // Mailto in angle brackets
-  const mailtoMatch = listUnsubscribe.match(/<(mailto:[^>]+)>/);
-  if (mailtoMatch) return mailtoMatch[1];
-
-  // Fallback: bare mailto
-  const mailtoBare = listUnsubscribe.match(/(mailto:\S+)/);
-  if (mailtoBare) return mailtoBare[1];
-
-  return undefined;
+  return parseUnsubscribeLink(getHeader(message, 'List-Unsubscribe') || '') ?? undefined;
 }
 
 /**
  * Extract mailto unsubscribe link from headers (always extracts mailto if present)
  */
 function extractMailtoUnsubscribeLink(message: GmailMessage): string | undefined {
-  const listUnsubscribe = getHeader(message, 'List-Unsubscribe');
-  if (!listUnsubscribe) return undefined;
-
-  // Mailto in angle brackets (RFC 2369 standard)
-  const mailtoMatch = listUnsubscribe.match(/<(mailto:[^>]+)>/);
-  if (mailtoMatch) return mailtoMatch[1];
-
-  // Fallback: bare mailto without angle brackets
-  const mailtoBare = listUnsubscribe.match(/(mailto:\S+)/);
-  return mailtoBare ? mailtoBare[1] : undefined;
+  return parseMailtoUnsubscribeLink(getHeader(message, 'List-Unsubscribe') || '') ?? undefined;
 }
 
 /**
@@ -651,6 +1006,16 @@ function isNewsletter(message: GmailMessage): boolean {
   return !!(listUnsubscribe && (hasPromotions || hasUpdates));
 }
 
+/**
+ * Check if message carries attachments.
+ * Metadata responses have no parts, but mail with attachments is sent as
+ * multipart/mixed (inline images alone use multipart/related).
+ */
+export function hasAttachments(message: GmailMessage): boolean {
+  if (message.payload?.mimeType?.toLowerCase() === 'multipart/mixed') return true;
+  return !!message.payload?.parts?.some(part => !!part.filename);
+}
+
 /**
  * Get subject from message headers
  */
@@ -686,8 +1051,9 @@ export function aggregateBySender(messages: GmailMessage[]): Map<string, SenderS
     const messageDate = new Date(parseInt(message.internalDate)).toISOString();
     const unsubscribeLink = extractUnsubscribeLink(message);
     const mailtoUnsubLink = extractMailtoUnsubscribeLink(message);
-    const unsubscribePostHeader = getHeader(message, 'List-Unsubscribe-Post') || '';
-    const hasOneClick = unsubscribePostHeader.toLowerCase().includes('list-unsubscribe=one-click');
+    const hasOneClick = isOneClickUnsubscribe(getHeader(message, 'List-Unsubscribe-Post'));
+    const listId = parseListId(getHeader(message, 'List-Id'));
+    const sizeBytes = message.sizeEstimate || 0;
     const isUnread = message.labelIds?.includes('UNREAD') || false;
 
     if (!senderMap.has(compositeKey)) {
@@ -704,6 +1070,8 @@ export function aggregateBySender(messages: GmailMessage[]): Map<string, SenderS
         hasOneClickUnsubscribe: hasOneClick,
         isNewsletter: isNewsletter(message),
         isPromotional: isPromotional(message),
+        listIds: [],
+        totalSizeBytes: 0,
         messageIds: [],
         _unsubLinkDate: unsubscribeLink ? messageDate : undefined,
         _mailtoUnsubLinkDate: mailtoUnsubLink ? messageDate : undefined,
@@ -714,6 +1082,8 @@ export function aggregateBySender(messages: GmailMessage[]): Map<string, SenderS
     stats.count++;
     if (isUnread) stats.unreadCount++;
     stats.messageIds.push(message.id);
+    if (listId && !stats.listIds.includes(listId)) stats.listIds.push(listId);
+    stats.totalSizeBytes += sizeBytes;
 
     // Update date range
     if (messageDate < stats.firstDate) stats.firstDate = messageDate;
@@ -764,6 +1134,9 @@ export function extractEmailRecords(messages: GmailMessage[]): EmailRecord[] {
       is_unread: message.labelIds?.includes('UNREAD') || false,
       thread_id: message.threadId,
       labels: message.labelIds || [],
+      list_id: parseListId(getHeader(message, 'List-Id')),
+      size_bytes: message.sizeEstimate ?? null,
+      has_attachments: hasAttachments(message),
     });
   }
 
@@ -883,7 +1256,7 @@ export async function fetchSenderStats(
   // Get message details - use 'metadata' format with explicit headers for performance
   // This is much faster than 'full' format and avoids rate limiting issues
   const messageIds = allMessageRefs.map(m => m.id);
-  const requiredHeaders = ['From', 'List-Unsubscribe', 'List-Unsubscribe-Post', 'Date', 'Subject'];
+  const requiredHeaders = ['From', 'List-Unsubscribe', 'List-Unsubscribe-Post', 'List-Id', 'Date', 'Subject'];
   const messages = await batchGetMessages(accessToken, messageIds, 'metadata', requiredHeaders);
 
   // Aggregate by sender (using composite key: name + email)
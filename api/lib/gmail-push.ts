@@ -0,0 +1,207 @@
+/**
+ * Gmail Push Notifications (Pub/Sub watch)
+ *
+ * Gmail publishes a message to a Cloud Pub/Sub topic whenever a watched mailbox
+ * changes. Pub/Sub pushes it to /api/gmail/push, which pulls the matching
+ * account's next scheduled sync forward so the background worker (worker.ts)
+ * runs an incremental sync within a tick instead of waiting for the plan interval.
+ *
+ * Env:
+ *   GMAIL_PUSH_TOPIC               - projects/<project>/topics/<topic>; push is off when unset.
+ *                                    gmail-api-push@system.gserviceaccount.com needs Publisher on it.
+ *   GMAIL_PUSH_VERIFICATION_TOKEN  - shared secret appended to the push subscription's
+ *                                    endpoint URL as ?token=...
+ */
+
+import crypto from 'crypto';
+import { createClient } from '@supabase/supabase-js';
+import { getValidAccessToken } from './gmail.js';
+import { watchMailbox, stopMailboxWatch } from './gmail-api.js';
+
+const supabase = createClient(
+  process.env.VITE_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+const GMAIL_PUSH_TOPIC = process.env.GMAIL_PUSH_TOPIC;
+const GMAIL_PUSH_VERIFICATION_TOKEN = process.env.GMAIL_PUSH_VERIFICATION_TOKEN;
+
+// Watches last 7 days - renew once less than a day is left
+const WATCH_RENEW_BEFORE_MS = 24 * 60 * 60 * 1000;
+// Bursts of pushes (e.g. a batch of new mail) collapse into one sync
+const PUSH_SYNC_DELAY_SECONDS = 30;
+// Failed renewals (e.g. revoked token) are retried after this long
+const WATCH_RETRY_MS = 60 * 60 * 1000;
+// Watches renewed per worker tick - the rest are picked up on the next tick
+const MAX_WATCH_RENEWALS_PER_TICK = 50;
+
+export interface GmailPushNotification {
+  emailAddress: string;
+  historyId: string;
+}
+
+/**
+ * Pub/Sub push request body
+ */
+export interface PubSubPushBody {
+  message?: {
+    data?: string; // base64 JSON: { emailAddress, historyId }
+    messageId?: string;
+    publishTime?: string;
+  };
+  subscription?: string;
+}
+
+export function isGmailPushEnabled(): boolean {
+  return !!GMAIL_PUSH_TOPIC;
+}
+
+/**
+ * Check the ?token= secret on a push request (constant-time)
+ */
+export function verifyPushToken(token: unknown, expected: string | undefined = GMAIL_PUSH_VERIFICATION_TOKEN): boolean {
+  if (!expected || typeof token !== 'string') return false;
+  const a = Buffer.from(token);
+  const b = Buffer.from(expected);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+/**
+ * Decode the Gmail notification inside a Pub/Sub push body.
+ * Returns null for anything that isn't a well-formed Gmail notification.
+ */
+export function parsePushMessage(body: PubSubPushBody | null | undefined): GmailPushNotification | null {
+  const data = body?.message?.data;
+  if (!data || typeof data !== 'string') return null;
+
+  try {
+    const decoded = JSON.parse(Buffer.from(data, 'base64').toString('utf-8'));
+    const emailAddress = typeof decoded.emailAddress === 'string' ? decoded.emailAddress.trim().toLowerCase() : '';
+    const historyId = decoded.historyId !== undefined ? String(decoded.historyId) : '';
+
+    if (!emailAddress || !/^\d+$/.test(historyId)) return null;
+    return { emailAddress, historyId };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a notification's historyId is newer than what the account last synced to
+ */
+export function isNewerHistory(notificationHistoryId: string, storedHistoryId: string | null): boolean {
+  if (!storedHistoryId) return true;
+  try {
+    return BigInt(notificationHistoryId) > BigInt(storedHistoryId);
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * Register (or renew) the Pub/Sub watch for a Gmail account and record its expiry
+ */
+export async function registerGmailWatch(accountId: string, accessToken: string): Promise<void> {
+  if (!GMAIL_PUSH_TOPIC) return;
+
+  const { expiration } = await watchMailbox(accessToken, GMAIL_PUSH_TOPIC);
+
+  await supabase
+    .from('email_accounts')
+    .update({
+      gmail_watch_expiration: new Date(parseInt(expiration, 10)).toISOString(),
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', accountId);
+}
+
+/**
+ * Stop the Pub/Sub watch for a Gmail account being disconnected. Best-effort:
+ * with a token that no longer works the watch just lapses within 7 days.
+ */
+export async function stopGmailWatch(userId: string, gmailEmail: string): Promise<void> {
+  if (!GMAIL_PUSH_TOPIC) return;
+
+  try {
+    const { accessToken } = await getValidAccessToken(userId, gmailEmail);
+    await stopMailboxWatch(accessToken);
+  } catch (error: any) {
+    console.error(`Failed to stop Gmail watch for ${gmailEmail}:`, error.message);
+  }
+}
+
+/**
+ * Renew watches that are missing or about to expire (run from the worker)
+ * Returns the number of watches renewed.
+ */
+export async function renewGmailWatches(): Promise<number> {
+  if (!GMAIL_PUSH_TOPIC) return 0;
+
+  const renewBefore = new Date(Date.now() + WATCH_RENEW_BEFORE_MS).toISOString();
+  const { data: accounts, error } = await supabase
+    .from('email_accounts')
+    .select('id, user_id, email, gmail_email')
+    .eq('connection_status', 'connected')
+    .eq('provider', 'Gmail')
+    .or(`gmail_watch_expiration.is.null,gmail_watch_expiration.lt.${renewBefore}`)
+    .limit(MAX_WATCH_RENEWALS_PER_TICK);
+
+  if (error) {
+    console.error('Gmail watch renewal: failed to load accounts:', error.message);
+    return 0;
+  }
+
+  let renewed = 0;
+  for (const account of accounts || []) {
+    try {
+      const { accessToken } = await getValidAccessToken(account.user_id, account.gmail_email || account.email);
+      await registerGmailWatch(account.id, accessToken);
+      renewed++;
+    } catch (watchError: any) {
+      // Push the expiry out so the account is retried in an hour rather than every tick
+      console.warn(`Gmail watch renewal failed for account ${account.id}:`, watchError.message);
+      await supabase
+        .from('email_accounts')
+        .update({ gmail_watch_expiration: new Date(Date.now() + WATCH_RENEW_BEFORE_MS + WATCH_RETRY_MS).toISOString() })
+        .eq('id', account.id);
+    }
+  }
+
+  return renewed;
+}
+
+/**
+ * Queue an incremental sync for the account a notification refers to.
+ * Only accounts the worker already syncs (connected, synced at least once) are queued.
+ * Returns the number of accounts queued.
+ */
+export async function enqueueSyncFromPush(notification: GmailPushNotification): Promise<number> {
+  const { data: accounts, error } = await supabase
+    .from('email_accounts')
+    .select('id, history_id, next_sync_at')
+    .eq('gmail_email', notification.emailAddress)
+    .eq('connection_status', 'connected')
+    .eq('provider', 'Gmail')
+    .not('last_synced', 'is', null);
+
+  if (error) {
+    throw new Error(`Failed to look up account for push: ${error.message}`);
+  }
+
+  const syncAt = new Date(Date.now() + PUSH_SYNC_DELAY_SECONDS * 1000);
+  let queued = 0;
+
+  for (const account of accounts || []) {
+    if (!isNewerHistory(notification.historyId, account.history_id)) continue;
+    // Already due sooner - nothing to do
+    if (account.next_sync_at && new Date(account.next_sync_at).getTime() <= syncAt.getTime()) continue;
+
+    await supabase
+      .from('email_accounts')
+      .update({ next_sync_at: syncAt.toISOString() })
+      .eq('id', account.id);
+    queued++;
+  }
+
+  return queued;
+}
@@ -12,6 +12,7 @@ import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
 import { createClient } from '@supabase/supabase-js';
 import { requireEnv } from './env.js';
+import { registerQuotaMailbox } from './provider-quota.js';
 
 const supabase = createClient(
   process.env.VITE_SUPABASE_URL!,
@@ -36,6 +37,9 @@ const GMAIL_SCOPES = [
   'https://www.googleapis.com/auth/userinfo.profile'
 ];
 
+// Only requested when the user opts in to permanent delete - gmail.modify can trash but not delete
+export const GMAIL_FULL_ACCESS_SCOPE = 'https://mail.google.com/';
+
 export interface GmailTokens {
   access_token: string;
   refresh_token: string;
@@ -141,9 +145,11 @@ export function verifyOAuthState(state: string): { userId: string } | null {
 }
 
 /**
- * Generate Gmail OAuth authorization URL
+ * Generate Gmail OAuth authorization URL.
+ * With `permanentDelete`, also asks for the full mail scope on top of the
+ * scopes the account already granted.
  */
-export function getGmailAuthUrl(state: string): string {
+export function getGmailAuthUrl(state: string, options: { permanentDelete?: boolean } = {}): string {
   if (!GMAIL_CLIENT_ID) {
     throw new Error('GMAIL_CLIENT_ID is not configured');
   }
@@ -155,8 +161,9 @@ export function getGmailAuthUrl(state: string): string {
     client_id: GMAIL_CLIENT_ID,
     redirect_uri: redirectUri,
     response_type: 'code',
-    scope: GMAIL_SCOPES.join(' '),
+    scope: (options.permanentDelete ? [...GMAIL_SCOPES, GMAIL_FULL_ACCESS_SCOPE] : GMAIL_SCOPES).join(' '),
     access_type: 'offline',
+    include_granted_scopes: 'true',
     prompt: 'consent',
     state: state
   });
@@ -297,7 +304,8 @@ export async function storeOAuthTokens(
       access_token_encrypted: encryptedAccessToken,
       refresh_token_encrypted: encryptedRefreshToken,
       token_expiry: tokenExpiry.toISOString(),
-      scopes: GMAIL_SCOPES,
+      // What the user actually granted - the full mail scope is opt-in
+      scopes: tokens.scope ? tokens.scope.split(' ') : GMAIL_SCOPES,
       updated_at: new Date().toISOString()
     }, {
       onConflict: 'user_id,gmail_email'
@@ -318,7 +326,7 @@ export async function storeOAuthTokens(
 export async function getValidAccessToken(
   userId: string,
   gmailEmail: string
-): Promise<{ accessToken: string; tokenId: string }> {
+): Promise<{ accessToken: string; tokenId: string; scopes: string[] }> {
   // Get stored tokens
   const { data: tokenData, error } = await supabase
     .from('gmail_oauth_tokens')
@@ -336,9 +344,12 @@ export async function getValidAccessToken(
 
   // If token is still valid (with 5 minute buffer)
   if (tokenExpiry.getTime() > now.getTime() + 5 * 60 * 1000) {
+    const accessToken = decryptToken(tokenData.access_token_encrypted);
+    registerQuotaMailbox(accessToken, tokenData.id);
     return {
-      accessToken: decryptToken(tokenData.access_token_encrypted),
-      tokenId: tokenData.id
+      accessToken,
+      tokenId: tokenData.id,
+      scopes: tokenData.scopes || []
     };
   }
 
@@ -359,9 +370,11 @@ export async function getValidAccessToken(
     })
     .eq('id', tokenData.id);
 
+  registerQuotaMailbox(newTokens.access_token, tokenData.id);
   return {
     accessToken: newTokens.access_token,
-    tokenId: tokenData.id
+    tokenId: tokenData.id,
+    scopes: tokenData.scopes || []
   };
 }
 
@@ -0,0 +1,235 @@
+/**
+ * Idempotency Keys
+ *
+ * Wrapper for POST endpoints whose side effects must not run twice when the
+ * client resends a request (dropped connection, retry after a timeout):
+ * cleanup actions and billing.
+ *
+ * - The client sends an `Idempotency-Key` header (src/lib/api.ts adds one to
+ *   every mutating request); requests without one run as before
+ * - The first request with a key runs the handler and its response is stored
+ *   per user and key for 24 hours
+ * - A repeat with the same key and body gets the stored response replayed
+ *   (with `Idempotent-Replayed: true`) without running the handler again
+ * - Reusing a key with a different body, or while the first request is still
+ *   running, is a 409 conflict
+ * - Server errors and transient responses (401, 409, 429, ...) aren't stored,
+ *   so a retry with the same key runs again
+ *
+ * Because transient responses run again on retry, handlers must not have side
+ * effects before them - e.g. cleanups take the account lock (409 when busy)
+ * before charging the free trial.
+ */
+
+import crypto from 'crypto';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { extractToken } from './auth-middleware.js';
+
+const supabase = createClient(
+  process.env.VITE_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+const KEY_TTL_MS = 24 * 60 * 60 * 1000;
+// A request still marked processing after this long is assumed to have crashed
+const PROCESSING_TIMEOUT_MS = 10 * 60 * 1000;
+const MAX_KEY_LENGTH = 255;
+// Responses that say nothing about the outcome - the retry should run for real
+const TRANSIENT_STATUSES = [401, 408, 409, 423, 425, 429];
+
+type Handler = (req: VercelRequest, res: VercelResponse) => Promise<any>;
+
+interface IdempotencyRecord {
+  id: string;
+  request_hash: string;
+  status: 'processing' | 'completed';
+  response_status: number | null;
+  response_body: unknown;
+  locked_until: string | null;
+  expires_at: string;
+}
+
+/**
+ * Hash of what makes two requests "the same": method, path and body
+ */
+export function hashIdempotentRequest(method: string, url: string, body: unknown): string {
+  const path = (url || '').split('?')[0];
+  return crypto
+    .createHash('sha256')
+    .update(`${method.toUpperCase()} ${path}\n${JSON.stringify(body ?? null)}`)
+    .digest('hex');
+}
+
+export function shouldStoreIdempotentResponse(status: number): boolean {
+  return status < 500 && !TRANSIENT_STATUSES.includes(status);
+}
+
+function readKey(req: VercelRequest): string | null {
+  const header = req.headers['idempotency-key'];
+  const key = Array.isArray(header) ? header[0] : header;
+  return key ? key.trim() : null;
+}
+
+async function findRecord(userId: string, key: string): Promise<IdempotencyRecord | null> {
+  const { data } = await supabase
+    .from('idempotency_keys')
+    .select('id, request_hash, status, response_status, response_body, locked_until, expires_at')
+    .eq('user_id', userId)
+    .eq('idempotency_key', key)
+    .limit(1);
+  return (data?.[0] as IdempotencyRecord) || null;
+}
+
+/**
+ * Claim the key for this request. Returns the record ID when this request
+ * should run, or the existing record when another request already has it.
+ */
+async function claimKey(
+  userId: string,
+  key: string,
+  requestHash: string
+): Promise<{ id: string } | { existing: IdempotencyRecord }> {
+  const now = Date.now();
+
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const { data, error } = await supabase
+      .from('idempotency_keys')
+      .insert({
+        user_id: userId,
+        idempotency_key: key,
+        request_hash: requestHash,
+        status: 'processing',
+        locked_until: new Date(now + PROCESSING_TIMEOUT_MS).toISOString(),
+        expires_at: new Date(now + KEY_TTL_MS).toISOString(),
+      })
+      .select('id')
+      .single();
+
+    if (!error && data) return { id: data.id };
+
+    // Unique (user_id, idempotency_key) conflict - look at the existing record
+    const existing = await findRecord(userId, key);
+    if (!existing) continue;
+
+    // Expired keys can be reused
+    if (new Date(existing.expires_at).getTime() <= now) {
+      await supabase.from('idempotency_keys').delete().eq('id', existing.id);
+      continue;
+    }
+
+    // The original request crashed mid-way - take over if it's still ours to take
+    if (
+      existing.status === 'processing' &&
+      existing.request_hash === requestHash &&
+      existing.locked_until &&
+      new Date(existing.locked_until).getTime() <= now
+    ) {
+      const { data: taken } = await supabase
+        .from('idempotency_keys')
+        .update({ locked_until: new Date(now + PROCESSING_TIMEOUT_MS).toISOString() })
+        .eq('id', existing.id)
+        .eq('status', 'processing')
+        .lt('locked_until', new Date(now).toISOString())
+        .select('id');
+      if (taken && taken.length > 0) return { id: existing.id };
+    }
+
+    return { existing };
+  }
+
+  throw new Error('Failed to record idempotency key');
+}
+
+/**
+ * Make a POST handler idempotent per `Idempotency-Key` header (see above)
+ */
+export function withIdempotency(handler: Handler): Handler {
+  return async (req: VercelRequest, res: VercelResponse) => {
+    const key = readKey(req);
+    if (req.method !== 'POST' || !key) {
+      return handler(req, res);
+    }
+
+    if (key.length > MAX_KEY_LENGTH) {
+      return res.status(400).json({
+        error: `Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters`,
+        code: 'INVALID_IDEMPOTENCY_KEY'
+      });
+    }
+
+    // Keys are per user - unauthenticated requests are rejected by the handler itself
+    const decoded = extractToken(req);
+    if (!decoded?.userId) {
+      return handler(req, res);
+    }
+    const userId: string = decoded.userId;
+
+    const requestHash = hashIdempotentRequest(req.method, req.url || '', req.body);
+    const claim = await claimKey(userId, key, requestHash);
+
+    if ('existing' in claim) {
+      const { existing } = claim;
+      if (existing.request_hash !== requestHash) {
+        return res.status(409).json({
+          error: 'This Idempotency-Key was already used for a different request',
+          code: 'IDEMPOTENCY_KEY_REUSED'
+        });
+      }
+      if (existing.status !== 'completed') {
+        return res.status(409).json({
+          error: 'A request with this Idempotency-Key is still being processed',
+          code: 'IDEMPOTENCY_REQUEST_IN_PROGRESS'
+        });
+      }
+
+      res.setHeader('Idempotent-Replayed', 'true');
+      return res.status(existing.response_status || 200).json(existing.response_body);
+    }
+
+    // Capture the handler's JSON response so it can be replayed
+    let responseBody: unknown = null;
+    const json = res.json.bind(res);
+    res.json = ((body: unknown) => {
+      responseBody = body;
+      return json(body);
+    }) as VercelResponse['json'];
+
+    try {
+      const result = await handler(req, res);
+
+      if (shouldStoreIdempotentResponse(res.statusCode)) {
+        await supabase
+          .from('idempotency_keys')
+          .update({
+            status: 'completed',
+            response_status: res.statusCode,
+            response_body: responseBody,
+            locked_until: null,
+          })
+          .eq('id', claim.id);
+      } else {
+        await supabase.from('idempotency_keys').delete().eq('id', claim.id);
+      }
+
+      return result;
+    } catch (error) {
+      await supabase.from('idempotency_keys').delete().eq('id', claim.id);
+      throw error;
+    }
+  };
+}
+
+/**
+ * Delete expired idempotency keys. Returns the number removed.
+ */
+export async function pruneIdempotencyKeys(): Promise<number> {
+  const { data, error } = await supabase
+    .from('idempotency_keys')
+    .delete()
+    .lt('expires_at', new Date().toISOString())
+    .select('id');
+
+  if (error) throw new Error(`Failed to prune idempotency keys: ${error.message}`);
+  return data?.length || 0;
+}
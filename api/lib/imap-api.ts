@@ -0,0 +1,623 @@
+/**
+ * IMAP API Client (Yahoo, iCloud)
+ *
+ * Provides methods to work with an IMAP mailbox using app-password credentials:
+ * - List inbox messages with the headers we need (From, Subject, List-Unsubscribe)
+ * - UID/MODSEQ-based incremental change detection
+ * - Trash/Archive/Restore moves
+ * - Extract unsubscribe links
+ *
+ * Only the INBOX is synced (like Outlook). A message's ID is its INBOX UID,
+ * which is only meaningful together with the mailbox UIDVALIDITY stored on
+ * the email account - if UIDVALIDITY changes the account needs a full resync.
+ */
+
+import { ImapFlow } from 'imapflow';
+import type { FetchMessageObject, FetchQueryObject, MessageStructureObject } from 'imapflow';
+import type { ImapCredentials } from './imap.js';
+import type { EmailRecord } from './mail-provider.js';
+import {
+  extractUnsubscribeLink as parseUnsubscribeLink,
+  extractMailtoUnsubscribeLink as parseMailtoUnsubscribeLink,
+  isOneClickUnsubscribe,
+  parseListId,
+} from './mail-provider.js';
+
+const INBOX = 'INBOX';
+
+// Chunk size for UID sets - keeps IMAP command lines well under server limits
+const UID_CHUNK_SIZE = 500;
+
+const FETCH_QUERY: FetchQueryObject = {
+  uid: true,
+  flags: true,
+  envelope: true,
+  internalDate: true,
+  size: true,
+  // Only used to spot attachments - fetching bodies would be far too slow
+  bodyStructure: true,
+  headers: ['list-unsubscribe', 'list-unsubscribe-post', 'list-id'],
+};
+
+export interface ImapMessage {
+  id: string; // INBOX UID as string
+  uid: number;
+  subject: string;
+  receivedAt: string;
+  isRead: boolean;
+  from?: {
+    name: string;
+    address: string;
+  };
+  messageId?: string;
+  headers: Record<string, string>;
+  size?: number; // RFC822.SIZE in bytes
+  hasAttachments?: boolean;
+}
+
+export interface ImapFullMessage {
+  message: ImapMessage;
+  to: string;
+  text: string;
+  html: string;
+}
+
+export interface ImapMailboxState {
+  uidValidity: string;
+  uidNext: number;
+  // MODSEQ is a 63-bit value - kept as a string so it survives JSON/Postgres round trips
+  highestModseq: string | null;
+  exists: number;
+}
+
+export interface ImapChanges {
+  state: ImapMailboxState;
+  uidValidityChanged: boolean;
+  newMessages: ImapMessage[];
+  flagChanges: { id: string; isUnread: boolean }[];
+  currentIds: Set<string>;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Open a connection, run `fn`, and always log out afterwards
+ */
+export async function withImapClient<T>(
+  credentials: ImapCredentials,
+  fn: (client: ImapFlow) => Promise<T>,
+  retryCount: number = 0
+): Promise<T> {
+  const client = new ImapFlow({
+    host: credentials.host,
+    port: credentials.port,
+    secure: credentials.secure,
+    auth: { user: credentials.user, pass: credentials.pass },
+    logger: false,
+    disableAutoIdle: true,
+  });
+
+  try {
+    await client.connect();
+  } catch (error: any) {
+    // Auth failures are permanent (revoked app password) - surface them as a disconnect
+    if (error.authenticationFailed) {
+      throw new Error('IMAP account not connected: authentication failed');
+    }
+    // Transient connection errors: retry once after a short pause
+    if (retryCount < 1) {
+      await sleep(1000);
+      return withImapClient(credentials, fn, retryCount + 1);
+    }
+    throw new Error(`IMAP connection error: ${error.message}`);
+  }
+
+  try {
+    return await fn(client);
+  } finally {
+    await client.logout().catch(() => client.close());
+  }
+}
+
+/**
+ * Check that credentials can log in (used when connecting an account)
+ */
+export async function verifyImapLogin(credentials: ImapCredentials): Promise<void> {
+  await withImapClient(credentials, async () => undefined);
+}
+
+/**
+ * Parse a raw header block into a lowercase name -> value map (unfolding continuation lines)
+ */
+export function parseHeaders(raw: Buffer | string | undefined): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (!raw) return headers;
+
+  const unfolded = raw.toString('utf8').replace(/\r?\n[ \t]+/g, ' ');
+  for (const line of unfolded.split(/\r?\n/)) {
+    const idx = line.indexOf(':');
+    if (idx <= 0) continue;
+    const name = line.slice(0, idx).trim().toLowerCase();
+    const value = line.slice(idx + 1).trim();
+    if (name && !(name in headers)) headers[name] = value;
+  }
+  return headers;
+}
+
+/**
+ * Normalize an imapflow fetch result
+ */
+export function toImapMessage(msg: FetchMessageObject): ImapMessage {
+  const from = msg.envelope?.from?.[0];
+  const internalDate = msg.internalDate ? new Date(msg.internalDate) : msg.envelope?.date;
+
+  return {
+    id: String(msg.uid),
+    uid: msg.uid,
+    subject: msg.envelope?.subject || '',
+    receivedAt: (internalDate && !isNaN(internalDate.getTime()) ? internalDate : new Date()).toISOString(),
+    isRead: !!msg.flags?.has('\\Seen'),
+    from: from?.address ? { name: from.name || '', address: from.address } : undefined,
+    messageId: msg.envelope?.messageId,
+    headers: parseHeaders(msg.headers),
+    size: msg.size,
+    hasAttachments: hasAttachmentPart(msg.bodyStructure),
+  };
+}
+
+/**
+ * Whether a body structure has a part sent as an attachment
+ */
+export function hasAttachmentPart(node: MessageStructureObject | undefined): boolean {
+  if (!node) return false;
+  if (node.disposition === 'attachment') return true;
+  return !!node.childNodes?.some(child => hasAttachmentPart(child));
+}
+
+function getMailboxState(client: ImapFlow): ImapMailboxState {
+  const mailbox = client.mailbox;
+  if (!mailbox) throw new Error('No mailbox selected');
+  return {
+    uidValidity: mailbox.uidValidity.toString(),
+    uidNext: mailbox.uidNext,
+    highestModseq: mailbox.highestModseq !== undefined && !mailbox.noModseq
+      ? mailbox.highestModseq.toString()
+      : null,
+    exists: mailbox.exists,
+  };
+}
+
+/**
+ * List the newest inbox messages (up to `limit`), newest first
+ */
+export async function listInboxMessages(
+  credentials: ImapCredentials,
+  options: { limit: number }
+): Promise<{ messages: ImapMessage[]; state: ImapMailboxState }> {
+  return withImapClient(credentials, async client => {
+    const lock = await client.getMailboxLock(INBOX);
+    try {
+      const state = getMailboxState(client);
+      if (state.exists === 0) return { messages: [], state };
+
+      // Sequence numbers are ordered by arrival, so the tail of the mailbox is the newest mail
+      const start = Math.max(1, state.exists - options.limit + 1);
+      const fetched = await client.fetchAll(`${start}:*`, FETCH_QUERY);
+      const messages = fetched.map(toImapMessage).sort((a, b) => b.uid - a.uid);
+
+      return { messages, state };
+    } finally {
+      lock.release();
+    }
+  });
+}
+
+/**
+ * Detect inbox changes since the last sync:
+ * - new messages: UIDs above the last seen UID
+ * - read/unread changes: CONDSTORE `CHANGEDSINCE` (skipped if the server has no MODSEQ)
+ * - removals: the caller diffs `currentIds` against its local rows
+ */
+export async function getInboxChanges(
+  credentials: ImapCredentials,
+  previous: { uidValidity: string | null; lastUid: number; highestModseq: string | null }
+): Promise<ImapChanges> {
+  return withImapClient(credentials, async client => {
+    const lock = await client.getMailboxLock(INBOX);
+    try {
+      const state = getMailboxState(client);
+
+      if (previous.uidValidity && previous.uidValidity !== state.uidValidity) {
+        return { state, uidValidityChanged: true, newMessages: [], flagChanges: [], currentIds: new Set() };
+      }
+
+      const newMessages: ImapMessage[] = [];
+      if (state.uidNext > previous.lastUid + 1) {
+        // `N:*` always returns at least the last message, so filter by UID
+        const fetched = await client.fetchAll(`${previous.lastUid + 1}:*`, FETCH_QUERY, { uid: true });
+        for (const msg of fetched) {
+          if (msg.uid > previous.lastUid) newMessages.push(toImapMessage(msg));
+        }
+      }
+
+      const flagChanges: { id: string; isUnread: boolean }[] = [];
+      if (previous.highestModseq && state.highestModseq && state.highestModseq !== previous.highestModseq) {
+        const changed = await client.fetchAll('1:*', { uid: true, flags: true }, {
+          uid: true,
+          changedSince: BigInt(previous.highestModseq),
+        });
+        for (const msg of changed) {
+          if (msg.uid > previous.lastUid) continue; // New mail is handled above
+          flagChanges.push({ id: String(msg.uid), isUnread: !msg.flags?.has('\\Seen') });
+        }
+      }
+
+      const uids = await client.search({ all: true }, { uid: true });
+      const currentIds = new Set((uids || []).map(uid => String(uid)));
+
+      return { state, uidValidityChanged: false, newMessages, flagChanges, currentIds };
+    } finally {
+      lock.release();
+    }
+  });
+}
+
+/**
+ * Find a special-use mailbox (\Trash, \Archive), falling back to common names
+ */
+async function resolveMailbox(
+  client: ImapFlow,
+  specialUse: '\\Trash' | '\\Archive',
+  fallbackNames: string[],
+  createIfMissing: boolean
+): Promise<string> {
+  const mailboxes = await client.list();
+  const bySpecialUse = mailboxes.find(m => m.specialUse === specialUse);
+  if (bySpecialUse) return bySpecialUse.path;
+
+  const lowerNames = fallbackNames.map(n => n.toLowerCase());
+  const byName = mailboxes.find(m => lowerNames.includes(m.path.toLowerCase()));
+  if (byName) return byName.path;
+
+  if (!createIfMissing) {
+    throw new Error(`No ${specialUse} mailbox found`);
+  }
+  const created = await client.mailboxCreate(fallbackNames[0]);
+  return created.path;
+}
+
+const TRASH_NAMES = ['Trash', 'Deleted Messages', 'Deleted Items', 'Deleted'];
+const ARCHIVE_NAMES = ['Archive', 'Archives'];
+
+/**
+ * Move messages between mailboxes by UID.
+ * Returns old -> new UID mappings (from UIDPLUS COPYUID) so moved copies can be found again.
+ */
+async function moveMessages(
+  credentials: ImapCredentials,
+  source: 'inbox' | 'trash' | 'archive',
+  destination: 'inbox' | 'trash' | 'archive',
+  messageIds: string[]
+): Promise<{ success: string[]; failed: string[]; movedIds: Record<string, string> }> {
+  const success: string[] = [];
+  const failed: string[] = [];
+  const movedIds: Record<string, string> = {};
+
+  if (messageIds.length === 0) return { success, failed, movedIds };
+
+  await withImapClient(credentials, async client => {
+    const resolve = async (which: 'inbox' | 'trash' | 'archive') => {
+      if (which === 'inbox') return INBOX;
+      if (which === 'trash') return resolveMailbox(client, '\\Trash', TRASH_NAMES, false);
+      return resolveMailbox(client, '\\Archive', ARCHIVE_NAMES, true);
+    };
+
+    const sourcePath = await resolve(source);
+    const destinationPath = await resolve(destination);
+
+    const lock = await client.getMailboxLock(sourcePath);
+    try {
+      for (const batch of chunk(messageIds, UID_CHUNK_SIZE)) {
+        const uids = batch.map(id => parseInt(id, 10)).filter(uid => uid > 0);
+        try {
+          const result = await client.messageMove(uids, destinationPath, { uid: true });
+          if (!result) {
+            failed.push(...batch);
+            continue;
+          }
+          for (const id of batch) {
+            const newUid = result.uidMap?.get(parseInt(id, 10));
+            // Without UIDPLUS we can't tell which UIDs moved - MOVE succeeded, so assume all did
+            if (newUid !== undefined || !result.uidMap) {
+              success.push(id);
+              if (newUid !== undefined) movedIds[id] = String(newUid);
+            } else {
+              failed.push(id);
+            }
+          }
+        } catch (error: any) {
+          console.error(`IMAP move ${source} -> ${destination} failed:`, error.message);
+          failed.push(...batch);
+        }
+      }
+    } finally {
+      lock.release();
+    }
+  });
+
+  return { success, failed, movedIds };
+}
+
+/**
+ * Move inbox messages to Trash
+ */
+export async function batchTrashMessages(
+  credentials: ImapCredentials,
+  messageIds: string[]
+): Promise<{ success: string[]; failed: string[]; movedIds: Record<string, string> }> {
+  return moveMessages(credentials, 'inbox', 'trash', messageIds);
+}
+
+/**
+ * Move inbox messages to Archive (created if the account has none)
+ */
+export async function batchArchiveMessages(
+  credentials: ImapCredentials,
+  messageIds: string[]
+): Promise<{ success: string[]; failed: string[]; movedIds: Record<string, string> }> {
+  return moveMessages(credentials, 'inbox', 'archive', messageIds);
+}
+
+/**
+ * Move messages back to the inbox (undo trash/archive).
+ * `messageIds` are UIDs in the source mailbox, as returned in movedIds.
+ */
+export async function batchRestoreMessages(
+  credentials: ImapCredentials,
+  from: 'trash' | 'archive',
+  messageIds: string[]
+): Promise<{ success: string[]; failed: string[]; movedIds: Record<string, string> }> {
+  return moveMessages(credentials, from, 'inbox', messageIds);
+}
+
+/**
+ * Flag inbox messages \Seen
+ */
+export async function batchMarkAsRead(
+  credentials: ImapCredentials,
+  messageIds: string[]
+): Promise<{ success: string[]; failed: string[] }> {
+  const success: string[] = [];
+  const failed: string[] = [];
+
+  if (messageIds.length === 0) return { success, failed };
+
+  await withImapClient(credentials, async client => {
+    const lock = await client.getMailboxLock(INBOX);
+    try {
+      for (const batch of chunk(messageIds, UID_CHUNK_SIZE)) {
+        const uids = batch.map(id => parseInt(id, 10)).filter(uid => uid > 0);
+        try {
+          const flagged = await client.messageFlagsAdd(uids, ['\\Seen'], { uid: true });
+          (flagged ? success : failed).push(...batch);
+        } catch (error: any) {
+          console.error('IMAP mark read failed:', error.message);
+          failed.push(...batch);
+        }
+      }
+    } finally {
+      lock.release();
+    }
+  });
+
+  return { success, failed };
+}
+
+/**
+ * Flag messages \Deleted and expunge them, skipping Trash.
+ * `messageIds` are UIDs in the source mailbox; UIDs no longer in it
+ * (restored or already expunged) are reported as failed and left alone.
+ */
+export async function batchPermanentDeleteMessages(
+  credentials: ImapCredentials,
+  from: 'inbox' | 'trash',
+  messageIds: string[]
+): Promise<{ success: string[]; failed: string[] }> {
+  const success: string[] = [];
+  const failed: string[] = [];
+
+  if (messageIds.length === 0) return { success, failed };
+
+  await withImapClient(credentials, async client => {
+    const path = from === 'inbox' ? INBOX : await resolveMailbox(client, '\\Trash', TRASH_NAMES, false);
+
+    const lock = await client.getMailboxLock(path);
+    try {
+      for (const batch of chunk(messageIds, UID_CHUNK_SIZE)) {
+        const uids = batch.map(id => parseInt(id, 10)).filter(uid => uid > 0);
+        let targets = batch;
+        try {
+          // Only UIDs that are still in this mailbox - never a guess at anything else
+          const found = uids.length > 0 ? await client.search({ uid: uids.join(',') }, { uid: true }) : [];
+          const present = new Set(found || []);
+          targets = batch.filter(id => present.has(parseInt(id, 10)));
+          failed.push(...batch.filter(id => !present.has(parseInt(id, 10))));
+          if (targets.length === 0) continue;
+
+          const deleted = await client.messageDelete(targets.map(id => parseInt(id, 10)), { uid: true });
+          (deleted ? success : failed).push(...targets);
+        } catch (error: any) {
+          console.error(`IMAP permanent delete from ${from} failed:`, error.message);
+          failed.push(...targets);
+        }
+      }
+    } finally {
+      lock.release();
+    }
+  });
+
+  return { success, failed };
+}
+
+/**
+ * Fetch inbox messages by UID
+ */
+export async function batchGetMessages(
+  credentials: ImapCredentials,
+  messageIds: string[]
+): Promise<ImapMessage[]> {
+  if (messageIds.length === 0) return [];
+
+  return withImapClient(credentials, async client => {
+    const lock = await client.getMailboxLock(INBOX);
+    try {
+      const messages: ImapMessage[] = [];
+      for (const batch of chunk(messageIds, UID_CHUNK_SIZE)) {
+        const uids = batch.map(id => parseInt(id, 10)).filter(uid => uid > 0);
+        const fetched = await client.fetchAll(uids, FETCH_QUERY, { uid: true });
+        messages.push(...fetched.map(toImapMessage));
+      }
+      return messages;
+    } finally {
+      lock.release();
+    }
+  });
+}
+
+/**
+ * Find the first inline text/plain and text/html parts in a body structure
+ */
+function findTextParts(
+  node: MessageStructureObject | undefined,
+  found: { text?: string; html?: string } = {}
+): { text?: string; html?: string } {
+  if (!node) return found;
+  if (node.childNodes) {
+    for (const child of node.childNodes) findTextParts(child, found);
+    return found;
+  }
+  if (node.disposition === 'attachment') return found;
+  // Single-part messages have no part number - the body is part "1"
+  const part = node.part || '1';
+  if (node.type === 'text/plain' && !found.text) found.text = part;
+  if (node.type === 'text/html' && !found.html) found.html = part;
+  return found;
+}
+
+async function streamToString(stream: NodeJS.ReadableStream): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+/**
+ * Fetch a single inbox message with its text and HTML bodies (for the email viewer).
+ * imapflow decodes the transfer encoding and charset of each downloaded part.
+ */
+export async function getFullMessage(
+  credentials: ImapCredentials,
+  messageId: string
+): Promise<ImapFullMessage> {
+  return withImapClient(credentials, async client => {
+    const lock = await client.getMailboxLock(INBOX);
+    try {
+      const fetched = await client.fetchOne(messageId, { ...FETCH_QUERY, bodyStructure: true }, { uid: true });
+      if (!fetched) {
+        throw new Error(`IMAP message ${messageId} not found`);
+      }
+
+      const parts = findTextParts(fetched.bodyStructure);
+      const download = async (part: string | undefined) => {
+        if (!part) return '';
+        const { content } = await client.download(messageId, part, { uid: true });
+        return streamToString(content);
+      };
+
+      const to = (fetched.envelope?.to || [])
+        .map(addr => addr.address)
+        .filter(Boolean)
+        .join(', ');
+
+      return {
+        message: toImapMessage(fetched),
+        to,
+        text: await download(parts.text),
+        html: await download(parts.html),
+      };
+    } finally {
+      lock.release();
+    }
+  });
+}
+
+/**
+ * Extract unsubscribe link from headers (prefers HTTP)
+ */
+export function extractUnsubscribeLink(message: ImapMessage): string | undefined {
+  return parseUnsubscribeLink(message.headers['list-unsubscribe'] || '') ?? undefined;
+}
+
+/**
+ * Extract mailto unsubscribe link from headers
+ */
+export function extractMailtoUnsubscribeLink(message: ImapMessage): string | undefined {
+  return parseMailtoUnsubscribeLink(message.headers['list-unsubscribe'] || '') ?? undefined;
+}
+
+/**
+ * Check for RFC 8058 one-click unsubscribe support
+ */
+export function hasOneClickUnsubscribe(message: ImapMessage): boolean {
+  return isOneClickUnsubscribe(message.headers['list-unsubscribe-post']);
+}
+
+/**
+ * Mailing-list identifier from the List-Id header
+ */
+export function extractListId(message: ImapMessage): string | null {
+  return parseListId(message.headers['list-id']);
+}
+
+/**
+ * Extract individual email records from IMAP messages for storage
+ * Same output format as the Gmail/Outlook versions
+ */
+export function extractEmailRecords(messages: ImapMessage[]): EmailRecord[] {
+  const records: EmailRecord[] = [];
+
+  for (const message of messages) {
+    if (!message.from?.address) continue;
+
+    const email = message.from.address.toLowerCase();
+    const name = message.from.name || email;
+
+    records.push({
+      gmail_message_id: message.id, // column name is historical, stores IMAP UID
+      sender_email: email,
+      sender_name: name,
+      subject: message.subject || '(No Subject)',
+      snippet: '', // Fetching bodies over IMAP is too expensive for a preview
+      received_at: message.receivedAt,
+      is_unread: !message.isRead,
+      thread_id: message.messageId || message.id,
+      labels: [], // IMAP folders aren't labels - only the INBOX is synced
+      list_id: extractListId(message),
+      size_bytes: message.size ?? null,
+      has_attachments: !!message.hasAttachments,
+    });
+  }
+
+  return records;
+}
@@ -0,0 +1,183 @@
+/**
+ * IMAP Credential Management Utilities (Yahoo, iCloud)
+ *
+ * Handles:
+ * - Provider presets (host/port) for app-password IMAP providers
+ * - AES-256-GCM encryption for stored app passwords
+ * - Credential storage and lookup
+ *
+ * Yahoo and iCloud don't offer a mail API we can use, so these accounts
+ * connect over IMAP with an app-specific password generated by the user.
+ */
+
+import crypto from 'crypto';
+import { createClient } from '@supabase/supabase-js';
+
+const supabase = createClient(
+  process.env.VITE_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+const IMAP_CREDENTIAL_ENCRYPTION_KEY = process.env.IMAP_CREDENTIAL_ENCRYPTION_KEY;
+
+export type ImapProviderName = 'Yahoo' | 'iCloud';
+
+export interface ImapProviderPreset {
+  host: string;
+  port: number;
+  secure: boolean;
+}
+
+export const IMAP_PROVIDERS: Record<ImapProviderName, ImapProviderPreset> = {
+  Yahoo: { host: 'imap.mail.yahoo.com', port: 993, secure: true },
+  iCloud: { host: 'imap.mail.me.com', port: 993, secure: true },
+};
+
+/**
+ * Decrypted connection details for an IMAP account
+ */
+export interface ImapCredentials {
+  host: string;
+  port: number;
+  secure: boolean;
+  user: string;
+  pass: string;
+}
+
+/**
+ * Check whether an email_accounts.provider value is served over IMAP
+ */
+export function isImapProvider(provider: string | null | undefined): provider is ImapProviderName {
+  return !!provider && provider in IMAP_PROVIDERS;
+}
+
+/**
+ * Encrypt a string using AES-256-GCM with random salt
+ */
+export function encryptCredential(plaintext: string): string {
+  if (!IMAP_CREDENTIAL_ENCRYPTION_KEY) {
+    throw new Error('IMAP_CREDENTIAL_ENCRYPTION_KEY is not configured');
+  }
+
+  // Generate random 16-byte salt for key derivation
+  const salt = crypto.randomBytes(16);
+
+  const key = crypto.scryptSync(IMAP_CREDENTIAL_ENCRYPTION_KEY, salt, 32);
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+
+  let encrypted = cipher.update(plaintext, 'utf8', 'hex');
+  encrypted += cipher.final('hex');
+  const authTag = cipher.getAuthTag();
+
+  // Format: salt:iv:authTag:ciphertext
+  return salt.toString('hex') + ':' + iv.toString('hex') + ':' + authTag.toString('hex') + ':' + encrypted;
+}
+
+/**
+ * Decrypt a string using AES-256-GCM with embedded salt
+ */
+export function decryptCredential(encryptedData: string): string {
+  if (!IMAP_CREDENTIAL_ENCRYPTION_KEY) {
+    throw new Error('IMAP_CREDENTIAL_ENCRYPTION_KEY is not configured');
+  }
+
+  const parts = encryptedData.split(':');
+  if (parts.length !== 4) {
+    throw new Error('Invalid encrypted data format');
+  }
+
+  const salt = Buffer.from(parts[0], 'hex');
+  const iv = Buffer.from(parts[1], 'hex');
+  const authTag = Buffer.from(parts[2], 'hex');
+  const encrypted = parts[3];
+
+  const key = crypto.scryptSync(IMAP_CREDENTIAL_ENCRYPTION_KEY, salt, 32);
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv);
+  decipher.setAuthTag(authTag);
+
+  let decrypted = decipher.update(encrypted, 'hex', 'utf8');
+  decrypted += decipher.final('utf8');
+
+  return decrypted;
+}
+
+/**
+ * Store encrypted IMAP credentials in database
+ */
+export async function storeImapCredentials(
+  userId: string,
+  emailAccountId: string,
+  imapEmail: string,
+  credentials: ImapCredentials
+): Promise<{ id: string }> {
+  const { data, error } = await supabase
+    .from('imap_credentials')
+    .upsert({
+      user_id: userId,
+      email_account_id: emailAccountId,
+      imap_email: imapEmail,
+      imap_host: credentials.host,
+      imap_port: credentials.port,
+      imap_secure: credentials.secure,
+      username: credentials.user,
+      password_encrypted: encryptCredential(credentials.pass),
+      updated_at: new Date().toISOString()
+    }, {
+      onConflict: 'user_id,imap_email'
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to store IMAP credentials: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Get decrypted IMAP credentials for a user's account
+ * App passwords don't expire, so there is nothing to refresh.
+ */
+export async function getImapCredentials(
+  userId: string,
+  imapEmail: string
+): Promise<ImapCredentials> {
+  const { data, error } = await supabase
+    .from('imap_credentials')
+    .select('imap_host, imap_port, imap_secure, username, password_encrypted')
+    .eq('user_id', userId)
+    .eq('imap_email', imapEmail)
+    .single();
+
+  if (error || !data) {
+    throw new Error('IMAP account not connected');
+  }
+
+  return {
+    host: data.imap_host,
+    port: data.imap_port,
+    secure: data.imap_secure,
+    user: data.username,
+    pass: decryptCredential(data.password_encrypted),
+  };
+}
+
+/**
+ * Delete IMAP credentials for a user's account
+ */
+export async function deleteImapCredentials(
+  userId: string,
+  imapEmail: string
+): Promise<void> {
+  const { error } = await supabase
+    .from('imap_credentials')
+    .delete()
+    .eq('user_id', userId)
+    .eq('imap_email', imapEmail);
+
+  if (error) {
+    throw new Error(`Failed to delete IMAP credentials: ${error.message}`);
+  }
+}
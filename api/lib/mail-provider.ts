@@ -0,0 +1,267 @@
+/**
+ * Mail Provider Interface
+ *
+ * Shared types for every mailbox backend (Gmail, Outlook/Graph, IMAP) plus the
+ * MailProvider interface that route handlers program against. Implementations
+ * live in api/providers/ and are looked up by email_accounts.provider through
+ * getMailProvider() in api/providers/index.ts.
+ *
+ * This module has no runtime dependencies so the low-level API clients can
+ * import its types and header helpers without creating import cycles.
+ */
+
+import type { VercelResponse } from '@vercel/node';
+
+export type MailProviderName = 'Gmail' | 'Outlook' | 'Yahoo' | 'iCloud';
+
+/**
+ * Row shape for the emails table
+ */
+export interface EmailRecord {
+  gmail_message_id: string; // provider message ID (column name is historical)
+  sender_email: string;
+  sender_name: string;
+  subject: string;
+  snippet: string;
+  received_at: string;
+  is_unread: boolean;
+  thread_id: string;
+  labels: string[];
+  list_id: string | null; // RFC 2919 List-Id, see parseListId()
+  size_bytes: number | null; // null when the provider didn't report a size
+  has_attachments: boolean;
+}
+
+export interface SenderStats {
+  email: string;
+  name: string;
+  count: number;
+  unreadCount: number;
+  firstDate: string;
+  lastDate: string;
+  unsubscribeLink?: string;
+  mailtoUnsubscribeLink?: string;
+  hasUnsubscribe: boolean;
+  hasOneClickUnsubscribe: boolean;
+  isNewsletter: boolean;
+  isPromotional: boolean;
+  // Mailing lists (List-Id) this sender's messages were sent through
+  listIds: string[];
+  totalSizeBytes: number;
+  messageIds: string[];
+  _unsubLinkDate?: string; // in-memory only, tracks which email the unsub link came from
+  _mailtoUnsubLinkDate?: string; // in-memory only, tracks which email the mailto unsub link came from
+}
+
+/**
+ * Result of a batch trash/archive/restore.
+ * movedIds maps old -> new message IDs for providers that re-key on move (Outlook, IMAP).
+ */
+export interface MoveResult {
+  success: string[];
+  failed: string[];
+  movedIds: Record<string, string>;
+}
+
+/**
+ * A single email with its body, for the email viewer
+ */
+export interface FullEmailMessage {
+  id: string;
+  threadId: string;
+  subject: string;
+  from: string;
+  to: string;
+  date: string;
+  snippet: string;
+  body: string;
+  bodyHtml: string;
+  isUnread: boolean;
+  labels: string[];
+}
+
+export interface UnsubscribeHeaders {
+  unsubscribeLink: string | null;
+  mailtoUnsubscribeLink: string | null;
+  hasOneClick: boolean;
+}
+
+/**
+ * The email_accounts columns providers need to resolve credentials and resume sync
+ */
+export interface MailAccount {
+  id: string;
+  email: string;
+  provider: string | null;
+  gmail_email?: string | null;
+  last_synced?: string | null;
+  history_id?: string | null;
+  delta_link?: string | null;
+  imap_uid_validity?: string | null;
+  imap_last_uid?: number | null;
+  imap_highest_modseq?: string | null;
+}
+
+export interface SyncContext {
+  res: VercelResponse;
+  userId: string;
+  account: MailAccount;
+  // Plan email processing limit
+  emailLimit: number;
+  // How long a resumable (full/upgrade) sync may run before checkpointing
+  timeBudgetMs?: number;
+}
+
+/**
+ * One connected mailbox, bound to its credentials.
+ * Message IDs are whatever the provider stores in emails.gmail_message_id.
+ */
+export interface MailProvider {
+  readonly name: MailProviderName;
+  // Gmail syncs All Mail, so archived emails keep their local rows (minus the INBOX label).
+  // Folder-based providers only sync the Inbox, so archived emails leave the local table.
+  readonly keepsArchivedRows: boolean;
+
+  // Sync (list + delta) - each provider drives its own sync engine and responds via ctx.res
+  initialBatchSync(ctx: SyncContext): Promise<unknown>;
+  fullSync(ctx: SyncContext): Promise<unknown>;
+  incrementalSync(ctx: SyncContext): Promise<unknown>;
+  // Fetch mail beyond the previous plan's limit without a rebuild (Gmail only)
+  upgradeSync?(ctx: SyncContext): Promise<unknown>;
+
+  getMessages(messageIds: string[]): Promise<EmailRecord[]>;
+  getFullMessage(messageId: string): Promise<FullEmailMessage>;
+  getUnsubscribeHeaders(messageId: string): Promise<UnsubscribeHeaders>;
+
+  trashMessages(messageIds: string[]): Promise<MoveResult>;
+  archiveMessages(messageIds: string[]): Promise<MoveResult>;
+  restoreMessages(from: 'trash' | 'archive', messageIds: string[]): Promise<MoveResult>;
+  // Inbox message IDs - the messages stay where they are, so nothing is re-keyed
+  markMessagesRead(messageIds: string[]): Promise<{ success: string[]; failed: string[] }>;
+
+  // Delete without going through the trash. `from` is where the IDs live: 'inbox'
+  // for a permanent sender cleanup, 'trash' for the trashed copies logged on
+  // cleanup_actions (only messages still in the trash are deleted).
+  // Absent for Gmail accounts connected without the full mail scope.
+  permanentlyDeleteMessages?(from: 'inbox' | 'trash', messageIds: string[]): Promise<{ success: string[]; failed: string[] }>;
+
+  // Server-side search fallbacks for when nothing is stored locally (Gmail only)
+  trashAllFromSender?(senderEmail: string): Promise<{ count: number; messageIds: string[] }>;
+  archiveAllFromSender?(senderEmail: string): Promise<{ count: number; messageIds: string[] }>;
+
+  // Used for mailto unsubscribe. Absent for IMAP accounts (sending would need SMTP).
+  sendMessage?(to: string, subject: string, body: string): Promise<void>;
+}
+
+/**
+ * Extract unsubscribe link from a List-Unsubscribe header (prefers HTTP)
+ */
+export function extractUnsubscribeLink(header: string): string | null {
+  if (!header) return null;
+
+  // Prefer HTTPS links in angle brackets (RFC 2369 standard)
+  const httpMatch = header.match(/<(https?:\/\/[^>]+)>/);
+  if (httpMatch) return httpMatch[1];
+
+  // Fallback: bare URL without angle brackets (some senders like Chess.com)
+  const httpMatchBare = header.match(/(https?:\/\/\S+)/);
+  if (httpMatchBare) return httpMatchBare[1];
+
+  // Mailto in angle brackets
+  const mailtoMatch = header.match(/<(mailto:[^>]+)>/);
+  if (mailtoMatch) return mailtoMatch[1];
+
+  // Fallback: bare mailto
+  const mailtoBare = header.match(/(mailto:\S+)/);
+  if (mailtoBare) return mailtoBare[1];
+
+  return null;
+}
+
+/**
+ * Extract mailto unsubscribe link from a List-Unsubscribe header (always extracts mailto if present)
+ */
+export function extractMailtoUnsubscribeLink(header: string): string | null {
+  if (!header) return null;
+
+  // Mailto in angle brackets (RFC 2369 standard)
+  const mailtoMatch = header.match(/<(mailto:[^>]+)>/);
+  if (mailtoMatch) return mailtoMatch[1];
+
+  // Fallback: bare mailto without angle brackets
+  const mailtoBare = header.match(/(mailto:\S+)/);
+  return mailtoBare ? mailtoBare[1] : null;
+}
+
+/**
+ * Check a List-Unsubscribe-Post header for RFC 8058 one-click support
+ */
+export function isOneClickUnsubscribe(postHeader: string | undefined): boolean {
+  return (postHeader || '').toLowerCase().includes('list-unsubscribe=one-click');
+}
+
+/**
+ * Parse both List-Unsubscribe headers into the fields stored on email_senders
+ */
+export function parseUnsubscribeHeaders(
+  listUnsubscribe: string | undefined,
+  listUnsubscribePost: string | undefined
+): UnsubscribeHeaders {
+  return {
+    unsubscribeLink: extractUnsubscribeLink(listUnsubscribe || ''),
+    mailtoUnsubscribeLink: extractMailtoUnsubscribeLink(listUnsubscribe || ''),
+    hasOneClick: isOneClickUnsubscribe(listUnsubscribePost),
+  };
+}
+
+/**
+ * Extract the list identifier from a List-Id header (RFC 2919).
+ * `"Acme Weekly" <weekly.acme.com>` -> "weekly.acme.com". The identifier is
+ * what names a mailing list across all of its From addresses; the description
+ * in front of it is free text and may change between messages.
+ */
+export function parseListId(header: string | undefined): string | null {
+  if (!header) return null;
+
+  const bracketed = header.match(/<([^<>\s]+)>/);
+  // Some senders omit the angle brackets
+  const id = bracketed ? bracketed[1] : header.trim().split(/\s+/).pop() || '';
+
+  const normalized = id.toLowerCase().replace(/\.$/, '');
+  if (!/^[a-z0-9!#$%&'*+/=?^_`{|}~-]+(\.[a-z0-9!#$%&'*+/=?^_`{|}~-]+)+$/.test(normalized) || normalized.length > 255) {
+    return null;
+  }
+  return normalized;
+}
+
+/**
+ * Every address in a To/Cc style header, lowercased and de-duplicated.
+ * `"Doe, Jane" <jane@a.com>, bob@b.com` -> ["jane@a.com", "bob@b.com"].
+ * Display names are dropped, so commas inside quoted names don't matter.
+ */
+export function parseAddressList(header: string | undefined): string[] {
+  if (!header) return [];
+
+  const addresses = new Set<string>();
+  for (const match of header.matchAll(/[^\s<>,;:"()[\]]+@[^\s<>,;:"()[\]]+\.[^\s<>,;:"()[\]]+/g)) {
+    addresses.add(match[0].toLowerCase());
+  }
+  return [...addresses];
+}
+
+/**
+ * recipient address -> when the user last sent them mail (ISO). Built from the
+ * newest sent messages, it's the "has the user ever replied" signal for
+ * sender engagement (see api/lib/engagement.ts).
+ */
+export type SentRecipients = Map<string, string>;
+
+/**
+ * Record one sent message's recipients, keeping each address's newest send
+ */
+export function addSentRecipients(recipients: SentRecipients, addresses: string[], sentAt: string): void {
+  for (const address of addresses) {
+    const previous = recipients.get(address);
+    if (!previous || sentAt > previous) recipients.set(address, sentAt);
+  }
+}
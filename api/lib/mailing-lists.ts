@@ -0,0 +1,217 @@
+/**
+ * Mailing Lists (List-Id identity)
+ *
+ * A mailing list is identified by its RFC 2919 List-Id, stored per email in
+ * emails.list_id (see parseListId in mail-provider.ts). That identity cuts
+ * across senders: one list can mail from several addresses and display names,
+ * and one shared address can carry several lists. These helpers roll stored
+ * emails up by list so a list can be unsubscribed from or deleted as a whole.
+ *
+ * Unsubscribe links come from the newest email of the list that has one; mail
+ * synced without per-email links (Outlook, IMAP, incremental Gmail) falls back
+ * to the newest link cached on the list's email_senders rows.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+
+const supabase = createClient(
+  process.env.VITE_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+export interface ListEmailRow {
+  gmail_message_id: string;
+  sender_email: string;
+  sender_name: string;
+  subject: string | null;
+  received_at: string;
+  is_unread: boolean;
+  list_id: string;
+  size_bytes: number | null;
+  unsubscribe_link: string | null;
+  mailto_unsubscribe_link: string | null;
+  has_one_click_unsubscribe: boolean | null;
+}
+
+export interface ListSenderRow {
+  sender_email: string;
+  sender_name: string;
+  email_count: number;
+  last_email_date: string;
+  unsubscribe_link: string | null;
+  mailto_unsubscribe_link: string | null;
+  has_one_click_unsubscribe: boolean | null;
+}
+
+export interface MailingListSender {
+  email: string;
+  name: string;
+  emailCount: number;
+  // Every stored email of this name+email sender came through the list
+  exclusive: boolean;
+}
+
+export interface MailingList {
+  listId: string;
+  emailCount: number;
+  unreadCount: number;
+  firstEmailDate: string;
+  lastEmailDate: string;
+  senders: MailingListSender[];
+  unsubscribeLink: string | null;
+  mailtoUnsubscribeLink: string | null;
+  hasOneClickUnsubscribe: boolean;
+}
+
+/**
+ * Group stored emails by list, largest lists first.
+ * `senders` are the email_senders rows of the lists' senders, used for the
+ * exclusive flag and as the unsubscribe link fallback.
+ */
+export function rollupEmailsByList(emails: ListEmailRow[], senders: ListSenderRow[] = []): MailingList[] {
+  const senderRows = new Map(senders.map(s => [`${s.sender_email}|||${s.sender_name}`, s]));
+  const lists = new Map<string, MailingList & { _linkDate?: string; _mailtoDate?: string }>();
+
+  for (const email of emails) {
+    let list = lists.get(email.list_id);
+    if (!list) {
+      list = {
+        listId: email.list_id,
+        emailCount: 0,
+        unreadCount: 0,
+        firstEmailDate: email.received_at,
+        lastEmailDate: email.received_at,
+        senders: [],
+        unsubscribeLink: null,
+        mailtoUnsubscribeLink: null,
+        hasOneClickUnsubscribe: false,
+      };
+      lists.set(email.list_id, list);
+    }
+
+    list.emailCount++;
+    if (email.is_unread) list.unreadCount++;
+    if (email.received_at < list.firstEmailDate) list.firstEmailDate = email.received_at;
+    if (email.received_at > list.lastEmailDate) list.lastEmailDate = email.received_at;
+
+    const sender = list.senders.find(s => s.email === email.sender_email && s.name === email.sender_name);
+    if (sender) {
+      sender.emailCount++;
+    } else {
+      list.senders.push({ email: email.sender_email, name: email.sender_name, emailCount: 1, exclusive: false });
+    }
+
+    // Prefer the most recent email's links (more likely to be valid)
+    if (email.unsubscribe_link && (!list._linkDate || email.received_at > list._linkDate)) {
+      list.unsubscribeLink = email.unsubscribe_link;
+      list.hasOneClickUnsubscribe = !!email.has_one_click_unsubscribe;
+      list._linkDate = email.received_at;
+    }
+    if (email.mailto_unsubscribe_link && (!list._mailtoDate || email.received_at > list._mailtoDate)) {
+      list.mailtoUnsubscribeLink = email.mailto_unsubscribe_link;
+      list._mailtoDate = email.received_at;
+    }
+  }
+
+  const result: MailingList[] = [];
+  for (const { _linkDate, _mailtoDate, ...list } of lists.values()) {
+    const rows = list.senders
+      .map(s => senderRows.get(`${s.email}|||${s.name}`))
+      .filter((row): row is ListSenderRow => !!row)
+      .sort((a, b) => b.last_email_date.localeCompare(a.last_email_date));
+
+    for (const sender of list.senders) {
+      const row = senderRows.get(`${sender.email}|||${sender.name}`);
+      sender.exclusive = !row || sender.emailCount >= (row.email_count || 0);
+    }
+
+    if (!list.unsubscribeLink) {
+      const withLink = rows.find(r => r.unsubscribe_link);
+      if (withLink) {
+        list.unsubscribeLink = withLink.unsubscribe_link;
+        list.hasOneClickUnsubscribe = !!withLink.has_one_click_unsubscribe;
+      }
+    }
+    if (!list.mailtoUnsubscribeLink) {
+      list.mailtoUnsubscribeLink = rows.find(r => r.mailto_unsubscribe_link)?.mailto_unsubscribe_link ?? null;
+    }
+
+    list.senders.sort((a, b) => b.emailCount - a.emailCount);
+    result.push(list);
+  }
+
+  return result.sort((a, b) => b.emailCount - a.emailCount || a.listId.localeCompare(b.listId));
+}
+
+const LIST_EMAIL_COLUMNS = 'gmail_message_id, sender_email, sender_name, subject, received_at, is_unread, list_id, size_bytes, unsubscribe_link, mailto_unsubscribe_link, has_one_click_unsubscribe';
+
+/**
+ * Stored emails sent through a mailing list (every list when listId is omitted), oldest first.
+ * Paginated to handle the Supabase 1000-row limit.
+ */
+export async function loadListEmails(accountId: string, listId?: string): Promise<ListEmailRow[]> {
+  const emails: ListEmailRow[] = [];
+
+  for (let page = 0; ; page++) {
+    let query = supabase
+      .from('emails')
+      .select(LIST_EMAIL_COLUMNS)
+      .eq('email_account_id', accountId);
+
+    query = listId ? query.eq('list_id', listId) : query.not('list_id', 'is', null);
+
+    const { data, error } = await query
+      .order('received_at', { ascending: true })
+      .order('gmail_message_id', { ascending: true })
+      .range(page * 1000, (page + 1) * 1000 - 1);
+
+    if (error) throw new Error(`Failed to load mailing list emails: ${error.message}`);
+    emails.push(...((data || []) as ListEmailRow[]));
+    if (!data || data.length < 1000) break;
+  }
+
+  return emails;
+}
+
+/**
+ * email_senders rows for the given addresses
+ */
+async function loadListSenders(accountId: string, senderEmails: string[]): Promise<ListSenderRow[]> {
+  const rows: ListSenderRow[] = [];
+
+  for (let i = 0; i < senderEmails.length; i += 100) {
+    const { data, error } = await supabase
+      .from('email_senders')
+      .select('sender_email, sender_name, email_count, last_email_date, unsubscribe_link, mailto_unsubscribe_link, has_one_click_unsubscribe')
+      .eq('email_account_id', accountId)
+      .in('sender_email', senderEmails.slice(i, i + 100));
+
+    if (error) throw new Error(`Failed to load mailing list senders: ${error.message}`);
+    rows.push(...((data || []) as ListSenderRow[]));
+  }
+
+  return rows;
+}
+
+/**
+ * Roll an account's stored emails up by mailing list
+ */
+export async function listMailingLists(accountId: string): Promise<MailingList[]> {
+  const emails = await loadListEmails(accountId);
+  const senders = await loadListSenders(accountId, [...new Set(emails.map(e => e.sender_email))]);
+  return rollupEmailsByList(emails, senders);
+}
+
+/**
+ * One mailing list with its stored emails, or null when no stored email carries the List-Id
+ */
+export async function getMailingList(
+  accountId: string,
+  listId: string
+): Promise<{ list: MailingList; emails: ListEmailRow[] } | null> {
+  const emails = await loadListEmails(accountId, listId);
+  if (emails.length === 0) return null;
+
+  const senders = await loadListSenders(accountId, [...new Set(emails.map(e => e.sender_email))]);
+  return { list: rollupEmailsByList(emails, senders)[0], emails };
+}
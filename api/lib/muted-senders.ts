@@ -0,0 +1,234 @@
+/**
+ * Muted Senders and Mark-as-Read
+ *
+ * Marking a sender read clears its unread mail in the mailbox (Gmail removes
+ * the UNREAD label, Graph sets isRead, IMAP adds \Seen) and in the local
+ * emails table. Muting a sender does that once and then keeps doing it: the
+ * sync pipeline marks new mail from muted senders read as it arrives.
+ *
+ * Mutes are stored per account in muted_senders rather than on email_senders,
+ * whose rows are deleted once a sender has no emails left.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import type { MailProvider } from './mail-provider.js';
+
+const supabase = createClient(
+  process.env.VITE_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+// One page of unread emails per call (Supabase returns at most 1000 rows) -
+// anything left over is picked up by the next request or sync
+export const MAX_MARK_READ_PER_RUN = 1000;
+
+export interface MutedSender {
+  id: string;
+  user_id: string;
+  email_account_id: string;
+  sender_email: string;
+  created_at: string;
+}
+
+export interface MarkReadTarget {
+  email: string;
+  // Only this display name's mail (name+email grouping); null for every name
+  name: string | null;
+}
+
+export interface MarkReadResult {
+  markedIds: string[];
+  failedCount: number;
+  // `email|||name` keys whose unread counts changed
+  affectedSenders: Set<string>;
+  // `email|||name` target key (empty name for every name) -> emails marked read
+  markedBySender: Map<string, number>;
+  hasMore: boolean;
+}
+
+/**
+ * Validate a mute/unmute request body.
+ * Returns either the normalized fields or a client-facing error.
+ */
+export function validateMuteInput(body: any): {
+  input?: { accountEmail: string; senderEmail: string; muted: boolean };
+  error?: string;
+} {
+  const accountEmail = typeof body?.accountEmail === 'string' ? body.accountEmail : '';
+  if (!accountEmail) {
+    return { error: 'accountEmail is required' };
+  }
+
+  const senderEmail = typeof body.senderEmail === 'string' ? body.senderEmail.trim().toLowerCase() : '';
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(senderEmail) || senderEmail.length > 255) {
+    return { error: 'senderEmail must be a valid email address' };
+  }
+
+  if (typeof body.muted !== 'boolean') {
+    return { error: 'muted must be true or false' };
+  }
+
+  return { input: { accountEmail, senderEmail, muted: body.muted } };
+}
+
+/**
+ * Pick the sync batch senders that are muted
+ */
+export function selectMutedTargets(senderKeys: Set<string>, mutedEmails: Set<string>): MarkReadTarget[] {
+  const emails = new Set([...senderKeys].map(k => k.split('|||')[0]));
+  return [...emails]
+    .filter(email => mutedEmails.has(email))
+    .map(email => ({ email, name: null }));
+}
+
+/**
+ * List an account's muted senders, oldest first
+ */
+export async function listMutedSenders(accountId: string): Promise<MutedSender[]> {
+  const { data, error } = await supabase
+    .from('muted_senders')
+    .select('*')
+    .eq('email_account_id', accountId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return (data || []) as MutedSender[];
+}
+
+/**
+ * Which of the given sender addresses are muted on the account
+ */
+export async function getMutedSenderEmails(accountId: string, senderEmails: string[]): Promise<Set<string>> {
+  const muted = new Set<string>();
+
+  for (let i = 0; i < senderEmails.length; i += 100) {
+    const { data } = await supabase
+      .from('muted_senders')
+      .select('sender_email')
+      .eq('email_account_id', accountId)
+      .in('sender_email', senderEmails.slice(i, i + 100));
+    for (const row of data || []) muted.add(row.sender_email);
+  }
+
+  return muted;
+}
+
+/**
+ * Mute or unmute a sender (idempotent)
+ */
+export async function setSenderMuted(
+  userId: string,
+  accountId: string,
+  senderEmail: string,
+  muted: boolean
+): Promise<void> {
+  const { error } = muted
+    ? await supabase
+      .from('muted_senders')
+      .upsert(
+        { user_id: userId, email_account_id: accountId, sender_email: senderEmail },
+        { onConflict: 'email_account_id,sender_email', ignoreDuplicates: true }
+      )
+    : await supabase
+      .from('muted_senders')
+      .delete()
+      .eq('email_account_id', accountId)
+      .eq('sender_email', senderEmail);
+
+  if (error) throw error;
+}
+
+/**
+ * Key of a target in MarkReadResult.markedBySender
+ */
+export function markReadTargetKey(target: MarkReadTarget): string {
+  return `${target.email}|||${target.name ?? ''}`;
+}
+
+/**
+ * Mark the targets' unread emails read in the mailbox and in the local emails table.
+ * Callers recalculate sender stats for `affectedSenders` afterwards.
+ */
+export async function markSendersRead(
+  accountId: string,
+  targets: MarkReadTarget[],
+  executor: Pick<MailProvider, 'markMessagesRead'>
+): Promise<MarkReadResult> {
+  const result: MarkReadResult = {
+    markedIds: [], failedCount: 0, affectedSenders: new Set(), markedBySender: new Map(), hasMore: false
+  };
+  if (targets.length === 0) return result;
+
+  const { data: rows, error } = await supabase
+    .from('emails')
+    .select('gmail_message_id, sender_email, sender_name')
+    .eq('email_account_id', accountId)
+    .eq('is_unread', true)
+    .in('sender_email', [...new Set(targets.map(t => t.email))])
+    .order('received_at', { ascending: false })
+    .limit(MAX_MARK_READ_PER_RUN);
+
+  if (error) throw error;
+
+  // A target with a name only covers that name's mail
+  const candidates = (rows || []).filter(row =>
+    targets.some(t => t.email === row.sender_email && (t.name === null || t.name === row.sender_name))
+  );
+  result.hasMore = (rows || []).length === MAX_MARK_READ_PER_RUN;
+  if (candidates.length === 0) return result;
+
+  const { success, failed } = await executor.markMessagesRead(candidates.map(r => r.gmail_message_id));
+  result.markedIds = success;
+  result.failedCount = failed.length;
+
+  for (let i = 0; i < success.length; i += 100) {
+    await supabase
+      .from('emails')
+      .update({ is_unread: false })
+      .eq('email_account_id', accountId)
+      .in('gmail_message_id', success.slice(i, i + 100));
+  }
+
+  const markedSet = new Set(success);
+  for (const row of candidates) {
+    if (markedSet.has(row.gmail_message_id)) {
+      result.affectedSenders.add(`${row.sender_email}|||${row.sender_name}`);
+      const target = targets.find(t => t.email === row.sender_email && t.name === row.sender_name)
+        || targets.find(t => t.email === row.sender_email && t.name === null)!;
+      const key = markReadTargetKey(target);
+      result.markedBySender.set(key, (result.markedBySender.get(key) || 0) + 1);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Mark new mail from muted senders read. Called by the sync pipeline for
+ * every sender touched by newly synced mail.
+ *
+ * @param accountId - Email account being synced
+ * @param senderKeys - `email|||name` keys touched by this sync batch
+ * @param executor - Provider operations (the account's MailProvider)
+ * @returns Number of emails marked read
+ */
+export async function applyMutedSenders(
+  accountId: string,
+  senderKeys: Set<string>,
+  executor: Pick<MailProvider, 'markMessagesRead'>
+): Promise<{ markedCount: number }> {
+  if (senderKeys.size === 0) return { markedCount: 0 };
+
+  try {
+    const senderEmails = [...new Set([...senderKeys].map(k => k.split('|||')[0]))];
+    const muted = await getMutedSenderEmails(accountId, senderEmails);
+    if (muted.size === 0) return { markedCount: 0 };
+
+    const { markedIds } = await markSendersRead(accountId, selectMutedTargets(senderKeys, muted), executor);
+    return { markedCount: markedIds.length };
+  } catch (err: any) {
+    // Muting must never break sync - log and move on
+    console.error(`Muted senders failed for account ${accountId}:`, err.message);
+    return { markedCount: 0 };
+  }
+}
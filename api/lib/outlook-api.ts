@@ -9,6 +9,16 @@
  * - Extract unsubscribe links
  */
 
+import type { EmailRecord, UnsubscribeHeaders, SentRecipients } from './mail-provider.js';
+import {
+  extractUnsubscribeLink as parseUnsubscribeLink,
+  extractMailtoUnsubscribeLink as parseMailtoUnsubscribeLink,
+  parseUnsubscribeHeaders,
+  parseListId,
+  addSentRecipients,
+} from './mail-provider.js';
+import { quotaFetch, isProviderUnavailableError } from './provider-quota.js';
+
 const GRAPH_API_BASE = 'https://graph.microsoft.com/v1.0';
 
 // Rate limiting configuration (more conservative than Gmail)
@@ -32,37 +42,6 @@ function getBackoffMs(attempt: number): number {
   return cappedBackoff + jitter;
 }
 
-// Reuse types from gmail-api for compatibility
-export interface SenderStats {
-  email: string;
-  name: string;
-  count: number;
-  unreadCount: number;
-  firstDate: string;
-  lastDate: string;
-  unsubscribeLink?: string;
-  mailtoUnsubscribeLink?: string;
-  hasUnsubscribe: boolean;
-  hasOneClickUnsubscribe: boolean;
-  isNewsletter: boolean;
-  isPromotional: boolean;
-  messageIds: string[];
-  _unsubLinkDate?: string;
-  _mailtoUnsubLinkDate?: string;
-}
-
-export interface EmailRecord {
-  gmail_message_id: string; // stores Outlook message ID (column name is historical)
-  sender_email: string;
-  sender_name: string;
-  subject: string;
-  snippet: string;
-  received_at: string;
-  is_unread: boolean;
-  thread_id: string;
-  labels: string[];
-}
-
 export interface OutlookMessage {
   id: string;
   conversationId: string;
@@ -81,8 +60,18 @@ export interface OutlookMessage {
     value: string;
   }>;
   parentFolderId?: string;
+  hasAttachments?: boolean;
+  // Only PR_MESSAGE_SIZE is expanded (see MESSAGE_SIZE_EXPAND)
+  singleValueExtendedProperties?: Array<{
+    id: string;
+    value: string;
+  }>;
 }
 
+// Graph has no size property on messages - read the MAPI PR_MESSAGE_SIZE property instead
+const MESSAGE_SIZE_PROPERTY_ID = 'Integer 0x0E08';
+const MESSAGE_SIZE_EXPAND = `$expand=singleValueExtendedProperties(${encodeURIComponent(`$filter=id eq '${MESSAGE_SIZE_PROPERTY_ID}'`)})`;
+
 export interface OutlookMessageList {
   value: OutlookMessage[];
   '@odata.nextLink'?: string;
@@ -95,6 +84,14 @@ export interface DeltaResponse {
   '@odata.deltaLink'?: string;
 }
 
+export interface GraphSubscription {
+  id: string;
+  resource: string;
+  changeType: string;
+  expirationDateTime: string;
+  clientState?: string;
+}
+
 /**
  * Make authenticated request to Microsoft Graph API with retry logic
  */
@@ -102,12 +99,14 @@ async function graphRequest(
   accessToken: string,
   url: string,
   options: RequestInit = {},
+  units: number = 1, // Graph throttles per request - a $batch costs one unit per part
   retryCount: number = 0
 ): Promise<any> {
   // Support both relative paths and full URLs (for nextLink/deltaLink)
   const fullUrl = url.startsWith('http') ? url : `${GRAPH_API_BASE}${url}`;
 
-  const response = await fetch(fullUrl, {
+  // Quota, adaptive concurrency and circuit breaking are shared per user (see provider-quota.ts)
+  const response = await quotaFetch('outlook', accessToken, units, fullUrl, {
     ...options,
     headers: {
       Authorization: `Bearer ${accessToken}`,
@@ -128,7 +127,7 @@ async function graphRequest(
         : getBackoffMs(retryCount);
       console.warn(`Rate limited (${response.status}), retrying in ${Math.round(backoffMs)}ms (attempt ${retryCount + 1}/${RATE_LIMIT.MAX_RETRIES})`);
       await sleep(backoffMs);
-      return graphRequest(accessToken, url, options, retryCount + 1);
+      return graphRequest(accessToken, url, options, units, retryCount + 1);
     }
 
     if (response.status !== 429 && response.status !== 503) {
@@ -213,7 +212,7 @@ export async function batchGetMessages(
       requests: batch.map((id, idx) => ({
         id: String(idx),
         method: 'GET',
-        url: `/me/messages/${id}?$select=id,conversationId,subject,bodyPreview,receivedDateTime,isRead,from,internetMessageHeaders,parentFolderId`,
+        url: `/me/messages/${id}?$select=id,conversationId,subject,bodyPreview,receivedDateTime,isRead,from,internetMessageHeaders,parentFolderId,hasAttachments&${MESSAGE_SIZE_EXPAND}`,
       }))
     };
 
@@ -221,7 +220,7 @@ export async function batchGetMessages(
       const batchResponse = await graphRequest(accessToken, '/$batch', {
         method: 'POST',
         body: JSON.stringify(batchBody),
-      });
+      }, batch.length);
 
       if (batchResponse?.responses) {
         for (const resp of batchResponse.responses) {
@@ -233,6 +232,8 @@ export async function batchGetMessages(
         }
       }
     } catch (err) {
+      // A provider outage must fail the sync, not silently drop messages
+      if (isProviderUnavailableError(err)) throw err;
       console.error('Batch request failed:', err);
       failedCount += batch.length;
     }
@@ -311,19 +312,121 @@ export async function getInitialDeltaLink(accessToken: string): Promise<string>
   return response['@odata.deltaLink'] || '';
 }
 
+// Newest sent messages scanned for recipients
+const SENT_RECIPIENT_SCAN_LIMIT = 1000;
+
+interface OutlookSentMessage {
+  sentDateTime: string;
+  toRecipients?: Array<{ emailAddress: { address: string } }>;
+  ccRecipients?: Array<{ emailAddress: { address: string } }>;
+}
+
+/**
+ * Who the user has written to, from the recipients of their newest Sent Items
+ */
+export async function listSentRecipients(
+  accessToken: string,
+  maxMessages: number = SENT_RECIPIENT_SCAN_LIMIT
+): Promise<SentRecipients> {
+  const recipients: SentRecipients = new Map();
+  let url: string | undefined = `/me/mailFolders('SentItems')/messages?$top=100&$select=toRecipients,ccRecipients,sentDateTime&$orderby=sentDateTime desc`;
+  let scanned = 0;
+
+  while (url && scanned < maxMessages) {
+    const response: { value: OutlookSentMessage[]; '@odata.nextLink'?: string } = await graphRequest(accessToken, url);
+    for (const message of response.value || []) {
+      const addresses = [...(message.toRecipients || []), ...(message.ccRecipients || [])]
+        .map(r => r.emailAddress?.address?.toLowerCase())
+        .filter((address): address is string => !!address);
+      addSentRecipients(recipients, addresses, new Date(message.sentDateTime).toISOString());
+    }
+    scanned += (response.value || []).length;
+    url = response['@odata.nextLink'];
+  }
+
+  return recipients;
+}
+
+/**
+ * Create a change-notification subscription on the inbox.
+ * Graph POSTs a validationToken to notificationUrl before this returns,
+ * so the webhook route must already be reachable.
+ */
+export async function createInboxSubscription(
+  accessToken: string,
+  notificationUrl: string,
+  clientState: string,
+  expirationDateTime: string
+): Promise<GraphSubscription> {
+  return graphRequest(accessToken, '/subscriptions', {
+    method: 'POST',
+    body: JSON.stringify({
+      changeType: 'created,updated,deleted',
+      notificationUrl,
+      lifecycleNotificationUrl: notificationUrl,
+      resource: "me/mailFolders('Inbox')/messages",
+      expirationDateTime,
+      clientState,
+    }),
+  });
+}
+
+/**
+ * Extend a subscription's expiry (Graph caps mail subscriptions at just under 7 days)
+ */
+export async function renewSubscription(
+  accessToken: string,
+  subscriptionId: string,
+  expirationDateTime: string
+): Promise<GraphSubscription> {
+  return graphRequest(accessToken, `/subscriptions/${subscriptionId}`, {
+    method: 'PATCH',
+    body: JSON.stringify({ expirationDateTime }),
+  });
+}
+
+/**
+ * Delete a change-notification subscription
+ */
+export async function deleteSubscription(
+  accessToken: string,
+  subscriptionId: string
+): Promise<void> {
+  await graphRequest(accessToken, `/subscriptions/${subscriptionId}`, { method: 'DELETE' });
+}
+
+/**
+ * After a batch of per-message moves: if the provider is down, fail the remaining
+ * messages and return true. Throws the PROVIDER_UNAVAILABLE error when nothing succeeded.
+ */
+function stopForOutage(
+  results: PromiseSettledResult<unknown>[],
+  remaining: string[],
+  success: string[],
+  failed: string[]
+): boolean {
+  const outage = results.find(r => r.status === 'rejected' && isProviderUnavailableError(r.reason)) as PromiseRejectedResult | undefined;
+  if (!outage) return false;
+  if (success.length === 0) throw outage.reason;
+  failed.push(...remaining);
+  return true;
+}
+
 /**
  * Move a message to Deleted Items (trash)
+ * Returns the message ID after the move (Graph assigns a new ID per folder)
  */
 export async function trashMessage(
   accessToken: string,
   messageId: string
-): Promise<void> {
-  await graphRequest(accessToken, `/me/messages/${messageId}/move`, {
+): Promise<string> {
+  const moved = await graphRequest(accessToken, `/me/messages/${messageId}/move`, {
     method: 'POST',
     body: JSON.stringify({
       destinationId: 'deleteditems'
     }),
   });
+  return moved?.id || messageId;
 }
 
 /**
@@ -332,9 +435,10 @@ export async function trashMessage(
 export async function batchTrashMessages(
   accessToken: string,
   messageIds: string[]
-): Promise<{ success: string[]; failed: string[] }> {
+): Promise<{ success: string[]; failed: string[]; movedIds: Record<string, string> }> {
   const success: string[] = [];
   const failed: string[] = [];
+  const movedIds: Record<string, string> = {};
   const CONCURRENT = RATE_LIMIT.MAX_CONCURRENT;
 
   for (let i = 0; i < messageIds.length; i += CONCURRENT) {
@@ -346,32 +450,38 @@ export async function batchTrashMessages(
     results.forEach((result, idx) => {
       if (result.status === 'fulfilled') {
         success.push(batch[idx]);
+        movedIds[batch[idx]] = result.value;
       } else {
         failed.push(batch[idx]);
       }
     });
 
+    // Provider outage: stop here rather than failing every remaining message one by one
+    if (stopForOutage(results, messageIds.slice(i + CONCURRENT), success, failed)) break;
+
     if (i + CONCURRENT < messageIds.length) {
       await sleep(RATE_LIMIT.DELAY_BETWEEN_BATCHES);
     }
   }
 
-  return { success, failed };
+  return { success, failed, movedIds };
 }
 
 /**
  * Move a message to Archive folder
+ * Returns the message ID after the move (Graph assigns a new ID per folder)
  */
 export async function archiveMessage(
   accessToken: string,
   messageId: string
-): Promise<void> {
-  await graphRequest(accessToken, `/me/messages/${messageId}/move`, {
+): Promise<string> {
+  const moved = await graphRequest(accessToken, `/me/messages/${messageId}/move`, {
     method: 'POST',
     body: JSON.stringify({
       destinationId: 'archive'
     }),
   });
+  return moved?.id || messageId;
 }
 
 /**
@@ -380,9 +490,10 @@ export async function archiveMessage(
 export async function batchArchiveMessages(
   accessToken: string,
   messageIds: string[]
-): Promise<{ success: string[]; failed: string[] }> {
+): Promise<{ success: string[]; failed: string[]; movedIds: Record<string, string> }> {
   const success: string[] = [];
   const failed: string[] = [];
+  const movedIds: Record<string, string> = {};
   const CONCURRENT = RATE_LIMIT.MAX_CONCURRENT;
 
   for (let i = 0; i < messageIds.length; i += CONCURRENT) {
@@ -394,11 +505,208 @@ export async function batchArchiveMessages(
     results.forEach((result, idx) => {
       if (result.status === 'fulfilled') {
         success.push(batch[idx]);
+        movedIds[batch[idx]] = result.value;
       } else {
         failed.push(batch[idx]);
       }
     });
 
+    // Provider outage: stop here rather than failing every remaining message one by one
+    if (stopForOutage(results, messageIds.slice(i + CONCURRENT), success, failed)) break;
+
+    if (i + CONCURRENT < messageIds.length) {
+      await sleep(RATE_LIMIT.DELAY_BETWEEN_BATCHES);
+    }
+  }
+
+  return { success, failed, movedIds };
+}
+
+/**
+ * Move a message back to the Inbox (undo trash/archive)
+ * Returns the message ID after the move (Graph assigns a new ID per folder)
+ */
+export async function restoreMessage(
+  accessToken: string,
+  messageId: string
+): Promise<string> {
+  const moved = await graphRequest(accessToken, `/me/messages/${messageId}/move`, {
+    method: 'POST',
+    body: JSON.stringify({
+      destinationId: 'inbox'
+    }),
+  });
+  return moved?.id || messageId;
+}
+
+/**
+ * Batch restore messages to the Inbox with rate limiting
+ */
+export async function batchRestoreMessages(
+  accessToken: string,
+  messageIds: string[]
+): Promise<{ success: string[]; failed: string[]; movedIds: Record<string, string> }> {
+  const success: string[] = [];
+  const failed: string[] = [];
+  const movedIds: Record<string, string> = {};
+  const CONCURRENT = RATE_LIMIT.MAX_CONCURRENT;
+
+  for (let i = 0; i < messageIds.length; i += CONCURRENT) {
+    const batch = messageIds.slice(i, i + CONCURRENT);
+    const results = await Promise.allSettled(
+      batch.map(id => restoreMessage(accessToken, id))
+    );
+
+    results.forEach((result, idx) => {
+      if (result.status === 'fulfilled') {
+        success.push(batch[idx]);
+        movedIds[batch[idx]] = result.value;
+      } else {
+        failed.push(batch[idx]);
+      }
+    });
+
+    // Provider outage: stop here rather than failing every remaining message one by one
+    if (stopForOutage(results, messageIds.slice(i + CONCURRENT), success, failed)) break;
+
+    if (i + CONCURRENT < messageIds.length) {
+      await sleep(RATE_LIMIT.DELAY_BETWEEN_BATCHES);
+    }
+  }
+
+  return { success, failed, movedIds };
+}
+
+/**
+ * Batch mark messages read through Graph's $batch endpoint
+ * (RATE_LIMIT.BATCH_SIZE PATCH requests per call)
+ */
+export async function batchMarkAsRead(
+  accessToken: string,
+  messageIds: string[]
+): Promise<{ success: string[]; failed: string[] }> {
+  const BATCH_SIZE = RATE_LIMIT.BATCH_SIZE;
+  const success: string[] = [];
+  const failed: string[] = [];
+
+  for (let i = 0; i < messageIds.length; i += BATCH_SIZE) {
+    const batch = messageIds.slice(i, i + BATCH_SIZE);
+
+    const batchBody = {
+      requests: batch.map((id, idx) => ({
+        id: String(idx),
+        method: 'PATCH',
+        url: `/me/messages/${id}`,
+        headers: { 'Content-Type': 'application/json' },
+        body: { isRead: true },
+      }))
+    };
+
+    try {
+      const batchResponse = await graphRequest(accessToken, '/$batch', {
+        method: 'POST',
+        body: JSON.stringify(batchBody),
+      }, batch.length);
+
+      const statuses = new Map<string, number>(
+        (batchResponse?.responses || []).map((resp: any) => [resp.id, resp.status])
+      );
+      batch.forEach((id, idx) => {
+        const status = statuses.get(String(idx)) || 0;
+        (status >= 200 && status < 300 ? success : failed).push(id);
+      });
+    } catch (err: any) {
+      // Provider outage: stop here rather than failing every remaining message one by one
+      if (isProviderUnavailableError(err)) {
+        if (success.length === 0) throw err;
+        failed.push(...messageIds.slice(i));
+        break;
+      }
+      console.error('Batch mark read failed:', err.message);
+      failed.push(...batch);
+    }
+
+    if (i + BATCH_SIZE < messageIds.length) {
+      await sleep(RATE_LIMIT.DELAY_BETWEEN_BATCHES);
+    }
+  }
+
+  return { success, failed };
+}
+
+/**
+ * Permanently delete a message, skipping Deleted Items.
+ * A message the user has since moved out of Deleted Items has a new ID, so
+ * purging a stale trashed-copy ID fails with 404 instead of deleting it.
+ */
+export async function permanentDeleteMessage(
+  accessToken: string,
+  messageId: string
+): Promise<void> {
+  await graphRequest(accessToken, `/me/messages/${messageId}/permanentDelete`, {
+    method: 'POST',
+  });
+}
+
+/**
+ * Permanently delete a message only while it is still in Deleted Items.
+ * Throws (the message counts as failed) when it lives in any other folder.
+ */
+async function permanentDeleteTrashedMessage(
+  accessToken: string,
+  messageId: string,
+  deletedItemsId: string
+): Promise<void> {
+  const message = await graphRequest(accessToken, `/me/messages/${messageId}?$select=id,parentFolderId`);
+  if (message?.parentFolderId !== deletedItemsId) {
+    throw new Error('Message is not in Deleted Items');
+  }
+  await permanentDeleteMessage(accessToken, messageId);
+}
+
+/**
+ * Batch permanently delete messages with rate limiting
+ *
+ * With onlyTrashed, messages outside Deleted Items (never trashed, or moved
+ * out since) are reported as failed and left alone.
+ */
+export async function batchPermanentDeleteMessages(
+  accessToken: string,
+  messageIds: string[],
+  options: { onlyTrashed?: boolean } = {}
+): Promise<{ success: string[]; failed: string[] }> {
+  const success: string[] = [];
+  const failed: string[] = [];
+  const CONCURRENT = RATE_LIMIT.MAX_CONCURRENT;
+
+  if (messageIds.length === 0) return { success, failed };
+
+  const deletedItemsId: string | null = options.onlyTrashed
+    ? (await graphRequest(accessToken, `/me/mailFolders('deleteditems')?$select=id`))?.id ?? null
+    : null;
+  if (options.onlyTrashed && !deletedItemsId) {
+    throw new Error('Could not resolve the Deleted Items folder');
+  }
+
+  for (let i = 0; i < messageIds.length; i += CONCURRENT) {
+    const batch = messageIds.slice(i, i + CONCURRENT);
+    const results = await Promise.allSettled(
+      batch.map(id => deletedItemsId
+        ? permanentDeleteTrashedMessage(accessToken, id, deletedItemsId)
+        : permanentDeleteMessage(accessToken, id))
+    );
+
+    results.forEach((result, idx) => {
+      if (result.status === 'fulfilled') {
+        success.push(batch[idx]);
+      } else {
+        failed.push(batch[idx]);
+      }
+    });
+
+    // Provider outage: stop here rather than failing every remaining message one by one
+    if (stopForOutage(results, messageIds.slice(i + CONCURRENT), success, failed)) break;
+
     if (i + CONCURRENT < messageIds.length) {
       await sleep(RATE_LIMIT.DELAY_BETWEEN_BATCHES);
     }
@@ -449,121 +757,42 @@ function getHeader(message: OutlookMessage, headerName: string): string | undefi
  * Extract unsubscribe link from headers (prefers HTTP)
  */
 export function extractUnsubscribeLink(message: OutlookMessage): string | undefined {
-  const listUnsubscribe = getHeader(message, 'List-Unsubscribe');
-  if (!listUnsubscribe) return undefined;
-
-  // Prefer HTTPS links in angle brackets (RFC 2369 standard)
-  const httpMatch = listUnsubscribe.match(/<(https?:\/\/[^>]+)>/);
-  if (httpMatch) return httpMatch[1];
-
-  // Fallback: bare URL without angle brackets
-  const httpMatchBare = listUnsubscribe.match(/(https?:\/\/\S+)/);
-  if (httpMatchBare) return httpMatchBare[1];
-
-  // Mailto in angle brackets
-  const mailtoMatch = listUnsubscribe.match(/<(mailto:[^>]+)>/);
-  if (mailtoMatch) return mailtoMatch[1];
-
-  // Fallback: bare mailto
-  const mailtoBare = listUnsubscribe.match(/(mailto:\S+)/);
-  if (mailtoBare) return mailtoBare[1];
-
-  return undefined;
+  return parseUnsubscribeLink(getHeader(message, 'List-Unsubscribe') || '') ?? undefined;
 }
 
 /**
  * Extract mailto unsubscribe link from headers
  */
 export function extractMailtoUnsubscribeLink(message: OutlookMessage): string | undefined {
-  const listUnsubscribe = getHeader(message, 'List-Unsubscribe');
-  if (!listUnsubscribe) return undefined;
-
-  const mailtoMatch = listUnsubscribe.match(/<(mailto:[^>]+)>/);
-  if (mailtoMatch) return mailtoMatch[1];
-
-  const mailtoBare = listUnsubscribe.match(/(mailto:\S+)/);
-  return mailtoBare ? mailtoBare[1] : undefined;
+  return parseMailtoUnsubscribeLink(getHeader(message, 'List-Unsubscribe') || '') ?? undefined;
 }
 
 /**
- * Create composite key for sender (name + email)
+ * Parse both List-Unsubscribe headers of a message
  */
-function getSenderKey(email: string, name: string): string {
-  return `${name}|||${email}`;
+export function getUnsubscribeHeaders(message: OutlookMessage): UnsubscribeHeaders {
+  return parseUnsubscribeHeaders(
+    getHeader(message, 'List-Unsubscribe'),
+    getHeader(message, 'List-Unsubscribe-Post')
+  );
 }
 
 /**
- * Aggregate messages by sender to get statistics
- * Same output format as Gmail version, different input format
+ * Mailing-list identifier from the List-Id header
  */
-export function aggregateBySender(messages: OutlookMessage[]): Map<string, SenderStats> {
-  const senderMap = new Map<string, SenderStats>();
-
-  let skippedNoFrom = 0;
-  for (const message of messages) {
-    if (!message.from?.emailAddress?.address) {
-      skippedNoFrom++;
-      continue;
-    }
-
-    const email = message.from.emailAddress.address.toLowerCase();
-    const name = message.from.emailAddress.name || email;
-    const compositeKey = getSenderKey(email, name);
-    const messageDate = new Date(message.receivedDateTime).toISOString();
-    const unsubscribeLink = extractUnsubscribeLink(message);
-    const mailtoUnsubLink = extractMailtoUnsubscribeLink(message);
-    const unsubscribePostHeader = getHeader(message, 'List-Unsubscribe-Post') || '';
-    const hasOneClick = unsubscribePostHeader.toLowerCase().includes('list-unsubscribe=one-click');
-    const isUnread = !message.isRead;
-
-    // Outlook doesn't have CATEGORY_PROMOTIONS/CATEGORY_UPDATES labels
-    // Newsletter detection relies solely on List-Unsubscribe header
-    const hasUnsubscribe = !!unsubscribeLink;
-
-    if (!senderMap.has(compositeKey)) {
-      senderMap.set(compositeKey, {
-        email,
-        name,
-        count: 0,
-        unreadCount: 0,
-        firstDate: messageDate,
-        lastDate: messageDate,
-        unsubscribeLink,
-        mailtoUnsubscribeLink: mailtoUnsubLink,
-        hasUnsubscribe,
-        hasOneClickUnsubscribe: hasOneClick,
-        isNewsletter: hasUnsubscribe,
-        isPromotional: false,
-        messageIds: [],
-        _unsubLinkDate: unsubscribeLink ? messageDate : undefined,
-        _mailtoUnsubLinkDate: mailtoUnsubLink ? messageDate : undefined,
-      });
-    }
-
-    const stats = senderMap.get(compositeKey)!;
-    stats.count++;
-    if (isUnread) stats.unreadCount++;
-    stats.messageIds.push(message.id);
-
-    if (messageDate < stats.firstDate) stats.firstDate = messageDate;
-    if (messageDate > stats.lastDate) stats.lastDate = messageDate;
-
-    if (unsubscribeLink && (!stats._unsubLinkDate || messageDate > stats._unsubLinkDate)) {
-      stats.unsubscribeLink = unsubscribeLink;
-      stats.hasUnsubscribe = true;
-      stats.hasOneClickUnsubscribe = hasOneClick;
-      stats._unsubLinkDate = messageDate;
-    }
-
-    if (mailtoUnsubLink && (!stats._mailtoUnsubLinkDate || messageDate > stats._mailtoUnsubLinkDate)) {
-      stats.mailtoUnsubscribeLink = mailtoUnsubLink;
-      stats._mailtoUnsubLinkDate = messageDate;
-    }
-
-    if (hasUnsubscribe) stats.isNewsletter = true;
-  }
+export function extractListId(message: OutlookMessage): string | null {
+  return parseListId(getHeader(message, 'List-Id'));
+}
 
-  return senderMap;
+/**
+ * Message size in bytes (PR_MESSAGE_SIZE), or null when it wasn't expanded
+ */
+export function extractSizeBytes(message: OutlookMessage): number | null {
+  const property = message.singleValueExtendedProperties?.find(
+    p => p.id.toLowerCase() === MESSAGE_SIZE_PROPERTY_ID.toLowerCase()
+  );
+  const size = property ? parseInt(property.value, 10) : NaN;
+  return Number.isFinite(size) ? size : null;
 }
 
 /**
@@ -589,6 +818,9 @@ export function extractEmailRecords(messages: OutlookMessage[]): EmailRecord[] {
       is_unread: !message.isRead,
       thread_id: message.conversationId || message.id,
       labels: [], // Outlook doesn't use labels like Gmail
+      list_id: extractListId(message),
+      size_bytes: extractSizeBytes(message),
+      has_attachments: !!message.hasAttachments,
     });
   }
 
@@ -0,0 +1,249 @@
+/**
+ * Outlook Change Notifications (Microsoft Graph subscriptions)
+ *
+ * Outlook counterpart to gmail-push.ts. Each connected Outlook account gets a
+ * Graph subscription on its inbox; Graph POSTs change notifications to
+ * /api/outlook/notifications, which pulls the account's next scheduled sync
+ * forward so the background worker (worker.ts) runs performOutlookIncrementalSync
+ * (delta query) within a tick instead of waiting for the plan interval.
+ *
+ * Every subscription has its own random clientState, stored on the account and
+ * echoed back by Graph in each notification, so forged notifications are dropped.
+ *
+ * Env:
+ *   OUTLOOK_NOTIFICATION_URL - public URL of /api/outlook/notifications; subscriptions
+ *                              are off when unset.
+ */
+
+import crypto from 'crypto';
+import { createClient } from '@supabase/supabase-js';
+import { getValidOutlookAccessToken } from './outlook.js';
+import { createInboxSubscription, renewSubscription } from './outlook-api.js';
+
+const supabase = createClient(
+  process.env.VITE_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+const OUTLOOK_NOTIFICATION_URL = process.env.OUTLOOK_NOTIFICATION_URL;
+
+// Requested lifetime for new/renewed subscriptions (Graph allows just under 7 days)
+const SUBSCRIPTION_LIFETIME_MS = 3 * 24 * 60 * 60 * 1000;
+// Renew once less than a day is left
+const SUBSCRIPTION_RENEW_BEFORE_MS = 24 * 60 * 60 * 1000;
+// Bursts of notifications (e.g. a batch of new mail) collapse into one sync
+const NOTIFICATION_SYNC_DELAY_SECONDS = 30;
+// Failed renewals (e.g. revoked consent) are retried after this long
+const SUBSCRIPTION_RETRY_MS = 60 * 60 * 1000;
+// Subscriptions renewed per worker tick - the rest are picked up on the next tick
+const MAX_SUBSCRIPTION_RENEWALS_PER_TICK = 50;
+
+export interface OutlookChangeNotification {
+  subscriptionId: string;
+  clientState: string;
+  lifecycleEvent?: string; // subscriptionRemoved | reauthorizationRequired | missed
+}
+
+/**
+ * Graph notification request body (change and lifecycle notifications share it)
+ */
+export interface GraphNotificationBody {
+  value?: Array<{
+    subscriptionId?: string;
+    clientState?: string;
+    changeType?: string;
+    lifecycleEvent?: string;
+    resource?: string;
+  }>;
+}
+
+export interface NotificationResult {
+  queued: number;
+  rejected: number;
+}
+
+export function isOutlookPushEnabled(): boolean {
+  return !!OUTLOOK_NOTIFICATION_URL;
+}
+
+/**
+ * Compare a notification's clientState with the one stored for its subscription (constant-time)
+ */
+export function clientStateMatches(received: string, expected: string | null | undefined): boolean {
+  if (!expected) return false;
+  const a = Buffer.from(received);
+  const b = Buffer.from(expected);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+/**
+ * Pull the notifications out of a Graph request body.
+ * Entries without a subscriptionId or clientState are dropped.
+ */
+export function parseNotifications(body: GraphNotificationBody | null | undefined): OutlookChangeNotification[] {
+  if (!Array.isArray(body?.value)) return [];
+
+  const notifications: OutlookChangeNotification[] = [];
+  for (const item of body.value) {
+    if (!item || typeof item.subscriptionId !== 'string' || typeof item.clientState !== 'string') continue;
+    if (!item.subscriptionId || !item.clientState) continue;
+
+    notifications.push({
+      subscriptionId: item.subscriptionId,
+      clientState: item.clientState,
+      ...(typeof item.lifecycleEvent === 'string' ? { lifecycleEvent: item.lifecycleEvent } : {}),
+    });
+  }
+  return notifications;
+}
+
+/**
+ * Create (or renew) the inbox subscription for an Outlook account and record it.
+ * A subscription Graph no longer knows about is replaced with a new one.
+ */
+export async function registerOutlookSubscription(
+  accountId: string,
+  accessToken: string,
+  existingSubscriptionId: string | null = null
+): Promise<void> {
+  if (!OUTLOOK_NOTIFICATION_URL) return;
+
+  const expirationDateTime = new Date(Date.now() + SUBSCRIPTION_LIFETIME_MS).toISOString();
+
+  if (existingSubscriptionId) {
+    try {
+      const renewed = await renewSubscription(accessToken, existingSubscriptionId, expirationDateTime);
+      await supabase
+        .from('email_accounts')
+        .update({
+          outlook_subscription_expiration: renewed.expirationDateTime,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', accountId);
+      return;
+    } catch (renewError: any) {
+      if (!renewError.message?.includes('404')) throw renewError;
+      // Subscription expired or was removed by Graph - fall through and create a new one
+    }
+  }
+
+  const clientState = crypto.randomBytes(32).toString('hex');
+  const subscription = await createInboxSubscription(
+    accessToken,
+    OUTLOOK_NOTIFICATION_URL,
+    clientState,
+    expirationDateTime
+  );
+
+  await supabase
+    .from('email_accounts')
+    .update({
+      outlook_subscription_id: subscription.id,
+      outlook_subscription_client_state: clientState,
+      outlook_subscription_expiration: subscription.expirationDateTime,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', accountId);
+}
+
+/**
+ * Renew subscriptions that are missing or about to expire (run from the worker)
+ * Returns the number of subscriptions renewed.
+ */
+export async function renewOutlookSubscriptions(): Promise<number> {
+  if (!OUTLOOK_NOTIFICATION_URL) return 0;
+
+  const renewBefore = new Date(Date.now() + SUBSCRIPTION_RENEW_BEFORE_MS).toISOString();
+  const { data: accounts, error } = await supabase
+    .from('email_accounts')
+    .select('id, user_id, email, outlook_subscription_id')
+    .eq('connection_status', 'connected')
+    .eq('provider', 'Outlook')
+    .or(`outlook_subscription_expiration.is.null,outlook_subscription_expiration.lt.${renewBefore}`)
+    .limit(MAX_SUBSCRIPTION_RENEWALS_PER_TICK);
+
+  if (error) {
+    console.error('Outlook subscription renewal: failed to load accounts:', error.message);
+    return 0;
+  }
+
+  let renewed = 0;
+  for (const account of accounts || []) {
+    try {
+      const { accessToken } = await getValidOutlookAccessToken(account.user_id, account.email);
+      await registerOutlookSubscription(account.id, accessToken, account.outlook_subscription_id);
+      renewed++;
+    } catch (renewError: any) {
+      // Push the expiry out so the account is retried in an hour rather than every tick
+      console.warn(`Outlook subscription renewal failed for account ${account.id}:`, renewError.message);
+      await supabase
+        .from('email_accounts')
+        .update({
+          outlook_subscription_expiration: new Date(Date.now() + SUBSCRIPTION_RENEW_BEFORE_MS + SUBSCRIPTION_RETRY_MS).toISOString()
+        })
+        .eq('id', account.id);
+    }
+  }
+
+  return renewed;
+}
+
+/**
+ * Queue incremental syncs for the accounts a batch of notifications refers to.
+ * Notifications whose clientState doesn't match the stored one are rejected.
+ * Lifecycle notifications that need a new subscription mark it for renewal;
+ * only accounts the worker already syncs (connected, synced at least once) are queued.
+ */
+export async function handleNotifications(notifications: OutlookChangeNotification[]): Promise<NotificationResult> {
+  const result: NotificationResult = { queued: 0, rejected: 0 };
+  if (notifications.length === 0) return result;
+
+  const subscriptionIds = [...new Set(notifications.map(n => n.subscriptionId))];
+  const { data: accounts, error } = await supabase
+    .from('email_accounts')
+    .select('id, outlook_subscription_id, outlook_subscription_client_state, connection_status, last_synced, next_sync_at')
+    .in('outlook_subscription_id', subscriptionIds);
+
+  if (error) {
+    throw new Error(`Failed to look up accounts for notifications: ${error.message}`);
+  }
+
+  const accountsBySubscription = new Map((accounts || []).map(a => [a.outlook_subscription_id, a]));
+  const syncAt = new Date(Date.now() + NOTIFICATION_SYNC_DELAY_SECONDS * 1000);
+  const handled = new Set<string>();
+
+  for (const notification of notifications) {
+    const account = accountsBySubscription.get(notification.subscriptionId);
+    if (!account || !clientStateMatches(notification.clientState, account.outlook_subscription_client_state)) {
+      result.rejected++;
+      continue;
+    }
+
+    if (notification.lifecycleEvent === 'subscriptionRemoved' || notification.lifecycleEvent === 'reauthorizationRequired') {
+      // The worker recreates/reauthorizes it on its next tick
+      await supabase
+        .from('email_accounts')
+        .update({
+          outlook_subscription_id: notification.lifecycleEvent === 'subscriptionRemoved' ? null : account.outlook_subscription_id,
+          outlook_subscription_expiration: null
+        })
+        .eq('id', account.id);
+    }
+
+    // One update per account per request, however many notifications it got
+    if (handled.has(account.id)) continue;
+    handled.add(account.id);
+
+    if (account.connection_status !== 'connected' || !account.last_synced) continue;
+    // Already due sooner - nothing to do
+    if (account.next_sync_at && new Date(account.next_sync_at).getTime() <= syncAt.getTime()) continue;
+
+    await supabase
+      .from('email_accounts')
+      .update({ next_sync_at: syncAt.toISOString() })
+      .eq('id', account.id);
+    result.queued++;
+  }
+
+  return result;
+}
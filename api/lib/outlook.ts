@@ -12,6 +12,7 @@ import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
 import { createClient } from '@supabase/supabase-js';
 import { requireEnv } from './env.js';
+import { registerQuotaMailbox } from './provider-quota.js';
 
 const supabase = createClient(
   process.env.VITE_SUPABASE_URL!,
@@ -307,8 +308,10 @@ export async function getValidOutlookAccessToken(
 
   // If token is still valid (with 5 minute buffer)
   if (tokenExpiry.getTime() > now.getTime() + 5 * 60 * 1000) {
+    const accessToken = decryptToken(tokenData.access_token_encrypted);
+    registerQuotaMailbox(accessToken, tokenData.id);
     return {
-      accessToken: decryptToken(tokenData.access_token_encrypted),
+      accessToken,
       tokenId: tokenData.id
     };
   }
@@ -331,6 +334,7 @@ export async function getValidOutlookAccessToken(
     })
     .eq('id', tokenData.id);
 
+  registerQuotaMailbox(newTokens.access_token, tokenData.id);
   return {
     accessToken: newTokens.access_token,
     tokenId: tokenData.id
@@ -0,0 +1,319 @@
+/**
+ * Live Progress
+ *
+ * Structured progress events for syncs and long-running cleanup actions,
+ * streamed to the client by GET /api/progress/stream (api/progress/stream.ts).
+ *
+ * - Sync progress is derived from what the sync already records: the
+ *   account's sync_progress_* columns and its latest sync job
+ * - Cleanup actions record progress in the operation_progress table under
+ *   a client-generated operation ID, so the stream works whichever server
+ *   process handles the cleanup request
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { getLatestSyncJob, SyncJob } from './sync-jobs.js';
+
+const supabase = createClient(
+  process.env.VITE_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+// Finished operation rows are kept this long, then pruned by the worker
+const OPERATION_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+const OPERATION_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export type OperationType = 'delete' | 'archive' | 'delete_older_than';
+export type ProgressStatus = 'running' | 'completed' | 'failed' | 'idle';
+
+export interface ProgressError {
+  senderEmail?: string;
+  message: string;
+}
+
+/**
+ * The event payload sent to the client (stream `data:` and the polling fallback)
+ */
+export interface ProgressEvent {
+  operationId: string | null;
+  type: 'sync' | OperationType;
+  status: ProgressStatus;
+  phase: string;
+  processed: number;
+  total: number | null;
+  currentSender: string | null;
+  errors: ProgressError[];
+  summary: Record<string, unknown> | null;
+  updatedAt: string | null;
+}
+
+export interface OperationProgress {
+  id: string;
+  user_id: string;
+  email_account_id: string;
+  operation_type: OperationType;
+  status: 'running' | 'completed' | 'failed';
+  phase: string;
+  processed_count: number;
+  total_count: number | null;
+  current_sender: string | null;
+  errors: ProgressError[];
+  summary: Record<string, unknown> | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SyncProgressAccount {
+  id: string;
+  sync_progress_total: number | null;
+  sync_progress_current: number | null;
+  total_emails?: number | null;
+  last_synced?: string | null;
+}
+
+export function isValidOperationId(operationId: unknown): operationId is string {
+  return typeof operationId === 'string' && OPERATION_ID_PATTERN.test(operationId);
+}
+
+export function toOperationProgressEvent(operation: OperationProgress): ProgressEvent {
+  return {
+    operationId: operation.id,
+    type: operation.operation_type,
+    status: operation.status,
+    phase: operation.phase,
+    processed: operation.processed_count,
+    total: operation.total_count,
+    currentSender: operation.current_sender,
+    errors: operation.errors || [],
+    summary: operation.summary,
+    updatedAt: operation.updated_at,
+  };
+}
+
+/**
+ * Sync progress for an account. A running job's checkpoints take precedence
+ * over the sync_progress_* columns (which incremental/Outlook/IMAP syncs use).
+ */
+export function toSyncProgressEvent(account: SyncProgressAccount, job: SyncJob | null): ProgressEvent {
+  const errors: ProgressError[] = job?.error ? [{ message: job.error }] : [];
+
+  if (job?.status === 'running') {
+    const total = job.progress_total;
+    return {
+      operationId: job.id,
+      type: 'sync',
+      status: 'running',
+      phase: job.phase,
+      processed: total !== null ? Math.min(job.processed_count, total) : job.processed_count,
+      total,
+      currentSender: null,
+      errors,
+      summary: null,
+      updatedAt: job.updated_at,
+    };
+  }
+
+  if (account.sync_progress_total !== null) {
+    return {
+      operationId: null,
+      type: 'sync',
+      status: 'running',
+      phase: 'fetching',
+      processed: account.sync_progress_current || 0,
+      total: account.sync_progress_total,
+      currentSender: null,
+      errors: [],
+      summary: null,
+      updatedAt: null,
+    };
+  }
+
+  return {
+    operationId: job?.id ?? null,
+    type: 'sync',
+    status: job?.status === 'failed' ? 'failed' : 'idle',
+    phase: 'done',
+    processed: job?.processed_count ?? 0,
+    total: job?.progress_total ?? null,
+    currentSender: null,
+    errors,
+    summary: {
+      totalEmails: account.total_emails ?? null,
+      lastSynced: account.last_synced ?? null,
+    },
+    updatedAt: job?.completed_at ?? null,
+  };
+}
+
+/**
+ * Current sync progress for one of the user's accounts, or null if the account doesn't exist
+ */
+export async function getSyncProgressEvent(userId: string, accountEmail: string): Promise<ProgressEvent | null> {
+  const { data: accounts } = await supabase
+    .from('email_accounts')
+    .select('id, sync_progress_total, sync_progress_current, total_emails, last_synced')
+    .eq('user_id', userId)
+    .eq('email', accountEmail)
+    .limit(1);
+
+  const account = accounts?.[0] as SyncProgressAccount | undefined;
+  if (!account) return null;
+
+  const job = await getLatestSyncJob(account.id);
+  return toSyncProgressEvent(account, job);
+}
+
+/**
+ * Sync progress for an account by ID (caller has already checked ownership)
+ */
+export async function getAccountSyncProgressEvent(accountId: string): Promise<ProgressEvent | null> {
+  const { data: accounts } = await supabase
+    .from('email_accounts')
+    .select('id, sync_progress_total, sync_progress_current, total_emails, last_synced')
+    .eq('id', accountId)
+    .limit(1);
+
+  const account = accounts?.[0] as SyncProgressAccount | undefined;
+  if (!account) return null;
+
+  const job = await getLatestSyncJob(account.id);
+  return toSyncProgressEvent(account, job);
+}
+
+/**
+ * The account's most recently updated cleanup operation that is still running
+ */
+export async function getRunningOperationProgressEvent(accountId: string): Promise<ProgressEvent | null> {
+  const { data } = await supabase
+    .from('operation_progress')
+    .select('*')
+    .eq('email_account_id', accountId)
+    .eq('status', 'running')
+    .order('updated_at', { ascending: false })
+    .limit(1);
+
+  const operation = data?.[0] as OperationProgress | undefined;
+  return operation ? toOperationProgressEvent(operation) : null;
+}
+
+/**
+ * Current progress of one of the user's cleanup operations, or null if it hasn't started (yet)
+ */
+export async function getOperationProgressEvent(userId: string, operationId: string): Promise<ProgressEvent | null> {
+  const { data } = await supabase
+    .from('operation_progress')
+    .select('*')
+    .eq('id', operationId)
+    .eq('user_id', userId)
+    .limit(1);
+
+  const operation = data?.[0] as OperationProgress | undefined;
+  return operation ? toOperationProgressEvent(operation) : null;
+}
+
+/**
+ * Start recording progress for a cleanup action. Returns the operation ID to
+ * report against, or null when the client didn't ask for progress (all other
+ * progress calls are no-ops for a null ID). Progress is best-effort - a failed
+ * write never fails the cleanup itself.
+ */
+export async function startOperationProgress(
+  operationId: unknown,
+  userId: string,
+  accountId: string,
+  type: OperationType,
+  total: number | null
+): Promise<string | null> {
+  if (!isValidOperationId(operationId)) return null;
+
+  const { error } = await supabase
+    .from('operation_progress')
+    .insert({
+      id: operationId,
+      user_id: userId,
+      email_account_id: accountId,
+      operation_type: type,
+      status: 'running',
+      phase: 'starting',
+      total_count: total,
+    });
+
+  if (error) {
+    console.error('Failed to start operation progress:', error.message);
+    return null;
+  }
+  return operationId;
+}
+
+export async function updateOperationProgress(
+  operationId: string | null,
+  update: {
+    phase?: string;
+    processed?: number;
+    total?: number | null;
+    currentSender?: string | null;
+    errors?: ProgressError[];
+  }
+): Promise<void> {
+  if (!operationId) return;
+
+  const fields: Record<string, unknown> = { updated_at: new Date().toISOString() };
+  if (update.phase !== undefined) fields.phase = update.phase;
+  if (update.processed !== undefined) fields.processed_count = update.processed;
+  if (update.total !== undefined) fields.total_count = update.total;
+  if (update.currentSender !== undefined) fields.current_sender = update.currentSender;
+  if (update.errors !== undefined) fields.errors = update.errors;
+
+  const { error } = await supabase
+    .from('operation_progress')
+    .update(fields)
+    .eq('id', operationId);
+  if (error) console.error('Failed to update operation progress:', error.message);
+}
+
+/**
+ * Mark a cleanup action finished with its completion summary (or failure message)
+ */
+export async function finishOperationProgress(
+  operationId: string | null,
+  result: { summary: Record<string, unknown> } | { error: string },
+  errors?: ProgressError[]
+): Promise<void> {
+  if (!operationId) return;
+
+  const failed = 'error' in result;
+  const fields: Record<string, unknown> = {
+    status: failed ? 'failed' : 'completed',
+    phase: 'done',
+    current_sender: null,
+    summary: failed ? null : result.summary,
+    updated_at: new Date().toISOString(),
+  };
+  if (failed) {
+    fields.errors = [...(errors || []), { message: result.error }];
+  } else if (errors) {
+    fields.errors = errors;
+  }
+
+  const { error } = await supabase
+    .from('operation_progress')
+    .update(fields)
+    .eq('id', operationId);
+  if (error) console.error('Failed to finish operation progress:', error.message);
+}
+
+/**
+ * Delete operation progress rows older than the retention window. Returns the number removed.
+ */
+export async function pruneOperationProgress(): Promise<number> {
+  const cutoff = new Date(Date.now() - OPERATION_RETENTION_MS).toISOString();
+  const { data, error } = await supabase
+    .from('operation_progress')
+    .delete()
+    .lt('updated_at', cutoff)
+    .select('id');
+
+  if (error) throw new Error(`Failed to prune operation progress: ${error.message}`);
+  return data?.length || 0;
+}
@@ -0,0 +1,337 @@
+/**
+ * Provider Quota Manager
+ *
+ * Process-wide coordination of Gmail and Microsoft Graph API usage, shared by
+ * every request handler and worker task running in this server process.
+ *
+ * - Quota is budgeted per user (mailbox) and per app with token buckets.
+ *   Gmail calls cost quota units (messages.get = 5, batchModify = 50, ...);
+ *   Graph calls cost one unit per request (each $batch part counts)
+ * - Concurrency per user adapts: halved on a 429 / Retry-After, grown back
+ *   by one after a run of successful calls
+ * - Retry-After pauses every call for that user until it has passed
+ * - A per-mailbox circuit breaker opens after repeated 5xx/network failures
+ *   and rejects that mailbox's calls immediately with PROVIDER_UNAVAILABLE
+ *   until a probe call succeeds, so syncs and cleanups fail fast during
+ *   outages without one broken mailbox blocking everyone else
+ *
+ * Users are keyed by their mailbox: the OAuth token row that issued the access
+ * token (registerQuotaMailbox), so state survives the hourly token refresh.
+ * Tokens from anywhere else fall back to a hash of the token.
+ */
+
+import crypto from 'crypto';
+import type { VercelResponse } from '@vercel/node';
+
+export type QuotaProvider = 'gmail' | 'outlook';
+
+export const PROVIDER_UNAVAILABLE = 'PROVIDER_UNAVAILABLE';
+
+const PROVIDER_NAMES: Record<QuotaProvider, string> = {
+  gmail: 'Gmail',
+  outlook: 'Outlook',
+};
+
+// Gmail: 15,000 units per user per minute, 1.2M units per project per minute.
+// Graph: 10,000 requests per mailbox per 10 minutes, 4 concurrent requests per
+// mailbox, ~130,000 requests per app per 10 seconds.
+const LIMITS: Record<QuotaProvider, { userUnitsPerSecond: number; appUnitsPerSecond: number; maxConcurrency: number }> = {
+  gmail: { userUnitsPerSecond: 250, appUnitsPerSecond: 20000, maxConcurrency: 10 },
+  outlook: { userUnitsPerSecond: 16, appUnitsPerSecond: 13000, maxConcurrency: 4 },
+};
+
+const CIRCUIT = {
+  FAILURE_THRESHOLD: 5,       // Consecutive 5xx/network failures that open the circuit
+  OPEN_MS: 30 * 1000,         // Calls are rejected this long before a probe is let through
+};
+
+// Pause applied to a throttled user when the provider gives no Retry-After
+const DEFAULT_THROTTLE_PAUSE_MS = 1000;
+// Per-user state untouched this long is dropped
+const IDLE_STATE_MS = 10 * 60 * 1000;
+
+// Gmail quota unit costs (https://developers.google.com/gmail/api/reference/quota)
+const GMAIL_UNIT_COSTS: Array<[RegExp, number]> = [
+  [/^POST \/messages\/batch(Modify|Delete)$/, 50],
+  [/^POST \/messages\/send$/, 100],
+  [/^POST \/(watch|stop)$/, 100],
+  [/^DELETE \/messages\/[^/]+$/, 10],
+  [/^GET \/history$/, 2],
+  [/^GET \/(profile|labels)$/, 1],
+];
+const GMAIL_DEFAULT_UNITS = 5;
+
+interface TokenBucket {
+  tokens: number;
+  capacity: number;
+  ratePerMs: number;
+  updatedAt: number;
+}
+
+interface UserState {
+  bucket: TokenBucket;
+  circuit: CircuitState;
+  limit: number;
+  active: number;
+  waiters: Array<() => void>;
+  successStreak: number;
+  pausedUntil: number;
+  lastUsed: number;
+}
+
+interface CircuitState {
+  state: 'closed' | 'open' | 'half-open';
+  failures: number;
+  openedAt: number;
+  probeInFlight: boolean;
+}
+
+const users = new Map<string, UserState>();
+// Access token -> mailbox ID, registered where tokens are issued
+const mailboxes = new Map<string, { mailboxId: string; lastUsed: number }>();
+const appBuckets: Record<QuotaProvider, TokenBucket> = {
+  gmail: createBucket(LIMITS.gmail.appUnitsPerSecond),
+  outlook: createBucket(LIMITS.outlook.appUnitsPerSecond),
+};
+let lastSweep = Date.now();
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function createBucket(unitsPerSecond: number): TokenBucket {
+  return { tokens: unitsPerSecond, capacity: unitsPerSecond, ratePerMs: unitsPerSecond / 1000, updatedAt: Date.now() };
+}
+
+/**
+ * Take units from a bucket. Returns 0 when taken, otherwise the ms to wait before trying again.
+ */
+function takeTokens(bucket: TokenBucket, units: number, now: number = Date.now()): number {
+  bucket.tokens = Math.min(bucket.capacity, bucket.tokens + (now - bucket.updatedAt) * bucket.ratePerMs);
+  bucket.updatedAt = now;
+
+  // A single call larger than the bucket would never fit - let it through on a full bucket
+  const needed = Math.min(units, bucket.capacity);
+  if (bucket.tokens >= needed) {
+    bucket.tokens -= needed;
+    return 0;
+  }
+  return Math.ceil((needed - bucket.tokens) / bucket.ratePerMs);
+}
+
+/**
+ * Quota unit cost of a Gmail API call (endpoint relative to /users/me)
+ */
+export function gmailQuotaUnits(method: string, endpoint: string): number {
+  const call = `${method.toUpperCase()} ${endpoint.split('?')[0]}`;
+  return GMAIL_UNIT_COSTS.find(([pattern]) => pattern.test(call))?.[1] ?? GMAIL_DEFAULT_UNITS;
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into milliseconds
+ */
+export function parseRetryAfter(header: string | null, now: number = Date.now()): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+export function isProviderUnavailableError(error: any): boolean {
+  return error?.code === PROVIDER_UNAVAILABLE;
+}
+
+/**
+ * Respond 503 PROVIDER_UNAVAILABLE with a Retry-After header if the error is a
+ * provider outage (circuit open). Returns true when the response has been sent.
+ */
+export function respondProviderUnavailable(res: VercelResponse, error: any): boolean {
+  if (!isProviderUnavailableError(error)) return false;
+
+  const retryAfter = Math.ceil((error.retryAfterMs || 0) / 1000);
+  res.setHeader('Retry-After', String(retryAfter));
+  res.status(503).json({
+    error: error.message,
+    code: PROVIDER_UNAVAILABLE,
+    retryAfter
+  });
+  return true;
+}
+
+function providerUnavailableError(provider: QuotaProvider, retryAfterMs: number): Error {
+  const error: any = new Error(`${PROVIDER_NAMES[provider]} is temporarily unavailable. Please try again shortly.`);
+  error.code = PROVIDER_UNAVAILABLE;
+  error.provider = provider;
+  error.retryAfterMs = retryAfterMs;
+  return error;
+}
+
+/**
+ * Tie an access token to the mailbox it belongs to (e.g. its OAuth token row ID),
+ * so quota, throttling and circuit state carry over when the token is refreshed
+ */
+export function registerQuotaMailbox(accessToken: string, mailboxId: string): void {
+  mailboxes.set(accessToken, { mailboxId, lastUsed: Date.now() });
+}
+
+function getUserState(provider: QuotaProvider, accessToken: string, now: number): UserState {
+  // Drop idle users and tokens now and then so the maps don't grow forever
+  if (now - lastSweep > IDLE_STATE_MS) {
+    lastSweep = now;
+    for (const [key, state] of users) {
+      if (state.active === 0 && state.waiters.length === 0 && now - state.lastUsed > IDLE_STATE_MS) {
+        users.delete(key);
+      }
+    }
+    for (const [token, mailbox] of mailboxes) {
+      if (now - mailbox.lastUsed > IDLE_STATE_MS) mailboxes.delete(token);
+    }
+  }
+
+  const mailbox = mailboxes.get(accessToken);
+  if (mailbox) mailbox.lastUsed = now;
+  const key = `${provider}:${mailbox ? mailbox.mailboxId : crypto.createHash('sha256').update(accessToken).digest('hex').slice(0, 32)}`;
+  let state = users.get(key);
+  if (!state) {
+    state = {
+      bucket: createBucket(LIMITS[provider].userUnitsPerSecond),
+      circuit: { state: 'closed', failures: 0, openedAt: 0, probeInFlight: false },
+      limit: LIMITS[provider].maxConcurrency,
+      active: 0,
+      waiters: [],
+      successStreak: 0,
+      pausedUntil: 0,
+      lastUsed: now,
+    };
+    users.set(key, state);
+  }
+  state.lastUsed = now;
+  return state;
+}
+
+/**
+ * Reject immediately while the mailbox's circuit is open; let a single probe through once it has cooled down
+ */
+function checkCircuit(provider: QuotaProvider, user: UserState, now: number = Date.now()): void {
+  const { circuit } = user;
+
+  if (circuit.state === 'open') {
+    const remaining = CIRCUIT.OPEN_MS - (now - circuit.openedAt);
+    if (remaining > 0) throw providerUnavailableError(provider, remaining);
+    circuit.state = 'half-open';
+    circuit.probeInFlight = false;
+  }
+
+  if (circuit.state === 'half-open') {
+    if (circuit.probeInFlight) throw providerUnavailableError(provider, DEFAULT_THROTTLE_PAUSE_MS);
+    circuit.probeInFlight = true;
+  }
+}
+
+function recordProviderUp(user: UserState): void {
+  const { circuit } = user;
+  circuit.state = 'closed';
+  circuit.failures = 0;
+  circuit.probeInFlight = false;
+}
+
+function recordProviderDown(provider: QuotaProvider, user: UserState, now: number = Date.now()): void {
+  const { circuit } = user;
+  circuit.failures++;
+  circuit.probeInFlight = false;
+
+  if (circuit.state === 'half-open' || circuit.failures >= CIRCUIT.FAILURE_THRESHOLD) {
+    if (circuit.state !== 'open') {
+      console.warn(`${PROVIDER_NAMES[provider]} circuit opened for a mailbox after ${circuit.failures} failures`);
+    }
+    circuit.state = 'open';
+    circuit.openedAt = now;
+  }
+}
+
+async function acquire(provider: QuotaProvider, user: UserState, units: number): Promise<void> {
+  // Concurrency slot - a releasing call hands its slot straight to the next waiter
+  if (user.active >= user.limit) {
+    await new Promise<void>(resolve => user.waiters.push(resolve));
+  } else {
+    user.active++;
+  }
+
+  let wait: number;
+  while ((wait = user.pausedUntil - Date.now()) > 0) await sleep(wait);
+  while ((wait = takeTokens(user.bucket, units)) > 0) await sleep(wait);
+  while ((wait = takeTokens(appBuckets[provider], units)) > 0) await sleep(wait);
+}
+
+function release(user: UserState): void {
+  // Only hand the slot on while under the (possibly just lowered) limit
+  if (user.waiters.length > 0 && user.active <= user.limit) {
+    user.waiters.shift()!();
+  } else {
+    user.active--;
+  }
+}
+
+/**
+ * Adjust a user's concurrency and pause after a response
+ */
+function recordUserOutcome(provider: QuotaProvider, user: UserState, throttled: boolean, retryAfterMs: number | null): void {
+  if (throttled) {
+    user.limit = Math.max(1, Math.floor(user.limit / 2));
+    user.successStreak = 0;
+    user.pausedUntil = Math.max(user.pausedUntil, Date.now() + (retryAfterMs ?? DEFAULT_THROTTLE_PAUSE_MS));
+    return;
+  }
+
+  user.successStreak++;
+  if (user.successStreak >= user.limit && user.limit < LIMITS[provider].maxConcurrency) {
+    user.limit++;
+    user.successStreak = 0;
+  }
+}
+
+/**
+ * fetch() for provider API calls: waits for quota, concurrency and any
+ * Retry-After pause, records the outcome, and throws PROVIDER_UNAVAILABLE
+ * without calling the provider while its circuit is open.
+ * Retrying a throttled call is left to the caller.
+ */
+export async function quotaFetch(
+  provider: QuotaProvider,
+  accessToken: string,
+  units: number,
+  url: string,
+  init: RequestInit
+): Promise<Response> {
+  const user = getUserState(provider, accessToken, Date.now());
+  checkCircuit(provider, user);
+  await acquire(provider, user, units);
+
+  try {
+    let response: Response;
+    try {
+      response = await fetch(url, init);
+    } catch (error) {
+      recordProviderDown(provider, user);
+      throw error;
+    }
+
+    const retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'));
+    // Gmail reports per-user rate limits as 403 rateLimitExceeded
+    const throttled = response.status === 429
+      || (response.status === 503 && retryAfterMs !== null)
+      || (response.status === 403 && /rateLimitExceeded|quotaExceeded/i.test(await response.clone().text()));
+
+    if (response.status >= 500 && !throttled) {
+      recordProviderDown(provider, user);
+    } else {
+      recordProviderUp(user);
+    }
+    recordUserOutcome(provider, user, throttled, retryAfterMs);
+
+    return response;
+  } finally {
+    release(user);
+  }
+}
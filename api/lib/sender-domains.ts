@@ -0,0 +1,133 @@
+/**
+ * Sender Domain Rollups
+ *
+ * email_senders rows are keyed on sender_email + sender_name, so one company
+ * shows up as many rows (shipment-tracking@, store-news@, marketplace@ across
+ * subdomains). These helpers group senders by registrable domain - the part a
+ * company actually registers, found with the Public Suffix List (tldts), so
+ * "ship.amazon.co.uk" and "amazon.co.uk" roll up together but "github.io"
+ * style shared suffixes are never mistaken for one owner.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { getDomain } from 'tldts';
+
+const supabase = createClient(
+  process.env.VITE_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+export interface DomainSenderRow {
+  sender_email: string;
+  sender_name: string;
+  email_count: number;
+  unread_count: number;
+  first_email_date: string;
+  last_email_date: string;
+}
+
+export interface DomainRollup {
+  domain: string;
+  senderCount: number;
+  emailCount: number;
+  unreadCount: number;
+  firstEmailDate: string;
+  lastEmailDate: string;
+  // Distinct hostnames seen under the domain (e.g. "amazon.com", "marketplace.amazon.com")
+  hosts: string[];
+  senders: { email: string; name: string; emailCount: number }[];
+}
+
+/**
+ * Registrable domain of a sender address ("news@ship.amazon.co.uk" -> "amazon.co.uk").
+ * Falls back to the bare hostname when there is no public suffix (IPs, "localhost").
+ */
+export function getRegistrableDomain(senderEmail: string): string {
+  const host = (senderEmail.split('@').pop() || '').trim().toLowerCase().replace(/\.$/, '');
+  return getDomain(host, { allowPrivateDomains: true }) || host;
+}
+
+/**
+ * Normalize a user-supplied domain ("@News.Amazon.com" -> "amazon.com").
+ * Returns null when it isn't a domain.
+ */
+export function normalizeDomain(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const host = value.trim().toLowerCase().replace(/^@/, '');
+  if (!/^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(host)) return null;
+  return getDomain(host, { allowPrivateDomains: true });
+}
+
+/**
+ * Group sender rows by registrable domain, largest domains first
+ */
+export function rollupSendersByDomain(rows: DomainSenderRow[]): DomainRollup[] {
+  const rollups = new Map<string, DomainRollup>();
+
+  for (const row of rows) {
+    const domain = getRegistrableDomain(row.sender_email);
+    const host = row.sender_email.split('@').pop()!.toLowerCase();
+
+    let rollup = rollups.get(domain);
+    if (!rollup) {
+      rollup = {
+        domain,
+        senderCount: 0,
+        emailCount: 0,
+        unreadCount: 0,
+        firstEmailDate: row.first_email_date,
+        lastEmailDate: row.last_email_date,
+        hosts: [],
+        senders: [],
+      };
+      rollups.set(domain, rollup);
+    }
+
+    rollup.senderCount++;
+    rollup.emailCount += row.email_count || 0;
+    rollup.unreadCount += row.unread_count || 0;
+    if (row.first_email_date < rollup.firstEmailDate) rollup.firstEmailDate = row.first_email_date;
+    if (row.last_email_date > rollup.lastEmailDate) rollup.lastEmailDate = row.last_email_date;
+    if (!rollup.hosts.includes(host)) rollup.hosts.push(host);
+    rollup.senders.push({ email: row.sender_email, name: row.sender_name, emailCount: row.email_count || 0 });
+  }
+
+  const result = [...rollups.values()];
+  for (const rollup of result) {
+    rollup.senders.sort((a, b) => b.emailCount - a.emailCount);
+    rollup.hosts.sort();
+  }
+  return result.sort((a, b) => b.emailCount - a.emailCount || a.domain.localeCompare(b.domain));
+}
+
+/**
+ * Load an account's sender rows, optionally only those under one registrable domain.
+ * Paginated to handle the Supabase 1000-row limit.
+ */
+export async function loadSenderRows(accountId: string, domain?: string): Promise<DomainSenderRow[]> {
+  const rows: DomainSenderRow[] = [];
+
+  for (let page = 0; ; page++) {
+    let query = supabase
+      .from('email_senders')
+      .select('sender_email, sender_name, email_count, unread_count, first_email_date, last_email_date')
+      .eq('email_account_id', accountId);
+
+    // Narrow in SQL to the domain and its subdomains; the exact PSL check happens below
+    if (domain) {
+      const escaped = domain.replace(/[%_\\]/g, '\\$&');
+      query = query.or(`sender_email.ilike.%@${escaped},sender_email.ilike.%.${escaped}`);
+    }
+
+    const { data, error } = await query
+      .order('sender_email', { ascending: true })
+      .order('sender_name', { ascending: true })
+      .range(page * 1000, (page + 1) * 1000 - 1);
+
+    if (error) throw new Error(`Failed to load senders: ${error.message}`);
+    rows.push(...((data || []) as DomainSenderRow[]));
+    if (!data || data.length < 1000) break;
+  }
+
+  return domain ? rows.filter(r => getRegistrableDomain(r.sender_email) === domain) : rows;
+}
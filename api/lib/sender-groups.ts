@@ -0,0 +1,469 @@
+/**
+ * Sender Groups (persistent merge/split of sender identities)
+ *
+ * email_senders has one row per sender_email + sender_name, so one logical
+ * sender can show up as several rows ("Acme" and "Acme Deals" at news@acme.com,
+ * or orders@ and news@ of the same shop), while a shared address such as
+ * no-reply@ can carry several unrelated senders. A sender group lets the user
+ * fix both:
+ *
+ * - merge: fold several name+email senders into one. A member with a null name
+ *   takes every display name of its address, including ones seen in later syncs.
+ * - split: take members back out of a group. Splitting one display name off an
+ *   address-wide member records it in the group's `excluded` list.
+ *
+ * Groups are stored in sender_groups keyed by sender_email/sender_name rather
+ * than on email_senders rows, so they survive rebuildSendersFromEmails and
+ * batchRecalculateSenderStats deleting and re-inserting those rows. The senders
+ * endpoint folds each group into one logical sender at read time.
+ */
+
+import type { VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+
+const supabase = createClient(
+  process.env.VITE_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+export const MAX_GROUP_MEMBERS = 50;
+// Most merged senders one cleanup request can name in groupIds
+export const MAX_REQUEST_GROUPS = 10;
+
+export interface SenderGroupMember {
+  email: string;
+  // null = every display name of the address
+  name: string | null;
+}
+
+export interface SenderGroup {
+  id: string;
+  user_id: string;
+  email_account_id: string;
+  name: string | null;
+  members: SenderGroupMember[];
+  excluded: { email: string; name: string }[];
+  created_at?: string;
+  updated_at?: string;
+}
+
+// A name+email sender a cleanup acts on (null name = every name of the address)
+export interface CleanupTarget {
+  email: string;
+  name: string | null;
+}
+
+export interface MergeInput {
+  accountEmail: string;
+  // Add to this group instead of creating a new one
+  groupId: string | null;
+  name: string | null;
+  members: SenderGroupMember[];
+}
+
+export interface SplitInput {
+  accountEmail: string;
+  groupId: string;
+  // Members to take out of the group; empty splits the whole group apart
+  members: SenderGroupMember[];
+}
+
+function parseMembers(value: unknown): { members?: SenderGroupMember[]; error?: string } {
+  if (!Array.isArray(value)) {
+    return { error: 'members must be an array' };
+  }
+  if (value.length > MAX_GROUP_MEMBERS) {
+    return { error: `A group can have at most ${MAX_GROUP_MEMBERS} members` };
+  }
+
+  const members: SenderGroupMember[] = [];
+  for (const m of value) {
+    const email = typeof m?.senderEmail === 'string' ? m.senderEmail.trim().toLowerCase() : '';
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email) || email.length > 255) {
+      return { error: 'Each member needs a valid senderEmail' };
+    }
+    if (m.senderName !== undefined && m.senderName !== null && typeof m.senderName !== 'string') {
+      return { error: 'senderName must be a string' };
+    }
+    const name = typeof m.senderName === 'string' ? m.senderName : null;
+    if (!members.some(x => x.email === email && x.name === name)) {
+      members.push({ email, name });
+    }
+  }
+
+  return { members };
+}
+
+/**
+ * Validate a merge request body.
+ * Returns either the normalized fields or a client-facing error.
+ */
+export function validateMergeInput(body: any): { input?: MergeInput; error?: string } {
+  const accountEmail = typeof body?.accountEmail === 'string' ? body.accountEmail : '';
+  if (!accountEmail) {
+    return { error: 'accountEmail is required' };
+  }
+
+  const groupId = typeof body.groupId === 'string' && body.groupId ? body.groupId : null;
+
+  const { members, error } = parseMembers(body.members);
+  if (!members) return { error };
+  if (members.length === 0) {
+    return { error: 'members must not be empty' };
+  }
+  // One name+email sender on its own is already a single sender
+  if (!groupId && members.length === 1 && members[0].name !== null) {
+    return { error: 'Merging needs at least two senders, or a senderEmail without senderName' };
+  }
+
+  let name: string | null = null;
+  if (body.name !== undefined && body.name !== null) {
+    if (typeof body.name !== 'string' || body.name.trim().length > 255) {
+      return { error: 'name must be a string of at most 255 characters' };
+    }
+    name = body.name.trim() || null;
+  }
+
+  return { input: { accountEmail, groupId, name, members } };
+}
+
+/**
+ * Validate a split request body.
+ * Returns either the normalized fields or a client-facing error.
+ */
+export function validateSplitInput(body: any): { input?: SplitInput; error?: string } {
+  const accountEmail = typeof body?.accountEmail === 'string' ? body.accountEmail : '';
+  if (!accountEmail) {
+    return { error: 'accountEmail is required' };
+  }
+
+  const groupId = typeof body.groupId === 'string' ? body.groupId : '';
+  if (!groupId) {
+    return { error: 'groupId is required' };
+  }
+
+  const { members, error } = parseMembers(body.members ?? []);
+  if (!members) return { error };
+
+  return { input: { accountEmail, groupId, members } };
+}
+
+/**
+ * Find the group a name+email sender belongs to.
+ * An exact name+email member wins over an address-wide one; excluded
+ * display names never match the address-wide member.
+ */
+export function findSenderGroup<G extends Pick<SenderGroup, 'members' | 'excluded'>>(
+  groups: G[],
+  email: string,
+  name: string
+): G | null {
+  const exact = groups.find(g => g.members.some(m => m.email === email && m.name === name));
+  if (exact) return exact;
+
+  return groups.find(g =>
+    g.members.some(m => m.email === email && m.name === null) &&
+    !g.excluded.some(x => x.email === email && x.name === name)
+  ) || null;
+}
+
+/**
+ * Take members out of a group. Returns the group's remaining members and
+ * exclusions; a group left with nothing to merge should be deleted.
+ */
+export function splitGroupMembers(
+  group: Pick<SenderGroup, 'members' | 'excluded'>,
+  split: SenderGroupMember[]
+): { members: SenderGroupMember[]; excluded: { email: string; name: string }[]; dissolved: boolean } {
+  let members = [...group.members];
+  let excluded = [...group.excluded];
+
+  for (const s of split) {
+    if (s.name === null) {
+      // The whole address leaves the group
+      members = members.filter(m => m.email !== s.email);
+      excluded = excluded.filter(x => x.email !== s.email);
+    } else if (members.some(m => m.email === s.email && m.name === s.name)) {
+      members = members.filter(m => !(m.email === s.email && m.name === s.name));
+    } else if (
+      members.some(m => m.email === s.email && m.name === null) &&
+      !excluded.some(x => x.email === s.email && x.name === s.name)
+    ) {
+      // One display name of a shared address leaves, the rest stay merged
+      excluded.push({ email: s.email, name: s.name });
+    }
+  }
+
+  const dissolved = split.length === 0 ||
+    members.length === 0 ||
+    (members.length === 1 && members[0].name !== null);
+
+  return { members, excluded, dissolved };
+}
+
+/**
+ * Drop the given members from a group's member list, keeping address-wide
+ * members that only lose exact names (used when another group claims them)
+ */
+function withoutClaimed(group: SenderGroup, claimed: SenderGroupMember[]): SenderGroupMember[] {
+  return group.members.filter(m => !claimed.some(c =>
+    c.email === m.email && (c.name === null || c.name === m.name)
+  ));
+}
+
+/**
+ * List an account's sender groups, oldest first
+ */
+export async function listSenderGroups(accountId: string): Promise<SenderGroup[]> {
+  const { data, error } = await supabase
+    .from('sender_groups')
+    .select('*')
+    .eq('email_account_id', accountId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return (data || []) as SenderGroup[];
+}
+
+/**
+ * List the sender groups of all of a user's accounts
+ */
+export async function listUserSenderGroups(userId: string): Promise<SenderGroup[]> {
+  const { data, error } = await supabase
+    .from('sender_groups')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return (data || []) as SenderGroup[];
+}
+
+/**
+ * Merge senders into a new group, or into `input.groupId`.
+ * A sender can only be in one group, so the members are taken out of any
+ * other group first.
+ */
+export async function mergeSenders(
+  userId: string,
+  accountId: string,
+  input: MergeInput
+): Promise<{ group?: SenderGroup; error?: 'GROUP_NOT_FOUND' | 'TOO_MANY_MEMBERS' }> {
+  const groups = await listSenderGroups(accountId);
+
+  const target = input.groupId ? groups.find(g => g.id === input.groupId) : null;
+  if (input.groupId && !target) return { error: 'GROUP_NOT_FOUND' };
+
+  const targetMembers = target ? [...withoutClaimed(target, input.members), ...input.members] : input.members;
+  if (targetMembers.length > MAX_GROUP_MEMBERS) return { error: 'TOO_MANY_MEMBERS' };
+
+  const now = new Date().toISOString();
+
+  for (const group of groups) {
+    if (group.id === target?.id) continue;
+    const remaining = withoutClaimed(group, input.members);
+    if (remaining.length === group.members.length) continue;
+
+    const dissolved = remaining.length === 0 || (remaining.length === 1 && remaining[0].name !== null);
+    const { error } = dissolved
+      ? await supabase.from('sender_groups').delete().eq('id', group.id)
+      : await supabase.from('sender_groups').update({ members: remaining, updated_at: now }).eq('id', group.id);
+    if (error) throw error;
+  }
+
+  if (target) {
+    // Re-merging an excluded display name brings it back
+    const excluded = target.excluded.filter(x => !input.members.some(m => m.email === x.email));
+
+    const { data, error } = await supabase
+      .from('sender_groups')
+      .update({ members: targetMembers, excluded, name: input.name ?? target.name, updated_at: now })
+      .eq('id', target.id)
+      .select('*')
+      .single();
+    if (error) throw error;
+    return { group: data as SenderGroup };
+  }
+
+  const { data, error } = await supabase
+    .from('sender_groups')
+    .insert({
+      user_id: userId,
+      email_account_id: accountId,
+      name: input.name,
+      members: input.members,
+      excluded: [],
+    })
+    .select('*')
+    .single();
+  if (error) throw error;
+  return { group: data as SenderGroup };
+}
+
+/**
+ * Split members out of a group, deleting it once nothing is left to merge.
+ * Returns the updated group (null when dissolved), or undefined when the
+ * group doesn't exist on the account.
+ */
+export async function splitSenderGroup(
+  accountId: string,
+  input: SplitInput
+): Promise<SenderGroup | null | undefined> {
+  const { data: group } = await supabase
+    .from('sender_groups')
+    .select('*')
+    .eq('id', input.groupId)
+    .eq('email_account_id', accountId)
+    .single();
+
+  if (!group) return undefined;
+
+  const { members, excluded, dissolved } = splitGroupMembers(group as SenderGroup, input.members);
+
+  if (dissolved) {
+    const { error } = await supabase.from('sender_groups').delete().eq('id', group.id);
+    if (error) throw error;
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from('sender_groups')
+    .update({ members, excluded, updated_at: new Date().toISOString() })
+    .eq('id', group.id)
+    .select('*')
+    .single();
+  if (error) throw error;
+  return data as SenderGroup;
+}
+
+/**
+ * Read a cleanup request's merged senders: `groupIds`, or a single `groupId`
+ */
+export function parseGroupIds(body: any, maxGroups: number = MAX_REQUEST_GROUPS): { groupIds?: string[]; error?: string } {
+  const raw = body?.groupIds ?? (body?.groupId !== undefined && body?.groupId !== null ? [body.groupId] : []);
+  if (!Array.isArray(raw) || raw.some((id: unknown) => typeof id !== 'string' || !id)) {
+    return { error: 'groupIds must be a list of sender group IDs' };
+  }
+  if (raw.length > maxGroups) {
+    return { error: `At most ${maxGroups} merged senders can be cleaned up at once` };
+  }
+  return { groupIds: [...new Set(raw as string[])] };
+}
+
+/**
+ * A request's senderEmails with their optional, length-matched senderNames
+ */
+export function toCleanupTargets(senderEmails: unknown, senderNames: unknown): CleanupTarget[] {
+  if (!Array.isArray(senderEmails)) return [];
+  const hasSenderNames = Array.isArray(senderNames) && senderNames.length === senderEmails.length;
+  return senderEmails.map((email: string, i: number) => ({
+    email,
+    name: hasSenderNames && typeof senderNames[i] === 'string' && senderNames[i] ? senderNames[i] : null,
+  }));
+}
+
+/**
+ * The name+email senders that make up a group, out of the account's
+ * email_senders rows - the same matching the senders endpoint folds by
+ */
+export function resolveGroupTargets(
+  groups: Pick<SenderGroup, 'id' | 'members' | 'excluded'>[],
+  groupId: string,
+  rows: { sender_email: string; sender_name: string }[]
+): CleanupTarget[] {
+  return rows
+    .filter(r => findSenderGroup(groups, r.sender_email, r.sender_name)?.id === groupId)
+    .map(r => ({ email: r.sender_email, name: r.sender_name }));
+}
+
+/**
+ * Explicit targets plus group members, without duplicates. A target without a
+ * name already covers every name of its address.
+ */
+export function mergeCleanupTargets(explicit: CleanupTarget[], fromGroups: CleanupTarget[]): CleanupTarget[] {
+  const addressWide = new Set(explicit.filter(t => t.name === null).map(t => t.email));
+  const seen = new Set<string>();
+  const merged: CleanupTarget[] = [];
+
+  for (const target of [...explicit, ...fromGroups]) {
+    if (target.name !== null && addressWide.has(target.email)) continue;
+    const key = `${target.email}|||${target.name ?? ''}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    merged.push(target);
+  }
+
+  return merged;
+}
+
+/**
+ * The current name+email members of the given groups. Returns null if a
+ * group isn't on the account.
+ */
+export async function expandSenderGroupTargets(accountId: string, groupIds: string[]): Promise<CleanupTarget[] | null> {
+  if (groupIds.length === 0) return [];
+
+  const groups = await listSenderGroups(accountId);
+  const requested = groups.filter(g => groupIds.includes(g.id));
+  if (requested.length !== groupIds.length) return null;
+
+  const addresses = [...new Set(requested.flatMap(g => g.members.map(m => m.email)))];
+  const rows: { sender_email: string; sender_name: string }[] = [];
+  for (let i = 0; i < addresses.length; i += 100) {
+    for (let page = 0; ; page++) {
+      const { data, error } = await supabase
+        .from('email_senders')
+        .select('sender_email, sender_name')
+        .eq('email_account_id', accountId)
+        .in('sender_email', addresses.slice(i, i + 100))
+        .range(page * 1000, (page + 1) * 1000 - 1);
+
+      if (error) throw error;
+      rows.push(...(data || []));
+      if (!data || data.length < 1000) break;
+    }
+  }
+
+  return groupIds.flatMap(id => resolveGroupTargets(groups, id, rows));
+}
+
+/**
+ * Resolve a cleanup request's senders: its explicit targets plus the members
+ * of its groups. Responds 404 SENDER_GROUP_NOT_FOUND, 400 MISSING_SENDER_EMAILS
+ * when nothing is left, or 400 TOO_MANY_SENDERS when the expanded list is over
+ * maxTargets, and returns null.
+ */
+export async function resolveCleanupTargetsOrRespond(
+  res: VercelResponse,
+  accountId: string,
+  explicit: CleanupTarget[],
+  groupIds: string[],
+  limit: { maxTargets: number; message: string }
+): Promise<CleanupTarget[] | null> {
+  const fromGroups = await expandSenderGroupTargets(accountId, groupIds);
+  if (!fromGroups) {
+    res.status(404).json({
+      error: 'Merged sender not found',
+      code: 'SENDER_GROUP_NOT_FOUND'
+    });
+    return null;
+  }
+
+  const targets = mergeCleanupTargets(explicit, fromGroups);
+  if (targets.length === 0) {
+    res.status(400).json({
+      error: 'At least one sender email is required',
+      code: 'MISSING_SENDER_EMAILS'
+    });
+    return null;
+  }
+  if (targets.length > limit.maxTargets) {
+    res.status(400).json({
+      error: limit.message,
+      code: 'TOO_MANY_SENDERS'
+    });
+    return null;
+  }
+
+  return targets;
+}
@@ -0,0 +1,159 @@
+/**
+ * Sender Rule Sweeps
+ *
+ * The sync pipeline only applies rules to senders with newly synced mail, so a
+ * rule like "archive anything from X after 7 days" would never fire for mail
+ * that simply got older. The background worker sweeps each account with
+ * enabled rules every RULE_SWEEP_INTERVAL_MS instead, over every sender the
+ * rules match, under the account lock.
+ *
+ * Kept apart from sender-rules.ts because the sync engines import that module
+ * and this one needs the providers (which import the sync engines).
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { getMailProvider } from '../providers/index.js';
+import type { MailProvider } from './mail-provider.js';
+import { applySenderRules, selectRuleSenderKeys, SenderRule } from './sender-rules.js';
+import { isUserPaid } from './free-trial.js';
+import { acquireAccountLock, releaseAccountLock } from './account-lock.js';
+import { getActiveSyncJob } from './sync-jobs.js';
+
+const supabase = createClient(
+  process.env.VITE_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+export const RULE_SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+// Accounts swept per worker tick - the rest are picked up on the next tick
+const MAX_ACCOUNTS_PER_TICK = 10;
+
+export interface RuleSweepResult {
+  accountId: string;
+  // busy: locked by a sync or cleanup - retried on the next tick
+  status: 'completed' | 'skipped' | 'busy' | 'failed';
+  count: number;
+  message?: string;
+}
+
+/**
+ * Mark the account's due rules as swept. Returns the claimed rules - none if
+ * another worker got there first.
+ */
+async function claimDueRules(accountId: string, cutoff: string): Promise<SenderRule[]> {
+  const { data, error } = await supabase
+    .from('sender_rules')
+    .update({ last_swept_at: new Date().toISOString() })
+    .eq('email_account_id', accountId)
+    .eq('enabled', true)
+    .or(`last_swept_at.is.null,last_swept_at.lt.${cutoff}`)
+    .select('*');
+
+  if (error) {
+    console.error(`Failed to claim sender rules for account ${accountId}:`, error.message);
+    return [];
+  }
+  return (data || []) as SenderRule[];
+}
+
+/**
+ * The account's name+email senders (paginated past Supabase's 1000-row limit)
+ */
+async function loadAccountSenders(accountId: string): Promise<{ sender_email: string; sender_name: string }[]> {
+  const senders: { sender_email: string; sender_name: string }[] = [];
+  for (let page = 0; ; page++) {
+    const { data, error } = await supabase
+      .from('email_senders')
+      .select('sender_email, sender_name')
+      .eq('email_account_id', accountId)
+      .order('id', { ascending: true })
+      .range(page * 1000, (page + 1) * 1000 - 1);
+
+    if (error) throw new Error(`Failed to load senders: ${error.message}`);
+    senders.push(...(data || []));
+    if (!data || data.length < 1000) break;
+  }
+  return senders;
+}
+
+async function sweepAccount(accountId: string, userId: string, cutoff: string): Promise<RuleSweepResult> {
+  // Rules run unattended - paid plans only. Claim anyway so the account isn't rechecked every tick.
+  if (!(await isUserPaid(supabase, userId))) {
+    await claimDueRules(accountId, cutoff);
+    return { accountId, status: 'skipped', count: 0, message: 'Sender rules require a paid plan' };
+  }
+
+  // Never run alongside a sync or another cleanup of the same account
+  const lock = await acquireAccountLock(accountId, 'sender_rules');
+  if (!lock) return { accountId, status: 'busy', count: 0 };
+
+  try {
+    if (await getActiveSyncJob(accountId)) {
+      return { accountId, status: 'busy', count: 0 };
+    }
+
+    const rules = await claimDueRules(accountId, cutoff);
+    if (rules.length === 0) return { accountId, status: 'busy', count: 0 };
+
+    const { data: account } = await supabase
+      .from('email_accounts')
+      .select('id, email, gmail_email, provider, connection_status')
+      .eq('id', accountId)
+      .single();
+
+    if (!account || account.connection_status !== 'connected') {
+      return { accountId, status: 'skipped', count: 0, message: 'Email account is not connected' };
+    }
+
+    let provider: MailProvider;
+    try {
+      provider = await getMailProvider(userId, account);
+    } catch (tokenError: any) {
+      return { accountId, status: 'skipped', count: 0, message: tokenError.message };
+    }
+
+    const senderKeys = selectRuleSenderKeys(rules, await loadAccountSenders(accountId));
+    const { appliedCount } = await applySenderRules(accountId, senderKeys, new Map(), provider);
+    return { accountId, status: 'completed', count: appliedCount };
+  } finally {
+    await releaseAccountLock(lock);
+  }
+}
+
+/**
+ * One runner pass: apply the rules of accounts not swept in the last
+ * RULE_SWEEP_INTERVAL_MS to all of their matching senders (run from the worker)
+ */
+export async function runDueSenderRuleSweeps(): Promise<RuleSweepResult[]> {
+  const cutoff = new Date(Date.now() - RULE_SWEEP_INTERVAL_MS).toISOString();
+
+  const { data: due, error } = await supabase
+    .from('sender_rules')
+    .select('email_account_id, user_id')
+    .eq('enabled', true)
+    .or(`last_swept_at.is.null,last_swept_at.lt.${cutoff}`)
+    .order('last_swept_at', { ascending: true, nullsFirst: true })
+    .limit(MAX_ACCOUNTS_PER_TICK * 10);
+
+  if (error) {
+    console.error('Sender rules: failed to load due rules:', error.message);
+    return [];
+  }
+
+  const accounts = new Map<string, string>();
+  for (const rule of due || []) {
+    if (accounts.size >= MAX_ACCOUNTS_PER_TICK) break;
+    accounts.set(rule.email_account_id, rule.user_id);
+  }
+
+  const results: RuleSweepResult[] = [];
+  for (const [accountId, userId] of accounts) {
+    try {
+      results.push(await sweepAccount(accountId, userId, cutoff));
+    } catch (sweepError: any) {
+      // A failing account must never stop the others
+      results.push({ accountId, status: 'failed', count: 0, message: sweepError.message });
+    }
+  }
+  return results;
+}
@@ -0,0 +1,378 @@
+/**
+ * Sender Rules Engine
+ *
+ * Persistent per-account rules like "auto-archive anything from X after 7 days",
+ * "always trash promotions from this domain" or "keep only the latest 5".
+ *
+ * Rules are evaluated by the sync pipeline for every sender touched by newly
+ * synced mail, and swept by the background worker over every matching sender
+ * (sender-rule-sweeps.ts), so "after N days" rules fire as mail ages. Targets
+ * are picked from the local emails table, acted on via the provider API, and
+ * every application is logged to cleanup_actions/activity_log. Paid plans only.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import type { MailProvider } from './mail-provider.js';
+import { isUserPaid } from './free-trial.js';
+
+const supabase = createClient(
+  process.env.VITE_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+// Safety limit per rule per sync run - anything left over is picked up next sync
+const MAX_TARGETS_PER_RULE = 500;
+export const MAX_RULES_PER_USER = 50;
+
+export type RuleMatchType = 'sender' | 'domain';
+export type RuleCategory = 'any' | 'promotions' | 'newsletters';
+export type RuleAction = 'delete' | 'archive';
+
+export interface SenderRule {
+  id: string;
+  user_id: string;
+  email_account_id: string;
+  match_type: RuleMatchType;
+  match_value: string;
+  category: RuleCategory;
+  action: RuleAction;
+  older_than_days: number | null;
+  keep_latest: number | null;
+  enabled: boolean;
+  last_applied_at?: string | null;
+  last_swept_at?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface RuleCandidate {
+  gmail_message_id: string;
+  sender_email: string;
+  sender_name: string;
+  received_at: string;
+  labels: string[] | null;
+}
+
+export interface SenderFlags {
+  isNewsletter: boolean;
+  isPromotional: boolean;
+}
+
+/**
+ * Provider operations used to carry out rules and muted senders (the sync engines pass their MailProvider)
+ */
+export type RuleExecutor = Pick<MailProvider, 'trashMessages' | 'archiveMessages' | 'markMessagesRead' | 'keepsArchivedRows'>;
+
+/**
+ * Check whether a sender address matches a rule's sender/domain pattern.
+ * Domain rules also match subdomains (rule "example.com" matches "news.example.com").
+ */
+export function senderMatchesRule(
+  rule: Pick<SenderRule, 'match_type' | 'match_value'>,
+  senderEmail: string
+): boolean {
+  const email = senderEmail.toLowerCase();
+  const value = rule.match_value.toLowerCase();
+
+  if (rule.match_type === 'sender') {
+    return email === value;
+  }
+
+  const domain = email.split('@')[1] || '';
+  return domain === value || domain.endsWith(`.${value}`);
+}
+
+/**
+ * Check whether a sender's flags satisfy a rule's category filter
+ */
+export function categoryMatchesRule(
+  rule: Pick<SenderRule, 'category'>,
+  flags: SenderFlags | undefined
+): boolean {
+  if (rule.category === 'promotions') return !!flags?.isPromotional;
+  if (rule.category === 'newsletters') return !!flags?.isNewsletter;
+  return true;
+}
+
+/**
+ * Pick the message IDs a rule should act on from a sender's candidate emails.
+ *
+ * - keep_latest: everything except the newest N (still in the inbox) emails
+ * - older_than_days: only emails received before the cutoff
+ * - neither: every candidate (immediate rule)
+ * Both limits combine when set.
+ */
+export function selectRuleTargets(
+  rule: Pick<SenderRule, 'action' | 'older_than_days' | 'keep_latest'>,
+  candidates: RuleCandidate[],
+  keepsArchivedRows: boolean,
+  now: number = Date.now()
+): string[] {
+  let eligible = candidates;
+
+  // Gmail rows without INBOX are already archived - don't archive them again
+  if (rule.action === 'archive' && keepsArchivedRows) {
+    eligible = eligible.filter(e => !e.labels || e.labels.length === 0 || e.labels.includes('INBOX'));
+  }
+
+  eligible = [...eligible].sort((a, b) => b.received_at.localeCompare(a.received_at));
+
+  if (rule.keep_latest) {
+    eligible = eligible.slice(rule.keep_latest);
+  }
+
+  if (rule.older_than_days) {
+    const cutoff = new Date(now - rule.older_than_days * 24 * 60 * 60 * 1000).toISOString();
+    eligible = eligible.filter(e => e.received_at < cutoff);
+  }
+
+  return eligible.map(e => e.gmail_message_id);
+}
+
+/**
+ * `email|||name` keys of the senders any of the rules could act on - what a
+ * worker sweep hands to applySenderRules (categories are checked there)
+ */
+export function selectRuleSenderKeys(
+  rules: Pick<SenderRule, 'match_type' | 'match_value'>[],
+  senders: { sender_email: string; sender_name: string }[]
+): Set<string> {
+  return new Set(
+    senders
+      .filter(s => rules.some(rule => senderMatchesRule(rule, s.sender_email)))
+      .map(s => `${s.sender_email}|||${s.sender_name}`)
+  );
+}
+
+/**
+ * Validate and normalize rule fields from a request body.
+ * Returns either the normalized fields or a client-facing error.
+ */
+export function validateRuleInput(body: any): {
+  rule?: Pick<SenderRule, 'match_type' | 'match_value' | 'category' | 'action' | 'older_than_days' | 'keep_latest'>;
+  error?: string;
+} {
+  const matchType = body?.matchType;
+  if (matchType !== 'sender' && matchType !== 'domain') {
+    return { error: 'matchType must be "sender" or "domain"' };
+  }
+
+  const matchValue = typeof body.matchValue === 'string' ? body.matchValue.trim().toLowerCase().replace(/^@/, '') : '';
+  if (!matchValue || matchValue.length > 255) {
+    return { error: 'matchValue is required' };
+  }
+  if (matchType === 'sender' && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(matchValue)) {
+    return { error: 'matchValue must be a valid email address for sender rules' };
+  }
+  if (matchType === 'domain' && !/^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(matchValue)) {
+    return { error: 'matchValue must be a valid domain for domain rules' };
+  }
+
+  const category = body.category ?? 'any';
+  if (!['any', 'promotions', 'newsletters'].includes(category)) {
+    return { error: 'category must be "any", "promotions" or "newsletters"' };
+  }
+
+  const action = body.action;
+  if (action !== 'delete' && action !== 'archive') {
+    return { error: 'action must be "delete" or "archive"' };
+  }
+
+  const olderThanDays = body.olderThanDays ?? null;
+  if (olderThanDays !== null && (!Number.isInteger(olderThanDays) || olderThanDays < 1 || olderThanDays > 3650)) {
+    return { error: 'olderThanDays must be a whole number between 1 and 3650' };
+  }
+
+  const keepLatest = body.keepLatest ?? null;
+  if (keepLatest !== null && (!Number.isInteger(keepLatest) || keepLatest < 1 || keepLatest > 1000)) {
+    return { error: 'keepLatest must be a whole number between 1 and 1000' };
+  }
+
+  return {
+    rule: {
+      match_type: matchType,
+      match_value: matchValue,
+      category,
+      action,
+      older_than_days: olderThanDays,
+      keep_latest: keepLatest,
+    }
+  };
+}
+
+/**
+ * Human-readable summary used in activity/cleanup logs
+ */
+export function describeRule(rule: Pick<SenderRule, 'match_type' | 'match_value' | 'category' | 'action' | 'older_than_days' | 'keep_latest'>): string {
+  const verb = rule.action === 'delete' ? 'Delete' : 'Archive';
+  const what = rule.category === 'promotions' ? 'promotions' : rule.category === 'newsletters' ? 'newsletters' : 'mail';
+  const from = rule.match_type === 'domain' ? `@${rule.match_value}` : rule.match_value;
+  const conditions: string[] = [];
+  if (rule.older_than_days) conditions.push(`after ${rule.older_than_days} day${rule.older_than_days > 1 ? 's' : ''}`);
+  if (rule.keep_latest) conditions.push(`keeping the latest ${rule.keep_latest}`);
+  return `${verb} ${what} from ${from}${conditions.length > 0 ? ` ${conditions.join(', ')}` : ''}`;
+}
+
+/**
+ * Apply the account's enabled rules to the given senders.
+ *
+ * @param accountId - Email account being synced
+ * @param senderKeys - `email|||name` keys touched by this sync batch (or swept)
+ * @param batchFlags - Newsletter/promotional flags seen in this batch (merged with stored sender flags)
+ * @param executor - Provider operations (the account's MailProvider)
+ * @returns Number of emails acted on
+ */
+export async function applySenderRules(
+  accountId: string,
+  senderKeys: Set<string>,
+  batchFlags: Map<string, SenderFlags>,
+  executor: RuleExecutor
+): Promise<{ appliedCount: number }> {
+  if (senderKeys.size === 0) return { appliedCount: 0 };
+
+  const { data: rules, error: rulesError } = await supabase
+    .from('sender_rules')
+    .select('*')
+    .eq('email_account_id', accountId)
+    .eq('enabled', true);
+
+  if (rulesError || !rules || rules.length === 0) return { appliedCount: 0 };
+
+  // Rules run unattended - paid plans only
+  if (!(await isUserPaid(supabase, (rules as SenderRule[])[0].user_id))) return { appliedCount: 0 };
+
+  const senderEmails = [...new Set([...senderKeys].map(k => k.split('|||')[0]))];
+
+  // Merge batch flags with stored sender flags (flags may come from older mail)
+  const flags = new Map<string, SenderFlags>(batchFlags);
+  if ((rules as SenderRule[]).some(r => r.category !== 'any')) {
+    for (let i = 0; i < senderEmails.length; i += 100) {
+      const { data } = await supabase
+        .from('email_senders')
+        .select('sender_email, sender_name, is_newsletter, is_promotional')
+        .eq('email_account_id', accountId)
+        .in('sender_email', senderEmails.slice(i, i + 100));
+      for (const s of data || []) {
+        const key = `${s.sender_email}|||${s.sender_name}`;
+        const existing = flags.get(key);
+        flags.set(key, {
+          isNewsletter: !!s.is_newsletter || !!existing?.isNewsletter,
+          isPromotional: !!s.is_promotional || !!existing?.isPromotional,
+        });
+      }
+    }
+  }
+
+  let appliedCount = 0;
+
+  for (const rule of rules as SenderRule[]) {
+    const matchingKeys = new Set(
+      [...senderKeys].filter(key => {
+        const [senderEmail] = key.split('|||');
+        return senderMatchesRule(rule, senderEmail) && categoryMatchesRule(rule, flags.get(key));
+      })
+    );
+    if (matchingKeys.size === 0) continue;
+
+    try {
+      const matchingEmails = [...new Set([...matchingKeys].map(k => k.split('|||')[0]))];
+      let rowsQuery = supabase
+        .from('emails')
+        .select('gmail_message_id, sender_email, sender_name, received_at, labels')
+        .eq('email_account_id', accountId)
+        .in('sender_email', matchingEmails);
+
+      // Without keep_latest only mail past the cutoff can match - don't let newer mail fill the page
+      if (rule.older_than_days && !rule.keep_latest) {
+        rowsQuery = rowsQuery.lt('received_at', new Date(Date.now() - rule.older_than_days * 24 * 60 * 60 * 1000).toISOString());
+      }
+
+      const { data: rows } = await rowsQuery
+        .order('received_at', { ascending: false })
+        .limit(1000);
+
+      // keep_latest applies per sender, so select targets sender by sender
+      const bySender = new Map<string, RuleCandidate[]>();
+      for (const row of (rows || []) as RuleCandidate[]) {
+        const key = `${row.sender_email}|||${row.sender_name}`;
+        if (!matchingKeys.has(key)) continue;
+        if (!bySender.has(key)) bySender.set(key, []);
+        bySender.get(key)!.push(row);
+      }
+
+      const targetIds: string[] = [];
+      for (const candidates of bySender.values()) {
+        targetIds.push(...selectRuleTargets(rule, candidates, executor.keepsArchivedRows));
+      }
+      const limitedIds = targetIds.slice(0, MAX_TARGETS_PER_RULE);
+      if (limitedIds.length === 0) continue;
+
+      const { success, movedIds = {} } = rule.action === 'delete'
+        ? await executor.trashMessages(limitedIds)
+        : await executor.archiveMessages(limitedIds);
+      if (success.length === 0) continue;
+
+      // Keep the local table in step with the mailbox
+      if (rule.action === 'archive' && executor.keepsArchivedRows) {
+        const labelsById = new Map((rows || []).map((r: RuleCandidate) => [r.gmail_message_id, r.labels || []]));
+        for (let i = 0; i < success.length; i += 10) {
+          const batch = success.slice(i, i + 10);
+          await Promise.all(batch.map(id =>
+            supabase
+              .from('emails')
+              .update({ labels: (labelsById.get(id) || []).filter(l => l !== 'INBOX') })
+              .eq('email_account_id', accountId)
+              .eq('gmail_message_id', id)
+          ));
+        }
+      } else {
+        for (let i = 0; i < success.length; i += 100) {
+          await supabase
+            .from('emails')
+            .delete()
+            .eq('email_account_id', accountId)
+            .in('gmail_message_id', success.slice(i, i + 100));
+        }
+      }
+
+      const description = describeRule(rule);
+      const now = new Date().toISOString();
+
+      await supabase
+        .from('cleanup_actions')
+        .insert({
+          user_id: rule.user_id,
+          email_account_id: accountId,
+          action_type: rule.action,
+          sender_email: rule.match_value,
+          sender_name: `Rule: ${description}`,
+          emails_affected: success.length,
+          gmail_message_ids: success.map(id => movedIds[id] || id),
+          rule_id: rule.id,
+          status: 'completed',
+          completed_at: now
+        });
+
+      await supabase
+        .from('activity_log')
+        .insert({
+          user_id: rule.user_id,
+          action_type: rule.action,
+          description: `Rule ${rule.action === 'delete' ? 'deleted' : 'archived'} ${success.length} email${success.length > 1 ? 's' : ''} from ${rule.match_type === 'domain' ? `@${rule.match_value}` : rule.match_value}`,
+          metadata: { ruleId: rule.id, rule: description, count: success.length }
+        });
+
+      await supabase
+        .from('sender_rules')
+        .update({ last_applied_at: now })
+        .eq('id', rule.id);
+
+      appliedCount += success.length;
+    } catch (err: any) {
+      // A failing rule must never break sync - log and move on
+      console.error(`Sender rule ${rule.id} failed:`, err.message);
+    }
+  }
+
+  return { appliedCount };
+}
@@ -0,0 +1,278 @@
+/**
+ * Sync Jobs
+ *
+ * Persisted state for long-running (full/upgrade) syncs so they can run as a
+ * series of short, resumable steps instead of one request that has to finish
+ * before the platform's function timeout.
+ *
+ * - One running job per account (enforced by a partial unique index)
+ * - Each step checkpoints the provider page token and counts, so a crash or
+ *   timeout continues from the last checkpoint instead of restarting
+ * - locked_until is a short lease so two requests/workers never run the same job
+ * - Checkpoints only land on running jobs, so a step still in flight can't
+ *   touch a job that was finalized or cancelled meanwhile
+ * - Jobs nobody has touched for a while are resumed by the background worker
+ */
+
+import { createClient } from '@supabase/supabase-js';
+
+const supabase = createClient(
+  process.env.VITE_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+// Lease per runner - renewed on every checkpoint, so it only has to outlive one step
+const LEASE_MS = 2 * 60 * 1000;
+// A running job with no checkpoint for this long has lost its client
+const STALLED_AFTER_MS = 60 * 1000;
+// Consecutive failed steps before a job is given up on
+const MAX_FAILURES = 5;
+
+export type SyncJobType = 'full' | 'upgrade';
+export type SyncJobStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+export type SyncJobPhase = 'fetching' | 'finalizing' | 'done';
+
+export interface SyncJob {
+  id: string;
+  user_id: string;
+  email_account_id: string;
+  sync_type: SyncJobType;
+  status: SyncJobStatus;
+  phase: SyncJobPhase;
+  page_token: string | null;
+  listed_count: number;
+  processed_count: number;
+  // Emails downloaded and written by this job (excludes ones upgrade sync already had)
+  fetched_count: number;
+  progress_total: number | null;
+  // Gmail historyId read before the first page was listed - where incremental sync resumes
+  start_history_id: string | null;
+  email_limit: number;
+  failure_count: number;
+  error: string | null;
+  locked_until: string | null;
+  started_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+export interface SyncJobResponse {
+  id: string;
+  type: SyncJobType;
+  status: SyncJobStatus;
+  phase: SyncJobPhase;
+  processed: number;
+  total: number | null;
+  error: string | null;
+  startedAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+}
+
+export function toSyncJobResponse(job: SyncJob): SyncJobResponse {
+  return {
+    id: job.id,
+    type: job.sync_type,
+    status: job.status,
+    phase: job.phase,
+    processed: job.processed_count,
+    total: job.progress_total,
+    error: job.error,
+    startedAt: job.started_at,
+    updatedAt: job.updated_at,
+    completedAt: job.completed_at,
+  };
+}
+
+/**
+ * Whether a running job has lost its runner (lease expired, no recent checkpoint)
+ */
+export function isSyncJobStalled(
+  job: Pick<SyncJob, 'status' | 'locked_until' | 'updated_at'>,
+  now: number = Date.now()
+): boolean {
+  if (job.status !== 'running') return false;
+  if (job.locked_until && new Date(job.locked_until).getTime() > now) return false;
+  return new Date(job.updated_at).getTime() + STALLED_AFTER_MS <= now;
+}
+
+/**
+ * The account's running job, if any
+ */
+export async function getActiveSyncJob(accountId: string): Promise<SyncJob | null> {
+  const { data } = await supabase
+    .from('sync_jobs')
+    .select('*')
+    .eq('email_account_id', accountId)
+    .eq('status', 'running')
+    .limit(1);
+  return (data?.[0] as SyncJob) || null;
+}
+
+/**
+ * The account's most recent job (running or finished), for progress reporting
+ */
+export async function getLatestSyncJob(accountId: string): Promise<SyncJob | null> {
+  const { data } = await supabase
+    .from('sync_jobs')
+    .select('*')
+    .eq('email_account_id', accountId)
+    .order('started_at', { ascending: false })
+    .limit(1);
+  return (data?.[0] as SyncJob) || null;
+}
+
+/**
+ * Resume the account's running job of this type, or start a new one.
+ * A running job of a different type is cancelled - the new request supersedes it.
+ */
+export async function startSyncJob(
+  userId: string,
+  accountId: string,
+  syncType: SyncJobType,
+  emailLimit: number
+): Promise<SyncJob> {
+  const active = await getActiveSyncJob(accountId);
+  if (active?.sync_type === syncType) return active;
+  if (active) await finishSyncJob(active.id, 'cancelled');
+
+  const { data: created, error } = await supabase
+    .from('sync_jobs')
+    .insert({
+      user_id: userId,
+      email_account_id: accountId,
+      sync_type: syncType,
+      status: 'running',
+      phase: 'fetching',
+      email_limit: emailLimit,
+    })
+    .select('*')
+    .single();
+
+  if (error) {
+    // Another request started a job for this account first - resume that one
+    if (error.code === '23505') {
+      const raced = await getActiveSyncJob(accountId);
+      if (raced) return raced;
+    }
+    throw new Error(`Failed to start sync job: ${error.message}`);
+  }
+
+  return created as SyncJob;
+}
+
+/**
+ * Take the job's lease. Returns false if another runner holds it.
+ */
+export async function claimSyncJob(jobId: string): Promise<boolean> {
+  const now = new Date();
+  const { data, error } = await supabase
+    .from('sync_jobs')
+    .update({ locked_until: new Date(now.getTime() + LEASE_MS).toISOString() })
+    .eq('id', jobId)
+    .eq('status', 'running')
+    .or(`locked_until.is.null,locked_until.lt.${now.toISOString()}`)
+    .select('id');
+
+  if (error) {
+    console.error(`Failed to lock sync job ${jobId}:`, error.message);
+    return false;
+  }
+  return !!data && data.length > 0;
+}
+
+/**
+ * Persist a step's progress and renew the lease
+ */
+export async function checkpointSyncJob(
+  jobId: string,
+  fields: Partial<Pick<SyncJob, 'phase' | 'page_token' | 'listed_count' | 'processed_count' | 'fetched_count' | 'progress_total' | 'start_history_id'>>
+): Promise<SyncJob> {
+  const now = Date.now();
+  const { data, error } = await supabase
+    .from('sync_jobs')
+    .update({
+      ...fields,
+      failure_count: 0,
+      error: null,
+      locked_until: new Date(now + LEASE_MS).toISOString(),
+      updated_at: new Date(now).toISOString(),
+    })
+    .eq('id', jobId)
+    .eq('status', 'running')
+    .select('*');
+
+  if (error) {
+    throw new Error(`Failed to checkpoint sync job: ${error.message}`);
+  }
+  if (!data || data.length === 0) {
+    throw new Error('Sync job is no longer running');
+  }
+  return data[0] as SyncJob;
+}
+
+/**
+ * Release the lease so the next request (or the worker) can pick the job up
+ */
+export async function releaseSyncJob(jobId: string): Promise<void> {
+  await supabase
+    .from('sync_jobs')
+    .update({ locked_until: null })
+    .eq('id', jobId);
+}
+
+/**
+ * Record a failed step. The job stays resumable until it has failed
+ * MAX_FAILURES times in a row, then it is marked failed.
+ */
+export async function recordSyncJobFailure(job: SyncJob, message: string): Promise<void> {
+  const failureCount = (job.failure_count || 0) + 1;
+  const giveUp = failureCount >= MAX_FAILURES;
+
+  await supabase
+    .from('sync_jobs')
+    .update({
+      failure_count: failureCount,
+      error: message,
+      locked_until: null,
+      updated_at: new Date().toISOString(),
+      ...(giveUp && { status: 'failed', completed_at: new Date().toISOString() }),
+    })
+    .eq('id', job.id)
+    .eq('status', 'running');
+}
+
+export async function finishSyncJob(jobId: string, status: Exclude<SyncJobStatus, 'running'>): Promise<void> {
+  const now = new Date().toISOString();
+  await supabase
+    .from('sync_jobs')
+    .update({
+      status,
+      phase: 'done',
+      locked_until: null,
+      updated_at: now,
+      completed_at: now,
+    })
+    .eq('id', jobId);
+}
+
+/**
+ * Running jobs that have lost their runner (run from the worker)
+ */
+export async function findStalledSyncJobs(limit: number): Promise<SyncJob[]> {
+  const nowIso = new Date().toISOString();
+  const { data, error } = await supabase
+    .from('sync_jobs')
+    .select('*')
+    .eq('status', 'running')
+    .or(`locked_until.is.null,locked_until.lt.${nowIso}`)
+    .lt('updated_at', new Date(Date.now() - STALLED_AFTER_MS).toISOString())
+    .order('updated_at', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    console.error('Failed to load stalled sync jobs:', error.message);
+    return [];
+  }
+  return (data || []) as SyncJob[];
+}
@@ -0,0 +1,194 @@
+/**
+ * Permanent Delete and Trash
+ *
+ * Cleanups normally only move mail to the trash, where it still counts against
+ * the user's storage until the provider purges it (30 days on Gmail and
+ * Outlook). Two opt-in ways to free that space:
+ *
+ * - `permanent: true` on a sender cleanup (api/cleanup/delete.ts) deletes
+ *   without going through the trash
+ * - The trash view (api/cleanup/trash.ts) lists the delete actions CleanInbox
+ *   logged in cleanup_actions whose messages are still in the trash, and purges
+ *   them. Only the trashed copies recorded on each action are touched - never
+ *   anything else the user has in their trash
+ *
+ * Both are irreversible, so requests must echo PERMANENT_DELETE_CONFIRMATION,
+ * and purged/permanent actions can no longer be undone.
+ *
+ * Gmail needs the full https://mail.google.com/ scope for this, which users
+ * grant by reconnecting with GET /api/gmail/connect?permanentDelete=true.
+ */
+
+import type { VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import type { MailProvider } from './mail-provider.js';
+
+const supabase = createClient(
+  process.env.VITE_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+// Gmail and Outlook purge their trash on their own after this long
+export const TRASH_RETENTION_DAYS = 30;
+// What the user types to confirm - sent as `confirm` on permanent requests
+export const PERMANENT_DELETE_CONFIRMATION = 'DELETE';
+// Actions listed in the trash view
+const TRASHED_ACTION_TYPES = ['delete', 'delete_single'];
+// Most actions listed or purged per request
+export const MAX_TRASH_ACTIONS = 500;
+
+export interface TrashedAction {
+  id: string;
+  action_type: string;
+  sender_email: string;
+  sender_name: string | null;
+  emails_affected: number;
+  bytes_affected: number | null;
+  gmail_message_ids: string[] | null;
+  created_at: string;
+}
+
+export interface TrashItem {
+  actionId: string;
+  actionType: string;
+  senderEmail: string;
+  senderName: string;
+  emailCount: number;
+  // Storage the messages take up until purged (0 for cleanups logged before sizes were stored)
+  sizeBytes: number;
+  createdAt: string;
+  // When the provider purges these on its own
+  expiresAt: string;
+}
+
+export interface PurgeResult {
+  purgedActionIds: string[];
+  purged: number;
+  // Logged size of the purged messages
+  reclaimedBytes: number;
+  // Messages no longer in the trash (restored or already purged) or that failed
+  skipped: number;
+}
+
+export function isPermanentDeleteConfirmed(confirm: unknown): boolean {
+  return confirm === PERMANENT_DELETE_CONFIRMATION;
+}
+
+export function toTrashItem(action: TrashedAction): TrashItem {
+  const expiresAt = new Date(new Date(action.created_at).getTime() + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  return {
+    actionId: action.id,
+    actionType: action.action_type,
+    senderEmail: action.sender_email,
+    senderName: action.sender_name || action.sender_email,
+    emailCount: action.gmail_message_ids?.length || action.emails_affected || 0,
+    sizeBytes: Number(action.bytes_affected) || 0,
+    createdAt: action.created_at,
+    expiresAt: expiresAt.toISOString(),
+  };
+}
+
+/**
+ * Respond 400 when a permanent request wasn't confirmed. Returns true if it responded.
+ */
+export function rejectUnconfirmedPermanentDelete(res: VercelResponse, confirm: unknown): boolean {
+  if (isPermanentDeleteConfirmed(confirm)) return false;
+  res.status(400).json({
+    error: `Permanent delete can't be undone. Send confirm: "${PERMANENT_DELETE_CONFIRMATION}" to continue.`,
+    code: 'PERMANENT_DELETE_NOT_CONFIRMED',
+  });
+  return true;
+}
+
+/**
+ * Respond 403 when the account's provider can't permanently delete.
+ * Gmail accounts can fix this by reconnecting with the full mail scope.
+ * Returns true if it responded.
+ */
+export function rejectUnsupportedPermanentDelete(res: VercelResponse, provider: MailProvider): boolean {
+  if (provider.permanentlyDeleteMessages) return false;
+  const reconnectRequired = provider.name === 'Gmail';
+  res.status(403).json({
+    error: reconnectRequired
+      ? 'Permanent delete needs full Gmail access. Reconnect your Gmail account and allow it to permanently delete email.'
+      : `Permanent delete is not available for ${provider.name} accounts`,
+    code: reconnectRequired ? 'PERMANENT_DELETE_SCOPE_REQUIRED' : 'PERMANENT_DELETE_UNSUPPORTED',
+    reconnectRequired,
+  });
+  return true;
+}
+
+/**
+ * The account's delete actions whose messages are still in the trash, newest
+ * first. Pass actionIds to restrict to specific actions.
+ */
+export async function listTrashedActions(
+  userId: string,
+  accountId: string,
+  actionIds?: string[]
+): Promise<TrashedAction[]> {
+  const since = new Date(Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+  let query = supabase
+    .from('cleanup_actions')
+    .select('id, action_type, sender_email, sender_name, emails_affected, bytes_affected, gmail_message_ids, created_at')
+    .eq('user_id', userId)
+    .eq('email_account_id', accountId)
+    .in('action_type', TRASHED_ACTION_TYPES)
+    .eq('status', 'completed')
+    .eq('permanent', false)
+    .is('purged_at', null)
+    .gte('created_at', since)
+    .gt('emails_affected', 0)
+    .order('created_at', { ascending: false })
+    .limit(MAX_TRASH_ACTIONS);
+
+  if (actionIds) {
+    query = query.in('id', actionIds);
+  }
+
+  const { data, error } = await query;
+  if (error) throw new Error(`Failed to load trashed actions: ${error.message}`);
+  return ((data || []) as TrashedAction[]).filter(a => (a.gmail_message_ids || []).length > 0);
+}
+
+/**
+ * Permanently delete the trashed copies logged on each action and mark the
+ * action purged. Messages the user has moved out of the trash are left alone.
+ * Provider outages propagate so the caller can answer 503.
+ */
+export async function purgeTrashedActions(
+  provider: MailProvider,
+  actions: TrashedAction[],
+  onAction?: (action: TrashedAction, purgedSoFar: number) => Promise<void>
+): Promise<PurgeResult> {
+  const result: PurgeResult = { purgedActionIds: [], purged: 0, reclaimedBytes: 0, skipped: 0 };
+
+  for (const action of actions) {
+    if (onAction) await onAction(action, result.purged);
+
+    const messageIds = action.gmail_message_ids || [];
+    const { success, failed } = await provider.permanentlyDeleteMessages!('trash', messageIds);
+    result.purged += success.length;
+    result.skipped += failed.length;
+    // Per-message sizes aren't kept on the action, so scale by the share purged
+    if (messageIds.length > 0) {
+      result.reclaimedBytes += Math.round((Number(action.bytes_affected) || 0) * success.length / messageIds.length);
+    }
+
+    // Failures are mostly messages that already left the trash. Anything else
+    // is left to the provider's own purge rather than retried forever.
+    const { error } = await supabase
+      .from('cleanup_actions')
+      .update({ purged_at: new Date().toISOString() })
+      .eq('id', action.id);
+
+    if (error) {
+      console.error(`Failed to mark cleanup action ${action.id} purged:`, error.message);
+    } else {
+      result.purgedActionIds.push(action.id);
+    }
+  }
+
+  return result;
+}
@@ -16,6 +16,7 @@ import {
   getOutlookProfile,
   storeOutlookOAuthTokens
 } from '../lib/outlook.js';
+import { isOutlookPushEnabled, registerOutlookSubscription } from '../lib/outlook-push.js';
 import { PLAN_LIMITS } from '../subscription/get.js';
 
 const supabase = createClient(
@@ -161,6 +162,15 @@ export default async function handler(
       console.error('Failed to update email account:', updateError);
     }
 
+    // Start change notifications - the worker retries the subscription if this fails
+    if (isOutlookPushEnabled()) {
+      try {
+        await registerOutlookSubscription(emailAccountId, tokens.access_token);
+      } catch (subscriptionError: any) {
+        console.warn('Failed to create Outlook subscription:', subscriptionError.message);
+      }
+    }
+
     // Log to activity_log
     await supabase
       .from('activity_log')
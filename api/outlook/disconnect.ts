@@ -12,7 +12,8 @@ import { createClient } from '@supabase/supabase-js';
 import { requireEmailVerification, AuthenticatedRequest } from '../lib/auth-middleware.js';
 import { rateLimit, RateLimitPresets } from '../lib/rate-limiter.js';
 
-import { deleteOutlookOAuthTokens } from '../lib/outlook.js';
+import { deleteOutlookOAuthTokens, getValidOutlookAccessToken } from '../lib/outlook.js';
+import { deleteSubscription } from '../lib/outlook-api.js';
 
 const supabase = createClient(
   process.env.VITE_SUPABASE_URL!,
@@ -47,7 +48,7 @@ export default async function handler(
     // Verify the email account belongs to this user
     const { data: account, error: accountError } = await supabase
       .from('email_accounts')
-      .select('id')
+      .select('id, outlook_subscription_id')
       .eq('user_id', user.userId)
       .eq('email', email)
       .single();
@@ -59,6 +60,16 @@ export default async function handler(
       });
     }
 
+    // Stop change notifications while the token still works (best-effort)
+    if (account.outlook_subscription_id) {
+      try {
+        const { accessToken } = await getValidOutlookAccessToken(user.userId, email);
+        await deleteSubscription(accessToken, account.outlook_subscription_id);
+      } catch (subscriptionError: any) {
+        console.warn('Failed to delete Outlook subscription:', subscriptionError.message);
+      }
+    }
+
     // Delete OAuth tokens
     await deleteOutlookOAuthTokens(user.userId, email);
 
@@ -69,6 +80,9 @@ export default async function handler(
         connection_status: 'disconnected',
         oauth_token_id: null,
         delta_link: null,
+        outlook_subscription_id: null,
+        outlook_subscription_client_state: null,
+        outlook_subscription_expiration: null,
         updated_at: new Date().toISOString()
       })
       .eq('id', account.id);
@@ -0,0 +1,63 @@
+/**
+ * Outlook Change Notification Webhook
+ *
+ * POST /api/outlook/notifications
+ *
+ * Receives Microsoft Graph change and lifecycle notifications for Outlook
+ * inbox subscriptions and queues an incremental sync for the matching
+ * account. See lib/outlook-push.ts.
+ *
+ * Graph validates the endpoint when a subscription is created by POSTing
+ * ?validationToken=... and expects the token echoed back as text/plain.
+ * Notifications must be acknowledged with a 2xx within a few seconds or
+ * Graph retries them, so the sync itself runs later in the worker.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import {
+  parseNotifications,
+  handleNotifications,
+  GraphNotificationBody
+} from '../lib/outlook-push.js';
+import { withSentry } from '../lib/sentry.js';
+
+async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Subscription validation handshake
+  const validationToken = req.query.validationToken;
+  if (typeof validationToken === 'string') {
+    res.setHeader('Content-Type', 'text/plain');
+    return res.status(200).send(validationToken);
+  }
+
+  const notifications = parseNotifications(req.body as GraphNotificationBody);
+  if (notifications.length === 0) {
+    return res.status(202).end();
+  }
+
+  try {
+    const { queued, rejected } = await handleNotifications(notifications);
+    if (rejected > 0) {
+      console.warn(`Outlook notifications: rejected ${rejected} with unknown subscription or clientState`);
+    }
+    if (queued > 0) {
+      console.log(`📬 Outlook notifications: queued sync for ${queued} account(s)`);
+    }
+    return res.status(202).end();
+  } catch (error: any) {
+    // Non-2xx so Graph redelivers once the database is reachable again
+    console.error('Outlook notification error:', error);
+    return res.status(500).json({
+      error: 'Failed to process notifications',
+      code: 'NOTIFICATION_ERROR'
+    });
+  }
+}
+
+export default withSentry(handler);
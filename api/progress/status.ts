@@ -0,0 +1,46 @@
+/**
+ * Progress Status Endpoint
+ *
+ * GET /api/progress/status?email=<account email>
+ * GET /api/progress/status?operationId=<uuid>
+ *
+ * Polling fallback for GET /api/progress/stream, for clients that can't keep
+ * an event stream open. Returns { event: ProgressEvent | null } - null while a
+ * cleanup operation hasn't started yet.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireEmailVerification, AuthenticatedRequest } from '../lib/auth-middleware.js';
+import { rateLimit, RateLimitPresets } from '../lib/rate-limiter.js';
+import { getSyncProgressEvent, getOperationProgressEvent, isValidOperationId } from '../lib/progress.js';
+
+const limiter = rateLimit(RateLimitPresets.RELAXED);
+
+async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (await limiter(req, res)) return;
+
+  const user = requireEmailVerification(req as AuthenticatedRequest, res);
+  if (!user) return;
+
+  const email = req.query.email as string | undefined;
+  const operationId = req.query.operationId as string | undefined;
+
+  if (!email && !operationId) {
+    return res.status(400).json({ error: 'email or operationId parameter required', code: 'MISSING_TARGET' });
+  }
+  if (operationId && !isValidOperationId(operationId)) {
+    return res.status(400).json({ error: 'Invalid operationId', code: 'INVALID_OPERATION_ID' });
+  }
+
+  const event = operationId
+    ? await getOperationProgressEvent(user.userId, operationId)
+    : await getSyncProgressEvent(user.userId, email!);
+
+  return res.status(200).json({ event });
+}
+
+export default handler;
@@ -0,0 +1,126 @@
+/**
+ * Live Progress Stream (Server-Sent Events)
+ *
+ * GET /api/progress/stream?email=<account email>   - sync progress for an account
+ * GET /api/progress/stream?operationId=<uuid>      - progress of a cleanup action
+ *
+ * Events (data is a ProgressEvent, see api/lib/progress.ts):
+ * - `progress`  sent whenever phase/processed/total/current sender/errors change
+ * - `complete`  final state with the completion summary (or failure). Operation
+ *               streams end after it; sync streams keep watching for the next run
+ *
+ * Progress is read from the database once a second, so it doesn't matter which
+ * server process or worker is doing the work. Streams end after STREAM_MAX_MS;
+ * EventSource reconnects on its own and the next connection starts from the
+ * current state. GET /api/progress/status returns the same event for polling.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireEmailVerification, AuthenticatedRequest } from '../lib/auth-middleware.js';
+import { rateLimit, RateLimitPresets } from '../lib/rate-limiter.js';
+import {
+  getSyncProgressEvent,
+  getOperationProgressEvent,
+  isValidOperationId,
+  ProgressEvent
+} from '../lib/progress.js';
+
+const limiter = rateLimit(RateLimitPresets.STANDARD);
+
+const POLL_INTERVAL_MS = 1000;
+const HEARTBEAT_MS = 15 * 1000;
+const STREAM_MAX_MS = 5 * 60 * 1000;
+const RECONNECT_DELAY_MS = 2000;
+// Allowance for clock differences between this server and the database
+const CLOCK_SKEW_MS = 30 * 1000;
+
+async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (await limiter(req, res)) return;
+
+  const user = requireEmailVerification(req as AuthenticatedRequest, res);
+  if (!user) return;
+
+  const email = req.query.email as string | undefined;
+  const operationId = req.query.operationId as string | undefined;
+
+  if (!email && !operationId) {
+    return res.status(400).json({ error: 'email or operationId parameter required', code: 'MISSING_TARGET' });
+  }
+  if (operationId && !isValidOperationId(operationId)) {
+    return res.status(400).json({ error: 'Invalid operationId', code: 'INVALID_OPERATION_ID' });
+  }
+
+  const load = (): Promise<ProgressEvent | null> => operationId
+    ? getOperationProgressEvent(user.userId, operationId)
+    : getSyncProgressEvent(user.userId, email!);
+
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  // Stop reverse proxies from buffering the stream
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders?.();
+  res.write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+
+  let closed = false;
+  req.on('close', () => { closed = true; });
+
+  let eventId = 0;
+  const send = (name: 'progress' | 'complete', event: ProgressEvent) => {
+    res.write(`id: ${++eventId}\nevent: ${name}\ndata: ${JSON.stringify(event)}\n\n`);
+  };
+
+  const startedAt = Date.now();
+  let lastHeartbeat = startedAt;
+  let lastSent = '';
+  // When the current sync run was first seen running (sync streams only)
+  let runSeenAt: number | null = null;
+
+  while (!closed && Date.now() - startedAt < STREAM_MAX_MS) {
+    let event: ProgressEvent | null = null;
+    try {
+      event = await load();
+    } catch (error: any) {
+      // Transient read failure - try again on the next poll
+      console.error('Progress stream read error:', error.message);
+    }
+    if (closed) break;
+
+    if (event?.status === 'running') {
+      runSeenAt ??= Date.now();
+      const serialized = JSON.stringify(event);
+      if (serialized !== lastSent) {
+        send('progress', event);
+        lastSent = serialized;
+      }
+    } else if (event && operationId) {
+      send('complete', event);
+      break;
+    } else if (event && runSeenAt !== null) {
+      // A sync run we were watching finished. Only blame it for a failed job
+      // that finished after the run started (an older failure isn't this run's).
+      const failed = event.status === 'failed'
+        && event.updatedAt !== null
+        && Date.parse(event.updatedAt) >= runSeenAt - CLOCK_SKEW_MS;
+      send('complete', { ...event, status: failed ? 'failed' : 'completed' });
+      runSeenAt = null;
+      lastSent = '';
+    }
+
+    if (Date.now() - lastHeartbeat >= HEARTBEAT_MS) {
+      res.write(': ping\n\n');
+      lastHeartbeat = Date.now();
+    }
+
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+
+  res.end();
+}
+
+export default handler;
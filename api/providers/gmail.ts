@@ -0,0 +1,207 @@
+/**
+ * Gmail Mail Provider
+ *
+ * Binds the Gmail REST client (lib/gmail-api.ts) and the Gmail sync engine
+ * (emails/gmail-sync.ts) to one account's access token.
+ */
+
+import {
+  getMessage,
+  batchGetMessages,
+  batchTrashMessages,
+  batchArchiveMessages,
+  batchUntrashMessages,
+  batchUnarchiveMessages,
+  batchDeleteMessages,
+  batchMarkAsRead,
+  deleteEmailsFromSender,
+  archiveEmailsFromSender,
+  extractEmailRecords,
+  sendMessage,
+} from '../lib/gmail-api.js';
+import {
+  performGmailFullSync,
+  performGmailUpgradeSync,
+  performGmailInitialBatch,
+  performGmailIncrementalSync,
+} from '../emails/gmail-sync.js';
+import type { MailAccount, MailProvider, FullEmailMessage } from '../lib/mail-provider.js';
+import { parseUnsubscribeHeaders } from '../lib/mail-provider.js';
+
+const METADATA_HEADERS = ['From', 'Date', 'Subject', 'List-Unsubscribe', 'List-Unsubscribe-Post', 'List-Id'];
+
+/**
+ * Decode base64url encoded string
+ */
+function decodeBase64Url(data: string): string {
+  // Replace URL-safe characters
+  const base64 = data.replace(/-/g, '+').replace(/_/g, '/');
+  try {
+    return Buffer.from(base64, 'base64').toString('utf-8');
+  } catch (e) {
+    console.warn('Failed to decode base64:', e);
+    return '';
+  }
+}
+
+/**
+ * Extract body from message payload
+ */
+function extractBody(payload: any): { text: string; html: string } {
+  let text = '';
+  let html = '';
+
+  if (!payload) {
+    return { text, html };
+  }
+
+  // Simple message with body directly in payload
+  if (payload.body?.data) {
+    const decoded = decodeBase64Url(payload.body.data);
+    const mimeType = payload.mimeType || '';
+    if (mimeType.includes('html')) {
+      html = decoded;
+    } else {
+      text = decoded;
+    }
+  }
+
+  // Multipart message - recursively search parts
+  if (payload.parts) {
+    for (const part of payload.parts) {
+      const mimeType = part.mimeType || '';
+
+      if (part.body?.data) {
+        const decoded = decodeBase64Url(part.body.data);
+        if (mimeType === 'text/html') {
+          html = decoded;
+        } else if (mimeType === 'text/plain') {
+          text = decoded;
+        }
+      }
+
+      // Handle nested parts (e.g., multipart/alternative inside multipart/mixed)
+      if (part.parts) {
+        const nested = extractBody(part);
+        if (nested.html && !html) html = nested.html;
+        if (nested.text && !text) text = nested.text;
+      }
+    }
+  }
+
+  return { text, html };
+}
+
+/**
+ * Extract header value from message payload
+ */
+function getHeader(payload: any, headerName: string): string {
+  if (!payload?.headers) return '';
+  const header = payload.headers.find(
+    (h: any) => h.name.toLowerCase() === headerName.toLowerCase()
+  );
+  return header?.value || '';
+}
+
+/**
+ * Gmail stores mail under the Google address, which can differ from the account label
+ */
+function gmailUserEmail(account: MailAccount): string {
+  return (account.gmail_email || account.email).toLowerCase();
+}
+
+/**
+ * `canPermanentlyDelete` is whether the account granted the full mail scope
+ */
+export function createGmailProvider(accessToken: string, canPermanentlyDelete = false): MailProvider {
+  const provider: MailProvider = {
+    name: 'Gmail',
+    keepsArchivedRows: true,
+
+    initialBatchSync: ({ res, userId, account, emailLimit }) =>
+      performGmailInitialBatch(res, userId, account.id, accessToken, gmailUserEmail(account), account.email, emailLimit),
+
+    fullSync: ({ res, userId, account, emailLimit, timeBudgetMs }) =>
+      performGmailFullSync(res, userId, account.id, accessToken, gmailUserEmail(account), emailLimit, account.email, timeBudgetMs),
+
+    upgradeSync: ({ res, userId, account, emailLimit, timeBudgetMs }) =>
+      performGmailUpgradeSync(res, userId, account.id, accessToken, gmailUserEmail(account), emailLimit, account.email, timeBudgetMs),
+
+    incrementalSync: ({ res, userId, account }) =>
+      performGmailIncrementalSync(
+        res, userId, account.id, accessToken, gmailUserEmail(account),
+        account.email, account.last_synced!, account.history_id ?? null, provider
+      ),
+
+    async getMessages(messageIds) {
+      const messages = await batchGetMessages(accessToken, messageIds, 'metadata', METADATA_HEADERS);
+      return extractEmailRecords(messages);
+    },
+
+    async getFullMessage(messageId): Promise<FullEmailMessage> {
+      const message = await getMessage(accessToken, messageId, 'full');
+      const { text, html } = extractBody(message.payload);
+
+      return {
+        id: message.id,
+        threadId: message.threadId,
+        subject: getHeader(message.payload, 'Subject') || '(No Subject)',
+        from: getHeader(message.payload, 'From') || '',
+        to: getHeader(message.payload, 'To') || '',
+        date: message.internalDate
+          ? new Date(parseInt(message.internalDate)).toISOString()
+          : '',
+        snippet: message.snippet || '',
+        body: text,
+        bodyHtml: html,
+        isUnread: message.labelIds?.includes('UNREAD') || false,
+        labels: message.labelIds || [],
+      };
+    },
+
+    async getUnsubscribeHeaders(messageId) {
+      const message = await getMessage(accessToken, messageId, 'metadata', ['List-Unsubscribe', 'List-Unsubscribe-Post']);
+      return parseUnsubscribeHeaders(
+        getHeader(message.payload, 'List-Unsubscribe'),
+        getHeader(message.payload, 'List-Unsubscribe-Post')
+      );
+    },
+
+    // Gmail message IDs are stable across labels, so nothing is re-keyed
+    async trashMessages(messageIds) {
+      return { ...(await batchTrashMessages(accessToken, messageIds)), movedIds: {} };
+    },
+
+    async archiveMessages(messageIds) {
+      return { ...(await batchArchiveMessages(accessToken, messageIds)), movedIds: {} };
+    },
+
+    async restoreMessages(from, messageIds) {
+      const result = from === 'archive'
+        ? await batchUnarchiveMessages(accessToken, messageIds)
+        : await batchUntrashMessages(accessToken, messageIds);
+      return { ...result, movedIds: {} };
+    },
+
+    markMessagesRead: messageIds => batchMarkAsRead(accessToken, messageIds),
+
+    async trashAllFromSender(senderEmail) {
+      const { deletedCount, messageIds } = await deleteEmailsFromSender(accessToken, senderEmail);
+      return { count: deletedCount, messageIds };
+    },
+
+    async archiveAllFromSender(senderEmail) {
+      const { archivedCount, messageIds } = await archiveEmailsFromSender(accessToken, senderEmail);
+      return { count: archivedCount, messageIds };
+    },
+
+    sendMessage: (to, subject, body) => sendMessage(accessToken, to, subject, body),
+  };
+
+  if (canPermanentlyDelete) {
+    provider.permanentlyDeleteMessages = (from, messageIds) =>
+      batchDeleteMessages(accessToken, messageIds, { onlyTrashed: from === 'trash' });
+  }
+
+  return provider;
+}
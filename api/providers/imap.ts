@@ -0,0 +1,86 @@
+/**
+ * IMAP Mail Provider (Yahoo, iCloud)
+ *
+ * Binds the IMAP client (lib/imap-api.ts) and the IMAP sync engine
+ * (emails/imap-sync.ts) to one account's decrypted credentials.
+ * Message IDs are INBOX UIDs; moved copies get new UIDs in the target folder.
+ */
+
+import {
+  getFullMessage,
+  batchGetMessages,
+  batchTrashMessages,
+  batchArchiveMessages,
+  batchRestoreMessages,
+  batchPermanentDeleteMessages,
+  batchMarkAsRead,
+  extractEmailRecords,
+} from '../lib/imap-api.js';
+import type { ImapCredentials, ImapProviderName } from '../lib/imap.js';
+import { performImapFullSync, performImapIncrementalSync } from '../emails/imap-sync.js';
+import type { MailProvider, SyncContext, FullEmailMessage } from '../lib/mail-provider.js';
+import { parseUnsubscribeHeaders } from '../lib/mail-provider.js';
+
+export function createImapProvider(credentials: ImapCredentials, name: ImapProviderName): MailProvider {
+  const fullSync = ({ res, userId, account, emailLimit }: SyncContext) =>
+    performImapFullSync(res, userId, account.id, credentials, account.email.toLowerCase(), emailLimit, account.email, name);
+
+  const provider: MailProvider = {
+    name,
+    keepsArchivedRows: false,
+
+    // No separate initial batch for IMAP - a capped full sync is a single fetch
+    initialBatchSync: fullSync,
+    fullSync,
+
+    incrementalSync: ({ res, userId, account, emailLimit }) =>
+      performImapIncrementalSync(
+        res, userId, account.id, credentials, account.email.toLowerCase(),
+        emailLimit, account.email, name,
+        {
+          uidValidity: account.imap_uid_validity ?? null,
+          lastUid: account.imap_last_uid ?? null,
+          highestModseq: account.imap_highest_modseq ?? null,
+        },
+        provider
+      ),
+
+    async getMessages(messageIds) {
+      return extractEmailRecords(await batchGetMessages(credentials, messageIds));
+    },
+
+    async getFullMessage(messageId): Promise<FullEmailMessage> {
+      const { message, to, text, html } = await getFullMessage(credentials, messageId);
+
+      return {
+        id: message.id,
+        threadId: message.messageId || message.id,
+        subject: message.subject,
+        from: message.from ? `${message.from.name} <${message.from.address}>`.trim() : '',
+        to,
+        date: message.receivedAt,
+        snippet: '',
+        body: text,
+        bodyHtml: html,
+        isUnread: !message.isRead,
+        labels: [],
+      };
+    },
+
+    async getUnsubscribeHeaders(messageId) {
+      const [message] = await batchGetMessages(credentials, [messageId]);
+      return parseUnsubscribeHeaders(
+        message?.headers['list-unsubscribe'],
+        message?.headers['list-unsubscribe-post']
+      );
+    },
+
+    trashMessages: messageIds => batchTrashMessages(credentials, messageIds),
+    archiveMessages: messageIds => batchArchiveMessages(credentials, messageIds),
+    restoreMessages: (from, messageIds) => batchRestoreMessages(credentials, from, messageIds),
+    markMessagesRead: messageIds => batchMarkAsRead(credentials, messageIds),
+    permanentlyDeleteMessages: (from, messageIds) => batchPermanentDeleteMessages(credentials, from, messageIds),
+  };
+
+  return provider;
+}
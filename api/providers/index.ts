@@ -0,0 +1,46 @@
+/**
+ * Mail Provider Registry
+ *
+ * Maps email_accounts.provider to a factory that resolves the account's
+ * credentials (refreshing OAuth tokens where needed) and returns a bound
+ * MailProvider. Accounts without a provider are Gmail (the original default).
+ *
+ * Credential errors propagate as thrown errors ("... not connected") so
+ * handlers keep their existing TOKEN_EXPIRED handling.
+ */
+
+import { getValidAccessToken, GMAIL_FULL_ACCESS_SCOPE } from '../lib/gmail.js';
+import { getValidOutlookAccessToken } from '../lib/outlook.js';
+import { getImapCredentials, ImapProviderName } from '../lib/imap.js';
+import type { MailAccount, MailProvider, MailProviderName } from '../lib/mail-provider.js';
+import { createGmailProvider } from './gmail.js';
+import { createOutlookProvider } from './outlook.js';
+import { createImapProvider } from './imap.js';
+
+type MailProviderFactory = (userId: string, account: MailAccount) => Promise<MailProvider>;
+
+function imapFactory(name: ImapProviderName): MailProviderFactory {
+  return async (userId, account) =>
+    createImapProvider(await getImapCredentials(userId, account.email), name);
+}
+
+const PROVIDERS: Record<MailProviderName, MailProviderFactory> = {
+  Gmail: async (userId, account) => {
+    const { accessToken, scopes } = await getValidAccessToken(userId, account.gmail_email || account.email);
+    return createGmailProvider(accessToken, scopes.includes(GMAIL_FULL_ACCESS_SCOPE));
+  },
+  Outlook: async (userId, account) => {
+    const { accessToken } = await getValidOutlookAccessToken(userId, account.email);
+    return createOutlookProvider(accessToken);
+  },
+  Yahoo: imapFactory('Yahoo'),
+  iCloud: imapFactory('iCloud'),
+};
+
+/**
+ * Resolve the MailProvider for an email account
+ */
+export function getMailProvider(userId: string, account: MailAccount): Promise<MailProvider> {
+  const factory = PROVIDERS[(account.provider || 'Gmail') as MailProviderName] || PROVIDERS.Gmail;
+  return factory(userId, account);
+}
@@ -0,0 +1,91 @@
+/**
+ * Outlook Mail Provider
+ *
+ * Binds the Microsoft Graph client (lib/outlook-api.ts) and the Outlook sync
+ * engine (emails/outlook-sync.ts) to one account's access token.
+ */
+
+import {
+  getFullMessage,
+  getMessageWithHeaders,
+  batchGetMessages,
+  batchTrashMessages,
+  batchArchiveMessages,
+  batchRestoreMessages,
+  batchPermanentDeleteMessages,
+  batchMarkAsRead,
+  extractEmailRecords,
+  getUnsubscribeHeaders,
+  sendMessage,
+} from '../lib/outlook-api.js';
+import {
+  performOutlookFullSync,
+  performOutlookInitialBatch,
+  performOutlookIncrementalSync,
+} from '../emails/outlook-sync.js';
+import type { MailProvider, FullEmailMessage } from '../lib/mail-provider.js';
+
+export function createOutlookProvider(accessToken: string): MailProvider {
+  const provider: MailProvider = {
+    name: 'Outlook',
+    keepsArchivedRows: false,
+
+    initialBatchSync: ({ res, userId, account, emailLimit }) =>
+      performOutlookInitialBatch(res, userId, account.id, accessToken, account.email.toLowerCase(), account.email, emailLimit),
+
+    fullSync: ({ res, userId, account, emailLimit }) =>
+      performOutlookFullSync(res, userId, account.id, accessToken, account.email.toLowerCase(), emailLimit, account.email),
+
+    incrementalSync: ({ res, userId, account }) =>
+      performOutlookIncrementalSync(
+        res, userId, account.id, accessToken, account.email.toLowerCase(),
+        account.email, account.last_synced!, account.delta_link ?? null, provider
+      ),
+
+    async getMessages(messageIds) {
+      const messages = await batchGetMessages(accessToken, messageIds);
+      return extractEmailRecords(messages);
+    },
+
+    async getFullMessage(messageId): Promise<FullEmailMessage> {
+      const msg = await getFullMessage(accessToken, messageId);
+
+      const fromAddr = msg.from?.emailAddress;
+      const toAddrs = (msg.toRecipients || [])
+        .map((r: any) => r.emailAddress?.address)
+        .filter(Boolean)
+        .join(', ');
+
+      return {
+        id: msg.id,
+        threadId: msg.conversationId || msg.id,
+        subject: msg.subject || '(No Subject)',
+        from: fromAddr ? `${fromAddr.name || ''} <${fromAddr.address}>`.trim() : '',
+        to: toAddrs,
+        date: msg.receivedDateTime ? new Date(msg.receivedDateTime).toISOString() : '',
+        snippet: msg.bodyPreview || '',
+        body: msg.body?.contentType === 'text' ? msg.body.content || '' : '',
+        bodyHtml: msg.body?.contentType === 'html' ? msg.body.content || '' : '',
+        isUnread: !msg.isRead,
+        labels: [],
+      };
+    },
+
+    async getUnsubscribeHeaders(messageId) {
+      return getUnsubscribeHeaders(await getMessageWithHeaders(accessToken, messageId));
+    },
+
+    // Graph assigns new IDs on move - movedIds maps each message to its copy
+    trashMessages: messageIds => batchTrashMessages(accessToken, messageIds),
+    archiveMessages: messageIds => batchArchiveMessages(accessToken, messageIds),
+    restoreMessages: (_from, messageIds) => batchRestoreMessages(accessToken, messageIds),
+    markMessagesRead: messageIds => batchMarkAsRead(accessToken, messageIds),
+    // Trashed copies are checked to still be in Deleted Items before they go
+    permanentlyDeleteMessages: (from, messageIds) =>
+      batchPermanentDeleteMessages(accessToken, messageIds, { onlyTrashed: from === 'trash' }),
+
+    sendMessage: (to, subject, body) => sendMessage(accessToken, to, subject, body),
+  };
+
+  return provider;
+}
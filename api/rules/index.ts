@@ -0,0 +1,304 @@
+/**
+ * Sender Rules Endpoint
+ *
+ * GET    /api/rules?accountEmail=   - List rules (optionally for one account)
+ * POST   /api/rules                 - Create a rule
+ * PATCH  /api/rules?id=             - Update a rule
+ * DELETE /api/rules?id=             - Delete a rule
+ *
+ * Rules are evaluated by the sync pipeline (see api/lib/sender-rules.ts).
+ * Creating or re-enabling rules requires a paid plan.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { requireEmailVerification, AuthenticatedRequest } from '../lib/auth-middleware.js';
+import { rateLimit, RateLimitPresets } from '../lib/rate-limiter.js';
+import { isUserPaid } from '../lib/free-trial.js';
+import { validateRuleInput, MAX_RULES_PER_USER, SenderRule } from '../lib/sender-rules.js';
+import { withSentry } from '../lib/sentry.js';
+
+const supabase = createClient(
+  process.env.VITE_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+const limiter = rateLimit(RateLimitPresets.STANDARD);
+
+export interface SenderRuleResponse {
+  id: string;
+  accountEmail: string;
+  matchType: SenderRule['match_type'];
+  matchValue: string;
+  category: SenderRule['category'];
+  action: SenderRule['action'];
+  olderThanDays: number | null;
+  keepLatest: number | null;
+  enabled: boolean;
+  lastAppliedAt: string | null;
+  createdAt: string;
+}
+
+function toResponse(rule: SenderRule, accountEmail: string): SenderRuleResponse {
+  return {
+    id: rule.id,
+    accountEmail,
+    matchType: rule.match_type,
+    matchValue: rule.match_value,
+    category: rule.category,
+    action: rule.action,
+    olderThanDays: rule.older_than_days,
+    keepLatest: rule.keep_latest,
+    enabled: rule.enabled,
+    lastAppliedAt: rule.last_applied_at || null,
+    createdAt: rule.created_at!,
+  };
+}
+
+async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  if (!['GET', 'POST', 'PATCH', 'DELETE'].includes(req.method || '')) {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Rate limiting
+  if (await limiter(req, res)) return;
+
+  // Require authentication
+  const user = requireEmailVerification(req as AuthenticatedRequest, res);
+  if (!user) return;
+
+  try {
+    // Account emails are needed for every response shape
+    const { data: accounts } = await supabase
+      .from('email_accounts')
+      .select('id, email')
+      .eq('user_id', user.userId);
+    const accountEmails = new Map((accounts || []).map(a => [a.id, a.email]));
+
+    switch (req.method) {
+      case 'GET':
+        return await listRules(req, res, user.userId, accounts || [], accountEmails);
+      case 'POST':
+        return await createRule(req, res, user.userId, accounts || [], accountEmails);
+      case 'PATCH':
+        return await updateRule(req, res, user.userId, accountEmails);
+      default:
+        return await deleteRule(req, res, user.userId);
+    }
+  } catch (error: any) {
+    console.error('Sender rules error:', error);
+    return res.status(500).json({
+      error: 'Failed to process sender rules request',
+      code: 'RULES_ERROR'
+    });
+  }
+}
+
+async function listRules(
+  req: VercelRequest,
+  res: VercelResponse,
+  userId: string,
+  accounts: { id: string; email: string }[],
+  accountEmails: Map<string, string>
+) {
+  const accountEmail = req.query.accountEmail as string | undefined;
+
+  let query = supabase
+    .from('sender_rules')
+    .select('*')
+    .eq('user_id', userId);
+
+  if (accountEmail) {
+    const account = accounts.find(a => a.email === accountEmail);
+    if (!account) {
+      return res.status(404).json({
+        error: 'Email account not found',
+        code: 'ACCOUNT_NOT_FOUND'
+      });
+    }
+    query = query.eq('email_account_id', account.id);
+  }
+
+  const { data: rules, error } = await query.order('created_at', { ascending: true });
+  if (error) throw error;
+
+  return res.status(200).json({
+    rules: (rules || []).map(r => toResponse(r, accountEmails.get(r.email_account_id) || '')),
+  });
+}
+
+async function createRule(
+  req: VercelRequest,
+  res: VercelResponse,
+  userId: string,
+  accounts: { id: string; email: string }[],
+  accountEmails: Map<string, string>
+) {
+  const { accountEmail } = req.body || {};
+
+  if (!accountEmail) {
+    return res.status(400).json({
+      error: 'Account email is required',
+      code: 'MISSING_ACCOUNT_EMAIL'
+    });
+  }
+
+  const { rule, error: validationError } = validateRuleInput(req.body);
+  if (!rule) {
+    return res.status(400).json({ error: validationError, code: 'INVALID_RULE' });
+  }
+
+  const account = accounts.find(a => a.email === accountEmail);
+  if (!account) {
+    return res.status(404).json({
+      error: 'Email account not found',
+      code: 'ACCOUNT_NOT_FOUND'
+    });
+  }
+
+  // Rules run unattended on every sync - paid plans only
+  if (!(await isUserPaid(supabase, userId))) {
+    return res.status(403).json({
+      error: 'Sender rules require a paid plan.',
+      code: 'PLAN_UPGRADE_REQUIRED',
+    });
+  }
+
+  const { count } = await supabase
+    .from('sender_rules')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId);
+
+  if ((count || 0) >= MAX_RULES_PER_USER) {
+    return res.status(400).json({
+      error: `You can have at most ${MAX_RULES_PER_USER} rules`,
+      code: 'RULE_LIMIT_REACHED'
+    });
+  }
+
+  const { data: created, error } = await supabase
+    .from('sender_rules')
+    .insert({
+      ...rule,
+      user_id: userId,
+      email_account_id: account.id,
+      enabled: req.body.enabled ?? true,
+    })
+    .select('*')
+    .single();
+
+  if (error) {
+    // Unique (account, match_type, match_value, category, action)
+    if (error.code === '23505') {
+      return res.status(409).json({
+        error: 'An identical rule already exists',
+        code: 'RULE_EXISTS'
+      });
+    }
+    throw error;
+  }
+
+  return res.status(201).json({
+    success: true,
+    rule: toResponse(created, accountEmails.get(created.email_account_id) || accountEmail),
+  });
+}
+
+async function updateRule(
+  req: VercelRequest,
+  res: VercelResponse,
+  userId: string,
+  accountEmails: Map<string, string>
+) {
+  const id = (req.query.id as string) || req.body?.id;
+  if (!id) {
+    return res.status(400).json({ error: 'Rule ID is required', code: 'MISSING_RULE_ID' });
+  }
+
+  const { data: existing } = await supabase
+    .from('sender_rules')
+    .select('*')
+    .eq('id', id)
+    .eq('user_id', userId)
+    .single();
+
+  if (!existing) {
+    return res.status(404).json({ error: 'Rule not found', code: 'RULE_NOT_FOUND' });
+  }
+
+  // Validate the merged rule so partial updates can't produce an invalid one
+  const body = req.body || {};
+  const { rule, error: validationError } = validateRuleInput({
+    matchType: body.matchType ?? existing.match_type,
+    matchValue: body.matchValue ?? existing.match_value,
+    category: body.category ?? existing.category,
+    action: body.action ?? existing.action,
+    olderThanDays: 'olderThanDays' in body ? body.olderThanDays : existing.older_than_days,
+    keepLatest: 'keepLatest' in body ? body.keepLatest : existing.keep_latest,
+  });
+  if (!rule) {
+    return res.status(400).json({ error: validationError, code: 'INVALID_RULE' });
+  }
+
+  const enabled = typeof body.enabled === 'boolean' ? body.enabled : existing.enabled;
+  if (enabled && !existing.enabled && !(await isUserPaid(supabase, userId))) {
+    return res.status(403).json({
+      error: 'Sender rules require a paid plan.',
+      code: 'PLAN_UPGRADE_REQUIRED',
+    });
+  }
+
+  const { data: updated, error } = await supabase
+    .from('sender_rules')
+    .update({ ...rule, enabled, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('user_id', userId)
+    .select('*')
+    .single();
+
+  if (error) {
+    if (error.code === '23505') {
+      return res.status(409).json({
+        error: 'An identical rule already exists',
+        code: 'RULE_EXISTS'
+      });
+    }
+    throw error;
+  }
+
+  return res.status(200).json({
+    success: true,
+    rule: toResponse(updated, accountEmails.get(updated.email_account_id) || ''),
+  });
+}
+
+async function deleteRule(
+  req: VercelRequest,
+  res: VercelResponse,
+  userId: string
+) {
+  const id = (req.query.id as string) || req.body?.id;
+  if (!id) {
+    return res.status(400).json({ error: 'Rule ID is required', code: 'MISSING_RULE_ID' });
+  }
+
+  const { data: deleted, error } = await supabase
+    .from('sender_rules')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', userId)
+    .select('id');
+
+  if (error) throw error;
+
+  if (!deleted || deleted.length === 0) {
+    return res.status(404).json({ error: 'Rule not found', code: 'RULE_NOT_FOUND' });
+  }
+
+  return res.status(200).json({ success: true, id });
+}
+
+export default withSentry(handler);
@@ -0,0 +1,322 @@
+/**
+ * Cleanup Schedules Endpoint
+ *
+ * GET    /api/schedules?accountEmail=   - List schedules (optionally for one account)
+ * POST   /api/schedules                 - Create a schedule
+ * PATCH  /api/schedules?id=             - Update a schedule
+ * DELETE /api/schedules?id=             - Delete a schedule
+ *
+ * Schedules are run by the background worker (see api/lib/cleanup-schedules.ts);
+ * POST /api/schedules/preview shows what a schedule would do without running it.
+ * Creating or re-enabling schedules requires a paid plan.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { requireEmailVerification, AuthenticatedRequest } from '../lib/auth-middleware.js';
+import { rateLimit, RateLimitPresets } from '../lib/rate-limiter.js';
+import { isUserPaid } from '../lib/free-trial.js';
+import {
+  validateScheduleInput,
+  nextCronRun,
+  MAX_SCHEDULES_PER_USER,
+  CleanupSchedule
+} from '../lib/cleanup-schedules.js';
+import { withSentry } from '../lib/sentry.js';
+
+const supabase = createClient(
+  process.env.VITE_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+const limiter = rateLimit(RateLimitPresets.STANDARD);
+
+export interface CleanupScheduleResponse {
+  id: string;
+  accountEmail: string;
+  name: string | null;
+  cron: string;
+  timezone: string;
+  action: CleanupSchedule['action'];
+  senderEmails: string[];
+  newslettersOnly: boolean;
+  promotionalOnly: boolean;
+  olderThanDays: number | null;
+  unreadOnly: boolean;
+  enabled: boolean;
+  nextRunAt: string | null;
+  lastRunAt: string | null;
+  lastRunStatus: CleanupSchedule['last_run_status'];
+  lastRunCount: number | null;
+  lastRunError: string | null;
+  createdAt: string;
+}
+
+export function toScheduleResponse(schedule: CleanupSchedule, accountEmail: string): CleanupScheduleResponse {
+  return {
+    id: schedule.id,
+    accountEmail,
+    name: schedule.name,
+    cron: schedule.cron,
+    timezone: schedule.timezone,
+    action: schedule.action,
+    senderEmails: schedule.sender_emails || [],
+    newslettersOnly: schedule.newsletters_only,
+    promotionalOnly: schedule.promotional_only,
+    olderThanDays: schedule.older_than_days,
+    unreadOnly: schedule.unread_only,
+    enabled: schedule.enabled,
+    nextRunAt: schedule.enabled ? schedule.next_run_at : null,
+    lastRunAt: schedule.last_run_at || null,
+    lastRunStatus: schedule.last_run_status || null,
+    lastRunCount: schedule.last_run_count ?? null,
+    lastRunError: schedule.last_run_error || null,
+    createdAt: schedule.created_at!,
+  };
+}
+
+async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  if (!['GET', 'POST', 'PATCH', 'DELETE'].includes(req.method || '')) {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Rate limiting
+  if (await limiter(req, res)) return;
+
+  // Require authentication
+  const user = requireEmailVerification(req as AuthenticatedRequest, res);
+  if (!user) return;
+
+  try {
+    // Account emails are needed for every response shape
+    const { data: accounts } = await supabase
+      .from('email_accounts')
+      .select('id, email')
+      .eq('user_id', user.userId);
+    const accountEmails = new Map((accounts || []).map(a => [a.id, a.email]));
+
+    switch (req.method) {
+      case 'GET':
+        return await listSchedules(req, res, user.userId, accounts || [], accountEmails);
+      case 'POST':
+        return await createSchedule(req, res, user.userId, accounts || [], accountEmails);
+      case 'PATCH':
+        return await updateSchedule(req, res, user.userId, accountEmails);
+      default:
+        return await deleteSchedule(req, res, user.userId);
+    }
+  } catch (error: any) {
+    console.error('Cleanup schedules error:', error);
+    return res.status(500).json({
+      error: 'Failed to process cleanup schedules request',
+      code: 'SCHEDULES_ERROR'
+    });
+  }
+}
+
+async function listSchedules(
+  req: VercelRequest,
+  res: VercelResponse,
+  userId: string,
+  accounts: { id: string; email: string }[],
+  accountEmails: Map<string, string>
+) {
+  const accountEmail = req.query.accountEmail as string | undefined;
+
+  let query = supabase
+    .from('cleanup_schedules')
+    .select('*')
+    .eq('user_id', userId);
+
+  if (accountEmail) {
+    const account = accounts.find(a => a.email === accountEmail);
+    if (!account) {
+      return res.status(404).json({
+        error: 'Email account not found',
+        code: 'ACCOUNT_NOT_FOUND'
+      });
+    }
+    query = query.eq('email_account_id', account.id);
+  }
+
+  const { data: schedules, error } = await query.order('created_at', { ascending: true });
+  if (error) throw error;
+
+  return res.status(200).json({
+    schedules: (schedules || []).map(s => toScheduleResponse(s, accountEmails.get(s.email_account_id) || '')),
+  });
+}
+
+async function createSchedule(
+  req: VercelRequest,
+  res: VercelResponse,
+  userId: string,
+  accounts: { id: string; email: string }[],
+  accountEmails: Map<string, string>
+) {
+  const { accountEmail } = req.body || {};
+
+  if (!accountEmail) {
+    return res.status(400).json({
+      error: 'Account email is required',
+      code: 'MISSING_ACCOUNT_EMAIL'
+    });
+  }
+
+  const { schedule, error: validationError } = validateScheduleInput(req.body);
+  if (!schedule) {
+    return res.status(400).json({ error: validationError, code: 'INVALID_SCHEDULE' });
+  }
+
+  const account = accounts.find(a => a.email === accountEmail);
+  if (!account) {
+    return res.status(404).json({
+      error: 'Email account not found',
+      code: 'ACCOUNT_NOT_FOUND'
+    });
+  }
+
+  // Schedules run unattended - paid plans only
+  if (!(await isUserPaid(supabase, userId))) {
+    return res.status(403).json({
+      error: 'Cleanup schedules require a paid plan.',
+      code: 'PLAN_UPGRADE_REQUIRED',
+    });
+  }
+
+  const { count } = await supabase
+    .from('cleanup_schedules')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId);
+
+  if ((count || 0) >= MAX_SCHEDULES_PER_USER) {
+    return res.status(400).json({
+      error: `You can have at most ${MAX_SCHEDULES_PER_USER} schedules`,
+      code: 'SCHEDULE_LIMIT_REACHED'
+    });
+  }
+
+  const enabled = req.body.enabled ?? true;
+  const nextRun = nextCronRun(schedule.cron, new Date(), schedule.timezone);
+
+  const { data: created, error } = await supabase
+    .from('cleanup_schedules')
+    .insert({
+      ...schedule,
+      user_id: userId,
+      email_account_id: account.id,
+      enabled,
+      next_run_at: nextRun ? nextRun.toISOString() : null,
+    })
+    .select('*')
+    .single();
+
+  if (error) throw error;
+
+  return res.status(201).json({
+    success: true,
+    schedule: toScheduleResponse(created, accountEmails.get(created.email_account_id) || accountEmail),
+  });
+}
+
+async function updateSchedule(
+  req: VercelRequest,
+  res: VercelResponse,
+  userId: string,
+  accountEmails: Map<string, string>
+) {
+  const id = (req.query.id as string) || req.body?.id;
+  if (!id) {
+    return res.status(400).json({ error: 'Schedule ID is required', code: 'MISSING_SCHEDULE_ID' });
+  }
+
+  const { data: existing } = await supabase
+    .from('cleanup_schedules')
+    .select('*')
+    .eq('id', id)
+    .eq('user_id', userId)
+    .single();
+
+  if (!existing) {
+    return res.status(404).json({ error: 'Schedule not found', code: 'SCHEDULE_NOT_FOUND' });
+  }
+
+  // Validate the merged schedule so partial updates can't produce an invalid one
+  const body = req.body || {};
+  const { schedule, error: validationError } = validateScheduleInput({
+    name: 'name' in body ? body.name : existing.name,
+    cron: body.cron ?? existing.cron,
+    timezone: body.timezone ?? existing.timezone,
+    action: body.action ?? existing.action,
+    senderEmails: body.senderEmails ?? existing.sender_emails,
+    newslettersOnly: body.newslettersOnly ?? existing.newsletters_only,
+    promotionalOnly: body.promotionalOnly ?? existing.promotional_only,
+    olderThanDays: 'olderThanDays' in body ? body.olderThanDays : existing.older_than_days,
+    unreadOnly: body.unreadOnly ?? existing.unread_only,
+  });
+  if (!schedule) {
+    return res.status(400).json({ error: validationError, code: 'INVALID_SCHEDULE' });
+  }
+
+  const enabled = typeof body.enabled === 'boolean' ? body.enabled : existing.enabled;
+  if (enabled && !existing.enabled && !(await isUserPaid(supabase, userId))) {
+    return res.status(403).json({
+      error: 'Cleanup schedules require a paid plan.',
+      code: 'PLAN_UPGRADE_REQUIRED',
+    });
+  }
+
+  // Recompute from now - a changed cron or a re-enabled schedule shouldn't fire a missed run
+  const nextRun = nextCronRun(schedule.cron, new Date(), schedule.timezone);
+
+  const { data: updated, error } = await supabase
+    .from('cleanup_schedules')
+    .update({
+      ...schedule,
+      enabled,
+      next_run_at: nextRun ? nextRun.toISOString() : null,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', id)
+    .eq('user_id', userId)
+    .select('*')
+    .single();
+
+  if (error) throw error;
+
+  return res.status(200).json({
+    success: true,
+    schedule: toScheduleResponse(updated, accountEmails.get(updated.email_account_id) || ''),
+  });
+}
+
+async function deleteSchedule(
+  req: VercelRequest,
+  res: VercelResponse,
+  userId: string
+) {
+  const id = (req.query.id as string) || req.body?.id;
+  if (!id) {
+    return res.status(400).json({ error: 'Schedule ID is required', code: 'MISSING_SCHEDULE_ID' });
+  }
+
+  const { data: deleted, error } = await supabase
+    .from('cleanup_schedules')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', userId)
+    .select('id');
+
+  if (error) throw error;
+
+  if (!deleted || deleted.length === 0) {
+    return res.status(404).json({ error: 'Schedule not found', code: 'SCHEDULE_NOT_FOUND' });
+  }
+
+  return res.status(200).json({ success: true, id });
+}
+
+export default withSentry(handler);
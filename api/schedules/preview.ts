@@ -0,0 +1,155 @@
+/**
+ * Cleanup Schedule Preview (dry run)
+ *
+ * POST /api/schedules/preview
+ *
+ * Shows what a schedule would do if it ran now, without touching the mailbox.
+ * Pass `id` to preview a saved schedule, or `accountEmail` plus schedule fields
+ * (same shape as POST /api/schedules) to preview one before saving it.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { requireEmailVerification, AuthenticatedRequest } from '../lib/auth-middleware.js';
+import { rateLimit, RateLimitPresets } from '../lib/rate-limiter.js';
+import {
+  validateScheduleInput,
+  findScheduleMatches,
+  describeSchedule,
+  nextCronRun,
+  MAX_EMAILS_PER_RUN
+} from '../lib/cleanup-schedules.js';
+import { withSentry } from '../lib/sentry.js';
+
+const supabase = createClient(
+  process.env.VITE_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+const limiter = rateLimit(RateLimitPresets.STANDARD);
+
+const PREVIEW_SENDER_LIMIT = 50;
+const PREVIEW_RUN_COUNT = 3;
+
+async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  // Only allow POST
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Rate limiting
+  if (await limiter(req, res)) return;
+
+  // Require authentication
+  const user = requireEmailVerification(req as AuthenticatedRequest, res);
+  if (!user) return;
+
+  const { id, accountEmail } = req.body || {};
+
+  if (!id && !accountEmail) {
+    return res.status(400).json({
+      error: 'Schedule ID or account email is required',
+      code: 'MISSING_ACCOUNT_EMAIL'
+    });
+  }
+
+  try {
+    let accountId: string;
+    let input: any = req.body;
+
+    if (id) {
+      const { data: existing } = await supabase
+        .from('cleanup_schedules')
+        .select('*')
+        .eq('id', id)
+        .eq('user_id', user.userId)
+        .single();
+
+      if (!existing) {
+        return res.status(404).json({ error: 'Schedule not found', code: 'SCHEDULE_NOT_FOUND' });
+      }
+
+      accountId = existing.email_account_id;
+      input = {
+        name: existing.name,
+        cron: existing.cron,
+        timezone: existing.timezone,
+        action: existing.action,
+        senderEmails: existing.sender_emails,
+        newslettersOnly: existing.newsletters_only,
+        promotionalOnly: existing.promotional_only,
+        olderThanDays: existing.older_than_days,
+        unreadOnly: existing.unread_only,
+      };
+    } else {
+      const { data: account, error: accountError } = await supabase
+        .from('email_accounts')
+        .select('id')
+        .eq('user_id', user.userId)
+        .eq('email', accountEmail)
+        .single();
+
+      if (accountError || !account) {
+        return res.status(404).json({
+          error: 'Email account not found',
+          code: 'ACCOUNT_NOT_FOUND'
+        });
+      }
+      accountId = account.id;
+    }
+
+    const { schedule, error: validationError } = validateScheduleInput(input);
+    if (!schedule) {
+      return res.status(400).json({ error: validationError, code: 'INVALID_SCHEDULE' });
+    }
+
+    const matches = await findScheduleMatches(accountId, schedule);
+
+    const senderCounts = new Map<string, { senderEmail: string; senderName: string; count: number }>();
+    for (const email of matches.slice(0, MAX_EMAILS_PER_RUN)) {
+      const key = `${email.sender_email}|||${email.sender_name}`;
+      const existing = senderCounts.get(key);
+      if (existing) {
+        existing.count++;
+      } else {
+        senderCounts.set(key, { senderEmail: email.sender_email, senderName: email.sender_name, count: 1 });
+      }
+    }
+
+    const nextRuns: string[] = [];
+    let after = new Date();
+    for (let i = 0; i < PREVIEW_RUN_COUNT; i++) {
+      const next = nextCronRun(schedule.cron, after, schedule.timezone);
+      if (!next) break;
+      nextRuns.push(next.toISOString());
+      after = next;
+    }
+
+    return res.status(200).json({
+      success: true,
+      dryRun: true,
+      description: describeSchedule(schedule),
+      action: schedule.action,
+      totalMatches: matches.length,
+      // Each run acts on at most MAX_EMAILS_PER_RUN emails, oldest first
+      wouldProcess: Math.min(matches.length, MAX_EMAILS_PER_RUN),
+      senderCount: senderCounts.size,
+      senders: [...senderCounts.values()]
+        .sort((a, b) => b.count - a.count)
+        .slice(0, PREVIEW_SENDER_LIMIT),
+      nextRuns,
+    });
+
+  } catch (error: any) {
+    console.error('Cleanup schedule preview error:', error);
+    return res.status(500).json({
+      error: 'Failed to preview cleanup schedule',
+      code: 'PREVIEW_ERROR'
+    });
+  }
+}
+
+export default withSentry(handler);
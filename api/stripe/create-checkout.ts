@@ -15,6 +15,7 @@ import Stripe from 'stripe';
 import { createClient } from '@supabase/supabase-js';
 import jwt from 'jsonwebtoken';
 import { requireEnv } from '../lib/env.js';
+import { withIdempotency } from '../lib/idempotency.js';
 
 
 const JWT_SECRET = requireEnv('JWT_SECRET');
@@ -38,7 +39,7 @@ const PLAN_PRICES: Record<string, { monthly: number; annual: number }> = {
 
 const ONETIME_PRICE = 1999; // $19.99 one-time
 
-export default async function handler(
+async function handler(
   req: VercelRequest,
   res: VercelResponse
 ) {
@@ -242,3 +243,5 @@ export default async function handler(
     });
   }
 }
+
+export default withIdempotency(handler);
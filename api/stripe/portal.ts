@@ -12,6 +12,7 @@ import Stripe from 'stripe';
 import { createClient } from '@supabase/supabase-js';
 import jwt from 'jsonwebtoken';
 import { requireEnv } from '../lib/env.js';
+import { withIdempotency } from '../lib/idempotency.js';
 
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!);
@@ -27,7 +28,7 @@ interface JWTPayload {
   email: string;
 }
 
-export default async function handler(
+async function handler(
   req: VercelRequest,
   res: VercelResponse
 ) {
@@ -76,3 +77,5 @@ export default async function handler(
     return res.status(500).json({ error: 'Failed to create billing portal session' });
   }
 }
+
+export default withIdempotency(handler);
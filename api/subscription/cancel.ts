@@ -12,6 +12,7 @@ import { createClient } from '@supabase/supabase-js';
 import Stripe from 'stripe';
 import jwt from 'jsonwebtoken';
 import { requireEnv } from '../lib/env.js';
+import { withIdempotency } from '../lib/idempotency.js';
 
 
 const supabase = createClient(
@@ -26,7 +27,7 @@ interface JWTPayload {
   email: string;
 }
 
-export default async function handler(
+async function handler(
   req: VercelRequest,
   res: VercelResponse
 ) {
@@ -168,3 +169,5 @@ export default async function handler(
     return res.status(500).json({ error: 'Internal server error' });
   }
 }
+
+export default withIdempotency(handler);
@@ -0,0 +1,98 @@
+/**
+ * Gmail Push Replay Harness
+ * Replays recorded Pub/Sub push payloads against a local /api/gmail/push
+ * Run with: npx tsx replay-gmail-push.ts [fixture.json ...] [--url URL] [--email ADDRESS] [--history-id ID]
+ *
+ * Defaults to every fixture in api/lib/__tests__/fixtures/gmail-push and
+ * http://localhost:3001/api/gmail/push. --email / --history-id rewrite the
+ * notification so it targets a connected account in your local database.
+ * Uses GMAIL_PUSH_VERIFICATION_TOKEN from the environment (same as server.ts).
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+const FIXTURES_DIR = path.join('api', 'lib', '__tests__', 'fixtures', 'gmail-push');
+
+function parseArgs(argv: string[]) {
+  const options = {
+    url: 'http://localhost:3001/api/gmail/push',
+    email: undefined as string | undefined,
+    historyId: undefined as string | undefined,
+    files: [] as string[],
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--url') options.url = argv[++i];
+    else if (arg === '--email') options.email = argv[++i];
+    else if (arg === '--history-id') options.historyId = argv[++i];
+    else options.files.push(arg);
+  }
+
+  if (options.files.length === 0) {
+    options.files = fs.readdirSync(FIXTURES_DIR)
+      .filter(name => name.endsWith('.json'))
+      .sort()
+      .map(name => path.join(FIXTURES_DIR, name));
+  }
+
+  return options;
+}
+
+/**
+ * Rewrite the base64 notification inside a push body
+ */
+function rewritePayload(body: any, email?: string, historyId?: string): any {
+  if (!email && !historyId) return body;
+
+  const data = body?.message?.data
+    ? JSON.parse(Buffer.from(body.message.data, 'base64').toString('utf-8'))
+    : {};
+  if (email) data.emailAddress = email;
+  if (historyId) data.historyId = historyId;
+
+  return {
+    ...body,
+    message: {
+      ...body.message,
+      data: Buffer.from(JSON.stringify(data)).toString('base64'),
+    },
+  };
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const token = process.env.GMAIL_PUSH_VERIFICATION_TOKEN || '';
+  if (!token) {
+    console.warn('⚠️  GMAIL_PUSH_VERIFICATION_TOKEN is not set - the server will reject every push');
+  }
+
+  const url = new URL(options.url);
+  url.searchParams.set('token', token);
+
+  let failed = 0;
+  for (const file of options.files) {
+    const body = rewritePayload(JSON.parse(fs.readFileSync(file, 'utf-8')), options.email, options.historyId);
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const ok = response.status >= 200 && response.status < 300;
+      if (!ok) failed++;
+      const text = await response.text();
+      console.log(`${ok ? '✅' : '❌'} ${path.basename(file)} -> ${response.status}${text ? ` ${text}` : ''}`);
+    } catch (error: any) {
+      failed++;
+      console.log(`❌ ${path.basename(file)} -> ${error.message}`);
+    }
+  }
+
+  console.log(`\nReplayed ${options.files.length} payload(s), ${failed} failed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
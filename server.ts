@@ -21,15 +21,26 @@ import googleOAuthCallback from './api/auth/oauth/callback.js';
 import gmailConnect from './api/gmail/connect.js';
 import gmailCallback from './api/gmail/callback.js';
 import gmailDisconnect from './api/gmail/disconnect.js';
+import gmailPush from './api/gmail/push.js';
 
 // Outlook OAuth routes
 import outlookConnect from './api/outlook/connect.js';
 import outlookCallback from './api/outlook/callback.js';
 import outlookDisconnect from './api/outlook/disconnect.js';
+import outlookNotifications from './api/outlook/notifications.js';
+
+// IMAP routes (Yahoo, iCloud)
+import imapConnect from './api/imap/connect.js';
+import imapDisconnect from './api/imap/disconnect.js';
 
 // Email routes
 import emailsSync from './api/emails/sync.js';
 import emailsSenders from './api/emails/senders.js';
+import emailsDomains from './api/emails/domains.js';
+import emailsLists from './api/emails/lists.js';
+import emailsLarge from './api/emails/large.js';
+import emailsRecommendations from './api/emails/recommendations.js';
+import emailsSenderGroups from './api/emails/sender-groups.js';
 import emailsBySender from './api/emails/by-sender.js';
 import emailsGet from './api/emails/get.js';
 import emailsDebugSender from './api/emails/debug-sender.js';
@@ -38,8 +49,27 @@ import emailsSyncProgress from './api/emails/sync-progress.js';
 // Cleanup routes
 import cleanupDelete from './api/cleanup/delete.js';
 import cleanupDeleteSingle from './api/cleanup/delete-single.js';
+import cleanupDeleteOlderThan from './api/cleanup/delete-older-than.js';
+import cleanupDeleteList from './api/cleanup/delete-list.js';
+import cleanupDeleteLarge from './api/cleanup/delete-large.js';
 import cleanupArchive from './api/cleanup/archive.js';
 import cleanupUnsubscribe from './api/cleanup/unsubscribe.js';
+import cleanupUndo from './api/cleanup/undo.js';
+import cleanupJobs from './api/cleanup/jobs.js';
+import cleanupTrash from './api/cleanup/trash.js';
+import cleanupMarkRead from './api/cleanup/mark-read.js';
+import cleanupMute from './api/cleanup/mute.js';
+
+// Progress routes
+import progressStream from './api/progress/stream.js';
+import progressStatus from './api/progress/status.js';
+
+// Rules routes
+import rules from './api/rules/index.js';
+
+// Cleanup schedule routes
+import schedules from './api/schedules/index.js';
+import schedulesPreview from './api/schedules/preview.js';
 
 // Subscription routes
 import subscriptionGet from './api/subscription/get.js';
@@ -170,15 +200,27 @@ app.get('/api/auth/oauth/callback', wrapHandler(googleOAuthCallback));
 app.get('/api/gmail/connect', wrapHandler(gmailConnect));
 app.get('/api/gmail/callback', wrapHandler(gmailCallback));
 app.post('/api/gmail/disconnect', wrapHandler(gmailDisconnect));
+app.post('/api/gmail/push', wrapHandler(gmailPush));
 
 // Outlook OAuth routes
 app.get('/api/outlook/connect', wrapHandler(outlookConnect));
 app.get('/api/outlook/callback', wrapHandler(outlookCallback));
 app.post('/api/outlook/disconnect', wrapHandler(outlookDisconnect));
+app.post('/api/outlook/notifications', wrapHandler(outlookNotifications));
+
+// IMAP routes (Yahoo, iCloud)
+app.post('/api/imap/connect', wrapHandler(imapConnect));
+app.post('/api/imap/disconnect', wrapHandler(imapDisconnect));
 
 // Email routes
 app.post('/api/emails/sync', wrapHandler(emailsSync));
 app.get('/api/emails/senders', wrapHandler(emailsSenders));
+app.get('/api/emails/domains', wrapHandler(emailsDomains));
+app.get('/api/emails/lists', wrapHandler(emailsLists));
+app.get('/api/emails/large', wrapHandler(emailsLarge));
+app.get('/api/emails/recommendations', wrapHandler(emailsRecommendations));
+app.get('/api/emails/sender-groups', wrapHandler(emailsSenderGroups));
+app.post('/api/emails/sender-groups', wrapHandler(emailsSenderGroups));
 app.get('/api/emails/by-sender', wrapHandler(emailsBySender));
 app.get('/api/emails/get', wrapHandler(emailsGet));
 app.get('/api/emails/debug-sender', wrapHandler(emailsDebugSender));
@@ -187,8 +229,38 @@ app.get('/api/emails/sync-progress', wrapHandler(emailsSyncProgress));
 // Cleanup routes
 app.post('/api/cleanup/delete', wrapHandler(cleanupDelete));
 app.post('/api/cleanup/delete-single', wrapHandler(cleanupDeleteSingle));
+app.post('/api/cleanup/delete-older-than', wrapHandler(cleanupDeleteOlderThan));
+app.post('/api/cleanup/delete-list', wrapHandler(cleanupDeleteList));
+app.post('/api/cleanup/delete-large', wrapHandler(cleanupDeleteLarge));
 app.post('/api/cleanup/archive', wrapHandler(cleanupArchive));
 app.post('/api/cleanup/unsubscribe', wrapHandler(cleanupUnsubscribe));
+app.post('/api/cleanup/undo', wrapHandler(cleanupUndo));
+app.get('/api/cleanup/jobs', wrapHandler(cleanupJobs));
+app.post('/api/cleanup/jobs', wrapHandler(cleanupJobs));
+app.patch('/api/cleanup/jobs', wrapHandler(cleanupJobs));
+app.delete('/api/cleanup/jobs', wrapHandler(cleanupJobs));
+app.get('/api/cleanup/trash', wrapHandler(cleanupTrash));
+app.post('/api/cleanup/trash', wrapHandler(cleanupTrash));
+app.post('/api/cleanup/mark-read', wrapHandler(cleanupMarkRead));
+app.get('/api/cleanup/mute', wrapHandler(cleanupMute));
+app.post('/api/cleanup/mute', wrapHandler(cleanupMute));
+
+// Progress routes
+app.get('/api/progress/stream', wrapHandler(progressStream));
+app.get('/api/progress/status', wrapHandler(progressStatus));
+
+// Rules routes
+app.get('/api/rules', wrapHandler(rules));
+app.post('/api/rules', wrapHandler(rules));
+app.patch('/api/rules', wrapHandler(rules));
+app.delete('/api/rules', wrapHandler(rules));
+
+// Cleanup schedule routes
+app.get('/api/schedules', wrapHandler(schedules));
+app.post('/api/schedules', wrapHandler(schedules));
+app.patch('/api/schedules', wrapHandler(schedules));
+app.delete('/api/schedules', wrapHandler(schedules));
+app.post('/api/schedules/preview', wrapHandler(schedulesPreview));
 
 // Subscription routes
 app.get('/api/subscription/get', wrapHandler(subscriptionGet));
@@ -1,15 +1,29 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Sender } from '../../hooks/useEmailSenders';
+import { CleanupPreview } from '../../hooks/useCleanupActions';
+import { PERMANENT_DELETE_CONFIRMATION } from '../../hooks/useTrash';
 
 interface CleanupConfirmModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onConfirm: () => Promise<void>;
+  onConfirm: (options: { permanent: boolean }) => Promise<void>;
   action: 'delete' | 'archive' | 'unsubscribe';
   senders: Sender[];
   loading?: boolean;
+  // Server dry run - exact counts and warnings; falls back to cached sender counts while loading
+  preview?: CleanupPreview | null;
+  previewLoading?: boolean;
+  // Offer "skip the trash" on deletes
+  allowPermanent?: boolean;
 }
 
+const UNSUBSCRIBE_METHOD_LABELS = {
+  one_click: 'automatic (one-click)',
+  mailto: 'unsubscribe email',
+  manual: 'opens the sender\'s page',
+  none: 'no link found yet',
+};
+
 export const CleanupConfirmModal = ({
   isOpen,
   onClose,
@@ -17,12 +31,27 @@ export const CleanupConfirmModal = ({
   action,
   senders,
   loading = false,
+  preview = null,
+  previewLoading = false,
+  allowPermanent = false,
 }: CleanupConfirmModalProps) => {
   const [confirming, setConfirming] = useState(false);
+  const [permanent, setPermanent] = useState(false);
+  const [typedConfirmation, setTypedConfirmation] = useState('');
+
+  // Permanent delete is opt-in every time
+  useEffect(() => {
+    if (!isOpen) {
+      setPermanent(false);
+      setTypedConfirmation('');
+    }
+  }, [isOpen]);
 
   if (!isOpen) return null;
 
-  const totalEmails = senders.reduce((sum, s) => sum + s.emailCount, 0);
+  const totalEmails = preview ? preview.totalMatches : senders.reduce((sum, s) => sum + s.emailCount, 0);
+  const previewSenders = new Map((preview?.senders || []).map(s => [`${s.senderName}|||${s.senderEmail}`, s]));
+  const methods = new Map((preview?.methods || []).map(m => [m.senderEmail, m.method]));
 
   const actionConfig = {
     delete: {
@@ -60,18 +89,27 @@ export const CleanupConfirmModal = ({
     },
   };
 
-  const config = actionConfig[action];
+  const isPermanent = action === 'delete' && allowPermanent && permanent;
+  const config = isPermanent
+    ? {
+        ...actionConfig.delete,
+        title: 'Permanently Delete Emails',
+        description: 'This will delete all emails from the selected senders forever, skipping the trash.',
+        buttonText: 'Delete forever',
+      }
+    : actionConfig[action];
 
   const handleConfirm = async () => {
     setConfirming(true);
     try {
-      await onConfirm();
+      await onConfirm({ permanent: isPermanent });
     } finally {
       setConfirming(false);
     }
   };
 
   const isLoading = loading || confirming;
+  const awaitingConfirmation = isPermanent && typedConfirmation !== PERMANENT_DELETE_CONFIRMATION;
 
   return (
     <div className="fixed inset-0 z-50 overflow-y-auto">
@@ -120,7 +158,9 @@ export const CleanupConfirmModal = ({
             {action !== 'unsubscribe' && (
               <div className="flex items-center justify-between">
                 <span className="text-gray-600 dark:text-gray-400">Total emails:</span>
-                <span className="font-semibold text-gray-900 dark:text-gray-100">{totalEmails.toLocaleString()}</span>
+                <span className="font-semibold text-gray-900 dark:text-gray-100">
+                  {previewLoading && !preview ? 'Counting...' : totalEmails.toLocaleString()}
+                </span>
               </div>
             )}
 
@@ -128,21 +168,78 @@ export const CleanupConfirmModal = ({
             {senders.length <= 5 && (
               <div className="mt-3 pt-3 border-t border-gray-200 dark:border-gray-700">
                 <ul className="space-y-1">
-                  {senders.map(sender => (
-                    <li key={sender.email} className="text-sm text-gray-600 dark:text-gray-400 truncate">
-                      {sender.name || sender.email} ({sender.emailCount} emails)
-                      {action === 'unsubscribe' && sender.lastEmailDate && (
-                        <span className="text-gray-400 ml-1">
-                          — last email {new Date(sender.lastEmailDate).toLocaleDateString()}
-                        </span>
-                      )}
-                    </li>
-                  ))}
+                  {senders.map(sender => {
+                    const senderPreview = previewSenders.get(`${sender.name}|||${sender.email}`);
+                    const method = methods.get(sender.email);
+                    return (
+                      <li key={sender.email} className="text-sm text-gray-600 dark:text-gray-400">
+                        <div className="truncate">
+                          {sender.name || sender.email} ({(senderPreview?.count ?? sender.emailCount).toLocaleString()} emails)
+                          {action === 'unsubscribe' && sender.lastEmailDate && (
+                            <span className="text-gray-400 ml-1">
+                              — last email {new Date(sender.lastEmailDate).toLocaleDateString()}
+                            </span>
+                          )}
+                        </div>
+                        {method && (
+                          <div className="text-xs text-gray-400">Method: {UNSUBSCRIBE_METHOD_LABELS[method]}</div>
+                        )}
+                        {senderPreview?.sampleSubjects.map((subject, i) => (
+                          <div key={i} className="text-xs text-gray-400 truncate pl-3">“{subject}”</div>
+                        ))}
+                      </li>
+                    );
+                  })}
                 </ul>
               </div>
             )}
           </div>
 
+          {/* Dry-run warnings (possible receipts/security mail, unsynced senders) */}
+          {preview && preview.warnings.length > 0 && (
+            <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg p-3 mb-6 space-y-2">
+              {preview.warnings.map((warning, i) => (
+                <div key={`${warning.type}-${i}`} className="text-sm text-amber-800 dark:text-amber-300">
+                  <p className="font-medium">{warning.message}</p>
+                  {warning.sampleSubjects.slice(0, 2).map((subject, i) => (
+                    <p key={i} className="text-xs truncate opacity-80">“{subject}”</p>
+                  ))}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Permanent delete - opt-in, with a typed confirmation */}
+          {action === 'delete' && allowPermanent && (
+            <div className="mb-6">
+              <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={permanent}
+                  onChange={e => setPermanent(e.target.checked)}
+                  disabled={isLoading}
+                  className="w-4 h-4 text-red-600 rounded border-gray-300 focus:ring-red-500"
+                />
+                Permanently delete (skip the trash)
+              </label>
+              {isPermanent && (
+                <div className="mt-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-3">
+                  <p className="text-sm text-red-800 dark:text-red-300">
+                    These emails can't be undone or recovered from the trash. Type {PERMANENT_DELETE_CONFIRMATION} to confirm.
+                  </p>
+                  <input
+                    value={typedConfirmation}
+                    onChange={e => setTypedConfirmation(e.target.value)}
+                    placeholder={PERMANENT_DELETE_CONFIRMATION}
+                    aria-label="Type DELETE to confirm"
+                    disabled={isLoading}
+                    className="mt-2 w-full px-3 py-1.5 text-sm border border-red-300 dark:border-red-700 rounded-lg bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-red-500"
+                  />
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Actions */}
           <div className="flex gap-3">
             <button
@@ -154,7 +251,7 @@ export const CleanupConfirmModal = ({
             </button>
             <button
               onClick={handleConfirm}
-              disabled={isLoading}
+              disabled={isLoading || awaitingConfirmation}
               className={`flex-1 px-4 py-2 text-white rounded-lg font-medium flex items-center justify-center gap-2 disabled:opacity-50 ${config.buttonClass}`}
             >
               {isLoading ? (
@@ -1,6 +1,7 @@
 import { useState, useMemo } from 'react';
 import { Sender } from '../../hooks/useEmailSenders';
 import SenderCard from './SenderCard';
+import { groupSendersByDomain } from './cleanup/emailCleanupUtils';
 
 interface SenderListProps {
   senders: Sender[];
@@ -33,6 +34,8 @@ export const SenderList = ({
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
   const [expandedYears, setExpandedYears] = useState<Set<string>>(new Set([new Date().getFullYear().toString()]));
   const [filter, setFilter] = useState<'all' | 'newsletter' | 'promotional' | 'unsubscribable'>('all');
+  const [groupBy, setGroupBy] = useState<'year' | 'domain'>('year');
+  const [expandedDomains, setExpandedDomains] = useState<Set<string>>(new Set());
 
   // Filter and sort senders
   const filteredSenders = useMemo(() => {
@@ -43,7 +46,8 @@ export const SenderList = ({
       const lowerSearch = searchTerm.toLowerCase();
       result = result.filter(s =>
         s.name.toLowerCase().includes(lowerSearch) ||
-        s.email.toLowerCase().includes(lowerSearch)
+        s.email.toLowerCase().includes(lowerSearch) ||
+        (s.domain || '').includes(lowerSearch)
       );
     }
 
@@ -91,6 +95,9 @@ export const SenderList = ({
 
   const years = Object.keys(sendersByYear).sort((a, b) => parseInt(b) - parseInt(a));
 
+  // Group by registrable domain (company), largest first
+  const domainGroups = useMemo(() => groupSendersByDomain(filteredSenders), [filteredSenders]);
+
   const handleSelectSender = (senderKey: string, selected: boolean) => {
     const newSelected = new Set(selectedKeys);
     if (selected) {
@@ -119,6 +126,29 @@ export const SenderList = ({
     setExpandedYears(newExpanded);
   };
 
+  const toggleDomain = (domain: string) => {
+    const newExpanded = new Set(expandedDomains);
+    if (newExpanded.has(domain)) {
+      newExpanded.delete(domain);
+    } else {
+      newExpanded.add(domain);
+    }
+    setExpandedDomains(newExpanded);
+  };
+
+  const renderSenderCard = (sender: Sender) => (
+    <SenderCard
+      key={getSenderKey(sender)}
+      sender={sender}
+      isSelected={selectedKeys.has(getSenderKey(sender))}
+      onSelect={(senderKey, selected) => handleSelectSender(senderKey, selected)}
+      onDelete={onDelete}
+      onArchive={onArchive}
+      onUnsubscribe={onUnsubscribe}
+      disabled={disabled}
+    />
+  );
+
   const selectedSenders = filteredSenders.filter(s => selectedKeys.has(getSenderKey(s)));
   const totalSelectedEmails = selectedSenders.reduce((sum, s) => sum + s.emailCount, 0);
 
@@ -180,6 +210,16 @@ export const SenderList = ({
           <option value="unsubscribable">Can unsubscribe</option>
         </select>
 
+        {/* Group */}
+        <select
+          value={groupBy}
+          onChange={(e) => setGroupBy(e.target.value as typeof groupBy)}
+          className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-800 dark:text-gray-100"
+        >
+          <option value="year">Group by year</option>
+          <option value="domain">Group by domain</option>
+        </select>
+
         {/* Sort */}
         <div className="flex items-center gap-2">
           <select
@@ -254,9 +294,64 @@ export const SenderList = ({
         </span>
       </div>
 
+      {/* Sender List by Domain */}
+      {groupBy === 'domain' && (
+        <div className="space-y-4">
+          {domainGroups.map(group => (
+            <div key={group.domain} className="border border-gray-200 dark:border-gray-700 rounded-lg overflow-hidden">
+              {/* Domain Header */}
+              <div className="flex items-center justify-between p-4 bg-gray-50 dark:bg-gray-800">
+                <button
+                  onClick={() => toggleDomain(group.domain)}
+                  className="flex-1 flex items-center gap-3 text-left"
+                >
+                  <svg
+                    className={`w-5 h-5 text-gray-500 dark:text-gray-400 transition-transform ${expandedDomains.has(group.domain) ? 'rotate-90' : ''}`}
+                    fill="none"
+                    viewBox="0 0 24 24"
+                    stroke="currentColor"
+                  >
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                  </svg>
+                  <span className="font-semibold text-gray-900 dark:text-gray-100">{group.domain}</span>
+                  <span className="text-sm text-gray-500 dark:text-gray-400">
+                    {group.senders.length} sender{group.senders.length !== 1 ? 's' : ''}
+                    {' • '}{group.emailCount.toLocaleString()} emails
+                    {group.unreadCount > 0 && ` • ${group.unreadCount.toLocaleString()} unread`}
+                  </span>
+                </button>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => onBulkArchive(group.senders)}
+                    disabled={disabled}
+                    className="px-3 py-1.5 text-sm font-medium text-blue-600 dark:text-blue-400 bg-white dark:bg-gray-900 border border-blue-300 dark:border-blue-700 rounded-lg hover:bg-blue-50 dark:hover:bg-blue-900/30 disabled:opacity-50"
+                  >
+                    Archive all
+                  </button>
+                  <button
+                    onClick={() => onBulkDelete(group.senders)}
+                    disabled={disabled}
+                    className="px-3 py-1.5 text-sm font-medium text-white bg-red-600 rounded-lg hover:bg-red-700 disabled:opacity-50"
+                  >
+                    Delete all
+                  </button>
+                </div>
+              </div>
+
+              {/* Senders */}
+              {expandedDomains.has(group.domain) && (
+                <div className="divide-y divide-gray-100 dark:divide-gray-800">
+                  {group.senders.map(renderSenderCard)}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Sender List by Year */}
       <div className="space-y-4">
-        {years.map(year => (
+        {groupBy === 'year' && years.map(year => (
           <div key={year} className="border border-gray-200 dark:border-gray-700 rounded-lg overflow-hidden">
             {/* Year Header */}
             <button
@@ -282,18 +377,7 @@ export const SenderList = ({
             {/* Senders */}
             {expandedYears.has(year) && (
               <div className="divide-y divide-gray-100 dark:divide-gray-800">
-                {sendersByYear[year].map(sender => (
-                  <SenderCard
-                    key={getSenderKey(sender)}
-                    sender={sender}
-                    isSelected={selectedKeys.has(getSenderKey(sender))}
-                    onSelect={(senderKey, selected) => handleSelectSender(senderKey, selected)}
-                    onDelete={onDelete}
-                    onArchive={onArchive}
-                    onUnsubscribe={onUnsubscribe}
-                    disabled={disabled}
-                  />
-                ))}
+                {sendersByYear[year].map(renderSenderCard)}
               </div>
             )}
           </div>
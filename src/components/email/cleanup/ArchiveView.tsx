@@ -1,24 +1,148 @@
-import React from 'react';
+import React, { useState, useEffect } from 'react';
+import { Trash2, RefreshCw } from 'lucide-react';
 import { Sender } from '../../../hooks/useEmailSenders';
+import { OlderThanFilters, OlderThanPreview } from '../../../hooks/useCleanupActions';
 import SenderAvatar from './SenderAvatar';
 import { getSenderKey } from './emailCleanupUtils';
 
+const AGE_OPTIONS = [30, 60, 90, 180, 365];
+
 interface ArchiveViewProps {
   senders: Sender[];
   selectedSenderKeys: string[];
+  deletingOlderThan: boolean;
   onToggleSenderSelection: (sender: Sender) => void;
   onCleanupAction: (action: 'delete', senders: Sender[]) => void;
+  onPreviewOlderThan: (filters: OlderThanFilters) => Promise<OlderThanPreview | null>;
+  onDeleteOlderThan: (filters: OlderThanFilters) => Promise<void>;
 }
 
 const ArchiveView: React.FC<ArchiveViewProps> = ({
   senders,
   selectedSenderKeys,
+  deletingOlderThan,
   onToggleSenderSelection,
   onCleanupAction,
+  onPreviewOlderThan,
+  onDeleteOlderThan,
 }) => {
+  const [olderThanDays, setOlderThanDays] = useState(90);
+  const [newslettersOnly, setNewslettersOnly] = useState(false);
+  const [promotionalOnly, setPromotionalOnly] = useState(false);
+  const [unreadOnly, setUnreadOnly] = useState(false);
+  const [preview, setPreview] = useState<OlderThanPreview | null>(null);
+  const [previewLoading, setPreviewLoading] = useState(false);
+  const [confirming, setConfirming] = useState(false);
+
+  const filters: OlderThanFilters = { olderThanDays, newslettersOnly, promotionalOnly, unreadOnly };
+
+  // Refresh the preview whenever filters change (and after a delete finishes)
+  useEffect(() => {
+    if (deletingOlderThan) return;
+    let cancelled = false;
+    setPreviewLoading(true);
+    setConfirming(false);
+    onPreviewOlderThan(filters).then(result => {
+      if (!cancelled) {
+        setPreview(result);
+        setPreviewLoading(false);
+      }
+    });
+    return () => { cancelled = true; };
+  }, [olderThanDays, newslettersOnly, promotionalOnly, unreadOnly, deletingOlderThan]);
+
+  const handleDelete = async () => {
+    if (!confirming) {
+      setConfirming(true);
+      return;
+    }
+    setConfirming(false);
+    await onDeleteOlderThan(filters);
+  };
+
+  // Only list senders that actually have mail past the cutoff
+  const cutoff = Date.now() - olderThanDays * 24 * 60 * 60 * 1000;
+  const oldSenders = senders.filter(sender => new Date(sender.firstEmailDate).getTime() < cutoff);
+  const matchCount = preview?.totalMatches || 0;
+
   return (
     <div className="px-4 py-3 space-y-3">
-      {senders.map(sender => (
+      <div className="bg-white dark:bg-gray-900 rounded-2xl shadow-sm border border-gray-100 dark:border-gray-800 p-5">
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+          <span className="text-sm font-medium text-gray-700 dark:text-gray-300 mr-2">Older than</span>
+          {AGE_OPTIONS.map(days => (
+            <button
+              key={days}
+              onClick={() => setOlderThanDays(days)}
+              className={`px-3 py-1.5 text-sm rounded-lg transition-colors ${
+                olderThanDays === days
+                  ? 'bg-indigo-600 text-white'
+                  : 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700'
+              }`}
+            >
+              {days === 365 ? '1 year' : `${days} days`}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-5 mb-4 text-sm text-gray-600 dark:text-gray-400">
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+              checked={newslettersOnly}
+              onChange={e => setNewslettersOnly(e.target.checked)}
+            />
+            Newsletters only
+          </label>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+              checked={promotionalOnly}
+              onChange={e => setPromotionalOnly(e.target.checked)}
+            />
+            Promotions only
+          </label>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+              checked={unreadOnly}
+              onChange={e => setUnreadOnly(e.target.checked)}
+            />
+            Unread only
+          </label>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div className="text-sm text-gray-600 dark:text-gray-400">
+            {previewLoading || deletingOlderThan ? (
+              <span className="flex items-center gap-2">
+                <RefreshCw className="w-4 h-4 animate-spin" />
+                {deletingOlderThan ? 'Deleting old emails...' : 'Counting emails...'}
+              </span>
+            ) : preview ? (
+              <span>
+                <span className="font-semibold text-gray-900 dark:text-gray-100">{matchCount.toLocaleString()}</span>
+                {' '}email{matchCount === 1 ? '' : 's'} from {preview.senderCount} sender{preview.senderCount === 1 ? '' : 's'} match
+              </span>
+            ) : (
+              <span>Unable to count matching emails</span>
+            )}
+          </div>
+          <button
+            className="flex items-center gap-2 px-5 py-2.5 text-sm font-medium text-white bg-red-500 hover:bg-red-600 disabled:opacity-50 rounded-lg transition-colors"
+            disabled={matchCount === 0 || previewLoading || deletingOlderThan}
+            onClick={handleDelete}
+          >
+            <Trash2 className="w-4 h-4" />
+            {confirming ? `Confirm delete ${matchCount.toLocaleString()}?` : `Delete ${matchCount.toLocaleString()} emails`}
+          </button>
+        </div>
+      </div>
+
+      {oldSenders.map(sender => (
         <div key={sender.id} className="bg-white dark:bg-gray-900 rounded-2xl shadow-sm hover:shadow-md transition-shadow overflow-hidden">
           <div className="px-5 py-4 flex items-center justify-between">
             <div className="flex items-center flex-1">
@@ -0,0 +1,115 @@
+import React from 'react';
+import { RefreshCw, CheckCircle, AlertTriangle, X } from 'lucide-react';
+import { CleanupJob, isCleanupJobFinished } from '../../../hooks/useCleanupJobs';
+
+interface CleanupJobPanelProps {
+  job: CleanupJob;
+  error: string | null;
+  onCancel: () => void;
+  onRetry: () => void;
+  onDismiss: () => void;
+}
+
+/**
+ * Progress card for a background cleanup job (large sender selections).
+ * While the job runs it shows senders processed so far; once it finishes it
+ * becomes the final report, listing any senders that failed with a retry button.
+ */
+const CleanupJobPanel: React.FC<CleanupJobPanelProps> = ({ job, error, onCancel, onRetry, onDismiss }) => {
+  const finished = isCleanupJobFinished(job);
+  const verb = job.action === 'delete' ? 'Deleting' : 'Archiving';
+  const pastVerb = job.action === 'delete' ? 'Deleted' : 'Archived';
+  const progressPercent = job.totalSenders > 0
+    ? Math.min(100, Math.round((job.processedSenders / job.totalSenders) * 100))
+    : 0;
+  const failedSenders = (job.senders || []).filter(s => s.status === 'failed' || s.status === 'partial');
+
+  return (
+    <div className="fixed bottom-6 right-6 z-50 w-80 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-xl shadow-xl p-4">
+      <div className="flex items-start gap-3">
+        {!finished ? (
+          <RefreshCw className="w-5 h-5 mt-0.5 animate-spin text-indigo-500 dark:text-indigo-400 flex-shrink-0" />
+        ) : job.status === 'completed' && job.failedSenders === 0 ? (
+          <CheckCircle className="w-5 h-5 mt-0.5 text-green-500 flex-shrink-0" />
+        ) : (
+          <AlertTriangle className="w-5 h-5 mt-0.5 text-amber-500 flex-shrink-0" />
+        )}
+
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-medium text-gray-900 dark:text-white">
+            {!finished
+              ? job.status === 'queued'
+                ? `${verb} queued...`
+                : `${verb} ${job.processedSenders.toLocaleString()} of ${job.totalSenders.toLocaleString()} senders...`
+              : job.status === 'cancelled'
+                ? 'Cleanup cancelled'
+                : job.status === 'failed'
+                  ? 'Cleanup stopped'
+                  : `${pastVerb} ${job.affectedEmails.toLocaleString()} email${job.affectedEmails !== 1 ? 's' : ''}`}
+          </p>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+            {finished
+              ? `${job.processedSenders.toLocaleString()} of ${job.totalSenders.toLocaleString()} senders processed` +
+                (job.failedSenders > 0 ? `, ${job.failedSenders} with errors` : '')
+              : `${job.affectedEmails.toLocaleString()} of ~${job.totalEmails.toLocaleString()} emails so far`}
+          </p>
+        </div>
+
+        {finished && (
+          <button
+            onClick={onDismiss}
+            className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 transition-colors"
+            aria-label="Dismiss"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {!finished && (
+        <div className="h-1.5 w-full bg-gray-100 dark:bg-gray-800 rounded-full overflow-hidden mt-3">
+          <div
+            className="h-full bg-indigo-500 dark:bg-indigo-400 rounded-full transition-all duration-700 ease-out"
+            style={{ width: `${progressPercent}%` }}
+          />
+        </div>
+      )}
+
+      {(error || (finished && job.error)) && (
+        <p className="text-xs text-red-600 dark:text-red-400 mt-2">{error || job.error}</p>
+      )}
+
+      {failedSenders.length > 0 && (
+        <ul className="mt-3 max-h-32 overflow-y-auto space-y-1">
+          {failedSenders.map(s => (
+            <li key={`${s.name}|||${s.email}`} className="text-xs text-gray-600 dark:text-gray-400 truncate">
+              <span className="font-medium">{s.name || s.email}</span>
+              {s.error ? ` - ${s.error}` : ''}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex justify-end gap-2 mt-3">
+        {!finished && (
+          <button
+            onClick={onCancel}
+            className="px-3 py-1.5 text-xs font-medium text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+        )}
+        {finished && job.status !== 'cancelled' && job.failedSenders > 0 && (
+          <button
+            onClick={onRetry}
+            className="px-3 py-1.5 text-xs font-medium text-white bg-indigo-600 hover:bg-indigo-500 rounded-lg transition-colors"
+          >
+            Retry failed
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CleanupJobPanel;
@@ -1,7 +1,8 @@
-import React from 'react';
+import React, { useState } from 'react';
+import { ChevronDownIcon, ChevronUpIcon } from 'lucide-react';
 import { Sender, EmailMessage } from '../../../hooks/useEmailSenders';
 import SenderRow from './SenderRow';
-import { getSenderKey } from './emailCleanupUtils';
+import { getSenderKey, groupSendersByDomain } from './emailCleanupUtils';
 
 interface DeleteViewProps {
   sortBy: string;
@@ -20,6 +21,9 @@ interface DeleteViewProps {
   onDeleteSingleEmail: (email: EmailMessage, senderEmail: string, senderName: string) => void;
   onViewEmail: (messageId: string, accountEmail: string, senderEmail: string, senderName: string) => void;
   onCleanupAction: (action: 'delete', senders: Sender[]) => void;
+  onMarkRead?: (sender: Sender) => void;
+  onToggleMute?: (sender: Sender) => void;
+  onSplitGroup?: (sender: Sender) => void;
 }
 
 const DeleteView: React.FC<DeleteViewProps> = ({
@@ -36,10 +40,15 @@ const DeleteView: React.FC<DeleteViewProps> = ({
   onDeleteSingleEmail,
   onViewEmail,
   onCleanupAction,
+  onMarkRead,
+  onToggleMute,
+  onSplitGroup,
   totalEmails,
   deletedCount,
   syncing,
 }) => {
+  const [expandedDomains, setExpandedDomains] = useState<string[]>([]);
+
   const statsBar = (
     <div className="flex items-center gap-4 px-4 py-3 mb-2">
       {!syncing && (
@@ -103,6 +112,9 @@ const DeleteView: React.FC<DeleteViewProps> = ({
                     deletingEmailId={deletingEmailId}
                     onDeleteSingleEmail={onDeleteSingleEmail}
                     onViewEmail={onViewEmail}
+                    onMarkRead={onMarkRead && (() => onMarkRead(sender))}
+                    onToggleMute={onToggleMute && (() => onToggleMute(sender))}
+                    onSplit={onSplitGroup && (() => onSplitGroup(sender))}
                     actions={
                       <button
                         className="px-4 py-2 text-sm font-medium text-white bg-red-500 hover:bg-red-600 rounded-lg transition-colors"
@@ -121,6 +133,85 @@ const DeleteView: React.FC<DeleteViewProps> = ({
     );
   }
 
+  if (sortBy === 'domain') {
+    const toggleDomain = (domain: string) => {
+      setExpandedDomains(prev => prev.includes(domain) ? prev.filter(d => d !== domain) : [...prev, domain]);
+    };
+
+    const renderSenderRow = (sender: Sender) => (
+      <SenderRow
+        key={sender.id}
+        sender={sender}
+        isExpanded={expandedSenders.includes(getSenderKey(sender))}
+        isSelected={selectedSenderKeys.includes(getSenderKey(sender))}
+        onToggleExpand={() => onToggleSenderExpand(sender)}
+        onToggleSelect={() => onToggleSenderSelection(sender)}
+        emails={senderEmails[getSenderKey(sender)] || []}
+        loadingEmails={loadingEmails === getSenderKey(sender)}
+        deletingEmailId={deletingEmailId}
+        onDeleteSingleEmail={onDeleteSingleEmail}
+        onViewEmail={onViewEmail}
+        showDate
+        onMarkRead={onMarkRead && (() => onMarkRead(sender))}
+        onToggleMute={onToggleMute && (() => onToggleMute(sender))}
+        onSplit={onSplitGroup && (() => onSplitGroup(sender))}
+        actions={
+          <button
+            className="px-4 py-2 text-sm font-medium text-white bg-red-500 hover:bg-red-600 rounded-lg transition-colors"
+            onClick={() => onCleanupAction('delete', [sender])}
+          >
+            Delete
+          </button>
+        }
+      />
+    );
+
+    // One row per company: senders under the same registrable domain collapse together
+    return (
+      <div>
+        {statsBar}
+        <div className="px-4 py-3 space-y-3">
+          {groupSendersByDomain(flatSenders).map(group => {
+            if (group.senders.length === 1) return renderSenderRow(group.senders[0]);
+
+            const isExpanded = expandedDomains.includes(group.domain);
+            return (
+              <div key={group.domain} className="bg-gray-50 dark:bg-gray-800 rounded-2xl overflow-hidden">
+                <div className="px-5 py-4 flex items-center justify-between">
+                  <button className="flex items-center flex-1 text-left" onClick={() => toggleDomain(group.domain)}>
+                    {isExpanded ? (
+                      <ChevronUpIcon className="h-5 w-5 text-gray-400 mr-3" />
+                    ) : (
+                      <ChevronDownIcon className="h-5 w-5 text-gray-400 mr-3" />
+                    )}
+                    <div className="flex-1">
+                      <div className="text-base font-medium text-gray-900 dark:text-gray-100">{group.domain}</div>
+                      <div className="text-sm text-gray-500 dark:text-gray-400 mt-0.5">
+                        {group.senders.length} senders • {group.emailCount.toLocaleString()} emails
+                        {group.unreadCount > 0 && ` • ${group.unreadCount.toLocaleString()} unread`}
+                      </div>
+                    </div>
+                  </button>
+                  <button
+                    className="px-4 py-2 text-sm font-medium text-white bg-red-500 hover:bg-red-600 rounded-lg transition-colors"
+                    onClick={() => onCleanupAction('delete', group.senders)}
+                  >
+                    Delete All
+                  </button>
+                </div>
+                {isExpanded && (
+                  <div className="px-4 pb-4 space-y-3">
+                    {group.senders.map(renderSenderRow)}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    );
+  }
+
   // Flat list mode
   return (
     <div>
@@ -140,6 +231,9 @@ const DeleteView: React.FC<DeleteViewProps> = ({
           onDeleteSingleEmail={onDeleteSingleEmail}
           onViewEmail={onViewEmail}
           showDate
+          onMarkRead={onMarkRead && (() => onMarkRead(sender))}
+          onToggleMute={onToggleMute && (() => onToggleMute(sender))}
+          onSplit={onSplitGroup && (() => onSplitGroup(sender))}
           actions={
             <button
               className="px-4 py-2 text-sm font-medium text-white bg-red-500 hover:bg-red-600 rounded-lg transition-colors"
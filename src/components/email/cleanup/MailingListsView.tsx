@@ -0,0 +1,179 @@
+import React, { useEffect, useState } from 'react';
+import { BellOff, Trash2, RefreshCw, AlertTriangle, ChevronDown, ChevronUp, List } from 'lucide-react';
+import { useMailingLists } from '../../../hooks/useMailingLists';
+import { formatBytes } from './emailCleanupUtils';
+
+interface MailingListsViewProps {
+  accountEmail: string;
+  onNotify: (notification: { type: 'success' | 'error'; message: string }) => void;
+  // Sender counts change after a list delete
+  onDeleted: () => void;
+}
+
+/**
+ * Mail grouped by mailing list (List-Id) rather than by sender, so a list that
+ * mails from several addresses can be unsubscribed from or deleted at once.
+ */
+const MailingListsView: React.FC<MailingListsViewProps> = ({ accountEmail, onNotify, onDeleted }) => {
+  const { lists, loading, busyListId, error, fetchLists, unsubscribeList, deleteList } = useMailingLists();
+  const [expandedListIds, setExpandedListIds] = useState<string[]>([]);
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchLists(accountEmail);
+    setExpandedListIds([]);
+    setConfirmDeleteId(null);
+  }, [accountEmail, fetchLists]);
+
+  const toggleExpanded = (listId: string) => {
+    setExpandedListIds(prev => prev.includes(listId) ? prev.filter(id => id !== listId) : [...prev, listId]);
+  };
+
+  const handleUnsubscribe = async (listId: string) => {
+    const result = await unsubscribeList(accountEmail, listId);
+    if (!result) return;
+
+    if (result.success) {
+      onNotify({ type: 'success', message: result.message || `Unsubscribed from ${listId}` });
+    } else if (result.linkExpired) {
+      onNotify({ type: 'error', message: result.message || 'This unsubscribe link has expired or is no longer valid.' });
+    } else if (result.requiresManualAction && result.unsubscribeLink) {
+      window.open(result.unsubscribeLink, '_blank');
+    }
+  };
+
+  const handleDelete = async (listId: string) => {
+    setConfirmDeleteId(null);
+    const result = await deleteList(accountEmail, listId);
+    if (!result) return;
+
+    onNotify({
+      type: result.failedCount > 0 ? 'error' : 'success',
+      message: result.failedCount > 0
+        ? `Deleted ${result.totalDeleted.toLocaleString()} emails from ${listId}, ${result.failedCount} could not be moved to trash`
+        : `Deleted ${result.totalDeleted.toLocaleString()} email${result.totalDeleted !== 1 ? 's' : ''} from ${listId}${result.trashedBytes > 0 ? `, freeing ${formatBytes(result.trashedBytes)} once your trash is emptied` : ''}`,
+    });
+    onDeleted();
+  };
+
+  return (
+    <div className="px-4 py-3 space-y-3">
+      <div className="flex items-center justify-between gap-3 px-1">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Newsletters and mailing lists found by their List-Id, across every address they send from.
+        </p>
+        <button
+          onClick={() => fetchLists(accountEmail)}
+          disabled={loading}
+          className="p-2 text-gray-500 hover:text-gray-700 dark:hover:text-gray-300 disabled:opacity-50"
+          aria-label="Refresh mailing lists"
+        >
+          <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400 px-1">{error}</p>
+      )}
+
+      {!loading && lists.length === 0 && (
+        <div className="text-center py-12">
+          <List className="w-16 h-16 mx-auto text-gray-300 dark:text-gray-600 mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100 mb-1">No mailing lists found</h3>
+          <p className="text-gray-500 dark:text-gray-400">Lists show up here after a sync picks up mail sent through them.</p>
+        </div>
+      )}
+
+      {lists.map(list => {
+        const isExpanded = expandedListIds.includes(list.listId);
+        const isBusy = busyListId === list.listId;
+        const topSender = list.senders[0];
+
+        return (
+          <div key={list.listId} className="bg-white dark:bg-gray-900 rounded-2xl shadow-sm hover:shadow-md transition-shadow">
+            <div className="flex items-center gap-4 px-5 py-4">
+              <button
+                onClick={() => toggleExpanded(list.listId)}
+                className="flex-1 min-w-0 text-left"
+                aria-expanded={isExpanded}
+              >
+                <div className="flex items-center gap-2">
+                  <span className="text-base font-medium text-gray-900 dark:text-gray-100 truncate">
+                    {topSender?.name || list.listId}
+                  </span>
+                  {isExpanded
+                    ? <ChevronUp className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                    : <ChevronDown className="w-4 h-4 text-gray-400 flex-shrink-0" />}
+                </div>
+                <div className="text-sm text-gray-500 dark:text-gray-400 truncate">
+                  {list.listId} · {list.senders.length} sender{list.senders.length !== 1 ? 's' : ''} · last {new Date(list.lastEmailDate).toLocaleDateString()}
+                </div>
+              </button>
+              <div className="text-right">
+                <div className="text-base font-semibold text-gray-700 dark:text-gray-300">{list.emailCount.toLocaleString()}</div>
+                {list.unreadCount > 0 && (
+                  <div className="text-xs text-gray-400">{list.unreadCount.toLocaleString()} unread</div>
+                )}
+              </div>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => handleUnsubscribe(list.listId)}
+                  disabled={isBusy}
+                  className="flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium text-purple-700 dark:text-purple-300 bg-purple-50 dark:bg-purple-900/30 hover:bg-purple-100 dark:hover:bg-purple-900/50 rounded-lg disabled:opacity-50 transition-colors"
+                >
+                  <BellOff className="w-4 h-4" />
+                  Unsubscribe
+                </button>
+                <button
+                  onClick={() => setConfirmDeleteId(list.listId)}
+                  disabled={isBusy}
+                  className="flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium text-red-700 dark:text-red-300 bg-red-50 dark:bg-red-900/30 hover:bg-red-100 dark:hover:bg-red-900/50 rounded-lg disabled:opacity-50 transition-colors"
+                >
+                  <Trash2 className="w-4 h-4" />
+                  {isBusy ? 'Working...' : 'Delete'}
+                </button>
+              </div>
+            </div>
+
+            {confirmDeleteId === list.listId && (
+              <div className="mx-5 mb-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-3 flex items-start gap-3">
+                <AlertTriangle className="w-5 h-5 text-red-600 dark:text-red-400 flex-shrink-0 mt-0.5" />
+                <div className="flex-1 text-sm text-red-800 dark:text-red-300">
+                  Move {list.emailCount.toLocaleString()} email{list.emailCount !== 1 ? 's' : ''} from {list.listId} to trash?
+                  Mail from the same senders outside this list is kept.
+                </div>
+                <button
+                  onClick={() => setConfirmDeleteId(null)}
+                  className="px-3 py-1.5 text-xs font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={() => handleDelete(list.listId)}
+                  className="px-3 py-1.5 text-xs font-medium text-white bg-red-600 hover:bg-red-700 rounded-lg"
+                >
+                  Delete
+                </button>
+              </div>
+            )}
+
+            {isExpanded && (
+              <div className="border-t border-gray-100 dark:border-gray-800 px-5 py-3 space-y-1">
+                {list.senders.map(sender => (
+                  <div key={`${sender.email}|||${sender.name}`} className="flex items-center justify-between text-sm">
+                    <span className="text-gray-700 dark:text-gray-300 truncate">
+                      {sender.name} <span className="text-gray-400">{sender.email}</span>
+                    </span>
+                    <span className="text-gray-500 dark:text-gray-400">{sender.emailCount.toLocaleString()}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default MailingListsView;
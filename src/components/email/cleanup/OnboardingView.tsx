@@ -12,6 +12,8 @@ import {
   Gift,
   AlertCircle,
 } from 'lucide-react';
+import SuggestedCleanupsPanel from './SuggestedCleanupsPanel';
+import type { CleanupSuggestion } from '../../../hooks/useRecommendations';
 
 interface OnboardingViewProps {
   currentStep: number;
@@ -21,6 +23,9 @@ interface OnboardingViewProps {
   onConnectGmail: () => void;
   onConnectOutlook: () => void;
   onStartCleaning: () => void;
+  // Shows suggested cleanups for this account once it is connected
+  accountEmail?: string;
+  onSuggestionSelect?: (suggestion: CleanupSuggestion) => void;
 }
 
 const StepIndicator = ({ currentStep }: { currentStep: number }) => {
@@ -85,6 +90,8 @@ const OnboardingView: React.FC<OnboardingViewProps> = ({
   onConnectGmail,
   onConnectOutlook,
   onStartCleaning,
+  accountEmail,
+  onSuggestionSelect,
 }) => {
   return (
     <div className="w-full min-h-screen bg-gradient-to-b from-slate-50 to-white dark:from-gray-950 dark:to-gray-900">
@@ -234,6 +241,11 @@ const OnboardingView: React.FC<OnboardingViewProps> = ({
               <p className="mt-6 text-sm text-gray-500 dark:text-gray-400">
                 Unsubscribe, delete, or archive emails with one click
               </p>
+              {accountEmail && onSuggestionSelect && (
+                <div className="mt-8">
+                  <SuggestedCleanupsPanel accountEmail={accountEmail} onSelect={onSuggestionSelect} limit={3} />
+                </div>
+              )}
             </div>
           )}
         </div>
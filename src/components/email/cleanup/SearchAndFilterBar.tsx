@@ -6,6 +6,7 @@ import {
   SortAscIcon,
   CheckIcon,
   TrashIcon,
+  MergeIcon,
 } from 'lucide-react';
 import { Sender } from '../../../hooks/useEmailSenders';
 
@@ -20,6 +21,8 @@ interface SearchAndFilterBarProps {
   totalVisible: number;
   onSelectAll: () => void;
   onDeleteSelected: () => void;
+  // Merge the selected senders into one - shown for two or more
+  onMergeSelected?: () => void;
 }
 
 const SearchAndFilterBar: React.FC<SearchAndFilterBarProps> = ({
@@ -33,6 +36,7 @@ const SearchAndFilterBar: React.FC<SearchAndFilterBarProps> = ({
   totalVisible,
   onSelectAll,
   onDeleteSelected,
+  onMergeSelected,
 }) => {
   return (
     <>
@@ -77,6 +81,8 @@ const SearchAndFilterBar: React.FC<SearchAndFilterBarProps> = ({
                 <option value="count">Email Count</option>
                 <option value="name">Sender Name</option>
                 <option value="date">Last Email Date</option>
+                <option value="size">Storage Used</option>
+                <option value="domain">Company (Domain)</option>
               </select>
               <button onClick={onToggleSortDirection} className="ml-2 p-1 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700" aria-label={sortDirection === 'asc' ? 'Sort descending' : 'Sort ascending'}>
                 {sortDirection === 'asc' ? (
@@ -99,6 +105,15 @@ const SearchAndFilterBar: React.FC<SearchAndFilterBarProps> = ({
             </span>
           </div>
           <div className="flex space-x-4">
+            {onMergeSelected && selectedCount > 1 && (
+              <button
+                className="flex items-center text-xs font-medium text-purple-600 dark:text-purple-400 hover:text-purple-800 dark:hover:text-purple-300"
+                onClick={onMergeSelected}
+              >
+                <MergeIcon className="h-3 w-3 mr-1" />
+                Merge
+              </button>
+            )}
             <button
               className="flex items-center text-xs font-medium text-red-600 dark:text-red-400 hover:text-red-800 dark:hover:text-red-300"
               onClick={onDeleteSelected}
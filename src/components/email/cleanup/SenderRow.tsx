@@ -1,13 +1,17 @@
 import React, { useState } from 'react';
 import {
+  Bell,
+  BellOff,
   ChevronDownIcon,
   ChevronUpIcon,
+  MailOpen,
   RefreshCw,
   Trash2,
+  Unlink,
 } from 'lucide-react';
 import { Sender, EmailMessage } from '../../../hooks/useEmailSenders';
 import SenderAvatar from './SenderAvatar';
-import { getSenderKey, getStalenessBadge } from './emailCleanupUtils';
+import { getSenderKey, getStalenessBadge, formatBytes } from './emailCleanupUtils';
 
 interface SenderRowProps {
   sender: Sender;
@@ -29,6 +33,11 @@ interface SenderRowProps {
   showNewsletterBadge?: boolean;
   showExpandedActions?: boolean;
   onDeleteAll?: () => void;
+  // Unread handling - buttons are only shown when provided
+  onMarkRead?: () => void;
+  onToggleMute?: () => void;
+  // Split a merged sender back into its name+email senders
+  onSplit?: () => void;
 }
 
 const SenderRow: React.FC<SenderRowProps> = ({
@@ -49,6 +58,9 @@ const SenderRow: React.FC<SenderRowProps> = ({
   showNewsletterBadge = false,
   showExpandedActions = false,
   onDeleteAll,
+  onMarkRead,
+  onToggleMute,
+  onSplit,
 }) => {
   const [selectedEmailIds, setSelectedEmailIds] = useState<Set<string>>(new Set());
 
@@ -118,13 +130,31 @@ const SenderRow: React.FC<SenderRowProps> = ({
           <SenderAvatar sender={sender} />
           <div className="flex-1 ml-4">
             <div className="flex items-center">
-              <span className="text-base font-medium text-gray-900 dark:text-gray-100">{sender.name}</span>
+              <span className="text-base font-medium text-gray-900 dark:text-gray-100">{sender.groupName || sender.name}</span>
               <span className="ml-3 px-2.5 py-0.5 text-sm bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-400 rounded-full">{sender.emailCount} emails</span>
+              {!!sender.totalSizeBytes && (
+                <span className="ml-2 text-sm text-gray-500 dark:text-gray-400">{formatBytes(sender.totalSizeBytes)}</span>
+              )}
               {showNewsletterBadge && sender.isNewsletter && (
                 <span className="ml-2 px-2.5 py-0.5 text-sm bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-400 rounded-full">
                   Newsletter
                 </span>
               )}
+              {sender.unreadCount > 0 && (
+                <span className="ml-2 px-2.5 py-0.5 text-sm bg-indigo-50 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-400 rounded-full">
+                  {sender.unreadCount} unread
+                </span>
+              )}
+              {sender.groupMembers && sender.groupMembers.length > 1 && (
+                <span className="ml-2 px-2.5 py-0.5 text-sm bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-400 rounded-full">
+                  {sender.groupMembers.length} merged
+                </span>
+              )}
+              {sender.isMuted && (
+                <span className="ml-2 px-2.5 py-0.5 text-sm bg-gray-100 dark:bg-gray-700 text-gray-500 dark:text-gray-400 rounded-full">
+                  Muted
+                </span>
+              )}
               {showStalenessBadge && (() => {
                 const badge = getStalenessBadge(sender.lastEmailDate);
                 return badge ? (
@@ -134,7 +164,11 @@ const SenderRow: React.FC<SenderRowProps> = ({
                 ) : null;
               })()}
             </div>
-            <div className="text-sm text-gray-500 dark:text-gray-400 mt-0.5">{sender.email}</div>
+            <div className="text-sm text-gray-500 dark:text-gray-400 mt-0.5">
+              {sender.groupMembers && sender.groupMembers.length > 1
+                ? sender.groupMembers.map(m => m.name === m.email ? m.email : `${m.name} <${m.email}>`).join(', ')
+                : sender.email}
+            </div>
           </div>
           {showDate && (
             <div className="text-sm text-gray-400 mr-4">
@@ -143,6 +177,36 @@ const SenderRow: React.FC<SenderRowProps> = ({
           )}
         </button>
         <div className="flex items-center gap-3">
+          {onMarkRead && sender.unreadCount > 0 && (
+            <button
+              className="p-2 text-gray-400 hover:text-indigo-600 dark:hover:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 rounded-lg transition-colors"
+              onClick={onMarkRead}
+              title="Mark all as read"
+              aria-label="Mark all as read"
+            >
+              <MailOpen className="w-5 h-5" />
+            </button>
+          )}
+          {onSplit && sender.groupId && (
+            <button
+              className="p-2 text-gray-400 hover:text-purple-600 dark:hover:text-purple-400 hover:bg-purple-50 dark:hover:bg-purple-900/30 rounded-lg transition-colors"
+              onClick={onSplit}
+              title="Split into separate senders"
+              aria-label="Split into separate senders"
+            >
+              <Unlink className="w-5 h-5" />
+            </button>
+          )}
+          {onToggleMute && (
+            <button
+              className="p-2 text-gray-400 hover:text-indigo-600 dark:hover:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 rounded-lg transition-colors"
+              onClick={onToggleMute}
+              title={sender.isMuted ? 'Unmute sender' : 'Mute sender (new mail is marked read)'}
+              aria-label={sender.isMuted ? 'Unmute sender' : 'Mute sender'}
+            >
+              {sender.isMuted ? <Bell className="w-5 h-5" /> : <BellOff className="w-5 h-5" />}
+            </button>
+          )}
           {actions}
         </div>
       </div>
@@ -0,0 +1,240 @@
+import React, { useEffect, useState } from 'react';
+import { HardDrive, Paperclip, Trash2, RefreshCw, AlertTriangle } from 'lucide-react';
+import { useStorage } from '../../../hooks/useStorage';
+import { formatBytes } from './emailCleanupUtils';
+
+interface StorageViewProps {
+  accountEmail: string;
+  onNotify: (notification: { type: 'success' | 'error'; message: string }) => void;
+  // Sender counts and sizes change after a delete
+  onDeleted: () => void;
+}
+
+type StorageTab = 'senders' | 'emails';
+
+const SIZE_OPTIONS_MB = [1, 5, 10, 25];
+
+/**
+ * What takes up the most storage: senders ranked by the total size of their
+ * mail, and single emails over a size, which can be trashed in one go.
+ */
+const StorageView: React.FC<StorageViewProps> = ({ accountEmail, onNotify, onDeleted }) => {
+  const {
+    largestSenders,
+    largeEmails,
+    largeEmailsTotal,
+    largeEmailsBytes,
+    loading,
+    deleting,
+    error,
+    fetchLargestSenders,
+    fetchLargeEmails,
+    previewDeleteLarge,
+    deleteLarge,
+  } = useStorage();
+  const [tab, setTab] = useState<StorageTab>('senders');
+  const [minSizeMb, setMinSizeMb] = useState(5);
+  const [attachmentsOnly, setAttachmentsOnly] = useState(false);
+  const [confirm, setConfirm] = useState<{ totalMatches: number; totalBytes: number } | null>(null);
+
+  useEffect(() => {
+    setConfirm(null);
+    if (tab === 'senders') {
+      fetchLargestSenders(accountEmail);
+    } else {
+      fetchLargeEmails(accountEmail, minSizeMb, attachmentsOnly);
+    }
+  }, [accountEmail, tab, minSizeMb, attachmentsOnly, fetchLargestSenders, fetchLargeEmails]);
+
+  const refresh = () => {
+    if (tab === 'senders') fetchLargestSenders(accountEmail);
+    else fetchLargeEmails(accountEmail, minSizeMb, attachmentsOnly);
+  };
+
+  const handlePreview = async () => {
+    const preview = await previewDeleteLarge(accountEmail, minSizeMb, attachmentsOnly);
+    if (preview) setConfirm(preview);
+  };
+
+  const handleDelete = async () => {
+    setConfirm(null);
+    const result = await deleteLarge(accountEmail, minSizeMb, attachmentsOnly);
+    if (!result) return;
+
+    const deleted = `${result.totalDeleted.toLocaleString()} email${result.totalDeleted !== 1 ? 's' : ''}`;
+    onNotify({
+      type: result.failedCount > 0 ? 'error' : 'success',
+      message: result.failedCount > 0
+        ? `Deleted ${deleted} (${formatBytes(result.trashedBytes)}), ${result.failedCount} could not be moved to trash`
+        : `Deleted ${deleted}, freeing ${formatBytes(result.trashedBytes)} once your trash is emptied`,
+    });
+    onDeleted();
+  };
+
+  const maxSenderBytes = largestSenders[0]?.totalSizeBytes || 0;
+
+  return (
+    <div className="px-4 py-3 space-y-3">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 px-1">
+        <div className="flex items-center gap-1 bg-gray-100 dark:bg-gray-800 rounded-lg p-1">
+          <button
+            onClick={() => setTab('senders')}
+            className={`px-3 py-1.5 text-sm font-medium rounded-md ${tab === 'senders' ? 'bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 shadow-sm' : 'text-gray-500 dark:text-gray-400'}`}
+          >
+            Largest senders
+          </button>
+          <button
+            onClick={() => setTab('emails')}
+            className={`px-3 py-1.5 text-sm font-medium rounded-md ${tab === 'emails' ? 'bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 shadow-sm' : 'text-gray-500 dark:text-gray-400'}`}
+          >
+            Large emails
+          </button>
+        </div>
+        <button
+          onClick={refresh}
+          disabled={loading}
+          className="self-end sm:self-auto p-2 text-gray-500 hover:text-gray-700 dark:hover:text-gray-300 disabled:opacity-50"
+          aria-label="Refresh storage"
+        >
+          <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400 px-1">{error}</p>
+      )}
+
+      {tab === 'senders' && (
+        <>
+          {!loading && largestSenders.length === 0 && (
+            <div className="text-center py-12">
+              <HardDrive className="w-16 h-16 mx-auto text-gray-300 dark:text-gray-600 mb-4" />
+              <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100 mb-1">No sizes yet</h3>
+              <p className="text-gray-500 dark:text-gray-400">Email sizes show up here after your next sync.</p>
+            </div>
+          )}
+
+          {largestSenders.map(sender => (
+            <div key={sender.id} className="bg-white dark:bg-gray-900 rounded-2xl shadow-sm px-5 py-4">
+              <div className="flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <div className="text-base font-medium text-gray-900 dark:text-gray-100 truncate">{sender.groupName || sender.name}</div>
+                  <div className="text-sm text-gray-500 dark:text-gray-400 truncate">
+                    {sender.email} · {sender.emailCount.toLocaleString()} email{sender.emailCount !== 1 ? 's' : ''}
+                  </div>
+                </div>
+                <div className="text-base font-semibold text-gray-700 dark:text-gray-300 whitespace-nowrap">
+                  {formatBytes(sender.totalSizeBytes || 0)}
+                </div>
+              </div>
+              {maxSenderBytes > 0 && (
+                <div className="mt-2 h-1.5 bg-gray-100 dark:bg-gray-800 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-gradient-to-r from-cyan-400 to-blue-500"
+                    style={{ width: `${Math.max(((sender.totalSizeBytes || 0) / maxSenderBytes) * 100, 2)}%` }}
+                  />
+                </div>
+              )}
+            </div>
+          ))}
+        </>
+      )}
+
+      {tab === 'emails' && (
+        <>
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 px-1">
+            <div className="flex items-center gap-3 text-sm text-gray-700 dark:text-gray-300">
+              <label className="flex items-center gap-2">
+                Over
+                <select
+                  value={minSizeMb}
+                  onChange={e => setMinSizeMb(Number(e.target.value))}
+                  aria-label="Minimum size"
+                  className="border-gray-300 dark:border-gray-600 rounded-md sm:text-sm dark:bg-gray-800 dark:text-gray-100"
+                >
+                  {SIZE_OPTIONS_MB.map(mb => (
+                    <option key={mb} value={mb}>{mb} MB</option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={attachmentsOnly}
+                  onChange={e => setAttachmentsOnly(e.target.checked)}
+                  className="w-4 h-4 text-indigo-600 rounded border-gray-300 focus:ring-indigo-500"
+                />
+                With attachments only
+              </label>
+            </div>
+            <button
+              onClick={handlePreview}
+              disabled={largeEmailsTotal === 0 || deleting}
+              className="flex items-center justify-center gap-2 px-4 py-2 text-sm font-medium text-white bg-red-600 hover:bg-red-700 rounded-lg disabled:opacity-50 transition-colors"
+            >
+              <Trash2 className="w-4 h-4" />
+              {deleting ? 'Deleting...' : `Trash all over ${minSizeMb} MB`}
+            </button>
+          </div>
+
+          {confirm && (
+            <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-3 flex items-start gap-3">
+              <AlertTriangle className="w-5 h-5 text-red-600 dark:text-red-400 flex-shrink-0 mt-0.5" />
+              <div className="flex-1 text-sm text-red-800 dark:text-red-300">
+                Move {confirm.totalMatches.toLocaleString()} email{confirm.totalMatches !== 1 ? 's' : ''} ({formatBytes(confirm.totalBytes)}) to trash?
+                The space is freed once they leave the trash.
+              </div>
+              <button
+                onClick={() => setConfirm(null)}
+                className="px-3 py-1.5 text-xs font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleDelete}
+                disabled={confirm.totalMatches === 0}
+                className="px-3 py-1.5 text-xs font-medium text-white bg-red-600 hover:bg-red-700 rounded-lg disabled:opacity-50"
+              >
+                Delete
+              </button>
+            </div>
+          )}
+
+          {largeEmailsTotal > 0 && (
+            <p className="text-sm text-gray-600 dark:text-gray-400 px-1">
+              {largeEmailsTotal.toLocaleString()} email{largeEmailsTotal !== 1 ? 's' : ''} using {formatBytes(largeEmailsBytes)}
+              {largeEmails.length < largeEmailsTotal && ` · showing the largest ${largeEmails.length}`}
+            </p>
+          )}
+
+          {!loading && largeEmailsTotal === 0 && (
+            <div className="text-center py-12">
+              <HardDrive className="w-16 h-16 mx-auto text-gray-300 dark:text-gray-600 mb-4" />
+              <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100 mb-1">No emails over {minSizeMb} MB</h3>
+              <p className="text-gray-500 dark:text-gray-400">Try a smaller size, or sync again to pick up sizes for older mail.</p>
+            </div>
+          )}
+
+          {largeEmails.map(email => (
+            <div key={email.messageId} className="flex items-center gap-4 bg-white dark:bg-gray-900 rounded-2xl shadow-sm px-5 py-4">
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="text-base font-medium text-gray-900 dark:text-gray-100 truncate">{email.subject}</span>
+                  {email.hasAttachments && <Paperclip className="w-4 h-4 text-gray-400 flex-shrink-0" aria-label="Has attachments" />}
+                </div>
+                <div className="text-sm text-gray-500 dark:text-gray-400 truncate">
+                  {email.senderName} · {new Date(email.receivedAt).toLocaleDateString()}
+                </div>
+              </div>
+              <div className="text-base font-semibold text-gray-700 dark:text-gray-300 whitespace-nowrap">
+                {formatBytes(email.sizeBytes)}
+              </div>
+            </div>
+          ))}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default StorageView;
@@ -0,0 +1,86 @@
+import React, { useEffect } from 'react';
+import { Lightbulb, BellOff, Trash2, ArrowRight } from 'lucide-react';
+import { useRecommendations, CleanupSuggestion, EngagementLevel } from '../../../hooks/useRecommendations';
+
+interface SuggestedCleanupsPanelProps {
+  accountEmail: string;
+  onSelect: (suggestion: CleanupSuggestion) => void;
+  limit?: number;
+}
+
+const levelStyles: Record<EngagementLevel, { label: string; className: string }> = {
+  high: { label: 'High engagement', className: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400' },
+  medium: { label: 'Some engagement', className: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400' },
+  low: { label: 'Low engagement', className: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400' },
+  none: { label: 'Never engaged', className: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400' },
+};
+
+/**
+ * "You never open these": senders worth unsubscribing from or deleting, with
+ * how much of the inbox each would clear. Renders nothing until there is a
+ * suggestion to show.
+ */
+const SuggestedCleanupsPanel: React.FC<SuggestedCleanupsPanelProps> = ({ accountEmail, onSelect, limit = 5 }) => {
+  const { suggestions, summary, fetchRecommendations } = useRecommendations();
+
+  useEffect(() => {
+    fetchRecommendations(accountEmail, limit);
+  }, [accountEmail, limit, fetchRecommendations]);
+
+  if (suggestions.length === 0) return null;
+
+  return (
+    <div className="bg-white dark:bg-gray-900 rounded-2xl border border-gray-200 dark:border-gray-700 p-6 text-left">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div className="flex items-center gap-2">
+          <Lightbulb className="w-5 h-5 text-amber-500" />
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Suggested cleanups</h3>
+        </div>
+        {summary && summary.emails > 0 && (
+          <span className="text-sm text-gray-500 dark:text-gray-400 text-right">
+            Up to {summary.emails.toLocaleString()} emails ({summary.percentOfInbox}% of your inbox)
+          </span>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        {suggestions.map(suggestion => {
+          const level = levelStyles[suggestion.engagement.level];
+          const ActionIcon = suggestion.action === 'unsubscribe' ? BellOff : Trash2;
+          const { emails, perMonth, percentOfInbox } = suggestion.estimatedReduction;
+
+          return (
+            <button
+              key={suggestion.senderEmail}
+              onClick={() => onSelect(suggestion)}
+              className="w-full flex items-center gap-4 rounded-xl border border-gray-100 dark:border-gray-800 px-4 py-3 text-left hover:border-indigo-300 dark:hover:border-indigo-600 hover:shadow-sm transition-all group"
+            >
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="text-base font-medium text-gray-900 dark:text-gray-100 truncate">{suggestion.senderName}</span>
+                  <span className={`text-xs font-medium px-2 py-0.5 rounded-full whitespace-nowrap ${level.className}`}>
+                    {level.label}
+                  </span>
+                </div>
+                <div className="text-sm text-gray-500 dark:text-gray-400 truncate">
+                  {suggestion.reasons.join(' · ')}
+                </div>
+                <div className="text-sm font-medium text-indigo-600 dark:text-indigo-400">
+                  −{emails.toLocaleString()} email{emails !== 1 ? 's' : ''} ({percentOfInbox}%)
+                  {perMonth > 0 && ` · ~${perMonth.toLocaleString()} fewer a month`}
+                </div>
+              </div>
+              <span className="flex items-center gap-1 text-sm font-medium text-gray-700 dark:text-gray-300 group-hover:text-indigo-600 dark:group-hover:text-indigo-400 whitespace-nowrap">
+                <ActionIcon className="w-4 h-4" />
+                {suggestion.action === 'unsubscribe' ? 'Unsubscribe' : 'Delete'}
+                <ArrowRight className="w-4 h-4" />
+              </span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default SuggestedCleanupsPanel;
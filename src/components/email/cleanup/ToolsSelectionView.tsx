@@ -6,12 +6,17 @@ import {
   Sparkles,
   BellOff,
   Trash2,
+  Trash,
   BarChart3,
   Check,
   Gift,
   AlertCircle,
   Lock,
+  List,
+  HardDrive,
 } from 'lucide-react';
+import SuggestedCleanupsPanel from './SuggestedCleanupsPanel';
+import type { CleanupSuggestion } from '../../../hooks/useRecommendations';
 
 const cleanupTools = [
   {
@@ -28,6 +33,13 @@ const cleanupTools = [
     icon: BellOff,
     color: 'from-purple-400 to-violet-400',
   },
+  {
+    id: 'lists',
+    title: 'Mailing Lists',
+    description: 'Unsubscribe from or delete whole mailing lists, whichever address they send from.',
+    icon: List,
+    color: 'from-teal-400 to-emerald-400',
+  },
   {
     id: 'bulk-delete',
     title: 'Bulk Delete Old Emails',
@@ -42,6 +54,20 @@ const cleanupTools = [
     icon: BarChart3,
     color: 'from-amber-400 to-orange-400',
   },
+  {
+    id: 'storage',
+    title: 'Storage Hogs',
+    description: 'Find the senders and emails using the most space and trash large mail.',
+    icon: HardDrive,
+    color: 'from-cyan-400 to-blue-500',
+  },
+  {
+    id: 'trash',
+    title: 'Trash',
+    description: 'Permanently delete what CleanInbox moved to trash to free up storage.',
+    icon: Trash,
+    color: 'from-gray-400 to-slate-500',
+  },
 ];
 
 export { cleanupTools };
@@ -53,6 +79,9 @@ interface ToolsSelectionViewProps {
   freeActionsRemaining: number;
   notification: { type: 'success' | 'error'; message: string } | null;
   onToolSelect: (toolId: string) => void;
+  // Shows suggested cleanups for this account when set
+  accountEmail?: string;
+  onSuggestionSelect?: (suggestion: CleanupSuggestion) => void;
 }
 
 const ToolsSelectionView: React.FC<ToolsSelectionViewProps> = ({
@@ -62,6 +91,8 @@ const ToolsSelectionView: React.FC<ToolsSelectionViewProps> = ({
   freeActionsRemaining,
   notification,
   onToolSelect,
+  accountEmail,
+  onSuggestionSelect,
 }) => {
   const navigate = useNavigate();
   const FREE_TRIAL_LIMIT = 5;
@@ -113,6 +144,12 @@ const ToolsSelectionView: React.FC<ToolsSelectionViewProps> = ({
             </p>
           </div>
 
+          {accountEmail && onSuggestionSelect && (
+            <div className="max-w-4xl mx-auto mb-8">
+              <SuggestedCleanupsPanel accountEmail={accountEmail} onSelect={onSuggestionSelect} />
+            </div>
+          )}
+
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6 max-w-4xl mx-auto">
             {cleanupTools.map((tool) => {
               const IconComponent = tool.icon;
@@ -0,0 +1,179 @@
+import React, { useEffect, useState } from 'react';
+import { Trash2, AlertTriangle, RefreshCw, KeyRound } from 'lucide-react';
+import { useTrash, PERMANENT_DELETE_CONFIRMATION } from '../../../hooks/useTrash';
+import { formatBytes } from './emailCleanupUtils';
+
+interface TrashViewProps {
+  accountEmail: string;
+  onGrantAccess: () => void;
+  onEmptied: (purged: number, reclaimedBytes: number) => void;
+}
+
+/**
+ * Emails CleanInbox moved to the trash that are still there, grouped by the
+ * cleanup that trashed them. Selected cleanups (or all of them) can be
+ * permanently deleted after typing the confirmation word.
+ */
+const TrashView: React.FC<TrashViewProps> = ({ accountEmail, onGrantAccess, onEmptied }) => {
+  const { items, retentionDays, loading, emptying, error, scopeRequired, fetchTrash, emptyTrash } = useTrash();
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [confirming, setConfirming] = useState(false);
+  const [typed, setTyped] = useState('');
+
+  useEffect(() => {
+    fetchTrash(accountEmail);
+    setSelectedIds([]);
+  }, [accountEmail, fetchTrash]);
+
+  const totalEmails = items.reduce((sum, item) => sum + item.emailCount, 0);
+  const totalBytes = items.reduce((sum, item) => sum + (item.sizeBytes || 0), 0);
+  const targetIds = selectedIds.length > 0 ? selectedIds : undefined;
+  const targetCount = targetIds
+    ? items.filter(item => selectedIds.includes(item.actionId)).reduce((sum, item) => sum + item.emailCount, 0)
+    : totalEmails;
+
+  const toggleSelection = (actionId: string) => {
+    setSelectedIds(prev => prev.includes(actionId) ? prev.filter(id => id !== actionId) : [...prev, actionId]);
+  };
+
+  const closeConfirm = () => {
+    setConfirming(false);
+    setTyped('');
+  };
+
+  const handleEmpty = async () => {
+    const result = await emptyTrash(accountEmail, targetIds);
+    closeConfirm();
+    if (result) {
+      setSelectedIds([]);
+      onEmptied(result.purged, result.reclaimedBytes || 0);
+    }
+  };
+
+  const daysLeft = (expiresAt: string) =>
+    Math.max(0, Math.ceil((new Date(expiresAt).getTime() - Date.now()) / (24 * 60 * 60 * 1000)));
+
+  return (
+    <div className="px-4 py-3 space-y-3">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 px-1">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Emails CleanInbox moved to the trash still use storage until your provider removes them after {retentionDays} days.
+          {totalBytes > 0 && ` They take up at least ${formatBytes(totalBytes)}.`}
+        </p>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => fetchTrash(accountEmail)}
+            disabled={loading}
+            className="p-2 text-gray-500 hover:text-gray-700 dark:hover:text-gray-300 disabled:opacity-50"
+            aria-label="Refresh trash"
+          >
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          </button>
+          <button
+            onClick={() => setConfirming(true)}
+            disabled={items.length === 0 || emptying}
+            className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-red-600 hover:bg-red-700 rounded-lg disabled:opacity-50 transition-colors"
+          >
+            <Trash2 className="w-4 h-4" />
+            {selectedIds.length > 0 ? `Delete ${selectedIds.length} selected forever` : 'Empty trash'}
+          </button>
+        </div>
+      </div>
+
+      {scopeRequired && (
+        <div className="flex items-start gap-3 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg p-3">
+          <KeyRound className="w-5 h-5 text-amber-600 dark:text-amber-400 flex-shrink-0 mt-0.5" />
+          <div className="flex-1 text-sm text-amber-800 dark:text-amber-300">
+            Gmail only lets apps permanently delete email with full mailbox access. Reconnect your account to allow it.
+          </div>
+          <button
+            onClick={onGrantAccess}
+            className="px-3 py-1.5 text-xs font-medium text-white bg-amber-600 hover:bg-amber-700 rounded-lg transition-colors"
+          >
+            Grant access
+          </button>
+        </div>
+      )}
+
+      {error && !scopeRequired && (
+        <p className="text-sm text-red-600 dark:text-red-400 px-1">{error}</p>
+      )}
+
+      {confirming && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+          <div className="flex items-start gap-3">
+            <AlertTriangle className="w-5 h-5 text-red-600 dark:text-red-400 flex-shrink-0 mt-0.5" />
+            <div className="flex-1">
+              <p className="text-sm font-medium text-red-800 dark:text-red-300">
+                Permanently delete {targetCount.toLocaleString()} email{targetCount !== 1 ? 's' : ''}?
+              </p>
+              <p className="text-xs text-red-700 dark:text-red-400 mt-1">
+                They can't be undone or recovered. Emails you've already moved out of the trash are left alone.
+                Type {PERMANENT_DELETE_CONFIRMATION} to confirm.
+              </p>
+              <div className="flex flex-col sm:flex-row gap-2 mt-3">
+                <input
+                  value={typed}
+                  onChange={e => setTyped(e.target.value)}
+                  placeholder={PERMANENT_DELETE_CONFIRMATION}
+                  aria-label="Type DELETE to confirm"
+                  className="flex-1 px-3 py-1.5 text-sm border border-red-300 dark:border-red-700 rounded-lg bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-red-500"
+                />
+                <button
+                  onClick={closeConfirm}
+                  disabled={emptying}
+                  className="px-3 py-1.5 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleEmpty}
+                  disabled={typed !== PERMANENT_DELETE_CONFIRMATION || emptying}
+                  className="px-3 py-1.5 text-sm font-medium text-white bg-red-600 hover:bg-red-700 rounded-lg disabled:opacity-50"
+                >
+                  {emptying ? 'Deleting...' : 'Delete forever'}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {!loading && items.length === 0 && (
+        <div className="text-center py-12">
+          <Trash2 className="w-16 h-16 mx-auto text-gray-300 dark:text-gray-600 mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100 mb-1">Nothing in the trash</h3>
+          <p className="text-gray-500 dark:text-gray-400">Emails you delete with CleanInbox show up here until they're purged.</p>
+        </div>
+      )}
+
+      {items.map(item => (
+        <label
+          key={item.actionId}
+          className="flex items-center gap-4 bg-white dark:bg-gray-900 rounded-2xl shadow-sm hover:shadow-md transition-shadow px-5 py-4 cursor-pointer"
+        >
+          <input
+            type="checkbox"
+            checked={selectedIds.includes(item.actionId)}
+            onChange={() => toggleSelection(item.actionId)}
+            className="w-4 h-4 text-red-600 rounded border-gray-300 focus:ring-red-500"
+          />
+          <div className="flex-1 min-w-0">
+            <div className="text-base font-medium text-gray-900 dark:text-gray-100 truncate">{item.senderName}</div>
+            <div className="text-sm text-gray-500 dark:text-gray-400 truncate">
+              {item.senderEmail} · trashed {new Date(item.createdAt).toLocaleDateString()}
+            </div>
+          </div>
+          <div className="text-right">
+            <div className="text-base font-semibold text-gray-700 dark:text-gray-300">{item.emailCount.toLocaleString()}</div>
+            <div className="text-xs text-gray-400">
+              {item.sizeBytes > 0 && `${formatBytes(item.sizeBytes)} · `}purged in {daysLeft(item.expiresAt)}d
+            </div>
+          </div>
+        </label>
+      ))}
+    </div>
+  );
+};
+
+export default TrashView;
@@ -14,6 +14,9 @@ interface UnsubscribeViewProps {
   onDeleteSingleEmail: (email: EmailMessage, senderEmail: string, senderName: string) => void;
   onViewEmail: (messageId: string, accountEmail: string, senderEmail: string, senderName: string) => void;
   onCleanupAction: (action: 'delete' | 'archive' | 'unsubscribe', senders: Sender[]) => void;
+  onMarkRead?: (sender: Sender) => void;
+  onToggleMute?: (sender: Sender) => void;
+  onSplitGroup?: (sender: Sender) => void;
 }
 
 const UnsubscribeView: React.FC<UnsubscribeViewProps> = ({
@@ -26,6 +29,9 @@ const UnsubscribeView: React.FC<UnsubscribeViewProps> = ({
   onDeleteSingleEmail,
   onViewEmail,
   onCleanupAction,
+  onMarkRead,
+  onToggleMute,
+  onSplitGroup,
 }) => {
   if (senders.length === 0) {
     return (
@@ -59,6 +65,9 @@ const UnsubscribeView: React.FC<UnsubscribeViewProps> = ({
           showExpandedActions
           onArchiveAll={() => onCleanupAction('archive', [sender])}
           onDeleteAll={() => onCleanupAction('delete', [sender])}
+          onMarkRead={onMarkRead && (() => onMarkRead(sender))}
+          onToggleMute={onToggleMute && (() => onToggleMute(sender))}
+          onSplit={onSplitGroup && (() => onSplitGroup(sender))}
           actions={
             <button
               className="px-5 py-2.5 text-sm font-medium text-white bg-purple-500 hover:bg-purple-600 rounded-lg transition-colors"
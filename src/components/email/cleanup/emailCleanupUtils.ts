@@ -23,11 +23,28 @@ export interface PendingDeletion {
   senders?: Sender[];
   senderEmails?: string[];
   senderNames?: string[];
+  // Skip the trash (bulk deletes only)
+  permanent?: boolean;
   timeoutId: ReturnType<typeof setTimeout>;
 }
 
 export const getSenderKey = (sender: Sender): string => `${sender.name}|||${sender.email}`;
 
+/**
+ * Human-readable storage size ("12.4 MB")
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB', 'TB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value >= 100 ? Math.round(value) : value.toFixed(1)} ${units[unit]}`;
+}
+
 export const getStalenessBadge = (lastEmailDate: string): { label: string; className: string } | null => {
   const lastDate = new Date(lastEmailDate);
   const now = new Date();
@@ -66,7 +83,8 @@ export function filterAndSortSenders(
   if (searchTerm) {
     filtered = filtered.filter(item =>
       item.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      item.email.toLowerCase().includes(searchTerm.toLowerCase())
+      item.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      (item.domain || '').includes(searchTerm.toLowerCase())
     );
   }
 
@@ -84,6 +102,10 @@ export function filterAndSortSenders(
         : new Date(b.lastEmailDate).getTime() - new Date(a.lastEmailDate).getTime();
       if (dateCompare === 0) return b.emailCount - a.emailCount;
       return dateCompare;
+    } else if (effectiveSortBy === 'size') {
+      const sizeA = a.totalSizeBytes || 0;
+      const sizeB = b.totalSizeBytes || 0;
+      return effectiveDirection === 'asc' ? sizeA - sizeB : sizeB - sizeA;
     } else {
       return effectiveDirection === 'asc' ? a.emailCount - b.emailCount : b.emailCount - a.emailCount;
     }
@@ -155,6 +177,48 @@ export function getSendersByTimePeriod(senders: Sender[]): { period: string; sen
     .sort((a, b) => a.sortOrder - b.sortOrder);
 }
 
+export interface DomainGroup {
+  domain: string;
+  senders: Sender[];
+  emailCount: number;
+  unreadCount: number;
+}
+
+/**
+ * Group senders by registrable domain (computed server-side with the Public
+ * Suffix List), keeping the incoming sender order within each group.
+ * Groups are ordered by total emails, largest first.
+ */
+export function groupSendersByDomain(senders: Sender[]): DomainGroup[] {
+  const grouped = new Map<string, DomainGroup>();
+
+  for (const sender of senders) {
+    const domain = sender.domain || sender.email.split('@').pop()!.toLowerCase();
+    let group = grouped.get(domain);
+    if (!group) {
+      group = { domain, senders: [], emailCount: 0, unreadCount: 0 };
+      grouped.set(domain, group);
+    }
+    group.senders.push(sender);
+    group.emailCount += sender.emailCount;
+    group.unreadCount += sender.unreadCount;
+  }
+
+  return [...grouped.values()].sort((a, b) => b.emailCount - a.emailCount || a.domain.localeCompare(b.domain));
+}
+
+/**
+ * The name+email senders a cleanup action should target - a merged sender
+ * expands to all of its members
+ */
+export function expandSenderGroups(senders: Sender[]): { email: string; name: string }[] {
+  return senders.flatMap(s =>
+    s.groupMembers && s.groupMembers.length > 0
+      ? s.groupMembers.map(m => ({ email: m.email, name: m.name }))
+      : [{ email: s.email, name: s.name }]
+  );
+}
+
 export function filterPendingBulkDeletions(
   senderList: Sender[],
   pendingDeletions: Map<string, PendingDeletion>
@@ -167,6 +231,8 @@ export function filterPendingBulkDeletions(
       pending.senderEmails.forEach((email, index) => {
         pendingBulkSenders.add(`${email}|||${pending.senderNames![index]}`);
       });
+      // Merged senders are listed by their members above
+      pending.senders?.forEach(sender => pendingBulkSenders.add(`${sender.email}|||${sender.name}`));
     }
   });
 
@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react';
 import { X, Mail, Shield, Zap, Lock } from 'lucide-react';
 import { useGmailConnection } from '../../hooks/useGmailConnection';
 import { useOutlookConnection } from '../../hooks/useOutlookConnection';
+import { useImapConnection, ImapProvider } from '../../hooks/useImapConnection';
 
 interface ConnectEmailModalProps {
   isOpen: boolean;
@@ -11,7 +12,12 @@ interface ConnectEmailModalProps {
   currentCount: number;
 }
 
-type ConnectionMethod = 'oauth' | 'manual';
+type ConnectionMethod = 'oauth' | 'manual' | 'imap';
+
+const APP_PASSWORD_HELP: Record<ImapProvider, string> = {
+  Yahoo: 'https://help.yahoo.com/kb/SLN15241.html',
+  iCloud: 'https://support.apple.com/en-us/102654',
+};
 
 export default function ConnectEmailModal({
   isOpen,
@@ -23,25 +29,30 @@ export default function ConnectEmailModal({
   const [connectionMethod, setConnectionMethod] = useState<ConnectionMethod>('oauth');
   const [email, setEmail] = useState('');
   const [provider, setProvider] = useState('Gmail');
+  const [imapProvider, setImapProvider] = useState<ImapProvider>('Yahoo');
+  const [appPassword, setAppPassword] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
 
   const { connectGmail, loading: gmailLoading, error: gmailError } = useGmailConnection();
   const { connectOutlook, loading: outlookLoading, error: outlookError } = useOutlookConnection();
+  const { connectImap, loading: imapLoading, error: imapError } = useImapConnection();
 
   // Clear error when modal closes
   useEffect(() => {
     if (!isOpen) {
       setError('');
       setConnectionMethod('oauth');
+      setAppPassword('');
     }
   }, [isOpen]);
 
-  // Show Gmail/Outlook error
+  // Show Gmail/Outlook/IMAP error
   useEffect(() => {
     if (gmailError) setError(gmailError);
     if (outlookError) setError(outlookError);
-  }, [gmailError, outlookError]);
+    if (imapError) setError(imapError);
+  }, [gmailError, outlookError, imapError]);
 
   if (!isOpen) return null;
 
@@ -72,6 +83,29 @@ export default function ConnectEmailModal({
     }
   };
 
+  const openImapForm = (selected: ImapProvider) => {
+    if (currentCount >= emailLimit) {
+      setError(`You've reached your email account limit (${emailLimit} account${emailLimit > 1 ? 's' : ''}). Upgrade to Pro to connect up to 10 accounts.`);
+      return;
+    }
+
+    setError('');
+    setImapProvider(selected);
+    setConnectionMethod('imap');
+  };
+
+  const handleImapSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    const connectedEmail = await connectImap(email, imapProvider, appPassword);
+    if (connectedEmail) {
+      setAppPassword('');
+      // Same landing as the OAuth callbacks so the first sync kicks off
+      window.location.href = `/email-cleanup?connected=true&email=${encodeURIComponent(connectedEmail)}`;
+    }
+  };
+
   const handleManualSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
@@ -97,7 +131,7 @@ export default function ConnectEmailModal({
     }
   };
 
-  const isLoading = loading || gmailLoading || outlookLoading;
+  const isLoading = loading || gmailLoading || outlookLoading || imapLoading;
 
   return (
     <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
@@ -181,8 +215,9 @@ export default function ConnectEmailModal({
               </span>
             </button>
             <button
-              disabled
-              className="flex-1 flex items-center justify-center gap-2 px-4 py-3 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl text-gray-400 cursor-not-allowed"
+              onClick={() => openImapForm('Yahoo')}
+              disabled={isLoading || currentCount >= emailLimit}
+              className="flex-1 flex items-center justify-center gap-2 px-4 py-3 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl hover:border-purple-300 dark:hover:border-purple-600 hover:shadow-md transition-all disabled:opacity-50 disabled:cursor-not-allowed group"
             >
               {/* Yahoo Mail Icon - Purple envelope */}
               <svg className="w-5 h-5" viewBox="0 0 24 24" aria-hidden="true">
@@ -196,11 +231,84 @@ export default function ConnectEmailModal({
                 <path fill="#fff" d="M4 7.5L12 13L20 7.5V7C20 6.45 19.55 6 19 6H5C4.45 6 4 6.45 4 7V7.5Z"/>
                 <path fill="#fff" d="M4 9V17C4 17.55 4.45 18 5 18H19C19.55 18 20 17.55 20 17V9L12 14.5L4 9Z" opacity="0.8"/>
               </svg>
-              <span className="text-sm font-medium">Yahoo</span>
-              <span className="text-xs bg-gray-200 dark:bg-gray-600 px-2 py-0.5 rounded-full">Soon</span>
+              <span className="text-sm font-medium text-gray-600 dark:text-gray-400 group-hover:text-purple-600 dark:group-hover:text-purple-400 transition-colors">
+                Yahoo
+              </span>
+            </button>
+            <button
+              onClick={() => openImapForm('iCloud')}
+              disabled={isLoading || currentCount >= emailLimit}
+              className="flex-1 flex items-center justify-center gap-2 px-4 py-3 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl hover:border-sky-300 dark:hover:border-sky-600 hover:shadow-md transition-all disabled:opacity-50 disabled:cursor-not-allowed group"
+            >
+              {/* iCloud Icon - cloud */}
+              <svg className="w-5 h-5" viewBox="0 0 24 24" aria-hidden="true">
+                <path fill="#3693F3" d="M18.5 19H7a5 5 0 0 1-.9-9.92A6 6 0 0 1 17.64 8.5 4.5 4.5 0 0 1 18.5 19Z"/>
+              </svg>
+              <span className="text-sm font-medium text-gray-600 dark:text-gray-400 group-hover:text-sky-600 dark:group-hover:text-sky-400 transition-colors">
+                iCloud
+              </span>
             </button>
           </div>
 
+          {/* App Password Form (Yahoo / iCloud) */}
+          {connectionMethod === 'imap' && (
+            <form onSubmit={handleImapSubmit} className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-700">
+              <p className="text-xs text-gray-600 dark:text-gray-400 mb-4 bg-gray-50 dark:bg-gray-800 p-3 rounded-lg">
+                {imapProvider} requires an app password. Generate one in your{' '}
+                <a
+                  href={APP_PASSWORD_HELP[imapProvider]}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-indigo-600 dark:text-indigo-400 underline"
+                >
+                  {imapProvider} account security settings
+                </a>
+                {' '}and paste it below. Your regular password won't work.
+              </p>
+
+              <div className="mb-4">
+                <label htmlFor="imap-email" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  {imapProvider} Email Address
+                </label>
+                <input
+                  id="imap-email"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                  placeholder={imapProvider === 'Yahoo' ? 'you@yahoo.com' : 'you@icloud.com'}
+                  className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent dark:bg-gray-800 dark:text-gray-100 dark:placeholder-gray-400"
+                  disabled={isLoading}
+                />
+              </div>
+
+              <div className="mb-4">
+                <label htmlFor="imap-app-password" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  App Password
+                </label>
+                <input
+                  id="imap-app-password"
+                  type="password"
+                  value={appPassword}
+                  onChange={(e) => setAppPassword(e.target.value)}
+                  required
+                  autoComplete="off"
+                  placeholder="xxxx-xxxx-xxxx-xxxx"
+                  className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent dark:bg-gray-800 dark:text-gray-100 dark:placeholder-gray-400"
+                  disabled={isLoading}
+                />
+              </div>
+
+              <button
+                type="submit"
+                disabled={isLoading}
+                className="w-full px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {imapLoading ? 'Connecting...' : `Connect ${imapProvider}`}
+              </button>
+            </form>
+          )}
+
           {/* Trust indicators */}
           <div className="mt-6 pt-6 border-t border-gray-100 dark:border-gray-800">
             <div className="flex items-center justify-center gap-6 text-xs text-gray-500 dark:text-gray-400">
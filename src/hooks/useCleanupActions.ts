@@ -1,6 +1,8 @@
 import { useState, useCallback } from 'react';
 import { useAuth } from '../context/AuthContext';
 import { fetchWithAuth } from '../lib/api';
+import { subscribeToProgress, ProgressEvent } from '../lib/progress';
+import { PERMANENT_DELETE_CONFIRMATION } from './useTrash';
 
 interface CleanupResult {
   senderEmail: string;
@@ -12,9 +14,14 @@ interface CleanupResult {
 interface DeleteResult {
   success: boolean;
   totalDeleted: number;
+  // Size of the deleted mail - trashed mail counts against storage until the trash is emptied
+  trashedBytes?: number;
+  reclaimedBytes?: number;
+  permanent?: boolean;
   results: Array<{
     senderEmail: string;
     deletedCount: number;
+    actionId?: string;
     success: boolean;
     error?: string;
   }>;
@@ -27,12 +34,48 @@ interface ArchiveResult {
   results: Array<{
     senderEmail: string;
     archivedCount: number;
+    actionId?: string;
     success: boolean;
     error?: string;
   }>;
   freeTrialRemaining?: number;
 }
 
+interface MarkReadResult {
+  success: boolean;
+  totalMarked: number;
+  failedCount: number;
+  hasMore: boolean;
+  results: Array<{
+    senderEmail: string;
+    senderName: string | null;
+    markedCount: number;
+  }>;
+  freeTrialRemaining?: number;
+}
+
+interface MuteResult {
+  success: boolean;
+  senderEmail: string;
+  muted: boolean;
+  markedCount: number;
+  freeTrialRemaining?: number;
+}
+
+export interface SenderGroup {
+  id: string;
+  name: string | null;
+  members: { senderEmail: string; senderName: string | null }[];
+  excluded: { senderEmail: string; senderName: string }[];
+  createdAt: string;
+}
+
+interface SenderGroupResult {
+  success: boolean;
+  // null after a split that left nothing to merge
+  group: SenderGroup | null;
+}
+
 interface UnsubscribeResult {
   success: boolean;
   requiresManualAction?: boolean;
@@ -46,10 +89,67 @@ interface UnsubscribeResult {
 interface DeleteSingleResult {
   success: boolean;
   messageId: string;
+  actionId?: string;
   message?: string;
   freeTrialRemaining?: number;
 }
 
+export interface OlderThanFilters {
+  olderThanDays: number;
+  senderEmail?: string;
+  senderName?: string;
+  newslettersOnly?: boolean;
+  promotionalOnly?: boolean;
+  unreadOnly?: boolean;
+}
+
+export interface OlderThanPreview {
+  success: boolean;
+  preview: true;
+  olderThanDays: number;
+  cutoffDate: string;
+  totalMatches: number;
+  senderCount: number;
+  senders: Array<{ senderEmail: string; senderName: string; count: number }>;
+}
+
+interface OlderThanResult {
+  success: boolean;
+  totalDeleted: number;
+  failedCount: number;
+  trashedBytes?: number;
+  actionId?: string;
+  hasMore: boolean;
+}
+
+interface UndoResult {
+  success: boolean;
+  actionId: string;
+  restoredCount: number;
+  failedCount: number;
+}
+
+// Unsubscribe dry runs are one request per sender
+const UNSUBSCRIBE_PREVIEW_LIMIT = 10;
+
+export interface CleanupPreviewWarning {
+  type: 'receipts' | 'security' | 'not_synced';
+  message: string;
+  count: number;
+  senders: string[];
+  sampleSubjects: string[];
+}
+
+export interface CleanupPreview {
+  action: 'delete' | 'archive' | 'unsubscribe';
+  // Emails the action would touch (0 for unsubscribe)
+  totalMatches: number;
+  senders: Array<{ senderEmail: string; senderName: string; count: number; unreadCount: number; sampleSubjects: string[] }>;
+  warnings: CleanupPreviewWarning[];
+  // Unsubscribe only: how each sender would be unsubscribed
+  methods?: Array<{ senderEmail: string; method: 'one_click' | 'mailto' | 'manual' | 'none' }>;
+}
+
 export class CleanupError extends Error {
   code: string;
   freeTrialRemaining?: number;
@@ -64,6 +164,27 @@ export const useCleanupActions = () => {
   const { isAuthenticated, refreshToken } = useAuth();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<ProgressEvent | null>(null);
+
+  /**
+   * Follow live progress of a long-running cleanup action. Returns the
+   * operation ID to send with the request and a function to stop following.
+   */
+  const followProgress = useCallback((): { operationId: string; stop: () => void } => {
+    const operationId = crypto.randomUUID();
+    const stopProgress = subscribeToProgress({ operationId }, {
+      onProgress: setProgress,
+      onComplete: setProgress,
+      refreshFn: refreshToken,
+    });
+    return {
+      operationId,
+      stop: () => {
+        stopProgress();
+        setProgress(null);
+      },
+    };
+  }, [refreshToken]);
 
   /**
    * Delete a single email by message ID
@@ -116,11 +237,13 @@ export const useCleanupActions = () => {
    * @param accountEmail - The Gmail account email
    * @param senderEmails - Array of sender email addresses
    * @param senderNames - Optional array of sender names (for name+email grouping)
+   * @param options.permanent - Skip the trash (can't be undone)
    */
   const deleteEmails = useCallback(async (
     accountEmail: string,
     senderEmails: string[],
-    senderNames?: string[]
+    senderNames?: string[],
+    options: { permanent?: boolean } = {}
   ): Promise<DeleteResult | null> => {
     if (!isAuthenticated) {
       setError('Authentication required');
@@ -132,6 +255,8 @@ export const useCleanupActions = () => {
       return null;
     }
 
+    let progressSubscription: { operationId: string; stop: () => void } | null = null;
+
     try {
       setLoading(true);
       setError(null);
@@ -146,6 +271,14 @@ export const useCleanupActions = () => {
         body.senderNames = senderNames;
       }
 
+      if (options.permanent) {
+        body.permanent = true;
+        body.confirm = PERMANENT_DELETE_CONFIRMATION;
+      }
+
+      progressSubscription = followProgress();
+      body.operationId = progressSubscription.operationId;
+
       const response = await fetchWithAuth('/api/cleanup/delete', {
         method: 'POST',
         body: JSON.stringify(body),
@@ -167,9 +300,10 @@ export const useCleanupActions = () => {
       setError(err.message);
       return null;
     } finally {
+      progressSubscription?.stop();
       setLoading(false);
     }
-  }, [isAuthenticated]);
+  }, [isAuthenticated, followProgress]);
 
   /**
    * Archive all emails from specified senders
@@ -192,6 +326,8 @@ export const useCleanupActions = () => {
       return null;
     }
 
+    let progressSubscription: { operationId: string; stop: () => void } | null = null;
+
     try {
       setLoading(true);
       setError(null);
@@ -206,6 +342,9 @@ export const useCleanupActions = () => {
         body.senderNames = senderNames;
       }
 
+      progressSubscription = followProgress();
+      body.operationId = progressSubscription.operationId;
+
       const response = await fetchWithAuth('/api/cleanup/archive', {
         method: 'POST',
         body: JSON.stringify(body),
@@ -226,11 +365,189 @@ export const useCleanupActions = () => {
       console.error('Archive emails error:', err);
       setError(err.message);
       return null;
+    } finally {
+      progressSubscription?.stop();
+      setLoading(false);
+    }
+  }, [isAuthenticated, followProgress]);
+
+  /**
+   * Mark all unread emails from specified senders as read
+   * @param accountEmail - The connected account email
+   * @param senderEmails - Array of sender email addresses
+   * @param senderNames - Optional array of sender names (for name+email grouping)
+   * @param groupIds - Optional merged senders, expanded to their members by the server
+   */
+  const markRead = useCallback(async (
+    accountEmail: string,
+    senderEmails: string[],
+    senderNames?: string[],
+    groupIds?: string[]
+  ): Promise<MarkReadResult | null> => {
+    if (!isAuthenticated) {
+      setError('Authentication required');
+      return null;
+    }
+
+    if (senderEmails.length === 0 && !groupIds?.length) {
+      setError('No senders selected');
+      return null;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const body: any = {
+        accountEmail,
+        senderEmails,
+      };
+
+      // Include sender names if provided (enables name+email grouping)
+      if (senderNames && senderNames.length === senderEmails.length) {
+        body.senderNames = senderNames;
+      }
+
+      if (groupIds && groupIds.length > 0) {
+        body.groupIds = groupIds;
+      }
+
+      const response = await fetchWithAuth('/api/cleanup/mark-read', {
+        method: 'POST',
+        body: JSON.stringify(body),
+      }, refreshToken);
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new CleanupError(
+          data.error || 'Failed to mark emails as read',
+          data.code || 'UNKNOWN',
+          data.freeTrialRemaining
+        );
+      }
+
+      return data as MarkReadResult;
+    } catch (err: any) {
+      console.error('Mark read error:', err);
+      setError(err.message);
+      return null;
     } finally {
       setLoading(false);
     }
   }, [isAuthenticated]);
 
+  /**
+   * Mute or unmute a sender. Muting marks their unread mail read now and
+   * their new mail read on every sync.
+   */
+  const setSenderMuted = useCallback(async (
+    accountEmail: string,
+    senderEmail: string,
+    muted: boolean
+  ): Promise<MuteResult | null> => {
+    if (!isAuthenticated) {
+      setError('Authentication required');
+      return null;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetchWithAuth('/api/cleanup/mute', {
+        method: 'POST',
+        body: JSON.stringify({ accountEmail, senderEmail, muted }),
+      }, refreshToken);
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new CleanupError(
+          data.error || 'Failed to update muted sender',
+          data.code || 'UNKNOWN',
+          data.freeTrialRemaining
+        );
+      }
+
+      return data as MuteResult;
+    } catch (err: any) {
+      console.error('Mute sender error:', err);
+      setError(err.message);
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  }, [isAuthenticated]);
+
+  // POST /api/emails/sender-groups (merge or split)
+  const updateSenderGroup = async (body: Record<string, unknown>): Promise<SenderGroupResult | null> => {
+    if (!isAuthenticated) {
+      setError('Authentication required');
+      return null;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetchWithAuth('/api/emails/sender-groups', {
+        method: 'POST',
+        body: JSON.stringify(body),
+      }, refreshToken);
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new CleanupError(
+          data.error || 'Failed to update sender group',
+          data.code || 'UNKNOWN'
+        );
+      }
+
+      return data as SenderGroupResult;
+    } catch (err: any) {
+      console.error('Sender group error:', err);
+      setError(err.message);
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  /**
+   * Merge name+email senders into one logical sender (kept across syncs).
+   * Leave a member's name out to merge every display name of its address.
+   */
+  const mergeSenders = useCallback(async (
+    accountEmail: string,
+    members: Array<{ email: string; name?: string }>,
+    options: { name?: string; groupId?: string } = {}
+  ): Promise<SenderGroupResult | null> => {
+    return updateSenderGroup({
+      action: 'merge',
+      accountEmail,
+      members: members.map(m => ({ senderEmail: m.email, senderName: m.name })),
+      ...options,
+    });
+  }, [isAuthenticated]);
+
+  /**
+   * Split members out of a merged sender - all of them when none are given
+   */
+  const splitSenderGroup = useCallback(async (
+    accountEmail: string,
+    groupId: string,
+    members?: Array<{ email: string; name?: string }>
+  ): Promise<SenderGroupResult | null> => {
+    return updateSenderGroup({
+      action: 'split',
+      accountEmail,
+      groupId,
+      ...(members && { members: members.map(m => ({ senderEmail: m.email, senderName: m.name })) }),
+    });
+  }, [isAuthenticated]);
+
   /**
    * Unsubscribe from a sender
    */
@@ -304,13 +621,165 @@ export const useCleanupActions = () => {
     }
   }, [deleteEmails, archiveEmails]);
 
+  /**
+   * Preview or delete emails older than a given age
+   * @param accountEmail - The email account to clean
+   * @param filters - Age threshold plus optional sender/flag filters
+   * @param preview - If true, only returns matching counts
+   */
+  const deleteOlderThan = useCallback(async (
+    accountEmail: string,
+    filters: OlderThanFilters,
+    preview: boolean = false
+  ): Promise<OlderThanPreview | OlderThanResult | null> => {
+    if (!isAuthenticated) {
+      setError('Authentication required');
+      return null;
+    }
+
+    let progressSubscription: { operationId: string; stop: () => void } | null = null;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      // Previews are quick - only follow progress for the actual deletion
+      progressSubscription = preview ? null : followProgress();
+
+      const response = await fetchWithAuth('/api/cleanup/delete-older-than', {
+        method: 'POST',
+        body: JSON.stringify({
+          accountEmail,
+          ...filters,
+          preview,
+          operationId: progressSubscription?.operationId,
+        }),
+      }, refreshToken);
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new CleanupError(
+          data.error || 'Failed to delete old emails',
+          data.code || 'UNKNOWN'
+        );
+      }
+
+      return data as OlderThanPreview | OlderThanResult;
+    } catch (err: any) {
+      console.error('Delete older than error:', err);
+      setError(err.message);
+      return null;
+    } finally {
+      progressSubscription?.stop();
+      setLoading(false);
+    }
+  }, [isAuthenticated, followProgress]);
+
+  /**
+   * Dry run of a delete/archive/unsubscribe: exact counts, per-sender
+   * breakdown and receipt/security warnings. Changes nothing.
+   */
+  const previewCleanup = useCallback(async (
+    accountEmail: string,
+    action: 'delete' | 'archive' | 'unsubscribe',
+    senders: Array<{ email: string; name?: string }>
+  ): Promise<CleanupPreview | null> => {
+    if (!isAuthenticated || senders.length === 0) return null;
+
+    const post = async (url: string, body: Record<string, unknown>) => {
+      const response = await fetchWithAuth(url, {
+        method: 'POST',
+        body: JSON.stringify({ ...body, accountEmail, dryRun: true }),
+      }, refreshToken);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new CleanupError(data.error || 'Failed to preview cleanup', data.code || 'UNKNOWN');
+      }
+      return data;
+    };
+
+    try {
+      if (action !== 'unsubscribe') {
+        const data = await post(`/api/cleanup/${action}`, {
+          senderEmails: senders.map(s => s.email),
+          senderNames: senders.map(s => s.name || ''),
+        });
+        return { action, totalMatches: data.totalMatches, senders: data.senders, warnings: data.warnings };
+      }
+
+      // Unsubscribe is per sender - keep large selections inside the rate limit
+      if (senders.length > UNSUBSCRIBE_PREVIEW_LIMIT) return null;
+      const results = await Promise.all(senders.map(s => post('/api/cleanup/unsubscribe', { senderEmail: s.email })));
+      return {
+        action,
+        totalMatches: 0,
+        senders: results.flatMap(r => r.senders),
+        warnings: results.flatMap(r => r.warnings),
+        methods: results.map(r => ({ senderEmail: r.senderEmail, method: r.method })),
+      };
+    } catch (err: any) {
+      // The confirm modal falls back to the cached sender counts
+      console.error('Cleanup preview error:', err);
+      return null;
+    }
+  }, [isAuthenticated]);
+
+  /**
+   * Undo a completed delete/archive action (within 30 days)
+   * @param actionId - The cleanup action ID returned by delete/archive
+   */
+  const undoCleanupAction = useCallback(async (
+    actionId: string
+  ): Promise<UndoResult | null> => {
+    if (!isAuthenticated) {
+      setError('Authentication required');
+      return null;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetchWithAuth('/api/cleanup/undo', {
+        method: 'POST',
+        body: JSON.stringify({ actionId }),
+      }, refreshToken);
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new CleanupError(
+          data.error || 'Failed to undo action',
+          data.code || 'UNKNOWN'
+        );
+      }
+
+      return data as UndoResult;
+    } catch (err: any) {
+      console.error('Undo cleanup action error:', err);
+      setError(err.message);
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  }, [isAuthenticated]);
+
   return {
     deleteSingleEmail,
     deleteEmails,
     archiveEmails,
+    markRead,
+    setSenderMuted,
+    mergeSenders,
+    splitSenderGroup,
     unsubscribe,
     bulkCleanup,
+    deleteOlderThan,
+    previewCleanup,
+    undoCleanupAction,
     loading,
     error,
+    progress,
   };
 };
@@ -0,0 +1,190 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { fetchWithAuth } from '../lib/api';
+
+const POLL_INTERVAL_MS = 2000;
+
+export type CleanupJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface CleanupJobFilter {
+  newslettersOnly?: boolean;
+  promotionalOnly?: boolean;
+  minEmailCount?: number;
+  // Registrable domain - every sender under it, subdomains included
+  domain?: string;
+}
+
+export interface CleanupJobSender {
+  email: string;
+  name: string | null;
+  status: 'pending' | 'completed' | 'partial' | 'failed';
+  emailCount: number;
+  affectedCount: number;
+  failedCount: number;
+  error: string | null;
+  actionId: string | null;
+}
+
+export interface CleanupJob {
+  id: string;
+  action: 'delete' | 'archive';
+  status: CleanupJobStatus;
+  filter: CleanupJobFilter | null;
+  totalSenders: number;
+  processedSenders: number;
+  failedSenders: number;
+  totalEmails: number;
+  affectedEmails: number;
+  failedEmails: number;
+  error: string | null;
+  createdAt: string;
+  startedAt: string | null;
+  updatedAt: string;
+  completedAt: string | null;
+  senders?: CleanupJobSender[];
+}
+
+export type CleanupJobTarget =
+  | { senderEmails: string[]; senderNames?: string[]; groupIds?: string[] }
+  | { filter: CleanupJobFilter };
+
+export const isCleanupJobFinished = (job: CleanupJob) =>
+  job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled';
+
+/**
+ * Bulk cleanup jobs: delete/archive any number of senders in the background.
+ * The current job is polled until it finishes, then its per-sender report is loaded.
+ */
+export const useCleanupJobs = () => {
+  const { isAuthenticated, refreshToken } = useAuth();
+  const [job, setJob] = useState<CleanupJob | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const jobIdRef = useRef<string | null>(null);
+
+  const request = useCallback(async (url: string, options: RequestInit = {}) => {
+    const response = await fetchWithAuth(url, options, refreshToken);
+    const data = await response.json();
+    return { response, data };
+  }, [refreshToken]);
+
+  const trackJob = useCallback((next: CleanupJob | null) => {
+    jobIdRef.current = next?.id || null;
+    setJob(next);
+  }, []);
+
+  // Poll the active job; once it finishes, load the full report
+  const jobId = job?.id;
+  const finished = job ? isCleanupJobFinished(job) : true;
+  useEffect(() => {
+    if (!jobId || finished) return;
+
+    const interval = setInterval(async () => {
+      try {
+        const { response, data } = await request(`/api/cleanup/jobs?id=${encodeURIComponent(jobId)}`);
+        if (!response.ok || jobIdRef.current !== jobId) return;
+
+        const latest = data.job as CleanupJob;
+        if (!isCleanupJobFinished(latest)) {
+          setJob(latest);
+          return;
+        }
+
+        const report = await request(`/api/cleanup/jobs?id=${encodeURIComponent(jobId)}&senders=true`);
+        if (jobIdRef.current !== jobId) return;
+        setJob(report.response.ok ? report.data.job : latest);
+      } catch (err) {
+        // Keep polling - a dropped request shouldn't lose the job
+        console.error('Cleanup job poll error:', err);
+      }
+    }, POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [jobId, finished, request]);
+
+  /**
+   * Start a job for a sender selection or a filter. If the account already
+   * has a job running, that job is followed instead.
+   */
+  const startJob = useCallback(async (
+    accountEmail: string,
+    action: 'delete' | 'archive',
+    target: CleanupJobTarget
+  ): Promise<CleanupJob | null> => {
+    if (!isAuthenticated) {
+      setError('Authentication required');
+      return null;
+    }
+
+    try {
+      setError(null);
+      const { response, data } = await request('/api/cleanup/jobs', {
+        method: 'POST',
+        body: JSON.stringify({ accountEmail, action, ...target }),
+      });
+
+      if (response.status === 409 && data.code === 'CLEANUP_JOB_IN_PROGRESS' && data.job) {
+        trackJob(data.job);
+        setError(data.error);
+        return null;
+      }
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to start cleanup');
+      }
+
+      trackJob(data.job);
+      return data.job as CleanupJob;
+    } catch (err: any) {
+      console.error('Start cleanup job error:', err);
+      setError(err.message);
+      return null;
+    }
+  }, [isAuthenticated, request, trackJob]);
+
+  const cancelJob = useCallback(async () => {
+    if (!jobIdRef.current) return;
+    try {
+      const { response, data } = await request(`/api/cleanup/jobs?id=${encodeURIComponent(jobIdRef.current)}`, {
+        method: 'DELETE',
+      });
+      if (data.job) setJob(data.job);
+      if (!response.ok) setError(data.error || 'Failed to cancel cleanup');
+    } catch (err: any) {
+      console.error('Cancel cleanup job error:', err);
+      setError(err.message);
+    }
+  }, [request]);
+
+  /**
+   * Run the finished job's failed and partially cleaned senders again
+   */
+  const retryFailed = useCallback(async () => {
+    if (!jobIdRef.current) return;
+    try {
+      setError(null);
+      const { response, data } = await request(`/api/cleanup/jobs?id=${encodeURIComponent(jobIdRef.current)}`, {
+        method: 'PATCH',
+      });
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to retry cleanup');
+      }
+      setJob(data.job);
+    } catch (err: any) {
+      console.error('Retry cleanup job error:', err);
+      setError(err.message);
+    }
+  }, [request]);
+
+  const dismiss = useCallback(() => {
+    trackJob(null);
+    setError(null);
+  }, [trackJob]);
+
+  return {
+    job,
+    error,
+    startJob,
+    cancelJob,
+    retryFailed,
+    dismiss,
+  };
+};
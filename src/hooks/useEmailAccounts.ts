@@ -31,7 +31,9 @@ export const useEmailAccounts = () => {
       // and delete the account row with proper authentication
       const endpoint = provider?.toLowerCase() === 'outlook'
         ? '/api/outlook/disconnect'
-        : '/api/gmail/disconnect';
+        : provider === 'Yahoo' || provider === 'iCloud'
+          ? '/api/imap/disconnect'
+          : '/api/gmail/disconnect';
 
       const response = await fetchWithAuth(endpoint, {
         method: 'POST',
@@ -72,13 +74,21 @@ export const useEmailAccounts = () => {
         throw new Error('Email address is required for sync');
       }
 
-      // Call the server-side sync API
-      const response = await fetchWithAuth('/api/emails/sync', {
-        method: 'POST',
-        body: JSON.stringify({ email, fullSync }),
-      }, refreshToken);
-
-      const data = await response.json();
+      // Call the server-side sync API. Full syncs run as resumable jobs -
+      // keep calling while the server reports the job is still in progress (202)
+      let response: Response;
+      let data: any;
+      while (true) {
+        response = await fetchWithAuth('/api/emails/sync', {
+          method: 'POST',
+          body: JSON.stringify({ email, fullSync }),
+        }, refreshToken);
+        data = await response.json();
+        // 409 SYNC_IN_PROGRESS: another sync/cleanup holds the account - wait for it
+        const accountBusy = response.status === 409 && data.code === 'SYNC_IN_PROGRESS';
+        if (!accountBusy && (response.status !== 202 || !data.inProgress)) break;
+        await new Promise(r => setTimeout(r, accountBusy ? 2000 : 1000));
+      }
 
       if (!response.ok) {
         throw new Error(data.error || 'Failed to sync emails');
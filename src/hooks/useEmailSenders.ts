@@ -1,13 +1,18 @@
 import { useState, useCallback, useEffect, useRef } from 'react';
 import { useAuth } from '../context/AuthContext';
 import { fetchWithAuth } from '../lib/api';
+import { subscribeToProgress } from '../lib/progress';
 
 export interface Sender {
   id: string;
   email: string;
   name: string;
+  // Registrable domain, for grouping senders of one company
+  domain?: string;
   emailCount: number;
   unreadCount: number;
+  // Sum of the sender's synced email sizes
+  totalSizeBytes?: number;
   firstEmailDate: string;
   lastEmailDate: string;
   unsubscribeLink: string | null;
@@ -16,11 +21,17 @@ export interface Sender {
   hasOneClickUnsubscribe?: boolean;
   isNewsletter: boolean;
   isPromotional: boolean;
+  // New mail from muted senders is marked read on sync
+  isMuted?: boolean;
   emailAccountId: string;
   accountEmail: string;
   // New fields for name+email grouping
   hasMultipleNames?: boolean;
   relatedSenderNames?: string[];
+  // Set on a merged sender: its group and the name+email senders folded into it
+  groupId?: string;
+  groupName?: string | null;
+  groupMembers?: { email: string; name: string; emailCount: number }[];
 }
 
 export interface EmailMessage {
@@ -176,32 +187,35 @@ export const useEmailSenders = (options: UseSendersOptions = {}) => {
       throw new Error('Sync request failed after retries');
     };
 
-    // Start polling sync progress — pauses when tab is hidden
-    let pollActive = true;
-    const handleVisibility = () => { pollActive = document.visibilityState === 'visible'; };
-    document.addEventListener('visibilitychange', handleVisibility);
-
-    const pollInterval = setInterval(async () => {
-      if (!pollActive) return; // skip polling while tab is hidden
-      try {
-        const resp = await fetchWithAuth(
-          `/api/emails/sync-progress?email=${encodeURIComponent(email)}`,
-          { method: 'GET' },
-          refreshToken
-        );
-        if (resp.ok) {
-          const data = await resp.json();
-          if (data.total) {
-            setSyncProgress({
-              current: data.current || 0,
-              total: data.total,
-            });
-          }
-        }
-      } catch (e) {
-        // Polling errors are non-fatal — ignore silently
+    // Full/upgrade syncs run as resumable server-side jobs: a 202 with inProgress
+    // means the job checkpointed and wants another request to continue.
+    // A 409 SYNC_IN_PROGRESS means another sync/cleanup holds the account - wait for it
+    const syncUntilDone = async (body: Record<string, unknown>): Promise<{ response: Response; data: any }> => {
+      while (true) {
+        const response = await syncFetch('/api/emails/sync', {
+          method: 'POST',
+          body: JSON.stringify(body),
+        });
+        const data = await response.json();
+        const accountBusy = response.status === 409 && data.code === 'SYNC_IN_PROGRESS';
+        if (!accountBusy && (response.status !== 202 || !data.inProgress)) return { response, data };
+        // Brief pause so a job held by another tab/worker isn't polled in a tight loop
+        await new Promise(r => setTimeout(r, accountBusy ? 2000 : 1000));
       }
-    }, 2000);
+    };
+
+    // Follow live sync progress (SSE, falls back to polling)
+    const stopProgress = subscribeToProgress({ email }, {
+      onProgress: (event) => {
+        if (event.total) {
+          setSyncProgress({
+            current: event.processed || 0,
+            total: event.total,
+          });
+        }
+      },
+      refreshFn: refreshToken,
+    });
 
     try {
       setError(null);
@@ -237,12 +251,7 @@ export const useEmailSenders = (options: UseSendersOptions = {}) => {
         // Phase 2: Full sync to rebuild everything with accurate totals
         setSyncPhase('full');
 
-        const phase2Response = await syncFetch('/api/emails/sync', {
-          method: 'POST',
-          body: JSON.stringify({ email, fullSync: true }),
-        });
-
-        const phase2Data = await phase2Response.json();
+        const { response: phase2Response, data: phase2Data } = await syncUntilDone({ email, fullSync: true });
 
         if (!phase2Response.ok) {
           if (phase2Response.status === 429 && phase2Data.code === 'SYNC_LIMIT_REACHED') {
@@ -274,12 +283,7 @@ export const useEmailSenders = (options: UseSendersOptions = {}) => {
       // === Standard single-request sync (incremental or manual full) ===
       setSyncPhase('full');
 
-      const response = await syncFetch('/api/emails/sync', {
-        method: 'POST',
-        body: JSON.stringify({ email, maxMessages, fullSync, repair }),
-      });
-
-      const data = await response.json();
+      const { response, data } = await syncUntilDone({ email, maxMessages, fullSync, repair });
 
       if (!response.ok) {
         // Handle sync limit reached (429)
@@ -311,8 +315,7 @@ export const useEmailSenders = (options: UseSendersOptions = {}) => {
       setError(err.message);
       return { success: false };
     } finally {
-      clearInterval(pollInterval);
-      document.removeEventListener('visibilitychange', handleVisibility);
+      stopProgress();
       setSyncProgress(null);
       setSyncPhase('idle');
     }
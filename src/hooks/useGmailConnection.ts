@@ -14,9 +14,10 @@ export const useGmailConnection = () => {
   const [error, setError] = useState<string | null>(null);
 
   /**
-   * Start Gmail OAuth flow - returns the authorization URL
+   * Start Gmail OAuth flow - returns the authorization URL.
+   * `permanentDelete` also asks for the full mail scope permanent delete needs.
    */
-  const connectGmail = useCallback(async (): Promise<string | null> => {
+  const connectGmail = useCallback(async (options: { permanentDelete?: boolean } = {}): Promise<string | null> => {
     if (!isAuthenticated) {
       setError('Authentication required');
       return null;
@@ -27,7 +28,7 @@ export const useGmailConnection = () => {
       setError(null);
 
       const response = await fetchWithAuth(
-        '/api/gmail/connect',
+        `/api/gmail/connect${options.permanentDelete ? '?permanentDelete=true' : ''}`,
         { method: 'GET' },
         refreshToken
       );
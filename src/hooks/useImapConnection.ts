@@ -0,0 +1,99 @@
+import { useState, useCallback } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { fetchWithAuth } from '../lib/api';
+
+export type ImapProvider = 'Yahoo' | 'iCloud';
+
+export const useImapConnection = () => {
+  const { isAuthenticated, refreshToken } = useAuth();
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Connect a Yahoo/iCloud account with an app-specific password
+   * Returns the connected email address on success
+   */
+  const connectImap = useCallback(async (
+    email: string,
+    provider: ImapProvider,
+    appPassword: string
+  ): Promise<string | null> => {
+    if (!isAuthenticated) {
+      setError('Authentication required');
+      return null;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetchWithAuth(
+        '/api/imap/connect',
+        {
+          method: 'POST',
+          body: JSON.stringify({ email, provider, appPassword }),
+        },
+        refreshToken
+      );
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || `Failed to connect ${provider}`);
+      }
+
+      return data.email;
+    } catch (err: any) {
+      console.error('IMAP connect error:', err);
+      setError(err.message);
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  }, [isAuthenticated, refreshToken]);
+
+  /**
+   * Disconnect Yahoo/iCloud account
+   */
+  const disconnectImap = useCallback(async (email: string): Promise<boolean> => {
+    if (!isAuthenticated) {
+      setError('Authentication required');
+      return false;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetchWithAuth(
+        '/api/imap/disconnect',
+        {
+          method: 'POST',
+          body: JSON.stringify({ email }),
+        },
+        refreshToken
+      );
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to disconnect email account');
+      }
+
+      return true;
+    } catch (err: any) {
+      console.error('IMAP disconnect error:', err);
+      setError(err.message);
+      return false;
+    } finally {
+      setLoading(false);
+    }
+  }, [isAuthenticated, refreshToken]);
+
+  return {
+    connectImap,
+    disconnectImap,
+    loading,
+    error,
+  };
+};
@@ -0,0 +1,164 @@
+import { useState, useCallback } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { fetchWithAuth } from '../lib/api';
+
+export interface MailingList {
+  listId: string;
+  emailCount: number;
+  unreadCount: number;
+  firstEmailDate: string;
+  lastEmailDate: string;
+  senders: Array<{ email: string; name: string; emailCount: number; exclusive: boolean }>;
+  unsubscribeLink: string | null;
+  mailtoUnsubscribeLink: string | null;
+  hasOneClickUnsubscribe: boolean;
+}
+
+interface ListUnsubscribeResult {
+  success: boolean;
+  message?: string;
+  requiresManualAction?: boolean;
+  linkExpired?: boolean;
+  unsubscribeLink?: string;
+}
+
+interface ListDeleteResult {
+  totalDeleted: number;
+  failedCount: number;
+  trashedBytes: number;
+  actionIds: string[];
+}
+
+/**
+ * An account's mail grouped by mailing list (List-Id), with per-list
+ * unsubscribe and delete. Lists span every address they mail from, so these
+ * act on the list rather than on senders.
+ */
+export const useMailingLists = () => {
+  const { isAuthenticated, refreshToken } = useAuth();
+  const [lists, setLists] = useState<MailingList[]>([]);
+  const [loading, setLoading] = useState(false);
+  // listId of the list an action is running on
+  const [busyListId, setBusyListId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchLists = useCallback(async (accountEmail: string) => {
+    if (!isAuthenticated) {
+      setError('Authentication required');
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await fetchWithAuth(
+        `/api/emails/lists?accountEmail=${encodeURIComponent(accountEmail)}`,
+        { method: 'GET' },
+        refreshToken
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load mailing lists');
+      }
+
+      setLists(data.lists || []);
+    } catch (err: any) {
+      console.error('Fetch mailing lists error:', err);
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  }, [isAuthenticated, refreshToken]);
+
+  const unsubscribeList = useCallback(async (
+    accountEmail: string,
+    listId: string
+  ): Promise<ListUnsubscribeResult | null> => {
+    if (!isAuthenticated) {
+      setError('Authentication required');
+      return null;
+    }
+
+    try {
+      setBusyListId(listId);
+      setError(null);
+      const response = await fetchWithAuth('/api/cleanup/unsubscribe', {
+        method: 'POST',
+        body: JSON.stringify({ accountEmail, listId }),
+      }, refreshToken);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to unsubscribe from mailing list');
+      }
+
+      return data as ListUnsubscribeResult;
+    } catch (err: any) {
+      console.error('Unsubscribe from mailing list error:', err);
+      setError(err.message);
+      return null;
+    } finally {
+      setBusyListId(null);
+    }
+  }, [isAuthenticated, refreshToken]);
+
+  /**
+   * Trash every stored email of a list. The server trashes in capped chunks,
+   * so keep calling until nothing is left.
+   */
+  const deleteList = useCallback(async (
+    accountEmail: string,
+    listId: string
+  ): Promise<ListDeleteResult | null> => {
+    if (!isAuthenticated) {
+      setError('Authentication required');
+      return null;
+    }
+
+    const result: ListDeleteResult = { totalDeleted: 0, failedCount: 0, trashedBytes: 0, actionIds: [] };
+
+    try {
+      setBusyListId(listId);
+      setError(null);
+
+      while (true) {
+        const response = await fetchWithAuth('/api/cleanup/delete-list', {
+          method: 'POST',
+          body: JSON.stringify({ accountEmail, listId }),
+        }, refreshToken);
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to delete mailing list');
+        }
+
+        result.totalDeleted += data.totalDeleted || 0;
+        result.failedCount += data.failedCount || 0;
+        result.trashedBytes += data.trashedBytes || 0;
+        if (data.actionId) result.actionIds.push(data.actionId);
+        // Stop when a chunk makes no progress (everything left failed to move)
+        if (!data.hasMore || !data.totalDeleted) break;
+      }
+
+      setLists(prev => prev.filter(list => list.listId !== listId));
+      return result;
+    } catch (err: any) {
+      console.error('Delete mailing list error:', err);
+      setError(err.message);
+      return result.totalDeleted > 0 ? result : null;
+    } finally {
+      setBusyListId(null);
+    }
+  }, [isAuthenticated, refreshToken]);
+
+  return {
+    lists,
+    loading,
+    busyListId,
+    error,
+    fetchLists,
+    unsubscribeList,
+    deleteList,
+  };
+};
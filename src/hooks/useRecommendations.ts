@@ -0,0 +1,80 @@
+import { useState, useCallback } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { fetchWithAuth } from '../lib/api';
+
+export type EngagementLevel = 'high' | 'medium' | 'low' | 'none';
+
+export interface CleanupSuggestion {
+  senderEmail: string;
+  senderName: string;
+  action: 'unsubscribe' | 'delete';
+  engagement: {
+    score: number;
+    level: EngagementLevel;
+    readRatio: number;
+    archivedUnreadCount: number;
+    hasReplied: boolean;
+    emailsPerMonth: number;
+    daysSinceLastEmail: number;
+  };
+  reasons: string[];
+  estimatedReduction: {
+    emails: number;
+    perMonth: number;
+    percentOfInbox: number;
+  };
+}
+
+interface ReductionSummary {
+  emails: number;
+  perMonth: number;
+  percentOfInbox: number;
+}
+
+/**
+ * Senders the user never opens or replies to, ranked by how much acting on
+ * them would shrink the inbox. Scores come from the last sync.
+ */
+export const useRecommendations = () => {
+  const { isAuthenticated, refreshToken } = useAuth();
+  const [suggestions, setSuggestions] = useState<CleanupSuggestion[]>([]);
+  const [summary, setSummary] = useState<ReductionSummary | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRecommendations = useCallback(async (accountEmail: string, limit?: number) => {
+    if (!isAuthenticated) {
+      setError('Authentication required');
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      const params = new URLSearchParams({ accountEmail });
+      if (limit) params.set('limit', String(limit));
+      const response = await fetchWithAuth(`/api/emails/recommendations?${params}`, { method: 'GET' }, refreshToken);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load suggested cleanups');
+      }
+
+      setSuggestions(data.recommendations || []);
+      setSummary(data.estimatedReduction || null);
+    } catch (err: any) {
+      console.error('Fetch recommendations error:', err);
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  }, [isAuthenticated, refreshToken]);
+
+  return {
+    suggestions,
+    summary,
+    loading,
+    error,
+    fetchRecommendations,
+  };
+};
@@ -0,0 +1,203 @@
+import { useState, useCallback } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { fetchWithAuth } from '../lib/api';
+import { Sender } from './useEmailSenders';
+
+export interface LargeEmail {
+  messageId: string;
+  senderEmail: string;
+  senderName: string;
+  subject: string;
+  receivedAt: string;
+  sizeBytes: number;
+  hasAttachments: boolean;
+}
+
+interface LargeDeletePreview {
+  totalMatches: number;
+  totalBytes: number;
+  senderCount: number;
+}
+
+interface LargeDeleteResult {
+  totalDeleted: number;
+  failedCount: number;
+  trashedBytes: number;
+  actionIds: string[];
+}
+
+const LARGEST_SENDERS_LIMIT = 50;
+
+/**
+ * Where an account's storage goes: its largest senders, its largest emails,
+ * and trashing every email over a size. Sizes are what the provider reported
+ * at sync, so mail synced before sizes were stored counts as 0.
+ */
+export const useStorage = () => {
+  const { isAuthenticated, refreshToken } = useAuth();
+  const [largestSenders, setLargestSenders] = useState<Sender[]>([]);
+  const [largeEmails, setLargeEmails] = useState<LargeEmail[]>([]);
+  const [largeEmailsTotal, setLargeEmailsTotal] = useState(0);
+  const [largeEmailsBytes, setLargeEmailsBytes] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [deleting, setDeleting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchLargestSenders = useCallback(async (accountEmail: string) => {
+    if (!isAuthenticated) {
+      setError('Authentication required');
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await fetchWithAuth(
+        `/api/emails/senders?email=${encodeURIComponent(accountEmail)}&sortBy=size&sortDirection=desc&limit=${LARGEST_SENDERS_LIMIT}`,
+        { method: 'GET' },
+        refreshToken
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load largest senders');
+      }
+
+      setLargestSenders((data.senders || []).filter((s: Sender) => (s.totalSizeBytes || 0) > 0));
+    } catch (err: any) {
+      console.error('Fetch largest senders error:', err);
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  }, [isAuthenticated, refreshToken]);
+
+  const fetchLargeEmails = useCallback(async (
+    accountEmail: string,
+    minSizeMb: number,
+    attachmentsOnly: boolean
+  ) => {
+    if (!isAuthenticated) {
+      setError('Authentication required');
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      const params = new URLSearchParams({ accountEmail, minSizeMb: String(minSizeMb) });
+      if (attachmentsOnly) params.set('attachmentsOnly', 'true');
+      const response = await fetchWithAuth(`/api/emails/large?${params}`, { method: 'GET' }, refreshToken);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load large emails');
+      }
+
+      setLargeEmails(data.emails || []);
+      setLargeEmailsTotal(data.total || 0);
+      setLargeEmailsBytes(data.totalBytes || 0);
+    } catch (err: any) {
+      console.error('Fetch large emails error:', err);
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  }, [isAuthenticated, refreshToken]);
+
+  const previewDeleteLarge = useCallback(async (
+    accountEmail: string,
+    minSizeMb: number,
+    attachmentsOnly: boolean
+  ): Promise<LargeDeletePreview | null> => {
+    if (!isAuthenticated) {
+      setError('Authentication required');
+      return null;
+    }
+
+    try {
+      setError(null);
+      const response = await fetchWithAuth('/api/cleanup/delete-large', {
+        method: 'POST',
+        body: JSON.stringify({ accountEmail, minSizeMb, attachmentsOnly, dryRun: true }),
+      }, refreshToken);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to preview large email cleanup');
+      }
+
+      return { totalMatches: data.totalMatches || 0, totalBytes: data.totalBytes || 0, senderCount: data.senderCount || 0 };
+    } catch (err: any) {
+      console.error('Preview large email cleanup error:', err);
+      setError(err.message);
+      return null;
+    }
+  }, [isAuthenticated, refreshToken]);
+
+  /**
+   * Trash every email over minSizeMb. The server trashes in capped chunks,
+   * so keep calling until nothing is left.
+   */
+  const deleteLarge = useCallback(async (
+    accountEmail: string,
+    minSizeMb: number,
+    attachmentsOnly: boolean
+  ): Promise<LargeDeleteResult | null> => {
+    if (!isAuthenticated) {
+      setError('Authentication required');
+      return null;
+    }
+
+    const result: LargeDeleteResult = { totalDeleted: 0, failedCount: 0, trashedBytes: 0, actionIds: [] };
+
+    try {
+      setDeleting(true);
+      setError(null);
+
+      while (true) {
+        const response = await fetchWithAuth('/api/cleanup/delete-large', {
+          method: 'POST',
+          body: JSON.stringify({ accountEmail, minSizeMb, attachmentsOnly }),
+        }, refreshToken);
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to delete large emails');
+        }
+
+        result.totalDeleted += data.totalDeleted || 0;
+        result.failedCount += data.failedCount || 0;
+        result.trashedBytes += data.trashedBytes || 0;
+        if (data.actionId) result.actionIds.push(data.actionId);
+        // Stop when a chunk makes no progress (everything left failed to move)
+        if (!data.hasMore || !data.totalDeleted) break;
+      }
+
+      setLargeEmails([]);
+      setLargeEmailsTotal(0);
+      setLargeEmailsBytes(0);
+      return result;
+    } catch (err: any) {
+      console.error('Delete large emails error:', err);
+      setError(err.message);
+      return result.totalDeleted > 0 ? result : null;
+    } finally {
+      setDeleting(false);
+    }
+  }, [isAuthenticated, refreshToken]);
+
+  return {
+    largestSenders,
+    largeEmails,
+    largeEmailsTotal,
+    largeEmailsBytes,
+    loading,
+    deleting,
+    error,
+    fetchLargestSenders,
+    fetchLargeEmails,
+    previewDeleteLarge,
+    deleteLarge,
+  };
+};
@@ -0,0 +1,121 @@
+import { useState, useCallback } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { fetchWithAuth } from '../lib/api';
+
+// Typed by the user and sent as `confirm` on every permanent delete
+export const PERMANENT_DELETE_CONFIRMATION = 'DELETE';
+
+export interface TrashItem {
+  actionId: string;
+  actionType: string;
+  senderEmail: string;
+  senderName: string;
+  emailCount: number;
+  // Storage the messages use until purged (0 for cleanups from before sizes were tracked)
+  sizeBytes: number;
+  createdAt: string;
+  // When the provider purges these on its own
+  expiresAt: string;
+}
+
+interface EmptyTrashResult {
+  success: boolean;
+  purgedActionIds: string[];
+  purged: number;
+  reclaimedBytes: number;
+  skipped: number;
+}
+
+/**
+ * What CleanInbox has moved to the trash for an account, and permanently
+ * deleting it. `scopeRequired` is set when a Gmail account has to be
+ * reconnected with permanent delete access first.
+ */
+export const useTrash = () => {
+  const { isAuthenticated, refreshToken } = useAuth();
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [retentionDays, setRetentionDays] = useState(30);
+  const [loading, setLoading] = useState(false);
+  const [emptying, setEmptying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [scopeRequired, setScopeRequired] = useState(false);
+
+  const fetchTrash = useCallback(async (accountEmail: string) => {
+    if (!isAuthenticated) {
+      setError('Authentication required');
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await fetchWithAuth(
+        `/api/cleanup/trash?accountEmail=${encodeURIComponent(accountEmail)}`,
+        { method: 'GET' },
+        refreshToken
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load trash');
+      }
+
+      setItems(data.items || []);
+      setRetentionDays(data.retentionDays || 30);
+    } catch (err: any) {
+      console.error('Fetch trash error:', err);
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  }, [isAuthenticated, refreshToken]);
+
+  /**
+   * Permanently delete the given actions' emails, or everything listed when no IDs are passed
+   */
+  const emptyTrash = useCallback(async (
+    accountEmail: string,
+    actionIds?: string[]
+  ): Promise<EmptyTrashResult | null> => {
+    if (!isAuthenticated) {
+      setError('Authentication required');
+      return null;
+    }
+
+    try {
+      setEmptying(true);
+      setError(null);
+      const response = await fetchWithAuth('/api/cleanup/trash', {
+        method: 'POST',
+        body: JSON.stringify({ accountEmail, actionIds, confirm: PERMANENT_DELETE_CONFIRMATION }),
+      }, refreshToken);
+      const data = await response.json();
+
+      if (!response.ok) {
+        setScopeRequired(data.code === 'PERMANENT_DELETE_SCOPE_REQUIRED');
+        throw new Error(data.error || 'Failed to empty trash');
+      }
+
+      const purged = new Set<string>(data.purgedActionIds || []);
+      setItems(prev => prev.filter(item => !purged.has(item.actionId)));
+      return data as EmptyTrashResult;
+    } catch (err: any) {
+      console.error('Empty trash error:', err);
+      setError(err.message);
+      return null;
+    } finally {
+      setEmptying(false);
+    }
+  }, [isAuthenticated, refreshToken]);
+
+  return {
+    items,
+    retentionDays,
+    loading,
+    emptying,
+    error,
+    scopeRequired,
+    fetchTrash,
+    emptyTrash,
+  };
+};
@@ -38,9 +38,18 @@ export async function apiRequest(
   });
 }
 
+// Endpoints that replay their stored result for a repeated Idempotency-Key
+// (api/lib/idempotency.ts), so resending after a dropped connection is safe
+const IDEMPOTENT_ENDPOINTS = ['/api/cleanup/', '/api/stripe/create-checkout', '/api/stripe/portal', '/api/subscription/cancel'];
+
 /**
  * Make an authenticated API call with automatic retry on 401.
  * If the access token expired, refreshes it and retries once.
+ *
+ * Mutating requests get an Idempotency-Key (unless the caller set one), reused
+ * for every retry of this call. Requests to idempotent endpoints are also resent
+ * once after a network error - the server replays the result if the first
+ * attempt got through.
  */
 export async function fetchWithAuth(
   endpoint: string,
@@ -48,22 +57,37 @@ export async function fetchWithAuth(
   refreshFn: () => Promise<boolean>
 ): Promise<Response> {
   const url = `${API_URL}${endpoint}`;
+  const method = (options.method || 'GET').toUpperCase();
+  const isMutation = !['GET', 'HEAD', 'OPTIONS'].includes(method);
   const fetchOptions: RequestInit = {
     ...options,
     headers: {
       'Content-Type': 'application/json',
       ...getCSRFHeaders(),
+      ...(isMutation && { 'Idempotency-Key': crypto.randomUUID() }),
       ...options.headers,
     },
     credentials: 'include',
   };
 
-  let response = await fetch(url, fetchOptions);
+  const canResend = isMutation && IDEMPOTENT_ENDPOINTS.some(prefix => endpoint.startsWith(prefix));
+  const send = async (): Promise<Response> => {
+    try {
+      return await fetch(url, fetchOptions);
+    } catch (err: any) {
+      const isNetworkError = err.name === 'TypeError';
+      if (!canResend || !isNetworkError) throw err;
+      await new Promise(r => setTimeout(r, 1000));
+      return fetch(url, fetchOptions);
+    }
+  };
+
+  let response = await send();
 
   if (response.status === 401) {
     const refreshed = await refreshFn();
     if (refreshed) {
-      response = await fetch(url, fetchOptions);
+      response = await send();
     }
   }
 
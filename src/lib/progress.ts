@@ -0,0 +1,126 @@
+/**
+ * Live progress for syncs and cleanup actions
+ *
+ * Subscribes to GET /api/progress/stream (Server-Sent Events). EventSource
+ * reconnects by itself after a dropped connection; if the stream keeps
+ * failing (or EventSource isn't available) this falls back to polling
+ * GET /api/progress/status.
+ */
+
+import { API_URL, fetchWithAuth } from './api';
+
+export interface ProgressEvent {
+  operationId: string | null;
+  type: 'sync' | 'delete' | 'archive' | 'delete_older_than';
+  status: 'running' | 'completed' | 'failed' | 'idle';
+  phase: string;
+  processed: number;
+  total: number | null;
+  currentSender: string | null;
+  errors: Array<{ senderEmail?: string; message: string }>;
+  summary: Record<string, unknown> | null;
+  updatedAt: string | null;
+}
+
+export type ProgressTarget = { email: string } | { operationId: string };
+
+interface ProgressHandlers {
+  onProgress: (event: ProgressEvent) => void;
+  onComplete?: (event: ProgressEvent) => void;
+  refreshFn: () => Promise<boolean>;
+}
+
+// Consecutive stream errors (without a successful reconnect) before falling back to polling
+const MAX_STREAM_FAILURES = 3;
+const RECONNECT_DELAY_MS = 2000;
+const POLL_INTERVAL_MS = 2000;
+
+/**
+ * Follow progress for an account's sync ({ email }) or a cleanup action ({ operationId }).
+ * Returns a function that stops the subscription.
+ */
+export function subscribeToProgress(target: ProgressTarget, handlers: ProgressHandlers): () => void {
+  const { onProgress, onComplete, refreshFn } = handlers;
+  const isOperation = 'operationId' in target;
+  const query = isOperation
+    ? `operationId=${encodeURIComponent(target.operationId)}`
+    : `email=${encodeURIComponent(target.email)}`;
+
+  let stopped = false;
+  let source: EventSource | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let pollTimer: ReturnType<typeof setInterval> | null = null;
+  let failures = 0;
+
+  const stop = () => {
+    stopped = true;
+    source?.close();
+    source = null;
+    if (reconnectTimer) clearTimeout(reconnectTimer);
+    if (pollTimer) clearInterval(pollTimer);
+  };
+
+  const handleComplete = (event: ProgressEvent) => {
+    onComplete?.(event);
+    // A cleanup action is over once it completes; sync subscriptions keep watching
+    if (isOperation) stop();
+  };
+
+  const startPolling = () => {
+    source?.close();
+    source = null;
+    if (pollTimer || stopped) return;
+
+    pollTimer = setInterval(async () => {
+      if (document.visibilityState !== 'visible') return; // skip polling while tab is hidden
+      try {
+        const response = await fetchWithAuth(`/api/progress/status?${query}`, { method: 'GET' }, refreshFn);
+        if (!response.ok || stopped) return;
+        const { event } = await response.json() as { event: ProgressEvent | null };
+        if (!event) return;
+        if (event.status === 'running') {
+          onProgress(event);
+        } else if (isOperation) {
+          handleComplete(event);
+        }
+      } catch (e) {
+        // Polling errors are non-fatal — ignore silently
+      }
+    }, POLL_INTERVAL_MS);
+  };
+
+  const connect = () => {
+    if (stopped) return;
+    source = new EventSource(`${API_URL}/api/progress/stream?${query}`, { withCredentials: true });
+
+    source.addEventListener('open', () => { failures = 0; });
+    source.addEventListener('progress', (e) => {
+      onProgress(JSON.parse((e as MessageEvent).data));
+    });
+    source.addEventListener('complete', (e) => {
+      handleComplete(JSON.parse((e as MessageEvent).data));
+    });
+    source.addEventListener('error', () => {
+      if (stopped) return;
+      failures++;
+      if (failures >= MAX_STREAM_FAILURES) {
+        startPolling();
+        return;
+      }
+      // EventSource retries dropped connections itself, but gives up on error
+      // responses (e.g. rate limited) - reconnect those ourselves
+      if (source?.readyState === EventSource.CLOSED) {
+        source = null;
+        reconnectTimer = setTimeout(connect, RECONNECT_DELAY_MS * failures);
+      }
+    });
+  };
+
+  if (typeof EventSource === 'undefined') {
+    startPolling();
+  } else {
+    connect();
+  }
+
+  return stop;
+}
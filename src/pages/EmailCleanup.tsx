@@ -13,7 +13,8 @@ import { useAuth } from '../context/AuthContext';
 import { useDashboardData } from '../hooks/useDashboardData';
 import { useGmailConnection } from '../hooks/useGmailConnection';
 import { useEmailSenders, Sender, EmailMessage } from '../hooks/useEmailSenders';
-import { useCleanupActions, CleanupError } from '../hooks/useCleanupActions';
+import { useCleanupActions, CleanupError, CleanupPreview, OlderThanFilters, OlderThanPreview } from '../hooks/useCleanupActions';
+import { useCleanupJobs, isCleanupJobFinished } from '../hooks/useCleanupJobs';
 import { useOutlookConnection } from '../hooks/useOutlookConnection';
 import { useSubscription } from '../hooks/useSubscription';
 import CleanupConfirmModal from '../components/email/CleanupConfirmModal';
@@ -28,21 +29,32 @@ import {
   filterAndSortSenders,
   getSendersByTimePeriod,
   filterPendingBulkDeletions,
+  expandSenderGroups,
+  formatBytes,
 } from '../components/email/cleanup/emailCleanupUtils';
 import SenderSkeleton from '../components/email/cleanup/SenderSkeleton';
 import SyncProgressBar from '../components/email/cleanup/SyncProgressBar';
 import UndoToast from '../components/email/cleanup/UndoToast';
+import CleanupJobPanel from '../components/email/cleanup/CleanupJobPanel';
 import UpgradeModal from '../components/email/cleanup/UpgradeModal';
 import SearchAndFilterBar from '../components/email/cleanup/SearchAndFilterBar';
 import OnboardingView from '../components/email/cleanup/OnboardingView';
 import ToolsSelectionView from '../components/email/cleanup/ToolsSelectionView';
 import { cleanupTools } from '../components/email/cleanup/ToolsSelectionView';
+import type { CleanupSuggestion } from '../hooks/useRecommendations';
 import DeleteView from '../components/email/cleanup/DeleteView';
 import UnsubscribeView from '../components/email/cleanup/UnsubscribeView';
 import BulkDeleteView from '../components/email/cleanup/ArchiveView';
 import TopSendersView from '../components/email/cleanup/TopSendersView';
+import TrashView from '../components/email/cleanup/TrashView';
+import MailingListsView from '../components/email/cleanup/MailingListsView';
+import StorageView from '../components/email/cleanup/StorageView';
 
 const FREE_TRIAL_LIMIT = 5;
+// Larger delete selections run as a background cleanup job (see useCleanupJobs)
+const MAX_SENDERS_PER_REQUEST = 10;
+// Providers we can sync and clean up (Yahoo/iCloud over IMAP)
+const SYNCABLE_PROVIDERS = ['Gmail', 'Outlook', 'Yahoo', 'iCloud'];
 
 const EmailCleanup = () => {
   const { isAuthenticated, user, refreshToken } = useAuth();
@@ -52,7 +64,7 @@ const EmailCleanup = () => {
   const { subscription, isPaid, isUnlimited, hasFullTools, isExpired, loading: subscriptionLoading } = useSubscription();
   const [searchParams, setSearchParams] = useSearchParams();
 
-  const validTools = ['delete', 'unsubscribe', 'bulk-delete', 'top-senders'];
+  const validTools = ['delete', 'unsubscribe', 'lists', 'bulk-delete', 'top-senders', 'storage', 'trash'];
   const toolParam = searchParams.get('tool');
   const selectedTool = toolParam && validTools.includes(toolParam) ? toolParam : null;
 
@@ -80,7 +92,7 @@ const EmailCleanup = () => {
 
   // Sync currentView with URL — handles back/forward navigation and direct URL access
   // Also gate Pro-only tools: if a non-Pro user navigates to ?tool=unsubscribe or ?tool=bulk-delete, redirect to checkout
-  const proOnlyTools = ['unsubscribe', 'bulk-delete'];
+  const proOnlyTools = ['unsubscribe', 'lists', 'bulk-delete', 'storage'];
   useEffect(() => {
     if (!subscriptionLoading && selectedTool && proOnlyTools.includes(selectedTool) && !hasFullTools && !isExpired) {
       navigate('/checkout', { replace: true });
@@ -161,8 +173,16 @@ const EmailCleanup = () => {
   const [loadingEmails, setLoadingEmails] = useState<string | null>(null);
   const [viewingEmail, setViewingEmail] = useState<{ messageId: string; accountEmail: string; senderEmail: string; senderName: string } | null>(null);
 
-  const { deleteSingleEmail, deleteEmails, unsubscribe, loading: cleanupLoading } = useCleanupActions();
+  const {
+    deleteSingleEmail, deleteEmails, unsubscribe, deleteOlderThan, previewCleanup,
+    markRead, setSenderMuted, mergeSenders, splitSenderGroup, loading: cleanupLoading
+  } = useCleanupActions();
+  const [cleanupPreview, setCleanupPreview] = useState<CleanupPreview | null>(null);
+  const [previewLoading, setPreviewLoading] = useState(false);
+  const previewRequestRef = useRef(0);
+  const { job: cleanupJob, error: cleanupJobError, startJob, cancelJob, retryFailed, dismiss: dismissCleanupJob } = useCleanupJobs();
   const [sessionDeletedCount, setSessionDeletedCount] = useState(0);
+  const [deletingOlderThan, setDeletingOlderThan] = useState(false);
 
   // Free trial tracking
   const sessionKey = 'cleaninbox_free_actions_optimistic';
@@ -196,6 +216,18 @@ const EmailCleanup = () => {
       .catch(() => setFreeActionsLoaded(true));
   }, [isAuthenticated, freeActionsLoaded]);
 
+  // Refresh the sender list once a background cleanup job finishes
+  const cleanupJobFinished = cleanupJob ? isCleanupJobFinished(cleanupJob) : false;
+  useEffect(() => {
+    if (cleanupJobFinished) fetchSenders();
+  }, [cleanupJobFinished]);
+
+  useEffect(() => {
+    if (cleanupJobError && !cleanupJob) {
+      setNotification({ type: 'error', message: cleanupJobError });
+    }
+  }, [cleanupJobError, cleanupJob]);
+
   const freeActionsRemaining = FREE_TRIAL_LIMIT - freeActionsUsed;
   const hasFreeTries = freeActionsRemaining > 0;
   const hasPaidPlan = hasFullTools;  // gates unsubscribe tool (Pro+)
@@ -203,7 +235,7 @@ const EmailCleanup = () => {
 
   // Connected accounts
   const connectedGmailAccounts = emailAccounts?.filter(
-    (acc: any) => (acc.provider === 'Gmail' || acc.provider === 'Outlook') && acc.connection_status === 'connected'
+    (acc: any) => SYNCABLE_PROVIDERS.includes(acc.provider) && acc.connection_status === 'connected'
   ) || [];
 
   useEffect(() => {
@@ -217,7 +249,7 @@ const EmailCleanup = () => {
     : connectedGmailAccounts[0];
 
   const anyGmailAccount = emailAccounts?.find(
-    (acc: any) => acc.provider === 'Gmail' || acc.provider === 'Outlook' || acc.email?.includes('gmail')
+    (acc: any) => SYNCABLE_PROVIDERS.includes(acc.provider) || acc.email?.includes('gmail')
   );
 
   // Auto-sync
@@ -273,7 +305,7 @@ const EmailCleanup = () => {
             deleteSingleEmail(connectedGmailAccount.email, pending.email.id, pending.senderEmail);
           } else if (pending.type === 'bulk' && pending.senderEmails && pending.senderNames) {
             if (pending.action === 'delete') {
-              deleteEmails(connectedGmailAccount.email, pending.senderEmails, pending.senderNames);
+              deleteEmails(connectedGmailAccount.email, pending.senderEmails, pending.senderNames, { permanent: pending.permanent });
             }
           }
         }
@@ -304,6 +336,25 @@ const EmailCleanup = () => {
     }
   };
 
+  // A suggested cleanup opens its tool filtered to that sender
+  const handleSuggestionSelect = (suggestion: CleanupSuggestion) => {
+    const toolId = suggestion.action === 'unsubscribe' ? 'unsubscribe' : 'delete';
+    handleToolSelect(toolId);
+    if (hasPaidPlan || toolId === 'delete') {
+      setSearchTerm(suggestion.senderEmail);
+    }
+  };
+
+  // Reconnect Gmail with the full mail scope, which permanent delete needs
+  const handleGrantPermanentDelete = async () => {
+    const authUrl = await connectGmail({ permanentDelete: true });
+    if (authUrl) {
+      window.location.href = authUrl;
+    } else {
+      setNotification({ type: 'error', message: 'Failed to get Gmail authorization URL. Please try again.' });
+    }
+  };
+
   const handleBackToTools = () => {
     setCurrentView('tools');
     setSearchParams({});
@@ -353,14 +404,29 @@ const EmailCleanup = () => {
       }
     }
     setConfirmModal({ isOpen: true, action, senders: senderList });
+
+    // Dry run for exact counts and warnings - ignore it if the modal has moved on
+    setCleanupPreview(null);
+    if (!connectedGmailAccount) return;
+    const requestId = ++previewRequestRef.current;
+    setPreviewLoading(true);
+    previewCleanup(connectedGmailAccount.email, action, expandSenderGroups(senderList))
+      .then(preview => {
+        if (previewRequestRef.current === requestId) setCleanupPreview(preview);
+      })
+      .finally(() => {
+        if (previewRequestRef.current === requestId) setPreviewLoading(false);
+      });
   };
 
-  const executeCleanupAction = async () => {
+  const executeCleanupAction = async ({ permanent }: { permanent: boolean }) => {
     if (!connectedGmailAccount) return;
 
     const { action, senders: actionSenders } = confirmModal;
-    const senderEmailsList = actionSenders.map(s => s.email);
-    const senderNamesList = actionSenders.map(s => s.name);
+    // Merged senders act on all of their members
+    const targets = expandSenderGroups(actionSenders);
+    const senderEmailsList = targets.map(t => t.email);
+    const senderNamesList = targets.map(t => t.name);
 
     if (action === 'unsubscribe') {
       try {
@@ -418,6 +484,7 @@ const EmailCleanup = () => {
       senders: [...actionSenders],
       senderEmails: senderEmailsList,
       senderNames: senderNamesList,
+      permanent,
       timeoutId
     };
 
@@ -446,8 +513,22 @@ const EmailCleanup = () => {
       if (pending.type === 'single' && pending.email && pending.senderEmail) {
         result = await deleteSingleEmail(connectedGmailAccount.email, pending.email.id, pending.senderEmail);
       } else if (pending.type === 'bulk' && pending.senderEmails && pending.senderNames) {
-        if (pending.action === 'delete') {
-          result = await deleteEmails(connectedGmailAccount.email, pending.senderEmails, pending.senderNames);
+        if (pending.action === 'delete' && !pending.permanent && pending.senderEmails.length > MAX_SENDERS_PER_REQUEST) {
+          // Large selections run as a background job - CleanupJobPanel shows progress and the report
+          // (jobs only move mail to trash, so permanent deletes never take this path)
+          const job = await startJob(connectedGmailAccount.email, 'delete', {
+            senderEmails: pending.senderEmails,
+            senderNames: pending.senderNames,
+          });
+          // Nothing was deleted - bring the senders back
+          if (!job) fetchSenders();
+        } else if (pending.action === 'delete') {
+          result = await deleteEmails(connectedGmailAccount.email, pending.senderEmails, pending.senderNames, { permanent: pending.permanent });
+          if (!result && pending.permanent) {
+            // Nothing was deleted (e.g. Gmail needs permanent delete access) - bring the senders back
+            setNotification({ type: 'error', message: 'Permanent delete failed. Gmail accounts need permanent delete access - grant it from the Trash tool.' });
+            fetchSenders();
+          }
         }
         if (pending.senders) {
           const senderKeys = pending.senders.map(s => ({ email: s.email, name: s.name }));
@@ -488,6 +569,131 @@ const EmailCleanup = () => {
     setPendingDeletions(prev => { const m = new Map(prev); m.delete(actionId); return m; });
   };
 
+  const handlePreviewOlderThan = async (filters: OlderThanFilters): Promise<OlderThanPreview | null> => {
+    if (!connectedGmailAccount) return null;
+    const result = await deleteOlderThan(connectedGmailAccount.email, filters, true);
+    return result && 'preview' in result ? result : null;
+  };
+
+  const handleDeleteOlderThan = async (filters: OlderThanFilters) => {
+    if (!connectedGmailAccount) return;
+    if (isExpired || !hasPaidPlan) { setShowUpgradeModal(true); return; }
+
+    setDeletingOlderThan(true);
+    let totalDeleted = 0;
+    let trashedBytes = 0;
+    let failed = false;
+    try {
+      // Server trashes in capped chunks - keep going until nothing is left
+      let hasMore = true;
+      while (hasMore) {
+        const result = await deleteOlderThan(connectedGmailAccount.email, filters);
+        if (!result || 'preview' in result) { failed = true; break; }
+        totalDeleted += result.totalDeleted;
+        trashedBytes += result.trashedBytes || 0;
+        hasMore = result.hasMore && result.totalDeleted > 0;
+      }
+    } finally {
+      setDeletingOlderThan(false);
+    }
+
+    if (totalDeleted > 0) {
+      setSessionDeletedCount(prev => prev + totalDeleted);
+      setNotification({ type: 'success', message: `Deleted ${totalDeleted.toLocaleString()} old email${totalDeleted === 1 ? '' : 's'}${trashedBytes > 0 ? `, freeing ${formatBytes(trashedBytes)} once your trash is emptied` : ''}` });
+    } else if (failed) {
+      setNotification({ type: 'error', message: 'Failed to delete old emails' });
+    }
+    fetchSenders();
+  };
+
+  const handleMarkRead = async (sender: Sender) => {
+    if (!connectedGmailAccount) return;
+    if (isExpired) { setShowUpgradeModal(true); return; }
+    if (isFreeTrial && sender.unreadCount > freeActionsRemaining) {
+      setNotification({ type: 'error', message: `Not enough free actions. This requires ${sender.unreadCount} but you have ${freeActionsRemaining} left. Upgrade for unlimited cleanup.` });
+      return;
+    }
+
+    // A merged sender can have more members than one request takes - the server expands it
+    const result = sender.groupId
+      ? await markRead(connectedGmailAccount.email, [], [], [sender.groupId])
+      : await markRead(connectedGmailAccount.email, [sender.email], [sender.name]);
+    if (result) {
+      if (result.freeTrialRemaining !== undefined && isFreeTrial) {
+        const serverUsed = FREE_TRIAL_LIMIT - result.freeTrialRemaining;
+        setFreeActionsUsed(prev => Math.max(prev, serverUsed));
+      }
+      setNotification({ type: 'success', message: `Marked ${result.totalMarked.toLocaleString()} email${result.totalMarked === 1 ? '' : 's'} as read` });
+      fetchSenders();
+    } else {
+      setNotification({ type: 'error', message: 'Failed to mark emails as read' });
+    }
+  };
+
+  const handleToggleMute = async (sender: Sender) => {
+    if (!connectedGmailAccount) return;
+    if (isExpired) { setShowUpgradeModal(true); return; }
+
+    // Muting marks the sender's unread mail read, which counts against the free trial
+    if (!sender.isMuted && isFreeTrial && sender.unreadCount > freeActionsRemaining) {
+      setNotification({ type: 'error', message: `Not enough free actions. This requires ${sender.unreadCount} but you have ${freeActionsRemaining} left. Upgrade for unlimited cleanup.` });
+      return;
+    }
+
+    // Mutes are per address - a merged sender mutes every member address
+    const addresses = [...new Set(expandSenderGroups([sender]).map(t => t.email))];
+    let result = null;
+    for (const address of addresses) {
+      result = await setSenderMuted(connectedGmailAccount.email, address, !sender.isMuted);
+      if (!result) break;
+      if (result.freeTrialRemaining !== undefined && isFreeTrial) {
+        const serverUsed = FREE_TRIAL_LIMIT - result.freeTrialRemaining;
+        setFreeActionsUsed(prev => Math.max(prev, serverUsed));
+      }
+    }
+    if (result) {
+      setNotification({
+        type: 'success',
+        message: result.muted
+          ? `Muted ${sender.email}. New emails from them will be marked as read.`
+          : `Unmuted ${sender.email}`
+      });
+      fetchSenders();
+    } else {
+      setNotification({ type: 'error', message: 'Failed to update muted sender' });
+    }
+  };
+
+  const handleMergeSelected = async () => {
+    if (!connectedGmailAccount) return;
+
+    // Merging into an already-merged sender keeps its address-wide members
+    const selected = getSelectedSenders();
+    const target = selected.find(s => s.groupId);
+    const members = expandSenderGroups(selected.filter(s => s !== target));
+
+    const result = await mergeSenders(connectedGmailAccount.email, members, { groupId: target?.groupId });
+    if (result) {
+      setNotification({ type: 'success', message: `Merged ${selected.length} senders` });
+      setSelectedSenderKeys([]);
+      fetchSenders();
+    } else {
+      setNotification({ type: 'error', message: 'Failed to merge senders' });
+    }
+  };
+
+  const handleSplitGroup = async (sender: Sender) => {
+    if (!connectedGmailAccount || !sender.groupId) return;
+
+    const result = await splitSenderGroup(connectedGmailAccount.email, sender.groupId);
+    if (result) {
+      setNotification({ type: 'success', message: `Split ${sender.groupName || sender.name} into ${sender.groupMembers?.length || 0} senders` });
+      fetchSenders();
+    } else {
+      setNotification({ type: 'error', message: 'Failed to split sender' });
+    }
+  };
+
   const handleDeleteSingleEmail = (email: EmailMessage, senderEmail: string, senderName: string) => {
     if (!connectedGmailAccount) return;
     if (isFreeTrial && !hasFreeTries) { setShowUpgradeModal(true); return; }
@@ -611,6 +817,8 @@ const EmailCleanup = () => {
         onConnectGmail={handleConnectGmail}
         onConnectOutlook={handleConnectOutlook}
         onStartCleaning={() => setCurrentView('tools')}
+        accountEmail={connectedGmailAccount?.email}
+        onSuggestionSelect={handleSuggestionSelect}
       />
     );
   }
@@ -624,6 +832,8 @@ const EmailCleanup = () => {
         freeActionsRemaining={freeActionsRemaining}
         notification={notification}
         onToolSelect={handleToolSelect}
+        accountEmail={connectedGmailAccount?.email}
+        onSuggestionSelect={handleSuggestionSelect}
       />
     );
   }
@@ -657,6 +867,9 @@ const EmailCleanup = () => {
         action={confirmModal.action}
         senders={confirmModal.senders}
         loading={cleanupLoading}
+        preview={cleanupPreview}
+        previewLoading={previewLoading}
+        allowPermanent={expandSenderGroups(confirmModal.senders).length <= MAX_SENDERS_PER_REQUEST}
       />
 
       <EmailViewModal
@@ -760,113 +973,162 @@ const EmailCleanup = () => {
           </div>
 
           <div className="bg-white dark:bg-gray-900 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 overflow-hidden">
-            <SearchAndFilterBar
-              searchTerm={searchTerm}
-              onSearchChange={setSearchTerm}
-              sortBy={sortBy}
-              sortDirection={sortDirection}
-              onSortChange={handleSortChange}
-              onToggleSortDirection={toggleSortDirection}
-              selectedCount={selectedSenderKeys.length}
-              totalVisible={doFilterAndSort(senders).length}
-              onSelectAll={handleSelectAll}
-              onDeleteSelected={() => handleCleanupAction('delete', getSelectedSenders())}
-              hasPaidPlan={hasPaidPlan}
-            />
-
-            {/* Compact progress bar when syncing with senders visible (Phase 2) */}
-            {syncing && senders.length > 0 && (
-              <SyncProgressBar syncPhase={syncPhase} hasSenders={true} syncProgress={syncProgress} />
-            )}
+            {selectedTool === 'trash' ? (
+              connectedGmailAccount && (
+                <TrashView
+                  accountEmail={connectedGmailAccount.email}
+                  onGrantAccess={handleGrantPermanentDelete}
+                  onEmptied={(purged, reclaimedBytes) => setNotification({ type: 'success', message: `Permanently deleted ${purged.toLocaleString()} email${purged !== 1 ? 's' : ''}${reclaimedBytes > 0 ? `, freeing ${formatBytes(reclaimedBytes)}` : ''}` })}
+                />
+              )
+            ) : selectedTool === 'lists' ? (
+              connectedGmailAccount && (
+                <MailingListsView
+                  accountEmail={connectedGmailAccount.email}
+                  onNotify={setNotification}
+                  onDeleted={() => fetchSenders()}
+                />
+              )
+            ) : selectedTool === 'storage' ? (
+              connectedGmailAccount && (
+                <StorageView
+                  accountEmail={connectedGmailAccount.email}
+                  onNotify={setNotification}
+                  onDeleted={() => fetchSenders()}
+                />
+              )
+            ) : (
+              <>
+                <SearchAndFilterBar
+                  searchTerm={searchTerm}
+                  onSearchChange={setSearchTerm}
+                  sortBy={sortBy}
+                  sortDirection={sortDirection}
+                  onSortChange={handleSortChange}
+                  onToggleSortDirection={toggleSortDirection}
+                  selectedCount={selectedSenderKeys.length}
+                  totalVisible={doFilterAndSort(senders).length}
+                  onSelectAll={handleSelectAll}
+                  onDeleteSelected={() => handleCleanupAction('delete', getSelectedSenders())}
+                  onMergeSelected={handleMergeSelected}
+                  hasPaidPlan={hasPaidPlan}
+                />
+
+                {/* Compact progress bar when syncing with senders visible (Phase 2) */}
+                {syncing && senders.length > 0 && (
+                  <SyncProgressBar syncPhase={syncPhase} hasSenders={true} syncProgress={syncProgress} />
+                )}
 
-            {/* Loading/Syncing state when no senders yet */}
-            {(sendersLoading || syncing) && senders.length === 0 && (
-              <div className="px-4 py-3 space-y-3">
-                {syncing && (
-                  <SyncProgressBar syncPhase={syncPhase} hasSenders={false} syncProgress={syncProgress} />
+                {/* Loading/Syncing state when no senders yet */}
+                {(sendersLoading || syncing) && senders.length === 0 && (
+                  <div className="px-4 py-3 space-y-3">
+                    {syncing && (
+                      <SyncProgressBar syncPhase={syncPhase} hasSenders={false} syncProgress={syncProgress} />
+                    )}
+                    {[...Array(6)].map((_, i) => <SenderSkeleton key={i} />)}
+                  </div>
                 )}
-                {[...Array(6)].map((_, i) => <SenderSkeleton key={i} />)}
-              </div>
-            )}
 
-            {/* Empty state */}
-            {!sendersLoading && !syncing && senders.length === 0 && (
-              <div className="text-center py-12">
-                <Mail className="w-16 h-16 mx-auto text-gray-300 dark:text-gray-600 mb-4" />
-                <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100 mb-1">No emails found</h3>
-                <p className="text-gray-500 dark:text-gray-400 mb-4">
-                  {connectedGmailAccount
-                    ? 'Click "Sync Emails" to fetch your email senders.'
-                    : anyGmailAccount
-                    ? 'Your email account may need to be reconnected. Try syncing or reconnect in Dashboard.'
-                    : 'Connect your email account to get started.'}
-                </p>
-                <div className="flex flex-col sm:flex-row gap-3 justify-center">
-                  {(connectedGmailAccount || anyGmailAccount) && (
-                    <button onClick={() => handleSync()} disabled={syncing} className="inline-flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700">
-                      <RefreshCw className={`w-4 h-4 ${syncing ? 'animate-spin' : ''}`} /> Sync Emails
-                    </button>
-                  )}
-                  <button onClick={handleConnectGmail} className="inline-flex items-center gap-2 px-4 py-2 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600">
-                    <Mail className="w-4 h-4" /> {connectedGmailAccount ? 'Reconnect Email' : 'Connect Email'}
-                  </button>
-                </div>
-              </div>
-            )}
+                {/* Empty state */}
+                {!sendersLoading && !syncing && senders.length === 0 && (
+                  <div className="text-center py-12">
+                    <Mail className="w-16 h-16 mx-auto text-gray-300 dark:text-gray-600 mb-4" />
+                    <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100 mb-1">No emails found</h3>
+                    <p className="text-gray-500 dark:text-gray-400 mb-4">
+                      {connectedGmailAccount
+                        ? 'Click "Sync Emails" to fetch your email senders.'
+                        : anyGmailAccount
+                        ? 'Your email account may need to be reconnected. Try syncing or reconnect in Dashboard.'
+                        : 'Connect your email account to get started.'}
+                    </p>
+                    <div className="flex flex-col sm:flex-row gap-3 justify-center">
+                      {(connectedGmailAccount || anyGmailAccount) && (
+                        <button onClick={() => handleSync()} disabled={syncing} className="inline-flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700">
+                          <RefreshCw className={`w-4 h-4 ${syncing ? 'animate-spin' : ''}`} /> Sync Emails
+                        </button>
+                      )}
+                      <button onClick={handleConnectGmail} className="inline-flex items-center gap-2 px-4 py-2 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600">
+                        <Mail className="w-4 h-4" /> {connectedGmailAccount ? 'Reconnect Email' : 'Connect Email'}
+                      </button>
+                    </div>
+                  </div>
+                )}
 
-            {/* Tool-specific views */}
-            {!sendersLoading && senders.length > 0 && selectedTool === 'delete' && (
-              <DeleteView
-                sortBy={sortBy}
-                sendersByTimePeriod={timePeriodGroups}
-                flatSenders={flatDeleteSenders}
-                selectedSenderKeys={selectedSenderKeys}
-                expandedSenders={expandedSenders}
-                senderEmails={senderEmails}
-                loadingEmails={loadingEmails}
-                deletingEmailId={deletingEmailId}
-                hasPaidPlan={hasPaidPlan}
-                totalEmails={senders.reduce((sum, s) => sum + s.emailCount, 0)}
-                deletedCount={sessionDeletedCount}
-                syncing={syncing}
-                onToggleSenderExpand={toggleSenderExpand}
-                onToggleSenderSelection={toggleSenderSelection}
-                onDeleteSingleEmail={handleDeleteSingleEmail}
-                onViewEmail={handleViewEmail}
-                onCleanupAction={handleCleanupAction}
-              />
-            )}
+                {/* Tool-specific views */}
+                {!sendersLoading && senders.length > 0 && selectedTool === 'delete' && (
+                  <DeleteView
+                    sortBy={sortBy}
+                    sendersByTimePeriod={timePeriodGroups}
+                    flatSenders={flatDeleteSenders}
+                    selectedSenderKeys={selectedSenderKeys}
+                    expandedSenders={expandedSenders}
+                    senderEmails={senderEmails}
+                    loadingEmails={loadingEmails}
+                    deletingEmailId={deletingEmailId}
+                    hasPaidPlan={hasPaidPlan}
+                    totalEmails={senders.reduce((sum, s) => sum + s.emailCount, 0)}
+                    deletedCount={sessionDeletedCount}
+                    syncing={syncing}
+                    onToggleSenderExpand={toggleSenderExpand}
+                    onToggleSenderSelection={toggleSenderSelection}
+                    onDeleteSingleEmail={handleDeleteSingleEmail}
+                    onViewEmail={handleViewEmail}
+                    onCleanupAction={handleCleanupAction}
+                    onMarkRead={handleMarkRead}
+                    onToggleMute={handleToggleMute}
+                    onSplitGroup={handleSplitGroup}
+                  />
+                )}
 
-            {!sendersLoading && senders.length > 0 && selectedTool === 'unsubscribe' && (
-              <UnsubscribeView
-                senders={filteredUnsubscribable}
-                expandedSenders={expandedSenders}
-                senderEmails={senderEmails}
-                loadingEmails={loadingEmails}
-                deletingEmailId={deletingEmailId}
-                onToggleSenderExpand={toggleSenderExpand}
-                onDeleteSingleEmail={handleDeleteSingleEmail}
-                onViewEmail={handleViewEmail}
-                onCleanupAction={handleCleanupAction}
-              />
-            )}
+                {!sendersLoading && senders.length > 0 && selectedTool === 'unsubscribe' && (
+                  <UnsubscribeView
+                    senders={filteredUnsubscribable}
+                    expandedSenders={expandedSenders}
+                    senderEmails={senderEmails}
+                    loadingEmails={loadingEmails}
+                    deletingEmailId={deletingEmailId}
+                    onToggleSenderExpand={toggleSenderExpand}
+                    onDeleteSingleEmail={handleDeleteSingleEmail}
+                    onViewEmail={handleViewEmail}
+                    onCleanupAction={handleCleanupAction}
+                    onMarkRead={handleMarkRead}
+                    onToggleMute={handleToggleMute}
+                    onSplitGroup={handleSplitGroup}
+                  />
+                )}
 
-            {!sendersLoading && senders.length > 0 && selectedTool === 'bulk-delete' && (
-              <BulkDeleteView
-                senders={filteredBulkDeleteSenders}
-                selectedSenderKeys={selectedSenderKeys}
-                onToggleSenderSelection={toggleSenderSelection}
-                onCleanupAction={handleCleanupAction}
-              />
-            )}
+                {!sendersLoading && senders.length > 0 && selectedTool === 'bulk-delete' && (
+                  <BulkDeleteView
+                    senders={filteredBulkDeleteSenders}
+                    selectedSenderKeys={selectedSenderKeys}
+                    deletingOlderThan={deletingOlderThan}
+                    onToggleSenderSelection={toggleSenderSelection}
+                    onCleanupAction={handleCleanupAction}
+                    onPreviewOlderThan={handlePreviewOlderThan}
+                    onDeleteOlderThan={handleDeleteOlderThan}
+                  />
+                )}
 
-            {!sendersLoading && senders.length > 0 && selectedTool === 'top-senders' && (
-              <TopSendersView senders={doFilterPending(senders)} />
+                {!sendersLoading && senders.length > 0 && selectedTool === 'top-senders' && (
+                  <TopSendersView senders={doFilterPending(senders)} />
+                )}
+              </>
             )}
           </div>
         </div>
       </section>
 
+      {/* Background cleanup job progress / report */}
+      {cleanupJob && (
+        <CleanupJobPanel
+          job={cleanupJob}
+          error={cleanupJobError}
+          onCancel={cancelJob}
+          onRetry={retryFailed}
+          onDismiss={dismissCleanupJob}
+        />
+      )}
+
       {/* Undo Toasts */}
       {undoActions.map((action, index) => (
         <UndoToast
@@ -0,0 +1,10 @@
+-- Allow single-email deletes in cleanup_actions and speed up undo lookups
+-- delete-single.ts logs action_type 'delete_single', which the original CHECK rejected.
+-- Undo (POST /api/cleanup/undo) reads a user's actions from the last 30 days.
+
+ALTER TABLE cleanup_actions DROP CONSTRAINT IF EXISTS cleanup_actions_type_check;
+ALTER TABLE cleanup_actions ADD CONSTRAINT cleanup_actions_type_check
+  CHECK (action_type IN ('delete', 'delete_single', 'archive', 'unsubscribe', 'block'));
+
+CREATE INDEX IF NOT EXISTS idx_cleanup_actions_user_created
+  ON cleanup_actions(user_id, created_at DESC);
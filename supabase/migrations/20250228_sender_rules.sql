@@ -0,0 +1,42 @@
+-- Sender rules: persistent "always delete/archive mail from X" automation
+-- Evaluated by the sync pipeline for every sender touched by new mail.
+-- A rule matches a sender address or a whole domain, optionally only when the
+-- sender is flagged as promotional/newsletter, and can be limited by age
+-- (older_than_days) or by keeping only the newest N emails (keep_latest).
+
+CREATE TABLE IF NOT EXISTS sender_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  email_account_id UUID NOT NULL REFERENCES email_accounts(id) ON DELETE CASCADE,
+  match_type VARCHAR(20) NOT NULL,
+  match_value VARCHAR(255) NOT NULL,
+  category VARCHAR(20) NOT NULL DEFAULT 'any',
+  action VARCHAR(20) NOT NULL,
+  older_than_days INTEGER,
+  keep_latest INTEGER,
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  last_applied_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT sender_rules_match_type_check CHECK (match_type IN ('sender', 'domain')),
+  CONSTRAINT sender_rules_category_check CHECK (category IN ('any', 'promotions', 'newsletters')),
+  CONSTRAINT sender_rules_action_check CHECK (action IN ('delete', 'archive')),
+  CONSTRAINT sender_rules_older_than_check CHECK (older_than_days IS NULL OR older_than_days > 0),
+  CONSTRAINT sender_rules_keep_latest_check CHECK (keep_latest IS NULL OR keep_latest > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sender_rules_account_enabled ON sender_rules(email_account_id, enabled);
+CREATE INDEX IF NOT EXISTS idx_sender_rules_user ON sender_rules(user_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sender_rules_unique
+  ON sender_rules(email_account_id, match_type, match_value, category, action);
+
+ALTER TABLE sender_rules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own sender rules" ON sender_rules;
+
+CREATE POLICY "Users can view their own sender rules"
+  ON sender_rules FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Link rule-driven cleanup actions back to the rule that produced them
+ALTER TABLE cleanup_actions ADD COLUMN IF NOT EXISTS rule_id UUID REFERENCES sender_rules(id) ON DELETE SET NULL;
@@ -0,0 +1,12 @@
+-- Background sync worker support (worker.ts)
+-- next_sync_at: when the worker should next sync this account (plan interval + jitter).
+--   NULL means "due once the plan interval has elapsed since last_synced".
+-- sync_locked_until: per-account lease so only one worker syncs an account at a time.
+--   Expires on its own if a worker dies mid-sync.
+
+ALTER TABLE email_accounts ADD COLUMN IF NOT EXISTS next_sync_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE email_accounts ADD COLUMN IF NOT EXISTS sync_locked_until TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_email_accounts_next_sync
+  ON email_accounts(next_sync_at)
+  WHERE connection_status = 'connected';
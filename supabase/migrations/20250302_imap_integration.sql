@@ -0,0 +1,35 @@
+-- IMAP Integration Schema Migration (Yahoo, iCloud)
+-- Accounts connect with an app-specific password, stored AES-256-GCM encrypted.
+
+-- 1. Create imap_credentials table (mirrors gmail/outlook oauth token tables)
+CREATE TABLE IF NOT EXISTS imap_credentials (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  email_account_id UUID NOT NULL REFERENCES email_accounts(id) ON DELETE CASCADE,
+  imap_email TEXT NOT NULL,
+  imap_host TEXT NOT NULL,
+  imap_port INTEGER NOT NULL DEFAULT 993,
+  imap_secure BOOLEAN NOT NULL DEFAULT TRUE,
+  username TEXT NOT NULL,
+  password_encrypted TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(user_id, imap_email)
+);
+
+-- 2. Incremental sync state on email_accounts (INBOX UIDVALIDITY / last UID / CONDSTORE MODSEQ)
+-- MODSEQ is a 63-bit value, stored as text to avoid precision loss in JS
+ALTER TABLE email_accounts ADD COLUMN IF NOT EXISTS imap_uid_validity TEXT;
+ALTER TABLE email_accounts ADD COLUMN IF NOT EXISTS imap_last_uid BIGINT;
+ALTER TABLE email_accounts ADD COLUMN IF NOT EXISTS imap_highest_modseq TEXT;
+
+-- 3. Enable RLS - credentials are only ever read server-side
+ALTER TABLE imap_credentials ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access to IMAP credentials"
+  ON imap_credentials FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- 4. Index for faster lookups
+CREATE INDEX IF NOT EXISTS idx_imap_credentials_user_email
+  ON imap_credentials(user_id, imap_email);
@@ -0,0 +1,13 @@
+-- Gmail push notifications (users.watch -> Cloud Pub/Sub -> /api/gmail/push)
+-- gmail_watch_expiration: when the mailbox watch lapses. The worker renews watches
+--   a day before expiry; NULL means no watch has been registered yet.
+-- Push notifications pull next_sync_at forward so the worker syncs the account soon.
+
+ALTER TABLE email_accounts ADD COLUMN IF NOT EXISTS gmail_watch_expiration TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_email_accounts_gmail_watch
+  ON email_accounts(gmail_watch_expiration)
+  WHERE provider = 'Gmail' AND connection_status = 'connected';
+
+CREATE INDEX IF NOT EXISTS idx_email_accounts_gmail_email
+  ON email_accounts(gmail_email);
@@ -0,0 +1,17 @@
+-- Outlook change notifications (Microsoft Graph subscriptions -> /api/outlook/notifications)
+-- outlook_subscription_id:           Graph subscription on the account's inbox
+-- outlook_subscription_client_state: per-subscription secret Graph echoes back in every notification
+-- outlook_subscription_expiration:   when the subscription lapses. The worker renews it
+--   a day before expiry; NULL means it needs to be created (or reauthorized).
+-- Notifications pull next_sync_at forward so the worker syncs the account soon.
+
+ALTER TABLE email_accounts ADD COLUMN IF NOT EXISTS outlook_subscription_id TEXT;
+ALTER TABLE email_accounts ADD COLUMN IF NOT EXISTS outlook_subscription_client_state TEXT;
+ALTER TABLE email_accounts ADD COLUMN IF NOT EXISTS outlook_subscription_expiration TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_email_accounts_outlook_subscription
+  ON email_accounts(outlook_subscription_id) WHERE outlook_subscription_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_email_accounts_outlook_subscription_expiration
+  ON email_accounts(outlook_subscription_expiration)
+  WHERE provider = 'Outlook' AND connection_status = 'connected';
@@ -0,0 +1,46 @@
+-- Cleanup schedules: recurring unattended cleanups
+-- ("every Sunday, delete promotions older than 14 days")
+-- cron is a 5-field expression evaluated in `timezone`; the background worker
+-- runs schedules once next_run_at has passed and moves next_run_at forward.
+-- Targets are narrowed by sender list, newsletter/promotional flags, age and
+-- unread status (at least one of sender_emails/flags/older_than_days is required).
+
+CREATE TABLE IF NOT EXISTS cleanup_schedules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  email_account_id UUID NOT NULL REFERENCES email_accounts(id) ON DELETE CASCADE,
+  name VARCHAR(100),
+  cron VARCHAR(100) NOT NULL,
+  timezone VARCHAR(64) NOT NULL DEFAULT 'UTC',
+  action VARCHAR(20) NOT NULL,
+  sender_emails TEXT[] NOT NULL DEFAULT '{}',
+  newsletters_only BOOLEAN NOT NULL DEFAULT FALSE,
+  promotional_only BOOLEAN NOT NULL DEFAULT FALSE,
+  older_than_days INTEGER,
+  unread_only BOOLEAN NOT NULL DEFAULT FALSE,
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  next_run_at TIMESTAMP WITH TIME ZONE,
+  last_run_at TIMESTAMP WITH TIME ZONE,
+  last_run_status VARCHAR(20),
+  last_run_count INTEGER,
+  last_run_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT cleanup_schedules_action_check CHECK (action IN ('delete', 'archive')),
+  CONSTRAINT cleanup_schedules_older_than_check CHECK (older_than_days IS NULL OR older_than_days > 0),
+  CONSTRAINT cleanup_schedules_last_run_status_check CHECK (last_run_status IS NULL OR last_run_status IN ('completed', 'skipped', 'failed'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_cleanup_schedules_due ON cleanup_schedules(next_run_at) WHERE enabled = TRUE;
+CREATE INDEX IF NOT EXISTS idx_cleanup_schedules_user ON cleanup_schedules(user_id);
+
+ALTER TABLE cleanup_schedules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own cleanup schedules" ON cleanup_schedules;
+
+CREATE POLICY "Users can view their own cleanup schedules"
+  ON cleanup_schedules FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Link schedule-driven cleanup actions back to the schedule that produced them
+ALTER TABLE cleanup_actions ADD COLUMN IF NOT EXISTS schedule_id UUID REFERENCES cleanup_schedules(id) ON DELETE SET NULL;
@@ -0,0 +1,50 @@
+-- Resumable sync jobs for full/upgrade syncs of large mailboxes
+-- Each job is worked through in short steps; after every step the provider
+-- page token and counts are checkpointed so a crash or function timeout
+-- continues from there instead of restarting. locked_until is a short lease
+-- held by whichever request/worker is running the job.
+
+CREATE TABLE IF NOT EXISTS sync_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  email_account_id UUID NOT NULL REFERENCES email_accounts(id) ON DELETE CASCADE,
+  sync_type VARCHAR(20) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'running',
+  phase VARCHAR(20) NOT NULL DEFAULT 'fetching',
+  page_token TEXT,
+  listed_count INTEGER NOT NULL DEFAULT 0,
+  processed_count INTEGER NOT NULL DEFAULT 0,
+  fetched_count INTEGER NOT NULL DEFAULT 0,
+  progress_total INTEGER,
+  email_limit INTEGER NOT NULL,
+  failure_count INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  locked_until TIMESTAMP WITH TIME ZONE,
+  started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE,
+  CONSTRAINT sync_jobs_type_check CHECK (sync_type IN ('full', 'upgrade')),
+  CONSTRAINT sync_jobs_status_check CHECK (status IN ('running', 'completed', 'failed', 'cancelled')),
+  CONSTRAINT sync_jobs_phase_check CHECK (phase IN ('fetching', 'finalizing', 'done'))
+);
+
+-- At most one running job per account
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sync_jobs_running_account ON sync_jobs(email_account_id) WHERE status = 'running';
+CREATE INDEX IF NOT EXISTS idx_sync_jobs_stalled ON sync_jobs(updated_at) WHERE status = 'running';
+CREATE INDEX IF NOT EXISTS idx_sync_jobs_account_started ON sync_jobs(email_account_id, started_at DESC);
+
+ALTER TABLE sync_jobs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own sync jobs" ON sync_jobs;
+
+CREATE POLICY "Users can view their own sync jobs"
+  ON sync_jobs FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Which job last wrote each email; a finished full sync prunes emails it didn't see
+ALTER TABLE emails ADD COLUMN IF NOT EXISTS sync_job_id UUID;
+
+-- Unsubscribe details per email, so senders can be rebuilt from the emails table
+ALTER TABLE emails ADD COLUMN IF NOT EXISTS unsubscribe_link TEXT;
+ALTER TABLE emails ADD COLUMN IF NOT EXISTS mailto_unsubscribe_link TEXT;
+ALTER TABLE emails ADD COLUMN IF NOT EXISTS has_one_click_unsubscribe BOOLEAN DEFAULT FALSE;
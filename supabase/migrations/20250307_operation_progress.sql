@@ -0,0 +1,32 @@
+-- Live progress for long-running cleanup actions (bulk delete/archive, delete older than)
+-- The client generates the operation ID, passes it with the cleanup request and
+-- subscribes to GET /api/progress/stream?operationId=... while the request runs.
+-- Rows are short-lived; the worker prunes them after a day.
+
+CREATE TABLE IF NOT EXISTS operation_progress (
+  id UUID PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  email_account_id UUID NOT NULL REFERENCES email_accounts(id) ON DELETE CASCADE,
+  operation_type VARCHAR(30) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'running',
+  phase VARCHAR(30) NOT NULL DEFAULT 'starting',
+  processed_count INTEGER NOT NULL DEFAULT 0,
+  total_count INTEGER,
+  current_sender TEXT,
+  errors JSONB NOT NULL DEFAULT '[]'::jsonb,
+  summary JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT operation_progress_status_check CHECK (status IN ('running', 'completed', 'failed'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_operation_progress_user ON operation_progress(user_id);
+CREATE INDEX IF NOT EXISTS idx_operation_progress_updated ON operation_progress(updated_at);
+
+ALTER TABLE operation_progress ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own operation progress" ON operation_progress;
+
+CREATE POLICY "Users can view their own operation progress"
+  ON operation_progress FOR SELECT
+  USING (auth.uid() = user_id);
@@ -0,0 +1,8 @@
+-- Per-account lock shared by syncs and cleanups (api/lib/account-lock.ts)
+-- sync_locked_until (added for the background worker) becomes the lease expiry
+-- for every holder; the token identifies the holder so only it can renew or
+-- release the lease, and the operation is reported to conflicting requests.
+-- An expired lease (crashed server or worker) is reclaimed by the next caller.
+
+ALTER TABLE email_accounts ADD COLUMN IF NOT EXISTS sync_lock_token UUID;
+ALTER TABLE email_accounts ADD COLUMN IF NOT EXISTS sync_lock_operation VARCHAR(30);
@@ -0,0 +1,24 @@
+-- Idempotency-Key support for cleanup and billing POST endpoints (api/lib/idempotency.ts)
+-- The first request with a key stores its response here; repeats with the same
+-- key and body replay it instead of running the action again. Keys are kept for
+-- 24 hours and pruned by the worker.
+
+CREATE TABLE IF NOT EXISTS idempotency_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  idempotency_key VARCHAR(255) NOT NULL,
+  request_hash VARCHAR(64) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'processing',
+  response_status INTEGER,
+  response_body JSONB,
+  locked_until TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  CONSTRAINT idempotency_keys_status_check CHECK (status IN ('processing', 'completed')),
+  CONSTRAINT idempotency_keys_user_key UNIQUE (user_id, idempotency_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_idempotency_keys_expires ON idempotency_keys(expires_at);
+
+-- Server-side only (service role); no client access
+ALTER TABLE idempotency_keys ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,69 @@
+-- Bulk cleanup jobs: delete/archive any number of senders in the background
+-- (api/lib/cleanup-jobs.ts). The target senders are snapshotted into
+-- cleanup_job_senders when the job is created - from an explicit list or a
+-- filter such as "promotional senders with more than 20 emails" - and worked
+-- through one sender at a time. Each sender keeps its own status, counts and
+-- error so the client can show a per-sender report. locked_until is a short
+-- lease held by whichever request/worker is running the job.
+
+CREATE TABLE IF NOT EXISTS cleanup_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  email_account_id UUID NOT NULL REFERENCES email_accounts(id) ON DELETE CASCADE,
+  action VARCHAR(20) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'queued',
+  filter JSONB,
+  total_senders INTEGER NOT NULL DEFAULT 0,
+  processed_senders INTEGER NOT NULL DEFAULT 0,
+  failed_senders INTEGER NOT NULL DEFAULT 0,
+  total_emails INTEGER NOT NULL DEFAULT 0,
+  affected_emails INTEGER NOT NULL DEFAULT 0,
+  failed_emails INTEGER NOT NULL DEFAULT 0,
+  failure_count INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  locked_until TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  started_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE,
+  CONSTRAINT cleanup_jobs_action_check CHECK (action IN ('delete', 'archive')),
+  CONSTRAINT cleanup_jobs_status_check CHECK (status IN ('queued', 'running', 'completed', 'failed', 'cancelled'))
+);
+
+-- At most one unfinished job per account
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cleanup_jobs_active_account ON cleanup_jobs(email_account_id) WHERE status IN ('queued', 'running');
+CREATE INDEX IF NOT EXISTS idx_cleanup_jobs_pending ON cleanup_jobs(updated_at) WHERE status IN ('queued', 'running');
+CREATE INDEX IF NOT EXISTS idx_cleanup_jobs_user_created ON cleanup_jobs(user_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS cleanup_job_senders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES cleanup_jobs(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  sender_email VARCHAR(255) NOT NULL,
+  sender_name VARCHAR(255),
+  status VARCHAR(20) NOT NULL DEFAULT 'pending',
+  email_count INTEGER NOT NULL DEFAULT 0,
+  affected_count INTEGER NOT NULL DEFAULT 0,
+  failed_count INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  cleanup_action_id UUID REFERENCES cleanup_actions(id) ON DELETE SET NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT cleanup_job_senders_status_check CHECK (status IN ('pending', 'completed', 'partial', 'failed'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_cleanup_job_senders_job ON cleanup_job_senders(job_id, position);
+
+ALTER TABLE cleanup_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE cleanup_job_senders ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own cleanup jobs" ON cleanup_jobs;
+
+CREATE POLICY "Users can view their own cleanup jobs"
+  ON cleanup_jobs FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can view their own cleanup job senders" ON cleanup_job_senders;
+
+CREATE POLICY "Users can view their own cleanup job senders"
+  ON cleanup_job_senders FOR SELECT
+  USING (EXISTS (SELECT 1 FROM cleanup_jobs j WHERE j.id = job_id AND j.user_id = auth.uid()));
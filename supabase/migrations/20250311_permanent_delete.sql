@@ -0,0 +1,13 @@
+-- Permanent delete and "empty trash" (api/cleanup/delete.ts, api/cleanup/trash.ts)
+-- permanent: the sender cleanup skipped the trash, so there is nothing to undo.
+-- purged_at: when the trashed copies logged in gmail_message_ids were permanently
+-- deleted from the trash view. Both make the action non-undoable and drop it
+-- from the trash listing.
+
+ALTER TABLE cleanup_actions ADD COLUMN IF NOT EXISTS permanent BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE cleanup_actions ADD COLUMN IF NOT EXISTS purged_at TIMESTAMP WITH TIME ZONE;
+
+-- Trash view: an account's trashed, not yet purged actions, newest first
+CREATE INDEX IF NOT EXISTS idx_cleanup_actions_trash
+  ON cleanup_actions(email_account_id, created_at DESC)
+  WHERE status = 'completed' AND permanent = FALSE AND purged_at IS NULL;
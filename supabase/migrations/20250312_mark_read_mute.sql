@@ -0,0 +1,29 @@
+-- Mark-as-read cleanup action and muted senders
+-- POST /api/cleanup/mark-read logs action_type 'mark_read'.
+-- A muted sender's new mail is marked read by the sync pipeline (see api/lib/muted-senders.ts).
+-- Mutes get their own table because email_senders rows are deleted once a
+-- sender has no emails left, and a mute has to outlive that.
+
+ALTER TABLE cleanup_actions DROP CONSTRAINT IF EXISTS cleanup_actions_type_check;
+ALTER TABLE cleanup_actions ADD CONSTRAINT cleanup_actions_type_check
+  CHECK (action_type IN ('delete', 'delete_single', 'archive', 'unsubscribe', 'block', 'mark_read'));
+
+CREATE TABLE IF NOT EXISTS muted_senders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  email_account_id UUID NOT NULL REFERENCES email_accounts(id) ON DELETE CASCADE,
+  sender_email VARCHAR(255) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_muted_senders_account_sender
+  ON muted_senders(email_account_id, sender_email);
+CREATE INDEX IF NOT EXISTS idx_muted_senders_user ON muted_senders(user_id);
+
+ALTER TABLE muted_senders ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own muted senders" ON muted_senders;
+
+CREATE POLICY "Users can view their own muted senders"
+  ON muted_senders FOR SELECT
+  USING (auth.uid() = user_id);
@@ -0,0 +1,32 @@
+-- Persistent merge/split of sender identities
+-- A sender group folds several name+email senders into one logical sender
+-- (see api/lib/sender-groups.ts). Groups live in their own table, keyed by
+-- sender_email/sender_name, because email_senders rows are deleted and
+-- re-inserted by every full sync rebuild.
+--
+-- members:  [{ "email": "...", "name": "..." | null }] - a null name takes every
+--           display name the address uses, now and in future syncs
+-- excluded: [{ "email": "...", "name": "..." }] - display names split back off
+--           an address-wide member (e.g. one product's no-reply@ mail)
+
+CREATE TABLE IF NOT EXISTS sender_groups (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  email_account_id UUID NOT NULL REFERENCES email_accounts(id) ON DELETE CASCADE,
+  name VARCHAR(255),
+  members JSONB NOT NULL DEFAULT '[]'::jsonb,
+  excluded JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sender_groups_account ON sender_groups(email_account_id);
+CREATE INDEX IF NOT EXISTS idx_sender_groups_user ON sender_groups(user_id);
+
+ALTER TABLE sender_groups ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own sender groups" ON sender_groups;
+
+CREATE POLICY "Users can view their own sender groups"
+  ON sender_groups FOR SELECT
+  USING (auth.uid() = user_id);
@@ -0,0 +1,13 @@
+-- Mailing-list identity (RFC 2919 List-Id) on stored emails
+-- One mailing list often sends from several addresses and display names, and
+-- one address (a shared no-reply@) can carry several lists. list_id is the
+-- "<list.example.com>" identifier from the List-Id header, lowercased and
+-- without the brackets; NULL for mail that wasn't sent through a list.
+-- Emails synced before this column existed stay NULL until the next full sync.
+
+ALTER TABLE emails ADD COLUMN IF NOT EXISTS list_id VARCHAR(255);
+
+-- Lists view and per-list cleanup (api/emails/lists.ts, api/cleanup/delete-list.ts)
+CREATE INDEX IF NOT EXISTS idx_emails_account_list
+  ON emails(email_account_id, list_id)
+  WHERE list_id IS NOT NULL;
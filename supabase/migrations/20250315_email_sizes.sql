@@ -0,0 +1,23 @@
+-- Message sizes for the storage-hog finder
+-- size_bytes is the provider's own size for the whole message (Gmail
+-- sizeEstimate, Graph PR_MESSAGE_SIZE, IMAP RFC822.SIZE); NULL when the
+-- provider didn't report one. has_attachments comes from the message structure.
+-- Emails synced before these columns existed stay NULL/FALSE until the next full sync.
+
+ALTER TABLE emails ADD COLUMN IF NOT EXISTS size_bytes BIGINT;
+ALTER TABLE emails ADD COLUMN IF NOT EXISTS has_attachments BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Sum of the sender's stored emails' size_bytes, kept alongside email_count
+ALTER TABLE email_senders ADD COLUMN IF NOT EXISTS total_size_bytes BIGINT NOT NULL DEFAULT 0;
+
+-- Storage freed by a cleanup (size of the messages it removed from the mailbox)
+ALTER TABLE cleanup_actions ADD COLUMN IF NOT EXISTS bytes_affected BIGINT NOT NULL DEFAULT 0;
+
+-- Large emails view and size-based cleanup (api/emails/large.ts, api/cleanup/delete-large.ts)
+CREATE INDEX IF NOT EXISTS idx_emails_account_size
+  ON emails(email_account_id, size_bytes DESC)
+  WHERE size_bytes IS NOT NULL;
+
+-- Largest senders sort (GET /api/emails/senders?sortBy=size)
+CREATE INDEX IF NOT EXISTS idx_email_senders_account_size
+  ON email_senders(email_account_id, total_size_bytes DESC);
@@ -0,0 +1,26 @@
+-- Sent-mail recipients for sender engagement scoring
+-- Sync only stores received mail, so whether the user ever replied to a sender
+-- comes from scanning the recipients of their sent mail (Gmail SENT, Outlook
+-- Sent Items) at the end of a full sync. See api/lib/engagement.ts.
+-- Kept apart from email_senders, which is rebuilt from emails on every sync.
+
+CREATE TABLE IF NOT EXISTS sent_recipients (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  email_account_id UUID NOT NULL REFERENCES email_accounts(id) ON DELETE CASCADE,
+  recipient_email VARCHAR(255) NOT NULL,
+  last_sent_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sent_recipients_account_recipient
+  ON sent_recipients(email_account_id, recipient_email);
+CREATE INDEX IF NOT EXISTS idx_sent_recipients_user ON sent_recipients(user_id);
+
+ALTER TABLE sent_recipients ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own sent recipients" ON sent_recipients;
+
+CREATE POLICY "Users can view their own sent recipients"
+  ON sent_recipients FOR SELECT
+  USING (auth.uid() = user_id);
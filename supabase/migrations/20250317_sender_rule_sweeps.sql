@@ -0,0 +1,10 @@
+-- Worker sweeps for sender rules (api/lib/sender-rule-sweeps.ts)
+-- Sync only applies rules to senders with new mail, so "after N days" rules
+-- are also swept over every matching sender about once an hour. last_swept_at
+-- is when the worker last did that for the rule's account; NULL means never.
+
+ALTER TABLE sender_rules ADD COLUMN IF NOT EXISTS last_swept_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_sender_rules_sweep
+  ON sender_rules(last_swept_at NULLS FIRST)
+  WHERE enabled = TRUE;
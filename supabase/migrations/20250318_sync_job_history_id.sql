@@ -0,0 +1,6 @@
+-- Gmail historyId at the start of a full/upgrade sync job (api/emails/gmail-sync.ts)
+-- A job can span many requests; the next incremental sync has to resume from
+-- where the mailbox was when the job started listing, not when it finished,
+-- or mail that arrived in between is never synced.
+
+ALTER TABLE sync_jobs ADD COLUMN IF NOT EXISTS start_history_id TEXT;
@@ -0,0 +1,156 @@
+// CleanInbox Background Sync Worker
+//
+// Runs next to server.ts (`npm run start:worker`) and keeps connected inboxes
+// in sync on each plan's sync interval, so users don't have to press Sync Now.
+// Also resumes full/upgrade sync jobs whose client went away (api/lib/sync-jobs.ts)
+// and runs due cleanup schedules (api/lib/cleanup-schedules.ts), bulk
+// cleanup jobs (api/lib/cleanup-jobs.ts) and sender rule sweeps
+// (api/lib/sender-rule-sweeps.ts).
+// Also prunes old cleanup progress rows (api/lib/progress.ts) and expired
+// idempotency keys (api/lib/idempotency.ts).
+//
+// Env:
+//   SYNC_WORKER_CONCURRENCY  - accounts synced in parallel (default 3)
+//   SYNC_WORKER_TICK_MS      - delay between scheduler passes (default 60s)
+//   GMAIL_PUSH_TOPIC         - when set, also renews Gmail push watches (see api/lib/gmail-push.ts)
+//   OUTLOOK_NOTIFICATION_URL - when set, also renews Outlook Graph subscriptions (see api/lib/outlook-push.ts)
+
+import { runScheduledSyncTick, resumeStalledSyncJobs } from './api/emails/scheduled-sync.js';
+import { renewGmailWatches } from './api/lib/gmail-push.js';
+import { renewOutlookSubscriptions } from './api/lib/outlook-push.js';
+import { runDueCleanupSchedules } from './api/lib/cleanup-schedules.js';
+import { runPendingCleanupJobs } from './api/lib/cleanup-jobs.js';
+import { runDueSenderRuleSweeps } from './api/lib/sender-rule-sweeps.js';
+import { pruneOperationProgress } from './api/lib/progress.js';
+import { pruneIdempotencyKeys } from './api/lib/idempotency.js';
+
+const CONCURRENCY = Math.max(1, parseInt(process.env.SYNC_WORKER_CONCURRENCY || '', 10) || 3);
+const TICK_MS = Math.max(5000, parseInt(process.env.SYNC_WORKER_TICK_MS || '', 10) || 60 * 1000);
+
+let stopping = false;
+let timer: NodeJS.Timeout | null = null;
+let currentTick: Promise<void> | null = null;
+
+async function tick() {
+  const startedAt = Date.now();
+  try {
+    const results = await runScheduledSyncTick(CONCURRENCY);
+    if (results.length > 0) {
+      const counts = results.reduce<Record<string, number>>((acc, r) => {
+        acc[r.status] = (acc[r.status] || 0) + 1;
+        return acc;
+      }, {});
+      console.log(`🔄 Scheduled sync: ${results.length} account(s) in ${Date.now() - startedAt}ms`, counts);
+      for (const r of results.filter(r => r.status === 'failed')) {
+        console.warn(`Scheduled sync failed for account ${r.accountId}: ${r.message}`);
+      }
+    }
+  } catch (error: any) {
+    console.error('Scheduled sync tick error:', error);
+  }
+
+  try {
+    const jobResults = await resumeStalledSyncJobs();
+    for (const r of jobResults) {
+      const log = r.status === 'failed' ? console.warn : console.log;
+      log(`⏯️ Sync job for account ${r.accountId}: ${r.status}${r.message ? ` - ${r.message}` : ''}`);
+    }
+  } catch (error: any) {
+    console.error('Sync job resume error:', error);
+  }
+
+  try {
+    const renewed = await renewGmailWatches();
+    if (renewed > 0) {
+      console.log(`📬 Renewed ${renewed} Gmail push watch(es)`);
+    }
+  } catch (error: any) {
+    console.error('Gmail watch renewal error:', error);
+  }
+
+  try {
+    const renewed = await renewOutlookSubscriptions();
+    if (renewed > 0) {
+      console.log(`📬 Renewed ${renewed} Outlook subscription(s)`);
+    }
+  } catch (error: any) {
+    console.error('Outlook subscription renewal error:', error);
+  }
+
+  try {
+    const scheduleResults = await runDueCleanupSchedules();
+    for (const r of scheduleResults) {
+      const log = r.status === 'completed' || r.status === 'deferred' ? console.log : console.warn;
+      log(`🧹 Cleanup schedule ${r.scheduleId}: ${r.status} (${r.count} email(s))${r.message ? ` - ${r.message}` : ''}`);
+    }
+  } catch (error: any) {
+    console.error('Cleanup schedules tick error:', error);
+  }
+
+  try {
+    const jobResults = await runPendingCleanupJobs();
+    // Busy jobs are waiting on another runner or the account lock - not worth logging every tick
+    for (const r of jobResults.filter(r => r.status !== 'busy')) {
+      const log = r.status === 'failed' ? console.warn : console.log;
+      log(`🧹 Cleanup job ${r.jobId}: ${r.status}${r.message ? ` - ${r.message}` : ''}`);
+    }
+  } catch (error: any) {
+    console.error('Cleanup jobs tick error:', error);
+  }
+
+  try {
+    const sweepResults = await runDueSenderRuleSweeps();
+    // Busy accounts are retried next tick - not worth logging
+    for (const r of sweepResults.filter(r => r.status !== 'busy' && (r.status !== 'completed' || r.count > 0))) {
+      const log = r.status === 'failed' ? console.warn : console.log;
+      log(`📏 Sender rules for account ${r.accountId}: ${r.status} (${r.count} email(s))${r.message ? ` - ${r.message}` : ''}`);
+    }
+  } catch (error: any) {
+    console.error('Sender rule sweep error:', error);
+  }
+
+  try {
+    const pruned = await pruneOperationProgress();
+    if (pruned > 0) {
+      console.log(`🗑️ Pruned ${pruned} old progress record(s)`);
+    }
+  } catch (error: any) {
+    console.error('Progress prune error:', error);
+  }
+
+  try {
+    const pruned = await pruneIdempotencyKeys();
+    if (pruned > 0) {
+      console.log(`🗑️ Pruned ${pruned} expired idempotency key(s)`);
+    }
+  } catch (error: any) {
+    console.error('Idempotency key prune error:', error);
+  }
+}
+
+function scheduleNext(delayMs: number) {
+  if (stopping) return;
+  timer = setTimeout(() => {
+    currentTick = tick().finally(() => {
+      currentTick = null;
+      scheduleNext(TICK_MS);
+    });
+  }, delayMs);
+}
+
+async function shutdown(signal: string) {
+  console.log(`${signal} received, stopping sync worker...`);
+  stopping = true;
+  if (timer) clearTimeout(timer);
+  // Let in-flight syncs finish so account leases are released
+  if (currentTick) await currentTick;
+  process.exit(0);
+}
+
+process.on('SIGTERM', () => { shutdown('SIGTERM'); });
+process.on('SIGINT', () => { shutdown('SIGINT'); });
+
+console.log(`🕒 CleanInbox sync worker started (concurrency ${CONCURRENCY}, tick ${TICK_MS}ms)`);
+
+// Random start offset so several worker instances don't tick in lockstep
+scheduleNext(Math.floor(Math.random() * Math.min(TICK_MS, 10 * 1000)));